@@ -9,6 +9,7 @@ import WorkspaceSettings from "@/pages/settings/workspace/workspace-settings";
 import Groups from "@/pages/settings/group/groups";
 import GroupInfo from "./pages/settings/group/group-info";
 import Spaces from "@/pages/settings/space/spaces.tsx";
+import SpaceRoles from "@/pages/settings/space/space-roles.tsx";
 import { Error404 } from "@/components/ui/error-404.tsx";
 import AccountPreferences from "@/pages/settings/account/account-preferences.tsx";
 import SpaceHome from "@/pages/space/space-home.tsx";
@@ -38,6 +39,9 @@ import SpaceTrash from "@/pages/space/space-trash.tsx";
 import UserApiKeys from "@/ee/api-key/pages/user-api-keys";
 import WorkspaceApiKeys from "@/ee/api-key/pages/workspace-api-keys";
 import AiSettings from "@/ee/ai/pages/ai-settings.tsx";
+import Webhooks from "@/pages/settings/webhooks/webhooks.tsx";
+import AuditLog from "@/pages/settings/audit-log/audit-log.tsx";
+import LabelPages from "@/pages/label/label-pages.tsx";
 
 export default function App() {
   const { t } = useTranslation();
@@ -82,6 +86,7 @@ export default function App() {
           <Route path={"/spaces"} element={<SpacesPage />} />
           <Route path={"/s/:spaceSlug"} element={<SpaceHome />} />
           <Route path={"/s/:spaceSlug/trash"} element={<SpaceTrash />} />
+          <Route path={"/labels/:labelName"} element={<LabelPages />} />
           <Route
             path={"/s/:spaceSlug/p/:pageSlug"}
             element={
@@ -106,7 +111,10 @@ export default function App() {
             <Route path={"groups"} element={<Groups />} />
             <Route path={"groups/:groupId"} element={<GroupInfo />} />
             <Route path={"spaces"} element={<Spaces />} />
+            <Route path={"space-roles"} element={<SpaceRoles />} />
             <Route path={"sharing"} element={<Shares />} />
+            <Route path={"webhooks"} element={<Webhooks />} />
+            <Route path={"audit-log"} element={<AuditLog />} />
             <Route path={"security"} element={<Security />} />
             <Route path={"ai"} element={<AiSettings />} />
             {!isCloud() && <Route path={"license"} element={<License />} />}
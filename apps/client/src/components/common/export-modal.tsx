@@ -156,6 +156,8 @@ function ExportFormatSelection({ format, onChange }: ExportFormatSelection) {
       data={[
         { value: "markdown", label: "Markdown" },
         { value: "html", label: "HTML" },
+        { value: "pdf", label: "PDF" },
+        { value: "docx", label: "Word" },
       ]}
       defaultValue={format}
       onChange={onChange}
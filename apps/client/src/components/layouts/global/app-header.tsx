@@ -22,6 +22,7 @@ import {
   searchSpotlight,
   shareSearchSpotlight,
 } from "@/features/search/constants.ts";
+import NotificationMenu from "@/features/notification/components/notification-menu.tsx";
 
 const links = [{ link: APP_ROUTE.HOME, label: "Home" }];
 
@@ -110,6 +111,7 @@ export function AppHeader() {
                 : `${trialDaysLeft} days left`}
             </Badge>
           )} */}
+          <NotificationMenu />
           <TopMenu />
         </Group>
       </Group>
@@ -13,6 +13,9 @@ import {
   IconKey,
   IconWorld,
   IconSparkles,
+  IconWebhook,
+  IconListDetails,
+  IconShieldLock,
 } from "@tabler/icons-react";
 import { Link, useLocation } from "react-router-dom";
 import classes from "./settings.module.css";
@@ -100,7 +103,25 @@ const groupedData: DataGroup[] = [
       },
       { label: "Groups", icon: IconUsersGroup, path: "/settings/groups" },
       { label: "Spaces", icon: IconSpaces, path: "/settings/spaces" },
+      {
+        label: "Space roles",
+        icon: IconShieldLock,
+        path: "/settings/space-roles",
+        isAdmin: true,
+      },
       { label: "Public sharing", icon: IconWorld, path: "/settings/sharing" },
+      {
+        label: "Webhooks",
+        icon: IconWebhook,
+        path: "/settings/webhooks",
+        isAdmin: true,
+      },
+      {
+        label: "Audit log",
+        icon: IconListDetails,
+        path: "/settings/audit-log",
+        isAdmin: true,
+      },
       {
         label: "API management",
         icon: IconKey,
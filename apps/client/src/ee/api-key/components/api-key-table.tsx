@@ -1,4 +1,4 @@
-import { ActionIcon, Group, Menu, Table, Text } from "@mantine/core";
+import { ActionIcon, Group, Menu, Table, Text, Tooltip } from "@mantine/core";
 import { IconDots, IconEdit, IconTrash } from "@tabler/icons-react";
 import { format } from "date-fns";
 import { useTranslation } from "react-i18next";
@@ -41,6 +41,7 @@ export function ApiKeyTable({
           <Table.Tr>
             <Table.Th>{t("Name")}</Table.Th>
             {showUserColumn && <Table.Th>{t("User")}</Table.Th>}
+            <Table.Th>{t("Scopes")}</Table.Th>
             <Table.Th>{t("Last used")}</Table.Th>
             <Table.Th>{t("Expires")}</Table.Th>
             <Table.Th>{t("Created")}</Table.Th>
@@ -73,6 +74,24 @@ export function ApiKeyTable({
                   </Table.Td>
                 )}
 
+                <Table.Td>
+                  {apiKey.scopes === undefined ? (
+                    <Text fz="sm">-</Text>
+                  ) : apiKey.scopes ? (
+                    <Tooltip label={apiKey.scopes.join(", ")} multiline w={220}>
+                      <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                        {t("{{count}} scopes", {
+                          count: apiKey.scopes.length,
+                        })}
+                      </Text>
+                    </Tooltip>
+                  ) : (
+                    <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                      {t("Full access")}
+                    </Text>
+                  )}
+                </Table.Td>
+
                 <Table.Td>
                   <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
                     {formatDate(apiKey.lastUsedAt)}
@@ -134,7 +153,7 @@ export function ApiKeyTable({
               </Table.Tr>
             ))
           ) : (
-            <NoTableResults colSpan={showUserColumn ? 6 : 5} />
+            <NoTableResults colSpan={showUserColumn ? 7 : 6} />
           )}
         </Table.Tbody>
       </Table>
@@ -1,12 +1,22 @@
 import { lazy, Suspense, useState } from "react";
-import { Modal, TextInput, Button, Group, Stack, Select } from "@mantine/core";
+import {
+  Modal,
+  TextInput,
+  Button,
+  Group,
+  Stack,
+  Select,
+  Checkbox,
+  SimpleGrid,
+  Switch,
+} from "@mantine/core";
 import { useForm } from "@mantine/form";
 import { zodResolver } from "mantine-form-zod-resolver";
 import { z } from "zod";
 import { useTranslation } from "react-i18next";
 import { useCreateApiKeyMutation } from "@/ee/api-key/queries/api-key-query";
 import { IconCalendar } from "@tabler/icons-react";
-import { IApiKey } from "@/ee/api-key";
+import { API_KEY_SCOPES, ApiKeyScope, IApiKey } from "@/ee/api-key";
 
 const DateInput = lazy(() =>
   import("@mantine/dates").then((module) => ({
@@ -20,10 +30,17 @@ interface CreateApiKeyModalProps {
   onSuccess: (response: IApiKey) => void;
 }
 
-const formSchema = z.object({
-  name: z.string().min(1, "Name is required"),
-  expiresAt: z.string().optional(),
-});
+const formSchema = z
+  .object({
+    name: z.string().min(1, "Name is required"),
+    expiresAt: z.string().optional(),
+    fullAccess: z.boolean(),
+    scopes: z.array(z.string()),
+  })
+  .refine((values) => values.fullAccess || values.scopes.length > 0, {
+    message: "Select at least one scope",
+    path: ["scopes"],
+  });
 type FormValues = z.infer<typeof formSchema>;
 
 export function CreateApiKeyModal({
@@ -40,9 +57,21 @@ export function CreateApiKeyModal({
     initialValues: {
       name: "",
       expiresAt: "",
+      fullAccess: false,
+      scopes: [...API_KEY_SCOPES],
     },
   });
 
+  const scopeDescriptions: Record<ApiKeyScope, string> = {
+    "pages:read": t("Read pages"),
+    "pages:write": t("Create, update and delete pages"),
+    "spaces:read": t("Read spaces"),
+    "comments:read": t("Read comments"),
+    "comments:write": t("Create and delete comments"),
+    "attachments:read": t("Read and download attachments"),
+    "attachments:write": t("Upload attachments"),
+  };
+
   const getExpirationDate = (): string | undefined => {
     if (expirationOption === "never") {
       return undefined;
@@ -79,10 +108,13 @@ export function CreateApiKeyModal({
   const handleSubmit = async (data: {
     name?: string;
     expiresAt?: string | Date;
+    fullAccess?: boolean;
+    scopes?: string[];
   }) => {
     const groupData = {
       name: data.name,
       expiresAt: getExpirationDate(),
+      scopes: data.fullAccess ? null : (data.scopes as ApiKeyScope[]),
     };
 
     try {
@@ -138,6 +170,33 @@ export function CreateApiKeyModal({
             </Suspense>
           )}
 
+          <Switch
+            label={t("Full access")}
+            description={t(
+              "Allows every endpoint, including the internal API. Scoped keys can only use the versioned API.",
+            )}
+            {...form.getInputProps("fullAccess", { type: "checkbox" })}
+          />
+
+          {!form.values.fullAccess && (
+            <Checkbox.Group
+              label={t("Scopes")}
+              description={t("What this API key can access through the API")}
+              {...form.getInputProps("scopes")}
+            >
+              <SimpleGrid cols={2} mt="xs">
+                {API_KEY_SCOPES.map((scope) => (
+                  <Checkbox
+                    key={scope}
+                    value={scope}
+                    label={scope}
+                    description={scopeDescriptions[scope]}
+                  />
+                ))}
+              </SimpleGrid>
+            </Checkbox.Group>
+          )}
+
           <Group justify="flex-end" mt="md">
             <Button variant="default" onClick={handleClose}>
               {t("Cancel")}
@@ -13,7 +13,7 @@ import Paginate from "@/components/common/paginate";
 import { usePaginateAndSearch } from "@/hooks/use-paginate-and-search";
 import { useGetApiKeysQuery } from "@/ee/api-key/queries/api-key-query.ts";
 import { IApiKey } from "@/ee/api-key";
-import useUserRole from '@/hooks/use-user-role.tsx';
+import useUserRole from "@/hooks/use-user-role.tsx";
 
 export default function WorkspaceApiKeys() {
   const { t } = useTranslation();
@@ -14,6 +14,7 @@ import {
   IUpdateApiKeyRequest,
   revokeApiKey,
   updateApiKey,
+  updateApiKeyScopes,
 } from "@/ee/api-key";
 import { notifications } from "@mantine/notifications";
 import { useTranslation } from "react-i18next";
@@ -61,7 +62,20 @@ export function useCreateApiKeyMutation() {
   const { t } = useTranslation();
 
   return useMutation<IApiKey, Error, ICreateApiKeyRequest>({
-    mutationFn: (data) => createApiKey(data),
+    mutationFn: async ({ scopes, ...data }) => {
+      const apiKey = await createApiKey(data);
+      try {
+        const scopedKey = await updateApiKeyScopes({
+          apiKeyId: apiKey.id,
+          scopes,
+        });
+        return { ...apiKey, scopes: scopedKey.scopes };
+      } catch (err) {
+        // keys without saved scopes have no access, do not leave them behind
+        await revokeApiKey({ apiKeyId: apiKey.id }).catch(() => undefined);
+        throw err;
+      }
+    },
     onSuccess: () => {
       notifications.show({ message: t("API key created successfully") });
       queryClient.invalidateQueries({
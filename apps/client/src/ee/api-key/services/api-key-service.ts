@@ -3,6 +3,7 @@ import {
   ICreateApiKeyRequest,
   IApiKey,
   IUpdateApiKeyRequest,
+  IUpdateApiKeyScopesRequest,
 } from "@/ee/api-key/types/api-key.types";
 import { IPagination, QueryParams } from "@/lib/types.ts";
 
@@ -13,8 +14,9 @@ export async function getApiKeys(
   return req.data;
 }
 
+// scopes are saved separately, see updateApiKeyScopes
 export async function createApiKey(
-  data: ICreateApiKeyRequest,
+  data: Omit<ICreateApiKeyRequest, "scopes">,
 ): Promise<IApiKey> {
   const req = await api.post<IApiKey>("/api-keys/create", data);
   return req.data;
@@ -27,6 +29,13 @@ export async function updateApiKey(
   return req.data;
 }
 
+export async function updateApiKeyScopes(
+  data: IUpdateApiKeyScopesRequest,
+): Promise<IApiKey> {
+  const req = await api.post<IApiKey>("/api-keys/scopes", data);
+  return req.data;
+}
+
 export async function revokeApiKey(data: { apiKeyId: string }): Promise<void> {
   await api.post("/api-keys/revoke", data);
 }
@@ -8,6 +8,8 @@ export interface IApiKey {
   workspaceId: string;
   expiresAt: string | null;
   lastUsedAt: string | null;
+  // null grants full access, including the internal API
+  scopes?: ApiKeyScope[] | null;
   createdAt: string;
   creator: Partial<IUser>;
 }
@@ -15,9 +17,27 @@ export interface IApiKey {
 export interface ICreateApiKeyRequest {
   name: string;
   expiresAt?: string;
+  scopes: ApiKeyScope[] | null;
+}
+
+export interface IUpdateApiKeyScopesRequest {
+  apiKeyId: string;
+  scopes: ApiKeyScope[] | null;
 }
 
 export interface IUpdateApiKeyRequest {
   apiKeyId: string;
   name: string;
 }
+
+export const API_KEY_SCOPES = [
+  "pages:read",
+  "pages:write",
+  "spaces:read",
+  "comments:read",
+  "comments:write",
+  "attachments:read",
+  "attachments:write",
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
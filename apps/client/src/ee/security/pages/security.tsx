@@ -12,6 +12,7 @@ import { useTranslation } from "react-i18next";
 import useLicense from "@/ee/hooks/use-license.tsx";
 import usePlan from "@/ee/hooks/use-plan.tsx";
 import EnforceMfa from "@/ee/security/components/enforce-mfa.tsx";
+import ScimSettings from "@/features/scim/components/scim-settings.tsx";
 
 export default function Security() {
   const { t } = useTranslation();
@@ -52,6 +53,10 @@ export default function Security() {
       ) : null}
 
       <SsoProviderList />
+
+      <Divider my="lg" />
+
+      <ScimSettings />
     </>
   );
 }
@@ -0,0 +1,54 @@
+import { Button, Menu } from "@mantine/core";
+import { IconDownload } from "@tabler/icons-react";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { notifications } from "@mantine/notifications";
+import { exportAuditLogs } from "@/features/audit-log/services/audit-log-service.ts";
+import {
+  AuditExportFormat,
+  IAuditLogFilters,
+} from "@/features/audit-log/types/audit-log.types.ts";
+
+interface AuditLogExportMenuProps {
+  filters: IAuditLogFilters;
+}
+
+export default function AuditLogExportMenu({
+  filters,
+}: AuditLogExportMenuProps) {
+  const { t } = useTranslation();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (format: AuditExportFormat) => {
+    setIsExporting(true);
+    try {
+      await exportAuditLogs(filters, format);
+    } catch (err) {
+      notifications.show({
+        message: t("Export failed"),
+        color: "red",
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <Menu position="bottom-end" withArrow>
+      <Menu.Target>
+        <Button
+          size="xs"
+          variant="default"
+          leftSection={<IconDownload size={14} />}
+          loading={isExporting}
+        >
+          {t("Export")}
+        </Button>
+      </Menu.Target>
+      <Menu.Dropdown>
+        <Menu.Item onClick={() => handleExport("csv")}>CSV</Menu.Item>
+        <Menu.Item onClick={() => handleExport("json")}>JSON</Menu.Item>
+      </Menu.Dropdown>
+    </Menu>
+  );
+}
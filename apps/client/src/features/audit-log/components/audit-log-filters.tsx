@@ -0,0 +1,121 @@
+import { lazy, Suspense, useState } from "react";
+import { Group, Select } from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import { useTranslation } from "react-i18next";
+import { endOfDay, parseISO, startOfDay } from "date-fns";
+import { useWorkspaceMembersQuery } from "@/features/workspace/queries/workspace-query.ts";
+import {
+  AuditAction,
+  AuditResourceType,
+  IAuditLogFilters,
+} from "@/features/audit-log/types/audit-log.types.ts";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_RESOURCE_LABELS,
+} from "@/features/audit-log/constants.ts";
+
+const DatePickerInput = lazy(() =>
+  import("@mantine/dates").then((module) => ({
+    default: module.DatePickerInput,
+  })),
+);
+
+interface AuditLogFiltersProps {
+  filters: IAuditLogFilters;
+  onChange: (filters: IAuditLogFilters) => void;
+}
+
+export default function AuditLogFilters({
+  filters,
+  onChange,
+}: AuditLogFiltersProps) {
+  const { t } = useTranslation();
+  const [dateRange, setDateRange] = useState<[string | null, string | null]>([
+    null,
+    null,
+  ]);
+  const [actorSearch, setActorSearch] = useState("");
+  const [debouncedActorSearch] = useDebouncedValue(actorSearch, 500);
+  const { data: members } = useWorkspaceMembersQuery({
+    query: debouncedActorSearch,
+    limit: 50,
+  });
+
+  const handleDateRangeChange = (value: [string | null, string | null]) => {
+    setDateRange(value);
+    const [start, end] = value;
+    // wait until both ends of the range are picked
+    if (start && !end) return;
+
+    onChange({
+      ...filters,
+      startDate: start ? startOfDay(parseISO(start)).toISOString() : undefined,
+      endDate: end ? endOfDay(parseISO(end)).toISOString() : undefined,
+    });
+  };
+
+  const actionOptions = Object.entries(AUDIT_ACTION_LABELS).map(
+    ([value, label]) => ({ value, label: t(label) }),
+  );
+  const resourceOptions = Object.entries(AUDIT_RESOURCE_LABELS).map(
+    ([value, label]) => ({ value, label: t(label) }),
+  );
+  const memberOptions = (members?.items ?? []).map((member) => ({
+    value: member.id,
+    label: member.name,
+  }));
+
+  return (
+    <Group gap="xs" grow preventGrowOverflow={false} wrap="wrap">
+      <Select
+        size="xs"
+        data={actionOptions}
+        value={filters.action ?? null}
+        onChange={(value) =>
+          onChange({ ...filters, action: (value as AuditAction) || undefined })
+        }
+        placeholder={t("All actions")}
+        clearable
+        searchable
+      />
+      <Select
+        size="xs"
+        data={resourceOptions}
+        value={filters.resourceType ?? null}
+        onChange={(value) =>
+          onChange({
+            ...filters,
+            resourceType: (value as AuditResourceType) || undefined,
+          })
+        }
+        placeholder={t("All resources")}
+        clearable
+      />
+      <Select
+        size="xs"
+        data={memberOptions}
+        value={filters.actorId ?? null}
+        onChange={(value) =>
+          onChange({ ...filters, actorId: value || undefined })
+        }
+        searchValue={actorSearch}
+        onSearchChange={setActorSearch}
+        placeholder={t("Any member")}
+        nothingFoundMessage={t("No user found")}
+        clearable
+        searchable
+      />
+      <Suspense fallback={null}>
+        <DatePickerInput
+          size="xs"
+          type="range"
+          value={dateRange}
+          onChange={handleDateRangeChange}
+          placeholder={t("Any date")}
+          maxDate={new Date()}
+          clearable
+        />
+      </Suspense>
+    </Group>
+  );
+}
@@ -0,0 +1,153 @@
+import {
+  Badge,
+  Code,
+  Collapse,
+  Group,
+  Table,
+  Text,
+  UnstyledButton,
+} from "@mantine/core";
+import React, { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import NoTableResults from "@/components/common/no-table-results.tsx";
+import Paginate from "@/components/common/paginate.tsx";
+import { useAuditLogsQuery } from "@/features/audit-log/queries/audit-log-query.ts";
+import { IAuditLogFilters } from "@/features/audit-log/types/audit-log.types.ts";
+import {
+  AUDIT_ACTION_LABELS,
+  AUDIT_RESOURCE_LABELS,
+} from "@/features/audit-log/constants.ts";
+
+interface AuditLogTableProps {
+  filters: IAuditLogFilters;
+}
+
+export default function AuditLogTable({ filters }: AuditLogTableProps) {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string>(null);
+  const { data } = useAuditLogsQuery({ ...filters, page });
+  const entries = data?.items ?? [];
+
+  useEffect(() => {
+    setPage(1);
+  }, [filters]);
+
+  return (
+    <>
+      <Table.ScrollContainer minWidth={600}>
+        <Table verticalSpacing="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Action")}</Table.Th>
+              <Table.Th>{t("Member")}</Table.Th>
+              <Table.Th>{t("Resource")}</Table.Th>
+              <Table.Th>{t("Date")}</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+
+          <Table.Tbody>
+            {entries.length > 0 ? (
+              entries.map((entry) => (
+                <React.Fragment key={entry.id}>
+                  <Table.Tr>
+                    <Table.Td>
+                      <UnstyledButton
+                        onClick={() =>
+                          setExpandedId(
+                            expandedId === entry.id ? null : entry.id,
+                          )
+                        }
+                      >
+                        <Text fz="sm" fw={500}>
+                          {t(AUDIT_ACTION_LABELS[entry.action] ?? entry.action)}
+                        </Text>
+                        <Text fz="xs" c="dimmed">
+                          {entry.action}
+                        </Text>
+                      </UnstyledButton>
+                    </Table.Td>
+                    <Table.Td>
+                      {entry.actor ? (
+                        <Group gap="xs" wrap="nowrap">
+                          <CustomAvatar
+                            avatarUrl={entry.actor.avatarUrl}
+                            name={entry.actor.name}
+                            size="sm"
+                          />
+                          <Text fz="sm" lineClamp={1}>
+                            {entry.actor.name}
+                          </Text>
+                        </Group>
+                      ) : (
+                        <Text fz="sm" c="dimmed">
+                          {t("Unknown")}
+                        </Text>
+                      )}
+                    </Table.Td>
+                    <Table.Td>
+                      <Group gap="xs" wrap="nowrap">
+                        <Badge variant="light" color="gray">
+                          {t(
+                            AUDIT_RESOURCE_LABELS[entry.resourceType] ??
+                              entry.resourceType,
+                          )}
+                        </Badge>
+                        <Text fz="sm" lineClamp={1}>
+                          {entry.metadata?.title ??
+                            entry.metadata?.name ??
+                            entry.metadata?.email ??
+                            entry.metadata?.spaceName ??
+                            entry.resourceId}
+                        </Text>
+                      </Group>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                        {format(
+                          new Date(entry.createdAt),
+                          "MMM dd, yyyy HH:mm",
+                        )}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                  <Table.Tr>
+                    <Table.Td colSpan={4} p={0} style={{ border: 0 }}>
+                      <Collapse in={expandedId === entry.id}>
+                        <Code block m="sm">
+                          {JSON.stringify(
+                            {
+                              resourceId: entry.resourceId,
+                              spaceId: entry.spaceId,
+                              actorId: entry.actorId,
+                              ...entry.metadata,
+                            },
+                            null,
+                            2,
+                          )}
+                        </Code>
+                      </Collapse>
+                    </Table.Td>
+                  </Table.Tr>
+                </React.Fragment>
+              ))
+            ) : (
+              <NoTableResults colSpan={4} text={t("No audit log entries")} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      {entries.length > 0 && (
+        <Paginate
+          currentPage={page}
+          hasPrevPage={data?.meta.hasPrevPage}
+          hasNextPage={data?.meta.hasNextPage}
+          onPageChange={setPage}
+        />
+      )}
+    </>
+  );
+}
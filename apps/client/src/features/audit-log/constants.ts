@@ -0,0 +1,29 @@
+import {
+  AuditAction,
+  AuditResourceType,
+} from "@/features/audit-log/types/audit-log.types.ts";
+
+// labels are passed through t() when rendered
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  "workspace.member.role_changed": "Member role changed",
+  "workspace.member.deleted": "Member deleted",
+  "space.member.added": "Space member added",
+  "space.member.removed": "Space member removed",
+  "space.member.role_changed": "Space member role changed",
+  "share.created": "Share created",
+  "share.updated": "Share updated",
+  "share.deleted": "Share deleted",
+  "page.deleted": "Page moved to trash",
+  "page.permanently_deleted": "Page permanently deleted",
+  "page.restored": "Page restored",
+  "page.exported": "Page exported",
+  "space.exported": "Space exported",
+};
+
+export const AUDIT_RESOURCE_LABELS: Record<AuditResourceType, string> = {
+  user: "User",
+  group: "Group",
+  space: "Space",
+  page: "Page",
+  share: "Share",
+};
@@ -0,0 +1,21 @@
+import {
+  keepPreviousData,
+  useQuery,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import {
+  IAuditLog,
+  IAuditLogFilters,
+} from "@/features/audit-log/types/audit-log.types.ts";
+import { getAuditLogs } from "@/features/audit-log/services/audit-log-service.ts";
+
+export function useAuditLogsQuery(
+  params?: IAuditLogFilters & QueryParams,
+): UseQueryResult<IPagination<IAuditLog>, Error> {
+  return useQuery({
+    queryKey: ["audit-logs", params],
+    queryFn: () => getAuditLogs(params),
+    placeholderData: keepPreviousData,
+  });
+}
@@ -0,0 +1,32 @@
+import api from "@/lib/api-client";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import { saveAs } from "file-saver";
+import {
+  AuditExportFormat,
+  IAuditLog,
+  IAuditLogFilters,
+} from "@/features/audit-log/types/audit-log.types.ts";
+
+export async function getAuditLogs(
+  params?: IAuditLogFilters & QueryParams,
+): Promise<IPagination<IAuditLog>> {
+  const req = await api.post("/audit-logs", params);
+  return req.data;
+}
+
+export async function exportAuditLogs(
+  filters: IAuditLogFilters,
+  format: AuditExportFormat,
+): Promise<void> {
+  const req = await api.post(
+    "/audit-logs/export",
+    { ...filters, format },
+    { responseType: "blob" },
+  );
+
+  const fileName = req?.headers["content-disposition"]
+    .split("filename=")[1]
+    .replace(/"/g, "");
+
+  saveAs(req.data, decodeURIComponent(fileName));
+}
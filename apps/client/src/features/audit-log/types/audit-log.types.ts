@@ -0,0 +1,44 @@
+export type AuditAction =
+  | "workspace.member.role_changed"
+  | "workspace.member.deleted"
+  | "space.member.added"
+  | "space.member.removed"
+  | "space.member.role_changed"
+  | "share.created"
+  | "share.updated"
+  | "share.deleted"
+  | "page.deleted"
+  | "page.permanently_deleted"
+  | "page.restored"
+  | "page.exported"
+  | "space.exported";
+
+export type AuditResourceType = "user" | "group" | "space" | "page" | "share";
+
+export type AuditExportFormat = "csv" | "json";
+
+export interface IAuditLog {
+  id: string;
+  workspaceId: string;
+  actorId: string | null;
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId: string | null;
+  spaceId: string | null;
+  metadata: Record<string, any> | null;
+  createdAt: string;
+  actor?: {
+    id: string;
+    name: string;
+    email: string;
+    avatarUrl: string | null;
+  } | null;
+}
+
+export interface IAuditLogFilters {
+  action?: AuditAction;
+  actorId?: string;
+  resourceType?: AuditResourceType;
+  startDate?: string;
+  endDate?: string;
+}
@@ -15,7 +15,11 @@ import {
   useUpdateCommentMutation,
 } from "@/features/comment/queries/comment-query";
 import { useResolveCommentMutation } from "@/ee/comment/queries/comment-query";
-import { IComment } from "@/features/comment/types/comment.types";
+import {
+  CommentType,
+  IComment,
+} from "@/features/comment/types/comment.types";
+import CommentReactions from "@/features/comment/components/comment-reactions";
 import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
 import { currentUserAtom } from "@/features/user/atoms/current-user-atom.ts";
 import { useQueryEmit } from "@/features/websocket/use-query-emit";
@@ -46,6 +50,9 @@ function CommentListItem({
   const [currentUser] = useAtom(currentUserAtom);
   const emit = useQueryEmit();
   const isCloudEE = useIsCloudEE();
+  // page-level discussions are not tied to a selection, so they can't be resolved
+  const isResolvable =
+    !comment.parentCommentId && comment.type !== CommentType.PAGE;
 
   useEffect(() => {
     setContent(comment.content);
@@ -147,7 +154,7 @@ function CommentListItem({
             </Text>
 
             <div style={{ visibility: hovered ? "visible" : "hidden" }}>
-              {!comment.parentCommentId && canComment && isCloudEE && (
+              {isResolvable && canComment && isCloudEE && (
                 <ResolveComment
                   editor={editor}
                   commentId={comment.id}
@@ -163,7 +170,7 @@ function CommentListItem({
                   onResolveComment={handleResolveComment}
                   canEdit={currentUser?.user?.id === comment.creatorId}
                   isResolved={comment.resolvedAt != null}
-                  isParentComment={!comment.parentCommentId}
+                  isParentComment={isResolvable}
                 />
               )}
             </div>
@@ -188,7 +195,14 @@ function CommentListItem({
         )}
 
         {!isEditing ? (
-          <CommentEditor defaultContent={content} editable={false} />
+          <>
+            <CommentEditor defaultContent={content} editable={false} />
+            <CommentReactions
+              comment={comment}
+              pageId={pageId}
+              canReact={canComment}
+            />
+          </>
         ) : (
           <>
             <CommentEditor
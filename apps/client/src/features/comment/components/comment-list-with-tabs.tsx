@@ -9,7 +9,10 @@ import {
 import CommentEditor from "@/features/comment/components/comment-editor";
 import CommentActions from "@/features/comment/components/comment-actions";
 import { useFocusWithin } from "@mantine/hooks";
-import { IComment } from "@/features/comment/types/comment.types.ts";
+import {
+  CommentType,
+  IComment,
+} from "@/features/comment/types/comment.types.ts";
 import { usePageQuery } from "@/features/page/queries/page-query.ts";
 import { IPagination } from "@/lib/types.ts";
 import { extractPageSlugId } from "@/lib";
@@ -43,18 +46,23 @@ function CommentListWithTabs() {
 
 
   const canComment: boolean = spaceAbility.can(
-    SpaceCaslAction.Manage,
-    SpaceCaslSubject.Page
+    SpaceCaslAction.Create,
+    SpaceCaslSubject.Comment
   );
 
-  // Separate active and resolved comments
-  const { activeComments, resolvedComments } = useMemo(() => {
+  // Separate page discussions, active and resolved inline comments
+  const { activeComments, resolvedComments, pageComments } = useMemo(() => {
     if (!comments?.items) {
-      return { activeComments: [], resolvedComments: [] };
+      return { activeComments: [], resolvedComments: [], pageComments: [] };
     }
 
     const parentComments = comments.items.filter(
-      (comment: IComment) => comment.parentCommentId === null
+      (comment: IComment) =>
+        comment.parentCommentId === null && comment.type !== CommentType.PAGE
+    );
+    const pageThreads = comments.items.filter(
+      (comment: IComment) =>
+        comment.parentCommentId === null && comment.type === CommentType.PAGE
     );
 
     const active = parentComments.filter(
@@ -64,7 +72,11 @@ function CommentListWithTabs() {
       (comment: IComment) => comment.resolvedAt
     );
 
-    return { activeComments: active, resolvedComments: resolved };
+    return {
+      activeComments: active,
+      resolvedComments: resolved,
+      pageComments: pageThreads,
+    };
   }, [comments]);
 
   const handleAddReply = useCallback(
@@ -92,6 +104,29 @@ function CommentListWithTabs() {
     [createCommentMutation, page?.id]
   );
 
+  const handleAddPageComment = useCallback(
+    async (_commentId: string, content: string) => {
+      try {
+        setIsLoading(true);
+        await createCommentMutation.mutateAsync({
+          pageId: page?.id,
+          type: CommentType.PAGE,
+          content: JSON.stringify(content),
+        });
+
+        emit({
+          operation: "invalidateComment",
+          pageId: page?.id,
+        });
+      } catch (error) {
+        console.error("Failed to post comment:", error);
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [createCommentMutation, page?.id]
+  );
+
   const renderComments = useCallback(
     (comment: IComment) => (
       <Paper
@@ -144,17 +179,43 @@ function CommentListWithTabs() {
 
   const totalComments = activeComments.length + resolvedComments.length;
 
+  const pageDiscussion = (
+    <>
+      {pageComments.length === 0 && !canComment && (
+        <Text size="sm" c="dimmed" ta="center" py="md">
+          {t("No page comments yet.")}
+        </Text>
+      )}
+      {pageComments.map(renderComments)}
+      {canComment && (
+        <Paper radius="md" p="sm" mb="sm" withBorder>
+          <CommentEditorWithActions
+            commentId={null}
+            onSave={handleAddPageComment}
+            isLoading={isLoading}
+            placeholder={t("Comment on this page...")}
+          />
+        </Paper>
+      )}
+    </>
+  );
+
   // If not cloud/enterprise, show simple list without tabs
   if (!isCloudEE) {
-    if (totalComments === 0) {
-      return <>{t("No comments yet.")}</>;
-    }
-
     return (
       <ScrollArea style={{ height: "85vh" }} scrollbarSize={5} type="scroll">
         <div style={{ paddingBottom: "200px" }}>
+          {totalComments === 0 && (
+            <Text size="sm" c="dimmed" ta="center" py="md">
+              {t("No comments yet.")}
+            </Text>
+          )}
           {comments?.items
-            .filter((comment: IComment) => comment.parentCommentId === null)
+            .filter(
+              (comment: IComment) =>
+                comment.parentCommentId === null &&
+                comment.type !== CommentType.PAGE
+            )
             .map((comment) => (
               <Paper
                 shadow="sm"
@@ -193,6 +254,9 @@ function CommentListWithTabs() {
                 )}
               </Paper>
             ))}
+
+          <Divider my="md" label={t("Page discussion")} labelPosition="center" />
+          {pageDiscussion}
         </div>
       </ScrollArea>
     );
@@ -222,6 +286,16 @@ function CommentListWithTabs() {
           >
             {t("Resolved")}
           </Tabs.Tab>
+          <Tabs.Tab
+            value="page"
+            leftSection={
+              <Badge size="sm" variant="light" color="gray">
+                {pageComments.length}
+              </Badge>
+            }
+          >
+            {t("Page")}
+          </Tabs.Tab>
         </Tabs.List>
 
         <ScrollArea
@@ -249,6 +323,10 @@ function CommentListWithTabs() {
                 resolvedComments.map(renderComments)
               )}
             </Tabs.Panel>
+
+            <Tabs.Panel value="page" pt="xs">
+              {pageDiscussion}
+            </Tabs.Panel>
           </div>
         </ScrollArea>
       </Tabs>
@@ -303,7 +381,12 @@ const ChildComments = ({
 
 const MemoizedChildComments = memo(ChildComments);
 
-const CommentEditorWithActions = ({ commentId, onSave, isLoading }) => {
+const CommentEditorWithActions = ({
+  commentId,
+  onSave,
+  isLoading,
+  placeholder = undefined,
+}) => {
   const [content, setContent] = useState("");
   const { ref, focused } = useFocusWithin();
   const commentEditorRef = useRef(null);
@@ -321,6 +404,7 @@ const CommentEditorWithActions = ({ commentId, onSave, isLoading }) => {
         onUpdate={setContent}
         onSave={handleSave}
         editable={true}
+        placeholder={placeholder}
       />
       {focused && <CommentActions onSave={handleSave} isLoading={isLoading} />}
     </div>
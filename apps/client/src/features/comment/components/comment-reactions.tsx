@@ -0,0 +1,120 @@
+import { ActionIcon, Button, Group, Popover, Tooltip } from "@mantine/core";
+import { IconMoodPlus } from "@tabler/icons-react";
+import { useAtomValue } from "jotai";
+import { useTranslation } from "react-i18next";
+import { useDisclosure } from "@mantine/hooks";
+import { IComment } from "@/features/comment/types/comment.types";
+import { useToggleCommentReactionMutation } from "@/features/comment/queries/comment-query";
+import { currentUserAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { useQueryEmit } from "@/features/websocket/use-query-emit";
+
+const QUICK_REACTIONS = ["👍", "👎", "😄", "🎉", "😕", "❤️", "🚀", "👀"];
+
+interface CommentReactionsProps {
+  comment: IComment;
+  pageId: string;
+  canReact: boolean;
+}
+
+export default function CommentReactions({
+  comment,
+  pageId,
+  canReact,
+}: CommentReactionsProps) {
+  const { t } = useTranslation();
+  const [opened, { close, toggle }] = useDisclosure(false);
+  const currentUser = useAtomValue(currentUserAtom);
+  const toggleReactionMutation = useToggleCommentReactionMutation(pageId);
+  const emit = useQueryEmit();
+
+  const reactions = comment.reactions ?? [];
+
+  const hasReacted = (emoji: string) =>
+    reactions.some(
+      (reaction) =>
+        reaction.emoji === emoji &&
+        reaction.reactors.some(
+          (reactor) => reactor.id === currentUser?.user?.id,
+        ),
+    );
+
+  async function handleToggle(emoji: string) {
+    if (!canReact) return;
+    close();
+
+    try {
+      await toggleReactionMutation.mutateAsync({
+        commentId: comment.id,
+        emoji,
+        remove: hasReacted(emoji),
+      });
+
+      emit({
+        operation: "invalidateComment",
+        pageId: pageId,
+      });
+    } catch (error) {
+      console.error("Failed to toggle reaction:", error);
+    }
+  }
+
+  if (reactions.length === 0 && !canReact) {
+    return null;
+  }
+
+  return (
+    <Group gap={4} mt={4}>
+      {reactions.map((reaction) => (
+        <Tooltip
+          key={reaction.emoji}
+          label={reaction.reactors.map((reactor) => reactor.name).join(", ")}
+          multiline
+          maw={240}
+          withArrow
+        >
+          <Button
+            size="compact-xs"
+            radius="xl"
+            variant={hasReacted(reaction.emoji) ? "light" : "default"}
+            onClick={() => handleToggle(reaction.emoji)}
+          >
+            {reaction.emoji} {reaction.count}
+          </Button>
+        </Tooltip>
+      ))}
+
+      {canReact && (
+        <Popover opened={opened} onChange={close} position="bottom-start">
+          <Popover.Target>
+            <Tooltip label={t("Add reaction")} withArrow>
+              <ActionIcon
+                variant="subtle"
+                color="gray"
+                size="sm"
+                radius="xl"
+                onClick={toggle}
+                aria-label={t("Add reaction")}
+              >
+                <IconMoodPlus size={16} />
+              </ActionIcon>
+            </Tooltip>
+          </Popover.Target>
+          <Popover.Dropdown p={4}>
+            <Group gap={2}>
+              {QUICK_REACTIONS.map((emoji) => (
+                <ActionIcon
+                  key={emoji}
+                  variant={hasReacted(emoji) ? "light" : "subtle"}
+                  color="gray"
+                  onClick={() => handleToggle(emoji)}
+                >
+                  {emoji}
+                </ActionIcon>
+              ))}
+            </Group>
+          </Popover.Dropdown>
+        </Popover>
+      )}
+    </Group>
+  );
+}
@@ -5,14 +5,18 @@ import {
   UseQueryResult,
 } from "@tanstack/react-query";
 import {
+  addCommentReaction,
   createComment,
   deleteComment,
   getPageComments,
+  removeCommentReaction,
   updateComment,
 } from "@/features/comment/services/comment-service";
 import {
   ICommentParams,
   IComment,
+  ICommentReaction,
+  ICommentReactionData,
 } from "@/features/comment/types/comment.types";
 import { notifications } from "@mantine/notifications";
 import { IPagination } from "@/lib/types.ts";
@@ -106,4 +110,40 @@ export function useDeleteCommentMutation(pageId?: string) {
   });
 }
 
+export function useToggleCommentReactionMutation(pageId: string) {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<
+    ICommentReaction[],
+    Error,
+    ICommentReactionData & { remove: boolean }
+  >({
+    mutationFn: ({ remove, ...data }) =>
+      remove ? removeCommentReaction(data) : addCommentReaction(data),
+    onSuccess: (reactions, variables) => {
+      const comments = queryClient.getQueryData(
+        RQ_KEY(pageId),
+      ) as IPagination<IComment>;
+
+      if (comments && comments.items) {
+        queryClient.setQueryData(RQ_KEY(pageId), {
+          ...comments,
+          items: comments.items.map((comment) =>
+            comment.id === variables.commentId
+              ? { ...comment, reactions }
+              : comment,
+          ),
+        });
+      }
+    },
+    onError: () => {
+      notifications.show({
+        message: t("Failed to update reaction"),
+        color: "red",
+      });
+    },
+  });
+}
+
 // EE: useResolveCommentMutation has been moved to @/ee/comment/queries/comment-query
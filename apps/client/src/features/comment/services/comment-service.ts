@@ -2,6 +2,8 @@ import api from "@/lib/api-client";
 import {
   ICommentParams,
   IComment,
+  ICommentReaction,
+  ICommentReactionData,
   IResolveComment,
 } from "@/features/comment/types/comment.types";
 import { IPagination } from "@/lib/types.ts";
@@ -40,3 +42,23 @@ export async function getPageComments(
 export async function deleteComment(commentId: string): Promise<void> {
   await api.post("/comments/delete", { commentId });
 }
+
+export async function addCommentReaction(
+  data: ICommentReactionData,
+): Promise<ICommentReaction[]> {
+  const req = await api.post<ICommentReaction[]>(
+    "/comments/reactions/add",
+    data,
+  );
+  return req.data;
+}
+
+export async function removeCommentReaction(
+  data: ICommentReactionData,
+): Promise<ICommentReaction[]> {
+  const req = await api.post<ICommentReaction[]>(
+    "/comments/reactions/remove",
+    data,
+  );
+  return req.data;
+}
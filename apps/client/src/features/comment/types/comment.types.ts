@@ -17,6 +17,23 @@ export interface IComment {
   deletedAt?: Date;
   creator: IUser;
   resolvedBy?: IUser;
+  reactions?: ICommentReaction[];
+}
+
+export enum CommentType {
+  INLINE = "inline",
+  PAGE = "page",
+}
+
+export interface ICommentReaction {
+  emoji: string;
+  count: number;
+  reactors: Pick<IUser, "id" | "name">[];
+}
+
+export interface ICommentReactionData {
+  commentId: string;
+  emoji: string;
 }
 
 export interface ICommentData {
@@ -25,6 +42,7 @@ export interface ICommentData {
   parentCommentId?: string;
   content: any;
   selection?: string;
+  type?: CommentType;
 }
 
 export interface IResolveComment {
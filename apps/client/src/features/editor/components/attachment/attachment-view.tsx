@@ -32,7 +32,7 @@ export default function AttachmentView(props: NodeViewProps) {
             </Text>
           </Group>
 
-          {selected || hovered ? (
+          {url && (selected || hovered) ? (
             <a href={getFileUrl(url)} target="_blank">
               <ActionIcon variant="default" aria-label="download file">
                 <IconDownload size={18} />
@@ -39,9 +39,14 @@ export interface BubbleMenuItem {
 
 type EditorBubbleMenuProps = Omit<BubbleMenuProps, "children" | "editor"> & {
   editor: ReturnType<typeof useEditor>;
+  // only offer commenting, for users who cannot edit the page
+  commentOnly?: boolean;
 };
 
-export const EditorBubbleMenu: FC<EditorBubbleMenuProps> = (props) => {
+export const EditorBubbleMenu: FC<EditorBubbleMenuProps> = ({
+  commentOnly,
+  ...props
+}) => {
   const { t } = useTranslation();
   const [showCommentPopup, setShowCommentPopup] = useAtom(showCommentPopupAtom);
   const [, setDraftCommentId] = useAtom(draftCommentIdAtom);
@@ -122,7 +127,7 @@ export const EditorBubbleMenu: FC<EditorBubbleMenuProps> = (props) => {
       const { empty } = selection;
 
       if (
-        !editor.isEditable ||
+        (!editor.isEditable && !commentOnly) ||
         editor.isActive("image") ||
         empty ||
         isNodeSelection(selection) ||
@@ -155,6 +160,27 @@ export const EditorBubbleMenu: FC<EditorBubbleMenuProps> = (props) => {
   const [isLinkSelectorOpen, setIsLinkSelectorOpen] = useState(false);
   const [isColorSelectorOpen, setIsColorSelectorOpen] = useState(false);
 
+  const commentButton = (
+    <ActionIcon
+      variant="default"
+      size="lg"
+      radius="0"
+      aria-label={t(commentItem.name)}
+      style={{ border: "none" }}
+      onClick={commentItem.command}
+    >
+      <IconMessage size={16} stroke={2} />
+    </ActionIcon>
+  );
+
+  if (commentOnly) {
+    return (
+      <BubbleMenu {...bubbleMenuProps}>
+        <div className={classes.bubbleMenu}>{commentButton}</div>
+      </BubbleMenu>
+    );
+  }
+
   return (
     <BubbleMenu {...bubbleMenuProps}>
       <div className={classes.bubbleMenu}>
@@ -221,16 +247,7 @@ export const EditorBubbleMenu: FC<EditorBubbleMenuProps> = (props) => {
           }}
         />
 
-        <ActionIcon
-          variant="default"
-          size="lg"
-          radius="0"
-          aria-label={t(commentItem.name)}
-          style={{ border: "none" }}
-          onClick={commentItem.command}
-        >
-          <IconMessage size={16} stroke={2} />
-        </ActionIcon>
+        {commentButton}
       </div>
     </BubbleMenu>
   );
@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { Badge, Group, Stack, Text } from "@mantine/core";
+import clsx from "clsx";
+import { useTranslation } from "react-i18next";
+import { PropertyValueDisplay } from "@/features/page-property/components/property-value.tsx";
+import {
+  getGroupMoveValue,
+  groupCollectionPages,
+  isEmptyValue,
+} from "@/features/page-property/utils/collection.utils";
+import { IPageProperty } from "@/features/page-property/types/page-property.types";
+import { CollectionLayoutProps } from "./types";
+import CollectionPageTitle from "./collection-page-title.tsx";
+import classes from "./collection-view.module.css";
+
+const DRAG_DATA_TYPE = "application/x-docmost-collection-page";
+
+interface CollectionBoardProps extends CollectionLayoutProps {
+  groupByProperty: IPageProperty | null;
+}
+
+export default function CollectionBoard({
+  pages,
+  properties,
+  users,
+  editable,
+  onValueChange,
+  groupByProperty,
+}: CollectionBoardProps) {
+  const { t } = useTranslation();
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  const groups = useMemo(() => {
+    if (!groupByProperty) return [];
+    return groupCollectionPages(pages, groupByProperty, users, {
+      noValue: t("No value"),
+      checked: t("Checked"),
+      unchecked: t("Unchecked"),
+    });
+  }, [pages, groupByProperty, users, t]);
+
+  if (!groupByProperty) {
+    return (
+      <Text c="dimmed" size="sm" py="sm">
+        {t(
+          "Choose a select, person or checkbox property to group the board by",
+        )}
+      </Text>
+    );
+  }
+
+  const cardProperties = properties.filter(
+    (property) => property.id !== groupByProperty.id,
+  );
+
+  const handleDrop = (event: React.DragEvent, toGroupId: string) => {
+    event.preventDefault();
+    setDropTarget(null);
+
+    const data = event.dataTransfer.getData(DRAG_DATA_TYPE);
+    if (!data) return;
+
+    const { pageId, fromGroupId } = JSON.parse(data);
+    if (fromGroupId === toGroupId) return;
+
+    const page = pages.find((page) => page.id === pageId);
+    if (!page) return;
+
+    onValueChange(
+      page.id,
+      groupByProperty.id,
+      getGroupMoveValue(
+        groupByProperty,
+        page.properties[groupByProperty.id],
+        fromGroupId,
+        toGroupId,
+      ),
+    );
+  };
+
+  return (
+    <div className={classes.board}>
+      {groups.map((group) => (
+        <div
+          key={group.id}
+          className={clsx(
+            classes.column,
+            dropTarget === group.id && classes.columnDropTarget,
+          )}
+          onDragOver={(event) => {
+            if (!editable) return;
+            event.preventDefault();
+            setDropTarget(group.id);
+          }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(event) => editable && handleDrop(event, group.id)}
+        >
+          <Group gap={6} mb="xs">
+            <Badge variant="light" color={group.color || "gray"} size="sm">
+              {group.name}
+            </Badge>
+            <Text size="xs" c="dimmed">
+              {group.pages.length}
+            </Text>
+          </Group>
+
+          <Stack gap={6}>
+            {group.pages.map((page) => (
+              <div
+                key={page.id}
+                className={clsx(
+                  classes.card,
+                  editable && classes.draggableCard,
+                )}
+                draggable={editable}
+                onDragStart={(event) =>
+                  event.dataTransfer.setData(
+                    DRAG_DATA_TYPE,
+                    JSON.stringify({ pageId: page.id, fromGroupId: group.id }),
+                  )
+                }
+              >
+                <CollectionPageTitle page={page} />
+                <Stack gap={4} mt={4}>
+                  {cardProperties
+                    .filter(
+                      (property) => !isEmptyValue(page.properties[property.id]),
+                    )
+                    .map((property) => (
+                      <PropertyValueDisplay
+                        key={property.id}
+                        property={property}
+                        value={page.properties[property.id]}
+                        users={users}
+                      />
+                    ))}
+                </Stack>
+              </div>
+            ))}
+          </Stack>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import {
+  ActionIcon,
+  Button,
+  Group,
+  Popover,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { IconFilter, IconPlus, IconX } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+import { CollectionViewFilter } from "@docmost/editor-ext";
+import {
+  IPageProperty,
+  IPagePropertyUser,
+  PagePropertyType,
+} from "@/features/page-property/types/page-property.types";
+import { TITLE_FIELD } from "@/features/page-property/utils/collection.utils";
+
+type FilterOperator = CollectionViewFilter["operator"];
+
+const CHOICE_PROPERTY_TYPES = [
+  PagePropertyType.SELECT,
+  PagePropertyType.MULTI_SELECT,
+  PagePropertyType.PERSON,
+];
+
+interface CollectionFiltersProps {
+  filters: CollectionViewFilter[];
+  properties: IPageProperty[];
+  users: IPagePropertyUser[];
+  onChange: (filters: CollectionViewFilter[]) => void;
+}
+
+export default function CollectionFilters({
+  filters,
+  properties,
+  users,
+  onChange,
+}: CollectionFiltersProps) {
+  const { t } = useTranslation();
+
+  const operatorLabels: Record<FilterOperator, string> = {
+    is: t("is"),
+    is_not: t("is not"),
+    contains: t("contains"),
+    is_empty: t("is empty"),
+    is_not_empty: t("is not empty"),
+  };
+
+  const getOperators = (property?: IPageProperty): FilterOperator[] => {
+    if (property?.type === PagePropertyType.CHECKBOX) return ["is"];
+    if (property && CHOICE_PROPERTY_TYPES.includes(property.type)) {
+      return ["is", "is_not", "is_empty", "is_not_empty"];
+    }
+    return ["contains", "is_empty", "is_not_empty"];
+  };
+
+  const fieldData = [
+    { value: TITLE_FIELD, label: t("Title") },
+    ...properties.map((property) => ({
+      value: property.id,
+      label: property.name,
+    })),
+  ];
+
+  const updateFilter = (index: number, data: Partial<CollectionViewFilter>) => {
+    onChange(
+      filters.map((filter, i) =>
+        i === index ? { ...filter, ...data } : filter,
+      ),
+    );
+  };
+
+  const renderValueInput = (filter: CollectionViewFilter, index: number) => {
+    if (filter.operator === "is_empty" || filter.operator === "is_not_empty") {
+      return null;
+    }
+
+    const property = properties.find((p) => p.id === filter.propertyId);
+
+    if (property?.type === PagePropertyType.CHECKBOX) {
+      return (
+        <Select
+          size="xs"
+          w={130}
+          data={[
+            { value: "true", label: t("Checked") },
+            { value: "false", label: t("Unchecked") },
+          ]}
+          value={filter.value === true ? "true" : "false"}
+          onChange={(value) => updateFilter(index, { value: value === "true" })}
+          allowDeselect={false}
+        />
+      );
+    }
+
+    if (property && CHOICE_PROPERTY_TYPES.includes(property.type)) {
+      const data =
+        property.type === PagePropertyType.PERSON
+          ? users.map((user) => ({ value: user.id, label: user.name }))
+          : (property.options ?? []).map((option) => ({
+              value: option.id,
+              label: option.name,
+            }));
+
+      return (
+        <Select
+          size="xs"
+          w={130}
+          data={data}
+          value={(filter.value as string) ?? null}
+          onChange={(value) => updateFilter(index, { value })}
+        />
+      );
+    }
+
+    return (
+      <TextInput
+        size="xs"
+        w={130}
+        value={(filter.value as string) ?? ""}
+        onChange={(event) =>
+          updateFilter(index, { value: event.currentTarget.value })
+        }
+      />
+    );
+  };
+
+  return (
+    <Popover position="bottom-start" shadow="md" withinPortal>
+      <Popover.Target>
+        <Button
+          size="compact-sm"
+          variant={filters.length > 0 ? "light" : "subtle"}
+          color="gray"
+          leftSection={<IconFilter size={14} />}
+        >
+          {filters.length > 0
+            ? t("Filters ({{count}})", { count: filters.length })
+            : t("Filter")}
+        </Button>
+      </Popover.Target>
+      <Popover.Dropdown>
+        <Stack gap="xs">
+          {filters.length === 0 && (
+            <Text size="sm" c="dimmed">
+              {t("No filters applied")}
+            </Text>
+          )}
+
+          {filters.map((filter, index) => {
+            const property = properties.find((p) => p.id === filter.propertyId);
+            const operators = getOperators(property);
+
+            return (
+              <Group key={index} gap={6} wrap="nowrap">
+                <Select
+                  size="xs"
+                  w={140}
+                  data={fieldData}
+                  value={filter.propertyId}
+                  onChange={(propertyId) => {
+                    const nextProperty = properties.find(
+                      (p) => p.id === propertyId,
+                    );
+                    updateFilter(index, {
+                      propertyId,
+                      operator: getOperators(nextProperty)[0],
+                      value: undefined,
+                    });
+                  }}
+                  allowDeselect={false}
+                />
+                <Select
+                  size="xs"
+                  w={120}
+                  data={operators.map((operator) => ({
+                    value: operator,
+                    label: operatorLabels[operator],
+                  }))}
+                  value={filter.operator}
+                  onChange={(operator) =>
+                    updateFilter(index, {
+                      operator: operator as FilterOperator,
+                    })
+                  }
+                  allowDeselect={false}
+                />
+                {renderValueInput(filter, index)}
+                <ActionIcon
+                  variant="subtle"
+                  color="gray"
+                  onClick={() =>
+                    onChange(filters.filter((_, i) => i !== index))
+                  }
+                  aria-label={t("Remove filter")}
+                >
+                  <IconX size={14} />
+                </ActionIcon>
+              </Group>
+            );
+          })}
+
+          <Button
+            size="compact-sm"
+            variant="subtle"
+            leftSection={<IconPlus size={14} />}
+            onClick={() =>
+              onChange([
+                ...filters,
+                { propertyId: TITLE_FIELD, operator: "contains", value: "" },
+              ])
+            }
+            style={{ alignSelf: "flex-start" }}
+          >
+            {t("Add filter")}
+          </Button>
+        </Stack>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
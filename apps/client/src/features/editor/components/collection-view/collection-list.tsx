@@ -0,0 +1,55 @@
+import { Group, Stack, Text } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { PropertyValueDisplay } from "@/features/page-property/components/property-value.tsx";
+import { isEmptyValue } from "@/features/page-property/utils/collection.utils";
+import { PagePropertyType } from "@/features/page-property/types/page-property.types";
+import { CollectionLayoutProps } from "./types";
+import CollectionPageTitle from "./collection-page-title.tsx";
+import classes from "./collection-view.module.css";
+
+export default function CollectionList({
+  pages,
+  properties,
+  users,
+}: CollectionLayoutProps) {
+  const { t } = useTranslation();
+
+  if (pages.length === 0) {
+    return (
+      <Text c="dimmed" size="sm" py="sm">
+        {t("No pages match this view")}
+      </Text>
+    );
+  }
+
+  return (
+    <Stack gap={0}>
+      {pages.map((page) => (
+        <Group
+          key={page.id}
+          className={classes.listItem}
+          justify="space-between"
+          wrap="nowrap"
+        >
+          <CollectionPageTitle page={page} />
+          <Group gap="xs" wrap="nowrap">
+            {properties
+              .filter(
+                (property) =>
+                  property.type === PagePropertyType.CHECKBOX ||
+                  !isEmptyValue(page.properties[property.id]),
+              )
+              .map((property) => (
+                <PropertyValueDisplay
+                  key={property.id}
+                  property={property}
+                  value={page.properties[property.id]}
+                  users={users}
+                />
+              ))}
+          </Group>
+        </Group>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,37 @@
+import { Anchor, Group, Text } from "@mantine/core";
+import { IconFileDescription } from "@tabler/icons-react";
+import { Link, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { buildPageUrl } from "@/features/page/page.utils.ts";
+import { ICollectionPage } from "@/features/page-property/types/page-property.types";
+import classes from "./collection-view.module.css";
+
+export default function CollectionPageTitle({
+  page,
+}: {
+  page: ICollectionPage;
+}) {
+  const { t } = useTranslation();
+  const { spaceSlug } = useParams();
+
+  return (
+    <Anchor
+      component={Link}
+      to={buildPageUrl(spaceSlug, page.slugId, page.title)}
+      className={classes.pageLink}
+      underline="never"
+      draggable={false}
+    >
+      <Group gap={6} wrap="nowrap">
+        {page.icon ? (
+          <span>{page.icon}</span>
+        ) : (
+          <IconFileDescription size={16} style={{ flexShrink: 0 }} />
+        )}
+        <Text size="sm" fw={500} lineClamp={1}>
+          {page.title || t("untitled")}
+        </Text>
+      </Group>
+    </Anchor>
+  );
+}
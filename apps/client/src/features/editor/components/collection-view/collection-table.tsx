@@ -0,0 +1,75 @@
+import { Table, Text } from "@mantine/core";
+import {
+  PropertyValueDisplay,
+  PropertyValueInput,
+} from "@/features/page-property/components/property-value.tsx";
+import { CollectionLayoutProps } from "./types";
+import CollectionPageTitle from "./collection-page-title.tsx";
+import classes from "./collection-view.module.css";
+import { useTranslation } from "react-i18next";
+
+export default function CollectionTable({
+  pages,
+  properties,
+  users,
+  editable,
+  onValueChange,
+  onEditProperty,
+}: CollectionLayoutProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Table.ScrollContainer minWidth={400}>
+      <Table className={classes.table} verticalSpacing={4}>
+        <Table.Thead>
+          <Table.Tr>
+            <Table.Th>{t("Title")}</Table.Th>
+            {properties.map((property) => (
+              <Table.Th
+                key={property.id}
+                className={editable ? classes.propertyHeader : undefined}
+                onClick={() => editable && onEditProperty(property)}
+              >
+                {property.name}
+              </Table.Th>
+            ))}
+          </Table.Tr>
+        </Table.Thead>
+        <Table.Tbody>
+          {pages.map((page) => (
+            <Table.Tr key={page.id}>
+              <Table.Td>
+                <CollectionPageTitle page={page} />
+              </Table.Td>
+              {properties.map((property) => (
+                <Table.Td key={property.id}>
+                  {editable ? (
+                    <PropertyValueInput
+                      property={property}
+                      value={page.properties[property.id]}
+                      users={users}
+                      onChange={(value) =>
+                        onValueChange(page.id, property.id, value)
+                      }
+                    />
+                  ) : (
+                    <PropertyValueDisplay
+                      property={property}
+                      value={page.properties[property.id]}
+                      users={users}
+                    />
+                  )}
+                </Table.Td>
+              ))}
+            </Table.Tr>
+          ))}
+        </Table.Tbody>
+      </Table>
+      {pages.length === 0 && (
+        <Text c="dimmed" size="sm" py="sm">
+          {t("No pages match this view")}
+        </Text>
+      )}
+    </Table.ScrollContainer>
+  );
+}
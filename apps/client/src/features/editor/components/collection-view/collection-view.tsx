@@ -0,0 +1,326 @@
+import { useMemo, useState } from "react";
+import { NodeViewProps, NodeViewWrapper } from "@tiptap/react";
+import {
+  ActionIcon,
+  Button,
+  Checkbox,
+  Group,
+  Menu,
+  SegmentedControl,
+  Select,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import {
+  IconLayoutKanban,
+  IconList,
+  IconPlus,
+  IconSettings,
+  IconSortAscending,
+  IconSortDescending,
+  IconTable,
+} from "@tabler/icons-react";
+import { useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  CollectionViewAttributes,
+  CollectionViewLayout,
+} from "@docmost/editor-ext";
+import { usePageQuery } from "@/features/page/queries/page-query";
+import {
+  useCollectionQuery,
+  useSetPagePropertyValueMutation,
+} from "@/features/page-property/queries/page-property-query";
+import {
+  IPageProperty,
+  PagePropertyValue,
+} from "@/features/page-property/types/page-property.types";
+import {
+  applyCollectionView,
+  GROUPABLE_PROPERTY_TYPES,
+  TITLE_FIELD,
+} from "@/features/page-property/utils/collection.utils";
+import PagePropertyModal from "@/features/page-property/components/page-property-modal.tsx";
+import CollectionTable from "./collection-table.tsx";
+import CollectionBoard from "./collection-board.tsx";
+import CollectionList from "./collection-list.tsx";
+import CollectionFilters from "./collection-filters.tsx";
+import classes from "./collection-view.module.css";
+
+export default function CollectionView(props: NodeViewProps) {
+  const { editor, node, updateAttributes } = props;
+  const { t } = useTranslation();
+  const { shareId } = useParams();
+  const attrs = node.attrs as CollectionViewAttributes;
+
+  const currentPageId = editor.storage.pageId;
+  const { data: page } = usePageQuery({ pageId: currentPageId });
+  const { data, isLoading, error } = useCollectionQuery(
+    shareId ? null : currentPageId,
+  );
+  const setValueMutation = useSetPagePropertyValueMutation();
+
+  const [modalOpened, setModalOpened] = useState(false);
+  const [editingProperty, setEditingProperty] = useState<IPageProperty>();
+
+  const editable = editor.isEditable;
+  const properties = data?.properties ?? [];
+  const users = data?.users ?? [];
+  const hiddenProperties = attrs.hiddenProperties ?? [];
+  const visibleProperties = properties.filter(
+    (property) => !hiddenProperties.includes(property.id),
+  );
+
+  const pages = useMemo(
+    () => applyCollectionView(data?.pages ?? [], attrs, properties, users),
+    [data, attrs.filters, attrs.sortBy, attrs.sortDirection],
+  );
+
+  const groupableProperties = properties.filter((property) =>
+    GROUPABLE_PROPERTY_TYPES.includes(property.type),
+  );
+  const groupByProperty =
+    groupableProperties.find((property) => property.id === attrs.groupBy) ??
+    groupableProperties[0] ??
+    null;
+
+  if (shareId) {
+    return (
+      <NodeViewWrapper>
+        <Text c="dimmed" size="sm" py="md">
+          {t("Collection views are not available on shared pages")}
+        </Text>
+      </NodeViewWrapper>
+    );
+  }
+
+  if (isLoading) {
+    return null;
+  }
+
+  if (error) {
+    return (
+      <NodeViewWrapper>
+        <Text c="dimmed" size="md" py="md">
+          {t("Failed to load collection")}
+        </Text>
+      </NodeViewWrapper>
+    );
+  }
+
+  const handleValueChange = (
+    pageId: string,
+    propertyId: string,
+    value: PagePropertyValue | null,
+  ) => {
+    setValueMutation.mutate({ pageId, propertyId, value });
+  };
+
+  const openPropertyModal = (property?: IPageProperty) => {
+    setEditingProperty(property);
+    setModalOpened(true);
+  };
+
+  const toggleHiddenProperty = (propertyId: string) => {
+    updateAttributes({
+      hiddenProperties: hiddenProperties.includes(propertyId)
+        ? hiddenProperties.filter((id) => id !== propertyId)
+        : [...hiddenProperties, propertyId],
+    });
+  };
+
+  const sortData = [
+    { value: TITLE_FIELD, label: t("Title") },
+    ...properties.map((property) => ({
+      value: property.id,
+      label: property.name,
+    })),
+  ];
+
+  const layoutProps = {
+    pages,
+    properties: visibleProperties,
+    users,
+    editable,
+    onValueChange: handleValueChange,
+    onEditProperty: openPropertyModal,
+  };
+
+  return (
+    <NodeViewWrapper>
+      <div className={classes.container}>
+        {editable && (
+          <Group className={classes.toolbar} gap="xs" justify="space-between">
+            <SegmentedControl
+              size="xs"
+              value={attrs.layout ?? "table"}
+              onChange={(layout: CollectionViewLayout) =>
+                updateAttributes({ layout })
+              }
+              data={[
+                {
+                  value: "table",
+                  label: (
+                    <Group gap={4} wrap="nowrap">
+                      <IconTable size={14} />
+                      {t("Table")}
+                    </Group>
+                  ),
+                },
+                {
+                  value: "board",
+                  label: (
+                    <Group gap={4} wrap="nowrap">
+                      <IconLayoutKanban size={14} />
+                      {t("Board")}
+                    </Group>
+                  ),
+                },
+                {
+                  value: "list",
+                  label: (
+                    <Group gap={4} wrap="nowrap">
+                      <IconList size={14} />
+                      {t("List")}
+                    </Group>
+                  ),
+                },
+              ]}
+            />
+
+            <Group gap={6}>
+              {attrs.layout === "board" && (
+                <Select
+                  size="xs"
+                  w={150}
+                  placeholder={t("Group by")}
+                  data={groupableProperties.map((property) => ({
+                    value: property.id,
+                    label: property.name,
+                  }))}
+                  value={groupByProperty?.id ?? null}
+                  onChange={(groupBy) => updateAttributes({ groupBy })}
+                  allowDeselect={false}
+                  comboboxProps={{ withinPortal: true }}
+                />
+              )}
+
+              <Select
+                size="xs"
+                w={150}
+                placeholder={t("Sort by")}
+                data={sortData}
+                value={attrs.sortBy ?? null}
+                onChange={(sortBy) => updateAttributes({ sortBy })}
+                clearable
+                comboboxProps={{ withinPortal: true }}
+              />
+              {attrs.sortBy && (
+                <Tooltip
+                  label={
+                    attrs.sortDirection === "desc"
+                      ? t("Descending")
+                      : t("Ascending")
+                  }
+                >
+                  <ActionIcon
+                    variant="subtle"
+                    color="gray"
+                    onClick={() =>
+                      updateAttributes({
+                        sortDirection:
+                          attrs.sortDirection === "desc" ? "asc" : "desc",
+                      })
+                    }
+                  >
+                    {attrs.sortDirection === "desc" ? (
+                      <IconSortDescending size={16} />
+                    ) : (
+                      <IconSortAscending size={16} />
+                    )}
+                  </ActionIcon>
+                </Tooltip>
+              )}
+
+              <CollectionFilters
+                filters={attrs.filters ?? []}
+                properties={properties}
+                users={users}
+                onChange={(filters) => updateAttributes({ filters })}
+              />
+
+              <Menu position="bottom-end" closeOnItemClick={false}>
+                <Menu.Target>
+                  <Tooltip label={t("Properties")}>
+                    <ActionIcon variant="subtle" color="gray">
+                      <IconSettings size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Menu.Target>
+                <Menu.Dropdown>
+                  <Menu.Label>{t("Properties")}</Menu.Label>
+                  {properties.map((property) => (
+                    <Menu.Item
+                      key={property.id}
+                      leftSection={
+                        <Checkbox
+                          size="xs"
+                          checked={!hiddenProperties.includes(property.id)}
+                          onChange={() => toggleHiddenProperty(property.id)}
+                        />
+                      }
+                      onClick={() => openPropertyModal(property)}
+                    >
+                      {property.name}
+                    </Menu.Item>
+                  ))}
+                  {properties.length > 0 && <Menu.Divider />}
+                  <Menu.Item
+                    leftSection={<IconPlus size={14} />}
+                    onClick={() => openPropertyModal()}
+                  >
+                    {t("New property")}
+                  </Menu.Item>
+                </Menu.Dropdown>
+              </Menu>
+            </Group>
+          </Group>
+        )}
+
+        {data?.pages.length === 0 ? (
+          <Text c="dimmed" size="sm" py="md">
+            {t("No subpages")}
+          </Text>
+        ) : attrs.layout === "board" ? (
+          <CollectionBoard {...layoutProps} groupByProperty={groupByProperty} />
+        ) : attrs.layout === "list" ? (
+          <CollectionList {...layoutProps} />
+        ) : (
+          <CollectionTable {...layoutProps} />
+        )}
+
+        {editable && properties.length === 0 && (
+          <Button
+            mt="xs"
+            size="compact-sm"
+            variant="subtle"
+            leftSection={<IconPlus size={14} />}
+            onClick={() => openPropertyModal()}
+          >
+            {t("New property")}
+          </Button>
+        )}
+      </div>
+
+      {page && (
+        <PagePropertyModal
+          opened={modalOpened}
+          onClose={() => setModalOpened(false)}
+          spaceId={page.spaceId}
+          parentPageId={page.id}
+          property={editingProperty}
+        />
+      )}
+    </NodeViewWrapper>
+  );
+}
@@ -0,0 +1,20 @@
+import {
+  ICollectionPage,
+  IPageProperty,
+  IPagePropertyUser,
+  PagePropertyValue,
+} from "@/features/page-property/types/page-property.types";
+
+export interface CollectionLayoutProps {
+  pages: ICollectionPage[];
+  // the visible properties of the view
+  properties: IPageProperty[];
+  users: IPagePropertyUser[];
+  editable: boolean;
+  onValueChange: (
+    pageId: string,
+    propertyId: string,
+    value: PagePropertyValue | null,
+  ) => void;
+  onEditProperty: (property: IPageProperty) => void;
+}
@@ -20,6 +20,9 @@ import {
   IconCalendar,
   IconAppWindow,
   IconSitemap,
+  IconTemplate,
+  IconLayoutKanban,
+  IconCalendarDue,
 } from "@tabler/icons-react";
 import {
   CommandProps,
@@ -31,6 +34,7 @@ import { uploadAttachmentAction } from "@/features/editor/components/attachment/
 import IconExcalidraw from "@/components/icons/icon-excalidraw";
 import IconMermaid from "@/components/icons/icon-mermaid";
 import IconDrawio from "@/components/icons/icon-drawio";
+import { OPEN_TASK_DUE_DATE_EVENT } from "@/features/editor/components/task-item/task-due-date-modal.tsx";
 import {
   AirtableIcon,
   FigmaIcon,
@@ -69,6 +73,25 @@ const CommandGroups: SlashMenuGroupedItemsType = {
         editor.chain().focus().deleteRange(range).toggleTaskList().run();
       },
     },
+    {
+      title: "Due date",
+      description: "Set a due date on a to-do item.",
+      searchTerms: ["due", "deadline", "date", "task", "todo"],
+      icon: IconCalendarDue,
+      command: ({ editor, range }: CommandProps) => {
+        editor.chain().focus().deleteRange(range).run();
+        if (!editor.isActive("taskItem")) {
+          editor.chain().focus().toggleTaskList().run();
+        }
+
+        const event = new CustomEvent(OPEN_TASK_DUE_DATE_EVENT, {
+          detail: {
+            dueDate: editor.getAttributes("taskItem").dueDate ?? null,
+          },
+        });
+        document.dispatchEvent(event);
+      },
+    },
     {
       title: "Heading 1",
       description: "Big section heading.",
@@ -368,6 +391,27 @@ const CommandGroups: SlashMenuGroupedItemsType = {
         editor.chain().focus().deleteRange(range).insertSubpages().run();
       },
     },
+    {
+      title: "Collection view",
+      description: "Table, board or list of subpages with properties",
+      searchTerms: ["database", "collection", "board", "kanban", "properties"],
+      icon: IconLayoutKanban,
+      command: ({ editor, range }: CommandProps) => {
+        editor.chain().focus().deleteRange(range).insertCollectionView().run();
+      },
+    },
+    {
+      title: "Template",
+      description: "Insert content from a template",
+      searchTerms: ["template", "boilerplate", "snippet"],
+      icon: IconTemplate,
+      command: ({ editor, range }: CommandProps) => {
+        editor.chain().focus().deleteRange(range).run();
+
+        const event = new CustomEvent("openTemplatePickerFromEditor", {});
+        document.dispatchEvent(event);
+      },
+    },
     {
       title: "Iframe embed",
       description: "Embed any Iframe",
@@ -0,0 +1,72 @@
+import { lazy, Suspense, useEffect, useState } from "react";
+import { Editor } from "@tiptap/react";
+import { Button, Group, Modal } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+
+const DatePicker = lazy(() =>
+  import("@mantine/dates").then((module) => ({
+    default: module.DatePicker,
+  })),
+);
+
+export const OPEN_TASK_DUE_DATE_EVENT = "openTaskDueDatePicker";
+
+export interface TaskDueDateEventDetail {
+  // position of the task item, the task at the selection when omitted
+  pos?: number;
+  dueDate: string | null;
+}
+
+interface TaskDueDateModalProps {
+  editor: Editor;
+}
+
+export default function TaskDueDateModal({ editor }: TaskDueDateModalProps) {
+  const { t } = useTranslation();
+  const [target, setTarget] = useState<TaskDueDateEventDetail | null>(null);
+
+  useEffect(() => {
+    const open = (event: Event) => {
+      setTarget((event as CustomEvent<TaskDueDateEventDetail>).detail);
+    };
+
+    document.addEventListener(OPEN_TASK_DUE_DATE_EVENT, open);
+    return () => {
+      document.removeEventListener(OPEN_TASK_DUE_DATE_EVENT, open);
+    };
+  }, []);
+
+  const handleChange = (dueDate: string | null) => {
+    editor.chain().focus().setTaskDueDate(dueDate, target?.pos).run();
+    setTarget(null);
+  };
+
+  return (
+    <Modal
+      opened={!!target}
+      onClose={() => setTarget(null)}
+      title={t("Due date")}
+      size="auto"
+      centered
+    >
+      <Suspense fallback={null}>
+        <DatePicker
+          value={target?.dueDate ?? null}
+          onChange={(value) => value && handleChange(value as string)}
+        />
+      </Suspense>
+
+      {target?.dueDate && (
+        <Group justify="flex-end" mt="sm">
+          <Button
+            variant="default"
+            size="xs"
+            onClick={() => handleChange(null)}
+          >
+            {t("Remove due date")}
+          </Button>
+        </Group>
+      )}
+    </Modal>
+  );
+}
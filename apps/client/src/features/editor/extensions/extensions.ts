@@ -4,7 +4,6 @@ import { TextAlign } from "@tiptap/extension-text-align";
 import { CharacterCount } from "@tiptap/extension-character-count";
 import { TaskList } from "@tiptap/extension-task-list";
 import { ListKeymap } from "@tiptap/extension-list-keymap";
-import { TaskItem } from "@tiptap/extension-task-item";
 import { Underline } from "@tiptap/extension-underline";
 import { Superscript } from "@tiptap/extension-superscript";
 import SubScript from "@tiptap/extension-subscript";
@@ -42,6 +41,8 @@ import {
   SearchAndReplace,
   Mention,
   Subpages,
+  CollectionView,
+  TaskItem,
   TableDndExtension,
   Heading,
   Highlight,
@@ -63,6 +64,11 @@ import DrawioView from "../components/drawio/drawio-view";
 import ExcalidrawView from "@/features/editor/components/excalidraw/excalidraw-view.tsx";
 import EmbedView from "@/features/editor/components/embed/embed-view.tsx";
 import SubpagesView from "@/features/editor/components/subpages/subpages-view.tsx";
+import CollectionViewNodeView from "@/features/editor/components/collection-view/collection-view.tsx";
+import {
+  OPEN_TASK_DUE_DATE_EVENT,
+  TaskDueDateEventDetail,
+} from "@/features/editor/components/task-item/task-due-date-modal.tsx";
 import { common, createLowlight } from "lowlight";
 import plaintext from "highlight.js/lib/languages/plaintext";
 import powershell from "highlight.js/lib/languages/powershell";
@@ -111,7 +117,7 @@ export const mainExtensions = [
   }),
   Heading,
   UniqueID.configure({
-    types: ["heading", "paragraph"],
+    types: ["heading", "paragraph", "taskItem"],
     filterTransaction: (transaction) => !isChangeOrigin(transaction),
   }),
   Placeholder.configure({
@@ -133,6 +139,19 @@ export const mainExtensions = [
   TaskList,
   TaskItem.configure({
     nested: true,
+    onDueDateClick: ({ pos, dueDate }) => {
+      document.dispatchEvent(
+        new CustomEvent<TaskDueDateEventDetail>(OPEN_TASK_DUE_DATE_EVENT, {
+          detail: { pos, dueDate },
+        }),
+      );
+    },
+    formatDueDate: (dueDate) =>
+      new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      }),
   }),
   ListKeymap,
   Underline,
@@ -229,6 +248,9 @@ export const mainExtensions = [
   Subpages.configure({
     view: SubpagesView,
   }),
+  CollectionView.configure({
+    view: CollectionViewNodeView,
+  }),
   MarkdownClipboard.configure({
     transformPastedText: true,
   }),
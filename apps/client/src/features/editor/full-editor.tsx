@@ -2,9 +2,13 @@ import classes from "@/features/editor/styles/editor.module.css";
 import React from "react";
 import { TitleEditor } from "@/features/editor/title-editor";
 import PageEditor from "@/features/editor/page-editor";
-import { Container } from "@mantine/core";
+import { Alert, Container } from "@mantine/core";
 import { useAtom } from "jotai";
 import { userAtom } from "@/features/user/atoms/current-user-atom.ts";
+import PageLockBanner from "@/features/page/components/page-lock-banner.tsx";
+import PageReviewBanner from "@/features/page-review/components/page-review-banner.tsx";
+import ReadonlyPageEditor from "@/features/editor/readonly-page-editor.tsx";
+import { useTranslation } from "react-i18next";
 
 const MemoizedTitleEditor = React.memo(TitleEditor);
 const MemoizedPageEditor = React.memo(PageEditor);
@@ -16,6 +20,15 @@ export interface FullEditorProps {
   content: string;
   spaceSlug: string;
   editable: boolean;
+  canComment?: boolean;
+  isLocked?: boolean;
+  canManageLock?: boolean;
+  // review workflow: editors see the review banner,
+  // everyone else only the published version
+  canReview?: boolean;
+  canManageSpace?: boolean;
+  publishedOnly?: boolean;
+  isPublished?: boolean;
 }
 
 export function FullEditor({
@@ -25,7 +38,15 @@ export function FullEditor({
   content,
   spaceSlug,
   editable,
+  canComment,
+  isLocked,
+  canManageLock,
+  canReview,
+  canManageSpace,
+  publishedOnly,
+  isPublished,
 }: FullEditorProps) {
+  const { t } = useTranslation();
   const [user] = useAtom(userAtom);
   const fullPageWidth = user.settings?.preferences?.fullPageWidth;
 
@@ -35,18 +56,36 @@ export function FullEditor({
       size={!fullPageWidth && 900}
       className={classes.editor}
     >
-      <MemoizedTitleEditor
-        pageId={pageId}
-        slugId={slugId}
-        title={title}
-        spaceSlug={spaceSlug}
-        editable={editable}
-      />
-      <MemoizedPageEditor
-        pageId={pageId}
-        editable={editable}
-        content={content}
-      />
+      {isLocked && <PageLockBanner canManageLock={canManageLock} />}
+      {canReview && (
+        <PageReviewBanner pageId={pageId} canManageSpace={canManageSpace} />
+      )}
+      {publishedOnly ? (
+        <>
+          {!isPublished && (
+            <Alert variant="light" color="gray" mb="md">
+              {t("This page has not been published yet.")}
+            </Alert>
+          )}
+          <ReadonlyPageEditor title={title} content={content} pageId={pageId} />
+        </>
+      ) : (
+        <>
+          <MemoizedTitleEditor
+            pageId={pageId}
+            slugId={slugId}
+            title={title}
+            spaceSlug={spaceSlug}
+            editable={editable}
+          />
+          <MemoizedPageEditor
+            pageId={pageId}
+            editable={editable}
+            canComment={canComment}
+            content={content}
+          />
+        </>
+      )}
     </Container>
   );
 }
@@ -42,6 +42,8 @@ import {
   handlePaste,
 } from "@/features/editor/components/common/editor-paste-handler.tsx";
 import LinkMenu from "@/features/editor/components/link/link-menu.tsx";
+import InsertTemplateModal from "@/features/template/components/insert-template-modal.tsx";
+import TaskDueDateModal from "@/features/editor/components/task-item/task-due-date-modal.tsx";
 import ExcalidrawMenu from "./components/excalidraw/excalidraw-menu";
 import DrawioMenu from "./components/drawio/drawio-menu";
 import { useCollabToken } from "@/features/auth/queries/auth-query.tsx";
@@ -61,12 +63,14 @@ import { useEditorScroll } from "./hooks/use-editor-scroll";
 interface PageEditorProps {
   pageId: string;
   editable: boolean;
+  canComment?: boolean;
   content: any;
 }
 
 export default function PageEditor({
   pageId,
   editable,
+  canComment,
   content,
 }: PageEditorProps) {
 
@@ -427,8 +431,13 @@ export default function PageEditor({
             <ExcalidrawMenu editor={editor} />
             <DrawioMenu editor={editor} />
             <LinkMenu editor={editor} appendTo={menuContainerRef} />
+            <InsertTemplateModal editor={editor} pageId={pageId} />
+            <TaskDueDateModal editor={editor} />
           </div>
         )}
+        {editor && !editorIsEditable && canComment && (
+          <EditorBubbleMenu editor={editor} commentOnly />
+        )}
         {showCommentPopup && <CommentDialog editor={editor} pageId={pageId} />}
       </div>
       <div
@@ -1,6 +1,7 @@
 import { Text, Tabs, Space } from "@mantine/core";
-import { IconClockHour3 } from "@tabler/icons-react";
+import { IconClockHour3, IconListCheck } from "@tabler/icons-react";
 import RecentChanges from "@/components/common/recent-changes.tsx";
+import MyTasks from "@/features/task/components/my-tasks.tsx";
 import { useTranslation } from "react-i18next";
 
 export default function HomeTabs() {
@@ -14,6 +15,11 @@ export default function HomeTabs() {
             {t("Recently updated")}
           </Text>
         </Tabs.Tab>
+        <Tabs.Tab value="tasks" leftSection={<IconListCheck size={18} />}>
+          <Text size="sm" fw={500}>
+            {t("My tasks")}
+          </Text>
+        </Tabs.Tab>
       </Tabs.List>
 
       <Space my="md" />
@@ -21,6 +27,10 @@ export default function HomeTabs() {
       <Tabs.Panel value="recent">
         <RecentChanges />
       </Tabs.Panel>
+
+      <Tabs.Panel value="tasks">
+        <MyTasks />
+      </Tabs.Panel>
     </Tabs>
   );
 }
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import {
+  ActionIcon,
+  Badge,
+  CloseButton,
+  Group,
+  Popover,
+  TagsInput,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import { IconTag } from "@tabler/icons-react";
+import { useDebouncedValue } from "@mantine/hooks";
+import { useTranslation } from "react-i18next";
+import { Link } from "react-router-dom";
+import {
+  useAddPageLabelsMutation,
+  useLabelsQuery,
+  usePageLabelsQuery,
+  useRemovePageLabelMutation,
+} from "@/features/label/queries/label-query";
+import { getLabelUrl } from "@/lib/config.ts";
+
+interface PageLabelsMenuProps {
+  pageId: string;
+  readOnly?: boolean;
+}
+
+export default function PageLabelsMenu({
+  pageId,
+  readOnly,
+}: PageLabelsMenuProps) {
+  const { t } = useTranslation();
+  const [value, setValue] = useState("");
+  const [debouncedValue] = useDebouncedValue(value, 250);
+  const { data: pageLabels } = usePageLabelsQuery(pageId);
+  const { data: suggestions } = useLabelsQuery({
+    query: debouncedValue,
+    limit: 20,
+  });
+  const addPageLabelsMutation = useAddPageLabelsMutation();
+  const removePageLabelMutation = useRemovePageLabelMutation();
+
+  const labels = pageLabels || [];
+  const labelNames = labels.map((label) => label.name);
+  const suggestionNames = (suggestions?.items || [])
+    .map((label) => label.name)
+    .filter((name) => !labelNames.includes(name));
+
+  // the input only collects new labels, the page labels are listed above it
+  const handleAdd = (names: string[]) => {
+    if (names.length === 0) return;
+    addPageLabelsMutation.mutate({ pageId, names });
+  };
+
+  return (
+    <Popover position="bottom-end" width={300} shadow="md" withArrow>
+      <Popover.Target>
+        <Tooltip label={t("Labels")} openDelay={250} withArrow>
+          <ActionIcon
+            variant="default"
+            style={{ border: "none" }}
+            aria-label={t("Labels")}
+          >
+            <IconTag size={20} stroke={2} />
+          </ActionIcon>
+        </Tooltip>
+      </Popover.Target>
+
+      <Popover.Dropdown>
+        <Text size="sm" fw={500} mb="xs">
+          {t("Labels")}
+        </Text>
+
+        {labels.length === 0 ? (
+          <Text size="sm" c="dimmed" mb="xs">
+            {t("No labels yet")}
+          </Text>
+        ) : (
+          <Group gap={6} mb="xs">
+            {labels.map((label) => (
+              <Badge
+                key={label.id}
+                variant="light"
+                radius="sm"
+                tt="none"
+                color={label.color || "blue"}
+                style={{ cursor: "pointer" }}
+                rightSection={
+                  !readOnly && (
+                    <CloseButton
+                      size="xs"
+                      variant="transparent"
+                      aria-label={t("Remove label")}
+                      onClick={(event) => {
+                        event.preventDefault();
+                        removePageLabelMutation.mutate({
+                          pageId,
+                          labelId: label.id,
+                        });
+                      }}
+                    />
+                  )
+                }
+                component={Link}
+                to={getLabelUrl(label.name)}
+              >
+                {label.name}
+              </Badge>
+            ))}
+          </Group>
+        )}
+
+        {!readOnly && (
+          <TagsInput
+            size="xs"
+            placeholder={t("Add a label")}
+            data={suggestionNames}
+            value={[]}
+            onChange={handleAdd}
+            searchValue={value}
+            onSearchChange={setValue}
+            disabled={addPageLabelsMutation.isPending}
+            comboboxProps={{ withinPortal: false }}
+          />
+        )}
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
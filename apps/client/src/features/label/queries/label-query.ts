@@ -0,0 +1,94 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import {
+  addPageLabels,
+  getLabelByName,
+  getLabelPages,
+  getLabels,
+  getPageLabels,
+  removePageLabel,
+} from "@/features/label/services/label-service";
+import {
+  IAddPageLabels,
+  ILabel,
+  ILabelPage,
+  IRemovePageLabel,
+} from "@/features/label/types/label.types";
+
+export function useLabelsQuery(
+  params?: QueryParams,
+): UseQueryResult<IPagination<ILabel>, Error> {
+  return useQuery({
+    queryKey: ["labels", params],
+    queryFn: () => getLabels(params),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useLabelQuery(name: string): UseQueryResult<ILabel, Error> {
+  return useQuery({
+    queryKey: ["label", name],
+    queryFn: () => getLabelByName(name),
+    enabled: !!name,
+  });
+}
+
+export function useLabelPagesQuery(
+  labelId: string,
+  params?: QueryParams,
+): UseQueryResult<IPagination<ILabelPage>, Error> {
+  return useQuery({
+    queryKey: ["label-pages", labelId, params],
+    queryFn: () => getLabelPages(labelId, params),
+    enabled: !!labelId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function usePageLabelsQuery(
+  pageId: string,
+): UseQueryResult<ILabel[], Error> {
+  return useQuery({
+    queryKey: ["page-labels", pageId],
+    queryFn: () => getPageLabels(pageId),
+    enabled: !!pageId,
+  });
+}
+
+export function useAddPageLabelsMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ILabel[], Error, IAddPageLabels>({
+    mutationFn: (data) => addPageLabels(data),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(["page-labels", variables.pageId], data);
+      queryClient.invalidateQueries({ queryKey: ["labels"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useRemovePageLabelMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ILabel[], Error, IRemovePageLabel>({
+    mutationFn: (data) => removePageLabel(data),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(["page-labels", variables.pageId], data);
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,45 @@
+import api from "@/lib/api-client";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import {
+  IAddPageLabels,
+  ILabel,
+  ILabelPage,
+  IRemovePageLabel,
+} from "@/features/label/types/label.types";
+
+export async function getLabels(
+  params?: QueryParams,
+): Promise<IPagination<ILabel>> {
+  const req = await api.post("/labels", params);
+  return req.data;
+}
+
+export async function getLabelByName(name: string): Promise<ILabel> {
+  const req = await api.post<ILabel>("/labels/info", { name });
+  return req.data;
+}
+
+export async function getLabelPages(
+  labelId: string,
+  params?: QueryParams,
+): Promise<IPagination<ILabelPage>> {
+  const req = await api.post("/labels/pages", { labelId, ...params });
+  return req.data;
+}
+
+export async function getPageLabels(pageId: string): Promise<ILabel[]> {
+  const req = await api.post<ILabel[]>("/labels/page", { pageId });
+  return req.data;
+}
+
+export async function addPageLabels(data: IAddPageLabels): Promise<ILabel[]> {
+  const req = await api.post<ILabel[]>("/labels/page/add", data);
+  return req.data;
+}
+
+export async function removePageLabel(
+  data: IRemovePageLabel,
+): Promise<ILabel[]> {
+  const req = await api.post<ILabel[]>("/labels/page/remove", data);
+  return req.data;
+}
@@ -0,0 +1,29 @@
+import { ISpace } from "@/features/space/types/space.types.ts";
+
+export interface ILabel {
+  id: string;
+  name: string;
+  color?: string;
+  createdAt?: Date;
+}
+
+export interface IAddPageLabels {
+  pageId: string;
+  names: string[];
+}
+
+export interface IRemovePageLabel {
+  pageId: string;
+  labelId: string;
+}
+
+export interface ILabelPage {
+  id: string;
+  slugId: string;
+  title: string;
+  icon: string;
+  spaceId: string;
+  updatedAt: Date;
+  space: Partial<ISpace>;
+  labels: ILabel[];
+}
@@ -0,0 +1,86 @@
+import { Box, Group, Text, UnstyledButton } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import { timeAgo } from "@/lib/time";
+import {
+  INotification,
+  NotificationType,
+} from "@/features/notification/types/notification.types";
+import classes from "./notification.module.css";
+
+interface NotificationItemProps {
+  notification: INotification;
+  onClick: (notification: INotification) => void;
+}
+
+export default function NotificationItem({
+  notification,
+  onClick,
+}: NotificationItemProps) {
+  const { t } = useTranslation();
+
+  const getMessage = () => {
+    switch (notification.type) {
+      case NotificationType.PAGE_MENTION:
+        return t("mentioned you on a page");
+      case NotificationType.COMMENT_MENTION:
+        return t("mentioned you in a comment");
+      case NotificationType.COMMENT_REPLY:
+        return t("replied to a comment thread");
+      case NotificationType.COMMENT_CREATED:
+        return t("commented on a page you watch");
+      case NotificationType.PAGE_CREATED:
+        return t("created a page you watch");
+      case NotificationType.PAGE_MOVED:
+        return t("moved a page you watch");
+      case NotificationType.PAGE_UPDATED:
+        return notification.data?.updateCount > 1
+          ? t("updated a page you watch ({{count}} changes)", {
+              count: notification.data.updateCount,
+            })
+          : t("updated a page you watch");
+      case NotificationType.PAGE_REVIEW_REQUESTED:
+        return t("requested your review of a page");
+      case NotificationType.PAGE_REVIEW_APPROVED:
+        return t("approved your changes to a page");
+      case NotificationType.PAGE_REVIEW_REJECTED:
+        return t("rejected your changes to a page");
+      default:
+        return t("sent you a notification");
+    }
+  };
+
+  return (
+    <UnstyledButton
+      className={classes.item}
+      data-unread={!notification.readAt || undefined}
+      onClick={() => onClick(notification)}
+    >
+      <Group wrap="nowrap" align="flex-start" gap="sm">
+        <CustomAvatar
+          size="sm"
+          avatarUrl={notification.actor?.avatarUrl}
+          name={notification.actor?.name}
+        />
+
+        <Box style={{ flex: 1, minWidth: 0 }}>
+          <Text size="sm" lineClamp={2}>
+            <Text span fw={500} inherit>
+              {notification.actor?.name ?? t("Someone")}
+            </Text>{" "}
+            {getMessage()}
+          </Text>
+          <Text size="xs" c="dimmed" truncate="end">
+            {notification.page?.icon}{" "}
+            {notification.page?.title || t("untitled")}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {timeAgo(notification.createdAt)}
+          </Text>
+        </Box>
+
+        {!notification.readAt && <Box className={classes.unreadDot} />}
+      </Group>
+    </UnstyledButton>
+  );
+}
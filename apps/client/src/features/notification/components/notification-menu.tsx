@@ -0,0 +1,136 @@
+import {
+  ActionIcon,
+  Button,
+  Divider,
+  Group,
+  Indicator,
+  Popover,
+  ScrollArea,
+  SegmentedControl,
+  Stack,
+  Text,
+  Tooltip,
+} from "@mantine/core";
+import { IconBell } from "@tabler/icons-react";
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import {
+  useMarkAllNotificationsReadMutation,
+  useMarkNotificationsReadMutation,
+  useNotificationsQuery,
+  useUnreadNotificationCountQuery,
+} from "@/features/notification/queries/notification-query";
+import { INotification } from "@/features/notification/types/notification.types";
+import NotificationItem from "@/features/notification/components/notification-item";
+import { buildPageUrl } from "@/features/page/page.utils";
+
+export default function NotificationMenu() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [opened, setOpened] = useState(false);
+  const [filter, setFilter] = useState<string>("all");
+
+  const { data: unread } = useUnreadNotificationCountQuery();
+  const { data, isLoading } = useNotificationsQuery(
+    { unreadOnly: filter === "unread", limit: 50 },
+    opened,
+  );
+  const markReadMutation = useMarkNotificationsReadMutation();
+  const markAllReadMutation = useMarkAllNotificationsReadMutation();
+
+  const unreadCount = unread?.count ?? 0;
+
+  const handleClick = (notification: INotification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate([notification.id]);
+    }
+
+    if (notification.page && notification.space) {
+      setOpened(false);
+      navigate(
+        buildPageUrl(
+          notification.space.slug,
+          notification.page.slugId,
+          notification.page.title,
+        ),
+      );
+    }
+  };
+
+  return (
+    <Popover
+      width={380}
+      position="bottom-end"
+      shadow="md"
+      opened={opened}
+      onChange={setOpened}
+    >
+      <Popover.Target>
+        <Tooltip label={t("Notifications")} withArrow>
+          <Indicator
+            label={unreadCount > 99 ? "99+" : unreadCount}
+            size={16}
+            disabled={unreadCount === 0}
+            offset={4}
+          >
+            <ActionIcon
+              variant="subtle"
+              color="dark"
+              aria-label={t("Notifications")}
+              onClick={() => setOpened((o) => !o)}
+            >
+              <IconBell size={20} stroke={1.5} />
+            </ActionIcon>
+          </Indicator>
+        </Tooltip>
+      </Popover.Target>
+
+      <Popover.Dropdown p={0}>
+        <Group justify="space-between" px="sm" pt="sm" pb="xs">
+          <Text fw={500}>{t("Notifications")}</Text>
+          <Button
+            variant="subtle"
+            size="compact-xs"
+            disabled={unreadCount === 0}
+            loading={markAllReadMutation.isPending}
+            onClick={() => markAllReadMutation.mutate()}
+          >
+            {t("Mark all as read")}
+          </Button>
+        </Group>
+
+        <SegmentedControl
+          mx="sm"
+          size="xs"
+          value={filter}
+          onChange={setFilter}
+          data={[
+            { label: t("All"), value: "all" },
+            { label: t("Unread"), value: "unread" },
+          ]}
+        />
+
+        <Divider mt="xs" />
+
+        <ScrollArea.Autosize mah={420} type="scroll">
+          <Stack gap={2} p={4}>
+            {data?.items.map((notification) => (
+              <NotificationItem
+                key={notification.id}
+                notification={notification}
+                onClick={handleClick}
+              />
+            ))}
+
+            {!isLoading && data?.items.length === 0 && (
+              <Text size="sm" c="dimmed" ta="center" py="lg">
+                {t("No notifications yet")}
+              </Text>
+            )}
+          </Stack>
+        </ScrollArea.Autosize>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
@@ -0,0 +1,127 @@
+import { Divider, Select, Switch, Text } from "@mantine/core";
+import { useAtom } from "jotai";
+import { useTranslation } from "react-i18next";
+import { notifications } from "@mantine/notifications";
+import { userAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { updateNotificationSettings } from "@/features/notification/services/notification-service";
+import {
+  EmailDigestFrequency,
+  INotificationSettings,
+} from "@/features/notification/types/notification.types";
+import {
+  ResponsiveSettingsContent,
+  ResponsiveSettingsControl,
+  ResponsiveSettingsRow,
+} from "@/components/ui/responsive-settings-row";
+
+export default function NotificationSettings() {
+  const { t } = useTranslation();
+  const [user, setUser] = useAtom(userAtom);
+  const settings = user?.settings?.notifications;
+
+  const handleChange = async (data: INotificationSettings) => {
+    try {
+      const updatedUser = await updateNotificationSettings(data);
+      setUser(updatedUser);
+    } catch (err) {
+      notifications.show({
+        message: t("Failed to update data"),
+        color: "red",
+      });
+    }
+  };
+
+  return (
+    <>
+      <ResponsiveSettingsRow>
+        <ResponsiveSettingsContent>
+          <Text size="md">{t("Mentions")}</Text>
+          <Text size="sm" c="dimmed">
+            {t("Notify me when someone mentions me on a page or in a comment.")}
+          </Text>
+        </ResponsiveSettingsContent>
+
+        <ResponsiveSettingsControl>
+          <Switch
+            checked={settings?.mentions !== false}
+            onChange={(event) =>
+              handleChange({ mentions: event.currentTarget.checked })
+            }
+            aria-label={t("Toggle mention notifications")}
+          />
+        </ResponsiveSettingsControl>
+      </ResponsiveSettingsRow>
+
+      <Divider my={"md"} />
+
+      <ResponsiveSettingsRow>
+        <ResponsiveSettingsContent>
+          <Text size="md">{t("Comment replies")}</Text>
+          <Text size="sm" c="dimmed">
+            {t("Notify me about replies in comment threads I take part in.")}
+          </Text>
+        </ResponsiveSettingsContent>
+
+        <ResponsiveSettingsControl>
+          <Switch
+            checked={settings?.replies !== false}
+            onChange={(event) =>
+              handleChange({ replies: event.currentTarget.checked })
+            }
+            aria-label={t("Toggle reply notifications")}
+          />
+        </ResponsiveSettingsControl>
+      </ResponsiveSettingsRow>
+
+      <Divider my={"md"} />
+
+      <ResponsiveSettingsRow>
+        <ResponsiveSettingsContent>
+          <Text size="md">{t("Watched pages and spaces")}</Text>
+          <Text size="sm" c="dimmed">
+            {t(
+              "Notify me about changes to pages and spaces I watch, including pages I created or edited.",
+            )}
+          </Text>
+        </ResponsiveSettingsContent>
+
+        <ResponsiveSettingsControl>
+          <Switch
+            checked={settings?.watching !== false}
+            onChange={(event) =>
+              handleChange({ watching: event.currentTarget.checked })
+            }
+            aria-label={t("Toggle watch notifications")}
+          />
+        </ResponsiveSettingsControl>
+      </ResponsiveSettingsRow>
+      <Divider my={"md"} />
+
+      <ResponsiveSettingsRow>
+        <ResponsiveSettingsContent>
+          <Text size="md">{t("Email digest")}</Text>
+          <Text size="sm" c="dimmed">
+            {t("Receive a summary of unread notifications by email.")}
+          </Text>
+        </ResponsiveSettingsContent>
+
+        <ResponsiveSettingsControl>
+          <Select
+            data={[
+              { label: t("Hourly"), value: EmailDigestFrequency.HOURLY },
+              { label: t("Daily"), value: EmailDigestFrequency.DAILY },
+              { label: t("Never"), value: EmailDigestFrequency.OFF },
+            ]}
+            value={settings?.emailDigest ?? EmailDigestFrequency.HOURLY}
+            onChange={(value) =>
+              value &&
+              handleChange({ emailDigest: value as EmailDigestFrequency })
+            }
+            allowDeselect={false}
+            w={160}
+          />
+        </ResponsiveSettingsControl>
+      </ResponsiveSettingsRow>
+    </>
+  );
+}
@@ -0,0 +1,64 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import {
+  getNotifications,
+  getUnreadNotificationCount,
+  markAllNotificationsRead,
+  markNotificationsRead,
+} from "@/features/notification/services/notification-service";
+import {
+  INotification,
+  INotificationParams,
+} from "@/features/notification/types/notification.types";
+import { IPagination } from "@/lib/types.ts";
+
+// the websocket invalidates everything under this key on new notifications
+export const NOTIFICATIONS_RQ_KEY = ["notifications"];
+
+export function useNotificationsQuery(
+  params?: INotificationParams,
+  enabled = true,
+): UseQueryResult<IPagination<INotification>, Error> {
+  return useQuery({
+    queryKey: [...NOTIFICATIONS_RQ_KEY, "list", params],
+    queryFn: () => getNotifications(params),
+    enabled,
+  });
+}
+
+export function useUnreadNotificationCountQuery(): UseQueryResult<
+  { count: number },
+  Error
+> {
+  return useQuery({
+    queryKey: [...NOTIFICATIONS_RQ_KEY, "unread-count"],
+    queryFn: () => getUnreadNotificationCount(),
+    refetchOnWindowFocus: true,
+  });
+}
+
+export function useMarkNotificationsReadMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string[]>({
+    mutationFn: (notificationIds) => markNotificationsRead(notificationIds),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_RQ_KEY });
+    },
+  });
+}
+
+export function useMarkAllNotificationsReadMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => markAllNotificationsRead(),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: NOTIFICATIONS_RQ_KEY });
+    },
+  });
+}
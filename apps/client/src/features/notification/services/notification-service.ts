@@ -0,0 +1,39 @@
+import api from "@/lib/api-client";
+import {
+  INotification,
+  INotificationParams,
+  INotificationSettings,
+} from "@/features/notification/types/notification.types";
+import { IPagination } from "@/lib/types.ts";
+import { IUser } from "@/features/user/types/user.types";
+
+export async function getNotifications(
+  params?: INotificationParams,
+): Promise<IPagination<INotification>> {
+  const req = await api.post("/notifications", params);
+  return req.data;
+}
+
+export async function getUnreadNotificationCount(): Promise<{
+  count: number;
+}> {
+  const req = await api.post("/notifications/unread-count");
+  return req.data;
+}
+
+export async function markNotificationsRead(
+  notificationIds: string[],
+): Promise<void> {
+  await api.post("/notifications/mark-read", { notificationIds });
+}
+
+export async function markAllNotificationsRead(): Promise<void> {
+  await api.post("/notifications/mark-all-read");
+}
+
+export async function updateNotificationSettings(
+  data: INotificationSettings,
+): Promise<IUser> {
+  const req = await api.post<IUser>("/notifications/settings/update", data);
+  return req.data;
+}
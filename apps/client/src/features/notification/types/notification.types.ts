@@ -0,0 +1,62 @@
+export enum NotificationType {
+  PAGE_MENTION = "page.mention",
+  COMMENT_MENTION = "comment.mention",
+  COMMENT_REPLY = "comment.reply",
+  COMMENT_CREATED = "comment.created",
+  PAGE_CREATED = "page.created",
+  PAGE_UPDATED = "page.updated",
+  PAGE_MOVED = "page.moved",
+  PAGE_REVIEW_REQUESTED = "page.review_requested",
+  PAGE_REVIEW_APPROVED = "page.review_approved",
+  PAGE_REVIEW_REJECTED = "page.review_rejected",
+}
+
+export enum EmailDigestFrequency {
+  OFF = "off",
+  HOURLY = "hourly",
+  DAILY = "daily",
+}
+
+export interface INotification {
+  id: string;
+  type: NotificationType | string;
+  userId: string;
+  actorId: string | null;
+  pageId: string | null;
+  commentId: string | null;
+  spaceId: string | null;
+  workspaceId: string;
+  data: Record<string, any> | null;
+  readAt: Date | null;
+  emailedAt: Date | null;
+  createdAt: Date;
+  actor: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  } | null;
+  page: {
+    id: string;
+    slugId: string;
+    title: string | null;
+    icon: string | null;
+  } | null;
+  space: {
+    id: string;
+    name: string;
+    slug: string;
+  } | null;
+}
+
+export interface INotificationParams {
+  unreadOnly?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface INotificationSettings {
+  mentions?: boolean;
+  replies?: boolean;
+  watching?: boolean;
+  emailDigest?: EmailDigestFrequency;
+}
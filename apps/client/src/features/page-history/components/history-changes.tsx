@@ -0,0 +1,49 @@
+import { Badge, Group, Loader, Stack, Text } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { usePageHistoryDiffQuery } from "@/features/page-history/queries/page-history-query";
+import PageDiffChangeList from "@/features/page-history/components/page-diff-change-list";
+
+interface HistoryChangesProps {
+  historyId: string;
+}
+
+export default function HistoryChanges({ historyId }: HistoryChangesProps) {
+  const { t } = useTranslation();
+  const { data, isLoading, isError } = usePageHistoryDiffQuery(historyId, true);
+
+  if (isLoading) {
+    return <Loader size="sm" />;
+  }
+
+  if (isError || !data) {
+    return <Text size="sm">{t("Failed to load changes.")}</Text>;
+  }
+
+  return (
+    <Stack gap="sm">
+      <Text size="sm" c="dimmed">
+        {t("Changes from this version to the current page")}
+      </Text>
+
+      {data.titleChanged && (
+        <Group wrap="nowrap" align="flex-start">
+          <Badge color="yellow" variant="light" w={90}>
+            {t("Title")}
+          </Badge>
+          <div>
+            <Text size="sm" c="dimmed" td="line-through">
+              {data.from.title}
+            </Text>
+            <Text size="sm">{data.to.title}</Text>
+          </div>
+        </Group>
+      )}
+
+      {data.changes.length === 0 && !data.titleChanged && (
+        <Text size="sm">{t("No changes.")}</Text>
+      )}
+
+      <PageDiffChangeList changes={data.changes} />
+    </Stack>
+  );
+}
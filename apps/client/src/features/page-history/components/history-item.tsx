@@ -1,43 +1,137 @@
-import { Text, Group, UnstyledButton } from "@mantine/core";
+import { ActionIcon, Group, Menu, Text, UnstyledButton } from "@mantine/core";
 import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
 import { formattedDate } from "@/lib/time";
 import classes from "./history.module.css";
 import clsx from "clsx";
+import {
+  IconDots,
+  IconPencil,
+  IconPin,
+  IconPinFilled,
+  IconPinnedOff,
+} from "@tabler/icons-react";
+import { useDisclosure } from "@mantine/hooks";
+import { useTranslation } from "react-i18next";
+import { IPageHistory } from "@/features/page-history/types/page.types";
+import { useUpdatePageHistoryMutation } from "@/features/page-history/queries/page-history-query";
+import VersionNameModal from "./version-name-modal";
 
 interface HistoryItemProps {
-  historyItem: any;
+  historyItem: IPageHistory;
   onSelect: (id: string) => void;
   isActive: boolean;
+  readOnly?: boolean;
 }
 
-function HistoryItem({ historyItem, onSelect, isActive }: HistoryItemProps) {
+function HistoryItem({
+  historyItem,
+  onSelect,
+  isActive,
+  readOnly,
+}: HistoryItemProps) {
+  const { t } = useTranslation();
+  const [renameOpened, { open: openRename, close: closeRename }] =
+    useDisclosure(false);
+  const updatePageHistoryMutation = useUpdatePageHistoryMutation();
+
+  const handleRename = async (name: string) => {
+    // named versions are kept, so naming also pins the version
+    await updatePageHistoryMutation.mutateAsync({
+      historyId: historyItem.id,
+      name,
+      isPinned: name ? true : undefined,
+    });
+  };
+
+  const handleTogglePin = () => {
+    updatePageHistoryMutation.mutate({
+      historyId: historyItem.id,
+      isPinned: !historyItem.isPinned,
+    });
+  };
+
   return (
-    <UnstyledButton
-      p="xs"
-      onClick={() => onSelect(historyItem.id)}
-      className={clsx(classes.history, { [classes.active]: isActive })}
-    >
-      <Group wrap="nowrap">
-        <div>
-          <Text size="sm">
-            {formattedDate(new Date(historyItem.createdAt))}
-          </Text>
-
-          <div style={{ flex: 1 }}>
+    <>
+      <UnstyledButton
+        p="xs"
+        onClick={() => onSelect(historyItem.id)}
+        className={clsx(classes.history, { [classes.active]: isActive })}
+      >
+        <Group wrap="nowrap" justify="space-between" align="flex-start">
+          <div style={{ minWidth: 0 }}>
+            {historyItem.name && (
+              <Text size="sm" fw={600} lineClamp={1}>
+                {historyItem.name}
+              </Text>
+            )}
+
             <Group gap={4} wrap="nowrap">
-              <CustomAvatar
-                size="sm"
-                avatarUrl={historyItem.lastUpdatedBy.avatarUrl}
-                name={historyItem.lastUpdatedBy.name}
-              />
-              <Text size="sm" c="dimmed" lineClamp={1}>
-                {historyItem.lastUpdatedBy.name}
+              {historyItem.isPinned && <IconPinFilled size={14} />}
+              <Text size="sm">
+                {formattedDate(new Date(historyItem.createdAt))}
               </Text>
             </Group>
+
+            <div style={{ flex: 1 }}>
+              <Group gap={4} wrap="nowrap">
+                <CustomAvatar
+                  size="sm"
+                  avatarUrl={historyItem.lastUpdatedBy?.avatarUrl}
+                  name={historyItem.lastUpdatedBy?.name}
+                />
+                <Text size="sm" c="dimmed" lineClamp={1}>
+                  {historyItem.lastUpdatedBy?.name}
+                </Text>
+              </Group>
+            </div>
           </div>
-        </div>
-      </Group>
-    </UnstyledButton>
+
+          {!readOnly && (
+            <Menu position="bottom-end" withinPortal>
+              <Menu.Target>
+                <ActionIcon
+                  variant="subtle"
+                  color="gray"
+                  size="sm"
+                  onClick={(e) => e.stopPropagation()}
+                  aria-label={t("Version menu")}
+                >
+                  <IconDots size={16} />
+                </ActionIcon>
+              </Menu.Target>
+              <Menu.Dropdown onClick={(e) => e.stopPropagation()}>
+                <Menu.Item
+                  leftSection={<IconPencil size={16} />}
+                  onClick={openRename}
+                >
+                  {historyItem.name ? t("Rename version") : t("Name version")}
+                </Menu.Item>
+                <Menu.Item
+                  leftSection={
+                    historyItem.isPinned ? (
+                      <IconPinnedOff size={16} />
+                    ) : (
+                      <IconPin size={16} />
+                    )
+                  }
+                  onClick={handleTogglePin}
+                >
+                  {historyItem.isPinned ? t("Unpin version") : t("Pin version")}
+                </Menu.Item>
+              </Menu.Dropdown>
+            </Menu>
+          )}
+        </Group>
+      </UnstyledButton>
+
+      <VersionNameModal
+        opened={renameOpened}
+        onClose={closeRename}
+        title={historyItem.name ? t("Rename version") : t("Name version")}
+        initialName={historyItem.name}
+        onSubmit={handleRename}
+      />
+    </>
   );
 }
 
@@ -8,12 +8,16 @@ import {
   historyAtoms,
 } from "@/features/page-history/atoms/history-atoms";
 import { useAtom } from "jotai";
-import { useCallback, useEffect } from "react";
-import { Button, ScrollArea, Group, Divider, Text } from "@mantine/core";
+import { useCallback, useEffect, useState } from "react";
 import {
-  pageEditorAtom,
-  titleEditorAtom,
-} from "@/features/editor/atoms/editor-atoms";
+  Button,
+  ScrollArea,
+  Group,
+  Divider,
+  Text,
+  SegmentedControl,
+} from "@mantine/core";
+import { titleEditorAtom } from "@/features/editor/atoms/editor-atoms";
 import { modals } from "@mantine/modals";
 import { notifications } from "@mantine/notifications";
 import { useTranslation } from "react-i18next";
@@ -24,6 +28,10 @@ import {
   SpaceCaslAction,
   SpaceCaslSubject,
 } from "@/features/space/permissions/permissions.type.ts";
+import { useDisclosure } from "@mantine/hooks";
+import { useCreatePageVersionMutation } from "@/features/page-history/queries/page-history-query";
+import { restorePageHistory } from "@/features/page-history/services/page-history-service";
+import VersionNameModal from "@/features/page-history/components/version-name-modal";
 
 interface Props {
   pageId: string;
@@ -32,14 +40,19 @@ interface Props {
 function HistoryList({ pageId }: Props) {
   const { t } = useTranslation();
   const [activeHistoryId, setActiveHistoryId] = useAtom(activeHistoryIdAtom);
+  const [filter, setFilter] = useState<string>("all");
   const {
     data: pageHistoryList,
     isLoading,
     isError,
-  } = usePageHistoryListQuery(pageId);
+  } = usePageHistoryListQuery(pageId, filter === "pinned");
   const { data: activeHistoryData } = usePageHistoryQuery(activeHistoryId);
+  const createPageVersionMutation = useCreatePageVersionMutation();
+  const [
+    saveVersionOpened,
+    { open: openSaveVersion, close: closeSaveVersion },
+  ] = useDisclosure(false);
 
-  const [mainEditor] = useAtom(pageEditorAtom);
   const [mainEditorTitle] = useAtom(titleEditorAtom);
   const [, setHistoryModalOpen] = useAtom(historyAtoms);
 
@@ -62,22 +75,40 @@ function HistoryList({ pageId }: Props) {
       onConfirm: handleRestore,
     });
 
-  const handleRestore = useCallback(() => {
-    if (activeHistoryData) {
-      mainEditorTitle
-        .chain()
-        .clearContent()
-        .setContent(activeHistoryData.title, true)
-        .run();
-      mainEditor
-        .chain()
-        .clearContent()
-        .setContent(activeHistoryData.content)
-        .run();
+  const handleRestore = useCallback(async () => {
+    if (!activeHistoryData) return;
+
+    try {
+      // the content is restored on the server and synced to open editors
+      await restorePageHistory(activeHistoryData.id);
+
+      if (
+        mainEditorTitle &&
+        mainEditorTitle.getText() !== activeHistoryData.title
+      ) {
+        mainEditorTitle
+          .chain()
+          .clearContent()
+          .setContent(activeHistoryData.title, true)
+          .run();
+      }
       setHistoryModalOpen(false);
       notifications.show({ message: t("Successfully restored") });
+    } catch (err) {
+      notifications.show({
+        message: err?.response?.data?.message || t("Failed to restore version"),
+        color: "red",
+      });
     }
-  }, [activeHistoryData]);
+  }, [activeHistoryData, mainEditorTitle]);
+
+  const handleSaveVersion = async (name: string) => {
+    const version = await createPageVersionMutation.mutateAsync({
+      pageId,
+      name,
+    });
+    setActiveHistoryId(version.id);
+  };
 
   useEffect(() => {
     if (
@@ -89,21 +120,35 @@ function HistoryList({ pageId }: Props) {
     }
   }, [pageHistoryList]);
 
-  if (isLoading) {
-    return <></>;
-  }
-
   if (isError) {
     return <div>{t("Error loading page history.")}</div>;
   }
 
-  if (!pageHistoryList || pageHistoryList.items.length === 0) {
-    return <>{t("No page history saved yet.")}</>;
-  }
+  const canEdit = spaceAbility.can(
+    SpaceCaslAction.Edit,
+    SpaceCaslSubject.Page,
+  );
 
   return (
     <div>
-      <ScrollArea h={620} w="100%" type="scroll" scrollbarSize={5}>
+      <SegmentedControl
+        size="xs"
+        fullWidth
+        mb="xs"
+        value={filter}
+        onChange={setFilter}
+        data={[
+          { label: t("All versions"), value: "all" },
+          { label: t("Pinned"), value: "pinned" },
+        ]}
+      />
+
+      <ScrollArea h={580} w="100%" type="scroll" scrollbarSize={5}>
+        {!isLoading &&
+          (!pageHistoryList || pageHistoryList.items.length === 0) && (
+            <Text size="sm">{t("No page history saved yet.")}</Text>
+          )}
+
         {pageHistoryList &&
           pageHistoryList.items.map((historyItem, index) => (
             <HistoryItem
@@ -111,20 +156,29 @@ function HistoryList({ pageId }: Props) {
               historyItem={historyItem}
               onSelect={setActiveHistoryId}
               isActive={historyItem.id === activeHistoryId}
+              readOnly={!canEdit}
             />
           ))}
       </ScrollArea>
 
-      {spaceAbility.cannot(
-        SpaceCaslAction.Manage,
-        SpaceCaslSubject.Page,
-      ) ? null : (
+      {!canEdit ? null : (
         <>
           <Divider />
           <Group p="xs" wrap="nowrap">
-            <Button size="compact-md" onClick={confirmModal}>
+            <Button
+              size="compact-md"
+              onClick={confirmModal}
+              disabled={!activeHistoryData}
+            >
               {t("Restore")}
             </Button>
+            <Button
+              variant="default"
+              size="compact-md"
+              onClick={openSaveVersion}
+            >
+              {t("Save version")}
+            </Button>
             <Button
               variant="default"
               size="compact-md"
@@ -135,6 +189,13 @@ function HistoryList({ pageId }: Props) {
           </Group>
         </>
       )}
+
+      <VersionNameModal
+        opened={saveVersionOpened}
+        onClose={closeSaveVersion}
+        title={t("Save current version")}
+        onSubmit={handleSaveVersion}
+      />
     </div>
   );
 }
@@ -1,6 +1,9 @@
 import { usePageHistoryQuery } from "@/features/page-history/queries/page-history-query";
 import { HistoryEditor } from "@/features/page-history/components/history-editor";
+import HistoryChanges from "@/features/page-history/components/history-changes";
 import { useTranslation } from "react-i18next";
+import { Group, SegmentedControl } from "@mantine/core";
+import { useState } from "react";
 
 interface HistoryProps {
   historyId: string;
@@ -9,6 +12,7 @@ interface HistoryProps {
 function HistoryView({ historyId }: HistoryProps) {
   const { t } = useTranslation();
   const { data, isLoading, isError } = usePageHistoryQuery(historyId);
+  const [view, setView] = useState<string>("version");
 
   if (isLoading) {
     return <></>;
@@ -21,7 +25,23 @@ function HistoryView({ historyId }: HistoryProps) {
   return (
     data && (
       <div>
-        <HistoryEditor content={data.content} title={data.title} />
+        <Group justify="flex-end" mb="md">
+          <SegmentedControl
+            size="xs"
+            value={view}
+            onChange={setView}
+            data={[
+              { label: t("Version"), value: "version" },
+              { label: t("Changes"), value: "changes" },
+            ]}
+          />
+        </Group>
+
+        {view === "changes" ? (
+          <HistoryChanges historyId={historyId} />
+        ) : (
+          <HistoryEditor content={data.content} title={data.title} />
+        )}
       </div>
     )
   );
@@ -0,0 +1,69 @@
+import { Badge, Group, Stack, Text } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { IPageDiffChange } from "@/features/page-history/types/page.types";
+
+interface PageDiffChangeListProps {
+  changes: IPageDiffChange[];
+}
+
+const changeColors = {
+  insert: "green",
+  delete: "red",
+  modify: "yellow",
+};
+
+function getNodeText(node: any): string {
+  if (!node) return "";
+  if (typeof node.text === "string") return node.text;
+  return (node.content ?? []).map(getNodeText).join(" ").trim();
+}
+
+export default function PageDiffChangeList({
+  changes,
+}: PageDiffChangeListProps) {
+  const { t } = useTranslation();
+
+  const changeLabels = {
+    insert: t("Added"),
+    delete: t("Removed"),
+    modify: t("Changed"),
+  };
+
+  const renderNode = (change: IPageDiffChange) => {
+    const oldText = getNodeText(change.oldNode);
+    const newText = getNodeText(change.newNode);
+
+    return (
+      <div style={{ minWidth: 0 }}>
+        {oldText && (
+          <Text
+            size="sm"
+            c={change.type === "modify" ? "dimmed" : undefined}
+            td={change.type !== "insert" ? "line-through" : undefined}
+          >
+            {oldText}
+          </Text>
+        )}
+        {newText && <Text size="sm">{newText}</Text>}
+        {!oldText && !newText && (
+          <Text size="sm" c="dimmed">
+            {change.newNode?.type ?? change.oldNode?.type}
+          </Text>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Stack gap="sm">
+      {changes.map((change, index) => (
+        <Group key={index} wrap="nowrap" align="flex-start">
+          <Badge color={changeColors[change.type]} variant="light" w={90}>
+            {changeLabels[change.type]}
+          </Badge>
+          {renderNode(change)}
+        </Group>
+      ))}
+    </Stack>
+  );
+}
@@ -0,0 +1,67 @@
+import { Button, Group, Modal, TextInput } from "@mantine/core";
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+
+interface VersionNameModalProps {
+  opened: boolean;
+  onClose: () => void;
+  title: string;
+  initialName?: string;
+  onSubmit: (name: string) => Promise<void>;
+}
+
+export default function VersionNameModal({
+  opened,
+  onClose,
+  title,
+  initialName,
+  onSubmit,
+}: VersionNameModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (opened) {
+      setName(initialName ?? "");
+    }
+  }, [opened, initialName]);
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    try {
+      await onSubmit(name.trim());
+      onClose();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={title} size="sm">
+      <TextInput
+        label={t("Version name")}
+        placeholder={t("e.g. Approved draft")}
+        value={name}
+        maxLength={255}
+        onChange={(e) => setName(e.currentTarget.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && name.trim()) handleSubmit();
+        }}
+        data-autofocus
+      />
+      <Group justify="end" mt="md">
+        <Button variant="default" onClick={onClose}>
+          {t("Cancel")}
+        </Button>
+        <Button
+          onClick={handleSubmit}
+          loading={isSubmitting}
+          disabled={!name.trim()}
+        >
+          {t("Save")}
+        </Button>
+      </Group>
+    </Modal>
+  );
+}
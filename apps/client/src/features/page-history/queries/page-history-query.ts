@@ -1,17 +1,32 @@
-import { useQuery, UseQueryResult } from "@tanstack/react-query";
 import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  createPageVersion,
   getPageHistoryById,
+  getPageHistoryDiff,
   getPageHistoryList,
+  updatePageHistory,
 } from "@/features/page-history/services/page-history-service";
-import { IPageHistory } from "@/features/page-history/types/page.types";
+import {
+  IPageHistory,
+  IPageHistoryDiff,
+  IUpdatePageHistory,
+} from "@/features/page-history/types/page.types";
 import { IPagination } from "@/lib/types.ts";
 
 export function usePageHistoryListQuery(
   pageId: string,
+  pinnedOnly?: boolean,
 ): UseQueryResult<IPagination<IPageHistory>, Error> {
   return useQuery({
-    queryKey: ["page-history-list", pageId],
-    queryFn: () => getPageHistoryList(pageId),
+    queryKey: ["page-history-list", pageId, !!pinnedOnly],
+    queryFn: () => getPageHistoryList(pageId, pinnedOnly),
     enabled: !!pageId,
     gcTime: 0,
   });
@@ -27,3 +42,55 @@ export function usePageHistoryQuery(
     staleTime: 10 * 60 * 1000,
   });
 }
+
+export function usePageHistoryDiffQuery(
+  fromHistoryId: string,
+  enabled: boolean,
+): UseQueryResult<IPageHistoryDiff, Error> {
+  return useQuery({
+    queryKey: ["page-history-diff", fromHistoryId],
+    queryFn: () => getPageHistoryDiff(fromHistoryId),
+    enabled: !!fromHistoryId && enabled,
+    gcTime: 0,
+  });
+}
+
+export function useCreatePageVersionMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<IPageHistory, Error, { pageId: string; name: string }>({
+    mutationFn: (data) => createPageVersion(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["page-history-list"] });
+      notifications.show({ message: t("Version saved") });
+    },
+    onError: (error) => {
+      notifications.show({
+        message:
+          error?.["response"]?.data?.message || t("Failed to save version"),
+        color: "red",
+      });
+    },
+  });
+}
+
+export function useUpdatePageHistoryMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<IPageHistory, Error, IUpdatePageHistory>({
+    mutationFn: (data) => updatePageHistory(data),
+    onSuccess: (data) => {
+      queryClient.setQueryData(["page-history", data.id], data);
+      queryClient.invalidateQueries({ queryKey: ["page-history-list"] });
+    },
+    onError: (error) => {
+      notifications.show({
+        message:
+          error?.["response"]?.data?.message || t("Failed to update version"),
+        color: "red",
+      });
+    },
+  });
+}
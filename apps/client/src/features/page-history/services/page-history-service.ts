@@ -1,12 +1,18 @@
 import api from "@/lib/api-client";
-import { IPageHistory } from "@/features/page-history/types/page.types";
+import {
+  IPageHistory,
+  IPageHistoryDiff,
+  IUpdatePageHistory,
+} from "@/features/page-history/types/page.types";
 import { IPagination } from "@/lib/types.ts";
 
 export async function getPageHistoryList(
   pageId: string,
+  pinnedOnly?: boolean,
 ): Promise<IPagination<IPageHistory>> {
   const req = await api.post("/pages/history", {
     pageId,
+    pinnedOnly,
   });
   return req.data;
 }
@@ -19,3 +25,33 @@ export async function getPageHistoryById(
   });
   return req.data;
 }
+
+export async function createPageVersion(data: {
+  pageId: string;
+  name: string;
+}): Promise<IPageHistory> {
+  const req = await api.post<IPageHistory>("/pages/history/create", data);
+  return req.data;
+}
+
+export async function updatePageHistory(
+  data: IUpdatePageHistory,
+): Promise<IPageHistory> {
+  const req = await api.post<IPageHistory>("/pages/history/update", data);
+  return req.data;
+}
+
+export async function restorePageHistory(historyId: string): Promise<void> {
+  await api.post("/pages/history/restore", { historyId });
+}
+
+export async function getPageHistoryDiff(
+  fromHistoryId: string,
+  toHistoryId?: string,
+): Promise<IPageHistoryDiff> {
+  const req = await api.post<IPageHistoryDiff>("/pages/history/diff", {
+    fromHistoryId,
+    toHistoryId,
+  });
+  return req.data;
+}
@@ -13,9 +13,44 @@ export interface IPageHistory {
   icon: string;
   coverPhoto: string;
   version: number;
+  name: string | null;
+  isPinned: boolean;
+  pinnedById: string | null;
+  pinnedAt: string | null;
   lastUpdatedById: string;
   workspaceId: string;
   createdAt: string;
   updatedAt: string;
   lastUpdatedBy: IPageHistoryUser;
 }
+
+export type PageDiffChangeType = "insert" | "delete" | "modify";
+
+export interface IPageDiffChange {
+  type: PageDiffChangeType;
+  oldPath?: number[];
+  newPath?: number[];
+  oldNode?: any;
+  newNode?: any;
+}
+
+export interface IPageDiffSide {
+  // null when the side is the current page
+  historyId: string | null;
+  title: string;
+  name: string | null;
+  createdAt: string;
+}
+
+export interface IPageHistoryDiff {
+  from: IPageDiffSide;
+  to: IPageDiffSide;
+  titleChanged: boolean;
+  changes: IPageDiffChange[];
+}
+
+export interface IUpdatePageHistory {
+  historyId: string;
+  name?: string;
+  isPinned?: boolean;
+}
@@ -0,0 +1,261 @@
+import {
+  ActionIcon,
+  Alert,
+  Button,
+  Divider,
+  Group,
+  Modal,
+  ScrollArea,
+  Select,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import React, { useState } from "react";
+import { IconInfoCircle, IconX } from "@tabler/icons-react";
+import { modals } from "@mantine/modals";
+import { useTranslation } from "react-i18next";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import { IconGroupCircle } from "@/components/icons/icon-people-circle.tsx";
+import RoleSelectMenu from "@/components/ui/role-select-menu.tsx";
+import { MultiMemberSelect } from "@/features/space/components/multi-member-select.tsx";
+import { formatMemberCount } from "@/lib";
+import {
+  useAddPagePermissionsMutation,
+  useChangePagePermissionRoleMutation,
+  usePagePermissionsQuery,
+  useRemovePagePermissionMutation,
+  useRemovePageRestrictionMutation,
+} from "@/features/page-permission/queries/page-permission-query.ts";
+import {
+  IPagePermissionMember,
+  IRemovePagePermission,
+  PageRole,
+} from "@/features/page-permission/types/page-permission.types.ts";
+import {
+  getPageRoleLabel,
+  pageRoleData,
+} from "@/features/page-permission/types/page-role-data.ts";
+
+interface PagePermissionsModalProps {
+  pageId: string;
+  open: boolean;
+  onClose: () => void;
+  readOnly?: boolean;
+}
+
+export default function PagePermissionsModal({
+  pageId,
+  open,
+  onClose,
+  readOnly,
+}: PagePermissionsModalProps) {
+  const { t } = useTranslation();
+  const { data } = usePagePermissionsQuery(pageId, open);
+  const addPagePermissionsMutation = useAddPagePermissionsMutation();
+  const removePagePermissionMutation = useRemovePagePermissionMutation();
+  const changePagePermissionRoleMutation =
+    useChangePagePermissionRoleMutation();
+  const removePageRestrictionMutation = useRemovePageRestrictionMutation();
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [role, setRole] = useState<string>(PageRole.WRITER);
+  // remounts the member select to clear it after members are added
+  const [selectKey, setSelectKey] = useState(0);
+
+  const memberInput = (member: IPagePermissionMember) => {
+    const input: IRemovePagePermission = { pageId };
+    if (member.type === "user") {
+      input.userId = member.id;
+    }
+    if (member.type === "group") {
+      input.groupId = member.id;
+    }
+    return input;
+  };
+
+  const handleAdd = async () => {
+    // member can be a users or groups
+    const userIds = memberIds
+      .map((id) => (id.startsWith("user-") ? id.split("user-")[1] : null))
+      .filter((id) => id !== null);
+
+    const groupIds = memberIds
+      .map((id) => (id.startsWith("group-") ? id.split("group-")[1] : null))
+      .filter((id) => id !== null);
+
+    await addPagePermissionsMutation.mutateAsync({
+      pageId,
+      role,
+      userIds,
+      groupIds,
+    });
+    setMemberIds([]);
+    setSelectKey((key) => key + 1);
+  };
+
+  const handleRoleChange = async (
+    member: IPagePermissionMember,
+    newRole: string,
+  ) => {
+    if (newRole === member.role) {
+      return;
+    }
+    await changePagePermissionRoleMutation.mutateAsync({
+      ...memberInput(member),
+      role: newRole,
+    });
+  };
+
+  const openRemoveModal = (member: IPagePermissionMember) =>
+    modals.openConfirmModal({
+      title: t("Remove page access"),
+      children: (
+        <Text size="sm">
+          {t(
+            "Are you sure you want to remove this member's access to the page and its sub-pages?",
+          )}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Remove"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: () =>
+        removePagePermissionMutation.mutateAsync(memberInput(member)),
+    });
+
+  const openUnrestrictModal = () =>
+    modals.openConfirmModal({
+      title: t("Remove restrictions"),
+      children: (
+        <Text size="sm">
+          {t(
+            "Everyone in the space will be able to access this page again based on their space role.",
+          )}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Remove"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: () => removePageRestrictionMutation.mutateAsync(pageId),
+    });
+
+  return (
+    <Modal opened={open} onClose={onClose} title={t("Page access")} size={600}>
+      <Divider size="xs" mb="xs" />
+
+      <Stack>
+        {data?.inheritedRestrictions.length > 0 && (
+          <Alert variant="light" icon={<IconInfoCircle />}>
+            {t("Access is also restricted by parent pages: {{pages}}", {
+              pages: data.inheritedRestrictions
+                .map((restriction) => restriction.title || t("untitled"))
+                .join(", "),
+            })}
+          </Alert>
+        )}
+
+        {data && !data.isRestricted && (
+          <Text size="sm" c="dimmed">
+            {t(
+              "This page is accessible to all space members based on their space role. Add members to restrict access to them.",
+            )}
+          </Text>
+        )}
+
+        {!readOnly && (
+          <Group align="flex-end" wrap="nowrap">
+            <div style={{ flex: 1 }}>
+              <MultiMemberSelect key={selectKey} onChange={setMemberIds} />
+            </div>
+            <Select
+              data={pageRoleData.map((role) => ({
+                label: t(role.label),
+                value: role.value,
+              }))}
+              value={role}
+              onChange={setRole}
+              allowDeselect={false}
+              variant="filled"
+              w={130}
+            />
+            <Button
+              onClick={handleAdd}
+              disabled={memberIds.length === 0}
+              loading={addPagePermissionsMutation.isPending}
+            >
+              {t("Add")}
+            </Button>
+          </Group>
+        )}
+
+        {data?.members.length > 0 && (
+          <ScrollArea.Autosize mah={350}>
+            <Table verticalSpacing={8}>
+              <Table.Tbody>
+                {data.members.map((member) => (
+                  <Table.Tr key={`${member.type}-${member.id}`}>
+                    <Table.Td>
+                      <Group gap="sm" wrap="nowrap">
+                        {member.type === "user" && (
+                          <CustomAvatar
+                            avatarUrl={member?.avatarUrl}
+                            name={member.name}
+                          />
+                        )}
+
+                        {member.type === "group" && <IconGroupCircle />}
+
+                        <div>
+                          <Text fz="sm" fw={500} lineClamp={1}>
+                            {member?.name}
+                          </Text>
+                          <Text fz="xs" c="dimmed">
+                            {member.type == "user" && member?.email}
+
+                            {member.type == "group" &&
+                              `${t("Group")} - ${formatMemberCount(member?.memberCount, t)}`}
+                          </Text>
+                        </div>
+                      </Group>
+                    </Table.Td>
+
+                    <Table.Td>
+                      <RoleSelectMenu
+                        roles={pageRoleData}
+                        roleName={getPageRoleLabel(member.role)}
+                        onChange={(newRole) =>
+                          handleRoleChange(member, newRole)
+                        }
+                        disabled={readOnly}
+                      />
+                    </Table.Td>
+
+                    <Table.Td>
+                      {!readOnly && (
+                        <ActionIcon
+                          variant="subtle"
+                          c="gray"
+                          onClick={() => openRemoveModal(member)}
+                        >
+                          <IconX size={16} />
+                        </ActionIcon>
+                      )}
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+          </ScrollArea.Autosize>
+        )}
+
+        {!readOnly && data?.isRestricted && (
+          <Group justify="flex-end">
+            <Button variant="default" c="red" onClick={openUnrestrictModal}>
+              {t("Remove restrictions")}
+            </Button>
+          </Group>
+        )}
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,109 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  IAddPagePermissions,
+  IChangePagePermissionRole,
+  IPagePermissions,
+  IRemovePagePermission,
+} from "@/features/page-permission/types/page-permission.types.ts";
+import {
+  addPagePermissions,
+  changePagePermissionRole,
+  getPagePermissions,
+  removePagePermission,
+  removePageRestriction,
+} from "@/features/page-permission/services/page-permission-service.ts";
+
+export function usePagePermissionsQuery(
+  pageId: string,
+  enabled: boolean = true,
+): UseQueryResult<IPagePermissions, Error> {
+  return useQuery({
+    queryKey: ["page-permissions", pageId],
+    queryFn: () => getPagePermissions(pageId),
+    enabled: !!pageId && enabled,
+  });
+}
+
+function invalidatePagePermissionQueries(
+  queryClient: ReturnType<typeof useQueryClient>,
+  pageId: string,
+) {
+  queryClient.invalidateQueries({ queryKey: ["page-permissions", pageId] });
+  // the user's own abilities on the page may have changed
+  queryClient.invalidateQueries({ queryKey: ["pages"] });
+}
+
+export function useAddPagePermissionsMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<void, Error, IAddPagePermissions>({
+    mutationFn: (data) => addPagePermissions(data),
+    onSuccess: (data, variables) => {
+      notifications.show({ message: t("Members added successfully") });
+      invalidatePagePermissionQueries(queryClient, variables.pageId);
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useRemovePagePermissionMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<void, Error, IRemovePagePermission>({
+    mutationFn: (data) => removePagePermission(data),
+    onSuccess: (data, variables) => {
+      notifications.show({ message: t("Member removed successfully") });
+      invalidatePagePermissionQueries(queryClient, variables.pageId);
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useChangePagePermissionRoleMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<void, Error, IChangePagePermissionRole>({
+    mutationFn: (data) => changePagePermissionRole(data),
+    onSuccess: (data, variables) => {
+      notifications.show({ message: t("Member role updated successfully") });
+      invalidatePagePermissionQueries(queryClient, variables.pageId);
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useRemovePageRestrictionMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<void, Error, string>({
+    mutationFn: (pageId) => removePageRestriction(pageId),
+    onSuccess: (data, pageId) => {
+      notifications.show({ message: t("Page restrictions removed") });
+      invalidatePagePermissionQueries(queryClient, pageId);
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
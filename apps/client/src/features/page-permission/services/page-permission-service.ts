@@ -0,0 +1,38 @@
+import api from "@/lib/api-client";
+import {
+  IAddPagePermissions,
+  IChangePagePermissionRole,
+  IPagePermissions,
+  IRemovePagePermission,
+} from "@/features/page-permission/types/page-permission.types.ts";
+
+export async function getPagePermissions(
+  pageId: string,
+): Promise<IPagePermissions> {
+  const req = await api.post<IPagePermissions>("/pages/permissions", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function addPagePermissions(
+  data: IAddPagePermissions,
+): Promise<void> {
+  await api.post("/pages/permissions/add", data);
+}
+
+export async function removePagePermission(
+  data: IRemovePagePermission,
+): Promise<void> {
+  await api.post("/pages/permissions/remove", data);
+}
+
+export async function changePagePermissionRole(
+  data: IChangePagePermissionRole,
+): Promise<void> {
+  await api.post("/pages/permissions/change-role", data);
+}
+
+export async function removePageRestriction(pageId: string): Promise<void> {
+  await api.post("/pages/permissions/unrestrict", { pageId });
+}
@@ -0,0 +1,42 @@
+import {
+  SpaceGroupInfo,
+  SpaceUserInfo,
+} from "@/features/space/types/space.types.ts";
+
+export enum PageRole {
+  WRITER = "writer",
+  READER = "reader",
+}
+
+export type IPagePermissionMember = { role: string; createdAt: Date } & (
+  | SpaceUserInfo
+  | SpaceGroupInfo
+);
+
+export interface IInheritedPageRestriction {
+  pageId: string;
+  title: string;
+}
+
+export interface IPagePermissions {
+  isRestricted: boolean;
+  inheritedRestrictions: IInheritedPageRestriction[];
+  members: IPagePermissionMember[];
+}
+
+export interface IAddPagePermissions {
+  pageId: string;
+  role: string;
+  userIds: string[];
+  groupIds: string[];
+}
+
+export interface IRemovePagePermission {
+  pageId: string;
+  userId?: string;
+  groupId?: string;
+}
+
+export interface IChangePagePermissionRole extends IRemovePagePermission {
+  role: string;
+}
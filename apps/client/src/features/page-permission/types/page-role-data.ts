@@ -0,0 +1,20 @@
+import { IRoleData } from "@/lib/types.ts";
+import { PageRole } from "@/features/page-permission/types/page-permission.types.ts";
+
+export const pageRoleData: IRoleData[] = [
+  {
+    label: "Can edit",
+    value: PageRole.WRITER,
+    description: "Can view and edit this page and its sub-pages.",
+  },
+  {
+    label: "Can view",
+    value: PageRole.READER,
+    description: "Can view this page and its sub-pages but not edit.",
+  },
+];
+
+export function getPageRoleLabel(value: string) {
+  const role = pageRoleData.find((item) => item.value === value);
+  return role ? role.label : undefined;
+}
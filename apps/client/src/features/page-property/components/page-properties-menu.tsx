@@ -0,0 +1,88 @@
+import { ActionIcon, Popover, SimpleGrid, Text, Tooltip } from "@mantine/core";
+import { IconListDetails } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+import {
+  usePagePropertiesQuery,
+  useSetPagePropertyValueMutation,
+} from "@/features/page-property/queries/page-property-query";
+import {
+  PropertyValueDisplay,
+  PropertyValueInput,
+} from "@/features/page-property/components/property-value.tsx";
+
+interface PagePropertiesMenuProps {
+  pageId: string;
+  readOnly?: boolean;
+}
+
+export default function PagePropertiesMenu({
+  pageId,
+  readOnly,
+}: PagePropertiesMenuProps) {
+  const { t } = useTranslation();
+  const { data } = usePagePropertiesQuery(pageId);
+  const setValueMutation = useSetPagePropertyValueMutation();
+
+  // pages without properties from their parent or space show no menu
+  if (!data || data.properties.length === 0) {
+    return null;
+  }
+
+  return (
+    <Popover position="bottom-end" width={360} shadow="md" withArrow>
+      <Popover.Target>
+        <Tooltip label={t("Properties")} openDelay={250} withArrow>
+          <ActionIcon
+            variant="default"
+            style={{ border: "none" }}
+            aria-label={t("Properties")}
+          >
+            <IconListDetails size={20} stroke={2} />
+          </ActionIcon>
+        </Tooltip>
+      </Popover.Target>
+
+      <Popover.Dropdown>
+        <Text size="sm" fw={500} mb="xs">
+          {t("Properties")}
+        </Text>
+
+        <SimpleGrid cols={2} spacing="xs" verticalSpacing={6}>
+          {data.properties.map((property) => [
+            <Text
+              key={`${property.id}-name`}
+              size="sm"
+              c="dimmed"
+              lineClamp={1}
+            >
+              {property.name}
+            </Text>,
+            <div key={`${property.id}-value`}>
+              {readOnly ? (
+                <PropertyValueDisplay
+                  property={property}
+                  value={data.values[property.id]}
+                  users={data.users}
+                />
+              ) : (
+                <PropertyValueInput
+                  property={property}
+                  value={data.values[property.id]}
+                  users={data.users}
+                  onChange={(value) =>
+                    setValueMutation.mutate({
+                      pageId,
+                      propertyId: property.id,
+                      value,
+                    })
+                  }
+                  withinPortal={false}
+                />
+              )}
+            </div>,
+          ])}
+        </SimpleGrid>
+      </Popover.Dropdown>
+    </Popover>
+  );
+}
@@ -0,0 +1,290 @@
+import { useEffect, useState } from "react";
+import {
+  ActionIcon,
+  Button,
+  ColorSwatch,
+  Group,
+  Menu,
+  Modal,
+  SegmentedControl,
+  Select,
+  Stack,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { IconPlus, IconX } from "@tabler/icons-react";
+import { modals } from "@mantine/modals";
+import { useTranslation } from "react-i18next";
+import { v4 as uuid } from "uuid";
+import {
+  useCreatePagePropertyMutation,
+  useDeletePagePropertyMutation,
+  useUpdatePagePropertyMutation,
+} from "@/features/page-property/queries/page-property-query";
+import {
+  IPageProperty,
+  IPagePropertyOption,
+  PagePropertyType,
+} from "@/features/page-property/types/page-property.types";
+import { OPTION_PROPERTY_TYPES } from "@/features/page-property/utils/collection.utils";
+
+const OPTION_COLORS = [
+  "gray",
+  "red",
+  "orange",
+  "yellow",
+  "green",
+  "teal",
+  "blue",
+  "violet",
+  "pink",
+];
+
+interface PagePropertyModalProps {
+  opened: boolean;
+  onClose: () => void;
+  spaceId: string;
+  parentPageId: string;
+  // the property to edit, a new property is created when omitted
+  property?: IPageProperty;
+}
+
+export default function PagePropertyModal({
+  opened,
+  onClose,
+  spaceId,
+  parentPageId,
+  property,
+}: PagePropertyModalProps) {
+  const { t } = useTranslation();
+  const [name, setName] = useState("");
+  const [type, setType] = useState<PagePropertyType>(PagePropertyType.TEXT);
+  const [scope, setScope] = useState<"page" | "space">("page");
+  const [options, setOptions] = useState<IPagePropertyOption[]>([]);
+
+  const createPropertyMutation = useCreatePagePropertyMutation();
+  const updatePropertyMutation = useUpdatePagePropertyMutation();
+  const deletePropertyMutation = useDeletePagePropertyMutation();
+
+  useEffect(() => {
+    if (!opened) return;
+    setName(property?.name ?? "");
+    setType(property?.type ?? PagePropertyType.TEXT);
+    setScope(property && !property.parentPageId ? "space" : "page");
+    setOptions(property?.options ?? []);
+  }, [opened, property]);
+
+  const typeData = [
+    { value: PagePropertyType.TEXT, label: t("Text") },
+    { value: PagePropertyType.NUMBER, label: t("Number") },
+    { value: PagePropertyType.SELECT, label: t("Select") },
+    { value: PagePropertyType.MULTI_SELECT, label: t("Multi-select") },
+    { value: PagePropertyType.DATE, label: t("Date") },
+    { value: PagePropertyType.PERSON, label: t("Person") },
+    { value: PagePropertyType.CHECKBOX, label: t("Checkbox") },
+  ];
+
+  const hasOptions = OPTION_PROPERTY_TYPES.includes(type);
+  const validOptions = options.filter((option) => option.name.trim());
+
+  const updateOption = (id: string, data: Partial<IPagePropertyOption>) => {
+    setOptions((current) =>
+      current.map((option) =>
+        option.id === id ? { ...option, ...data } : option,
+      ),
+    );
+  };
+
+  const handleSubmit = async () => {
+    const trimmedName = name.trim();
+    if (!trimmedName) return;
+
+    const cleanOptions = hasOptions
+      ? validOptions.map((option) => ({
+          ...option,
+          name: option.name.trim(),
+        }))
+      : undefined;
+
+    if (property) {
+      await updatePropertyMutation.mutateAsync({
+        propertyId: property.id,
+        name: trimmedName,
+        options: cleanOptions,
+      });
+    } else {
+      await createPropertyMutation.mutateAsync({
+        spaceId,
+        parentPageId: scope === "page" ? parentPageId : undefined,
+        name: trimmedName,
+        type,
+        options: cleanOptions,
+      });
+    }
+    onClose();
+  };
+
+  const handleDelete = () => {
+    modals.openConfirmModal({
+      title: t("Delete property"),
+      children: (
+        <Text size="sm">
+          {t(
+            "Are you sure you want to delete this property? Its values will be removed from all pages.",
+          )}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Delete"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: async () => {
+        await deletePropertyMutation.mutateAsync(property.id);
+        onClose();
+      },
+    });
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={property ? t("Edit property") : t("New property")}
+    >
+      <Stack>
+        <TextInput
+          label={t("Name")}
+          value={name}
+          onChange={(event) => setName(event.currentTarget.value)}
+          maxLength={100}
+          data-autofocus
+        />
+
+        <Select
+          label={t("Type")}
+          data={typeData}
+          value={type}
+          onChange={(value) => value && setType(value as PagePropertyType)}
+          disabled={!!property}
+          allowDeselect={false}
+        />
+
+        {!property && (
+          <Stack gap={4}>
+            <Text size="sm" fw={500}>
+              {t("Available in")}
+            </Text>
+            <SegmentedControl
+              value={scope}
+              onChange={(value) => setScope(value as "page" | "space")}
+              data={[
+                { value: "page", label: t("This collection") },
+                { value: "space", label: t("Whole space") },
+              ]}
+            />
+          </Stack>
+        )}
+
+        {hasOptions && (
+          <Stack gap={6}>
+            <Text size="sm" fw={500}>
+              {t("Options")}
+            </Text>
+            {options.map((option) => (
+              <Group key={option.id} gap="xs" wrap="nowrap">
+                <Menu position="bottom-start">
+                  <Menu.Target>
+                    <ActionIcon variant="subtle" color="gray">
+                      <ColorSwatch
+                        size={16}
+                        color={`var(--mantine-color-${option.color || "gray"}-6)`}
+                      />
+                    </ActionIcon>
+                  </Menu.Target>
+                  <Menu.Dropdown>
+                    <Group gap={4} p={4}>
+                      {OPTION_COLORS.map((color) => (
+                        <ActionIcon
+                          key={color}
+                          variant="subtle"
+                          color="gray"
+                          onClick={() => updateOption(option.id, { color })}
+                        >
+                          <ColorSwatch
+                            size={16}
+                            color={`var(--mantine-color-${color}-6)`}
+                          />
+                        </ActionIcon>
+                      ))}
+                    </Group>
+                  </Menu.Dropdown>
+                </Menu>
+                <TextInput
+                  flex={1}
+                  size="xs"
+                  value={option.name}
+                  maxLength={100}
+                  onChange={(event) =>
+                    updateOption(option.id, {
+                      name: event.currentTarget.value,
+                    })
+                  }
+                />
+                <ActionIcon
+                  variant="subtle"
+                  color="gray"
+                  onClick={() =>
+                    setOptions((current) =>
+                      current.filter((item) => item.id !== option.id),
+                    )
+                  }
+                  aria-label={t("Remove option")}
+                >
+                  <IconX size={14} />
+                </ActionIcon>
+              </Group>
+            ))}
+            <Button
+              variant="subtle"
+              size="xs"
+              leftSection={<IconPlus size={14} />}
+              onClick={() =>
+                setOptions((current) => [
+                  ...current,
+                  { id: uuid(), name: "", color: "gray" },
+                ])
+              }
+              style={{ alignSelf: "flex-start" }}
+            >
+              {t("Add option")}
+            </Button>
+          </Stack>
+        )}
+
+        <Group justify="space-between" mt="md">
+          {property ? (
+            <Button variant="subtle" color="red" onClick={handleDelete}>
+              {t("Delete")}
+            </Button>
+          ) : (
+            <div />
+          )}
+          <Group>
+            <Button variant="default" onClick={onClose}>
+              {t("Cancel")}
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={!name.trim()}
+              loading={
+                createPropertyMutation.isPending ||
+                updatePropertyMutation.isPending
+              }
+            >
+              {property ? t("Save") : t("Create")}
+            </Button>
+          </Group>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
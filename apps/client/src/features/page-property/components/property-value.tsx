@@ -0,0 +1,255 @@
+import { lazy, Suspense, useEffect, useMemo, useState } from "react";
+import {
+  Badge,
+  Checkbox,
+  Group,
+  MultiSelect,
+  NumberInput,
+  Select,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import { useTranslation } from "react-i18next";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import { useWorkspaceMembersQuery } from "@/features/workspace/queries/workspace-query.ts";
+import {
+  IPageProperty,
+  IPagePropertyUser,
+  PagePropertyType,
+  PagePropertyValue,
+} from "@/features/page-property/types/page-property.types";
+import { isEmptyValue } from "@/features/page-property/utils/collection.utils";
+
+const DateInput = lazy(() =>
+  import("@mantine/dates").then((module) => ({
+    default: module.DateInput,
+  })),
+);
+
+interface PropertyValueProps {
+  property: IPageProperty;
+  value: PagePropertyValue;
+  users: IPagePropertyUser[];
+}
+
+interface PropertyValueInputProps extends PropertyValueProps {
+  onChange: (value: PagePropertyValue | null) => void;
+  // dropdowns have to stay inside popovers to keep them open
+  withinPortal?: boolean;
+}
+
+export function PropertyValueDisplay({
+  property,
+  value,
+  users,
+}: PropertyValueProps) {
+  const { t } = useTranslation();
+
+  if (property.type === PagePropertyType.CHECKBOX) {
+    return <Checkbox size="xs" checked={value === true} readOnly />;
+  }
+
+  if (isEmptyValue(value)) {
+    return null;
+  }
+
+  switch (property.type) {
+    case PagePropertyType.SELECT:
+    case PagePropertyType.MULTI_SELECT: {
+      const selected = Array.isArray(value) ? value : [value as string];
+      return (
+        <Group gap={4}>
+          {(property.options ?? [])
+            .filter((option) => selected.includes(option.id))
+            .map((option) => (
+              <Badge
+                key={option.id}
+                size="sm"
+                variant="light"
+                color={option.color || "gray"}
+              >
+                {option.name}
+              </Badge>
+            ))}
+        </Group>
+      );
+    }
+    case PagePropertyType.PERSON: {
+      const user = users.find((user) => user.id === value);
+      return (
+        <Group gap={6} wrap="nowrap">
+          <CustomAvatar
+            avatarUrl={user?.avatarUrl}
+            name={user?.name}
+            size={18}
+          />
+          <Text size="sm" lineClamp={1}>
+            {user?.name ?? t("Unknown user")}
+          </Text>
+        </Group>
+      );
+    }
+    default:
+      return (
+        <Text size="sm" lineClamp={1}>
+          {String(value)}
+        </Text>
+      );
+  }
+}
+
+function PersonSelect({
+  value,
+  users,
+  onChange,
+  withinPortal = true,
+}: PropertyValueInputProps) {
+  const { t } = useTranslation();
+  const [searchValue, setSearchValue] = useState("");
+  const [debouncedQuery] = useDebouncedValue(searchValue, 500);
+  const { data: members } = useWorkspaceMembersQuery({
+    query: debouncedQuery,
+    limit: 25,
+  });
+
+  const data = useMemo(() => {
+    const options = new Map<string, string>();
+    users.forEach((user) => options.set(user.id, user.name));
+    members?.items.forEach((user) => options.set(user.id, user.name));
+    return Array.from(options, ([id, name]) => ({ value: id, label: name }));
+  }, [users, members]);
+
+  return (
+    <Select
+      size="xs"
+      variant="unstyled"
+      data={data}
+      value={(value as string) ?? null}
+      onChange={onChange}
+      searchable
+      onSearchChange={setSearchValue}
+      clearable
+      placeholder={t("Empty")}
+      nothingFoundMessage={t("No user found")}
+      comboboxProps={{ withinPortal }}
+    />
+  );
+}
+
+function TextValueInput({
+  property,
+  value,
+  onChange,
+}: PropertyValueInputProps) {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<string | number>(
+    (value as string | number) ?? "",
+  );
+
+  useEffect(() => {
+    setDraft((value as string | number) ?? "");
+  }, [value]);
+
+  const commit = () => {
+    const next = draft === "" ? null : draft;
+    if (next !== (value ?? null)) {
+      onChange(next);
+    }
+  };
+
+  if (property.type === PagePropertyType.NUMBER) {
+    return (
+      <NumberInput
+        size="xs"
+        variant="unstyled"
+        value={draft}
+        onChange={setDraft}
+        onBlur={commit}
+        onKeyDown={(event) => event.key === "Enter" && commit()}
+        placeholder={t("Empty")}
+        hideControls
+      />
+    );
+  }
+
+  return (
+    <TextInput
+      size="xs"
+      variant="unstyled"
+      value={draft}
+      onChange={(event) => setDraft(event.currentTarget.value)}
+      onBlur={commit}
+      onKeyDown={(event) => event.key === "Enter" && commit()}
+      placeholder={t("Empty")}
+    />
+  );
+}
+
+export function PropertyValueInput(props: PropertyValueInputProps) {
+  const { property, value, onChange, withinPortal = true } = props;
+  const { t } = useTranslation();
+
+  const optionData = (property.options ?? []).map((option) => ({
+    value: option.id,
+    label: option.name,
+  }));
+
+  switch (property.type) {
+    case PagePropertyType.TEXT:
+    case PagePropertyType.NUMBER:
+      return <TextValueInput {...props} />;
+    case PagePropertyType.CHECKBOX:
+      return (
+        <Checkbox
+          size="xs"
+          checked={value === true}
+          onChange={(event) => onChange(event.currentTarget.checked)}
+        />
+      );
+    case PagePropertyType.SELECT:
+      return (
+        <Select
+          size="xs"
+          variant="unstyled"
+          data={optionData}
+          value={(value as string) ?? null}
+          onChange={onChange}
+          clearable
+          placeholder={t("Empty")}
+          comboboxProps={{ withinPortal }}
+        />
+      );
+    case PagePropertyType.MULTI_SELECT:
+      return (
+        <MultiSelect
+          size="xs"
+          variant="unstyled"
+          data={optionData}
+          value={(value as string[]) ?? []}
+          onChange={onChange}
+          placeholder={isEmptyValue(value) ? t("Empty") : undefined}
+          comboboxProps={{ withinPortal }}
+        />
+      );
+    case PagePropertyType.DATE:
+      return (
+        <Suspense fallback={null}>
+          <DateInput
+            size="xs"
+            variant="unstyled"
+            value={(value as string) ?? null}
+            onChange={onChange}
+            valueFormat="YYYY-MM-DD"
+            clearable
+            placeholder={t("Empty")}
+            popoverProps={{ withinPortal }}
+          />
+        </Suspense>
+      );
+    case PagePropertyType.PERSON:
+      return <PersonSelect {...props} />;
+    default:
+      return null;
+  }
+}
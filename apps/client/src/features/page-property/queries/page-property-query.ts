@@ -0,0 +1,96 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import {
+  createPageProperty,
+  deletePageProperty,
+  getCollection,
+  getPageProperties,
+  setPagePropertyValue,
+  updatePageProperty,
+} from "@/features/page-property/services/page-property-service";
+import {
+  ICollection,
+  ICreatePageProperty,
+  IPageProperties,
+  IPageProperty,
+  ISetPagePropertyValue,
+  IUpdatePageProperty,
+} from "@/features/page-property/types/page-property.types";
+
+export function useCollectionQuery(
+  pageId: string,
+): UseQueryResult<ICollection, Error> {
+  return useQuery({
+    queryKey: ["page-collection", pageId],
+    queryFn: () => getCollection(pageId),
+    enabled: !!pageId,
+  });
+}
+
+export function usePagePropertiesQuery(
+  pageId: string,
+): UseQueryResult<IPageProperties, Error> {
+  return useQuery({
+    queryKey: ["page-properties", pageId],
+    queryFn: () => getPageProperties(pageId),
+    enabled: !!pageId,
+  });
+}
+
+// property definitions and values show up in both collections and single pages
+function invalidatePropertyQueries(
+  queryClient: ReturnType<typeof useQueryClient>,
+) {
+  queryClient.invalidateQueries({ queryKey: ["page-collection"] });
+  queryClient.invalidateQueries({ queryKey: ["page-properties"] });
+}
+
+function showError(error: Error) {
+  const errorMessage = error["response"]?.data?.message;
+  notifications.show({ message: errorMessage, color: "red" });
+}
+
+export function useSetPagePropertyValueMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, ISetPagePropertyValue>({
+    mutationFn: (data) => setPagePropertyValue(data),
+    onSuccess: () => invalidatePropertyQueries(queryClient),
+    onError: showError,
+  });
+}
+
+export function useCreatePagePropertyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<IPageProperty, Error, ICreatePageProperty>({
+    mutationFn: (data) => createPageProperty(data),
+    onSuccess: () => invalidatePropertyQueries(queryClient),
+    onError: showError,
+  });
+}
+
+export function useUpdatePagePropertyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<IPageProperty, Error, IUpdatePageProperty>({
+    mutationFn: (data) => updatePageProperty(data),
+    onSuccess: () => invalidatePropertyQueries(queryClient),
+    onError: showError,
+  });
+}
+
+export function useDeletePagePropertyMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, string>({
+    mutationFn: (propertyId) => deletePageProperty(propertyId),
+    onSuccess: () => invalidatePropertyQueries(queryClient),
+    onError: showError,
+  });
+}
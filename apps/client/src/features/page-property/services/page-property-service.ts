@@ -0,0 +1,49 @@
+import api from "@/lib/api-client";
+import {
+  ICollection,
+  ICreatePageProperty,
+  IPageProperties,
+  IPageProperty,
+  ISetPagePropertyValue,
+  IUpdatePageProperty,
+} from "@/features/page-property/types/page-property.types";
+
+export async function getCollection(pageId: string): Promise<ICollection> {
+  const req = await api.post<ICollection>("/page-properties/collection", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function getPageProperties(
+  pageId: string,
+): Promise<IPageProperties> {
+  const req = await api.post<IPageProperties>("/page-properties/page", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function setPagePropertyValue(
+  data: ISetPagePropertyValue,
+): Promise<void> {
+  await api.post("/page-properties/page/set", data);
+}
+
+export async function createPageProperty(
+  data: ICreatePageProperty,
+): Promise<IPageProperty> {
+  const req = await api.post<IPageProperty>("/page-properties/create", data);
+  return req.data;
+}
+
+export async function updatePageProperty(
+  data: IUpdatePageProperty,
+): Promise<IPageProperty> {
+  const req = await api.post<IPageProperty>("/page-properties/update", data);
+  return req.data;
+}
+
+export async function deletePageProperty(propertyId: string): Promise<void> {
+  await api.post("/page-properties/delete", { propertyId });
+}
@@ -0,0 +1,81 @@
+export enum PagePropertyType {
+  TEXT = "text",
+  NUMBER = "number",
+  SELECT = "select",
+  MULTI_SELECT = "multi_select",
+  DATE = "date",
+  PERSON = "person",
+  CHECKBOX = "checkbox",
+}
+
+export interface IPagePropertyOption {
+  id: string;
+  name: string;
+  color?: string;
+}
+
+export interface IPageProperty {
+  id: string;
+  name: string;
+  type: PagePropertyType;
+  options: IPagePropertyOption[] | null;
+  parentPageId: string | null;
+  spaceId: string;
+  creatorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type PagePropertyValue = string | number | boolean | string[];
+
+export type PagePropertyValues = Record<string, PagePropertyValue>;
+
+export interface IPagePropertyUser {
+  id: string;
+  name: string;
+  avatarUrl: string;
+}
+
+export interface ICollectionPage {
+  id: string;
+  slugId: string;
+  title: string;
+  icon: string;
+  position: string;
+  creatorId: string;
+  createdAt: Date;
+  updatedAt: Date;
+  properties: PagePropertyValues;
+}
+
+export interface ICollection {
+  properties: IPageProperty[];
+  pages: ICollectionPage[];
+  users: IPagePropertyUser[];
+}
+
+export interface IPageProperties {
+  properties: IPageProperty[];
+  values: PagePropertyValues;
+  users: IPagePropertyUser[];
+}
+
+export interface ICreatePageProperty {
+  spaceId: string;
+  parentPageId?: string;
+  name: string;
+  type: PagePropertyType;
+  options?: IPagePropertyOption[];
+}
+
+export interface IUpdatePageProperty {
+  propertyId: string;
+  name?: string;
+  options?: IPagePropertyOption[];
+}
+
+export interface ISetPagePropertyValue {
+  pageId: string;
+  propertyId: string;
+  value: PagePropertyValue | null;
+}
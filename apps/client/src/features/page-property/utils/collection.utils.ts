@@ -0,0 +1,265 @@
+import {
+  CollectionViewAttributes,
+  CollectionViewFilter,
+} from "@docmost/editor-ext";
+import {
+  ICollectionPage,
+  IPageProperty,
+  IPagePropertyUser,
+  PagePropertyType,
+  PagePropertyValue,
+} from "@/features/page-property/types/page-property.types";
+
+export const TITLE_FIELD = "title";
+export const NO_VALUE_GROUP = "__none__";
+
+export const GROUPABLE_PROPERTY_TYPES = [
+  PagePropertyType.SELECT,
+  PagePropertyType.MULTI_SELECT,
+  PagePropertyType.CHECKBOX,
+  PagePropertyType.PERSON,
+];
+
+export const OPTION_PROPERTY_TYPES = [
+  PagePropertyType.SELECT,
+  PagePropertyType.MULTI_SELECT,
+];
+
+export interface CollectionGroup {
+  id: string;
+  name: string;
+  color?: string;
+  pages: ICollectionPage[];
+}
+
+export function isEmptyValue(value: unknown): boolean {
+  return (
+    value === null ||
+    value === undefined ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Plain text form of a value, used for sorting and "contains" filters.
+ */
+export function formatPropertyValue(
+  property: IPageProperty,
+  value: PagePropertyValue,
+  users: IPagePropertyUser[],
+): string {
+  if (isEmptyValue(value)) return "";
+
+  const optionName = (id: string) =>
+    property.options?.find((option) => option.id === id)?.name ?? "";
+
+  switch (property.type) {
+    case PagePropertyType.SELECT:
+      return optionName(value as string);
+    case PagePropertyType.MULTI_SELECT:
+      return (value as string[]).map(optionName).join(", ");
+    case PagePropertyType.PERSON:
+      return users.find((user) => user.id === value)?.name ?? "";
+    default:
+      return String(value);
+  }
+}
+
+function getFieldValue(page: ICollectionPage, field: string) {
+  return field === TITLE_FIELD ? page.title : page.properties[field];
+}
+
+function matchesFilter(
+  page: ICollectionPage,
+  filter: CollectionViewFilter,
+  properties: IPageProperty[],
+  users: IPagePropertyUser[],
+): boolean {
+  const property = properties.find((p) => p.id === filter.propertyId);
+  if (!property && filter.propertyId !== TITLE_FIELD) {
+    // filters on deleted properties are ignored
+    return true;
+  }
+
+  const value = getFieldValue(page, filter.propertyId);
+
+  switch (filter.operator) {
+    case "is_empty":
+      return isEmptyValue(value);
+    case "is_not_empty":
+      return !isEmptyValue(value);
+    case "contains": {
+      const text = property
+        ? formatPropertyValue(property, value, users)
+        : ((value as string) ?? "");
+      return text
+        .toLowerCase()
+        .includes(String(filter.value ?? "").toLowerCase());
+    }
+    case "is":
+    case "is_not": {
+      const matches = Array.isArray(value)
+        ? value.includes(filter.value as string)
+        : value === filter.value ||
+          (property?.type === PagePropertyType.CHECKBOX &&
+            !value &&
+            filter.value === false);
+      return filter.operator === "is" ? matches : !matches;
+    }
+    default:
+      return true;
+  }
+}
+
+function compareValues(
+  a: ICollectionPage,
+  b: ICollectionPage,
+  field: string,
+  properties: IPageProperty[],
+  users: IPagePropertyUser[],
+): number {
+  const property = properties.find((p) => p.id === field);
+  const valueA = getFieldValue(a, field);
+  const valueB = getFieldValue(b, field);
+
+  // empty values always go last
+  if (isEmptyValue(valueA) || isEmptyValue(valueB)) {
+    return Number(isEmptyValue(valueA)) - Number(isEmptyValue(valueB));
+  }
+
+  if (
+    property?.type === PagePropertyType.NUMBER ||
+    property?.type === PagePropertyType.CHECKBOX
+  ) {
+    return Number(valueA) - Number(valueB);
+  }
+
+  const textA = property
+    ? formatPropertyValue(property, valueA, users)
+    : String(valueA);
+  const textB = property
+    ? formatPropertyValue(property, valueB, users)
+    : String(valueB);
+
+  return textA.localeCompare(textB, undefined, { numeric: true });
+}
+
+/**
+ * Applies the filters and sorting of a collection view.
+ * Without a sort field pages keep their sidebar order.
+ */
+export function applyCollectionView(
+  pages: ICollectionPage[],
+  attrs: CollectionViewAttributes,
+  properties: IPageProperty[],
+  users: IPagePropertyUser[],
+): ICollectionPage[] {
+  const filtered = pages.filter((page) =>
+    (attrs.filters ?? []).every((filter) =>
+      matchesFilter(page, filter, properties, users),
+    ),
+  );
+
+  if (!attrs.sortBy) return filtered;
+
+  const direction = attrs.sortDirection === "desc" ? -1 : 1;
+  return [...filtered].sort((a, b) => {
+    const result = compareValues(a, b, attrs.sortBy, properties, users);
+    const aEmpty = isEmptyValue(getFieldValue(a, attrs.sortBy));
+    const bEmpty = isEmptyValue(getFieldValue(b, attrs.sortBy));
+    return aEmpty || bEmpty ? result : result * direction;
+  });
+}
+
+/**
+ * Splits pages into board columns by a groupable property.
+ * Pages with a multi-select value appear in every column they belong to.
+ */
+export function groupCollectionPages(
+  pages: ICollectionPage[],
+  property: IPageProperty,
+  users: IPagePropertyUser[],
+  labels: { noValue: string; checked: string; unchecked: string },
+): CollectionGroup[] {
+  let groups: CollectionGroup[];
+
+  switch (property.type) {
+    case PagePropertyType.CHECKBOX:
+      return [
+        {
+          id: "true",
+          name: labels.checked,
+          pages: pages.filter((page) => page.properties[property.id] === true),
+        },
+        {
+          id: "false",
+          name: labels.unchecked,
+          pages: pages.filter((page) => page.properties[property.id] !== true),
+        },
+      ];
+    case PagePropertyType.PERSON:
+      groups = users.map((user) => ({
+        id: user.id,
+        name: user.name,
+        pages: [],
+      }));
+      break;
+    default:
+      groups = (property.options ?? []).map((option) => ({
+        id: option.id,
+        name: option.name,
+        color: option.color,
+        pages: [],
+      }));
+  }
+
+  const noValueGroup: CollectionGroup = {
+    id: NO_VALUE_GROUP,
+    name: labels.noValue,
+    pages: [],
+  };
+
+  for (const page of pages) {
+    const value = page.properties[property.id];
+    const groupIds = isEmptyValue(value)
+      ? []
+      : Array.isArray(value)
+        ? value
+        : [value as string];
+
+    const pageGroups = groups.filter((group) => groupIds.includes(group.id));
+    if (pageGroups.length === 0) {
+      noValueGroup.pages.push(page);
+    }
+    pageGroups.forEach((group) => group.pages.push(page));
+  }
+
+  return [noValueGroup, ...groups];
+}
+
+/**
+ * The value a page gets when its card is moved between board columns.
+ */
+export function getGroupMoveValue(
+  property: IPageProperty,
+  currentValue: PagePropertyValue,
+  fromGroupId: string,
+  toGroupId: string,
+): PagePropertyValue | null {
+  if (property.type === PagePropertyType.CHECKBOX) {
+    return toGroupId === "true";
+  }
+
+  if (property.type === PagePropertyType.MULTI_SELECT) {
+    const selected = ((currentValue as string[]) ?? []).filter(
+      (id) => id !== fromGroupId,
+    );
+    if (toGroupId !== NO_VALUE_GROUP) {
+      selected.push(toGroupId);
+    }
+    return selected;
+  }
+
+  return toGroupId === NO_VALUE_GROUP ? null : toGroupId;
+}
@@ -0,0 +1,93 @@
+import { Alert, Button, Group, Text } from "@mantine/core";
+import { useDisclosure } from "@mantine/hooks";
+import { IconEyeCheck } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+import { useAtom } from "jotai";
+import { userAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { formattedDate } from "@/lib/time.ts";
+import { usePageReviewStatusQuery } from "@/features/page-review/queries/page-review-query";
+import RequestReviewModal from "@/features/page-review/components/request-review-modal";
+import PageReviewModal from "@/features/page-review/components/page-review-modal";
+
+interface PageReviewBannerProps {
+  pageId: string;
+  canManageSpace?: boolean;
+}
+
+export default function PageReviewBanner({
+  pageId,
+  canManageSpace,
+}: PageReviewBannerProps) {
+  const { t } = useTranslation();
+  const [currentUser] = useAtom(userAtom);
+  const { data } = usePageReviewStatusQuery(pageId);
+  const [requestOpened, { open: openRequest, close: closeRequest }] =
+    useDisclosure(false);
+  const [reviewOpened, { open: openReview, close: closeReview }] =
+    useDisclosure(false);
+
+  if (!data?.reviewWorkflow) {
+    return null;
+  }
+
+  const review = data.pendingReview;
+  const isApprover = review?.approvers.some(
+    (approver) =>
+      approver.id === currentUser?.id && approver.status === "pending",
+  );
+
+  let message: string;
+  if (review) {
+    message = isApprover
+      ? t("{{name}} requested your review of this page.", {
+          name: review.requester?.name,
+        })
+      : t("Review requested by {{name}}. Waiting for approval.", {
+          name: review.requester?.name,
+        });
+  } else if (data.publishedAt) {
+    message = t("Readers see the version published on {{date}}.", {
+      date: formattedDate(new Date(data.publishedAt)),
+    });
+  } else {
+    message = t("This page has not been published yet.");
+  }
+
+  return (
+    <>
+      <Alert
+        variant="light"
+        color={isApprover ? "blue" : "gray"}
+        icon={<IconEyeCheck size={16} />}
+        mb="md"
+      >
+        <Group justify="space-between" wrap="nowrap">
+          <Text size="sm">{message}</Text>
+          {review ? (
+            <Button size="compact-sm" variant="default" onClick={openReview}>
+              {t("View review")}
+            </Button>
+          ) : (
+            <Button size="compact-sm" variant="default" onClick={openRequest}>
+              {t("Request review")}
+            </Button>
+          )}
+        </Group>
+      </Alert>
+
+      <RequestReviewModal
+        pageId={pageId}
+        opened={requestOpened}
+        onClose={closeRequest}
+      />
+      {review && (
+        <PageReviewModal
+          review={review}
+          canCancel={review.requesterId === currentUser?.id || canManageSpace}
+          opened={reviewOpened}
+          onClose={closeReview}
+        />
+      )}
+    </>
+  );
+}
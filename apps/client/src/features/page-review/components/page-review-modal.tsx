@@ -0,0 +1,201 @@
+import {
+  Badge,
+  Button,
+  Divider,
+  Group,
+  Loader,
+  Modal,
+  ScrollArea,
+  Stack,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useAtom } from "jotai";
+import { userAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import { formattedDate } from "@/lib/time.ts";
+import PageDiffChangeList from "@/features/page-history/components/page-diff-change-list";
+import {
+  useCancelPageReviewMutation,
+  useDecidePageReviewMutation,
+  usePageReviewDiffQuery,
+} from "@/features/page-review/queries/page-review-query";
+import {
+  IPageReview,
+  PageReviewStatus,
+} from "@/features/page-review/types/page-review.types";
+
+interface PageReviewModalProps {
+  review: IPageReview;
+  canCancel: boolean;
+  opened: boolean;
+  onClose: () => void;
+}
+
+const statusColors: Record<PageReviewStatus, string> = {
+  pending: "gray",
+  approved: "green",
+  rejected: "red",
+  cancelled: "gray",
+};
+
+export default function PageReviewModal({
+  review,
+  canCancel,
+  opened,
+  onClose,
+}: PageReviewModalProps) {
+  const { t } = useTranslation();
+  const [currentUser] = useAtom(userAtom);
+  const [comment, setComment] = useState("");
+  const { data: diff, isLoading } = usePageReviewDiffQuery(
+    opened ? review.id : undefined,
+  );
+  const decideMutation = useDecidePageReviewMutation();
+  const cancelMutation = useCancelPageReviewMutation();
+
+  const statusLabels: Record<PageReviewStatus, string> = {
+    pending: t("Pending"),
+    approved: t("Approved"),
+    rejected: t("Rejected"),
+    cancelled: t("Cancelled"),
+  };
+
+  const ownDecision = review.approvers.find(
+    (approver) => approver.id === currentUser?.id,
+  );
+  const canDecide = ownDecision?.status === "pending";
+
+  const handleDecision = async (decision: "approve" | "reject") => {
+    await decideMutation.mutateAsync({
+      reviewId: review.id,
+      decision,
+      comment: comment.trim() || undefined,
+    });
+    setComment("");
+    onClose();
+  };
+
+  const handleCancel = async () => {
+    await cancelMutation.mutateAsync(review);
+    onClose();
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={t("Review")} size="lg">
+      <Stack>
+        <Group gap="xs" wrap="nowrap">
+          <CustomAvatar
+            avatarUrl={review.requester?.avatarUrl}
+            name={review.requester?.name}
+            size={24}
+          />
+          <Text size="sm">
+            {t("Requested by {{name}}", { name: review.requester?.name })}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {formattedDate(new Date(review.createdAt))}
+          </Text>
+        </Group>
+
+        {review.message && (
+          <Text size="sm" style={{ whiteSpace: "pre-wrap" }}>
+            {review.message}
+          </Text>
+        )}
+
+        <Stack gap="xs">
+          <Text size="sm" fw={500}>
+            {t("Approvers")}
+          </Text>
+          {review.approvers.map((approver) => (
+            <div key={approver.id}>
+              <Group justify="space-between" wrap="nowrap">
+                <Group gap="xs" wrap="nowrap">
+                  <CustomAvatar
+                    avatarUrl={approver.avatarUrl}
+                    name={approver.name}
+                    size={20}
+                  />
+                  <Text size="sm">{approver.name}</Text>
+                </Group>
+                <Badge
+                  color={statusColors[approver.status]}
+                  variant="light"
+                  size="sm"
+                >
+                  {statusLabels[approver.status]}
+                </Badge>
+              </Group>
+              {approver.comment && (
+                <Text size="xs" c="dimmed" ml={28}>
+                  {approver.comment}
+                </Text>
+              )}
+            </div>
+          ))}
+        </Stack>
+
+        <Divider />
+
+        <Text size="sm" fw={500}>
+          {t("Changes since the published version")}
+        </Text>
+        <ScrollArea.Autosize mah={360}>
+          {isLoading && <Loader size="sm" />}
+          {diff?.changes.length === 0 && (
+            <Text size="sm">{t("No changes.")}</Text>
+          )}
+          {diff && <PageDiffChangeList changes={diff.changes} />}
+        </ScrollArea.Autosize>
+
+        {canDecide && (
+          <Textarea
+            placeholder={t("Add a comment")}
+            variant="filled"
+            autosize
+            minRows={2}
+            maxRows={4}
+            maxLength={1000}
+            value={comment}
+            onChange={(event) => setComment(event.currentTarget.value)}
+          />
+        )}
+
+        <Group justify="space-between">
+          <div>
+            {canCancel && (
+              <Button
+                variant="default"
+                onClick={handleCancel}
+                loading={cancelMutation.isPending}
+              >
+                {t("Cancel review")}
+              </Button>
+            )}
+          </div>
+          {canDecide && (
+            <Group gap="xs">
+              <Button
+                color="red"
+                variant="light"
+                onClick={() => handleDecision("reject")}
+                loading={decideMutation.isPending}
+              >
+                {t("Reject")}
+              </Button>
+              <Button
+                onClick={() => handleDecision("approve")}
+                loading={decideMutation.isPending}
+              >
+                {t("Approve")}
+              </Button>
+            </Group>
+          )}
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
@@ -0,0 +1,69 @@
+import { Button, Group, Modal, Stack, Text, Textarea } from "@mantine/core";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { MultiUserSelect } from "@/features/group/components/multi-user-select.tsx";
+import { useRequestPageReviewMutation } from "@/features/page-review/queries/page-review-query";
+
+interface RequestReviewModalProps {
+  pageId: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function RequestReviewModal({
+  pageId,
+  opened,
+  onClose,
+}: RequestReviewModalProps) {
+  const { t } = useTranslation();
+  const [approverIds, setApproverIds] = useState<string[]>([]);
+  const [message, setMessage] = useState("");
+  const requestReviewMutation = useRequestPageReviewMutation();
+
+  const handleSubmit = async () => {
+    await requestReviewMutation.mutateAsync({
+      pageId,
+      approverIds,
+      message: message.trim() || undefined,
+    });
+    setApproverIds([]);
+    setMessage("");
+    onClose();
+  };
+
+  return (
+    <Modal opened={opened} onClose={onClose} title={t("Request review")}>
+      <Stack>
+        <Text size="sm" c="dimmed">
+          {t(
+            "The current version is published once every approver has approved it.",
+          )}
+        </Text>
+
+        <MultiUserSelect label={t("Approvers")} onChange={setApproverIds} />
+
+        <Textarea
+          label={t("Message")}
+          placeholder={t("Describe what changed")}
+          variant="filled"
+          autosize
+          minRows={2}
+          maxRows={6}
+          maxLength={1000}
+          value={message}
+          onChange={(event) => setMessage(event.currentTarget.value)}
+        />
+
+        <Group justify="flex-end">
+          <Button
+            onClick={handleSubmit}
+            disabled={approverIds.length === 0}
+            loading={requestReviewMutation.isPending}
+          >
+            {t("Request review")}
+          </Button>
+        </Group>
+      </Stack>
+    </Modal>
+  );
+}
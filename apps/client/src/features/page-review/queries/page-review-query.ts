@@ -0,0 +1,96 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  cancelPageReview,
+  decidePageReview,
+  getPageReviewDiff,
+  getPageReviewStatus,
+  requestPageReview,
+} from "@/features/page-review/services/page-review-service";
+import {
+  IPageReview,
+  IPageReviewDiff,
+  IPageReviewStatus,
+  IRequestReview,
+  IReviewDecision,
+} from "@/features/page-review/types/page-review.types";
+
+export function usePageReviewStatusQuery(
+  pageId: string,
+  enabled: boolean = true,
+): UseQueryResult<IPageReviewStatus, Error> {
+  return useQuery({
+    queryKey: ["page-review-status", pageId],
+    queryFn: () => getPageReviewStatus(pageId),
+    enabled: !!pageId && enabled,
+  });
+}
+
+export function usePageReviewDiffQuery(
+  reviewId: string,
+): UseQueryResult<IPageReviewDiff, Error> {
+  return useQuery({
+    queryKey: ["page-review-diff", reviewId],
+    queryFn: () => getPageReviewDiff(reviewId),
+    enabled: !!reviewId,
+  });
+}
+
+export function useRequestPageReviewMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<IPageReview, Error, IRequestReview>({
+    mutationFn: (data) => requestPageReview(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["page-review-status", data.pageId],
+      });
+      notifications.show({ message: t("Review requested") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useDecidePageReviewMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<IPageReview, Error, IReviewDecision>({
+    mutationFn: (data) => decidePageReview(data),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({
+        queryKey: ["page-review-status", data.pageId],
+      });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useCancelPageReviewMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, IPageReview>({
+    mutationFn: (review) => cancelPageReview(review.id),
+    onSuccess: (_, review) => {
+      queryClient.invalidateQueries({
+        queryKey: ["page-review-status", review.pageId],
+      });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,44 @@
+import api from "@/lib/api-client";
+import {
+  IPageReview,
+  IPageReviewDiff,
+  IPageReviewStatus,
+  IRequestReview,
+  IReviewDecision,
+} from "@/features/page-review/types/page-review.types";
+
+export async function getPageReviewStatus(
+  pageId: string,
+): Promise<IPageReviewStatus> {
+  const req = await api.post<IPageReviewStatus>("/page-reviews/status", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function requestPageReview(
+  data: IRequestReview,
+): Promise<IPageReview> {
+  const req = await api.post<IPageReview>("/page-reviews/request", data);
+  return req.data;
+}
+
+export async function getPageReviewDiff(
+  reviewId: string,
+): Promise<IPageReviewDiff> {
+  const req = await api.post<IPageReviewDiff>("/page-reviews/diff", {
+    reviewId,
+  });
+  return req.data;
+}
+
+export async function decidePageReview(
+  data: IReviewDecision,
+): Promise<IPageReview> {
+  const req = await api.post<IPageReview>("/page-reviews/decide", data);
+  return req.data;
+}
+
+export async function cancelPageReview(reviewId: string): Promise<void> {
+  await api.post("/page-reviews/cancel", { reviewId });
+}
@@ -0,0 +1,57 @@
+import { IPageDiffChange } from "@/features/page-history/types/page.types";
+
+export type PageReviewStatus =
+  | "pending"
+  | "approved"
+  | "rejected"
+  | "cancelled";
+
+export interface IPageReviewApprover {
+  id: string;
+  name: string;
+  avatarUrl: string;
+  status: PageReviewStatus;
+  comment: string | null;
+  decidedAt: Date | null;
+}
+
+export interface IPageReview {
+  id: string;
+  pageId: string;
+  spaceId: string;
+  requesterId: string;
+  status: PageReviewStatus;
+  message: string | null;
+  resolvedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  requester: {
+    id: string;
+    name: string;
+    avatarUrl: string;
+  };
+  approvers: IPageReviewApprover[];
+}
+
+export interface IPageReviewStatus {
+  reviewWorkflow: boolean;
+  publishedAt: Date | null;
+  pendingReview: IPageReview | null;
+}
+
+export interface IPageReviewDiff {
+  publishedAt: Date | null;
+  changes: IPageDiffChange[];
+}
+
+export interface IRequestReview {
+  pageId: string;
+  approverIds: string[];
+  message?: string;
+}
+
+export interface IReviewDecision {
+  reviewId: string;
+  decision: "approve" | "reject";
+  comment?: string;
+}
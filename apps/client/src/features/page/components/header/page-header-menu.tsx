@@ -7,9 +7,12 @@ import {
   IconHistory,
   IconLink,
   IconList,
+  IconLock,
+  IconLockOpen,
   IconMessage,
   IconPrinter,
   IconSearch,
+  IconTemplate,
   IconTrash,
   IconWifiOff,
 } from "@tabler/icons-react";
@@ -24,7 +27,10 @@ import {
   useHotkeys,
 } from "@mantine/hooks";
 import { useParams } from "react-router-dom";
-import { usePageQuery } from "@/features/page/queries/page-query.ts";
+import {
+  usePageQuery,
+  useUpdatePageLockMutation,
+} from "@/features/page/queries/page-query.ts";
 import { buildPageUrl } from "@/features/page/page.utils.ts";
 import { notifications } from "@mantine/notifications";
 import { getAppUrl } from "@/lib/config.ts";
@@ -44,14 +50,30 @@ import { PageStateSegmentedControl } from "@/features/user/components/page-state
 import MovePageModal from "@/features/page/components/move-page-modal.tsx";
 import { useTimeAgo } from "@/hooks/use-time-ago.tsx";
 import ShareModal from "@/features/share/components/share-modal.tsx";
+import TemplateSettingsModal from "@/features/template/components/template-settings-modal.tsx";
+import PagePermissionsModal from "@/features/page-permission/components/page-permissions-modal.tsx";
+import PageWatchMenu from "@/features/watcher/components/page-watch-menu.tsx";
+import PageLabelsMenu from "@/features/label/components/page-labels-menu.tsx";
+import PagePropertiesMenu from "@/features/page-property/components/page-properties-menu.tsx";
 
 interface PageHeaderMenuProps {
   readOnly?: boolean;
+  canManageLock?: boolean;
+  // the user only sees the published version of the page
+  publishedOnly?: boolean;
 }
-export default function PageHeaderMenu({ readOnly }: PageHeaderMenuProps) {
+export default function PageHeaderMenu({
+  readOnly,
+  canManageLock,
+  publishedOnly,
+}: PageHeaderMenuProps) {
   const { t } = useTranslation();
   const toggleAside = useToggleAside();
   const [yjsConnectionStatus] = useAtom(yjsConnectionStatusAtom);
+  const { pageSlug } = useParams();
+  const { data: page } = usePageQuery({
+    pageId: extractPageSlugId(pageSlug),
+  });
 
   useHotkeys(
     [
@@ -87,10 +109,34 @@ export default function PageHeaderMenu({ readOnly }: PageHeaderMenuProps) {
         </Tooltip>
       )}
 
+      {page?.isLocked && (
+        <Tooltip label={t("This page is locked")} openDelay={250} withArrow>
+          <ActionIcon variant="default" style={{ border: "none" }}>
+            <IconLock size={20} stroke={2} />
+          </ActionIcon>
+        </Tooltip>
+      )}
+
       {!readOnly && <PageStateSegmentedControl size="xs" />}
 
       <ShareModal readOnly={readOnly} />
 
+      {page?.id && <PageWatchMenu pageId={page.id} />}
+
+      {page?.id && (
+        <PageLabelsMenu
+          pageId={page.id}
+          readOnly={readOnly || (page.isLocked && !canManageLock)}
+        />
+      )}
+
+      {page?.id && (
+        <PagePropertiesMenu
+          pageId={page.id}
+          readOnly={readOnly || (page.isLocked && !canManageLock)}
+        />
+      )}
+
       <Tooltip label={t("Comments")} openDelay={250} withArrow>
         <ActionIcon
           variant="default"
@@ -111,15 +157,25 @@ export default function PageHeaderMenu({ readOnly }: PageHeaderMenuProps) {
         </ActionIcon>
       </Tooltip>
 
-      <PageActionMenu readOnly={readOnly} />
+      <PageActionMenu
+        readOnly={readOnly}
+        canManageLock={canManageLock}
+        publishedOnly={publishedOnly}
+      />
     </>
   );
 }
 
 interface PageActionMenuProps {
   readOnly?: boolean;
+  canManageLock?: boolean;
+  publishedOnly?: boolean;
 }
-function PageActionMenu({ readOnly }: PageActionMenuProps) {
+function PageActionMenu({
+  readOnly,
+  canManageLock,
+  publishedOnly,
+}: PageActionMenuProps) {
   const { t } = useTranslation();
   const [, setHistoryModalOpen] = useAtom(historyAtoms);
   const clipboard = useClipboard({ timeout: 500 });
@@ -135,7 +191,16 @@ function PageActionMenu({ readOnly }: PageActionMenuProps) {
     movePageModalOpened,
     { open: openMovePageModal, close: closeMoveSpaceModal },
   ] = useDisclosure(false);
+  const [
+    templateModalOpened,
+    { open: openTemplateModal, close: closeTemplateModal },
+  ] = useDisclosure(false);
+  const [
+    permissionsModalOpened,
+    { open: openPermissionsModal, close: closePermissionsModal },
+  ] = useDisclosure(false);
   const [pageEditor] = useAtom(pageEditorAtom);
+  const updatePageLockMutation = useUpdatePageLockMutation();
   const pageUpdatedAt = useTimeAgo(page?.updatedAt);
 
   const handleCopyLink = () => {
@@ -156,6 +221,13 @@ function PageActionMenu({ readOnly }: PageActionMenuProps) {
     setHistoryModalOpen(true);
   };
 
+  const handleToggleLock = () => {
+    updatePageLockMutation.mutate({
+      pageId: page.id,
+      isLocked: !page.isLocked,
+    });
+  };
+
   const handleDeletePage = () => {
     openDeleteModal({ onConfirm: () => tree?.delete(page.id) });
   };
@@ -191,13 +263,37 @@ function PageActionMenu({ readOnly }: PageActionMenuProps) {
             </Group>
           </Menu.Item>
 
+          {!publishedOnly && (
+            <Menu.Item
+              leftSection={<IconHistory size={16} />}
+              onClick={openHistoryModal}
+            >
+              {t("Page history")}
+            </Menu.Item>
+          )}
+
           <Menu.Item
-            leftSection={<IconHistory size={16} />}
-            onClick={openHistoryModal}
+            leftSection={<IconLock size={16} />}
+            onClick={openPermissionsModal}
           >
-            {t("Page history")}
+            {t("Page access")}
           </Menu.Item>
 
+          {canManageLock && (
+            <Menu.Item
+              leftSection={
+                page.isLocked ? (
+                  <IconLockOpen size={16} />
+                ) : (
+                  <IconLock size={16} />
+                )
+              }
+              onClick={handleToggleLock}
+            >
+              {page.isLocked ? t("Unlock page") : t("Lock page")}
+            </Menu.Item>
+          )}
+
           <Menu.Divider />
 
           {!readOnly && (
@@ -209,6 +305,15 @@ function PageActionMenu({ readOnly }: PageActionMenuProps) {
             </Menu.Item>
           )}
 
+          {!readOnly && (
+            <Menu.Item
+              leftSection={<IconTemplate size={16} />}
+              onClick={openTemplateModal}
+            >
+              {t("Save as template")}
+            </Menu.Item>
+          )}
+
           <Menu.Item
             leftSection={<IconFileExport size={16} />}
             onClick={openExportModal}
@@ -287,6 +392,19 @@ function PageActionMenu({ readOnly }: PageActionMenuProps) {
         onClose={closeMoveSpaceModal}
         open={movePageModalOpened}
       />
+
+      <TemplateSettingsModal
+        pageId={page.id}
+        open={templateModalOpened}
+        onClose={closeTemplateModal}
+      />
+
+      <PagePermissionsModal
+        pageId={page.id}
+        open={permissionsModalOpened}
+        onClose={closePermissionsModal}
+        readOnly={readOnly || !canManageLock}
+      />
     </>
   );
 }
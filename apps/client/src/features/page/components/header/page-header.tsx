@@ -5,15 +5,25 @@ import Breadcrumb from "@/features/page/components/breadcrumbs/breadcrumb.tsx";
 
 interface Props {
   readOnly?: boolean;
+  canManageLock?: boolean;
+  publishedOnly?: boolean;
 }
-export default function PageHeader({ readOnly }: Props) {
+export default function PageHeader({
+  readOnly,
+  canManageLock,
+  publishedOnly,
+}: Props) {
   return (
     <div className={classes.header}>
       <Group justify="space-between" h="100%" px="md" wrap="nowrap" className={classes.group}>
         <Breadcrumb />
 
         <Group justify="flex-end" h="100%" px="md" wrap="nowrap" gap="var(--mantine-spacing-xs)">
-          <PageHeaderMenu readOnly={readOnly} />
+          <PageHeaderMenu
+            readOnly={readOnly}
+            canManageLock={canManageLock}
+            publishedOnly={publishedOnly}
+          />
         </Group>
       </Group>
     </div>
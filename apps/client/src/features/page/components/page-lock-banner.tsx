@@ -0,0 +1,23 @@
+import { Alert } from "@mantine/core";
+import { IconLock } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+
+interface PageLockBannerProps {
+  canManageLock?: boolean;
+}
+
+export default function PageLockBanner({ canManageLock }: PageLockBannerProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Alert variant="light" color="gray" icon={<IconLock size={16} />} mb="md">
+      {canManageLock
+        ? t(
+            "This page is locked. Only space admins and the page creator can edit it.",
+          )
+        : t(
+            "This page is locked. Ask a space admin or the page creator to unlock it if you need to make changes.",
+          )}
+    </Alert>
+  );
+}
@@ -1,3 +1,10 @@
+import { MongoAbility } from "@casl/ability";
+import { IPage } from "@/features/page/types/page.types";
+import {
+  SpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from "@/features/space/permissions/permissions.type.ts";
 import slugify from "@sindresorhus/slugify";
 
 const buildPageSlug = (pageSlugId: string, pageTitle?: string): string => {
@@ -41,3 +48,22 @@ export const buildSharedPageUrl = (opts: {
   }
   return anchorId ? `${url}#${anchorId}` : url;
 };
+
+/**
+ * Only space admins and the page creator can lock or unlock a page,
+ * and they keep edit access while it is locked.
+ */
+export const canManagePageLock = (
+  page: Pick<IPage, "creatorId">,
+  userId: string,
+  spaceAbility: Pick<MongoAbility<SpaceAbility>, "can">,
+): boolean => {
+  if (!spaceAbility.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+    return false;
+  }
+
+  return (
+    spaceAbility.can(SpaceCaslAction.Manage, SpaceCaslSubject.Settings) ||
+    page.creatorId === userId
+  );
+};
@@ -20,6 +20,8 @@ import {
   getAllSidebarPages,
   getDeletedPages,
   restorePage,
+  lockPage,
+  unlockPage,
 } from "@/features/page/services/page-service";
 import {
   IMovePage,
@@ -123,6 +125,44 @@ export function useUpdatePageMutation() {
   });
 }
 
+export function useUpdatePageLockMutation() {
+  const { t } = useTranslation();
+  const emit = useQueryEmit();
+
+  return useMutation<IPage, Error, { pageId: string; isLocked: boolean }>({
+    mutationFn: ({ pageId, isLocked }) =>
+      isLocked ? lockPage(pageId) : unlockPage(pageId),
+    onSuccess: (page) => {
+      updatePageData(page);
+
+      emit({
+        operation: "updateOne",
+        spaceId: page.spaceId,
+        entity: ["pages"],
+        id: page.id,
+        payload: {
+          title: page.title,
+          slugId: page.slugId,
+          parentPageId: page.parentPageId,
+          icon: page.icon,
+          isLocked: page.isLocked,
+        },
+      });
+
+      notifications.show({
+        message: page.isLocked ? t("Page locked") : t("Page unlocked"),
+      });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({
+        message: errorMessage || t("Failed to update page lock"),
+        color: "red",
+      });
+    },
+  });
+}
+
 export function useRemovePageMutation() {
   return useMutation({
     mutationFn: (pageId: string) => deletePage(pageId, false),
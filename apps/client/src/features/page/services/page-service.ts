@@ -49,6 +49,16 @@ export async function restorePage(pageId: string): Promise<IPage> {
   return response.data;
 }
 
+export async function lockPage(pageId: string): Promise<IPage> {
+  const response = await api.post<IPage>("/pages/lock", { pageId });
+  return response.data;
+}
+
+export async function unlockPage(pageId: string): Promise<IPage> {
+  const response = await api.post<IPage>("/pages/unlock", { pageId });
+  return response.data;
+}
+
 export async function movePage(data: IMovePage): Promise<void> {
   await api.post<void>("/pages/move", data);
 }
@@ -22,6 +22,10 @@ export interface IPage {
   lastUpdatedBy: ILastUpdatedBy;
   deletedBy: IDeletedBy;
   space: Partial<ISpace>;
+  // when the last approved version was published, in review workflow spaces
+  publishedAt?: Date;
+  // the user's abilities on this page, taking page restrictions into account
+  permissions?: any;
 }
 
 interface ICreator {
@@ -85,4 +89,6 @@ export interface IExportPageParams {
 export enum ExportFormat {
   HTML = "html",
   Markdown = "markdown",
+  PDF = "pdf",
+  DOCX = "docx",
 }
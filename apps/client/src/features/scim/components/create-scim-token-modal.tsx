@@ -0,0 +1,116 @@
+import {
+  Alert,
+  Button,
+  CopyButton,
+  Group,
+  Modal,
+  Stack,
+  TextInput,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { IconAlertTriangle } from "@tabler/icons-react";
+import React, { useState } from "react";
+import * as z from "zod";
+import { zodResolver } from "mantine-form-zod-resolver";
+import { useTranslation } from "react-i18next";
+import { useCreateScimTokenMutation } from "@/features/scim/queries/scim-query.ts";
+
+const formSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+type FormValues = {
+  name: string;
+};
+
+interface CreateScimTokenModalProps {
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function CreateScimTokenModal({
+  opened,
+  onClose,
+}: CreateScimTokenModalProps) {
+  const { t } = useTranslation();
+  const createScimTokenMutation = useCreateScimTokenMutation();
+  const [token, setToken] = useState<string | null>(null);
+
+  const form = useForm<FormValues>({
+    validate: zodResolver(formSchema),
+    initialValues: {
+      name: "",
+    },
+  });
+
+  const handleSubmit = async (values: FormValues) => {
+    const createdToken = await createScimTokenMutation.mutateAsync(values);
+    setToken(createdToken.token);
+  };
+
+  const handleClose = () => {
+    form.reset();
+    setToken(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={handleClose}
+      title={t("Create SCIM token")}
+      size={550}
+    >
+      {token ? (
+        <Stack>
+          <Alert color="yellow" icon={<IconAlertTriangle size={16} />}>
+            {t(
+              "Copy this token now. For security reasons it will not be shown again.",
+            )}
+          </Alert>
+
+          <Group wrap="nowrap">
+            <TextInput
+              variant="filled"
+              value={token}
+              readOnly
+              style={{ flex: 1 }}
+            />
+            <CopyButton value={token}>
+              {({ copied, copy }) => (
+                <Button color={copied ? "teal" : ""} onClick={copy}>
+                  {copied ? t("Copied") : t("Copy")}
+                </Button>
+              )}
+            </CopyButton>
+          </Group>
+
+          <Group justify="flex-end">
+            <Button variant="default" onClick={handleClose}>
+              {t("Done")}
+            </Button>
+          </Group>
+        </Stack>
+      ) : (
+        <form onSubmit={form.onSubmit(handleSubmit)}>
+          <Stack>
+            <TextInput
+              withAsterisk
+              label={t("Token name")}
+              placeholder={t("e.g Okta")}
+              variant="filled"
+              data-autofocus
+              {...form.getInputProps("name")}
+            />
+
+            <Group justify="flex-end">
+              <Button type="submit" loading={createScimTokenMutation.isPending}>
+                {t("Create")}
+              </Button>
+            </Group>
+          </Stack>
+        </form>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,46 @@
+import { Button, Group, Stack, Text, TextInput, Title } from "@mantine/core";
+import { useDisclosure } from "@mantine/hooks";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import { getBackendUrl } from "@/lib/config.ts";
+import CopyTextButton from "@/components/common/copy.tsx";
+import ScimTokenList from "@/features/scim/components/scim-token-list.tsx";
+import CreateScimTokenModal from "@/features/scim/components/create-scim-token-modal.tsx";
+
+export default function ScimSettings() {
+  const { t } = useTranslation();
+  const [opened, { open, close }] = useDisclosure(false);
+  const scimUrl = `${getBackendUrl()}/scim/v2`;
+
+  return (
+    <>
+      <Title order={4} my="lg">
+        {t("SCIM provisioning")}
+      </Title>
+
+      <Stack gap="md">
+        <Text size="sm" c="dimmed">
+          {t(
+            "Automatically create, update and deactivate members and groups from your identity provider.",
+          )}
+        </Text>
+
+        <TextInput
+          label={t("SCIM base URL")}
+          variant="filled"
+          value={scimUrl}
+          readOnly
+          rightSection={<CopyTextButton text={scimUrl} />}
+        />
+
+        <Group justify="flex-end">
+          <Button onClick={open}>{t("Create token")}</Button>
+        </Group>
+
+        <ScimTokenList />
+      </Stack>
+
+      <CreateScimTokenModal opened={opened} onClose={close} />
+    </>
+  );
+}
@@ -0,0 +1,103 @@
+import { ActionIcon, Card, Table, Text, Tooltip } from "@mantine/core";
+import { IconTrash } from "@tabler/icons-react";
+import { modals } from "@mantine/modals";
+import React from "react";
+import { useTranslation } from "react-i18next";
+import {
+  useRevokeScimTokenMutation,
+  useScimTokensQuery,
+} from "@/features/scim/queries/scim-query.ts";
+import { IScimToken } from "@/features/scim/types/scim.types.ts";
+import { formattedDate, timeAgo } from "@/lib/time.ts";
+
+export default function ScimTokenList() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useScimTokensQuery();
+  const revokeScimTokenMutation = useRevokeScimTokenMutation();
+
+  if (isLoading || !data) {
+    return null;
+  }
+
+  if (data.length === 0) {
+    return <Text c="dimmed">{t("No SCIM tokens found.")}</Text>;
+  }
+
+  const openRevokeModal = (token: IScimToken) =>
+    modals.openConfirmModal({
+      title: t("Revoke SCIM token"),
+      centered: true,
+      children: (
+        <Text size="sm">
+          {t(
+            "Your identity provider will no longer be able to provision users with this token. Are you sure you want to revoke it?",
+          )}
+        </Text>
+      ),
+      labels: { confirm: t("Revoke"), cancel: t("Don't") },
+      confirmProps: { color: "red" },
+      onConfirm: () => revokeScimTokenMutation.mutateAsync(token.id),
+    });
+
+  return (
+    <Card shadow="sm" radius="sm">
+      <Table.ScrollContainer minWidth={600}>
+        <Table verticalSpacing="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Name")}</Table.Th>
+              <Table.Th>{t("Token")}</Table.Th>
+              <Table.Th>{t("Created")}</Table.Th>
+              <Table.Th>{t("Last used")}</Table.Th>
+              <Table.Th />
+            </Table.Tr>
+          </Table.Thead>
+          <Table.Tbody>
+            {data.map((token) => (
+              <Table.Tr key={token.id}>
+                <Table.Td>
+                  <Text fz="sm" fw={500}>
+                    {token.name}
+                  </Text>
+                  {token.creator && (
+                    <Text fz="xs" c="dimmed">
+                      {token.creator.name}
+                    </Text>
+                  )}
+                </Table.Td>
+                <Table.Td>
+                  <Text fz="sm" ff="monospace">
+                    •••• {token.tokenHint}
+                  </Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                    {formattedDate(new Date(token.createdAt))}
+                  </Text>
+                </Table.Td>
+                <Table.Td>
+                  <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                    {token.lastUsedAt
+                      ? timeAgo(new Date(token.lastUsedAt))
+                      : t("Never")}
+                  </Text>
+                </Table.Td>
+                <Table.Td>
+                  <Tooltip label={t("Revoke")} withArrow>
+                    <ActionIcon
+                      variant="subtle"
+                      color="red"
+                      onClick={() => openRevokeModal(token)}
+                    >
+                      <IconTrash size={16} />
+                    </ActionIcon>
+                  </Tooltip>
+                </Table.Td>
+              </Table.Tr>
+            ))}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+    </Card>
+  );
+}
@@ -0,0 +1,56 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  createScimToken,
+  getScimTokens,
+  revokeScimToken,
+} from "@/features/scim/services/scim-service.ts";
+import {
+  ICreatedScimToken,
+  IScimToken,
+} from "@/features/scim/types/scim.types.ts";
+
+export function useScimTokensQuery(): UseQueryResult<IScimToken[], Error> {
+  return useQuery({
+    queryKey: ["scim-tokens"],
+    queryFn: () => getScimTokens(),
+  });
+}
+
+export function useCreateScimTokenMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<ICreatedScimToken, Error, { name: string }>({
+    mutationFn: (data) => createScimToken(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["scim-tokens"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useRevokeScimTokenMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation({
+    mutationFn: (tokenId: string) => revokeScimToken({ tokenId }),
+    onSuccess: () => {
+      notifications.show({ message: t("Token revoked") });
+      queryClient.invalidateQueries({ queryKey: ["scim-tokens"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,21 @@
+import api from "@/lib/api-client";
+import {
+  ICreatedScimToken,
+  IScimToken,
+} from "@/features/scim/types/scim.types.ts";
+
+export async function getScimTokens(): Promise<IScimToken[]> {
+  const req = await api.post<IScimToken[]>("/scim-tokens");
+  return req.data;
+}
+
+export async function createScimToken(data: {
+  name: string;
+}): Promise<ICreatedScimToken> {
+  const req = await api.post<ICreatedScimToken>("/scim-tokens/create", data);
+  return req.data;
+}
+
+export async function revokeScimToken(data: { tokenId: string }) {
+  await api.post("/scim-tokens/revoke", data);
+}
@@ -0,0 +1,19 @@
+export interface IScimToken {
+  id: string;
+  name: string;
+  tokenHint: string;
+  creatorId: string | null;
+  workspaceId: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+  creator?: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  } | null;
+}
+
+// the plain token is only returned when it is created
+export interface ICreatedScimToken extends IScimToken {
+  token: string;
+}
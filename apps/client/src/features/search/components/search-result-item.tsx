@@ -110,10 +110,26 @@ export function SearchResultItem({
           <div style={{ flex: 1 }}>
             <Text>{pageResult.title}</Text>
 
-            {showSpace && pageResult.space && (
-              <Badge variant="light" size="xs" color="gray">
-                {pageResult.space.name}
-              </Badge>
+            {((showSpace && pageResult.space) ||
+              pageResult.labels?.length > 0) && (
+              <Group gap={4}>
+                {showSpace && pageResult.space && (
+                  <Badge variant="light" size="xs" color="gray">
+                    {pageResult.space.name}
+                  </Badge>
+                )}
+                {pageResult.labels?.map((label) => (
+                  <Badge
+                    key={label.id}
+                    variant="outline"
+                    size="xs"
+                    tt="none"
+                    color={label.color || "blue"}
+                  >
+                    {label.name}
+                  </Badge>
+                ))}
+              </Group>
             )}
 
             {pageResult?.highlight && (
@@ -19,6 +19,7 @@ import {
   IconSearch,
   IconCheck,
   IconSparkles,
+  IconTag,
 } from "@tabler/icons-react";
 import { useTranslation } from "react-i18next";
 import { useDebouncedValue } from "@mantine/hooks";
@@ -28,6 +29,8 @@ import classes from "./search-spotlight-filters.module.css";
 import { isCloud } from "@/lib/config.ts";
 import { useAtom } from "jotai/index";
 import { workspaceAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { useLabelsQuery } from "@/features/label/queries/label-query";
+import { ILabel } from "@/features/label/types/label.types";
 
 interface SearchSpotlightFiltersProps {
   onFiltersChange?: (filters: any) => void;
@@ -50,8 +53,17 @@ export function SearchSpotlightFilters({
   const [spaceSearchQuery, setSpaceSearchQuery] = useState("");
   const [debouncedSpaceQuery] = useDebouncedValue(spaceSearchQuery, 300);
   const [contentType, setContentType] = useState<string | null>("page");
+  const [selectedLabels, setSelectedLabels] = useState<ILabel[]>([]);
+  const [labelSearchQuery, setLabelSearchQuery] = useState("");
+  const [debouncedLabelQuery] = useDebouncedValue(labelSearchQuery, 300);
   const [workspace] = useAtom(workspaceAtom);
 
+  const { data: labelsData } = useLabelsQuery({
+    page: 1,
+    limit: 50,
+    query: debouncedLabelQuery,
+  });
+
   const { data: spacesData } = useGetSpacesQuery({
     page: 1,
     limit: 100,
@@ -75,11 +87,14 @@ export function SearchSpotlightFilters({
     });
   }, [spacesData?.items, selectedSpaceId]);
 
+  const selectedLabelIds = selectedLabels.map((label) => label.id);
+
   useEffect(() => {
     if (onFiltersChange) {
       onFiltersChange({
         spaceId: selectedSpaceId,
         contentType,
+        labelIds: selectedLabelIds,
       });
     }
   }, []);
@@ -100,6 +115,22 @@ export function SearchSpotlightFilters({
       onFiltersChange({
         spaceId: spaceId,
         contentType,
+        labelIds: selectedLabelIds,
+      });
+    }
+  };
+
+  const handleLabelToggle = (label: ILabel) => {
+    const newSelectedLabels = selectedLabelIds.includes(label.id)
+      ? selectedLabels.filter((selected) => selected.id !== label.id)
+      : [...selectedLabels, label];
+    setSelectedLabels(newSelectedLabels);
+
+    if (onFiltersChange) {
+      onFiltersChange({
+        spaceId: selectedSpaceId,
+        contentType,
+        labelIds: newSelectedLabels.map((selected) => selected.id),
       });
     }
   };
@@ -123,6 +154,7 @@ export function SearchSpotlightFilters({
       onFiltersChange({
         spaceId: newSelectedSpaceId,
         contentType: newContentType,
+        labelIds: selectedLabelIds,
       });
     }
   };
@@ -287,6 +319,65 @@ export function SearchSpotlightFilters({
           ))}
         </Menu.Dropdown>
       </Menu>
+
+      <Menu
+        shadow="md"
+        width={250}
+        position="bottom-start"
+        zIndex={getDefaultZIndex("max")}
+        closeOnItemClick={false}
+      >
+        <Menu.Target>
+          <Button
+            variant="subtle"
+            color="gray"
+            size="sm"
+            rightSection={<IconChevronDown size={14} />}
+            leftSection={<IconTag size={16} />}
+            className={classes.filterButton}
+            fw={500}
+            disabled={contentType !== "page"}
+          >
+            {selectedLabels.length > 0
+              ? `${t("Labels")}: ${selectedLabels.map((label) => label.name).join(", ")}`
+              : `${t("Labels")}: ${t("Any")}`}
+          </Button>
+        </Menu.Target>
+        <Menu.Dropdown>
+          <TextInput
+            placeholder={t("Find a label")}
+            leftSection={<IconSearch size={16} />}
+            value={labelSearchQuery}
+            onChange={(e) => setLabelSearchQuery(e.target.value)}
+            size="sm"
+            variant="filled"
+            radius="sm"
+            styles={{ input: { marginBottom: 8 } }}
+          />
+
+          <ScrollArea.Autosize mah={280}>
+            {(labelsData?.items || []).length === 0 && (
+              <Text size="sm" c="dimmed" ta="center" py="xs">
+                {t("No labels found")}
+              </Text>
+            )}
+
+            {(labelsData?.items || []).map((label) => (
+              <Menu.Item key={label.id} onClick={() => handleLabelToggle(label)}>
+                <Group flex="1" gap="xs">
+                  <IconTag size={16} />
+                  <Text size="sm" style={{ flex: 1 }} truncate>
+                    {label.name}
+                  </Text>
+                  {selectedLabelIds.includes(label.id) && (
+                    <IconCheck size={20} />
+                  )}
+                </Group>
+              </Menu.Item>
+            ))}
+          </ScrollArea.Autosize>
+        </Menu.Dropdown>
+      </Menu>
     </div>
   );
 }
@@ -25,6 +25,7 @@ export function SearchSpotlight({ spaceId }: SearchSpotlightProps) {
   const [filters, setFilters] = useState<{
     spaceId?: string | null;
     contentType?: string;
+    labelIds?: string[];
   }>({
     contentType: "page",
   });
@@ -42,6 +43,11 @@ export function SearchSpotlight({ spaceId }: SearchSpotlightProps) {
       params.spaceId = filters.spaceId;
     }
 
+    // labels only apply to page search
+    if (filters.labelIds?.length > 0 && params.contentType === "page") {
+      params.labelIds = filters.labelIds;
+    }
+
     return params;
   }, [debouncedSearchQuery, filters]);
 
@@ -2,6 +2,7 @@ import { IUser } from "@/features/user/types/user.types.ts";
 import { IGroup } from "@/features/group/types/group.types.ts";
 import { ISpace } from "@/features/space/types/space.types.ts";
 import { IPage } from "@/features/page/types/page.types.ts";
+import { ILabel } from "@/features/label/types/label.types.ts";
 
 export interface IPageSearch {
   id: string;
@@ -15,6 +16,7 @@ export interface IPageSearch {
   rank: string;
   highlight: string;
   space: Partial<ISpace>;
+  labels?: ILabel[];
 }
 
 export interface SearchSuggestionParams {
@@ -22,6 +24,9 @@ export interface SearchSuggestionParams {
   includeUsers?: boolean;
   includeGroups?: boolean;
   includePages?: boolean;
+  includeSpaces?: boolean;
+  // also suggest open spaces the user has not joined yet
+  includeOpenSpaces?: boolean;
   spaceId?: string;
   limit?: number;
 }
@@ -30,12 +35,14 @@ export interface ISuggestionResult {
   users?: Partial<IUser[]>;
   groups?: Partial<IGroup[]>;
   pages?: Partial<IPage[]>;
+  spaces?: Partial<ISpace[]>;
 }
 
 export interface IPageSearchParams {
   query: string;
   spaceId?: string;
   shareId?: string;
+  labelIds?: string[];
 }
 
 export interface IAttachmentSearch {
@@ -0,0 +1,157 @@
+import React, { lazy, Suspense, useEffect, useState } from "react";
+import {
+  Button,
+  Group,
+  PasswordInput,
+  Stack,
+  Switch,
+  Text,
+} from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { endOfDay, format, parseISO } from "date-fns";
+import { useUpdateShareMutation } from "@/features/share/queries/share-query.ts";
+import { IShareForPage } from "@/features/share/types/share.types.ts";
+
+const DateInput = lazy(() =>
+  import("@mantine/dates").then((module) => ({
+    default: module.DateInput,
+  })),
+);
+
+interface ShareAccessSettingsProps {
+  share: IShareForPage;
+  readOnly: boolean;
+}
+
+export default function ShareAccessSettings({
+  share,
+  readOnly,
+}: ShareAccessSettingsProps) {
+  const { t } = useTranslation();
+  const updateShareMutation = useUpdateShareMutation();
+  const [passwordEnabled, setPasswordEnabled] = useState<boolean>(
+    !!share.hasPassword,
+  );
+  const [password, setPassword] = useState("");
+
+  useEffect(() => {
+    setPasswordEnabled(!!share.hasPassword);
+    setPassword("");
+  }, [share.id, share.hasPassword]);
+
+  const isExpired =
+    !!share.expiresAt && new Date(share.expiresAt) <= new Date();
+
+  const handlePasswordToggle = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.currentTarget.checked;
+    setPasswordEnabled(value);
+
+    if (!value && share.hasPassword) {
+      updateShareMutation.mutateAsync({ shareId: share.id, password: null });
+    }
+  };
+
+  const handlePasswordSave = async () => {
+    if (!password) return;
+    await updateShareMutation.mutateAsync({ shareId: share.id, password });
+    setPassword("");
+  };
+
+  const handleExpiryChange = (value: string | null) => {
+    updateShareMutation.mutateAsync({
+      shareId: share.id,
+      // the share stays available until the end of the selected day
+      expiresAt: value ? endOfDay(parseISO(value)).toISOString() : null,
+    });
+  };
+
+  const handleDownloadChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    updateShareMutation.mutateAsync({
+      shareId: share.id,
+      disableDownload: event.currentTarget.checked,
+    });
+  };
+
+  return (
+    <>
+      <Group justify="space-between" wrap="nowrap" gap="xl" mt="sm">
+        <div>
+          <Text size="sm">{t("Password protection")}</Text>
+          <Text size="xs" c="dimmed">
+            {t("Require a password to view the page")}
+          </Text>
+        </div>
+        <Switch
+          onChange={handlePasswordToggle}
+          checked={passwordEnabled}
+          size="xs"
+          disabled={readOnly}
+        />
+      </Group>
+
+      {passwordEnabled && !readOnly && (
+        <Group gap="xs" mt="xs" wrap="nowrap" align="flex-start">
+          <PasswordInput
+            size="xs"
+            style={{ flex: 1 }}
+            placeholder={
+              share.hasPassword ? t("Change password") : t("Set a password")
+            }
+            value={password}
+            onChange={(event) => setPassword(event.currentTarget.value)}
+          />
+          <Button
+            size="xs"
+            onClick={handlePasswordSave}
+            disabled={!password}
+            loading={updateShareMutation.isPending}
+          >
+            {t("Save")}
+          </Button>
+        </Group>
+      )}
+
+      <Stack gap={4} mt="sm">
+        <div>
+          <Text size="sm">{t("Expiration date")}</Text>
+          <Text size="xs" c={isExpired ? "red" : "dimmed"}>
+            {isExpired
+              ? t("This link has expired")
+              : t("The link stops working after this date")}
+          </Text>
+        </div>
+        <Suspense fallback={null}>
+          <DateInput
+            size="xs"
+            clearable
+            placeholder={t("Never expires")}
+            minDate={new Date()}
+            value={
+              share.expiresAt
+                ? format(new Date(share.expiresAt), "yyyy-MM-dd")
+                : null
+            }
+            onChange={handleExpiryChange}
+            popoverProps={{ withinPortal: false }}
+            disabled={readOnly}
+          />
+        </Suspense>
+      </Stack>
+
+      <Group justify="space-between" wrap="nowrap" gap="xl" mt="sm">
+        <div>
+          <Text size="sm">{t("Disable downloads")}</Text>
+          <Text size="xs" c="dimmed">
+            {t("Prevent visitors from downloading attachments")}
+          </Text>
+        </div>
+        <Switch
+          onChange={handleDownloadChange}
+          checked={share.disableDownload}
+          size="xs"
+          disabled={readOnly}
+        />
+      </Group>
+    </>
+  );
+}
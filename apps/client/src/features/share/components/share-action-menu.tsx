@@ -1,6 +1,7 @@
 import { Menu, ActionIcon, Text } from "@mantine/core";
 import React from "react";
 import {
+  IconChartBar,
   IconCopy,
   IconDots,
   IconFileDescription,
@@ -13,10 +14,11 @@ import {
   buildPageUrl,
   buildSharedPageUrl,
 } from "@/features/page/page.utils.ts";
-import { useClipboard } from "@mantine/hooks";
+import { useClipboard, useDisclosure } from "@mantine/hooks";
 import { notifications } from "@mantine/notifications";
 import { useNavigate } from "react-router-dom";
 import { useDeleteShareMutation } from "@/features/share/queries/share-query.ts";
+import ShareAnalyticsModal from "@/features/share/components/share-analytics-modal.tsx";
 
 interface Props {
   share: ISharedItem;
@@ -26,6 +28,8 @@ export default function ShareActionMenu({ share }: Props) {
   const navigate = useNavigate();
   const clipboard = useClipboard();
   const deleteShareMutation = useDeleteShareMutation();
+  const [analyticsOpened, { open: openAnalytics, close: closeAnalytics }] =
+    useDisclosure(false);
 
   const openPage = () => {
     const pageLink = buildPageUrl(
@@ -91,6 +95,12 @@ export default function ShareActionMenu({ share }: Props) {
           >
             {t("Open page")}
           </Menu.Item>
+          <Menu.Item
+            onClick={openAnalytics}
+            leftSection={<IconChartBar size={16} />}
+          >
+            {t("View analytics")}
+          </Menu.Item>
           <Menu.Item
             c="red"
             onClick={openDeleteModal}
@@ -101,6 +111,12 @@ export default function ShareActionMenu({ share }: Props) {
           </Menu.Item>
         </Menu.Dropdown>
       </Menu>
+
+      <ShareAnalyticsModal
+        share={share}
+        opened={analyticsOpened}
+        onClose={closeAnalytics}
+      />
     </>
   );
 }
@@ -0,0 +1,154 @@
+import {
+  Group,
+  Modal,
+  SegmentedControl,
+  Select,
+  SimpleGrid,
+  Stack,
+  Table,
+  Text,
+  UnstyledButton,
+} from "@mantine/core";
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useShareViewsQuery } from "@/features/share/queries/share-query.ts";
+import { ISharedItem } from "@/features/share/types/share.types.ts";
+import ShareViewsChart from "@/features/share/components/share-views-chart.tsx";
+import { getPageIcon } from "@/lib";
+
+interface ShareAnalyticsModalProps {
+  share: ISharedItem;
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function ShareAnalyticsModal({
+  share,
+  opened,
+  onClose,
+}: ShareAnalyticsModalProps) {
+  const { t } = useTranslation();
+  const [days, setDays] = useState("30");
+  const [pageId, setPageId] = useState<string | null>(null);
+
+  const { data } = useShareViewsQuery({
+    shareId: opened ? share.id : undefined,
+    pageId: pageId ?? undefined,
+    days: Number(days),
+  });
+
+  useEffect(() => {
+    if (!opened) setPageId(null);
+  }, [opened]);
+
+  const pageOptions = (data?.pages ?? []).map((page) => ({
+    value: page.id,
+    label: page.title || t("untitled"),
+  }));
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={share.page?.title || t("untitled")}
+      size="lg"
+    >
+      <Stack>
+        <Group justify="space-between">
+          <Select
+            size="xs"
+            data={pageOptions}
+            value={pageId}
+            onChange={setPageId}
+            placeholder={t("All pages")}
+            clearable
+            searchable
+            comboboxProps={{ withinPortal: false }}
+          />
+          <SegmentedControl
+            size="xs"
+            value={days}
+            onChange={setDays}
+            data={[
+              { label: t("7 days"), value: "7" },
+              { label: t("30 days"), value: "30" },
+              { label: t("90 days"), value: "90" },
+            ]}
+          />
+        </Group>
+
+        <div>
+          <Text size="xl" fw={600}>
+            {data?.total ?? 0}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {t("Views in the last {{count}} days", { count: Number(days) })}
+          </Text>
+        </div>
+
+        <ShareViewsChart daily={data?.daily ?? []} />
+
+        <SimpleGrid cols={{ base: 1, sm: 2 }}>
+          <div>
+            <Text size="sm" fw={500} mb="xs">
+              {t("Top pages")}
+            </Text>
+            <Table verticalSpacing={4}>
+              <Table.Tbody>
+                {data?.pages.map((page) => (
+                  <Table.Tr key={page.id}>
+                    <Table.Td>
+                      <UnstyledButton onClick={() => setPageId(page.id)}>
+                        <Group gap={4} wrap="nowrap">
+                          {getPageIcon(page.icon)}
+                          <Text size="sm" lineClamp={1}>
+                            {page.title || t("untitled")}
+                          </Text>
+                        </Group>
+                      </UnstyledButton>
+                    </Table.Td>
+                    <Table.Td ta="right">
+                      <Text size="sm">{page.views}</Text>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+            {data?.pages.length === 0 && (
+              <Text size="sm" c="dimmed">
+                {t("No views yet")}
+              </Text>
+            )}
+          </div>
+
+          <div>
+            <Text size="sm" fw={500} mb="xs">
+              {t("Referrers")}
+            </Text>
+            <Table verticalSpacing={4}>
+              <Table.Tbody>
+                {data?.referrers.map((row) => (
+                  <Table.Tr key={row.referrer}>
+                    <Table.Td>
+                      <Text size="sm" lineClamp={1}>
+                        {row.referrer || t("Direct")}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td ta="right">
+                      <Text size="sm">{row.views}</Text>
+                    </Table.Td>
+                  </Table.Tr>
+                ))}
+              </Table.Tbody>
+            </Table>
+            {data?.referrers.length === 0 && (
+              <Text size="sm" c="dimmed">
+                {t("No views yet")}
+              </Text>
+            )}
+          </div>
+        </SimpleGrid>
+      </Stack>
+    </Modal>
+  );
+}
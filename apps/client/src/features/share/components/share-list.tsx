@@ -26,6 +26,7 @@ export default function ShareList() {
               <Table.Th>{t("Page")}</Table.Th>
               <Table.Th>{t("Shared by")}</Table.Th>
               <Table.Th>{t("Shared at")}</Table.Th>
+              <Table.Th>{t("Views (30 days)")}</Table.Th>
             </Table.Tr>
           </Table.Thead>
 
@@ -75,6 +76,9 @@ export default function ShareList() {
                     {format(new Date(share.createdAt), "MMM dd, yyyy")}
                   </Text>
                 </Table.Td>
+                <Table.Td>
+                  <Text fz="sm">{share.recentViews ?? 0}</Text>
+                </Table.Td>
                 <Table.Td>
                   <ShareActionMenu share={share} />
                 </Table.Td>
@@ -27,6 +27,7 @@ import { buildPageUrl } from "@/features/page/page.utils.ts";
 import classes from "@/features/share/components/share.module.css";
 import useTrial from "@/ee/hooks/use-trial.tsx";
 import { getCheckoutLink } from "@/ee/billing/services/billing-service.ts";
+import ShareAccessSettings from "@/features/share/components/share-access-settings.tsx";
 
 interface ShareModalProps {
   readOnly: boolean;
@@ -245,6 +246,7 @@ export default function ShareModal({ readOnly }: ShareModalProps) {
                     disabled={readOnly}
                   />
                 </Group>
+                <ShareAccessSettings share={share} readOnly={readOnly} />
               </>
             )}
           </>
@@ -0,0 +1,85 @@
+import * as z from "zod";
+import { useForm, zodResolver } from "@mantine/form";
+import {
+  Box,
+  Button,
+  Container,
+  Group,
+  PasswordInput,
+  Text,
+  Title,
+} from "@mantine/core";
+import { IconLock } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+import { useUnlockShareMutation } from "@/features/share/queries/share-query.ts";
+
+const formSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface SharePasswordFormProps {
+  shareId: string;
+}
+
+export default function SharePasswordForm({ shareId }: SharePasswordFormProps) {
+  const { t } = useTranslation();
+  const unlockShareMutation = useUnlockShareMutation();
+
+  const form = useForm<FormValues>({
+    validate: zodResolver(formSchema),
+    initialValues: {
+      password: "",
+    },
+  });
+
+  async function onSubmit(data: FormValues) {
+    try {
+      await unlockShareMutation.mutateAsync({
+        shareId,
+        password: data.password,
+      });
+    } catch (err) {
+      form.setFieldError(
+        "password",
+        err?.["status"] === 429
+          ? t("Too many attempts. Try again later.")
+          : t("Incorrect password"),
+      );
+    }
+  }
+
+  return (
+    <Container size={420} mt={80}>
+      <Box p="xl">
+        <Group justify="center" mb="sm">
+          <IconLock size={28} stroke={1.5} />
+        </Group>
+        <Title order={3} ta="center" fw={500} mb="xs">
+          {t("This page is password protected")}
+        </Title>
+        <Text size="sm" c="dimmed" ta="center" mb="lg">
+          {t("Enter the password to view this page.")}
+        </Text>
+
+        <form onSubmit={form.onSubmit(onSubmit)}>
+          <PasswordInput
+            label={t("Password")}
+            variant="filled"
+            data-autofocus
+            {...form.getInputProps("password")}
+          />
+          <Button
+            type="submit"
+            fullWidth
+            mt="xl"
+            loading={unlockShareMutation.isPending}
+          >
+            {t("Unlock")}
+          </Button>
+        </form>
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,47 @@
+import { Box, Group, Text, Tooltip } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { format, parseISO } from "date-fns";
+import classes from "./share.module.css";
+
+interface ShareViewsChartProps {
+  daily: { day: string; views: number }[];
+  height?: number;
+}
+
+export default function ShareViewsChart({
+  daily,
+  height = 120,
+}: ShareViewsChartProps) {
+  const { t } = useTranslation();
+  const maxViews = Math.max(1, ...daily.map((row) => row.views));
+
+  return (
+    <div>
+      <Group gap={2} align="flex-end" wrap="nowrap" h={height}>
+        {daily.map((row) => (
+          <Tooltip
+            key={row.day}
+            label={`${format(parseISO(row.day), "MMM dd")}: ${t("{{count}} views", { count: row.views })}`}
+            withArrow
+          >
+            <Box
+              className={classes.viewsChartBar}
+              h={`${Math.max((row.views / maxViews) * 100, 2)}%`}
+              data-empty={row.views === 0 || undefined}
+            />
+          </Tooltip>
+        ))}
+      </Group>
+      {daily.length > 0 && (
+        <Group justify="space-between" mt={4}>
+          <Text size="xs" c="dimmed">
+            {format(parseISO(daily[0].day), "MMM dd")}
+          </Text>
+          <Text size="xs" c="dimmed">
+            {format(parseISO(daily[daily.length - 1].day), "MMM dd")}
+          </Text>
+        </Group>
+      )}
+    </div>
+  );
+}
@@ -15,6 +15,9 @@ import {
   ISharedPageTree,
   IShareForPage,
   IShareInfoInput,
+  IShareViews,
+  IShareViewsInput,
+  IUnlockShare,
   IUpdateShare,
 } from "@/features/share/types/share.types.ts";
 import {
@@ -25,6 +28,8 @@ import {
   getShareInfo,
   getSharePageInfo,
   getShares,
+  getShareViews,
+  unlockShare,
   updateShare,
 } from "@/features/share/services/share-service.ts";
 import { IPage } from "@/features/page/types/page.types.ts";
@@ -79,6 +84,17 @@ export function useShareForPageQuery(
   return query;
 }
 
+export function useShareViewsQuery(
+  params: IShareViewsInput,
+): UseQueryResult<IShareViews, Error> {
+  return useQuery({
+    queryKey: ["share-views", params],
+    queryFn: () => getShareViews(params),
+    enabled: !!params.shareId,
+    placeholderData: keepPreviousData,
+  });
+}
+
 export function useCreateShareMutation() {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
@@ -131,6 +147,22 @@ export function useUpdateShareMutation() {
   });
 }
 
+export function useUnlockShareMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, IUnlockShare>({
+    mutationFn: (data) => unlockShare(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        predicate: (item) =>
+          ["shares", "share-by-id", "shared-page-tree"].includes(
+            item.queryKey[0] as string,
+          ),
+      });
+    },
+  });
+}
+
 export function useDeleteShareMutation() {
   const { t } = useTranslation();
   const queryClient = useQueryClient();
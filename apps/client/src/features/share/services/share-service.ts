@@ -9,6 +9,9 @@ import {
   ISharedPageTree,
   IShareForPage,
   IShareInfoInput,
+  IShareViews,
+  IShareViewsInput,
+  IUnlockShare,
   IUpdateShare,
 } from "@/features/share/types/share.types.ts";
 import { IPagination, QueryParams } from "@/lib/types.ts";
@@ -40,13 +43,34 @@ export async function getShareForPage(pageId: string): Promise<IShareForPage> {
   return req.data;
 }
 
+// the server records the view of the page a visit lands on by itself
+let isLandingPage = true;
+
 export async function getSharePageInfo(
   shareInput: Partial<IShareInfoInput>,
 ): Promise<ISharedPage> {
-  const req = await api.post<ISharedPage>("/shares/page-info", shareInput);
+  const landingView = isLandingPage;
+  isLandingPage = false;
+
+  const req = await api.post<ISharedPage>("/shares/page-info", {
+    ...shareInput,
+    trackView: !landingView,
+    landingView,
+  });
   return req.data;
 }
 
+export async function getShareViews(
+  params: IShareViewsInput,
+): Promise<IShareViews> {
+  const req = await api.post<IShareViews>("/shares/views", params);
+  return req.data;
+}
+
+export async function unlockShare(data: IUnlockShare): Promise<void> {
+  await api.post("/shares/unlock", data);
+}
+
 export async function deleteShare(shareId: string): Promise<void> {
   await api.post("/shares/delete", { shareId });
 }
@@ -6,6 +6,9 @@ export interface IShare {
   pageId: string;
   includeSubPages: boolean;
   searchIndexing: boolean;
+  disableDownload: boolean;
+  expiresAt: string | null;
+  hasPassword?: boolean;
   creatorId: string;
   spaceId: string;
   workspaceId: string;
@@ -33,6 +36,8 @@ export interface ISharedItem extends IShare {
     name: string;
     avatarUrl: string | null;
   };
+  // views over the last 30 days
+  recentViews: number;
 }
 
 export interface ISharedPage extends IShare {
@@ -41,6 +46,8 @@ export interface ISharedPage extends IShare {
     level: number;
     sharedPage: { id: string; slugId: string; title: string; icon: string };
   };
+  // set when the share is password protected and not unlocked yet
+  passwordRequired?: boolean;
   hasLicenseKey: boolean;
 }
 
@@ -60,6 +67,15 @@ export interface ICreateShare {
   pageId?: string;
   includeSubPages?: boolean;
   searchIndexing?: boolean;
+  // null removes the password or expiry date
+  password?: string | null;
+  expiresAt?: string | null;
+  disableDownload?: boolean;
+}
+
+export interface IUnlockShare {
+  shareId: string;
+  password: string;
 }
 
 export type IUpdateShare = ICreateShare & { shareId: string; pageId?: string };
@@ -68,6 +84,19 @@ export interface IShareInfoInput {
   pageId: string;
 }
 
+export interface IShareViewsInput {
+  shareId: string;
+  pageId?: string;
+  days?: number;
+}
+
+export interface IShareViews {
+  total: number;
+  daily: { day: string; views: number }[];
+  pages: (ISharePage & { views: number })[];
+  referrers: { referrer: string; views: number }[];
+}
+
 export interface ISharedPageTree {
   share: IShare;
   pageTree: Partial<IPage[]>;
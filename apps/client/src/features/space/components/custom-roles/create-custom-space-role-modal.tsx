@@ -0,0 +1,32 @@
+import { Button, Divider, Modal } from "@mantine/core";
+import { useDisclosure } from "@mantine/hooks";
+import { useTranslation } from "react-i18next";
+import { CustomSpaceRoleForm } from "@/features/space/components/custom-roles/custom-space-role-form.tsx";
+import { useCreateCustomSpaceRoleMutation } from "@/features/space/queries/space-query.ts";
+import { ICreateCustomSpaceRole } from "@/features/space/types/space.types.ts";
+
+export default function CreateCustomSpaceRoleModal() {
+  const { t } = useTranslation();
+  const [opened, { open, close }] = useDisclosure(false);
+  const createRoleMutation = useCreateCustomSpaceRoleMutation();
+
+  const handleSubmit = async (data: ICreateCustomSpaceRole) => {
+    await createRoleMutation.mutateAsync(data);
+    close();
+  };
+
+  return (
+    <>
+      <Button onClick={open}>{t("Create role")}</Button>
+
+      <Modal opened={opened} onClose={close} title={t("Create role")} size="lg">
+        <Divider size="xs" mb="xs" />
+        <CustomSpaceRoleForm
+          submitLabel={t("Create")}
+          isLoading={createRoleMutation.isPending}
+          onSubmit={handleSubmit}
+        />
+      </Modal>
+    </>
+  );
+}
@@ -0,0 +1,183 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  Group,
+  Stack,
+  Table,
+  Text,
+  Textarea,
+  TextInput,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import * as z from "zod";
+import { zodResolver } from "mantine-form-zod-resolver";
+import { useTranslation } from "react-i18next";
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from "@/features/space/permissions/permissions.type.ts";
+import {
+  ICreateCustomSpaceRole,
+  Permission,
+} from "@/features/space/types/space.types.ts";
+
+const subjects = [
+  { value: SpaceCaslSubject.Page, label: "Pages" },
+  { value: SpaceCaslSubject.Comment, label: "Comments" },
+  { value: SpaceCaslSubject.Share, label: "Public shares" },
+  { value: SpaceCaslSubject.Member, label: "Members" },
+  { value: SpaceCaslSubject.Settings, label: "Space settings" },
+];
+
+const actions = [
+  { value: SpaceCaslAction.Read, label: "View" },
+  { value: SpaceCaslAction.Create, label: "Create" },
+  { value: SpaceCaslAction.Edit, label: "Edit" },
+  { value: SpaceCaslAction.Delete, label: "Delete" },
+  { value: SpaceCaslAction.Manage, label: "Full access" },
+];
+
+const formSchema = z.object({
+  name: z.string().trim().min(1).max(50),
+  description: z.string().max(250),
+  permissions: z.array(
+    z.object({
+      action: z.nativeEnum(SpaceCaslAction),
+      subject: z.nativeEnum(SpaceCaslSubject),
+    }),
+  ),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface CustomSpaceRoleFormProps {
+  initialValues?: Partial<FormValues>;
+  submitLabel: string;
+  isLoading?: boolean;
+  onSubmit: (data: ICreateCustomSpaceRole) => void;
+}
+
+export function CustomSpaceRoleForm({
+  initialValues,
+  submitLabel,
+  isLoading,
+  onSubmit,
+}: CustomSpaceRoleFormProps) {
+  const { t } = useTranslation();
+
+  const form = useForm<FormValues>({
+    validate: zodResolver(formSchema),
+    initialValues: {
+      name: "",
+      description: "",
+      permissions: [],
+      ...initialValues,
+    },
+  });
+
+  const hasPermission = (permission: Permission) =>
+    form.values.permissions.some(
+      (item) =>
+        item.action === permission.action &&
+        item.subject === permission.subject,
+    );
+
+  const togglePermission = (permission: Permission, checked: boolean) => {
+    const permissions = form.values.permissions.filter(
+      (item) =>
+        item.action !== permission.action ||
+        item.subject !== permission.subject,
+    );
+    form.setFieldValue(
+      "permissions",
+      checked ? [...permissions, permission] : permissions,
+    );
+  };
+
+  return (
+    <Box mx="auto">
+      <form
+        onSubmit={form.onSubmit((values) =>
+          onSubmit(values as ICreateCustomSpaceRole),
+        )}
+      >
+        <Stack>
+          <TextInput
+            withAsterisk
+            label={t("Name")}
+            placeholder={t("e.g Publisher")}
+            variant="filled"
+            {...form.getInputProps("name")}
+          />
+
+          <Textarea
+            label={t("Description")}
+            variant="filled"
+            autosize
+            minRows={2}
+            maxRows={4}
+            {...form.getInputProps("description")}
+          />
+
+          <div>
+            <Text size="sm" fw={500} mb="xs">
+              {t("Permissions")}
+            </Text>
+            <Table.ScrollContainer minWidth={450}>
+              <Table withTableBorder verticalSpacing="xs">
+                <Table.Thead>
+                  <Table.Tr>
+                    <Table.Th></Table.Th>
+                    {actions.map((action) => (
+                      <Table.Th key={action.value} ta="center">
+                        {t(action.label)}
+                      </Table.Th>
+                    ))}
+                  </Table.Tr>
+                </Table.Thead>
+                <Table.Tbody>
+                  {subjects.map((subject) => (
+                    <Table.Tr key={subject.value}>
+                      <Table.Td>
+                        <Text size="sm">{t(subject.label)}</Text>
+                      </Table.Td>
+                      {actions.map((action) => {
+                        const permission = {
+                          action: action.value,
+                          subject: subject.value,
+                        };
+                        return (
+                          <Table.Td key={action.value}>
+                            <Group justify="center">
+                              <Checkbox
+                                aria-label={`${t(action.label)} ${t(subject.label)}`}
+                                checked={hasPermission(permission)}
+                                onChange={(event) =>
+                                  togglePermission(
+                                    permission,
+                                    event.currentTarget.checked,
+                                  )
+                                }
+                              />
+                            </Group>
+                          </Table.Td>
+                        );
+                      })}
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+          </div>
+        </Stack>
+
+        <Group justify="flex-end" mt="md">
+          <Button type="submit" loading={isLoading}>
+            {submitLabel}
+          </Button>
+        </Group>
+      </form>
+    </Box>
+  );
+}
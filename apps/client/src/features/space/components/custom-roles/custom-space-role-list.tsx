@@ -0,0 +1,155 @@
+import {
+  ActionIcon,
+  Divider,
+  Group,
+  Menu,
+  Modal,
+  Table,
+  Text,
+} from "@mantine/core";
+import { IconDots, IconEdit, IconTrash } from "@tabler/icons-react";
+import { useState } from "react";
+import { modals } from "@mantine/modals";
+import { useTranslation } from "react-i18next";
+import NoTableResults from "@/components/common/no-table-results.tsx";
+import {
+  useCustomSpaceRolesQuery,
+  useDeleteCustomSpaceRoleMutation,
+  useUpdateCustomSpaceRoleMutation,
+} from "@/features/space/queries/space-query.ts";
+import {
+  ICreateCustomSpaceRole,
+  ICustomSpaceRole,
+} from "@/features/space/types/space.types.ts";
+import { CustomSpaceRoleForm } from "@/features/space/components/custom-roles/custom-space-role-form.tsx";
+import { formatMemberCount } from "@/lib";
+
+export default function CustomSpaceRoleList() {
+  const { t } = useTranslation();
+  const { data: roles } = useCustomSpaceRolesQuery();
+  const updateRoleMutation = useUpdateCustomSpaceRoleMutation();
+  const deleteRoleMutation = useDeleteCustomSpaceRoleMutation();
+  const [editingRole, setEditingRole] = useState<ICustomSpaceRole>(null);
+
+  const handleUpdate = async (data: ICreateCustomSpaceRole) => {
+    await updateRoleMutation.mutateAsync({ roleId: editingRole.id, ...data });
+    setEditingRole(null);
+  };
+
+  const openDeleteModal = (role: ICustomSpaceRole) =>
+    modals.openConfirmModal({
+      title: t("Delete role"),
+      children: (
+        <Text size="sm">
+          {t("Are you sure you want to delete the role {{name}}?", {
+            name: role.name,
+          })}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Delete"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: () => deleteRoleMutation.mutate(role.id),
+    });
+
+  return (
+    <>
+      <Table.ScrollContainer minWidth={500}>
+        <Table verticalSpacing="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Role")}</Table.Th>
+              <Table.Th>{t("Permissions")}</Table.Th>
+              <Table.Th>{t("Assigned to")}</Table.Th>
+              <Table.Th></Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+
+          <Table.Tbody>
+            {roles?.length > 0 ? (
+              roles.map((role) => (
+                <Table.Tr key={role.id}>
+                  <Table.Td>
+                    <Text fz="sm" fw={500} lineClamp={1}>
+                      {role.name}
+                    </Text>
+                    {role.description && (
+                      <Text fz="xs" c="dimmed" lineClamp={1}>
+                        {role.description}
+                      </Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Text fz="sm">{role.permissions.length}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text fz="sm">
+                      {formatMemberCount(Number(role.memberCount ?? 0), t)}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group justify="flex-end">
+                      <Menu
+                        shadow="xl"
+                        position="bottom-end"
+                        offset={20}
+                        width={200}
+                        withArrow
+                        arrowPosition="center"
+                      >
+                        <Menu.Target>
+                          <ActionIcon variant="subtle" c="gray">
+                            <IconDots size={20} stroke={2} />
+                          </ActionIcon>
+                        </Menu.Target>
+
+                        <Menu.Dropdown>
+                          <Menu.Item
+                            onClick={() => setEditingRole(role)}
+                            leftSection={<IconEdit size={16} stroke={2} />}
+                          >
+                            {t("Edit role")}
+                          </Menu.Item>
+                          <Menu.Item
+                            c="red"
+                            onClick={() => openDeleteModal(role)}
+                            leftSection={<IconTrash size={16} stroke={2} />}
+                          >
+                            {t("Delete role")}
+                          </Menu.Item>
+                        </Menu.Dropdown>
+                      </Menu>
+                    </Group>
+                  </Table.Td>
+                </Table.Tr>
+              ))
+            ) : (
+              <NoTableResults colSpan={4} text={t("No custom roles yet")} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      <Modal
+        opened={!!editingRole}
+        onClose={() => setEditingRole(null)}
+        title={t("Edit role")}
+        size="lg"
+      >
+        <Divider size="xs" mb="xs" />
+        {editingRole && (
+          <CustomSpaceRoleForm
+            initialValues={{
+              name: editingRole.name,
+              description: editingRole.description ?? "",
+              permissions: editingRole.permissions,
+            }}
+            submitLabel={t("Save")}
+            isLoading={updateRoleMutation.isPending}
+            onSubmit={handleUpdate}
+          />
+        )}
+      </Modal>
+    </>
+  );
+}
@@ -1,10 +1,21 @@
-import { Group, Box, Button, TextInput, Stack, Textarea } from "@mantine/core";
+import {
+  Group,
+  Box,
+  Button,
+  TextInput,
+  Stack,
+  Textarea,
+  Select,
+  Switch,
+} from "@mantine/core";
 import React from "react";
 import { useForm, zodResolver } from "@mantine/form";
 import * as z from "zod";
 import { useUpdateSpaceMutation } from "@/features/space/queries/space-query.ts";
-import { ISpace } from "@/features/space/types/space.types.ts";
+import { ISpace, SpaceVisibility } from "@/features/space/types/space.types.ts";
 import { useTranslation } from "react-i18next";
+import { useSpaceRoleData } from "@/features/space/hooks/use-space-role-data.ts";
+import { SpaceRole } from "@/lib/types.ts";
 
 const formSchema = z.object({
   name: z.string().min(2).max(50),
@@ -17,6 +28,9 @@ const formSchema = z.object({
       /^[a-zA-Z0-9]+$/,
       "Space slug must be alphanumeric. No special characters",
     ),
+  visibility: z.nativeEnum(SpaceVisibility),
+  defaultRole: z.string(),
+  reviewWorkflow: z.boolean(),
 });
 
 type FormValues = z.infer<typeof formSchema>;
@@ -27,6 +41,11 @@ interface EditSpaceFormProps {
 export function EditSpaceForm({ space, readOnly }: EditSpaceFormProps) {
   const { t } = useTranslation();
   const updateSpaceMutation = useUpdateSpaceMutation();
+  const { roles } = useSpaceRoleData();
+  // anyone can join an open space, so it never grants full access
+  const defaultRoleOptions = roles
+    .filter((role) => role.value !== SpaceRole.ADMIN)
+    .map((role) => ({ label: t(role.label), value: role.value }));
 
   const form = useForm<FormValues>({
     validate: zodResolver(formSchema),
@@ -34,14 +53,13 @@ export function EditSpaceForm({ space, readOnly }: EditSpaceFormProps) {
       name: space?.name,
       description: space?.description || "",
       slug: space.slug,
+      visibility: space.visibility ?? SpaceVisibility.PRIVATE,
+      defaultRole: space.defaultRole ?? SpaceRole.WRITER,
+      reviewWorkflow: space.reviewWorkflow ?? false,
     },
   });
 
-  const handleSubmit = async (values: {
-    name?: string;
-    description?: string;
-    slug?: string;
-  }) => {
+  const handleSubmit = async (values: FormValues) => {
     const spaceData: Partial<ISpace> = {
       spaceId: space.id,
     };
@@ -56,6 +74,18 @@ export function EditSpaceForm({ space, readOnly }: EditSpaceFormProps) {
       spaceData.slug = values.slug;
     }
 
+    if (form.isDirty("visibility")) {
+      spaceData.visibility = values.visibility;
+    }
+
+    if (form.isDirty("defaultRole")) {
+      spaceData.defaultRole = values.defaultRole;
+    }
+
+    if (form.isDirty("reviewWorkflow")) {
+      spaceData.reviewWorkflow = values.reviewWorkflow;
+    }
+
     await updateSpaceMutation.mutateAsync(spaceData);
     form.resetDirty();
   };
@@ -93,6 +123,47 @@ export function EditSpaceForm({ space, readOnly }: EditSpaceFormProps) {
               maxRows={3}
               {...form.getInputProps("description")}
             />
+
+            <Select
+              id="visibility"
+              label={t("Visibility")}
+              description={
+                form.values.visibility === SpaceVisibility.OPEN
+                  ? t(
+                      "Listed in the space directory. Anyone in the workspace can join.",
+                    )
+                  : t("Only members can see this space.")
+              }
+              variant="filled"
+              readOnly={readOnly}
+              allowDeselect={false}
+              data={[
+                { label: t("Private"), value: SpaceVisibility.PRIVATE },
+                { label: t("Open"), value: SpaceVisibility.OPEN },
+              ]}
+              {...form.getInputProps("visibility")}
+            />
+
+            <Select
+              id="defaultRole"
+              label={t("Default role")}
+              description={t("Role given to members who join the space")}
+              variant="filled"
+              readOnly={readOnly}
+              allowDeselect={false}
+              data={defaultRoleOptions}
+              {...form.getInputProps("defaultRole")}
+            />
+
+            <Switch
+              id="reviewWorkflow"
+              label={t("Require review before publishing")}
+              description={t(
+                "Readers and public shares only see page versions approved by a reviewer.",
+              )}
+              disabled={readOnly}
+              {...form.getInputProps("reviewWorkflow", { type: "checkbox" })}
+            />
           </Stack>
 
           {!readOnly && (
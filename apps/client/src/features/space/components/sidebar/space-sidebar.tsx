@@ -9,11 +9,14 @@ import {
 import {
   IconArrowDown,
   IconDots,
+  IconEye,
+  IconEyeOff,
   IconFileExport,
   IconHome,
   IconPlus,
   IconSearch,
   IconSettings,
+  IconTemplate,
   IconTrash,
 } from "@tabler/icons-react";
 import classes from "./space-sidebar.module.css";
@@ -39,6 +42,11 @@ import ExportModal from "@/components/common/export-modal";
 import { mobileSidebarAtom } from "@/components/layouts/global/hooks/atoms/sidebar-atom.ts";
 import { useToggleSidebar } from "@/components/layouts/global/hooks/hooks/use-toggle-sidebar.ts";
 import { searchSpotlight } from "@/features/search/constants";
+import CreatePageFromTemplateModal from "@/features/template/components/create-page-from-template-modal.tsx";
+import {
+  useSpaceWatchStatusQuery,
+  useToggleSpaceWatchMutation,
+} from "@/features/watcher/queries/watcher-query.ts";
 
 export function SpaceSidebar() {
   const { t } = useTranslation();
@@ -46,6 +54,10 @@ export function SpaceSidebar() {
   const location = useLocation();
   const [opened, { open: openSettings, close: closeSettings }] =
     useDisclosure(false);
+  const [
+    templatePickerOpened,
+    { open: openTemplatePicker, close: closeTemplatePicker },
+  ] = useDisclosure(false);
   const [mobileSidebarOpened] = useAtom(mobileSidebarAtom);
   const toggleMobileSidebar = useToggleSidebar(mobileSidebarAtom);
 
@@ -55,6 +67,9 @@ export function SpaceSidebar() {
   const spaceRules = space?.membership?.permissions;
   const spaceAbility = useSpaceAbility(spaceRules);
 
+  const { data: watchStatus } = useSpaceWatchStatusQuery(space?.id);
+  const toggleSpaceWatchMutation = useToggleSpaceWatchMutation();
+
   if (!space) {
     return <></>;
   }
@@ -117,6 +132,37 @@ export function SpaceSidebar() {
               </div>
             </UnstyledButton>
 
+            <UnstyledButton
+              className={classes.menu}
+              onClick={() =>
+                toggleSpaceWatchMutation.mutate({
+                  spaceId: space.id,
+                  watch: !watchStatus?.watching,
+                })
+              }
+            >
+              <div className={classes.menuItemInner}>
+                {watchStatus?.watching ? (
+                  <IconEyeOff
+                    size={18}
+                    className={classes.menuItemIcon}
+                    stroke={2}
+                  />
+                ) : (
+                  <IconEye
+                    size={18}
+                    className={classes.menuItemIcon}
+                    stroke={2}
+                  />
+                )}
+                <span>
+                  {watchStatus?.watching
+                    ? t("Stop watching space")
+                    : t("Watch space")}
+                </span>
+              </div>
+            </UnstyledButton>
+
             <UnstyledButton className={classes.menu} onClick={openSettings}>
               <div className={classes.menuItemInner}>
                 <IconSettings
@@ -129,7 +175,7 @@ export function SpaceSidebar() {
             </UnstyledButton>
 
             {spaceAbility.can(
-              SpaceCaslAction.Manage,
+              SpaceCaslAction.Create,
               SpaceCaslSubject.Page,
             ) && (
               <UnstyledButton
@@ -151,6 +197,25 @@ export function SpaceSidebar() {
                 </div>
               </UnstyledButton>
             )}
+
+            {spaceAbility.can(
+              SpaceCaslAction.Create,
+              SpaceCaslSubject.Page,
+            ) && (
+              <UnstyledButton
+                className={classes.menu}
+                onClick={openTemplatePicker}
+              >
+                <div className={classes.menuItemInner}>
+                  <IconTemplate
+                    size={18}
+                    className={classes.menuItemIcon}
+                    stroke={2}
+                  />
+                  <span>{t("New from template")}</span>
+                </div>
+              </UnstyledButton>
+            )}
           </div>
         </div>
 
@@ -161,7 +226,7 @@ export function SpaceSidebar() {
             </Text>
 
             {spaceAbility.can(
-              SpaceCaslAction.Manage,
+              SpaceCaslAction.Create,
               SpaceCaslSubject.Page,
             ) && (
               <Group gap="xs">
@@ -185,7 +250,7 @@ export function SpaceSidebar() {
             <SpaceTree
               spaceId={space.id}
               readOnly={spaceAbility.cannot(
-                SpaceCaslAction.Manage,
+                SpaceCaslAction.Edit,
                 SpaceCaslSubject.Page,
               )}
             />
@@ -198,6 +263,13 @@ export function SpaceSidebar() {
         onClose={closeSettings}
         spaceId={space?.slug}
       />
+
+      <CreatePageFromTemplateModal
+        spaceId={space.id}
+        spaceSlug={space.slug}
+        opened={templatePickerOpened}
+        onClose={closeTemplatePicker}
+      />
     </>
   );
 }
@@ -1,7 +1,7 @@
 import { IconCheck } from "@tabler/icons-react";
 import { Group, Select, SelectProps, Text } from "@mantine/core";
 import React from "react";
-import { spaceRoleData } from "@/features/space/types/space-role-data.ts";
+import { useSpaceRoleData } from "@/features/space/hooks/use-space-role-data.ts";
 import { useTranslation } from "react-i18next";
 import { IRoleData } from "@/lib/types.ts";
 
@@ -41,10 +41,11 @@ export function SpaceMemberRole({
   label,
 }: SpaceMemberRoleProps) {
   const { t } = useTranslation();
+  const { roles } = useSpaceRoleData();
 
   return (
     <Select
-      data={spaceRoleData.map((role: IRoleData) => ({
+      data={roles.map((role: IRoleData) => ({
         label: t(role.label),
         value: role.value,
         description: t(role.description),
@@ -18,10 +18,7 @@ import {
 import { IconGroupCircle } from "@/components/icons/icon-people-circle.tsx";
 import { IRemoveSpaceMember } from "@/features/space/types/space.types.ts";
 import RoleSelectMenu from "@/components/ui/role-select-menu.tsx";
-import {
-  getSpaceRoleLabel,
-  spaceRoleData,
-} from "@/features/space/types/space-role-data.ts";
+import { useSpaceRoleData } from "@/features/space/hooks/use-space-role-data.ts";
 import { formatMemberCount } from "@/lib";
 import { useTranslation } from "react-i18next";
 import Paginate from "@/components/common/paginate.tsx";
@@ -48,6 +45,7 @@ export default function SpaceMembersList({
   });
   const removeSpaceMember = useRemoveSpaceMemberMutation();
   const changeSpaceMemberRoleMutation = useChangeSpaceMemberRoleMutation();
+  const { roles, getRoleLabel } = useSpaceRoleData();
 
   const handleRoleChange = async (
     memberId: string,
@@ -154,8 +152,8 @@ export default function SpaceMembersList({
 
                   <Table.Td>
                     <RoleSelectMenu
-                      roles={spaceRoleData}
-                      roleName={getSpaceRoleLabel(member.role)}
+                      roles={roles}
+                      roleName={getRoleLabel(member.role)}
                       onChange={(newRole) =>
                         handleRoleChange(
                           member.id,
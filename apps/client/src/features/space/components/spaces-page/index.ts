@@ -1 +1,2 @@
-export { default as AllSpacesList } from "./all-spaces-list";
\ No newline at end of file
+export { default as AllSpacesList } from "./all-spaces-list";
+export { default as SpaceDirectory } from "./space-directory";
\ No newline at end of file
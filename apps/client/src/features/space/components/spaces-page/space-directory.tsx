@@ -0,0 +1,126 @@
+import { Table, Text, Group, Box, Space, Button } from "@mantine/core";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { formatMemberCount } from "@/lib";
+import { getSpaceUrl } from "@/lib/config";
+import {
+  useJoinSpaceMutation,
+  useSpaceDirectoryQuery,
+} from "@/features/space/queries/space-query";
+import { SearchInput } from "@/components/common/search-input";
+import Paginate from "@/components/common/paginate";
+import NoTableResults from "@/components/common/no-table-results";
+import { CustomAvatar } from "@/components/ui/custom-avatar.tsx";
+import { AvatarIconType } from "@/features/attachments/types/attachment.types.ts";
+import { usePaginateAndSearch } from "@/hooks/use-paginate-and-search";
+import { ISpace } from "@/features/space/types/space.types.ts";
+
+export default function SpaceDirectory() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const { search, page, setPage, handleSearch } = usePaginateAndSearch();
+  const joinSpaceMutation = useJoinSpaceMutation();
+
+  const { data } = useSpaceDirectoryQuery({
+    page,
+    limit: 30,
+    query: search,
+  });
+  const spaces = data?.items || [];
+
+  const handleJoin = async (space: ISpace) => {
+    await joinSpaceMutation.mutateAsync(space.id);
+    navigate(getSpaceUrl(space.slug));
+  };
+
+  return (
+    <Box>
+      <SearchInput onSearch={handleSearch} />
+
+      <Space h="md" />
+
+      <Table.ScrollContainer minWidth={500}>
+        <Table highlightOnHover verticalSpacing="sm">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Space")}</Table.Th>
+              <Table.Th>{t("Members")}</Table.Th>
+              <Table.Th w={120}></Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+
+          <Table.Tbody>
+            {spaces.length > 0 ? (
+              spaces.map((space) => (
+                <Table.Tr key={space.id}>
+                  <Table.Td>
+                    <Group gap="sm" wrap="nowrap">
+                      <CustomAvatar
+                        name={space.name}
+                        avatarUrl={space.logo}
+                        type={AvatarIconType.SPACE_ICON}
+                        color="initials"
+                        variant="filled"
+                        size="md"
+                      />
+                      <div>
+                        <Text fz="sm" fw={500} lineClamp={1}>
+                          {space.name}
+                        </Text>
+                        {space.description && (
+                          <Text fz="xs" c="dimmed" lineClamp={2}>
+                            {space.description}
+                          </Text>
+                        )}
+                      </div>
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text size="sm" style={{ whiteSpace: "nowrap" }}>
+                      {formatMemberCount(space.memberCount, t)}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group gap="xs" justify="flex-end">
+                      {space.isMember ? (
+                        <Button
+                          size="xs"
+                          variant="default"
+                          onClick={() => navigate(getSpaceUrl(space.slug))}
+                        >
+                          {t("Open")}
+                        </Button>
+                      ) : (
+                        <Button
+                          size="xs"
+                          onClick={() => handleJoin(space)}
+                          loading={
+                            joinSpaceMutation.isPending &&
+                            joinSpaceMutation.variables === space.id
+                          }
+                        >
+                          {t("Join")}
+                        </Button>
+                      )}
+                    </Group>
+                  </Table.Td>
+                </Table.Tr>
+              ))
+            ) : (
+              <NoTableResults colSpan={3} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      {spaces.length > 0 && (
+        <Paginate
+          currentPage={page}
+          hasPrevPage={data?.meta?.hasPrevPage}
+          hasNextPage={data?.meta?.hasNextPage}
+          onPageChange={setPage}
+        />
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,22 @@
+import { IRoleData } from "@/lib/types.ts";
+import { spaceRoleData } from "@/features/space/types/space-role-data.ts";
+import { useCustomSpaceRolesQuery } from "@/features/space/queries/space-query.ts";
+
+// built-in space roles followed by the workspace's custom roles
+export function useSpaceRoleData() {
+  const { data: customRoles } = useCustomSpaceRolesQuery();
+
+  const roles: IRoleData[] = [
+    ...spaceRoleData,
+    ...(customRoles ?? []).map((role) => ({
+      label: role.name,
+      value: role.id,
+      description: role.description ?? "",
+    })),
+  ];
+
+  const getRoleLabel = (value: string) =>
+    roles.find((role) => role.value === value)?.label;
+
+  return { roles, getRoleLabel };
+}
@@ -8,9 +8,12 @@ import {
 import {
   IAddSpaceMember,
   IChangeSpaceMemberRole,
+  ICreateCustomSpaceRole,
+  ICustomSpaceRole,
   IRemoveSpaceMember,
   ISpace,
   ISpaceMember,
+  IUpdateCustomSpaceRole,
 } from "@/features/space/types/space.types";
 import {
   addSpaceMember,
@@ -18,10 +21,16 @@ import {
   getSpaceById,
   getSpaceMembers,
   getSpaces,
+  getSpaceDirectory,
+  joinSpace,
   removeSpaceMember,
   createSpace,
   updateSpace,
   deleteSpace,
+  getCustomSpaceRoles,
+  createCustomSpaceRole,
+  updateCustomSpaceRole,
+  deleteCustomSpaceRole,
 } from "@/features/space/services/space-service.ts";
 import { notifications } from "@mantine/notifications";
 import { IPagination, QueryParams } from "@/lib/types.ts";
@@ -42,6 +51,40 @@ export function useGetSpacesQuery(
   });
 }
 
+export function useSpaceDirectoryQuery(
+  params?: QueryParams,
+): UseQueryResult<IPagination<ISpace>, Error> {
+  return useQuery({
+    queryKey: ["space-directory", params],
+    queryFn: () => getSpaceDirectory(params),
+    placeholderData: keepPreviousData,
+    refetchOnMount: true,
+  });
+}
+
+export function useJoinSpaceMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<ISpace, Error, string>({
+    mutationFn: (spaceId) => joinSpace(spaceId),
+    onSuccess: () => {
+      notifications.show({ message: t("You joined the space") });
+
+      queryClient.invalidateQueries({
+        queryKey: ["space-directory"],
+      });
+      queryClient.invalidateQueries({
+        queryKey: ["spaces"],
+      });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
 export function useSpaceQuery(spaceId: string): UseQueryResult<ISpace, Error> {
   const query = useQuery({
     queryKey: ["space", spaceId],
@@ -259,3 +302,64 @@ export function useChangeSpaceMemberRoleMutation() {
     },
   });
 }
+
+export function useCustomSpaceRolesQuery(): UseQueryResult<
+  ICustomSpaceRole[],
+  Error
+> {
+  return useQuery({
+    queryKey: ["custom-space-roles"],
+    queryFn: () => getCustomSpaceRoles(),
+  });
+}
+
+export function useCreateCustomSpaceRoleMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<ICustomSpaceRole, Error, ICreateCustomSpaceRole>({
+    mutationFn: (data) => createCustomSpaceRole(data),
+    onSuccess: () => {
+      notifications.show({ message: t("Role created successfully") });
+      queryClient.invalidateQueries({ queryKey: ["custom-space-roles"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useUpdateCustomSpaceRoleMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<ICustomSpaceRole, Error, IUpdateCustomSpaceRole>({
+    mutationFn: (data) => updateCustomSpaceRole(data),
+    onSuccess: () => {
+      notifications.show({ message: t("Role updated successfully") });
+      queryClient.invalidateQueries({ queryKey: ["custom-space-roles"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useDeleteCustomSpaceRoleMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<void, Error, string>({
+    mutationFn: (roleId) => deleteCustomSpaceRole(roleId),
+    onSuccess: () => {
+      notifications.show({ message: t("Role deleted successfully") });
+      queryClient.invalidateQueries({ queryKey: ["custom-space-roles"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -2,10 +2,13 @@ import api from "@/lib/api-client";
 import {
   IAddSpaceMember,
   IChangeSpaceMemberRole,
+  ICreateCustomSpaceRole,
+  ICustomSpaceRole,
   IExportSpaceParams,
   IRemoveSpaceMember,
   ISpace,
   ISpaceMember,
+  IUpdateCustomSpaceRole,
 } from "@/features/space/types/space.types";
 import { IPagination, QueryParams } from "@/lib/types.ts";
 import { saveAs } from "file-saver";
@@ -17,6 +20,18 @@ export async function getSpaces(
   return req.data;
 }
 
+export async function getSpaceDirectory(
+  params?: QueryParams,
+): Promise<IPagination<ISpace>> {
+  const req = await api.post("/spaces/directory", params);
+  return req.data;
+}
+
+export async function joinSpace(spaceId: string): Promise<ISpace> {
+  const req = await api.post<ISpace>("/spaces/join", { spaceId });
+  return req.data;
+}
+
 export async function getSpaceById(spaceId: string): Promise<ISpace> {
   const req = await api.post<ISpace>("/spaces/info", { spaceId });
   return req.data;
@@ -60,6 +75,29 @@ export async function changeMemberRole(
   await api.post("/spaces/members/change-role", data);
 }
 
+export async function getCustomSpaceRoles(): Promise<ICustomSpaceRole[]> {
+  const req = await api.post<ICustomSpaceRole[]>("/spaces/roles");
+  return req.data;
+}
+
+export async function createCustomSpaceRole(
+  data: ICreateCustomSpaceRole,
+): Promise<ICustomSpaceRole> {
+  const req = await api.post<ICustomSpaceRole>("/spaces/roles/create", data);
+  return req.data;
+}
+
+export async function updateCustomSpaceRole(
+  data: IUpdateCustomSpaceRole,
+): Promise<ICustomSpaceRole> {
+  const req = await api.post<ICustomSpaceRole>("/spaces/roles/update", data);
+  return req.data;
+}
+
+export async function deleteCustomSpaceRole(roleId: string): Promise<void> {
+  await api.post("/spaces/roles/delete", { roleId });
+}
+
 export async function exportSpace(data: IExportSpaceParams): Promise<void> {
   const req = await api.post("/spaces/export", data, {
     responseType: "blob",
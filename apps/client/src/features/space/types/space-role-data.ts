@@ -11,6 +11,11 @@ export const spaceRoleData: IRoleData[] = [
     value: SpaceRole.WRITER,
     description: "Can create and edit pages in space.",
   },
+  {
+    label: "Can comment",
+    value: SpaceRole.COMMENTER,
+    description: "Can view and comment on pages in space but not edit.",
+  },
   {
     label: "Can view",
     value: SpaceRole.READER,
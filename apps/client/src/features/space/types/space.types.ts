@@ -5,6 +5,11 @@ import {
 } from "@/features/space/permissions/permissions.type.ts";
 import { ExportFormat } from "@/features/page/types/page.types.ts";
 
+export enum SpaceVisibility {
+  OPEN = "open",
+  PRIVATE = "private",
+}
+
 export interface ISpace {
   id: string;
   name: string;
@@ -17,6 +22,12 @@ export interface ISpace {
   updatedAt: Date;
   memberCount?: number;
   spaceId?: string;
+  visibility?: SpaceVisibility;
+  defaultRole?: string;
+  // page changes need approval before readers see them
+  reviewWorkflow?: boolean;
+  // set on space directory results
+  isMember?: boolean;
   membership?: IMembership;
 }
 
@@ -26,7 +37,7 @@ interface IMembership {
   permissions?: Permissions;
 }
 
-interface Permission {
+export interface Permission {
   action: SpaceCaslAction;
   subject: SpaceCaslSubject;
 }
@@ -75,3 +86,26 @@ export interface IExportSpaceParams {
   format: ExportFormat;
   includeAttachments?: boolean;
 }
+
+export interface ICustomSpaceRole {
+  id: string;
+  name: string;
+  description: string | null;
+  permissions: Permission[];
+  memberCount?: number;
+  creatorId: string;
+  workspaceId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ICreateCustomSpaceRole {
+  name: string;
+  description?: string;
+  permissions: Permission[];
+}
+
+export interface IUpdateCustomSpaceRole
+  extends Partial<ICreateCustomSpaceRole> {
+  roleId: string;
+}
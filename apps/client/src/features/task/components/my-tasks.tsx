@@ -0,0 +1,155 @@
+import { useState } from "react";
+import {
+  Anchor,
+  Badge,
+  Checkbox,
+  Group,
+  SegmentedControl,
+  Stack,
+  Table,
+  Text,
+} from "@mantine/core";
+import { Link } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import PageListSkeleton from "@/components/ui/page-list-skeleton.tsx";
+import Paginate from "@/components/common/paginate.tsx";
+import { buildPageUrl } from "@/features/page/page.utils.ts";
+import { getSpaceUrl } from "@/lib/config.ts";
+import {
+  useMyTasksQuery,
+  useToggleTaskMutation,
+} from "@/features/task/queries/task-query";
+import { ITask } from "@/features/task/types/task.types";
+
+function formatDueDate(dueDate: string) {
+  return new Date(`${dueDate}T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+  });
+}
+
+function isOverdue(task: ITask) {
+  if (!task.dueDate || task.isCompleted) return false;
+  return new Date(`${task.dueDate}T23:59:59`) < new Date();
+}
+
+export default function MyTasks() {
+  const { t } = useTranslation();
+  const [status, setStatus] = useState<"open" | "completed">("open");
+  const [page, setPage] = useState(1);
+  const {
+    data: tasks,
+    isLoading,
+    isError,
+  } = useMyTasksQuery({
+    completed: status === "completed",
+    page,
+  });
+  const toggleTaskMutation = useToggleTaskMutation();
+
+  return (
+    <Stack>
+      <SegmentedControl
+        size="xs"
+        style={{ alignSelf: "flex-start" }}
+        value={status}
+        onChange={(value) => {
+          setStatus(value as "open" | "completed");
+          setPage(1);
+        }}
+        data={[
+          { value: "open", label: t("Open") },
+          { value: "completed", label: t("Completed") },
+        ]}
+      />
+
+      {isLoading ? (
+        <PageListSkeleton />
+      ) : isError ? (
+        <Text>{t("Failed to fetch tasks")}</Text>
+      ) : tasks && tasks.items.length > 0 ? (
+        <Table.ScrollContainer minWidth={500}>
+          <Table highlightOnHover verticalSpacing="sm">
+            <Table.Tbody>
+              {tasks.items.map((task) => (
+                <Table.Tr key={task.id}>
+                  <Table.Td>
+                    <Group wrap="nowrap" align="flex-start">
+                      <Checkbox
+                        mt={2}
+                        checked={task.isCompleted}
+                        disabled={toggleTaskMutation.isPending}
+                        onChange={(event) =>
+                          toggleTaskMutation.mutate({
+                            pageId: task.pageId,
+                            taskId: task.taskId,
+                            completed: event.currentTarget.checked,
+                          })
+                        }
+                        aria-label={t("Mark task as done")}
+                      />
+                      <div>
+                        <Text size="sm" fw={500} lineClamp={2}>
+                          {task.text || t("Untitled task")}
+                        </Text>
+                        <Anchor
+                          component={Link}
+                          to={buildPageUrl(
+                            task.space?.slug,
+                            task.pageSlugId,
+                            task.pageTitle,
+                          )}
+                          size="xs"
+                          c="dimmed"
+                        >
+                          {task.pageIcon} {task.pageTitle || t("untitled")}
+                        </Anchor>
+                      </div>
+                    </Group>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge
+                      color="blue"
+                      variant="light"
+                      component={Link}
+                      to={getSpaceUrl(task.space?.slug)}
+                      style={{ cursor: "pointer" }}
+                    >
+                      {task.space?.name}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>
+                    {task.dueDate && (
+                      <Text
+                        size="xs"
+                        fw={500}
+                        c={isOverdue(task) ? "red" : "dimmed"}
+                        style={{ whiteSpace: "nowrap" }}
+                      >
+                        {formatDueDate(task.dueDate)}
+                      </Text>
+                    )}
+                  </Table.Td>
+                </Table.Tr>
+              ))}
+            </Table.Tbody>
+          </Table>
+        </Table.ScrollContainer>
+      ) : (
+        <Text size="md" ta="center">
+          {status === "open" ? t("No open tasks") : t("No completed tasks")}
+        </Text>
+      )}
+
+      {tasks && tasks.items.length > 0 && (
+        <Paginate
+          currentPage={page}
+          hasPrevPage={tasks.meta.hasPrevPage}
+          hasNextPage={tasks.meta.hasNextPage}
+          onPageChange={setPage}
+        />
+      )}
+    </Stack>
+  );
+}
@@ -0,0 +1,40 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { IPagination } from "@/lib/types.ts";
+import { getMyTasks, toggleTask } from "@/features/task/services/task-service";
+import {
+  IMyTasksParams,
+  ITask,
+  IToggleTask,
+} from "@/features/task/types/task.types";
+
+export function useMyTasksQuery(
+  params?: IMyTasksParams,
+): UseQueryResult<IPagination<ITask>, Error> {
+  return useQuery({
+    queryKey: ["my-tasks", params],
+    queryFn: () => getMyTasks(params),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useToggleTaskMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<void, Error, IToggleTask>({
+    mutationFn: (data) => toggleTask(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["my-tasks"] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,18 @@
+import api from "@/lib/api-client";
+import { IPagination } from "@/lib/types.ts";
+import {
+  IMyTasksParams,
+  ITask,
+  IToggleTask,
+} from "@/features/task/types/task.types";
+
+export async function getMyTasks(
+  params?: IMyTasksParams,
+): Promise<IPagination<ITask>> {
+  const req = await api.post("/tasks/my", params);
+  return req.data;
+}
+
+export async function toggleTask(data: IToggleTask): Promise<void> {
+  await api.post("/tasks/toggle", data);
+}
@@ -0,0 +1,28 @@
+import { ISpace } from "@/features/space/types/space.types.ts";
+
+export interface ITask {
+  id: string;
+  taskId: string;
+  text: string;
+  isCompleted: boolean;
+  dueDate: string | null;
+  pageId: string;
+  spaceId: string;
+  updatedAt: Date;
+  pageSlugId: string;
+  pageTitle: string;
+  pageIcon: string;
+  space: Partial<ISpace>;
+}
+
+export interface IMyTasksParams {
+  completed?: boolean;
+  page?: number;
+  limit?: number;
+}
+
+export interface IToggleTask {
+  pageId: string;
+  taskId: string;
+  completed: boolean;
+}
@@ -0,0 +1,90 @@
+import { useAtom } from "jotai";
+import { SimpleTree } from "react-arborist";
+import { useNavigate } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { notifications } from "@mantine/notifications";
+import { treeDataAtom } from "@/features/page/tree/atoms/tree-data-atom.ts";
+import { SpaceTreeNode } from "@/features/page/tree/types.ts";
+import { useQueryEmit } from "@/features/websocket/use-query-emit.ts";
+import { buildPageUrl } from "@/features/page/page.utils.ts";
+import { createPageFromTemplate } from "@/features/template/services/template-service.ts";
+import TemplatePickerModal from "./template-picker-modal.tsx";
+
+interface CreatePageFromTemplateModalProps {
+  spaceId: string;
+  spaceSlug: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function CreatePageFromTemplateModal({
+  spaceId,
+  spaceSlug,
+  opened,
+  onClose,
+}: CreatePageFromTemplateModalProps) {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const [data, setData] = useAtom(treeDataAtom);
+  const emit = useQueryEmit();
+
+  const handleSubmit = async (
+    templateId: string,
+    variables: Record<string, string>,
+  ) => {
+    try {
+      const createdPage = await createPageFromTemplate({
+        templateId,
+        spaceId,
+        variables,
+      });
+
+      const treeNodeData: SpaceTreeNode = {
+        id: createdPage.id,
+        slugId: createdPage.slugId,
+        name: createdPage.title,
+        position: createdPage.position,
+        spaceId: createdPage.spaceId,
+        parentPageId: createdPage.parentPageId,
+        icon: createdPage.icon,
+        hasChildren: false,
+        children: [],
+      };
+
+      // new pages are positioned after the last root page
+      const index = data.length;
+      const tree = new SimpleTree<SpaceTreeNode>(data);
+      tree.create({ parentId: null, index, data: treeNodeData });
+      setData(tree.data);
+
+      setTimeout(() => {
+        emit({
+          operation: "addTreeNode",
+          spaceId,
+          payload: { parentId: null, index, data: treeNodeData },
+        });
+      }, 50);
+
+      onClose();
+      navigate(buildPageUrl(spaceSlug, createdPage.slugId, createdPage.title));
+    } catch (err) {
+      notifications.show({
+        message:
+          err.response?.data.message ||
+          t("Failed to create page from template"),
+        color: "red",
+      });
+    }
+  };
+
+  return (
+    <TemplatePickerModal
+      spaceId={spaceId}
+      opened={opened}
+      onClose={onClose}
+      title={t("New page from template")}
+      submitLabel={t("Create page")}
+      onSubmit={handleSubmit}
+    />
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect } from "react";
+import { Editor } from "@tiptap/react";
+import { useDisclosure } from "@mantine/hooks";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import { usePageQuery } from "@/features/page/queries/page-query.ts";
+import { renderTemplate } from "@/features/template/services/template-service.ts";
+import TemplatePickerModal from "./template-picker-modal.tsx";
+
+interface InsertTemplateModalProps {
+  editor: Editor;
+  pageId: string;
+}
+
+export default function InsertTemplateModal({
+  editor,
+  pageId,
+}: InsertTemplateModalProps) {
+  const { t } = useTranslation();
+  const [opened, { open, close }] = useDisclosure(false);
+  const { data: page } = usePageQuery({ pageId });
+
+  useEffect(() => {
+    document.addEventListener("openTemplatePickerFromEditor", open);
+    return () => {
+      document.removeEventListener("openTemplatePickerFromEditor", open);
+    };
+  }, [open]);
+
+  const handleSubmit = async (
+    templateId: string,
+    variables: Record<string, string>,
+  ) => {
+    try {
+      const { content } = await renderTemplate({
+        templateId,
+        pageId,
+        variables,
+      });
+
+      close();
+      editor
+        .chain()
+        .focus()
+        .insertContent(content?.content ?? [])
+        .run();
+    } catch (err) {
+      notifications.show({
+        message: err.response?.data.message || t("Failed to insert template"),
+        color: "red",
+      });
+    }
+  };
+
+  if (!page) return null;
+
+  return (
+    <TemplatePickerModal
+      spaceId={page.spaceId}
+      opened={opened}
+      onClose={close}
+      title={t("Insert template")}
+      submitLabel={t("Insert")}
+      onSubmit={handleSubmit}
+    />
+  );
+}
@@ -0,0 +1,211 @@
+import {
+  Badge,
+  Button,
+  Group,
+  Loader,
+  Modal,
+  ScrollArea,
+  Stack,
+  Text,
+  TextInput,
+  UnstyledButton,
+} from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import { IconFileDescription, IconSearch } from "@tabler/icons-react";
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import {
+  useGetTemplatesQuery,
+  useTemplateInfoQuery,
+} from "@/features/template/queries/template-query.ts";
+import {
+  ITemplate,
+  TemplateScope,
+} from "@/features/template/types/template.types.ts";
+import classes from "./template.module.css";
+
+interface TemplatePickerModalProps {
+  spaceId: string;
+  opened: boolean;
+  onClose: () => void;
+  title: string;
+  submitLabel: string;
+  onSubmit: (
+    templateId: string,
+    variables: Record<string, string>,
+  ) => Promise<void>;
+}
+
+export default function TemplatePickerModal({
+  spaceId,
+  opened,
+  onClose,
+  title,
+  submitLabel,
+  onSubmit,
+}: TemplatePickerModalProps) {
+  const { t } = useTranslation();
+  const [search, setSearch] = useState("");
+  const [debouncedSearch] = useDebouncedValue(search, 300);
+  const [selectedTemplate, setSelectedTemplate] = useState<ITemplate>(null);
+  const [variables, setVariables] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const { data: templates, isLoading } = useGetTemplatesQuery(
+    { spaceId, query: debouncedSearch, limit: 100 },
+    opened,
+  );
+  const { data: templateInfo, isLoading: isInfoLoading } = useTemplateInfoQuery(
+    selectedTemplate?.id,
+  );
+
+  useEffect(() => {
+    if (!opened) {
+      setSearch("");
+      setSelectedTemplate(null);
+      setVariables({});
+    }
+  }, [opened]);
+
+  useEffect(() => {
+    setVariables({});
+  }, [selectedTemplate?.id]);
+
+  const handleSubmit = async () => {
+    if (!selectedTemplate) return;
+    setIsSubmitting(true);
+    try {
+      await onSubmit(selectedTemplate.id, variables);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal.Root
+      opened={opened}
+      onClose={onClose}
+      size={550}
+      padding="xl"
+      yOffset="10vh"
+      xOffset={0}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Modal.Overlay />
+      <Modal.Content style={{ overflow: "hidden" }}>
+        <Modal.Header py={0}>
+          <Modal.Title fw={500}>{title}</Modal.Title>
+          <Modal.CloseButton />
+        </Modal.Header>
+        <Modal.Body>
+          {!selectedTemplate ? (
+            <>
+              <TextInput
+                mt="sm"
+                leftSection={<IconSearch size={16} />}
+                placeholder={t("Search templates...")}
+                value={search}
+                onChange={(e) => setSearch(e.currentTarget.value)}
+                data-autofocus
+              />
+
+              <ScrollArea.Autosize mah={350} mt="sm">
+                {isLoading && (
+                  <Group justify="center" p="md">
+                    <Loader size="sm" />
+                  </Group>
+                )}
+
+                {!isLoading && templates?.items.length === 0 && (
+                  <Text c="dimmed" size="sm" ta="center" p="md">
+                    {t(
+                      'No templates found. Use "Save as template" in a page menu to create one.',
+                    )}
+                  </Text>
+                )}
+
+                {templates?.items.map((template) => (
+                  <UnstyledButton
+                    key={template.id}
+                    className={classes.templateItem}
+                    onClick={() => setSelectedTemplate(template)}
+                  >
+                    <Group wrap="nowrap" gap="sm">
+                      {template.icon ? (
+                        <span>{template.icon}</span>
+                      ) : (
+                        <IconFileDescription size={18} />
+                      )}
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <Text size="sm" fw={500} truncate="end">
+                          {template.title || t("Untitled")}
+                        </Text>
+                        {template.description && (
+                          <Text size="xs" c="dimmed" lineClamp={2}>
+                            {template.description}
+                          </Text>
+                        )}
+                      </div>
+                      <Badge variant="light" size="sm" color="gray">
+                        {template.scope === TemplateScope.WORKSPACE
+                          ? t("Workspace")
+                          : template.space?.name}
+                      </Badge>
+                    </Group>
+                  </UnstyledButton>
+                ))}
+              </ScrollArea.Autosize>
+            </>
+          ) : (
+            <Stack gap="sm" mt="sm">
+              <Text fw={500}>{selectedTemplate.title || t("Untitled")}</Text>
+
+              {isInfoLoading && <Loader size="sm" />}
+
+              {templateInfo?.variables.length > 0 ? (
+                <>
+                  <Text size="sm" c="dimmed">
+                    {t("Fill in the template variables.")}
+                  </Text>
+                  {templateInfo.variables.map((name) => (
+                    <TextInput
+                      key={name}
+                      label={name}
+                      value={variables[name] ?? ""}
+                      onChange={(e) => {
+                        const value = e.currentTarget.value;
+                        setVariables((prev) => ({ ...prev, [name]: value }));
+                      }}
+                    />
+                  ))}
+                </>
+              ) : (
+                !isInfoLoading && (
+                  <Text size="sm" c="dimmed">
+                    {t("This template has no variables to fill in.")}
+                  </Text>
+                )
+              )}
+
+              <Group justify="end" mt="md">
+                <Button
+                  variant="default"
+                  onClick={() => setSelectedTemplate(null)}
+                >
+                  {t("Back")}
+                </Button>
+                <Button
+                  onClick={handleSubmit}
+                  loading={isSubmitting}
+                  disabled={isInfoLoading}
+                >
+                  {submitLabel}
+                </Button>
+              </Group>
+            </Stack>
+          )}
+        </Modal.Body>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
@@ -0,0 +1,173 @@
+import {
+  Button,
+  Code,
+  Group,
+  Modal,
+  Select,
+  Text,
+  Textarea,
+} from "@mantine/core";
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import useUserRole from "@/hooks/use-user-role.tsx";
+import {
+  useCreateTemplateMutation,
+  useDeleteTemplateMutation,
+  useTemplateForPageQuery,
+  useUpdateTemplateMutation,
+} from "@/features/template/queries/template-query.ts";
+import { TemplateScope } from "@/features/template/types/template.types.ts";
+
+const BUILT_IN_VARIABLES = ["date", "time", "datetime", "author", "space"];
+
+interface TemplateSettingsModalProps {
+  pageId: string;
+  open: boolean;
+  onClose: () => void;
+}
+
+export default function TemplateSettingsModal({
+  pageId,
+  open,
+  onClose,
+}: TemplateSettingsModalProps) {
+  const { t } = useTranslation();
+  const { isAdmin } = useUserRole();
+  const { data: template, isLoading } = useTemplateForPageQuery(pageId, open);
+  const createTemplateMutation = useCreateTemplateMutation();
+  const updateTemplateMutation = useUpdateTemplateMutation();
+  const deleteTemplateMutation = useDeleteTemplateMutation();
+  const [scope, setScope] = useState<TemplateScope>(TemplateScope.SPACE);
+  const [description, setDescription] = useState("");
+
+  useEffect(() => {
+    setScope(template?.scope ?? TemplateScope.SPACE);
+    setDescription(template?.description ?? "");
+  }, [template, open]);
+
+  const handleSave = async () => {
+    if (template) {
+      await updateTemplateMutation.mutateAsync({
+        templateId: template.id,
+        scope,
+        description,
+      });
+    } else {
+      await createTemplateMutation.mutateAsync({
+        pageId,
+        scope,
+        description,
+      });
+    }
+    onClose();
+  };
+
+  const handleRemove = async () => {
+    await deleteTemplateMutation.mutateAsync(template.id);
+    onClose();
+  };
+
+  const canChangeScope = isAdmin || template?.scope !== TemplateScope.WORKSPACE;
+
+  return (
+    <Modal.Root
+      opened={open}
+      onClose={onClose}
+      size={500}
+      padding="xl"
+      yOffset="10vh"
+      xOffset={0}
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Modal.Overlay />
+      <Modal.Content style={{ overflow: "hidden" }}>
+        <Modal.Header py={0}>
+          <Modal.Title fw={500}>
+            {template ? t("Template settings") : t("Save as template")}
+          </Modal.Title>
+          <Modal.CloseButton />
+        </Modal.Header>
+        <Modal.Body>
+          <Text c="dimmed" size="sm">
+            {t("Placeholders are filled in when the template is used:")}
+          </Text>
+          <Group gap={6} my="xs">
+            {BUILT_IN_VARIABLES.map((name) => (
+              <Code key={name}>{`{{${name}}}`}</Code>
+            ))}
+          </Group>
+          <Text mb="md" c="dimmed" size="sm">
+            {t(
+              "Any other placeholder in double curly braces is asked for when the template is used.",
+            )}
+          </Text>
+
+          <Select
+            label={t("Available in")}
+            description={
+              scope === TemplateScope.WORKSPACE
+                ? t(
+                    "Everyone in the workspace can use the version saved here. Save again to publish later changes.",
+                  )
+                : t("Only people who can view this page can use it.")
+            }
+            value={scope}
+            onChange={(value) => setScope(value as TemplateScope)}
+            allowDeselect={false}
+            disabled={isLoading || !canChangeScope}
+            data={[
+              { value: TemplateScope.SPACE, label: t("This space") },
+              {
+                value: TemplateScope.WORKSPACE,
+                label: t("Entire workspace"),
+                disabled: !isAdmin,
+              },
+            ]}
+          />
+
+          <Textarea
+            mt="sm"
+            label={t("Description")}
+            value={description}
+            onChange={(e) => setDescription(e.currentTarget.value)}
+            maxLength={500}
+            autosize
+            minRows={2}
+            maxRows={4}
+          />
+
+          <Group justify="space-between" mt="xl">
+            <div>
+              {template && (
+                <Button
+                  variant="subtle"
+                  color="red"
+                  onClick={handleRemove}
+                  loading={deleteTemplateMutation.isPending}
+                  disabled={!canChangeScope}
+                >
+                  {t("Remove template")}
+                </Button>
+              )}
+            </div>
+            <Group>
+              <Button onClick={onClose} variant="default">
+                {t("Cancel")}
+              </Button>
+              <Button
+                onClick={handleSave}
+                disabled={isLoading || !canChangeScope}
+                loading={
+                  createTemplateMutation.isPending ||
+                  updateTemplateMutation.isPending
+                }
+              >
+                {t("Save")}
+              </Button>
+            </Group>
+          </Group>
+        </Modal.Body>
+      </Modal.Content>
+    </Modal.Root>
+  );
+}
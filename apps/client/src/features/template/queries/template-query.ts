@@ -0,0 +1,131 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  ICreateTemplate,
+  ITemplate,
+  ITemplateInfo,
+  ITemplateListParams,
+  IUpdateTemplate,
+} from "@/features/template/types/template.types.ts";
+import {
+  createTemplate,
+  deleteTemplate,
+  getTemplateForPage,
+  getTemplateInfo,
+  getTemplates,
+  updateTemplate,
+} from "@/features/template/services/template-service.ts";
+import { IPagination } from "@/lib/types.ts";
+
+export function useGetTemplatesQuery(
+  params?: ITemplateListParams,
+  enabled: boolean = true,
+): UseQueryResult<IPagination<ITemplate>, Error> {
+  return useQuery({
+    queryKey: ["template-list", params],
+    queryFn: () => getTemplates(params),
+    placeholderData: keepPreviousData,
+    enabled,
+  });
+}
+
+export function useTemplateInfoQuery(
+  templateId: string,
+): UseQueryResult<ITemplateInfo, Error> {
+  return useQuery({
+    queryKey: ["template-info", templateId],
+    queryFn: () => getTemplateInfo(templateId),
+    enabled: !!templateId,
+    staleTime: 0,
+  });
+}
+
+export function useTemplateForPageQuery(
+  pageId: string,
+  enabled: boolean = true,
+): UseQueryResult<ITemplate, Error> {
+  return useQuery({
+    queryKey: ["template-for-page", pageId],
+    queryFn: () => getTemplateForPage(pageId),
+    enabled: !!pageId && enabled,
+    retry: false,
+  });
+}
+
+function invalidateTemplateQueries(
+  queryClient: ReturnType<typeof useQueryClient>,
+) {
+  queryClient.invalidateQueries({
+    predicate: (item) =>
+      ["template-list", "template-for-page", "template-info"].includes(
+        item.queryKey[0] as string,
+      ),
+  });
+}
+
+export function useCreateTemplateMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<ITemplate, Error, ICreateTemplate>({
+    mutationFn: (data) => createTemplate(data),
+    onSuccess: () => {
+      invalidateTemplateQueries(queryClient);
+      notifications.show({ message: t("Page saved as template") });
+    },
+    onError: (error) => {
+      notifications.show({
+        message:
+          error?.["response"]?.data?.message || t("Failed to save template"),
+        color: "red",
+      });
+    },
+  });
+}
+
+export function useUpdateTemplateMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<ITemplate, Error, IUpdateTemplate>({
+    mutationFn: (data) => updateTemplate(data),
+    onSuccess: () => {
+      invalidateTemplateQueries(queryClient);
+      notifications.show({ message: t("Template updated") });
+    },
+    onError: (error) => {
+      notifications.show({
+        message:
+          error?.["response"]?.data?.message || t("Failed to save template"),
+        color: "red",
+      });
+    },
+  });
+}
+
+export function useDeleteTemplateMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (templateId: string) => deleteTemplate(templateId),
+    onSuccess: () => {
+      invalidateTemplateQueries(queryClient);
+      notifications.show({ message: t("Template removed") });
+    },
+    onError: (error) => {
+      notifications.show({
+        message:
+          error?.["response"]?.data?.message || t("Failed to remove template"),
+        color: "red",
+      });
+    },
+  });
+}
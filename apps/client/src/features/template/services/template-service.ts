@@ -0,0 +1,67 @@
+import api from "@/lib/api-client";
+import { IPage } from "@/features/page/types/page.types";
+import {
+  ICreateTemplate,
+  IRenderTemplate,
+  ITemplate,
+  ITemplateInfo,
+  ITemplateListParams,
+  IUpdateTemplate,
+  IUseTemplate,
+} from "@/features/template/types/template.types.ts";
+import { IPagination } from "@/lib/types.ts";
+import { JSONContent } from "@tiptap/core";
+
+export async function getTemplates(
+  params?: ITemplateListParams,
+): Promise<IPagination<ITemplate>> {
+  const req = await api.post("/templates", params);
+  return req.data;
+}
+
+export async function getTemplateInfo(
+  templateId: string,
+): Promise<ITemplateInfo> {
+  const req = await api.post<ITemplateInfo>("/templates/info", { templateId });
+  return req.data;
+}
+
+export async function getTemplateForPage(pageId: string): Promise<ITemplate> {
+  const req = await api.post<ITemplate>("/templates/for-page", { pageId });
+  return req.data;
+}
+
+export async function createTemplate(
+  data: ICreateTemplate,
+): Promise<ITemplate> {
+  const req = await api.post<ITemplate>("/templates/create", data);
+  return req.data;
+}
+
+export async function updateTemplate(
+  data: IUpdateTemplate,
+): Promise<ITemplate> {
+  const req = await api.post<ITemplate>("/templates/update", data);
+  return req.data;
+}
+
+export async function deleteTemplate(templateId: string): Promise<void> {
+  await api.post("/templates/delete", { templateId });
+}
+
+export async function createPageFromTemplate(
+  data: IUseTemplate,
+): Promise<IPage> {
+  const req = await api.post<IPage>("/templates/use", data);
+  return req.data;
+}
+
+export async function renderTemplate(
+  data: IRenderTemplate,
+): Promise<{ content: JSONContent }> {
+  const req = await api.post<{ content: JSONContent }>(
+    "/templates/render",
+    data,
+  );
+  return req.data;
+}
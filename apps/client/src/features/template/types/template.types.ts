@@ -0,0 +1,68 @@
+export enum TemplateScope {
+  SPACE = "space",
+  WORKSPACE = "workspace",
+}
+
+export interface ITemplate {
+  id: string;
+  pageId: string;
+  scope: TemplateScope;
+  description: string | null;
+  creatorId: string;
+  workspaceId: string;
+  // when the workspace-wide copy was last published
+  publishedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  title: string | null;
+  icon: string | null;
+  slugId: string;
+  spaceId: string;
+  space?: {
+    id: string;
+    name: string;
+    slug: string;
+  };
+  creator?: {
+    id: string;
+    name: string;
+    avatarUrl: string;
+  };
+}
+
+export interface ITemplateInfo extends ITemplate {
+  // custom variables prompted for when the template is used
+  variables: string[];
+}
+
+export interface ITemplateListParams {
+  spaceId?: string;
+  query?: string;
+  page?: number;
+  limit?: number;
+}
+
+export interface ICreateTemplate {
+  pageId: string;
+  scope?: TemplateScope;
+  description?: string;
+}
+
+export interface IUpdateTemplate {
+  templateId: string;
+  scope?: TemplateScope;
+  description?: string;
+}
+
+export interface IUseTemplate {
+  templateId: string;
+  spaceId: string;
+  parentPageId?: string;
+  variables?: Record<string, string>;
+}
+
+export interface IRenderTemplate {
+  templateId: string;
+  pageId: string;
+  variables?: Record<string, string>;
+}
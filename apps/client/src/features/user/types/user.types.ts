@@ -1,4 +1,5 @@
 import { IWorkspace } from "@/features/workspace/types/workspace.types";
+import { INotificationSettings } from "@/features/notification/types/notification.types";
 
 export interface IUser {
   id: string;
@@ -33,6 +34,7 @@ export interface IUserSettings {
     fullPageWidth: boolean;
     pageEditMode: string;
   };
+  notifications?: INotificationSettings;
 }
 
 export enum PageEditMode {
@@ -0,0 +1,93 @@
+import { ActionIcon, Menu, Tooltip } from "@mantine/core";
+import { IconEye, IconEyeOff, IconSitemap } from "@tabler/icons-react";
+import { useTranslation } from "react-i18next";
+import {
+  usePageWatchStatusQuery,
+  useUnwatchPageMutation,
+  useWatchPageMutation,
+} from "@/features/watcher/queries/watcher-query";
+import {
+  IPageWatchStatus,
+  WatchSource,
+} from "@/features/watcher/types/watcher.types";
+
+interface PageWatchMenuProps {
+  pageId: string;
+}
+
+export default function PageWatchMenu({ pageId }: PageWatchMenuProps) {
+  const { t } = useTranslation();
+  const { data: status } = usePageWatchStatusQuery(pageId);
+  const watchPageMutation = useWatchPageMutation();
+  const unwatchPageMutation = useUnwatchPageMutation();
+
+  const getStatusLabel = (status?: IPageWatchStatus) => {
+    switch (status?.source) {
+      case WatchSource.PAGE:
+        return status.includeChildren
+          ? t("Watching this page and its sub-pages")
+          : t("Watching this page");
+      case WatchSource.PARENT:
+        return t("Watching through a parent page");
+      case WatchSource.SPACE:
+        return t("Watching through the space");
+      case WatchSource.AUTO:
+        return t("Watching as a contributor");
+      default:
+        return t("Not watching");
+    }
+  };
+
+  return (
+    <Menu shadow="md" position="bottom-end" width={250} withArrow>
+      <Menu.Target>
+        <Tooltip label={getStatusLabel(status)} openDelay={250} withArrow>
+          <ActionIcon
+            variant="default"
+            style={{ border: "none" }}
+            aria-label={t("Watch")}
+          >
+            {status?.watching ? (
+              <IconEye size={20} stroke={2} />
+            ) : (
+              <IconEyeOff size={20} stroke={2} />
+            )}
+          </ActionIcon>
+        </Tooltip>
+      </Menu.Target>
+
+      <Menu.Dropdown>
+        <Menu.Label>{getStatusLabel(status)}</Menu.Label>
+
+        {!(status?.source === WatchSource.PAGE && !status.includeChildren) && (
+          <Menu.Item
+            leftSection={<IconEye size={16} />}
+            onClick={() => watchPageMutation.mutate({ pageId })}
+          >
+            {t("Watch this page")}
+          </Menu.Item>
+        )}
+
+        {!(status?.source === WatchSource.PAGE && status.includeChildren) && (
+          <Menu.Item
+            leftSection={<IconSitemap size={16} />}
+            onClick={() =>
+              watchPageMutation.mutate({ pageId, includeChildren: true })
+            }
+          >
+            {t("Watch page and sub-pages")}
+          </Menu.Item>
+        )}
+
+        {status?.watching && (
+          <Menu.Item
+            leftSection={<IconEyeOff size={16} />}
+            onClick={() => unwatchPageMutation.mutate(pageId)}
+          >
+            {t("Stop watching")}
+          </Menu.Item>
+        )}
+      </Menu.Dropdown>
+    </Menu>
+  );
+}
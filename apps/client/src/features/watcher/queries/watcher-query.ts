@@ -0,0 +1,103 @@
+import {
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import {
+  getPageWatchStatus,
+  getSpaceWatchStatus,
+  unwatchPage,
+  unwatchSpace,
+  watchPage,
+  watchSpace,
+} from "@/features/watcher/services/watcher-service";
+import {
+  IPageWatchStatus,
+  ISpaceWatchStatus,
+  IWatchPage,
+} from "@/features/watcher/types/watcher.types";
+
+export function usePageWatchStatusQuery(
+  pageId: string,
+): UseQueryResult<IPageWatchStatus, Error> {
+  return useQuery({
+    queryKey: ["page-watch-status", pageId],
+    queryFn: () => getPageWatchStatus(pageId),
+    enabled: !!pageId,
+  });
+}
+
+export function useWatchPageMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<IPageWatchStatus, Error, IWatchPage>({
+    mutationFn: (data) => watchPage(data),
+    onSuccess: (data, variables) => {
+      queryClient.setQueryData(["page-watch-status", variables.pageId], data);
+      notifications.show({ message: t("You are now watching this page") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useUnwatchPageMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<IPageWatchStatus, Error, string>({
+    mutationFn: (pageId) => unwatchPage(pageId),
+    onSuccess: (data, pageId) => {
+      queryClient.setQueryData(["page-watch-status", pageId], data);
+      notifications.show({ message: t("You stopped watching this page") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useSpaceWatchStatusQuery(
+  spaceId: string,
+): UseQueryResult<ISpaceWatchStatus, Error> {
+  return useQuery({
+    queryKey: ["space-watch-status", spaceId],
+    queryFn: () => getSpaceWatchStatus(spaceId),
+    enabled: !!spaceId,
+  });
+}
+
+export function useToggleSpaceWatchMutation() {
+  const queryClient = useQueryClient();
+  const { t } = useTranslation();
+
+  return useMutation<
+    ISpaceWatchStatus,
+    Error,
+    { spaceId: string; watch: boolean }
+  >({
+    mutationFn: ({ spaceId, watch }) =>
+      watch ? watchSpace(spaceId) : unwatchSpace(spaceId),
+    onSuccess: (data, { spaceId }) => {
+      queryClient.setQueryData(["space-watch-status", spaceId], data);
+      // page watch status can come from the space
+      queryClient.invalidateQueries({ queryKey: ["page-watch-status"] });
+      notifications.show({
+        message: data.watching
+          ? t("You are now watching this space")
+          : t("You stopped watching this space"),
+      });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,52 @@
+import api from "@/lib/api-client";
+import {
+  IPageWatchStatus,
+  ISpaceWatchStatus,
+  IWatchPage,
+} from "@/features/watcher/types/watcher.types";
+
+export async function getPageWatchStatus(
+  pageId: string,
+): Promise<IPageWatchStatus> {
+  const req = await api.post<IPageWatchStatus>("/watchers/page/status", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function watchPage(data: IWatchPage): Promise<IPageWatchStatus> {
+  const req = await api.post<IPageWatchStatus>("/watchers/page/watch", data);
+  return req.data;
+}
+
+export async function unwatchPage(pageId: string): Promise<IPageWatchStatus> {
+  const req = await api.post<IPageWatchStatus>("/watchers/page/unwatch", {
+    pageId,
+  });
+  return req.data;
+}
+
+export async function getSpaceWatchStatus(
+  spaceId: string,
+): Promise<ISpaceWatchStatus> {
+  const req = await api.post<ISpaceWatchStatus>("/watchers/space/status", {
+    spaceId,
+  });
+  return req.data;
+}
+
+export async function watchSpace(spaceId: string): Promise<ISpaceWatchStatus> {
+  const req = await api.post<ISpaceWatchStatus>("/watchers/space/watch", {
+    spaceId,
+  });
+  return req.data;
+}
+
+export async function unwatchSpace(
+  spaceId: string,
+): Promise<ISpaceWatchStatus> {
+  const req = await api.post<ISpaceWatchStatus>("/watchers/space/unwatch", {
+    spaceId,
+  });
+  return req.data;
+}
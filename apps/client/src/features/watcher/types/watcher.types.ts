@@ -0,0 +1,21 @@
+export enum WatchSource {
+  PAGE = "page",
+  PARENT = "parent",
+  SPACE = "space",
+  AUTO = "auto",
+}
+
+export interface IPageWatchStatus {
+  watching: boolean;
+  source: WatchSource | null;
+  includeChildren: boolean;
+}
+
+export interface ISpaceWatchStatus {
+  watching: boolean;
+}
+
+export interface IWatchPage {
+  pageId: string;
+  includeChildren?: boolean;
+}
@@ -0,0 +1,61 @@
+import { Button, Divider, Modal, Stack } from "@mantine/core";
+import { useDisclosure } from "@mantine/hooks";
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+import { WebhookForm } from "@/features/webhook/components/webhook-form.tsx";
+import { WebhookSecret } from "@/features/webhook/components/webhook-secret.tsx";
+import { useCreateWebhookMutation } from "@/features/webhook/queries/webhook-query.ts";
+import {
+  ICreateWebhook,
+  IWebhook,
+} from "@/features/webhook/types/webhook.types.ts";
+
+export default function CreateWebhookModal() {
+  const { t } = useTranslation();
+  const [opened, { open, close }] = useDisclosure(false);
+  const [createdWebhook, setCreatedWebhook] = useState<IWebhook>(null);
+  const createWebhookMutation = useCreateWebhookMutation();
+
+  const handleSubmit = async (data: ICreateWebhook) => {
+    const webhook = await createWebhookMutation.mutateAsync(data);
+    setCreatedWebhook(webhook);
+  };
+
+  const handleClose = () => {
+    setCreatedWebhook(null);
+    close();
+  };
+
+  return (
+    <>
+      <Button onClick={open}>{t("Add webhook")}</Button>
+
+      <Modal
+        opened={opened}
+        onClose={handleClose}
+        title={createdWebhook ? t("Webhook created") : t("Add webhook")}
+        size="lg"
+      >
+        <Divider size="xs" mb="xs" />
+        {createdWebhook ? (
+          <Stack>
+            <WebhookSecret
+              webhookId={createdWebhook.id}
+              secret={createdWebhook.secret}
+              allowRotate={false}
+            />
+            <Button fullWidth onClick={handleClose}>
+              {t("Done")}
+            </Button>
+          </Stack>
+        ) : (
+          <WebhookForm
+            submitLabel={t("Create")}
+            isLoading={createWebhookMutation.isPending}
+            onSubmit={handleSubmit}
+          />
+        )}
+      </Modal>
+    </>
+  );
+}
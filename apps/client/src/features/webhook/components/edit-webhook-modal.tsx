@@ -0,0 +1,58 @@
+import { Divider, Modal, Stack } from "@mantine/core";
+import { useTranslation } from "react-i18next";
+import { WebhookForm } from "@/features/webhook/components/webhook-form.tsx";
+import { WebhookSecret } from "@/features/webhook/components/webhook-secret.tsx";
+import {
+  useUpdateWebhookMutation,
+  useWebhookQuery,
+} from "@/features/webhook/queries/webhook-query.ts";
+import { ICreateWebhook } from "@/features/webhook/types/webhook.types.ts";
+
+interface EditWebhookModalProps {
+  webhookId: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function EditWebhookModal({
+  webhookId,
+  opened,
+  onClose,
+}: EditWebhookModalProps) {
+  const { t } = useTranslation();
+  const { data: webhook } = useWebhookQuery(opened ? webhookId : null);
+  const updateWebhookMutation = useUpdateWebhookMutation();
+
+  const handleSubmit = async (data: ICreateWebhook) => {
+    await updateWebhookMutation.mutateAsync({ webhookId, ...data });
+    onClose();
+  };
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={t("Edit webhook")}
+      size="lg"
+    >
+      <Divider size="xs" mb="xs" />
+      {webhook && (
+        <Stack>
+          <WebhookForm
+            initialValues={{
+              name: webhook.name ?? "",
+              url: webhook.url,
+              events: webhook.events,
+              isEnabled: webhook.isEnabled,
+            }}
+            submitLabel={t("Save")}
+            isLoading={updateWebhookMutation.isPending}
+            onSubmit={handleSubmit}
+          />
+          <Divider />
+          <WebhookSecret webhookId={webhook.id} secret={webhook.secret} />
+        </Stack>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,107 @@
+import { ActionIcon, Menu, Text } from "@mantine/core";
+import {
+  IconDots,
+  IconEdit,
+  IconList,
+  IconSend,
+  IconTrash,
+} from "@tabler/icons-react";
+import { useDisclosure } from "@mantine/hooks";
+import { modals } from "@mantine/modals";
+import { useTranslation } from "react-i18next";
+import EditWebhookModal from "@/features/webhook/components/edit-webhook-modal.tsx";
+import WebhookDeliveriesModal from "@/features/webhook/components/webhook-deliveries-modal.tsx";
+import {
+  useDeleteWebhookMutation,
+  useTestWebhookMutation,
+} from "@/features/webhook/queries/webhook-query.ts";
+import { IWebhook } from "@/features/webhook/types/webhook.types.ts";
+
+interface WebhookActionMenuProps {
+  webhook: IWebhook;
+}
+
+export default function WebhookActionMenu({ webhook }: WebhookActionMenuProps) {
+  const { t } = useTranslation();
+  const [editOpened, { open: openEdit, close: closeEdit }] =
+    useDisclosure(false);
+  const [deliveriesOpened, { open: openDeliveries, close: closeDeliveries }] =
+    useDisclosure(false);
+  const deleteWebhookMutation = useDeleteWebhookMutation();
+  const testWebhookMutation = useTestWebhookMutation();
+
+  const openDeleteModal = () =>
+    modals.openConfirmModal({
+      title: t("Delete webhook"),
+      children: (
+        <Text size="sm">
+          {t(
+            "Are you sure you want to delete this webhook? Its delivery history will be removed.",
+          )}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Delete"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: () => deleteWebhookMutation.mutate(webhook.id),
+    });
+
+  return (
+    <>
+      <Menu
+        shadow="xl"
+        position="bottom-end"
+        offset={20}
+        width={200}
+        withArrow
+        arrowPosition="center"
+      >
+        <Menu.Target>
+          <ActionIcon variant="subtle" c="gray">
+            <IconDots size={20} stroke={2} />
+          </ActionIcon>
+        </Menu.Target>
+
+        <Menu.Dropdown>
+          <Menu.Item
+            onClick={openEdit}
+            leftSection={<IconEdit size={16} stroke={2} />}
+          >
+            {t("Edit webhook")}
+          </Menu.Item>
+          <Menu.Item
+            onClick={openDeliveries}
+            leftSection={<IconList size={16} stroke={2} />}
+          >
+            {t("Recent deliveries")}
+          </Menu.Item>
+          <Menu.Item
+            onClick={() => testWebhookMutation.mutate(webhook.id)}
+            leftSection={<IconSend size={16} stroke={2} />}
+          >
+            {t("Send test event")}
+          </Menu.Item>
+          <Menu.Divider />
+          <Menu.Item
+            c="red"
+            onClick={openDeleteModal}
+            leftSection={<IconTrash size={16} stroke={2} />}
+          >
+            {t("Delete webhook")}
+          </Menu.Item>
+        </Menu.Dropdown>
+      </Menu>
+
+      <EditWebhookModal
+        webhookId={webhook.id}
+        opened={editOpened}
+        onClose={closeEdit}
+      />
+      <WebhookDeliveriesModal
+        webhookId={webhook.id}
+        opened={deliveriesOpened}
+        onClose={closeDeliveries}
+      />
+    </>
+  );
+}
@@ -0,0 +1,162 @@
+import {
+  Badge,
+  Code,
+  Collapse,
+  Divider,
+  Group,
+  Modal,
+  Stack,
+  Table,
+  Text,
+  UnstyledButton,
+} from "@mantine/core";
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { useTranslation } from "react-i18next";
+import Paginate from "@/components/common/paginate.tsx";
+import NoTableResults from "@/components/common/no-table-results.tsx";
+import { useWebhookDeliveriesQuery } from "@/features/webhook/queries/webhook-query.ts";
+import {
+  IWebhookDelivery,
+  WebhookDeliveryStatus,
+} from "@/features/webhook/types/webhook.types.ts";
+
+const statusColors: Record<WebhookDeliveryStatus, string> = {
+  pending: "gray",
+  success: "green",
+  retrying: "yellow",
+  failed: "red",
+};
+
+interface WebhookDeliveriesModalProps {
+  webhookId: string;
+  opened: boolean;
+  onClose: () => void;
+}
+
+export default function WebhookDeliveriesModal({
+  webhookId,
+  opened,
+  onClose,
+}: WebhookDeliveriesModalProps) {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+  const [expandedId, setExpandedId] = useState<string>(null);
+  const { data } = useWebhookDeliveriesQuery(opened ? webhookId : null, {
+    page,
+  });
+
+  return (
+    <Modal
+      opened={opened}
+      onClose={onClose}
+      title={t("Recent deliveries")}
+      size="xl"
+    >
+      <Divider size="xs" mb="xs" />
+      <Table.ScrollContainer minWidth={500}>
+        <Table verticalSpacing="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Event")}</Table.Th>
+              <Table.Th>{t("Status")}</Table.Th>
+              <Table.Th>{t("Response")}</Table.Th>
+              <Table.Th>{t("Attempts")}</Table.Th>
+              <Table.Th>{t("Date")}</Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+
+          <Table.Tbody>
+            {data?.items.length > 0 ? (
+              data.items.map((delivery: IWebhookDelivery) => (
+                <React.Fragment key={delivery.id}>
+                  <Table.Tr>
+                    <Table.Td>
+                      <UnstyledButton
+                        onClick={() =>
+                          setExpandedId(
+                            expandedId === delivery.id ? null : delivery.id,
+                          )
+                        }
+                      >
+                        <Text fz="sm" fw={500}>
+                          {delivery.event}
+                        </Text>
+                      </UnstyledButton>
+                    </Table.Td>
+                    <Table.Td>
+                      <Badge
+                        variant="light"
+                        color={statusColors[delivery.status]}
+                      >
+                        {t(delivery.status)}
+                      </Badge>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text fz="sm">
+                        {delivery.responseStatus ?? "-"}
+                        {delivery.durationMs !== null &&
+                          ` · ${delivery.durationMs} ms`}
+                      </Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text fz="sm">{delivery.attempts}</Text>
+                    </Table.Td>
+                    <Table.Td>
+                      <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                        {format(
+                          new Date(delivery.createdAt),
+                          "MMM dd, yyyy HH:mm",
+                        )}
+                      </Text>
+                    </Table.Td>
+                  </Table.Tr>
+                  <Table.Tr>
+                    <Table.Td colSpan={5} p={0} style={{ border: 0 }}>
+                      <Collapse in={expandedId === delivery.id}>
+                        <Stack gap="xs" p="sm">
+                          {delivery.errorMessage && (
+                            <Text fz="sm" c="red">
+                              {delivery.errorMessage}
+                            </Text>
+                          )}
+                          <Text fz="xs" fw={500}>
+                            {t("Payload")}
+                          </Text>
+                          <Code block>
+                            {JSON.stringify(delivery.payload, null, 2)}
+                          </Code>
+                          {delivery.responseBody && (
+                            <>
+                              <Text fz="xs" fw={500}>
+                                {t("Response body")}
+                              </Text>
+                              <Code block>{delivery.responseBody}</Code>
+                            </>
+                          )}
+                        </Stack>
+                      </Collapse>
+                    </Table.Td>
+                  </Table.Tr>
+                </React.Fragment>
+              ))
+            ) : (
+              <NoTableResults colSpan={5} text={t("No deliveries yet")} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      {data?.items.length > 0 && (
+        <Group justify="flex-end">
+          <Paginate
+            currentPage={page}
+            hasPrevPage={data?.meta.hasPrevPage}
+            hasNextPage={data?.meta.hasNextPage}
+            onPageChange={setPage}
+          />
+        </Group>
+      )}
+    </Modal>
+  );
+}
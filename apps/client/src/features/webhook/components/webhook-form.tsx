@@ -0,0 +1,102 @@
+import {
+  Box,
+  Button,
+  Checkbox,
+  Group,
+  SimpleGrid,
+  Stack,
+  Switch,
+  TextInput,
+} from "@mantine/core";
+import { useForm } from "@mantine/form";
+import * as z from "zod";
+import { zodResolver } from "mantine-form-zod-resolver";
+import { useTranslation } from "react-i18next";
+import {
+  ICreateWebhook,
+  WEBHOOK_EVENTS,
+} from "@/features/webhook/types/webhook.types.ts";
+
+const formSchema = z.object({
+  name: z.string().trim().max(100),
+  url: z.string().trim().url(),
+  events: z.array(z.string()).min(1),
+  isEnabled: z.boolean(),
+});
+
+type FormValues = z.infer<typeof formSchema>;
+
+interface WebhookFormProps {
+  initialValues?: Partial<FormValues>;
+  submitLabel: string;
+  isLoading?: boolean;
+  onSubmit: (data: ICreateWebhook) => void;
+}
+
+export function WebhookForm({
+  initialValues,
+  submitLabel,
+  isLoading,
+  onSubmit,
+}: WebhookFormProps) {
+  const { t } = useTranslation();
+
+  const form = useForm<FormValues>({
+    validate: zodResolver(formSchema),
+    initialValues: {
+      name: "",
+      url: "",
+      events: [],
+      isEnabled: true,
+      ...initialValues,
+    },
+  });
+
+  return (
+    <Box maw="500" mx="auto">
+      <form
+        onSubmit={form.onSubmit((values) => onSubmit(values as ICreateWebhook))}
+      >
+        <Stack>
+          <TextInput
+            label={t("Name")}
+            placeholder={t("e.g Internal tooling")}
+            variant="filled"
+            {...form.getInputProps("name")}
+          />
+
+          <TextInput
+            withAsterisk
+            label={t("Payload URL")}
+            placeholder="https://example.com/webhooks/docmost"
+            variant="filled"
+            {...form.getInputProps("url")}
+          />
+
+          <Checkbox.Group
+            withAsterisk
+            label={t("Events")}
+            {...form.getInputProps("events")}
+          >
+            <SimpleGrid cols={2} mt="xs">
+              {WEBHOOK_EVENTS.map((event) => (
+                <Checkbox key={event} value={event} label={event} />
+              ))}
+            </SimpleGrid>
+          </Checkbox.Group>
+
+          <Switch
+            label={t("Active")}
+            {...form.getInputProps("isEnabled", { type: "checkbox" })}
+          />
+        </Stack>
+
+        <Group justify="flex-end" mt="md">
+          <Button type="submit" loading={isLoading}>
+            {submitLabel}
+          </Button>
+        </Group>
+      </form>
+    </Box>
+  );
+}
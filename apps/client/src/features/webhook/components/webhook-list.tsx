@@ -0,0 +1,84 @@
+import { Badge, Group, Table, Text } from "@mantine/core";
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { useTranslation } from "react-i18next";
+import Paginate from "@/components/common/paginate.tsx";
+import NoTableResults from "@/components/common/no-table-results.tsx";
+import { useGetWebhooksQuery } from "@/features/webhook/queries/webhook-query.ts";
+import { IWebhook } from "@/features/webhook/types/webhook.types.ts";
+import WebhookActionMenu from "@/features/webhook/components/webhook-action-menu.tsx";
+
+export default function WebhookList() {
+  const { t } = useTranslation();
+  const [page, setPage] = useState(1);
+  const { data } = useGetWebhooksQuery({ page });
+
+  return (
+    <>
+      <Table.ScrollContainer minWidth={500}>
+        <Table verticalSpacing="xs">
+          <Table.Thead>
+            <Table.Tr>
+              <Table.Th>{t("Webhook")}</Table.Th>
+              <Table.Th>{t("Events")}</Table.Th>
+              <Table.Th>{t("Status")}</Table.Th>
+              <Table.Th>{t("Created")}</Table.Th>
+              <Table.Th></Table.Th>
+            </Table.Tr>
+          </Table.Thead>
+
+          <Table.Tbody>
+            {data?.items.length > 0 ? (
+              data.items.map((webhook: IWebhook) => (
+                <Table.Tr key={webhook.id}>
+                  <Table.Td>
+                    <Text fz="sm" fw={500} lineClamp={1}>
+                      {webhook.name || webhook.url}
+                    </Text>
+                    {webhook.name && (
+                      <Text fz="xs" c="dimmed" lineClamp={1}>
+                        {webhook.url}
+                      </Text>
+                    )}
+                  </Table.Td>
+                  <Table.Td>
+                    <Text fz="sm">{webhook.events.length}</Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Badge
+                      variant="light"
+                      color={webhook.isEnabled ? "green" : "gray"}
+                    >
+                      {webhook.isEnabled ? t("Active") : t("Disabled")}
+                    </Badge>
+                  </Table.Td>
+                  <Table.Td>
+                    <Text fz="sm" style={{ whiteSpace: "nowrap" }}>
+                      {format(new Date(webhook.createdAt), "MMM dd, yyyy")}
+                    </Text>
+                  </Table.Td>
+                  <Table.Td>
+                    <Group justify="flex-end">
+                      <WebhookActionMenu webhook={webhook} />
+                    </Group>
+                  </Table.Td>
+                </Table.Tr>
+              ))
+            ) : (
+              <NoTableResults colSpan={5} text={t("No webhooks yet")} />
+            )}
+          </Table.Tbody>
+        </Table>
+      </Table.ScrollContainer>
+
+      {data?.items.length > 0 && (
+        <Paginate
+          currentPage={page}
+          hasPrevPage={data?.meta.hasPrevPage}
+          hasNextPage={data?.meta.hasNextPage}
+          onPageChange={setPage}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,67 @@
+import { Button, Group, PasswordInput, Text } from "@mantine/core";
+import { modals } from "@mantine/modals";
+import { useTranslation } from "react-i18next";
+import CopyTextButton from "@/components/common/copy.tsx";
+import { useRotateWebhookSecretMutation } from "@/features/webhook/queries/webhook-query.ts";
+
+interface WebhookSecretProps {
+  webhookId: string;
+  secret: string;
+  allowRotate?: boolean;
+}
+
+export function WebhookSecret({
+  webhookId,
+  secret,
+  allowRotate = true,
+}: WebhookSecretProps) {
+  const { t } = useTranslation();
+  const rotateSecretMutation = useRotateWebhookSecretMutation();
+
+  const openRotateModal = () =>
+    modals.openConfirmModal({
+      title: t("Rotate signing secret"),
+      children: (
+        <Text size="sm">
+          {t(
+            "The current secret will stop working immediately. Make sure to update your receiver.",
+          )}
+        </Text>
+      ),
+      centered: true,
+      labels: { confirm: t("Rotate"), cancel: t("Cancel") },
+      confirmProps: { color: "red" },
+      onConfirm: () => rotateSecretMutation.mutate(webhookId),
+    });
+
+  return (
+    <div>
+      <Text size="sm" fw={500} mb={4}>
+        {t("Signing secret")}
+      </Text>
+      <Text size="xs" c="dimmed" mb="xs">
+        {t(
+          "Each delivery carries an X-Docmost-Signature header: an HMAC-SHA256 of the timestamp and body signed with this secret.",
+        )}
+      </Text>
+      <Group gap="xs" wrap="nowrap">
+        <PasswordInput
+          variant="filled"
+          style={{ flex: 1 }}
+          value={secret ?? ""}
+          readOnly
+        />
+        <CopyTextButton text={secret ?? ""} />
+        {allowRotate && (
+          <Button
+            variant="default"
+            onClick={openRotateModal}
+            loading={rotateSecretMutation.isPending}
+          >
+            {t("Rotate")}
+          </Button>
+        )}
+      </Group>
+    </div>
+  );
+}
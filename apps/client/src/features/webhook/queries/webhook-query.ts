@@ -0,0 +1,146 @@
+import {
+  keepPreviousData,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  UseQueryResult,
+} from "@tanstack/react-query";
+import { notifications } from "@mantine/notifications";
+import { useTranslation } from "react-i18next";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import {
+  ICreateWebhook,
+  IUpdateWebhook,
+  IWebhook,
+  IWebhookDelivery,
+} from "@/features/webhook/types/webhook.types.ts";
+import {
+  createWebhook,
+  deleteWebhook,
+  getWebhookById,
+  getWebhookDeliveries,
+  getWebhooks,
+  rotateWebhookSecret,
+  testWebhook,
+  updateWebhook,
+} from "@/features/webhook/services/webhook-service.ts";
+
+export function useGetWebhooksQuery(
+  params?: QueryParams,
+): UseQueryResult<IPagination<IWebhook>, Error> {
+  return useQuery({
+    queryKey: ["webhooks", params],
+    queryFn: () => getWebhooks(params),
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useWebhookQuery(
+  webhookId: string,
+): UseQueryResult<IWebhook, Error> {
+  return useQuery({
+    queryKey: ["webhook", webhookId],
+    queryFn: () => getWebhookById(webhookId),
+    enabled: !!webhookId,
+  });
+}
+
+export function useWebhookDeliveriesQuery(
+  webhookId: string,
+  params?: QueryParams,
+): UseQueryResult<IPagination<IWebhookDelivery>, Error> {
+  return useQuery({
+    queryKey: ["webhook-deliveries", webhookId, params],
+    queryFn: () => getWebhookDeliveries(webhookId, params),
+    enabled: !!webhookId,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useCreateWebhookMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<IWebhook, Error, ICreateWebhook>({
+    mutationFn: (data) => createWebhook(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+      notifications.show({ message: t("Webhook created successfully") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useUpdateWebhookMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation<IWebhook, Error, IUpdateWebhook>({
+    mutationFn: (data) => updateWebhook(data),
+    onSuccess: (data, variables) => {
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+      queryClient.invalidateQueries({
+        queryKey: ["webhook", variables.webhookId],
+      });
+      notifications.show({ message: t("Webhook updated successfully") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useRotateWebhookSecretMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation<{ secret: string }, Error, string>({
+    mutationFn: (webhookId) => rotateWebhookSecret(webhookId),
+    onSuccess: (data, webhookId) => {
+      queryClient.invalidateQueries({ queryKey: ["webhook", webhookId] });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useDeleteWebhookMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (webhookId: string) => deleteWebhook(webhookId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+      notifications.show({ message: t("Webhook deleted successfully") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
+
+export function useTestWebhookMutation() {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (webhookId: string) => testWebhook(webhookId),
+    onSuccess: (data, webhookId) => {
+      queryClient.invalidateQueries({
+        queryKey: ["webhook-deliveries", webhookId],
+      });
+      notifications.show({ message: t("Test event queued") });
+    },
+    onError: (error) => {
+      const errorMessage = error["response"]?.data?.message;
+      notifications.show({ message: errorMessage, color: "red" });
+    },
+  });
+}
@@ -0,0 +1,60 @@
+import api from "@/lib/api-client";
+import { IPagination, QueryParams } from "@/lib/types.ts";
+import {
+  ICreateWebhook,
+  IUpdateWebhook,
+  IWebhook,
+  IWebhookDelivery,
+} from "@/features/webhook/types/webhook.types.ts";
+
+export async function getWebhooks(
+  params?: QueryParams,
+): Promise<IPagination<IWebhook>> {
+  const req = await api.post("/workspace/webhooks", params);
+  return req.data;
+}
+
+export async function getWebhookById(webhookId: string): Promise<IWebhook> {
+  const req = await api.post<IWebhook>("/workspace/webhooks/info", {
+    webhookId,
+  });
+  return req.data;
+}
+
+export async function createWebhook(data: ICreateWebhook): Promise<IWebhook> {
+  const req = await api.post<IWebhook>("/workspace/webhooks/create", data);
+  return req.data;
+}
+
+export async function updateWebhook(data: IUpdateWebhook): Promise<IWebhook> {
+  const req = await api.post<IWebhook>("/workspace/webhooks/update", data);
+  return req.data;
+}
+
+export async function rotateWebhookSecret(
+  webhookId: string,
+): Promise<{ secret: string }> {
+  const req = await api.post("/workspace/webhooks/rotate-secret", {
+    webhookId,
+  });
+  return req.data;
+}
+
+export async function deleteWebhook(webhookId: string): Promise<void> {
+  await api.post("/workspace/webhooks/delete", { webhookId });
+}
+
+export async function testWebhook(webhookId: string): Promise<void> {
+  await api.post("/workspace/webhooks/test", { webhookId });
+}
+
+export async function getWebhookDeliveries(
+  webhookId: string,
+  params?: QueryParams,
+): Promise<IPagination<IWebhookDelivery>> {
+  const req = await api.post("/workspace/webhooks/deliveries", {
+    webhookId,
+    ...params,
+  });
+  return req.data;
+}
@@ -0,0 +1,59 @@
+export interface IWebhook {
+  id: string;
+  name: string | null;
+  url: string;
+  events: string[];
+  isEnabled: boolean;
+  secret?: string;
+  creatorId: string;
+  workspaceId: string;
+  createdAt: string;
+  updatedAt: string;
+  creator?: {
+    id: string;
+    name: string;
+    avatarUrl: string | null;
+  };
+}
+
+export interface ICreateWebhook {
+  name?: string;
+  url: string;
+  events: string[];
+  isEnabled?: boolean;
+}
+
+export type IUpdateWebhook = Partial<ICreateWebhook> & { webhookId: string };
+
+export type WebhookDeliveryStatus =
+  | "pending"
+  | "success"
+  | "retrying"
+  | "failed";
+
+export interface IWebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  payload: Record<string, any>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  responseBody: string | null;
+  errorMessage: string | null;
+  durationMs: number | null;
+  deliveredAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const WEBHOOK_EVENTS = [
+  "page.created",
+  "page.updated",
+  "page.soft_deleted",
+  "page.restored",
+  "page.deleted",
+  "space.created",
+  "space.updated",
+  "space.deleted",
+];
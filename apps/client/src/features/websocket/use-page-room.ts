@@ -0,0 +1,24 @@
+import { useEffect } from "react";
+import { useAtom } from "jotai";
+import { socketAtom } from "@/features/websocket/atoms/socket-atom.ts";
+
+// comment events of a page are only delivered to clients in its room
+export const usePageRoom = (pageId?: string) => {
+  const [socket] = useAtom(socketAtom);
+
+  useEffect(() => {
+    if (!socket || !pageId) return;
+
+    const roomName = `page-${pageId}`;
+    const joinRoom = () => socket.emit("join-room", roomName);
+
+    joinRoom();
+    // rooms do not survive a reconnect
+    socket.on("connect", joinRoom);
+
+    return () => {
+      socket.off("connect", joinRoom);
+      socket.emit("leave-room", roomName);
+    };
+  }, [socket, pageId]);
+};
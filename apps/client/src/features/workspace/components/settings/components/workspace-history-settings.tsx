@@ -0,0 +1,137 @@
+import { workspaceAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { useAtom } from "jotai";
+import * as z from "zod";
+import { useState } from "react";
+import { updateWorkspace } from "@/features/workspace/services/workspace-service.ts";
+import { Button, Group, NumberInput, Stack, Switch, Text } from "@mantine/core";
+import { useForm } from "@mantine/form";
+import { zodResolver } from "mantine-form-zod-resolver";
+import { notifications } from "@mantine/notifications";
+import useUserRole from "@/hooks/use-user-role.tsx";
+import { useTranslation } from "react-i18next";
+
+const formSchema = z
+  .object({
+    snapshotInterval: z.number().int().min(1).max(1440),
+    retentionEnabled: z.boolean(),
+    keepAllDays: z.number().int().min(1).max(3650),
+    keepDailyDays: z.number().int().min(1).max(3650),
+  })
+  .refine((data) => data.keepDailyDays >= data.keepAllDays, {
+    path: ["keepDailyDays"],
+    message: "Must be at least the number of days all versions are kept",
+  });
+
+type FormValues = z.infer<typeof formSchema>;
+
+export default function WorkspaceHistorySettings() {
+  const { t } = useTranslation();
+  const [isLoading, setIsLoading] = useState(false);
+  const [workspace, setWorkspace] = useAtom(workspaceAtom);
+  const { isAdmin } = useUserRole();
+
+  const history = workspace?.settings?.history;
+
+  const form = useForm<FormValues>({
+    validate: zodResolver(formSchema),
+    initialValues: {
+      snapshotInterval: history?.snapshotInterval ?? 5,
+      retentionEnabled: history?.retentionEnabled ?? false,
+      keepAllDays: history?.keepAllDays ?? 30,
+      keepDailyDays: history?.keepDailyDays ?? 90,
+    },
+  });
+
+  async function handleSubmit(data: FormValues) {
+    setIsLoading(true);
+
+    try {
+      const updatedWorkspace = await updateWorkspace({
+        historySnapshotInterval: data.snapshotInterval,
+        historyRetention: data.retentionEnabled,
+        historyKeepAllDays: data.keepAllDays,
+        historyKeepDailyDays: data.keepDailyDays,
+      });
+      setWorkspace(updatedWorkspace);
+      form.resetDirty();
+      notifications.show({ message: t("Updated successfully") });
+    } catch (err) {
+      notifications.show({
+        message: err?.response?.data?.message ?? t("Failed to update data"),
+        color: "red",
+      });
+    }
+    setIsLoading(false);
+  }
+
+  return (
+    <form onSubmit={form.onSubmit(handleSubmit)}>
+      <Text size="md" fw={500}>
+        {t("Page history")}
+      </Text>
+      <Text size="sm" c="dimmed" mb="sm">
+        {t(
+          "Control how often page versions are saved and how long they are kept. Pinned and named versions are never deleted.",
+        )}
+      </Text>
+
+      <Stack gap="sm">
+        <NumberInput
+          label={t("Snapshot interval (minutes)")}
+          description={t(
+            "Minimum time between automatically saved versions of a page",
+          )}
+          min={1}
+          max={1440}
+          allowDecimal={false}
+          variant="filled"
+          readOnly={!isAdmin}
+          {...form.getInputProps("snapshotInterval")}
+        />
+
+        <Switch
+          label={t("Prune old versions")}
+          description={t(
+            "Keep all versions for a number of days, then one per day, then one per week",
+          )}
+          disabled={!isAdmin}
+          {...form.getInputProps("retentionEnabled", { type: "checkbox" })}
+        />
+
+        {form.values.retentionEnabled && (
+          <Group grow align="flex-start">
+            <NumberInput
+              label={t("Keep all versions (days)")}
+              min={1}
+              max={3650}
+              allowDecimal={false}
+              variant="filled"
+              readOnly={!isAdmin}
+              {...form.getInputProps("keepAllDays")}
+            />
+            <NumberInput
+              label={t("Keep daily versions (days)")}
+              min={1}
+              max={3650}
+              allowDecimal={false}
+              variant="filled"
+              readOnly={!isAdmin}
+              {...form.getInputProps("keepDailyDays")}
+            />
+          </Group>
+        )}
+      </Stack>
+
+      {isAdmin && (
+        <Button
+          mt="sm"
+          type="submit"
+          disabled={isLoading || !form.isDirty()}
+          loading={isLoading}
+        >
+          {t("Save")}
+        </Button>
+      )}
+    </form>
+  );
+}
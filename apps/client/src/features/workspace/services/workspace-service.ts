@@ -8,6 +8,7 @@ import {
   IPublicWorkspace,
   IInvitationLink,
   IVersion,
+  IUpdateWorkspaceHistorySettings,
 } from "../types/workspace.types";
 import { IPagination, QueryParams } from "@/lib/types.ts";
 import { ISetupWorkspace } from "@/features/auth/types/auth.types.ts";
@@ -42,7 +43,11 @@ export async function deleteWorkspaceMember(data: {
   await api.post("/workspace/members/delete", data);
 }
 
-export async function updateWorkspace(data: Partial<IWorkspace> & { aiSearch?: boolean }) {
+export async function updateWorkspace(
+  data: Partial<IWorkspace> & {
+    aiSearch?: boolean;
+  } & IUpdateWorkspaceHistorySettings,
+) {
   const req = await api.post<IWorkspace>("/workspace/update", data);
   return req.data;
 }
@@ -26,12 +26,27 @@ export interface IWorkspace {
 
 export interface IWorkspaceSettings {
   ai?: IWorkspaceAiSettings;
+  history?: IWorkspaceHistorySettings;
 }
 
 export interface IWorkspaceAiSettings {
   search?: boolean;
 }
 
+export interface IWorkspaceHistorySettings {
+  snapshotInterval?: number;
+  retentionEnabled?: boolean;
+  keepAllDays?: number;
+  keepDailyDays?: number;
+}
+
+export interface IUpdateWorkspaceHistorySettings {
+  historySnapshotInterval?: number;
+  historyRetention?: boolean;
+  historyKeepAllDays?: number;
+  historyKeepDailyDays?: number;
+}
+
 export interface ICreateInvite {
   role: string;
   emails: string[];
@@ -56,6 +56,10 @@ export function getSpaceUrl(spaceSlug: string) {
   return "/s/" + spaceSlug;
 }
 
+export function getLabelUrl(labelName: string) {
+  return "/labels/" + encodeURIComponent(labelName);
+}
+
 export function getFileUrl(src: string) {
   if (!src) return src;
   if (src.startsWith("http")) return src;
@@ -14,6 +14,7 @@ export enum UserRole {
 export enum SpaceRole {
   ADMIN = "admin",
   WRITER = "writer",
+  COMMENTER = "commenter",
   READER = "reader",
 }
 
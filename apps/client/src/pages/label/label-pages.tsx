@@ -0,0 +1,135 @@
+import {
+  ActionIcon,
+  Badge,
+  Container,
+  Group,
+  Table,
+  Text,
+  Title,
+  UnstyledButton,
+} from "@mantine/core";
+import { IconFileDescription, IconTag } from "@tabler/icons-react";
+import { Link, useParams } from "react-router-dom";
+import { useTranslation } from "react-i18next";
+import { Helmet } from "react-helmet-async";
+import { useState } from "react";
+import { getAppName, getSpaceUrl } from "@/lib/config.ts";
+import { buildPageUrl } from "@/features/page/page.utils.ts";
+import { formattedDate } from "@/lib/time.ts";
+import {
+  useLabelPagesQuery,
+  useLabelQuery,
+} from "@/features/label/queries/label-query";
+import PageListSkeleton from "@/components/ui/page-list-skeleton.tsx";
+import Paginate from "@/components/common/paginate";
+
+export default function LabelPages() {
+  const { t } = useTranslation();
+  const { labelName } = useParams();
+  const [page, setPage] = useState(1);
+  const { data: label, isError: isLabelError } = useLabelQuery(labelName);
+  const { data: pages, isLoading } = useLabelPagesQuery(label?.id, {
+    page,
+    limit: 50,
+  });
+
+  return (
+    <>
+      <Helmet>
+        <title>
+          {labelName} - {getAppName()}
+        </title>
+      </Helmet>
+
+      <Container size={"800"} pt="xl">
+        <Group gap="xs" mb="xl">
+          <IconTag size={22} />
+          <Title order={3}>{labelName}</Title>
+        </Group>
+
+        {isLabelError && (
+          <Text size="md" ta="center">
+            {t("Label not found")}
+          </Text>
+        )}
+
+        {label && isLoading && <PageListSkeleton />}
+
+        {pages && pages.items.length === 0 && (
+          <Text size="md" ta="center">
+            {t("No pages with this label")}
+          </Text>
+        )}
+
+        {pages && pages.items.length > 0 && (
+          <>
+            <Table.ScrollContainer minWidth={500}>
+              <Table highlightOnHover verticalSpacing="sm">
+                <Table.Tbody>
+                  {pages.items.map((labelPage) => (
+                    <Table.Tr key={labelPage.id}>
+                      <Table.Td>
+                        <UnstyledButton
+                          component={Link}
+                          to={buildPageUrl(
+                            labelPage.space?.slug,
+                            labelPage.slugId,
+                            labelPage.title,
+                          )}
+                        >
+                          <Group wrap="nowrap">
+                            {labelPage.icon || (
+                              <ActionIcon
+                                variant="transparent"
+                                color="gray"
+                                size={18}
+                              >
+                                <IconFileDescription size={18} />
+                              </ActionIcon>
+                            )}
+
+                            <Text fw={500} size="md" lineClamp={1}>
+                              {labelPage.title || t("Untitled")}
+                            </Text>
+                          </Group>
+                        </UnstyledButton>
+                      </Table.Td>
+                      <Table.Td>
+                        <Badge
+                          color="blue"
+                          variant="light"
+                          component={Link}
+                          to={getSpaceUrl(labelPage.space?.slug)}
+                          style={{ cursor: "pointer" }}
+                        >
+                          {labelPage.space?.name}
+                        </Badge>
+                      </Table.Td>
+                      <Table.Td>
+                        <Text
+                          c="dimmed"
+                          style={{ whiteSpace: "nowrap" }}
+                          size="xs"
+                          fw={500}
+                        >
+                          {formattedDate(labelPage.updatedAt)}
+                        </Text>
+                      </Table.Td>
+                    </Table.Tr>
+                  ))}
+                </Table.Tbody>
+              </Table>
+            </Table.ScrollContainer>
+
+            <Paginate
+              currentPage={page}
+              hasPrevPage={pages.meta?.hasPrevPage}
+              hasNextPage={pages.meta?.hasNextPage}
+              onPageChange={setPage}
+            />
+          </>
+        )}
+      </Container>
+    </>
+  );
+}
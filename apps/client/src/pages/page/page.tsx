@@ -13,6 +13,10 @@ import {
 } from "@/features/space/permissions/permissions.type.ts";
 import { useTranslation } from "react-i18next";
 import React from "react";
+import { useAtom } from "jotai";
+import { userAtom } from "@/features/user/atoms/current-user-atom.ts";
+import { canManagePageLock } from "@/features/page/page.utils.ts";
+import { usePageRoom } from "@/features/websocket/use-page-room.ts";
 
 const MemoizedFullEditor = React.memo(FullEditor);
 const MemoizedPageHeader = React.memo(PageHeader);
@@ -21,6 +25,7 @@ const MemoizedHistoryModal = React.memo(HistoryModal);
 export default function Page() {
   const { t } = useTranslation();
   const { pageSlug } = useParams();
+  const [currentUser] = useAtom(userAtom);
 
   const {
     data: page,
@@ -31,7 +36,8 @@ export default function Page() {
   const { data: space } = useGetSpaceBySlugQuery(page?.space?.slug);
 
   const spaceRules = space?.membership?.permissions;
-  const spaceAbility = useSpaceAbility(spaceRules);
+  const spaceAbility = useSpaceAbility(page?.permissions ?? spaceRules);
+  usePageRoom(page?.id);
 
   if (isLoading) {
     return <></>;
@@ -48,6 +54,13 @@ export default function Page() {
     return <></>;
   }
 
+  const canManageLock = canManagePageLock(page, currentUser?.id, spaceAbility);
+  // locked pages are read-only for everyone who cannot manage the lock
+  const isLocked = page.isLocked && !canManageLock;
+  const canEdit = spaceAbility.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page);
+  // readers of review workflow spaces only see the last approved version
+  const publishedOnly = !!page.space?.reviewWorkflow && !canEdit;
+
   return (
     page && (
       <div>
@@ -56,10 +69,9 @@ export default function Page() {
         </Helmet>
 
         <MemoizedPageHeader
-          readOnly={spaceAbility.cannot(
-            SpaceCaslAction.Manage,
-            SpaceCaslSubject.Page,
-          )}
+          readOnly={isLocked || !canEdit}
+          canManageLock={canManageLock}
+          publishedOnly={publishedOnly}
         />
 
         <MemoizedFullEditor
@@ -69,10 +81,21 @@ export default function Page() {
           content={page.content}
           slugId={page.slugId}
           spaceSlug={page?.space?.slug}
-          editable={spaceAbility.can(
+          editable={!isLocked && canEdit}
+          canComment={
+            !isLocked &&
+            !publishedOnly &&
+            spaceAbility.can(SpaceCaslAction.Create, SpaceCaslSubject.Comment)
+          }
+          isLocked={page.isLocked}
+          canManageLock={canManageLock}
+          canReview={!!page.space?.reviewWorkflow && canEdit}
+          canManageSpace={spaceAbility.can(
             SpaceCaslAction.Manage,
-            SpaceCaslSubject.Page,
+            SpaceCaslSubject.Settings,
           )}
+          publishedOnly={publishedOnly}
+          isPublished={!!page.publishedAt}
         />
         <MemoizedHistoryModal pageId={page.id} />
       </div>
@@ -0,0 +1,46 @@
+import SettingsTitle from "@/components/settings/settings-title.tsx";
+import { Helmet } from "react-helmet-async";
+import { getAppName } from "@/lib/config.ts";
+import { useTranslation } from "react-i18next";
+import { Alert, Group } from "@mantine/core";
+import { IconInfoCircle } from "@tabler/icons-react";
+import { useState } from "react";
+import useUserRole from "@/hooks/use-user-role.tsx";
+import { IAuditLogFilters } from "@/features/audit-log/types/audit-log.types.ts";
+import AuditLogFilters from "@/features/audit-log/components/audit-log-filters.tsx";
+import AuditLogTable from "@/features/audit-log/components/audit-log-table.tsx";
+import AuditLogExportMenu from "@/features/audit-log/components/audit-log-export-menu.tsx";
+
+export default function AuditLog() {
+  const { t } = useTranslation();
+  const { isAdmin } = useUserRole();
+  const [filters, setFilters] = useState<IAuditLogFilters>({});
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>
+          {t("Audit log")} - {getAppName()}
+        </title>
+      </Helmet>
+      <SettingsTitle title={t("Audit log")} />
+
+      <Alert variant="light" color="blue" icon={<IconInfoCircle />}>
+        {t(
+          "The audit log records security-relevant actions in this workspace, such as member role changes, space membership changes, shares, page deletions and exports.",
+        )}
+      </Alert>
+
+      <Group my="md" justify="space-between" align="flex-start" wrap="nowrap">
+        <AuditLogFilters filters={filters} onChange={setFilters} />
+        <AuditLogExportMenu filters={filters} />
+      </Group>
+
+      <AuditLogTable filters={filters} />
+    </>
+  );
+}
@@ -0,0 +1,41 @@
+import SettingsTitle from "@/components/settings/settings-title.tsx";
+import { Helmet } from "react-helmet-async";
+import { getAppName } from "@/lib/config.ts";
+import { useTranslation } from "react-i18next";
+import { Alert, Group } from "@mantine/core";
+import { IconInfoCircle } from "@tabler/icons-react";
+import useUserRole from "@/hooks/use-user-role.tsx";
+import CustomSpaceRoleList from "@/features/space/components/custom-roles/custom-space-role-list.tsx";
+import CreateCustomSpaceRoleModal from "@/features/space/components/custom-roles/create-custom-space-role-modal.tsx";
+
+export default function SpaceRoles() {
+  const { t } = useTranslation();
+  const { isAdmin } = useUserRole();
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>
+          {t("Space roles")} - {getAppName()}
+        </title>
+      </Helmet>
+      <SettingsTitle title={t("Space roles")} />
+
+      <Alert variant="light" color="blue" icon={<IconInfoCircle />}>
+        {t(
+          "Custom roles can be assigned to space members alongside the built-in roles. Each role grants the selected actions in the spaces it is assigned in.",
+        )}
+      </Alert>
+
+      <Group my="md" justify="flex-end">
+        <CreateCustomSpaceRoleModal />
+      </Group>
+
+      <CustomSpaceRoleList />
+    </>
+  );
+}
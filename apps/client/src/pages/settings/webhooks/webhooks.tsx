@@ -0,0 +1,41 @@
+import SettingsTitle from "@/components/settings/settings-title.tsx";
+import { Helmet } from "react-helmet-async";
+import { getAppName } from "@/lib/config.ts";
+import { useTranslation } from "react-i18next";
+import { Alert, Group } from "@mantine/core";
+import { IconInfoCircle } from "@tabler/icons-react";
+import useUserRole from "@/hooks/use-user-role.tsx";
+import WebhookList from "@/features/webhook/components/webhook-list.tsx";
+import CreateWebhookModal from "@/features/webhook/components/create-webhook-modal.tsx";
+
+export default function Webhooks() {
+  const { t } = useTranslation();
+  const { isAdmin } = useUserRole();
+
+  if (!isAdmin) {
+    return null;
+  }
+
+  return (
+    <>
+      <Helmet>
+        <title>
+          {t("Webhooks")} - {getAppName()}
+        </title>
+      </Helmet>
+      <SettingsTitle title={t("Webhooks")} />
+
+      <Alert variant="light" color="blue" icon={<IconInfoCircle />}>
+        {t(
+          "Webhooks send a signed JSON payload to your endpoint whenever the selected events happen in this workspace.",
+        )}
+      </Alert>
+
+      <Group my="md" justify="flex-end">
+        <CreateWebhookModal />
+      </Group>
+
+      <WebhookList />
+    </>
+  );
+}
@@ -3,12 +3,18 @@ import { useEffect } from "react";
 import { buildSharedPageUrl } from "@/features/page/page.utils.ts";
 import { Error404 } from "@/components/ui/error-404.tsx";
 import { useGetShareByIdQuery } from "@/features/share/queries/share-query.ts";
+import SharePasswordForm from "@/features/share/components/share-password-form.tsx";
 
 export default function ShareRedirect() {
   const { shareId } = useParams();
   const navigate = useNavigate();
 
-  const { data: share, isLoading, isError } = useGetShareByIdQuery(shareId);
+  const {
+    data: share,
+    isLoading,
+    isError,
+    error,
+  } = useGetShareByIdQuery(shareId);
 
   useEffect(() => {
     if (share) {
@@ -24,6 +30,10 @@ export default function ShareRedirect() {
   }, [isLoading, share]);
 
   if (isError) {
+    // password protected shares are resolved once unlocked
+    if (error?.["status"] === 403) {
+      return <SharePasswordForm shareId={shareId} />;
+    }
     return <Error404 />;
   }
 
@@ -8,6 +8,7 @@ import ReadonlyPageEditor from "@/features/editor/readonly-page-editor.tsx";
 import { extractPageSlugId } from "@/lib";
 import { Error404 } from "@/components/ui/error-404.tsx";
 import ShareBranding from "@/features/share/components/share-branding.tsx";
+import SharePasswordForm from "@/features/share/components/share-password-form.tsx";
 
 export default function SharedPage() {
   const { t } = useTranslation();
@@ -38,6 +39,18 @@ export default function SharedPage() {
     return <div>{t("Error fetching page data.")}</div>;
   }
 
+  if (data.passwordRequired) {
+    return (
+      <>
+        <Helmet>
+          <title>{t("Password protected page")}</title>
+          <meta name="robots" content="noindex" />
+        </Helmet>
+        <SharePasswordForm shareId={data.share.id} />
+      </>
+    );
+  }
+
   return (
     <div>
       <Helmet>
@@ -1,10 +1,13 @@
-import { Container, Title, Text, Group, Box } from "@mantine/core";
+import { Container, Title, Text, Group, Box, Tabs } from "@mantine/core";
 import { useTranslation } from "react-i18next";
 import { Helmet } from "react-helmet-async";
 import { getAppName } from "@/lib/config";
 import { useGetSpacesQuery } from "@/features/space/queries/space-query";
 import CreateSpaceModal from "@/features/space/components/create-space-modal";
-import { AllSpacesList } from "@/features/space/components/spaces-page";
+import {
+  AllSpacesList,
+  SpaceDirectory,
+} from "@/features/space/components/spaces-page";
 import { usePaginateAndSearch } from "@/hooks/use-paginate-and-search";
 import useUserRole from "@/hooks/use-user-role";
 
@@ -33,20 +36,39 @@ export default function Spaces() {
           {isAdmin && <CreateSpaceModal />}
         </Group>
 
-        <Box>
-          <Text size="sm" c="dimmed" mb="md">
-            {t("Spaces you belong to")}
-          </Text>
-
-          <AllSpacesList
-            spaces={data?.items || []}
-            onSearch={handleSearch}
-            page={page}
-            hasPrevPage={data?.meta?.hasPrevPage}
-            hasNextPage={data?.meta?.hasNextPage}
-            onPageChange={setPage}
-          />
-        </Box>
+        <Tabs defaultValue="member">
+          <Tabs.List mb="md">
+            <Tabs.Tab value="member">{t("Your spaces")}</Tabs.Tab>
+            <Tabs.Tab value="directory">{t("Space directory")}</Tabs.Tab>
+          </Tabs.List>
+
+          <Tabs.Panel value="member">
+            <Box>
+              <Text size="sm" c="dimmed" mb="md">
+                {t("Spaces you belong to")}
+              </Text>
+
+              <AllSpacesList
+                spaces={data?.items || []}
+                onSearch={handleSearch}
+                page={page}
+                hasPrevPage={data?.meta?.hasPrevPage}
+                hasNextPage={data?.meta?.hasNextPage}
+                onPageChange={setPage}
+              />
+            </Box>
+          </Tabs.Panel>
+
+          <Tabs.Panel value="directory">
+            <Box>
+              <Text size="sm" c="dimmed" mb="md">
+                {t("Open spaces anyone in the workspace can join")}
+              </Text>
+
+              <SpaceDirectory />
+            </Box>
+          </Tabs.Panel>
+        </Tabs>
       </Container>
     </>
   );
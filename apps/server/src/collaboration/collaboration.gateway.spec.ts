@@ -0,0 +1,110 @@
+import { CollaborationGateway } from './collaboration.gateway';
+import { AuthenticationExtension } from './extensions/authentication.extension';
+import { PersistenceExtension } from './extensions/persistence.extension';
+import { LoggerExtension } from './extensions/logger.extension';
+import { EnvironmentService } from '../integrations/environment/environment.service';
+
+const mockRedisClients: Record<string, jest.Mock>[] = [];
+
+jest.mock('ioredis', () => ({
+  __esModule: true,
+  default: jest.fn().mockImplementation(() => {
+    const client = {
+      publish: jest.fn().mockResolvedValue(1),
+      subscribe: jest.fn().mockResolvedValue(1),
+      on: jest.fn(),
+      disconnect: jest.fn(),
+    };
+    mockRedisClients.push(client);
+    return client;
+  }),
+}));
+
+jest.mock('@hocuspocus/extension-redis', () => ({
+  Redis: jest.fn().mockImplementation(() => ({})),
+}));
+
+// the editor schema and the extensions are not needed to relay closes
+jest.mock('./collaboration.util', () => ({ tiptapExtensions: [] }));
+jest.mock('./extensions/authentication.extension', () => ({
+  AuthenticationExtension: class {},
+}));
+jest.mock('./extensions/persistence.extension', () => ({
+  PersistenceExtension: class {},
+}));
+jest.mock('./extensions/logger.extension', () => ({
+  LoggerExtension: class {},
+}));
+
+describe('CollaborationGateway', () => {
+  let gateway: CollaborationGateway;
+  let closeConnections: jest.SpyInstance;
+
+  const createGateway = (disableRedis = false) =>
+    new CollaborationGateway(
+      {} as AuthenticationExtension,
+      {} as PersistenceExtension,
+      {} as LoggerExtension,
+      {
+        getRedisUrl: () => 'redis://localhost:6379',
+        isCollabDisableRedis: () => disableRedis,
+      } as EnvironmentService,
+    );
+
+  beforeEach(() => {
+    mockRedisClients.length = 0;
+    gateway = createGateway();
+    closeConnections = jest
+      .spyOn(gateway['hocuspocus'], 'closeConnections')
+      .mockImplementation(() => undefined);
+  });
+
+  const [publisher, subscriber] = [0, 1].map(
+    (index) => () => mockRedisClients[index],
+  );
+
+  const receive = (message: object) => {
+    const onMessage = subscriber().on.mock.calls.find(
+      ([event]) => event === 'message',
+    )[1];
+    onMessage('collab:close-connections', JSON.stringify(message));
+  };
+
+  it('closes local connections and relays the close to other servers', () => {
+    gateway.closeConnections('page.1');
+
+    expect(closeConnections).toHaveBeenCalledWith('page.1');
+    expect(publisher().publish).toHaveBeenCalledWith(
+      'collab:close-connections',
+      expect.stringContaining('"documentName":"page.1"'),
+    );
+  });
+
+  it('closes connections relayed by another server', () => {
+    receive({ documentName: 'page.2', origin: 'other-server' });
+
+    expect(closeConnections).toHaveBeenCalledWith('page.2');
+  });
+
+  it('ignores its own relayed closes', () => {
+    gateway.closeConnections('page.3');
+    closeConnections.mockClear();
+
+    receive(JSON.parse(publisher().publish.mock.calls[0][1]));
+
+    expect(closeConnections).not.toHaveBeenCalled();
+  });
+
+  it('only closes local connections without redis', () => {
+    mockRedisClients.length = 0;
+    const localGateway = createGateway(true);
+    const localClose = jest
+      .spyOn(localGateway['hocuspocus'], 'closeConnections')
+      .mockImplementation(() => undefined);
+
+    localGateway.closeConnections('page.4');
+
+    expect(localClose).toHaveBeenCalledWith('page.4');
+    expect(mockRedisClients).toHaveLength(0);
+  });
+});
@@ -3,7 +3,7 @@ import { IncomingMessage } from 'http';
 import WebSocket from 'ws';
 import { AuthenticationExtension } from './extensions/authentication.extension';
 import { PersistenceExtension } from './extensions/persistence.extension';
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { Redis } from '@hocuspocus/extension-redis';
 import { EnvironmentService } from '../integrations/environment/environment.service';
 import {
@@ -12,11 +12,24 @@ import {
   RedisConfig,
 } from '../common/helpers';
 import { LoggerExtension } from './extensions/logger.extension';
+import { TiptapTransformer } from '@hocuspocus/transformer';
+import * as Y from 'yjs';
+import { tiptapExtensions } from './collaboration.util';
+import IORedis, { RedisOptions } from 'ioredis';
+import { v7 as uuid7 } from 'uuid';
+
+const CLOSE_CONNECTIONS_CHANNEL = 'collab:close-connections';
 
 @Injectable()
 export class CollaborationGateway {
+  private readonly logger = new Logger(CollaborationGateway.name);
   private hocuspocus: Hocuspocus;
   private redisConfig: RedisConfig;
+  // the collaboration server can run in its own process,
+  // connection closes are relayed to it through redis
+  private publisher: IORedis;
+  private subscriber: IORedis;
+  private readonly instanceId = uuid7();
 
   constructor(
     private authenticationExtension: AuthenticationExtension,
@@ -57,12 +70,176 @@ export class CollaborationGateway {
             ]),
       ],
     });
+
+    if (!this.environmentService.isCollabDisableRedis()) {
+      this.subscribeToCloseConnections(redisUrl, isTls);
+    }
+  }
+
+  private subscribeToCloseConnections(redisUrl: string, isTls: boolean) {
+    const options: RedisOptions = {
+      family: this.redisConfig.family,
+      retryStrategy: createRetryStrategy(),
+      ...(isTls && {
+        tls: {
+          rejectUnauthorized: false, // For AWS ElastiCache with self-signed certs
+        },
+      }),
+    };
+    this.publisher = new IORedis(redisUrl, options);
+    this.subscriber = new IORedis(redisUrl, options);
+
+    this.subscriber.subscribe(CLOSE_CONNECTIONS_CHANNEL).catch((err) => {
+      this.logger.error('Failed to subscribe to connection closes', err);
+    });
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      if (channel !== CLOSE_CONNECTIONS_CHANNEL) return;
+
+      try {
+        const { documentName, origin } = JSON.parse(message);
+        if (origin !== this.instanceId) {
+          this.hocuspocus.closeConnections(documentName);
+        }
+      } catch (err) {
+        this.logger.warn(`Invalid connection close message: ${message}`);
+      }
+    });
   }
 
   handleConnection(client: WebSocket, request: IncomingMessage): any {
     this.hocuspocus.handleConnection(client, request);
   }
 
+  /**
+   * Replaces the whole content of a document from the server side.
+   * Connected editors receive it as a regular update; with the redis extension
+   * enabled it also reaches clients of other collaboration servers.
+   */
+  async replaceDocumentContent(
+    documentName: string,
+    prosemirrorJson: any,
+    context?: any,
+  ): Promise<void> {
+    const connection = await this.hocuspocus.openDirectConnection(
+      documentName,
+      context,
+    );
+
+    try {
+      await connection.transact((document) => {
+        const ydoc = TiptapTransformer.toYdoc(
+          prosemirrorJson,
+          'default',
+          tiptapExtensions,
+        );
+
+        document.transact(() => {
+          const fragment = document.getXmlFragment('default');
+          fragment.delete(0, fragment.length);
+          Y.applyUpdate(document, Y.encodeStateAsUpdate(ydoc));
+        });
+      });
+    } finally {
+      await connection.disconnect();
+    }
+  }
+
+  /**
+   * Returns the current prosemirror content of a document,
+   * including changes that have not been stored yet.
+   */
+  async getDocumentContent(documentName: string, context?: any) {
+    const connection = await this.hocuspocus.openDirectConnection(
+      documentName,
+      context,
+    );
+
+    let content: any = null;
+    try {
+      await connection.transact((document) => {
+        content = TiptapTransformer.fromYdoc(document, 'default');
+      });
+    } finally {
+      await connection.disconnect();
+    }
+
+    return content;
+  }
+
+  /**
+   * Updates the attributes of a single node, found by its id attribute.
+   * Returns false when the document has no such node.
+   */
+  async updateNodeAttributes(
+    documentName: string,
+    node: { type: string; id: string },
+    attributes: Record<string, unknown>,
+    context?: any,
+  ): Promise<boolean> {
+    const connection = await this.hocuspocus.openDirectConnection(
+      documentName,
+      context,
+    );
+
+    const findElement = (
+      parent: Y.XmlFragment | Y.XmlElement,
+    ): Y.XmlElement | null => {
+      for (const child of parent.toArray()) {
+        if (!(child instanceof Y.XmlElement)) continue;
+        if (
+          child.nodeName === node.type &&
+          child.getAttribute('id') === node.id
+        ) {
+          return child;
+        }
+        const found = findElement(child);
+        if (found) return found;
+      }
+      return null;
+    };
+
+    let updated = false;
+    try {
+      await connection.transact((document) => {
+        const element = findElement(document.getXmlFragment('default'));
+        if (!element) return;
+
+        document.transact(() => {
+          for (const [key, value] of Object.entries(attributes)) {
+            element.setAttribute(key, value as any);
+          }
+        });
+        updated = true;
+      });
+    } finally {
+      await connection.disconnect();
+    }
+
+    return updated;
+  }
+
+  /**
+   * Disconnects all editors of a document, on every collaboration server.
+   * Clients reconnect on their own and are authenticated again,
+   * so changes to their access apply right away.
+   */
+  closeConnections(documentName: string): void {
+    this.hocuspocus.closeConnections(documentName);
+
+    this.publisher
+      ?.publish(
+        CLOSE_CONNECTIONS_CHANNEL,
+        JSON.stringify({ documentName, origin: this.instanceId }),
+      )
+      .catch((err) => {
+        this.logger.error(
+          `Failed to close connections of ${documentName}`,
+          err,
+        );
+      });
+  }
+
   getConnectionCount() {
     return this.hocuspocus.getConnectionsCount();
   }
@@ -73,5 +250,7 @@ export class CollaborationGateway {
 
   async destroy(): Promise<void> {
     await this.hocuspocus.destroy();
+    this.publisher?.disconnect();
+    this.subscriber?.disconnect();
   }
 }
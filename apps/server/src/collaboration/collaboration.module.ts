@@ -8,7 +8,9 @@ import { IncomingMessage } from 'http';
 import { WebSocket } from 'ws';
 import { TokenModule } from '../core/auth/token.module';
 import { HistoryListener } from './listeners/history.listener';
+import { WatcherListener } from './listeners/watcher.listener';
 import { LoggerExtension } from './extensions/logger.extension';
+import { CaslModule } from '../core/casl/casl.module';
 
 @Module({
   providers: [
@@ -17,9 +19,10 @@ import { LoggerExtension } from './extensions/logger.extension';
     PersistenceExtension,
     LoggerExtension,
     HistoryListener,
+    WatcherListener,
   ],
   exports: [CollaborationGateway],
-  imports: [TokenModule],
+  imports: [TokenModule, CaslModule],
 })
 export class CollaborationModule implements OnModuleInit, OnModuleDestroy {
   private readonly logger = new Logger(CollaborationModule.name);
@@ -0,0 +1,102 @@
+import * as Y from 'yjs';
+import { isCommentOnlyUpdate } from './collaboration.util';
+
+jest.mock('../common/helpers/prosemirror/html', () => ({}));
+
+describe('isCommentOnlyUpdate', () => {
+  let serverDoc: Y.Doc;
+  let clientDoc: Y.Doc;
+
+  const clientText = () =>
+    (clientDoc.getXmlFragment('default').get(0) as Y.XmlElement).get(
+      0,
+    ) as Y.XmlText;
+
+  const pendingUpdate = () =>
+    Y.encodeStateAsUpdate(clientDoc, Y.encodeStateVector(serverDoc));
+
+  beforeEach(() => {
+    serverDoc = new Y.Doc();
+    const paragraph = new Y.XmlElement('paragraph');
+    paragraph.insert(0, [new Y.XmlText('hello world')]);
+    serverDoc.getXmlFragment('default').insert(0, [paragraph]);
+
+    clientDoc = new Y.Doc();
+    Y.applyUpdate(clientDoc, Y.encodeStateAsUpdate(serverDoc));
+  });
+
+  afterEach(() => {
+    serverDoc.destroy();
+    clientDoc.destroy();
+  });
+
+  it('accepts adding a comment mark', () => {
+    clientText().format(0, 5, { comment: { commentId: 'comment-1' } });
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(true);
+  });
+
+  it('accepts removing a comment mark', () => {
+    clientText().format(0, 5, { comment: { commentId: 'comment-1' } });
+    Y.applyUpdate(serverDoc, pendingUpdate());
+
+    clientText().format(0, 5, { comment: null });
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(true);
+  });
+
+  it('ignores parts of the update the document already has', () => {
+    clientText().format(0, 5, { comment: { commentId: 'comment-1' } });
+
+    expect(
+      isCommentOnlyUpdate(serverDoc, Y.encodeStateAsUpdate(clientDoc)),
+    ).toBe(true);
+  });
+
+  it('rejects text changes', () => {
+    clientText().insert(5, ' there');
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects deletions', () => {
+    clientText().delete(0, 5);
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects other marks', () => {
+    clientText().format(0, 5, { bold: {} });
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects node attribute changes', () => {
+    const paragraph = clientDoc.getXmlFragment('default').get(0);
+    (paragraph as Y.XmlElement).setAttribute('textAlign', 'center');
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects changes to other shared types', () => {
+    clientDoc.getMap('meta').set('title', 'changed');
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects comment marks outside the default fragment', () => {
+    const text = new Y.XmlText('hidden');
+    clientDoc.getXmlFragment('other').insert(0, [text]);
+    Y.applyUpdate(serverDoc, pendingUpdate());
+
+    text.format(0, 6, { comment: { commentId: 'comment-1' } });
+
+    expect(isCommentOnlyUpdate(serverDoc, pendingUpdate())).toBe(false);
+  });
+
+  it('rejects malformed updates', () => {
+    expect(isCommentOnlyUpdate(serverDoc, new Uint8Array([1, 2, 3]))).toBe(
+      false,
+    );
+  });
+});
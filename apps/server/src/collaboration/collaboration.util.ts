@@ -1,7 +1,6 @@
 import { StarterKit } from '@tiptap/starter-kit';
 import { TextAlign } from '@tiptap/extension-text-align';
 import { TaskList } from '@tiptap/extension-task-list';
-import { TaskItem } from '@tiptap/extension-task-item';
 import { Underline } from '@tiptap/extension-underline';
 import { Superscript } from '@tiptap/extension-superscript';
 import SubScript from '@tiptap/extension-subscript';
@@ -33,6 +32,8 @@ import {
   Embed,
   Mention,
   Subpages,
+  CollectionView,
+  TaskItem,
   Highlight,
   UniqueID,
   addUniqueIdsToDoc,
@@ -43,6 +44,7 @@ import { generateHTML, generateJSON } from '../common/helpers/prosemirror/html';
 // see: https://github.com/ueberdosis/tiptap/issues/5352
 // see:https://github.com/ueberdosis/tiptap/issues/4089
 import { Node } from '@tiptap/pm/model';
+import * as Y from 'yjs';
 
 export const tiptapExtensions = [
   StarterKit.configure({
@@ -51,7 +53,7 @@ export const tiptapExtensions = [
   }),
   Heading,
   UniqueID.configure({
-    types: ['heading', 'paragraph'],
+    types: ['heading', 'paragraph', 'taskItem'],
   }),
   Comment,
   TextAlign.configure({ types: ['heading', 'paragraph'] }),
@@ -88,6 +90,7 @@ export const tiptapExtensions = [
   Embed,
   Mention,
   Subpages,
+  CollectionView,
 ] as any;
 
 export function jsonToHtml(tiptapJson: any) {
@@ -116,3 +119,89 @@ export function jsonToNode(tiptapJson: JSONContent) {
 export function getPageId(documentName: string) {
   return documentName.split('.')[1];
 }
+
+const idKey = (id: Y.ID) => `${id.client}:${id.clock}`;
+
+function isCommentFormat(struct: Y.Item | Y.GC | Y.Skip): struct is Y.Item {
+  return (
+    struct instanceof Y.Item &&
+    struct.content instanceof Y.ContentFormat &&
+    struct.content.key === 'comment'
+  );
+}
+
+/*
+ * Checks whether a yjs update only adds or removes comment marks on text in
+ * the default fragment. The update is inspected as is, without converting
+ * the document.
+ */
+export function isCommentOnlyUpdate(ydoc: Y.Doc, update: Uint8Array): boolean {
+  const store = ydoc.store;
+  const fragment = ydoc.getXmlFragment('default');
+
+  try {
+    const { structs, ds } = Y.decodeUpdate(update);
+
+    // structs the document already has are ignored when the update is applied
+    const isKnown = (id: Y.ID) => id.clock < Y.getState(store, id.client);
+
+    const newItems = new Map<string, Y.Item>();
+    for (const struct of structs) {
+      if (struct instanceof Y.Skip || isKnown(struct.id)) continue;
+      // comment marks are formatting attributes of text, never map entries
+      if (!isCommentFormat(struct) || struct.parentSub) return false;
+      newItems.set(idKey(struct.id), struct);
+    }
+
+    // formats sit inside the text they apply to, either named directly as
+    // parent or implied by the items they were inserted next to
+    const resolveParent = (item: Y.Item, depth = 0): unknown => {
+      if (depth > newItems.size) return null;
+      if (item.parent instanceof Y.ID) {
+        const parentItem = Y.getItem(store, item.parent) as Y.Item;
+        return parentItem.content instanceof Y.ContentType
+          ? parentItem.content.type
+          : null;
+      }
+      if (item.parent !== null) return item.parent;
+
+      const neighbour = item.origin ?? item.rightOrigin;
+      if (!neighbour) return null;
+      const newNeighbour = newItems.get(idKey(neighbour));
+      if (newNeighbour) return resolveParent(newNeighbour, depth + 1);
+      return (Y.getItem(store, neighbour) as Y.Item).parent;
+    };
+
+    for (const item of newItems.values()) {
+      const parent = resolveParent(item);
+      if (
+        !(parent instanceof Y.XmlText) ||
+        !Y.isParentOf(fragment, parent._item)
+      ) {
+        return false;
+      }
+    }
+
+    for (const [client, deletes] of ds.clients) {
+      for (const { clock, len } of deletes) {
+        let current = clock;
+        while (current < clock + len) {
+          const id = Y.createID(client, current);
+          if (!isKnown(id)) {
+            if (!newItems.has(idKey(id))) return false;
+            current++;
+            continue;
+          }
+
+          const struct = Y.getItem(store, id);
+          if (!struct.deleted && !isCommentFormat(struct)) return false;
+          current = struct.id.clock + struct.length;
+        }
+      }
+    }
+
+    return true;
+  } catch {
+    return false;
+  }
+}
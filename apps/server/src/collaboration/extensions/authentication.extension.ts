@@ -1,5 +1,12 @@
-import { Extension, onAuthenticatePayload } from '@hocuspocus/server';
 import {
+  beforeHandleMessagePayload,
+  Extension,
+  IncomingMessage,
+  MessageType,
+  onAuthenticatePayload,
+} from '@hocuspocus/server';
+import {
+  ForbiddenException,
   Injectable,
   Logger,
   NotFoundException,
@@ -8,11 +15,20 @@ import {
 import { TokenService } from '../../core/auth/services/token.service';
 import { UserRepo } from '@docmost/db/repos/user/user.repo';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
-import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
-import { findHighestUserSpaceRole } from '@docmost/db/repos/space/utils';
-import { SpaceRole } from '../../common/helpers/types/permission';
-import { getPageId } from '../collaboration.util';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import SpaceAbilityFactory from '../../core/casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../core/casl/interfaces/space-ability.type';
+import { getPageId, isCommentOnlyUpdate } from '../collaboration.util';
 import { JwtCollabPayload, JwtType } from '../../core/auth/dto/jwt-payload';
+import { isPageLockedForUser } from '../../core/page/page-lock.util';
+import { canViewPageDraft } from '../../core/page-review/page-review.util';
+
+// y-protocols sync message types
+const SYNC_STEP_2 = 1;
+const SYNC_UPDATE = 2;
 
 @Injectable()
 export class AuthenticationExtension implements Extension {
@@ -22,7 +38,8 @@ export class AuthenticationExtension implements Extension {
     private tokenService: TokenService,
     private userRepo: UserRepo,
     private pageRepo: PageRepo,
-    private readonly spaceMemberRepo: SpaceMemberRepo,
+    private spaceRepo: SpaceRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
   ) {}
 
   async onAuthenticate(data: onAuthenticatePayload) {
@@ -56,27 +73,75 @@ export class AuthenticationExtension implements Extension {
       throw new NotFoundException('Page not found');
     }
 
-    const userSpaceRoles = await this.spaceMemberRepo.getUserSpaceRoles(
-      user.id,
-      page.spaceId,
-    );
-
-    const userSpaceRole = findHighestUserSpaceRole(userSpaceRoles);
+    // page restrictions override the user's space role
+    const ability = await this.spaceAbility
+      .createForPage(user, page)
+      .catch(() => null);
 
-    if (!userSpaceRole) {
+    if (
+      !ability ||
+      ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)
+    ) {
       this.logger.warn(`User not authorized to access page: ${pageId}`);
       throw new UnauthorizedException();
     }
 
-    if (userSpaceRole === SpaceRole.READER) {
+    // readers of review workflow spaces only get the published version
+    const space = await this.spaceRepo.findById(page.spaceId, workspaceId);
+    if (!canViewPageDraft(space, ability)) {
+      this.logger.debug(`User not allowed to view draft of page: ${pageId}`);
+      throw new UnauthorizedException();
+    }
+
+    // locked pages are read-only for everyone but space admins and the creator
+    const isLocked = isPageLockedForUser(page, user.id, ability);
+
+    // commenters keep a writable connection so they can add comment marks,
+    // every other change they send is rejected in beforeHandleMessage
+    let commentOnly = false;
+    if (isLocked) {
       data.connection.readOnly = true;
-      this.logger.debug(`User granted readonly access to page: ${pageId}`);
+      this.logger.debug(
+        `User granted readonly access to locked page: ${pageId}`,
+      );
+    } else if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      if (ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Comment)) {
+        commentOnly = true;
+        this.logger.debug(
+          `User granted comment-only access to page: ${pageId}`,
+        );
+      } else {
+        data.connection.readOnly = true;
+        this.logger.debug(`User granted readonly access to page: ${pageId}`);
+      }
     }
 
     this.logger.debug(`Authenticated user ${user.id} on page ${pageId}`);
 
     return {
       user,
+      commentOnly,
     };
   }
+
+  async beforeHandleMessage(data: beforeHandleMessagePayload) {
+    if (!data.context?.commentOnly) return;
+
+    const message = new IncomingMessage(data.update);
+    message.readVarString();
+    const type = message.readVarUint();
+    if (type !== MessageType.Sync && type !== MessageType.SyncReply) return;
+
+    // sync step 1 only carries a state vector
+    const syncType = message.readVarUint();
+    if (syncType !== SYNC_STEP_2 && syncType !== SYNC_UPDATE) return;
+
+    const update = message.readVarUint8Array();
+    if (!isCommentOnlyUpdate(data.document, update)) {
+      this.logger.warn(
+        `Rejected non-comment change from commenter on ${data.documentName}`,
+      );
+      throw new ForbiddenException();
+    }
+  }
 }
@@ -10,6 +10,7 @@ import { Injectable, Logger } from '@nestjs/common';
 import { TiptapTransformer } from '@hocuspocus/transformer';
 import { getPageId, jsonToText, tiptapExtensions } from '../collaboration.util';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PageTaskRepo } from '@docmost/db/repos/page/page-task.repo';
 import { InjectKysely } from 'nestjs-kysely';
 import { KyselyDB } from '@docmost/db/types/kysely.types';
 import { executeTx } from '@docmost/db/utils';
@@ -20,9 +21,16 @@ import { Queue } from 'bullmq';
 import {
   extractMentions,
   extractPageMentions,
+  extractTasks,
+  extractUserMentions,
+  getProsemirrorContent,
+  TaskItemNode,
 } from '../../common/helpers/prosemirror/utils';
 import { isDeepStrictEqual } from 'node:util';
-import { IPageBacklinkJob } from '../../integrations/queue/constants/queue.interface';
+import {
+  IPageBacklinkJob,
+  IPageMentionNotificationJob,
+} from '../../integrations/queue/constants/queue.interface';
 import { Page } from '@docmost/db/types/entity.types';
 
 @Injectable()
@@ -32,10 +40,13 @@ export class PersistenceExtension implements Extension {
 
   constructor(
     private readonly pageRepo: PageRepo,
+    private readonly pageTaskRepo: PageTaskRepo,
     @InjectKysely() private readonly db: KyselyDB,
     private eventEmitter: EventEmitter2,
     @InjectQueue(QueueName.GENERAL_QUEUE) private generalQueue: Queue,
     @InjectQueue(QueueName.AI_QUEUE) private aiQueue: Queue,
+    @InjectQueue(QueueName.NOTIFICATION_QUEUE)
+    private notificationQueue: Queue,
   ) {}
 
   async onLoadDocument(data: onLoadDocumentPayload) {
@@ -100,6 +111,14 @@ export class PersistenceExtension implements Extension {
       this.logger.warn('jsonToText' + err?.['message']);
     }
 
+    let tasks: TaskItemNode[] = null;
+
+    try {
+      tasks = extractTasks(tiptapJson);
+    } catch (err) {
+      this.logger.warn('extractTasks' + err?.['message']);
+    }
+
     let page: Page = null;
 
     try {
@@ -146,6 +165,10 @@ export class PersistenceExtension implements Extension {
           trx,
         );
 
+        if (tasks) {
+          await this.pageTaskRepo.syncPageTasks(page, tasks, trx);
+        }
+
         this.logger.debug(`Page updated: ${pageId} - SlugId: ${page.slugId}`);
       });
     } catch (err) {
@@ -170,6 +193,27 @@ export class PersistenceExtension implements Extension {
         mentions: pageMentions,
       } as IPageBacklinkJob);
 
+      // page.content still holds the previously stored content here
+      const previousMentionIds = new Set(
+        extractUserMentions(
+          extractMentions(getProsemirrorContent(page.content)),
+        ).map((mention) => mention.id),
+      );
+      const newUserMentions = extractUserMentions(mentions).filter(
+        (mention) =>
+          !previousMentionIds.has(mention.id) &&
+          mention.entityId !== context.user.id,
+      );
+
+      if (newUserMentions.length > 0) {
+        await this.notificationQueue.add(QueueJob.PAGE_MENTION_NOTIFICATIONS, {
+          pageId: pageId,
+          workspaceId: page.workspaceId,
+          actorId: context.user.id,
+          mentions: newUserMentions,
+        } as IPageMentionNotificationJob);
+      }
+
       await this.aiQueue.add(QueueJob.PAGE_CONTENT_UPDATED, {
         pageIds: [pageId],
         workspaceId: page.workspaceId,
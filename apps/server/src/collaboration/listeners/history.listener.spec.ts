@@ -0,0 +1,71 @@
+import { HistoryListener } from './history.listener';
+import { PageHistoryRepo } from '@docmost/db/repos/page/page-history.repo';
+import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
+import { Page } from '@docmost/db/types/entity.types';
+
+describe('HistoryListener', () => {
+  const page = {
+    id: 'page-1',
+    workspaceId: 'workspace-1',
+    createdAt: new Date('2026-01-01'),
+    content: { type: 'doc', content: [] },
+  } as unknown as Page;
+
+  let pageHistoryRepo: {
+    findPageLastHistory: jest.Mock;
+    saveHistory: jest.Mock;
+  };
+  let workspaceRepo: { findById: jest.Mock };
+  let listener: HistoryListener;
+
+  beforeEach(() => {
+    pageHistoryRepo = {
+      findPageLastHistory: jest.fn().mockResolvedValue(null),
+      saveHistory: jest.fn(),
+    };
+    workspaceRepo = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ settings: { history: { snapshotInterval: 10 } } }),
+    };
+
+    listener = new HistoryListener(
+      pageHistoryRepo as unknown as PageHistoryRepo,
+      workspaceRepo as unknown as WorkspaceRepo,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('saves a version for pages without history', async () => {
+    await listener.handleCreatePageHistory({ page });
+
+    expect(pageHistoryRepo.saveHistory).toHaveBeenCalledWith(page);
+  });
+
+  it('looks up the snapshot interval once per workspace', async () => {
+    await listener.handleCreatePageHistory({ page });
+    await listener.handleCreatePageHistory({ page });
+
+    expect(workspaceRepo.findById).toHaveBeenCalledTimes(1);
+  });
+
+  it('picks up interval changes after a minute', async () => {
+    jest.useFakeTimers({ now: new Date('2026-06-01T10:00:00Z') });
+    await listener.handleCreatePageHistory({ page });
+
+    jest.setSystemTime(new Date('2026-06-01T10:01:01Z'));
+    await listener.handleCreatePageHistory({ page });
+
+    expect(workspaceRepo.findById).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips pages younger than the snapshot interval', async () => {
+    await listener.handleCreatePageHistory({
+      page: { ...page, createdAt: new Date() },
+    });
+
+    expect(pageHistoryRepo.findPageLastHistory).not.toHaveBeenCalled();
+    expect(pageHistoryRepo.saveHistory).not.toHaveBeenCalled();
+  });
+});
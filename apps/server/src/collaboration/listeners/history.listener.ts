@@ -1,8 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { OnEvent } from '@nestjs/event-emitter';
 import { PageHistoryRepo } from '@docmost/db/repos/page/page-history.repo';
+import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
 import { Page } from '@docmost/db/types/entity.types';
 import { isDeepStrictEqual } from 'node:util';
+import { getPageHistorySettings } from '../../core/page/page-history.constants';
+
+// workspace settings rarely change, pages are saved all the time
+const SNAPSHOT_INTERVAL_CACHE_TTL_MS = 60 * 1000;
 
 export class UpdatedPageEvent {
   page: Page;
@@ -11,18 +16,27 @@ export class UpdatedPageEvent {
 @Injectable()
 export class HistoryListener {
   private readonly logger = new Logger(HistoryListener.name);
+  private snapshotIntervals = new Map<
+    string,
+    { minutes: number; expiresAt: number }
+  >();
 
-  constructor(private readonly pageHistoryRepo: PageHistoryRepo) {}
+  constructor(
+    private readonly pageHistoryRepo: PageHistoryRepo,
+    private readonly workspaceRepo: WorkspaceRepo,
+  ) {}
 
   @OnEvent('collab.page.updated')
   async handleCreatePageHistory(event: UpdatedPageEvent) {
     const { page } = event;
 
+    const snapshotInterval = await this.getSnapshotInterval(page.workspaceId);
+
     const pageCreationTime = new Date(page.createdAt).getTime();
     const currentTime = Date.now();
-    const FIVE_MINUTES = 5 * 60 * 1000;
+    const intervalMs = snapshotInterval * 60 * 1000;
 
-    if (currentTime - pageCreationTime < FIVE_MINUTES) {
+    if (currentTime - pageCreationTime < intervalMs) {
       return;
     }
 
@@ -31,7 +45,7 @@ export class HistoryListener {
     if (
       !lastHistory ||
       (!isDeepStrictEqual(lastHistory.content, page.content) &&
-        currentTime - new Date(lastHistory.createdAt).getTime() >= FIVE_MINUTES)
+        currentTime - new Date(lastHistory.createdAt).getTime() >= intervalMs)
     ) {
       try {
         await this.pageHistoryRepo.saveHistory(page);
@@ -41,4 +55,20 @@ export class HistoryListener {
       }
     }
   }
+
+  private async getSnapshotInterval(workspaceId: string): Promise<number> {
+    const cached = this.snapshotIntervals.get(workspaceId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.minutes;
+    }
+
+    const workspace = await this.workspaceRepo.findById(workspaceId);
+    const { snapshotInterval } = getPageHistorySettings(workspace);
+    this.snapshotIntervals.set(workspaceId, {
+      minutes: snapshotInterval,
+      expiresAt: Date.now() + SNAPSHOT_INTERVAL_CACHE_TTL_MS,
+    });
+
+    return snapshotInterval;
+  }
 }
@@ -0,0 +1,29 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { QueueJob, QueueName } from '../../integrations/queue/constants';
+import { IWatcherNotificationJob } from '../../integrations/queue/constants/queue.interface';
+import { NotificationType } from '../../core/notification/notification.constants';
+import { UpdatedPageEvent } from './history.listener';
+
+@Injectable()
+export class WatcherListener {
+  constructor(
+    @InjectQueue(QueueName.NOTIFICATION_QUEUE)
+    private readonly notificationQueue: Queue,
+  ) {}
+
+  // the collaboration server may run on its own, so watchers are resolved by the queue worker
+  @OnEvent('collab.page.updated')
+  async handlePageUpdated(event: UpdatedPageEvent) {
+    const { page } = event;
+
+    await this.notificationQueue.add(QueueJob.WATCHER_NOTIFICATIONS, {
+      type: NotificationType.PAGE_UPDATED,
+      pageIds: [page.id],
+      workspaceId: page.workspaceId,
+      actorId: page.lastUpdatedById,
+    } as IWatcherNotificationJob);
+  }
+}
@@ -1,5 +1,6 @@
 import {
   ExecutionContext,
+  ForbiddenException,
   Injectable,
   UnauthorizedException,
 } from '@nestjs/common';
@@ -8,6 +9,7 @@ import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
 import { Reflector } from '@nestjs/core';
 import { EnvironmentService } from '../../integrations/environment/environment.service';
 import { addDays } from 'date-fns';
+import { REQUIRED_SCOPES_KEY } from '../../core/public-api/decorators/require-scopes.decorator';
 
 @Injectable()
 export class JwtAuthGuard extends AuthGuard('jwt') {
@@ -36,6 +38,20 @@ export class JwtAuthGuard extends AuthGuard('jwt') {
       throw err || new UnauthorizedException();
     }
 
+    // scoped API keys only work on routes that declare their scopes,
+    // keys created before scopes existed keep full access
+    if (user.apiKeyId && user.apiKeyScopes) {
+      const requiredScopes = this.reflector.getAllAndOverride<string[]>(
+        REQUIRED_SCOPES_KEY,
+        [ctx.getHandler(), ctx.getClass()],
+      );
+      if (!requiredScopes?.length) {
+        throw new ForbiddenException(
+          'This API key can only be used with the versioned public API',
+        );
+      }
+    }
+
     this.setJoinedWorkspacesCookie(user, ctx);
     return user;
   }
@@ -64,6 +64,75 @@ export function extractPageMentions(mentionList: MentionNode[]): MentionNode[] {
   return pageMentionList as MentionNode[];
 }
 
+export interface TaskItemNode {
+  taskId: string;
+  text: string;
+  isCompleted: boolean;
+  // the first user mentioned in the task text
+  assigneeId: string | null;
+  dueDate: string | null;
+}
+
+const TASK_TEXT_MAX_LENGTH = 1000;
+const TASK_DUE_DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+/*
+ * Collects the task items of a document.
+ * Nested task lists are separate tasks, so only the item's own
+ * paragraphs count towards its text and assignee.
+ */
+export function extractTasks(prosemirrorJson: any): TaskItemNode[] {
+  const tasks: TaskItemNode[] = [];
+  const doc = jsonToNode(prosemirrorJson);
+
+  doc.descendants((node: Node) => {
+    if (
+      node.type.name !== 'taskItem' ||
+      !node.attrs.id ||
+      node.attrs.id.length > 64
+    ) {
+      return;
+    }
+    if (tasks.some((task) => task.taskId === node.attrs.id)) {
+      return;
+    }
+
+    const textParts: string[] = [];
+    let assigneeId: string | null = null;
+
+    node.forEach((child) => {
+      if (child.type.name === 'taskList' || child.type.name === 'bulletList') {
+        return;
+      }
+
+      child.descendants((inline) => {
+        if (inline.isText) {
+          textParts.push(inline.text);
+        } else if (inline.type.name === 'mention') {
+          textParts.push(`@${inline.attrs.label ?? ''}`);
+          if (!assigneeId && inline.attrs.entityType === 'user') {
+            assigneeId = inline.attrs.entityId;
+          }
+        }
+      });
+    });
+
+    tasks.push({
+      taskId: node.attrs.id,
+      text: textParts.join('').trim().slice(0, TASK_TEXT_MAX_LENGTH),
+      isCompleted: Boolean(node.attrs.checked),
+      assigneeId: isValidUUID(assigneeId ?? '') ? assigneeId : null,
+      dueDate:
+        TASK_DUE_DATE_REGEX.test(node.attrs.dueDate ?? '') &&
+        !isNaN(Date.parse(node.attrs.dueDate))
+          ? node.attrs.dueDate
+          : null,
+    });
+  });
+
+  return tasks;
+}
+
 export function getProsemirrorContent(content: any) {
   return (
     content ?? {
@@ -7,9 +7,15 @@ export enum UserRole {
 export enum SpaceRole {
   ADMIN = 'admin', // can manage space settings, members, and delete space
   WRITER = 'writer', // can read and write pages in space
+  COMMENTER = 'commenter', // can read pages and comment on them
   READER = 'reader', // can only read pages in space
 }
 
+export enum PageRole {
+  WRITER = 'writer', // can read and write a restricted page
+  READER = 'reader', // can only read a restricted page
+}
+
 export enum SpaceVisibility {
   OPEN = 'open', // any workspace member can see that it exists and join.
   PRIVATE = 'private', // only added space users can see
@@ -21,10 +21,10 @@ export class TransformHttpResponseInterceptor<T>
     context: ExecutionContext,
     next: CallHandler<T>,
   ): Observable<Response<T> | any> {
-    const skipTransform = this.reflector.get(
-      SKIP_TRANSFORM_KEY,
+    const skipTransform = this.reflector.getAllAndOverride(SKIP_TRANSFORM_KEY, [
       context.getHandler(),
-    );
+      context.getClass(),
+    ]);
 
     if (skipTransform) {
       return next.handle();
@@ -53,6 +53,8 @@ import { TokenService } from '../auth/services/token.service';
 import { JwtAttachmentPayload, JwtType } from '../auth/dto/jwt-payload';
 import * as path from 'path';
 import { RemoveIconDto } from './dto/attachment.dto';
+import { ShareRepo } from '@docmost/db/repos/share/share.repo';
+import { isShareExpired } from '../share/share.util';
 
 @Controller()
 export class AttachmentController {
@@ -67,6 +69,7 @@ export class AttachmentController {
     private readonly attachmentRepo: AttachmentRepo,
     private readonly environmentService: EnvironmentService,
     private readonly tokenService: TokenService,
+    private readonly shareRepo: ShareRepo,
   ) {}
 
   @UseGuards(JwtAuthGuard)
@@ -111,11 +114,8 @@ export class AttachmentController {
       throw new NotFoundException('Page not found');
     }
 
-    const spaceAbility = await this.spaceAbility.createForUser(
-      user,
-      page.spaceId,
-    );
-    if (spaceAbility.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Page)) {
+    const spaceAbility = await this.spaceAbility.createForPage(user, page);
+    if (spaceAbility.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
@@ -171,10 +171,10 @@ export class AttachmentController {
       throw new NotFoundException();
     }
 
-    const spaceAbility = await this.spaceAbility.createForUser(
-      user,
-      attachment.spaceId,
-    );
+    const spaceAbility = await this.spaceAbility.createForPage(user, {
+      id: attachment.pageId,
+      spaceId: attachment.spaceId,
+    });
 
     if (spaceAbility.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
@@ -240,6 +240,25 @@ export class AttachmentController {
       throw new NotFoundException('File not found');
     }
 
+    if (jwtPayload.shareId) {
+      const share = await this.shareRepo.findById(jwtPayload.shareId);
+      if (
+        !share ||
+        share.workspaceId !== workspace.id ||
+        isShareExpired(share)
+      ) {
+        throw new NotFoundException('File not found');
+      }
+
+      // files that are not displayed inline can only be downloaded
+      if (
+        share.disableDownload &&
+        !inlineFileExtensions.includes(attachment.fileExt)
+      ) {
+        throw new ForbiddenException('Downloads are disabled for this share');
+      }
+    }
+
     try {
       const fileStream = await this.storageService.read(attachment.filePath);
       res.headers({
@@ -11,5 +11,6 @@ import { TokenModule } from '../auth/token.module';
   imports: [StorageModule, UserModule, WorkspaceModule, TokenModule],
   controllers: [AttachmentController],
   providers: [AttachmentService, AttachmentProcessor],
+  exports: [AttachmentService],
 })
 export class AttachmentModule {}
@@ -0,0 +1,31 @@
+export enum AuditAction {
+  WORKSPACE_MEMBER_ROLE_CHANGED = 'workspace.member.role_changed',
+  WORKSPACE_MEMBER_DELETED = 'workspace.member.deleted',
+  SPACE_MEMBER_ADDED = 'space.member.added',
+  SPACE_MEMBER_REMOVED = 'space.member.removed',
+  SPACE_MEMBER_ROLE_CHANGED = 'space.member.role_changed',
+  SHARE_CREATED = 'share.created',
+  SHARE_UPDATED = 'share.updated',
+  SHARE_DELETED = 'share.deleted',
+  PAGE_DELETED = 'page.deleted',
+  PAGE_PERMANENTLY_DELETED = 'page.permanently_deleted',
+  PAGE_RESTORED = 'page.restored',
+  PAGE_EXPORTED = 'page.exported',
+  SPACE_EXPORTED = 'space.exported',
+}
+
+export enum AuditResource {
+  USER = 'user',
+  GROUP = 'group',
+  SPACE = 'space',
+  PAGE = 'page',
+  SHARE = 'share',
+}
+
+export enum AuditExportFormat {
+  CSV = 'csv',
+  JSON = 'json',
+}
+
+// upper bound of entries in a single export
+export const AUDIT_EXPORT_LIMIT = 10000;
@@ -0,0 +1,78 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Res,
+  UseGuards,
+} from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import WorkspaceAbilityFactory from '../casl/abilities/workspace-ability.factory';
+import {
+  WorkspaceCaslAction,
+  WorkspaceCaslSubject,
+} from '../casl/interfaces/workspace-ability.type';
+import { AuditLogService } from './audit-log.service';
+import { AuditLogFilterDto, ExportAuditLogDto } from './dto/audit-log.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('audit-logs')
+export class AuditLogController {
+  constructor(
+    private readonly auditLogService: AuditLogService,
+    private readonly workspaceAbility: WorkspaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/')
+  async getAuditLogs(
+    @Body() dto: AuditLogFilterDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    this.assertCanManageSettings(user, workspace);
+    return this.auditLogService.getAuditLogs(workspace.id, dto, pagination);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('export')
+  async exportAuditLogs(
+    @Body() dto: ExportAuditLogDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+    @Res() res: FastifyReply,
+  ) {
+    this.assertCanManageSettings(user, workspace);
+
+    const file = await this.auditLogService.exportAuditLogs(
+      workspace.id,
+      dto,
+      dto.format,
+    );
+    const date = new Date().toISOString().slice(0, 10);
+
+    res.headers({
+      'Content-Type': file.contentType,
+      'Content-Disposition': `attachment; filename="audit-log-${date}.${dto.format}"`,
+    });
+
+    res.send(file.body);
+  }
+
+  private assertCanManageSettings(user: User, workspace: Workspace) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+  }
+}
@@ -0,0 +1,12 @@
+import { Global, Module } from '@nestjs/common';
+import { AuditLogController } from './audit-log.controller';
+import { AuditLogService } from './audit-log.service';
+import { AuditSyslogSink } from './audit-syslog.sink';
+
+@Global()
+@Module({
+  controllers: [AuditLogController],
+  providers: [AuditLogService, AuditSyslogSink],
+  exports: [AuditLogService],
+})
+export class AuditLogModule {}
@@ -0,0 +1,45 @@
+import { AuditLogService } from './audit-log.service';
+import { AuditSyslogSink } from './audit-syslog.sink';
+import { AuditLogRepo } from '@docmost/db/repos/audit-log/audit-log.repo';
+import { AuditAction, AuditResource } from './audit-log.constants';
+
+describe('AuditLogService', () => {
+  const entry = {
+    workspaceId: 'workspace-1',
+    actorId: 'user-1',
+    action: AuditAction.SHARE_CREATED,
+    resourceType: AuditResource.SHARE,
+  };
+
+  let auditLogRepo: { insertAuditLog: jest.Mock };
+  let syslogSink: { send: jest.Mock };
+  let service: AuditLogService;
+
+  beforeEach(() => {
+    auditLogRepo = {
+      insertAuditLog: jest.fn().mockResolvedValue({ id: 'audit-1' }),
+    };
+    syslogSink = { send: jest.fn() };
+
+    service = new AuditLogService(
+      auditLogRepo as unknown as AuditLogRepo,
+      syslogSink as unknown as AuditSyslogSink,
+    );
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => {});
+  });
+
+  it('does not wait for the syslog sink', async () => {
+    syslogSink.send.mockReturnValue(new Promise(() => {}));
+
+    await service.log(entry);
+
+    expect(syslogSink.send).toHaveBeenCalledWith({ id: 'audit-1' });
+  });
+
+  it('swallows insert failures', async () => {
+    auditLogRepo.insertAuditLog.mockRejectedValue(new Error('db down'));
+
+    await expect(service.log(entry)).resolves.toBeUndefined();
+    expect(syslogSink.send).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,147 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  AuditLogFilters,
+  AuditLogRepo,
+} from '@docmost/db/repos/audit-log/audit-log.repo';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { InsertableAuditLog } from '@docmost/db/types/entity.types';
+import { AuditSyslogSink } from './audit-syslog.sink';
+import { AuditLogFilterDto } from './dto/audit-log.dto';
+import {
+  AUDIT_EXPORT_LIMIT,
+  AuditAction,
+  AuditExportFormat,
+  AuditResource,
+} from './audit-log.constants';
+
+export interface AuditEntry {
+  workspaceId: string;
+  actorId: string | null;
+  action: AuditAction;
+  resourceType: AuditResource;
+  resourceId?: string;
+  spaceId?: string;
+  metadata?: Record<string, any>;
+}
+
+const CSV_COLUMNS = [
+  'createdAt',
+  'action',
+  'actorId',
+  'actorName',
+  'actorEmail',
+  'resourceType',
+  'resourceId',
+  'spaceId',
+  'metadata',
+];
+
+@Injectable()
+export class AuditLogService {
+  private readonly logger = new Logger(AuditLogService.name);
+
+  constructor(
+    private readonly auditLogRepo: AuditLogRepo,
+    private readonly syslogSink: AuditSyslogSink,
+  ) {}
+
+  /**
+   * Appends an entry to the audit log.
+   * Failures are logged and never break the audited action.
+   */
+  async log(entry: AuditEntry): Promise<void> {
+    try {
+      const auditLog = await this.auditLogRepo.insertAuditLog({
+        workspaceId: entry.workspaceId,
+        actorId: entry.actorId,
+        action: entry.action,
+        resourceType: entry.resourceType,
+        resourceId: entry.resourceId ?? null,
+        spaceId: entry.spaceId ?? null,
+        metadata: entry.metadata ?? null,
+      } as InsertableAuditLog);
+
+      // a slow syslog server must not hold up the audited request
+      void this.syslogSink.send(auditLog);
+    } catch (err) {
+      this.logger.error(`Failed to write audit log ${entry.action}`, err);
+    }
+  }
+
+  async getAuditLogs(
+    workspaceId: string,
+    dto: AuditLogFilterDto,
+    pagination: PaginationOptions,
+  ) {
+    return this.auditLogRepo.getAuditLogsPaginated(
+      workspaceId,
+      this.toFilters(dto),
+      pagination,
+    );
+  }
+
+  async exportAuditLogs(
+    workspaceId: string,
+    dto: AuditLogFilterDto,
+    format: string,
+  ): Promise<{ contentType: string; body: string }> {
+    const entries = await this.auditLogRepo.getAuditLogsForExport(
+      workspaceId,
+      this.toFilters(dto),
+      AUDIT_EXPORT_LIMIT,
+    );
+
+    if (format === AuditExportFormat.JSON) {
+      return {
+        contentType: 'application/json',
+        body: JSON.stringify(entries, null, 2),
+      };
+    }
+
+    const rows = entries.map((entry) =>
+      [
+        new Date(entry.createdAt).toISOString(),
+        entry.action,
+        entry.actorId,
+        entry.actor?.name,
+        entry.actor?.email,
+        entry.resourceType,
+        entry.resourceId,
+        entry.spaceId,
+        entry.metadata ? JSON.stringify(entry.metadata) : '',
+      ]
+        .map(toCsvField)
+        .join(','),
+    );
+
+    return {
+      contentType: 'text/csv',
+      body: [CSV_COLUMNS.join(','), ...rows].join('\r\n'),
+    };
+  }
+
+  private toFilters(dto: AuditLogFilterDto): AuditLogFilters {
+    return {
+      action: dto.action,
+      actorId: dto.actorId,
+      resourceType: dto.resourceType,
+      resourceId: dto.resourceId,
+      spaceId: dto.spaceId,
+      startDate: dto.startDate ? new Date(dto.startDate) : undefined,
+      endDate: dto.endDate ? new Date(dto.endDate) : undefined,
+    };
+  }
+}
+
+function toCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let field = String(value);
+  // keep spreadsheet apps from evaluating fields as formulas
+  if (/^[=+\-@\t\r]/.test(field)) {
+    field = `'${field}`;
+  }
+  if (/[",\r\n]/.test(field)) {
+    field = `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
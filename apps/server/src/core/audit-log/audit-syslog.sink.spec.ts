@@ -0,0 +1,76 @@
+import { EventEmitter } from 'node:events';
+import * as net from 'node:net';
+import { AuditSyslogSink } from './audit-syslog.sink';
+import { EnvironmentService } from '../../integrations/environment/environment.service';
+import { AuditLog } from '@docmost/db/types/entity.types';
+import { AuditAction } from './audit-log.constants';
+
+class StalledSocket extends EventEmitter {
+  destroyed = false;
+  private pending: ((err?: Error) => void)[] = [];
+
+  setKeepAlive() {}
+  unref() {}
+
+  write(_frame: string, cb: (err?: Error) => void) {
+    this.pending.push(cb);
+    return false;
+  }
+
+  destroy(err?: Error) {
+    this.destroyed = true;
+    if (err) this.emit('error', err);
+    this.pending.splice(0).forEach((cb) => cb(err));
+  }
+}
+
+describe('AuditSyslogSink', () => {
+  const entry = {
+    id: 'audit-1',
+    workspaceId: 'workspace-1',
+    action: AuditAction.PAGE_DELETED,
+    createdAt: new Date(),
+  } as AuditLog;
+
+  let socket: StalledSocket;
+  let sink: AuditSyslogSink;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    socket = new StalledSocket();
+    jest
+      .spyOn(net, 'createConnection')
+      .mockReturnValue(socket as unknown as net.Socket);
+
+    sink = new AuditSyslogSink({
+      getAuditSyslogHost: () => 'syslog.internal',
+      getAuditSyslogPort: () => 6514,
+      getAuditSyslogProtocol: () => 'tcp',
+    } as unknown as EnvironmentService);
+    jest.spyOn(sink['logger'], 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  it('gives up on a stalled tcp connection', async () => {
+    const sent = sink.send(entry);
+
+    jest.advanceTimersByTime(5000);
+
+    await expect(sent).resolves.toBeUndefined();
+    expect(socket.destroyed).toBe(true);
+  });
+
+  it('reconnects after a timed out connection', async () => {
+    const first = sink.send(entry);
+    jest.advanceTimersByTime(5000);
+    await first;
+
+    sink.send(entry);
+
+    expect(net.createConnection).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,124 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import * as dgram from 'node:dgram';
+import * as net from 'node:net';
+import * as os from 'node:os';
+import { AuditLog } from '@docmost/db/types/entity.types';
+import { EnvironmentService } from '../../integrations/environment/environment.service';
+
+// facility 13 (log audit), severity 6 (informational)
+const SYSLOG_PRIORITY = 13 * 8 + 6;
+const SYSLOG_APP_NAME = 'docmost';
+const SYSLOG_TCP_TIMEOUT_MS = 5000;
+
+/**
+ * Forwards audit log entries to a syslog server as RFC 5424 messages.
+ * TCP messages use octet-counting framing (RFC 6587).
+ */
+@Injectable()
+export class AuditSyslogSink implements OnModuleDestroy {
+  private readonly logger = new Logger(AuditSyslogSink.name);
+  private udpSocket: dgram.Socket | null = null;
+  private tcpSocket: net.Socket | null = null;
+
+  constructor(private readonly environmentService: EnvironmentService) {}
+
+  isEnabled(): boolean {
+    return Boolean(this.environmentService.getAuditSyslogHost());
+  }
+
+  async send(entry: AuditLog): Promise<void> {
+    if (!this.isEnabled()) return;
+
+    const message = this.format(entry);
+
+    try {
+      if (this.environmentService.getAuditSyslogProtocol() === 'tcp') {
+        await this.sendTcp(`${Buffer.byteLength(message)} ${message}`);
+      } else {
+        await this.sendUdp(message);
+      }
+    } catch (err) {
+      this.logger.error(`Failed to forward audit log ${entry.id}`, err);
+    }
+  }
+
+  onModuleDestroy() {
+    this.udpSocket?.close();
+    this.tcpSocket?.destroy();
+  }
+
+  private format(entry: AuditLog): string {
+    const timestamp = new Date(entry.createdAt).toISOString();
+    const header = [
+      `<${SYSLOG_PRIORITY}>1`,
+      timestamp,
+      os.hostname() || '-',
+      SYSLOG_APP_NAME,
+      process.pid,
+      entry.action,
+      '-',
+    ].join(' ');
+
+    return `${header} ${JSON.stringify({
+      id: entry.id,
+      workspaceId: entry.workspaceId,
+      actorId: entry.actorId,
+      action: entry.action,
+      resourceType: entry.resourceType,
+      resourceId: entry.resourceId,
+      spaceId: entry.spaceId,
+      metadata: entry.metadata,
+      createdAt: timestamp,
+    })}`;
+  }
+
+  private sendUdp(message: string): Promise<void> {
+    if (!this.udpSocket) {
+      this.udpSocket = dgram.createSocket('udp4');
+      this.udpSocket.unref();
+    }
+
+    return new Promise((resolve, reject) => {
+      this.udpSocket.send(
+        message,
+        this.environmentService.getAuditSyslogPort(),
+        this.environmentService.getAuditSyslogHost(),
+        (err) => (err ? reject(err) : resolve()),
+      );
+    });
+  }
+
+  private sendTcp(frame: string): Promise<void> {
+    if (!this.tcpSocket || this.tcpSocket.destroyed) {
+      const socket = net.createConnection({
+        host: this.environmentService.getAuditSyslogHost(),
+        port: this.environmentService.getAuditSyslogPort(),
+      });
+      socket.setKeepAlive(true);
+      socket.unref();
+      socket.on('error', (err) => {
+        this.logger.error('Syslog connection error', err);
+        socket.destroy();
+      });
+      this.tcpSocket = socket;
+    }
+
+    const socket = this.tcpSocket;
+
+    return new Promise((resolve, reject) => {
+      // covers the connect as well, writes are buffered until it completes
+      const timer = setTimeout(() => {
+        socket.destroy(new Error('Syslog write timed out'));
+      }, SYSLOG_TCP_TIMEOUT_MS);
+
+      socket.write(frame, (err) => {
+        clearTimeout(timer);
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+  }
+}
@@ -0,0 +1,48 @@
+import {
+  IsDateString,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+import {
+  AuditAction,
+  AuditExportFormat,
+  AuditResource,
+} from '../audit-log.constants';
+
+export class AuditLogFilterDto {
+  @IsOptional()
+  @IsIn(Object.values(AuditAction))
+  action?: string;
+
+  @IsOptional()
+  @IsUUID()
+  actorId?: string;
+
+  @IsOptional()
+  @IsIn(Object.values(AuditResource))
+  resourceType?: string;
+
+  @IsOptional()
+  @IsUUID()
+  resourceId?: string;
+
+  @IsOptional()
+  @IsUUID()
+  spaceId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
+
+export class ExportAuditLogDto extends AuditLogFilterDto {
+  @IsString()
+  @IsIn(Object.values(AuditExportFormat))
+  format: string;
+}
@@ -5,6 +5,7 @@ export enum JwtType {
   ATTACHMENT = 'attachment',
   MFA_TOKEN = 'mfa_token',
   API_KEY = 'api_key',
+  SHARE_ACCESS = 'share_access',
 }
 export type JwtPayload = {
   sub: string;
@@ -29,6 +30,7 @@ export type JwtAttachmentPayload = {
   attachmentId: string;
   pageId: string;
   workspaceId: string;
+  shareId?: string;
   type: 'attachment';
 };
 
@@ -44,3 +46,9 @@ export type JwtApiKeyPayload = {
   apiKeyId: string;
   type: 'api_key';
 };
+
+export type JwtShareAccessPayload = {
+  shareId: string;
+  workspaceId: string;
+  type: 'share_access';
+};
@@ -12,6 +12,7 @@ import {
   JwtExchangePayload,
   JwtMfaTokenPayload,
   JwtPayload,
+  JwtShareAccessPayload,
   JwtType,
 } from '../dto/jwt-payload';
 import { User } from '@docmost/db/types/entity.types';
@@ -68,17 +69,32 @@ export class TokenService {
     attachmentId: string;
     pageId: string;
     workspaceId: string;
+    shareId?: string;
   }): Promise<string> {
-    const { attachmentId, pageId, workspaceId } = opts;
+    const { attachmentId, pageId, workspaceId, shareId } = opts;
     const payload: JwtAttachmentPayload = {
       attachmentId: attachmentId,
       pageId: pageId,
       workspaceId: workspaceId,
+      shareId: shareId,
       type: JwtType.ATTACHMENT,
     };
     return this.jwtService.sign(payload, { expiresIn: '1h' });
   }
 
+  async generateShareAccessToken(
+    shareId: string,
+    workspaceId: string,
+    expiresIn: string | number,
+  ): Promise<string> {
+    const payload: JwtShareAccessPayload = {
+      shareId,
+      workspaceId,
+      type: JwtType.SHARE_ACCESS,
+    };
+    return this.jwtService.sign(payload, { expiresIn });
+  }
+
   async generateMfaToken(user: User, workspaceId: string): Promise<string> {
     if (user.deactivatedAt || user.deletedAt) {
       throw new ForbiddenException();
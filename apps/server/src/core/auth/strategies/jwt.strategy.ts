@@ -8,6 +8,7 @@ import { UserRepo } from '@docmost/db/repos/user/user.repo';
 import { FastifyRequest } from 'fastify';
 import { extractBearerTokenFromHeader } from '../../../common/helpers';
 import { ModuleRef } from '@nestjs/core';
+import { ApiKeyRepo } from '@docmost/db/repos/api-key/api-key.repo';
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
@@ -16,6 +17,7 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
   constructor(
     private userRepo: UserRepo,
     private workspaceRepo: WorkspaceRepo,
+    private apiKeyRepo: ApiKeyRepo,
     private readonly environmentService: EnvironmentService,
     private moduleRef: ModuleRef,
   ) {
@@ -123,7 +125,22 @@ export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
         strict: false,
       });
 
-      return ApiKeyService.validateApiKey(payload);
+      const result = await ApiKeyService.validateApiKey(payload);
+
+      const apiKey = await this.apiKeyRepo.findById(
+        payload.apiKeyId,
+        payload.workspaceId,
+      );
+      if (!apiKey) {
+        throw new UnauthorizedException();
+      }
+
+      // used by the auth and scope guards to enforce the scopes of the key
+      return {
+        ...result,
+        apiKeyId: apiKey.id,
+        apiKeyScopes: apiKey.scopes,
+      };
     }
 
     throw new UnauthorizedException('Enterprise API Key module missing');
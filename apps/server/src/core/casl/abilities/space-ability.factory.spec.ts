@@ -0,0 +1,170 @@
+import SpaceAbilityFactory from './space-ability.factory';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import {
+  PagePermissionRepo,
+  PageRestriction,
+} from '@docmost/db/repos/page/page-permission.repo';
+import { CustomSpaceRoleRepo } from '@docmost/db/repos/space/custom-space-role.repo';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../interfaces/space-ability.type';
+import { PageRole, SpaceRole } from '../../../common/helpers/types/permission';
+
+describe('SpaceAbilityFactory', () => {
+  const user = { id: 'user-1' };
+  const page = { id: 'page-1', spaceId: 'space-1' };
+
+  let spaceMemberRepo: { getUserSpaceRoles: jest.Mock };
+  let pagePermissionRepo: { getPageRestrictions: jest.Mock };
+  let customSpaceRoleRepo: { findByIds: jest.Mock };
+  let factory: SpaceAbilityFactory;
+
+  const givenSpaceRoles = (...roles: string[]) =>
+    spaceMemberRepo.getUserSpaceRoles.mockResolvedValue(
+      roles.map((role) => ({ userId: user.id, role })),
+    );
+
+  const givenPageRole = (role: string | null) =>
+    pagePermissionRepo.getPageRestrictions.mockResolvedValue([
+      { pageId: page.id, title: 'Restricted', role },
+    ] as PageRestriction[]);
+
+  beforeEach(() => {
+    spaceMemberRepo = { getUserSpaceRoles: jest.fn() };
+    pagePermissionRepo = { getPageRestrictions: jest.fn() };
+    customSpaceRoleRepo = { findByIds: jest.fn().mockResolvedValue([]) };
+
+    factory = new SpaceAbilityFactory(
+      spaceMemberRepo as unknown as SpaceMemberRepo,
+      pagePermissionRepo as unknown as PagePermissionRepo,
+      customSpaceRoleRepo as unknown as CustomSpaceRoleRepo,
+    );
+  });
+
+  describe('createForPage', () => {
+    it('returns the space ability on unrestricted pages', async () => {
+      givenSpaceRoles(SpaceRole.WRITER);
+      pagePermissionRepo.getPageRestrictions.mockResolvedValue([]);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Delete, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+    });
+
+    it('denies access when the user has no role on a restricted page', async () => {
+      givenSpaceRoles(SpaceRole.WRITER);
+      givenPageRole(null);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      expect(ability.can(SpaceCaslAction.Read, SpaceCaslSubject.Comment)).toBe(
+        false,
+      );
+    });
+
+    it('lets page writers edit but not delete or manage', async () => {
+      givenSpaceRoles(SpaceRole.WRITER);
+      givenPageRole(PageRole.WRITER);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+      expect(ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+      expect(ability.can(SpaceCaslAction.Delete, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      expect(ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      expect(ability.can(SpaceCaslAction.Delete, SpaceCaslSubject.Share)).toBe(
+        false,
+      );
+    });
+
+    it('never grants page writers more than their space role', async () => {
+      givenSpaceRoles(SpaceRole.READER);
+      givenPageRole(PageRole.WRITER);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+      expect(ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      expect(ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Share)).toBe(
+        false,
+      );
+      expect(
+        ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Comment),
+      ).toBe(false);
+    });
+
+    it('keeps custom role limits on restricted pages', async () => {
+      givenSpaceRoles('custom-role');
+      customSpaceRoleRepo.findByIds.mockResolvedValue([
+        {
+          id: 'custom-role',
+          permissions: [
+            { action: SpaceCaslAction.Read, subject: SpaceCaslSubject.Page },
+            { action: SpaceCaslAction.Edit, subject: SpaceCaslSubject.Page },
+          ],
+        },
+      ]);
+      givenPageRole(PageRole.WRITER);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+      expect(ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      expect(ability.can(SpaceCaslAction.Delete, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+    });
+
+    it('makes restricted pages read-only for page readers', async () => {
+      givenSpaceRoles(SpaceRole.WRITER);
+      givenPageRole(PageRole.READER);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(ability.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+      expect(ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)).toBe(
+        false,
+      );
+      // comments follow the space role
+      expect(
+        ability.can(SpaceCaslAction.Create, SpaceCaslSubject.Comment),
+      ).toBe(true);
+    });
+
+    it('does not restrict space admins', async () => {
+      givenSpaceRoles(SpaceRole.ADMIN);
+      givenPageRole(null);
+
+      const ability = await factory.createForPage(user, page);
+
+      expect(pagePermissionRepo.getPageRestrictions).not.toHaveBeenCalled();
+      expect(ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Page)).toBe(
+        true,
+      );
+    });
+  });
+});
@@ -4,40 +4,177 @@ import {
   createMongoAbility,
   MongoAbility,
 } from '@casl/ability';
-import { SpaceRole } from '../../../common/helpers/types/permission';
-import { User } from '@docmost/db/types/entity.types';
+import { PageRole, SpaceRole } from '../../../common/helpers/types/permission';
+import { Page, User } from '@docmost/db/types/entity.types';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import {
+  PagePermissionRepo,
+  PageRestriction,
+} from '@docmost/db/repos/page/page-permission.repo';
 import {
   SpaceCaslAction,
   ISpaceAbility,
   SpaceCaslSubject,
+  SpaceRolePermission,
 } from '../interfaces/space-ability.type';
-import { findHighestUserSpaceRole } from '@docmost/db/repos/space/utils';
+import {
+  findHighestUserSpaceRole,
+  isBuiltInSpaceRole,
+} from '@docmost/db/repos/space/utils';
+import { CustomSpaceRoleRepo } from '@docmost/db/repos/space/custom-space-role.repo';
+import { UserSpaceRole } from '@docmost/db/repos/space/types';
 
 @Injectable()
 export default class SpaceAbilityFactory {
-  constructor(private readonly spaceMemberRepo: SpaceMemberRepo) {}
+  constructor(
+    private readonly spaceMemberRepo: SpaceMemberRepo,
+    private readonly pagePermissionRepo: PagePermissionRepo,
+    private readonly customSpaceRoleRepo: CustomSpaceRoleRepo,
+  ) {}
+
   async createForUser(user: User, spaceId: string) {
     const userSpaceRoles = await this.spaceMemberRepo.getUserSpaceRoles(
       user.id,
       spaceId,
     );
 
-    const userSpaceRole = findHighestUserSpaceRole(userSpaceRoles);
-
-    switch (userSpaceRole) {
-      case SpaceRole.ADMIN:
-        return buildSpaceAdminAbility();
-      case SpaceRole.WRITER:
-        return buildSpaceWriterAbility();
-      case SpaceRole.READER:
-        return buildSpaceReaderAbility();
-      default:
-        throw new NotFoundException('Space permissions not found');
+    return this.buildUserSpaceAbility(userSpaceRoles);
+  }
+
+  /*
+   * The abilities a single role grants, built-in or custom,
+   * e.g. to compare them with the abilities of the user assigning it.
+   */
+  async createForRole(role: string) {
+    return this.buildUserSpaceAbility([{ userId: null, role }]);
+  }
+
+  /*
+   * Abilities for a single page.
+   * Page restrictions on the page or any of its ancestors override the
+   * space role for page and share subjects. Space admins are never restricted.
+   */
+  async createForPage(
+    user: Pick<User, 'id'>,
+    page: Pick<Page, 'id' | 'spaceId'>,
+  ) {
+    const userSpaceRoles = await this.spaceMemberRepo.getUserSpaceRoles(
+      user.id,
+      page.spaceId,
+    );
+
+    const spaceAbility = await this.buildUserSpaceAbility(userSpaceRoles);
+
+    if (findHighestUserSpaceRole(userSpaceRoles) !== SpaceRole.ADMIN) {
+      const restrictions = await this.pagePermissionRepo.getPageRestrictions(
+        page.id,
+        user.id,
+      );
+
+      if (restrictions.length > 0) {
+        return buildRestrictedPageAbility(
+          spaceAbility,
+          findEffectivePageRole(restrictions),
+        );
+      }
+    }
+
+    return spaceAbility;
+  }
+
+  /*
+   * A user can hold several roles in a space through their groups.
+   * Built-in roles are nested so only the highest one counts,
+   * while custom roles add their permissions on top of it.
+   */
+  private async buildUserSpaceAbility(userSpaceRoles: UserSpaceRole[]) {
+    const builtInRole = findHighestUserSpaceRole(
+      userSpaceRoles?.filter((userSpaceRole) =>
+        isBuiltInSpaceRole(userSpaceRole.role),
+      ),
+    );
+
+    const customRoleIds = [
+      ...new Set(
+        (userSpaceRoles ?? [])
+          .map((userSpaceRole) => userSpaceRole.role)
+          .filter((role) => !isBuiltInSpaceRole(role)),
+      ),
+    ];
+
+    if (customRoleIds.length === 0) {
+      return buildSpaceRoleAbility(builtInRole);
+    }
+
+    const customRoles = await this.customSpaceRoleRepo.findByIds(customRoleIds);
+    if (customRoles.length === 0 && !builtInRole) {
+      throw new NotFoundException('Space permissions not found');
+    }
+
+    const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+      createMongoAbility,
+    );
+    if (builtInRole) {
+      for (const rule of buildSpaceRoleAbility(builtInRole).rules) {
+        can(rule.action, rule.subject as SpaceCaslSubject);
+      }
+    }
+    for (const customRole of customRoles) {
+      const permissions =
+        customRole.permissions as unknown as SpaceRolePermission[];
+      for (const permission of permissions) {
+        can(permission.action, permission.subject);
+      }
     }
+    return build();
+  }
+}
+
+/*
+ * Whether every rule of an ability is also allowed by another one.
+ */
+export function isAbilityWithin(
+  ability: MongoAbility<ISpaceAbility>,
+  limit: MongoAbility<ISpaceAbility>,
+): boolean {
+  return ability.rules.every((rule) =>
+    limit.can(rule.action as SpaceCaslAction, rule.subject as SpaceCaslSubject),
+  );
+}
+
+function buildSpaceRoleAbility(userSpaceRole: string) {
+  switch (userSpaceRole) {
+    case SpaceRole.ADMIN:
+      return buildSpaceAdminAbility();
+    case SpaceRole.WRITER:
+      return buildSpaceWriterAbility();
+    case SpaceRole.COMMENTER:
+      return buildSpaceCommenterAbility();
+    case SpaceRole.READER:
+      return buildSpaceReaderAbility();
+    default:
+      throw new NotFoundException('Space permissions not found');
   }
 }
 
+/*
+ * the most restrictive role across all restricted ancestors.
+ * returns null if any of them does not grant the user access.
+ */
+function findEffectivePageRole(restrictions: PageRestriction[]) {
+  let effectiveRole: string = PageRole.WRITER;
+
+  for (const restriction of restrictions) {
+    if (!restriction.role) {
+      return null;
+    }
+    if (restriction.role === PageRole.READER) {
+      effectiveRole = PageRole.READER;
+    }
+  }
+  return effectiveRole;
+}
+
 function buildSpaceAdminAbility() {
   const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
     createMongoAbility,
@@ -46,6 +183,7 @@ function buildSpaceAdminAbility() {
   can(SpaceCaslAction.Manage, SpaceCaslSubject.Member);
   can(SpaceCaslAction.Manage, SpaceCaslSubject.Page);
   can(SpaceCaslAction.Manage, SpaceCaslSubject.Share);
+  can(SpaceCaslAction.Manage, SpaceCaslSubject.Comment);
   return build();
 }
 
@@ -57,6 +195,19 @@ function buildSpaceWriterAbility() {
   can(SpaceCaslAction.Read, SpaceCaslSubject.Member);
   can(SpaceCaslAction.Manage, SpaceCaslSubject.Page);
   can(SpaceCaslAction.Manage, SpaceCaslSubject.Share);
+  can(SpaceCaslAction.Manage, SpaceCaslSubject.Comment);
+  return build();
+}
+
+function buildSpaceCommenterAbility() {
+  const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+    createMongoAbility,
+  );
+  can(SpaceCaslAction.Read, SpaceCaslSubject.Settings);
+  can(SpaceCaslAction.Read, SpaceCaslSubject.Member);
+  can(SpaceCaslAction.Read, SpaceCaslSubject.Page);
+  can(SpaceCaslAction.Read, SpaceCaslSubject.Share);
+  can(SpaceCaslAction.Manage, SpaceCaslSubject.Comment);
   return build();
 }
 
@@ -68,5 +219,52 @@ function buildSpaceReaderAbility() {
   can(SpaceCaslAction.Read, SpaceCaslSubject.Member);
   can(SpaceCaslAction.Read, SpaceCaslSubject.Page);
   can(SpaceCaslAction.Read, SpaceCaslSubject.Share);
+  can(SpaceCaslAction.Read, SpaceCaslSubject.Comment);
+  return build();
+}
+
+/*
+ * A page role only narrows what the space role allows: writers may read,
+ * create and edit, readers may only read. Deleting and managing restricted
+ * pages is left to space admins.
+ */
+function buildRestrictedPageAbility(
+  spaceAbility: MongoAbility<ISpaceAbility>,
+  pageRole: string | null,
+) {
+  const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+    createMongoAbility,
+  );
+  // settings and member abilities still come from the space role
+  for (const rule of spaceAbility.rules) {
+    if (
+      rule.subject === SpaceCaslSubject.Settings ||
+      rule.subject === SpaceCaslSubject.Member
+    ) {
+      can(rule.action, rule.subject);
+    }
+  }
+  if (!pageRole) {
+    return build();
+  }
+
+  const pageActions =
+    pageRole === PageRole.WRITER
+      ? [SpaceCaslAction.Read, SpaceCaslAction.Create, SpaceCaslAction.Edit]
+      : [SpaceCaslAction.Read];
+
+  for (const subject of [SpaceCaslSubject.Page, SpaceCaslSubject.Share]) {
+    for (const action of pageActions) {
+      if (spaceAbility.can(action, subject)) {
+        can(action, subject);
+      }
+    }
+  }
+  // page members keep the comment abilities of their space role
+  for (const rule of spaceAbility.rules) {
+    if (rule.subject === SpaceCaslSubject.Comment) {
+      can(rule.action, rule.subject);
+    }
+  }
   return build();
 }
@@ -0,0 +1,4 @@
+export enum CommentType {
+  INLINE = 'inline', // anchored to a text selection in the page
+  PAGE = 'page', // general discussion about the whole page
+}
@@ -11,6 +11,7 @@ import {
 import { CommentService } from './comment.service';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ResolveCommentDto } from './dto/resolve-comment.dto';
 import { PageIdDto, CommentIdDto } from './dto/comments.input';
 import { AuthUser } from '../../common/decorators/auth-user.decorator';
 import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
@@ -24,6 +25,7 @@ import {
   SpaceCaslSubject,
 } from '../casl/interfaces/space-ability.type';
 import { CommentRepo } from '@docmost/db/repos/comment/comment.repo';
+import { CommentReactionDto } from './dto/comment-reaction.dto';
 
 @UseGuards(JwtAuthGuard)
 @Controller('comments')
@@ -47,8 +49,8 @@ export class CommentController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
-    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)) {
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Comment)) {
       throw new ForbiddenException();
     }
 
@@ -75,7 +77,7 @@ export class CommentController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
@@ -90,10 +92,10 @@ export class CommentController {
       throw new NotFoundException('Comment not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(
-      user,
-      comment.spaceId,
-    );
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
@@ -108,21 +110,39 @@ export class CommentController {
       throw new NotFoundException('Comment not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(
-      user,
-      comment.spaceId,
-    );
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
 
-    // must be a space member with edit permission
-    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Comment)) {
       throw new ForbiddenException(
-        'You must have space edit permission to edit comments',
+        'You must have comment permission to edit comments',
       );
     }
 
     return this.commentService.update(comment, dto, user);
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('resolve')
+  async resolve(@Body() dto: ResolveCommentDto, @AuthUser() user: User) {
+    const comment = await this.commentRepo.findById(dto.commentId);
+    if (!comment || comment.pageId !== dto.pageId) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Comment)) {
+      throw new ForbiddenException();
+    }
+
+    return this.commentService.resolve(comment, dto, user);
+  }
+
   @HttpCode(HttpStatus.OK)
   @Post('delete')
   async delete(@Body() input: CommentIdDto, @AuthUser() user: User) {
@@ -131,13 +151,12 @@ export class CommentController {
       throw new NotFoundException('Comment not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(
-      user,
-      comment.spaceId,
-    );
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
 
-    // must be a space member with edit permission
-    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+    if (ability.cannot(SpaceCaslAction.Delete, SpaceCaslSubject.Comment)) {
       throw new ForbiddenException();
     }
 
@@ -174,4 +193,45 @@ export class CommentController {
     }
     await this.commentRepo.deleteComment(comment.id);
   }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('reactions/add')
+  async addReaction(@Body() dto: CommentReactionDto, @AuthUser() user: User) {
+    const comment = await this.commentRepo.findById(dto.commentId);
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Comment)) {
+      throw new ForbiddenException();
+    }
+
+    return this.commentService.addReaction(comment, dto.emoji, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('reactions/remove')
+  async removeReaction(
+    @Body() dto: CommentReactionDto,
+    @AuthUser() user: User,
+  ) {
+    const comment = await this.commentRepo.findById(dto.commentId);
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.commentService.removeReaction(comment, dto.emoji, user);
+  }
 }
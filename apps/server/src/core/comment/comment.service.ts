@@ -6,19 +6,32 @@ import {
 } from '@nestjs/common';
 import { CreateCommentDto } from './dto/create-comment.dto';
 import { UpdateCommentDto } from './dto/update-comment.dto';
+import { ResolveCommentDto } from './dto/resolve-comment.dto';
 import { CommentRepo } from '@docmost/db/repos/comment/comment.repo';
 import { Comment, Page, User } from '@docmost/db/types/entity.types';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import { PaginationResult } from '@docmost/db/pagination/pagination';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { QueueJob, QueueName } from '../../integrations/queue/constants';
+import { ICommentNotificationJob } from '../../integrations/queue/constants/queue.interface';
+import { CommentType } from './comment.constants';
+import {
+  CommentReactionRepo,
+  CommentReactionSummary,
+} from '@docmost/db/repos/comment/comment-reaction.repo';
 
 @Injectable()
 export class CommentService {
   constructor(
     private commentRepo: CommentRepo,
+    private commentReactionRepo: CommentReactionRepo,
     private pageRepo: PageRepo,
     private spaceMemberRepo: SpaceMemberRepo,
+    @InjectQueue(QueueName.NOTIFICATION_QUEUE)
+    private notificationQueue: Queue,
   ) {}
 
   async findById(commentId: string) {
@@ -39,30 +52,41 @@ export class CommentService {
     const { userId, page, workspaceId } = opts;
     const commentContent = JSON.parse(createCommentDto.content);
 
-    if (createCommentDto.parentCommentId) {
-      const parentComment = await this.commentRepo.findById(
-        createCommentDto.parentCommentId,
-      );
+    let type = createCommentDto.type ?? CommentType.INLINE;
+    let parentCommentId = createCommentDto.parentCommentId;
+
+    if (parentCommentId) {
+      const parentComment = await this.commentRepo.findById(parentCommentId);
 
       if (!parentComment || parentComment.pageId !== page.id) {
         throw new BadRequestException('Parent comment not found');
       }
 
-      if (parentComment.parentCommentId !== null) {
-        throw new BadRequestException('You cannot reply to a reply');
-      }
+      // threads are one level deep, replies to a reply join the same thread
+      parentCommentId = parentComment.parentCommentId ?? parentComment.id;
+      type = (parentComment.type as CommentType) ?? CommentType.INLINE;
     }
 
-    return await this.commentRepo.insertComment({
+    const comment = await this.commentRepo.insertComment({
       pageId: page.id,
       content: commentContent,
-      selection: createCommentDto?.selection?.substring(0, 250),
-      type: 'inline',
-      parentCommentId: createCommentDto?.parentCommentId,
+      selection:
+        type === CommentType.INLINE
+          ? createCommentDto?.selection?.substring(0, 250)
+          : null,
+      type,
+      parentCommentId,
       creatorId: userId,
       workspaceId: workspaceId,
       spaceId: page.spaceId,
     });
+
+    await this.notificationQueue.add(QueueJob.COMMENT_NOTIFICATIONS, {
+      commentId: comment.id,
+      workspaceId: workspaceId,
+    } as ICommentNotificationJob);
+
+    return comment;
   }
 
   async findByPageId(
@@ -105,4 +129,54 @@ export class CommentService {
 
     return comment;
   }
+
+  async resolve(
+    comment: Comment,
+    dto: ResolveCommentDto,
+    authUser: User,
+  ): Promise<Comment> {
+    if (comment.parentCommentId) {
+      throw new BadRequestException('Only top-level comments can be resolved');
+    }
+
+    await this.commentRepo.updateComment(
+      {
+        resolvedAt: dto.resolved ? new Date() : null,
+        resolvedById: dto.resolved ? authUser.id : null,
+        updatedAt: new Date(),
+      },
+      comment.id,
+    );
+
+    return this.findById(comment.id);
+  }
+
+  async addReaction(
+    comment: Comment,
+    emoji: string,
+    authUser: User,
+  ): Promise<CommentReactionSummary[]> {
+    await this.commentReactionRepo.insertReaction({
+      commentId: comment.id,
+      userId: authUser.id,
+      emoji,
+      workspaceId: comment.workspaceId,
+    });
+
+    return this.commentReactionRepo.getCommentReactions(comment.id);
+  }
+
+  async removeReaction(
+    comment: Comment,
+    emoji: string,
+    authUser: User,
+  ): Promise<CommentReactionSummary[]> {
+    await this.commentReactionRepo.deleteReaction(
+      comment.id,
+      authUser.id,
+      emoji,
+    );
+
+    return this.commentReactionRepo.getCommentReactions(comment.id);
+  }
 }
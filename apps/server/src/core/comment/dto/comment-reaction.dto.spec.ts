@@ -0,0 +1,25 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { CommentReactionDto } from './comment-reaction.dto';
+
+describe('CommentReactionDto', () => {
+  const commentId = '0190f1a0-0000-7000-8000-000000000001';
+
+  async function emojiErrors(emoji: string) {
+    const errors = await validate(
+      plainToInstance(CommentReactionDto, { commentId, emoji }),
+    );
+    return errors.filter((error) => error.property === 'emoji');
+  }
+
+  it.each(['👍', '❤️', '👍🏽', '👨‍💻'])('accepts %s', async (emoji) => {
+    expect(await emojiErrors(emoji)).toHaveLength(0);
+  });
+
+  it.each(['👍 any text up to 32 chars', '👍👎', 'a👍', 'ok'])(
+    'rejects %s',
+    async (emoji) => {
+      expect(await emojiErrors(emoji)).toHaveLength(1);
+    },
+  );
+});
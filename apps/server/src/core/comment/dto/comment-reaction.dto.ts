@@ -0,0 +1,17 @@
+import { IsString, IsUUID, Matches, MaxLength } from 'class-validator';
+
+export class CommentReactionDto {
+  @IsUUID()
+  commentId: string;
+
+  @IsString()
+  @MaxLength(32)
+  // one pictograph, optionally joined with others or given a skin tone
+  @Matches(
+    /^\p{Extended_Pictographic}(\uFE0F|\u200D\p{Extended_Pictographic}|\p{Emoji_Modifier})*$/u,
+    {
+      message: 'emoji must be a single emoji',
+    },
+  )
+  emoji: string;
+}
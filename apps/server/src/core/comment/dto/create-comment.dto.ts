@@ -1,4 +1,5 @@
-import { IsJSON, IsOptional, IsString, IsUUID } from 'class-validator';
+import { IsIn, IsJSON, IsOptional, IsString, IsUUID } from 'class-validator';
+import { CommentType } from '../comment.constants';
 
 export class CreateCommentDto {
   @IsString()
@@ -14,4 +15,9 @@ export class CreateCommentDto {
   @IsOptional()
   @IsUUID()
   parentCommentId: string;
+
+  // replies always take the type of their thread
+  @IsOptional()
+  @IsIn(Object.values(CommentType))
+  type?: CommentType;
 }
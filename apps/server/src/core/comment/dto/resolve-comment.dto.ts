@@ -0,0 +1,12 @@
+import { IsBoolean, IsString, IsUUID } from 'class-validator';
+
+export class ResolveCommentDto {
+  @IsUUID()
+  commentId: string;
+
+  @IsString()
+  pageId: string;
+
+  @IsBoolean()
+  resolved: boolean;
+}
@@ -16,6 +16,16 @@ import { GroupModule } from './group/group.module';
 import { CaslModule } from './casl/casl.module';
 import { DomainMiddleware } from '../common/middlewares/domain.middleware';
 import { ShareModule } from './share/share.module';
+import { TemplateModule } from './template/template.module';
+import { NotificationModule } from './notification/notification.module';
+import { WatcherModule } from './watcher/watcher.module';
+import { LabelModule } from './label/label.module';
+import { PagePropertyModule } from './page-property/page-property.module';
+import { TaskModule } from './task/task.module';
+import { PageReviewModule } from './page-review/page-review.module';
+import { AuditLogModule } from './audit-log/audit-log.module';
+import { ScimModule } from './scim/scim.module';
+import { PublicApiModule } from './public-api/public-api.module';
 
 @Module({
   imports: [
@@ -30,6 +40,16 @@ import { ShareModule } from './share/share.module';
     GroupModule,
     CaslModule,
     ShareModule,
+    TemplateModule,
+    NotificationModule,
+    WatcherModule,
+    LabelModule,
+    PagePropertyModule,
+    TaskModule,
+    PageReviewModule,
+    AuditLogModule,
+    ScimModule,
+    PublicApiModule,
   ],
 })
 export class CoreModule implements NestModule {
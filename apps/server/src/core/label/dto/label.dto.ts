@@ -0,0 +1,42 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { LABEL_NAME_MAX_LENGTH } from '../label.utils';
+
+export class LabelIdDto {
+  @IsUUID()
+  labelId: string;
+}
+
+export class LabelNameDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(LABEL_NAME_MAX_LENGTH)
+  name: string;
+}
+
+export class PageLabelsDto {
+  @IsString()
+  @IsNotEmpty()
+  pageId: string;
+}
+
+export class AddPageLabelsDto extends PageLabelsDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  @MaxLength(LABEL_NAME_MAX_LENGTH, { each: true })
+  names: string[];
+}
+
+export class RemovePageLabelDto extends PageLabelsDto {
+  @IsUUID()
+  labelId: string;
+}
@@ -0,0 +1,138 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { Page, User, Workspace } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { isPageLockedForUser } from '../page/page-lock.util';
+import { LabelService } from './label.service';
+import { normalizeLabelName } from './label.utils';
+import {
+  AddPageLabelsDto,
+  LabelIdDto,
+  LabelNameDto,
+  PageLabelsDto,
+  RemovePageLabelDto,
+} from './dto/label.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('labels')
+export class LabelController {
+  constructor(
+    private readonly labelService: LabelService,
+    private readonly labelRepo: LabelRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post()
+  async getLabels(
+    @Body() pagination: PaginationOptions,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.labelRepo.getLabelsInWorkspace(workspace.id, pagination);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('info')
+  async getLabel(
+    @Body() dto: LabelNameDto,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const label = await this.labelRepo.findByName(
+      normalizeLabelName(dto.name),
+      workspace.id,
+    );
+    if (!label) {
+      throw new NotFoundException('Label not found');
+    }
+
+    return label;
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('pages')
+  async getLabelPages(
+    @Body() dto: LabelIdDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const label = await this.labelRepo.findById(dto.labelId, workspace.id);
+    if (!label) {
+      throw new NotFoundException('Label not found');
+    }
+
+    return this.labelRepo.getLabelPages(label.id, user.id, pagination);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page')
+  async getPageLabels(@Body() dto: PageLabelsDto, @AuthUser() user: User) {
+    const page = await this.getPage(dto.pageId);
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.labelService.getPageLabels(page.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/add')
+  async addPageLabels(@Body() dto: AddPageLabelsDto, @AuthUser() user: User) {
+    const page = await this.getEditablePage(dto.pageId, user);
+    return this.labelService.addPageLabels(page, dto.names, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/remove')
+  async removePageLabel(
+    @Body() dto: RemovePageLabelDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.getEditablePage(dto.pageId, user);
+    return this.labelService.removePageLabel(page, dto.labelId);
+  }
+
+  private async getPage(pageId: string): Promise<Page> {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+    return page;
+  }
+
+  private async getEditablePage(pageId: string, user: User): Promise<Page> {
+    const page = await this.getPage(pageId);
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (isPageLockedForUser(page, user.id, ability)) {
+      throw new ForbiddenException('Page is locked');
+    }
+
+    return page;
+  }
+}
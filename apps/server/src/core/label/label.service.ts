@@ -0,0 +1,32 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import { Page, User } from '@docmost/db/types/entity.types';
+import { normalizeLabelNames } from './label.utils';
+
+@Injectable()
+export class LabelService {
+  constructor(private readonly labelRepo: LabelRepo) {}
+
+  async getPageLabels(pageId: string) {
+    return this.labelRepo.getPageLabels(pageId);
+  }
+
+  async addPageLabels(page: Page, names: string[], authUser: User) {
+    const labelNames = normalizeLabelNames(names);
+    if (labelNames.length === 0) {
+      throw new BadRequestException('Label name is required');
+    }
+
+    await this.labelRepo.addPageLabelsByName(page.id, labelNames, {
+      workspaceId: page.workspaceId,
+      creatorId: authUser.id,
+    });
+
+    return this.labelRepo.getPageLabels(page.id);
+  }
+
+  async removePageLabel(page: Page, labelId: string) {
+    await this.labelRepo.removePageLabel(page.id, labelId);
+    return this.labelRepo.getPageLabels(page.id);
+  }
+}
@@ -0,0 +1,17 @@
+export const LABEL_NAME_MAX_LENGTH = 100;
+
+/**
+ * Labels are matched by name, so they are stored lowercased
+ * with whitespace collapsed into dashes, e.g. "Release Notes" -> "release-notes".
+ */
+export function normalizeLabelName(name: string): string {
+  return (name ?? '')
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, LABEL_NAME_MAX_LENGTH);
+}
+
+export function normalizeLabelNames(names: string[]): string[] {
+  return [...new Set(names.map(normalizeLabelName))].filter(Boolean);
+}
@@ -0,0 +1,42 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+import { EmailDigestFrequency } from '../notification.constants';
+
+export class NotificationListDto {
+  @IsOptional()
+  @IsBoolean()
+  unreadOnly?: boolean;
+}
+
+export class MarkNotificationsReadDto {
+  @IsArray()
+  @ArrayNotEmpty()
+  @ArrayMaxSize(100)
+  @IsUUID('all', { each: true })
+  notificationIds: string[];
+}
+
+export class UpdateNotificationSettingsDto {
+  @IsOptional()
+  @IsBoolean()
+  mentions?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  replies?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  watching?: boolean;
+
+  @IsOptional()
+  @IsIn(Object.values(EmailDigestFrequency))
+  emailDigest?: EmailDigestFrequency;
+}
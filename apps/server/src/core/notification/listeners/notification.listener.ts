@@ -0,0 +1,41 @@
+import { Injectable } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { EventName } from '../../../common/events/event.contants';
+import { PageEvent } from '@docmost/db/listeners/page.listener';
+import { QueueJob, QueueName } from '../../../integrations/queue/constants';
+import { IWatcherNotificationJob } from '../../../integrations/queue/constants/queue.interface';
+import { NotificationType } from '../notification.constants';
+
+@Injectable()
+export class NotificationListener {
+  constructor(
+    @InjectQueue(QueueName.NOTIFICATION_QUEUE)
+    private readonly notificationQueue: Queue,
+  ) {}
+
+  @OnEvent(EventName.PAGE_CREATED)
+  async handlePageCreated(event: PageEvent) {
+    await this.notifyWatchers(NotificationType.PAGE_CREATED, event);
+  }
+
+  @OnEvent(EventName.PAGE_MOVED_TO_SPACE)
+  async handlePageMovedToSpace(event: PageEvent & { actorId?: string }) {
+    await this.notifyWatchers(NotificationType.PAGE_MOVED, event);
+  }
+
+  private async notifyWatchers(
+    type: NotificationType,
+    event: PageEvent & { actorId?: string },
+  ) {
+    if (!event.pageIds?.length || !event.workspaceId) return;
+
+    await this.notificationQueue.add(QueueJob.WATCHER_NOTIFICATIONS, {
+      type,
+      pageIds: event.pageIds,
+      workspaceId: event.workspaceId,
+      actorId: event.actorId,
+    } as IWatcherNotificationJob);
+  }
+}
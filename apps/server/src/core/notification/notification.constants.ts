@@ -0,0 +1,60 @@
+export enum NotificationType {
+  PAGE_MENTION = 'page.mention',
+  COMMENT_MENTION = 'comment.mention',
+  COMMENT_REPLY = 'comment.reply',
+  COMMENT_CREATED = 'comment.created',
+  PAGE_CREATED = 'page.created',
+  PAGE_UPDATED = 'page.updated',
+  PAGE_MOVED = 'page.moved',
+  PAGE_REVIEW_REQUESTED = 'page.review_requested',
+  PAGE_REVIEW_APPROVED = 'page.review_approved',
+  PAGE_REVIEW_REJECTED = 'page.review_rejected',
+}
+
+// notifications sent to page and space watchers
+export const WATCHER_NOTIFICATION_TYPES: string[] = [
+  NotificationType.COMMENT_CREATED,
+  NotificationType.PAGE_CREATED,
+  NotificationType.PAGE_UPDATED,
+  NotificationType.PAGE_MOVED,
+];
+
+// review requests and decisions cannot be turned off
+export const PAGE_REVIEW_NOTIFICATION_TYPES: string[] = [
+  NotificationType.PAGE_REVIEW_REQUESTED,
+  NotificationType.PAGE_REVIEW_APPROVED,
+  NotificationType.PAGE_REVIEW_REJECTED,
+];
+
+export enum EmailDigestFrequency {
+  OFF = 'off',
+  HOURLY = 'hourly',
+  DAILY = 'daily',
+}
+
+export const NOTIFICATION_DIGEST_INTERVAL_MS = 10 * 60 * 1000;
+export const NOTIFICATION_DIGEST_MAX_ITEMS = 20;
+
+export interface NotificationSettings {
+  mentions: boolean;
+  replies: boolean;
+  watching: boolean;
+  emailDigest: EmailDigestFrequency;
+}
+
+/**
+ * Resolves the notification preferences stored under `settings.notifications`
+ * on the user, falling back to the defaults for unset values.
+ */
+export function getNotificationSettings(user: {
+  settings?: unknown;
+}): NotificationSettings {
+  const notifications = (user?.settings as any)?.notifications ?? {};
+
+  return {
+    mentions: notifications.mentions !== false,
+    replies: notifications.replies !== false,
+    watching: notifications.watching !== false,
+    emailDigest: notifications.emailDigest ?? EmailDigestFrequency.HOURLY,
+  };
+}
@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { NotificationRepo } from '@docmost/db/repos/notification/notification.repo';
+import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import {
+  MarkNotificationsReadDto,
+  NotificationListDto,
+  UpdateNotificationSettingsDto,
+} from './dto/notification.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationController {
+  constructor(
+    private readonly notificationRepo: NotificationRepo,
+    private readonly userRepo: UserRepo,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/')
+  async getNotifications(
+    @Body() dto: NotificationListDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.notificationRepo.getUserNotifications(
+      user.id,
+      workspace.id,
+      pagination,
+      { unreadOnly: dto.unreadOnly },
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('unread-count')
+  async getUnreadCount(
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const count = await this.notificationRepo.getUnreadCount(
+      user.id,
+      workspace.id,
+    );
+    return { count };
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('mark-read')
+  async markAsRead(
+    @Body() dto: MarkNotificationsReadDto,
+    @AuthUser() user: User,
+  ) {
+    await this.notificationRepo.markAsRead(dto.notificationIds, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('mark-all-read')
+  async markAllAsRead(
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    await this.notificationRepo.markAllAsRead(user.id, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('settings/update')
+  async updateSettings(
+    @Body() dto: UpdateNotificationSettingsDto,
+    @AuthUser() user: User,
+  ) {
+    return this.userRepo.updateNotificationSettings(user.id, { ...dto });
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { NotificationController } from './notification.controller';
+import { NotificationService } from './notification.service';
+import { NotificationProcessor } from './notification.processor';
+import { WsModule } from '../../ws/ws.module';
+import { WatcherModule } from '../watcher/watcher.module';
+import { NotificationListener } from './listeners/notification.listener';
+
+@Module({
+  imports: [WsModule, WatcherModule],
+  controllers: [NotificationController],
+  providers: [NotificationService, NotificationProcessor, NotificationListener],
+  exports: [NotificationService],
+})
+export class NotificationModule {}
@@ -0,0 +1,73 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { QueueJob, QueueName } from '../../integrations/queue/constants';
+import {
+  ICommentNotificationJob,
+  IPageMentionNotificationJob,
+  IPageReviewNotificationJob,
+  IWatcherNotificationJob,
+} from '../../integrations/queue/constants/queue.interface';
+import { NotificationService } from './notification.service';
+
+@Processor(QueueName.NOTIFICATION_QUEUE)
+export class NotificationProcessor
+  extends WorkerHost
+  implements OnModuleDestroy
+{
+  private readonly logger = new Logger(NotificationProcessor.name);
+  constructor(private readonly notificationService: NotificationService) {
+    super();
+  }
+
+  async process(job: Job): Promise<void> {
+    switch (job.name) {
+      case QueueJob.PAGE_MENTION_NOTIFICATIONS:
+        await this.notificationService.notifyPageMentions(
+          job.data as IPageMentionNotificationJob,
+        );
+        break;
+
+      case QueueJob.COMMENT_NOTIFICATIONS:
+        await this.notificationService.notifyComment(
+          job.data as ICommentNotificationJob,
+        );
+        break;
+
+      case QueueJob.WATCHER_NOTIFICATIONS:
+        await this.notificationService.notifyWatchers(
+          job.data as IWatcherNotificationJob,
+        );
+        break;
+
+      case QueueJob.PAGE_REVIEW_NOTIFICATIONS:
+        await this.notificationService.notifyPageReview(
+          job.data as IPageReviewNotificationJob,
+        );
+        break;
+    }
+  }
+
+  @OnWorkerEvent('active')
+  onActive(job: Job) {
+    this.logger.debug(`Processing ${job.name} job`);
+  }
+
+  @OnWorkerEvent('failed')
+  onError(job: Job) {
+    this.logger.error(
+      `Error processing ${job.name} job. Reason: ${job.failedReason}`,
+    );
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.debug(`Completed ${job.name} job`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+    }
+  }
+}
@@ -0,0 +1,339 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { NotificationRepo } from '@docmost/db/repos/notification/notification.repo';
+import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { CommentRepo } from '@docmost/db/repos/comment/comment.repo';
+import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
+import { Page } from '@docmost/db/types/entity.types';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { MailService } from '../../integrations/mail/mail.service';
+import { DomainService } from '../../integrations/environment/domain.service';
+import { WsGateway } from '../../ws/ws.gateway';
+import { WatcherService } from '../watcher/watcher.service';
+import {
+  ICommentNotificationJob,
+  IPageMentionNotificationJob,
+  IPageReviewNotificationJob,
+  IWatcherNotificationJob,
+} from '../../integrations/queue/constants/queue.interface';
+import {
+  extractMentions,
+  extractUserMentions,
+} from '../../common/helpers/prosemirror/utils';
+import {
+  getNotificationSettings,
+  NOTIFICATION_DIGEST_INTERVAL_MS,
+  NOTIFICATION_DIGEST_MAX_ITEMS,
+  NotificationSettings,
+  NotificationType,
+  PAGE_REVIEW_NOTIFICATION_TYPES,
+  WATCHER_NOTIFICATION_TYPES,
+} from './notification.constants';
+import {
+  NotificationDigestEmail,
+  NotificationDigestItem,
+} from '../../integrations/transactional/emails/notification-digest-email';
+
+@Injectable()
+export class NotificationService {
+  private readonly logger = new Logger(NotificationService.name);
+
+  constructor(
+    private readonly notificationRepo: NotificationRepo,
+    private readonly userRepo: UserRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly commentRepo: CommentRepo,
+    private readonly workspaceRepo: WorkspaceRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+    private readonly mailService: MailService,
+    private readonly domainService: DomainService,
+    private readonly wsGateway: WsGateway,
+    private readonly watcherService: WatcherService,
+  ) {}
+
+  async notifyPageMentions(job: IPageMentionNotificationJob): Promise<void> {
+    const page = await this.pageRepo.findById(job.pageId);
+    if (!page || page.deletedAt || page.workspaceId !== job.workspaceId) {
+      return;
+    }
+
+    const userIds = extractUserMentions(job.mentions).map(
+      (mention) => mention.entityId,
+    );
+
+    await this.createNotifications(NotificationType.PAGE_MENTION, userIds, {
+      actorId: job.actorId,
+      page,
+    });
+  }
+
+  /*
+   * Users mentioned in a new comment are notified of the mention,
+   * other participants of the thread are notified of the reply
+   * and the remaining page watchers of the new comment.
+   */
+  async notifyComment(job: ICommentNotificationJob): Promise<void> {
+    const comment = await this.commentRepo.findById(job.commentId);
+    if (!comment || comment.workspaceId !== job.workspaceId) return;
+
+    const page = await this.pageRepo.findById(comment.pageId);
+    if (!page || page.deletedAt) return;
+
+    const mentionedUserIds = extractUserMentions(
+      extractMentions(comment.content),
+    ).map((mention) => mention.entityId);
+
+    const opts = { actorId: comment.creatorId, page, commentId: comment.id };
+    const notifiedUserIds = new Set(mentionedUserIds);
+
+    await this.createNotifications(
+      NotificationType.COMMENT_MENTION,
+      mentionedUserIds,
+      opts,
+    );
+
+    if (comment.parentCommentId) {
+      const participantIds = await this.commentRepo.getThreadParticipantIds(
+        comment.parentCommentId,
+      );
+
+      await this.createNotifications(
+        NotificationType.COMMENT_REPLY,
+        participantIds.filter((id) => !notifiedUserIds.has(id)),
+        opts,
+      );
+      participantIds.forEach((id) => notifiedUserIds.add(id));
+    }
+
+    const watcherIds = await this.watcherService.getPageWatcherIds(page);
+    await this.createNotifications(
+      NotificationType.COMMENT_CREATED,
+      watcherIds.filter((id) => !notifiedUserIds.has(id)),
+      opts,
+    );
+  }
+
+  async notifyWatchers(job: IWatcherNotificationJob): Promise<void> {
+    const pages = (
+      await Promise.all(job.pageIds.map((id) => this.pageRepo.findById(id)))
+    ).filter(
+      (page) => page && !page.deletedAt && page.workspaceId === job.workspaceId,
+    );
+
+    const pageIds = new Set(pages.map((page) => page.id));
+
+    for (const page of pages) {
+      // pages created together (e.g. an import) are announced by their topmost page
+      if (
+        job.type === NotificationType.PAGE_CREATED &&
+        pageIds.has(page.parentPageId)
+      ) {
+        continue;
+      }
+
+      const watcherIds = await this.watcherService.getPageWatcherIds(page);
+      await this.createNotifications(job.type as NotificationType, watcherIds, {
+        actorId: job.actorId ?? page.lastUpdatedById ?? page.creatorId,
+        page,
+      });
+    }
+  }
+
+  async notifyPageReview(job: IPageReviewNotificationJob): Promise<void> {
+    const page = await this.pageRepo.findById(job.pageId);
+    if (!page || page.deletedAt || page.workspaceId !== job.workspaceId) {
+      return;
+    }
+
+    await this.createNotifications(job.type as NotificationType, job.userIds, {
+      actorId: job.actorId,
+      page,
+    });
+  }
+
+  @Interval('notification-digest', NOTIFICATION_DIGEST_INTERVAL_MS)
+  async sendEmailDigests(): Promise<void> {
+    try {
+      const userIds = await this.notificationRepo.getUserIdsDueForDigest();
+      for (const userId of userIds) {
+        await this.sendEmailDigest(userId);
+      }
+    } catch (err) {
+      this.logger.error('Notification email digest failed', err);
+    }
+  }
+
+  private async sendEmailDigest(userId: string): Promise<void> {
+    const notifications =
+      await this.notificationRepo.claimPendingDigest(userId);
+    if (notifications.length === 0) return;
+
+    const workspaceId = notifications[0].workspaceId;
+    const user = await this.userRepo.findById(userId, workspaceId);
+    if (!user || user.deletedAt || user.deactivatedAt) return;
+
+    const workspace = await this.workspaceRepo.findById(workspaceId);
+    const appUrl = this.domainService.getUrl(workspace?.hostname);
+
+    const items: NotificationDigestItem[] = notifications
+      .filter((notification) => notification.page && notification.space)
+      .slice(0, NOTIFICATION_DIGEST_MAX_ITEMS)
+      .map((notification) => ({
+        message: this.getDigestMessage(
+          notification.type,
+          notification.actor?.name,
+        ),
+        pageTitle: notification.page.title || 'Untitled',
+        pageUrl: `${appUrl}/s/${notification.space.slug}/p/${notification.page.slugId}`,
+      }));
+
+    if (items.length === 0) return;
+
+    await this.mailService.sendToQueue({
+      to: user.email,
+      subject: `You have ${notifications.length} unread notifications on Docmost`,
+      template: NotificationDigestEmail({
+        userName: user.name,
+        items,
+        inboxUrl: `${appUrl}/home`,
+      }),
+    });
+  }
+
+  private getDigestMessage(type: string, actorName?: string): string {
+    const actor = actorName || 'Someone';
+    switch (type) {
+      case NotificationType.PAGE_MENTION:
+        return `${actor} mentioned you on`;
+      case NotificationType.COMMENT_MENTION:
+        return `${actor} mentioned you in a comment on`;
+      case NotificationType.COMMENT_REPLY:
+        return `${actor} replied to a comment on`;
+      case NotificationType.COMMENT_CREATED:
+        return `${actor} commented on`;
+      case NotificationType.PAGE_CREATED:
+        return `${actor} created`;
+      case NotificationType.PAGE_MOVED:
+        return `${actor} moved`;
+      case NotificationType.PAGE_UPDATED:
+        return `${actor} updated`;
+      case NotificationType.PAGE_REVIEW_REQUESTED:
+        return `${actor} requested your review on`;
+      case NotificationType.PAGE_REVIEW_APPROVED:
+        return `${actor} approved your changes to`;
+      case NotificationType.PAGE_REVIEW_REJECTED:
+        return `${actor} rejected your changes to`;
+      default:
+        return `${actor} updated`;
+    }
+  }
+
+  private async createNotifications(
+    type: NotificationType,
+    userIds: string[],
+    opts: { actorId: string; page: Page; commentId?: string },
+  ): Promise<void> {
+    const { actorId, page, commentId } = opts;
+
+    const recipientIds: string[] = [];
+    for (const userId of new Set(userIds)) {
+      if (!userId || userId === actorId) continue;
+
+      const user = await this.userRepo.findById(userId, page.workspaceId);
+      if (!user || user.deletedAt || user.deactivatedAt) continue;
+
+      if (!this.isEnabledFor(type, getNotificationSettings(user))) continue;
+
+      // never leak pages the recipient cannot read
+      const ability = await this.spaceAbility
+        .createForPage(user, page)
+        .catch(() => null);
+      if (!ability?.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+        continue;
+      }
+
+      recipientIds.push(userId);
+    }
+
+    if (recipientIds.length === 0) return;
+
+    let insertIds = recipientIds;
+    if (type === NotificationType.PAGE_UPDATED) {
+      insertIds = await this.mergePageUpdates(page.id, actorId, recipientIds);
+    }
+
+    await this.notificationRepo.insertNotifications(
+      insertIds.map((userId) => ({
+        type,
+        userId,
+        actorId,
+        pageId: page.id,
+        commentId: commentId ?? null,
+        spaceId: page.spaceId,
+        workspaceId: page.workspaceId,
+        data:
+          type === NotificationType.PAGE_UPDATED
+            ? { updateCount: 1, actorIds: [actorId] }
+            : null,
+      })),
+    );
+
+    for (const userId of recipientIds) {
+      this.wsGateway.emitToUser(userId, {
+        operation: 'invalidate',
+        entity: ['notifications'],
+      });
+    }
+  }
+
+  private isEnabledFor(type: string, settings: NotificationSettings) {
+    if (PAGE_REVIEW_NOTIFICATION_TYPES.includes(type)) return true;
+    if (type === NotificationType.COMMENT_REPLY) return settings.replies;
+    if (WATCHER_NOTIFICATION_TYPES.includes(type)) return settings.watching;
+    return settings.mentions;
+  }
+
+  /*
+   * Page edits are summarized into the recipient's pending update notification
+   * so watchers get one entry per page rather than one per save.
+   * Returns the recipients that have no pending update notification yet.
+   */
+  private async mergePageUpdates(
+    pageId: string,
+    actorId: string,
+    userIds: string[],
+  ): Promise<string[]> {
+    const pending = await this.notificationRepo.findPendingNotifications(
+      NotificationType.PAGE_UPDATED,
+      pageId,
+      userIds,
+    );
+
+    for (const notification of pending) {
+      const data = (notification.data ?? {}) as {
+        updateCount?: number;
+        actorIds?: string[];
+      };
+      const actorIds = new Set([...(data.actorIds ?? []), actorId]);
+
+      await this.notificationRepo.updateNotification(
+        {
+          actorId,
+          data: {
+            updateCount: (data.updateCount ?? 1) + 1,
+            actorIds: Array.from(actorIds),
+          },
+        },
+        notification.id,
+      );
+    }
+
+    const pendingUserIds = new Set(pending.map((n) => n.userId));
+    return userIds.filter((userId) => !pendingUserIds.has(userId));
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  Allow,
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { Transform, TransformFnParams, Type } from 'class-transformer';
+import { PagePropertyType } from '../page-property.constants';
+
+export class PagePropertyOptionDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(36)
+  id: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  color?: string;
+}
+
+export class CreatePagePropertyDto {
+  @IsUUID()
+  spaceId: string;
+
+  // properties without a parent page apply to every page in the space
+  @IsOptional()
+  @IsUUID()
+  parentPageId?: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Transform(({ value }: TransformFnParams) => value?.trim())
+  name: string;
+
+  @IsEnum(PagePropertyType)
+  type: PagePropertyType;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => PagePropertyOptionDto)
+  options?: PagePropertyOptionDto[];
+}
+
+export class UpdatePagePropertyDto {
+  @IsUUID()
+  propertyId: string;
+
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Transform(({ value }: TransformFnParams) => value?.trim())
+  name?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(100)
+  @ValidateNested({ each: true })
+  @Type(() => PagePropertyOptionDto)
+  options?: PagePropertyOptionDto[];
+}
+
+export class PagePropertyIdDto {
+  @IsUUID()
+  propertyId: string;
+}
+
+export class PagePropertiesPageIdDto {
+  @IsString()
+  @IsNotEmpty()
+  pageId: string;
+}
+
+export class SetPagePropertyValueDto extends PagePropertiesPageIdDto {
+  @IsUUID()
+  propertyId: string;
+
+  // validated against the property type, null clears the value
+  @Allow()
+  value: unknown;
+}
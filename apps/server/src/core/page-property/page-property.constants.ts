@@ -0,0 +1,22 @@
+export enum PagePropertyType {
+  TEXT = 'text',
+  NUMBER = 'number',
+  SELECT = 'select',
+  MULTI_SELECT = 'multi_select',
+  DATE = 'date',
+  PERSON = 'person',
+  CHECKBOX = 'checkbox',
+}
+
+export const OPTION_PROPERTY_TYPES = [
+  PagePropertyType.SELECT,
+  PagePropertyType.MULTI_SELECT,
+];
+
+export const PROPERTY_TEXT_MAX_LENGTH = 2000;
+
+export interface PagePropertyOption {
+  id: string;
+  name: string;
+  color?: string;
+}
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import {
+  Page,
+  PageProperty,
+  User,
+  Workspace,
+} from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PagePropertyRepo } from '@docmost/db/repos/page/page-property.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { isPageLockedForUser } from '../page/page-lock.util';
+import { PagePropertyService } from './page-property.service';
+import {
+  CreatePagePropertyDto,
+  PagePropertiesPageIdDto,
+  PagePropertyIdDto,
+  SetPagePropertyValueDto,
+  UpdatePagePropertyDto,
+} from './dto/page-property.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('page-properties')
+export class PagePropertyController {
+  constructor(
+    private readonly pagePropertyService: PagePropertyService,
+    private readonly pagePropertyRepo: PagePropertyRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page')
+  async getPageProperties(
+    @Body() dto: PagePropertiesPageIdDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.getPage(dto.pageId);
+    await this.validatePageAccess(page, user, SpaceCaslAction.Read);
+
+    return this.pagePropertyService.getPageProperties(page);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('collection')
+  async getCollection(
+    @Body() dto: PagePropertiesPageIdDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.getPage(dto.pageId);
+    await this.validatePageAccess(page, user, SpaceCaslAction.Read);
+
+    return this.pagePropertyService.getCollection(page, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/set')
+  async setPropertyValue(
+    @Body() dto: SetPagePropertyValueDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.getPage(dto.pageId);
+    const ability = await this.validatePageAccess(
+      page,
+      user,
+      SpaceCaslAction.Edit,
+    );
+
+    if (isPageLockedForUser(page, user.id, ability)) {
+      throw new ForbiddenException('Page is locked');
+    }
+
+    const property = await this.getProperty(dto.propertyId);
+
+    return this.pagePropertyService.setPropertyValue(
+      page,
+      property,
+      dto.value,
+      user,
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('create')
+  async createProperty(
+    @Body() dto: CreatePagePropertyDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    if (dto.parentPageId) {
+      const parentPage = await this.getPage(dto.parentPageId);
+      if (parentPage.spaceId !== dto.spaceId) {
+        throw new BadRequestException('Parent page is not in this space');
+      }
+    }
+
+    await this.validatePropertyManagement(dto, user);
+
+    return this.pagePropertyService.createProperty(dto, user, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('update')
+  async updateProperty(
+    @Body() dto: UpdatePagePropertyDto,
+    @AuthUser() user: User,
+  ) {
+    const property = await this.getProperty(dto.propertyId);
+    await this.validatePropertyManagement(property, user);
+
+    return this.pagePropertyService.updateProperty(property, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('delete')
+  async deleteProperty(@Body() dto: PagePropertyIdDto, @AuthUser() user: User) {
+    const property = await this.getProperty(dto.propertyId);
+    await this.validatePropertyManagement(property, user);
+
+    await this.pagePropertyService.deleteProperty(property);
+  }
+
+  private async getPage(pageId: string): Promise<Page> {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+    return page;
+  }
+
+  private async getProperty(propertyId: string): Promise<PageProperty> {
+    const property = await this.pagePropertyRepo.findById(propertyId);
+    if (!property) {
+      throw new NotFoundException('Property not found');
+    }
+    return property;
+  }
+
+  private async validatePageAccess(
+    page: Page,
+    user: User,
+    action: SpaceCaslAction,
+  ) {
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(action, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+    return ability;
+  }
+
+  /*
+   * Properties of a parent page can be managed by anyone who can edit it,
+   * space-wide properties need the space settings permission.
+   */
+  private async validatePropertyManagement(
+    property: { spaceId: string; parentPageId?: string | null },
+    user: User,
+  ) {
+    if (property.parentPageId) {
+      await this.validatePageAccess(
+        { id: property.parentPageId, spaceId: property.spaceId } as Page,
+        user,
+        SpaceCaslAction.Edit,
+      );
+      return;
+    }
+
+    const ability = await this.spaceAbility.createForUser(
+      user,
+      property.spaceId,
+    );
+    if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)) {
+      throw new ForbiddenException();
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { PagePropertyController } from './page-property.controller';
+import { PagePropertyService } from './page-property.service';
+
+@Module({
+  controllers: [PagePropertyController],
+  providers: [PagePropertyService],
+  exports: [PagePropertyService],
+})
+export class PagePropertyModule {}
@@ -0,0 +1,231 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { PagePropertyRepo } from '@docmost/db/repos/page/page-property.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import {
+  Page,
+  PageProperty,
+  PagePropertyValue,
+  User,
+} from '@docmost/db/types/entity.types';
+import {
+  CreatePagePropertyDto,
+  PagePropertyOptionDto,
+  UpdatePagePropertyDto,
+} from './dto/page-property.dto';
+import {
+  OPTION_PROPERTY_TYPES,
+  PagePropertyType,
+} from './page-property.constants';
+import { normalizePropertyValue } from './page-property.utils';
+
+// collection views load all children at once and sort/filter them client-side
+const COLLECTION_PAGE_LIMIT = 500;
+
+@Injectable()
+export class PagePropertyService {
+  constructor(
+    private readonly pagePropertyRepo: PagePropertyRepo,
+    private readonly pagePermissionRepo: PagePermissionRepo,
+    private readonly userRepo: UserRepo,
+    @InjectKysely() private readonly db: KyselyDB,
+  ) {}
+
+  async createProperty(
+    dto: CreatePagePropertyDto,
+    authUser: User,
+    workspaceId: string,
+  ): Promise<PageProperty> {
+    return this.pagePropertyRepo.insertProperty({
+      name: dto.name,
+      type: dto.type,
+      options: this.toOptionsJson(dto.type, dto.options),
+      parentPageId: dto.parentPageId ?? null,
+      spaceId: dto.spaceId,
+      workspaceId,
+      creatorId: authUser.id,
+    });
+  }
+
+  async updateProperty(
+    property: PageProperty,
+    dto: UpdatePagePropertyDto,
+  ): Promise<PageProperty> {
+    return this.pagePropertyRepo.updateProperty(
+      {
+        name: dto.name,
+        options:
+          dto.options === undefined
+            ? undefined
+            : this.toOptionsJson(property.type, dto.options),
+      },
+      property.id,
+    );
+  }
+
+  async deleteProperty(property: PageProperty): Promise<void> {
+    await this.pagePropertyRepo.deleteProperty(property.id);
+  }
+
+  async getPageProperties(page: Page) {
+    const properties = await this.pagePropertyRepo.getPropertiesForParent(
+      page.spaceId,
+      page.parentPageId,
+    );
+    const values = await this.pagePropertyRepo.getValuesForPages([page.id]);
+
+    return {
+      properties,
+      values: Object.fromEntries(
+        values.map((value) => [value.propertyId, value.value]),
+      ),
+      users: await this.getPersonUsers(properties, values, page.workspaceId),
+    };
+  }
+
+  async setPropertyValue(
+    page: Page,
+    property: PageProperty,
+    value: unknown,
+    authUser: User,
+  ) {
+    const appliesToPage =
+      property.spaceId === page.spaceId &&
+      (property.parentPageId === null ||
+        property.parentPageId === page.parentPageId);
+    if (!appliesToPage) {
+      throw new BadRequestException('Property does not apply to this page');
+    }
+
+    const normalizedValue = normalizePropertyValue(property, value);
+
+    if (property.type === PagePropertyType.PERSON && normalizedValue) {
+      const user = await this.userRepo.findById(
+        normalizedValue as string,
+        page.workspaceId,
+      );
+      if (!user) {
+        throw new NotFoundException('User not found');
+      }
+    }
+
+    if (normalizedValue === null) {
+      await this.pagePropertyRepo.deleteValue(page.id, property.id);
+    } else {
+      await this.pagePropertyRepo.upsertValue({
+        pageId: page.id,
+        propertyId: property.id,
+        value: normalizedValue,
+        workspaceId: page.workspaceId,
+        lastUpdatedById: authUser.id,
+      });
+    }
+
+    return { propertyId: property.id, value: normalizedValue };
+  }
+
+  /**
+   * The child pages of a page together with their property values,
+   * used to render collection views.
+   */
+  async getCollection(parentPage: Page, userId: string) {
+    const properties = await this.pagePropertyRepo.getPropertiesForParent(
+      parentPage.spaceId,
+      parentPage.id,
+    );
+
+    const pages = await this.db
+      .selectFrom('pages')
+      .select([
+        'id',
+        'slugId',
+        'title',
+        'icon',
+        'position',
+        'creatorId',
+        'createdAt',
+        'updatedAt',
+      ])
+      .where('parentPageId', '=', parentPage.id)
+      .where('deletedAt', 'is', null)
+      .where(
+        'id',
+        'not in',
+        this.pagePermissionRepo.getInaccessiblePageIds(userId, {
+          spaceId: parentPage.spaceId,
+        }),
+      )
+      .orderBy('position', (ob) => ob.collate('C').asc())
+      .limit(COLLECTION_PAGE_LIMIT)
+      .execute();
+
+    const values = await this.pagePropertyRepo.getValuesForPages(
+      pages.map((page) => page.id),
+    );
+
+    const valuesByPage = new Map<string, Record<string, unknown>>();
+    for (const value of values) {
+      const pageValues = valuesByPage.get(value.pageId) ?? {};
+      pageValues[value.propertyId] = value.value;
+      valuesByPage.set(value.pageId, pageValues);
+    }
+
+    return {
+      properties,
+      pages: pages.map((page) => ({
+        ...page,
+        properties: valuesByPage.get(page.id) ?? {},
+      })),
+      users: await this.getPersonUsers(
+        properties,
+        values,
+        parentPage.workspaceId,
+      ),
+    };
+  }
+
+  // the users referenced by person properties, so clients can render them
+  private async getPersonUsers(
+    properties: PageProperty[],
+    values: Pick<PagePropertyValue, 'propertyId' | 'value'>[],
+    workspaceId: string,
+  ) {
+    const personPropertyIds = properties
+      .filter((property) => property.type === PagePropertyType.PERSON)
+      .map((property) => property.id);
+
+    const userIds = [
+      ...new Set(
+        values
+          .filter((value) => personPropertyIds.includes(value.propertyId))
+          .map((value) => value.value as string),
+      ),
+    ];
+    if (userIds.length === 0) return [];
+
+    return this.db
+      .selectFrom('users')
+      .select(['id', 'name', 'avatarUrl'])
+      .where('id', 'in', userIds)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  private toOptionsJson(type: string, options?: PagePropertyOptionDto[]) {
+    if (!OPTION_PROPERTY_TYPES.includes(type as PagePropertyType)) {
+      return null;
+    }
+
+    const uniqueOptions = [
+      ...new Map((options ?? []).map((option) => [option.id, option])).values(),
+    ].map(({ id, name, color }) => ({ id, name, color: color ?? null }));
+
+    return JSON.stringify(uniqueOptions);
+  }
+}
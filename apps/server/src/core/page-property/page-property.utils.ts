@@ -0,0 +1,79 @@
+import { BadRequestException } from '@nestjs/common';
+import { validate as isValidUUID } from 'uuid';
+import { PageProperty } from '@docmost/db/types/entity.types';
+import {
+  PagePropertyOption,
+  PagePropertyType,
+  PROPERTY_TEXT_MAX_LENGTH,
+} from './page-property.constants';
+
+const DATE_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+
+function getOptionIds(property: Pick<PageProperty, 'options'>): string[] {
+  const options = (property.options ?? []) as unknown as PagePropertyOption[];
+  return options.map((option) => option.id);
+}
+
+/**
+ * Checks a value against the property type and returns it in its stored form.
+ * Empty values return null so the caller can clear them.
+ */
+export function normalizePropertyValue(
+  property: Pick<PageProperty, 'type' | 'options'>,
+  value: unknown,
+): unknown | null {
+  if (value === null || value === undefined || value === '') {
+    return null;
+  }
+
+  const invalid = () =>
+    new BadRequestException(`Invalid value for a ${property.type} property`);
+
+  switch (property.type) {
+    case PagePropertyType.TEXT:
+      if (typeof value !== 'string') throw invalid();
+      return value.slice(0, PROPERTY_TEXT_MAX_LENGTH);
+
+    case PagePropertyType.NUMBER:
+      if (typeof value !== 'number' || !Number.isFinite(value)) throw invalid();
+      return value;
+
+    case PagePropertyType.CHECKBOX:
+      if (typeof value !== 'boolean') throw invalid();
+      return value;
+
+    case PagePropertyType.DATE:
+      if (
+        typeof value !== 'string' ||
+        !DATE_REGEX.test(value) ||
+        isNaN(Date.parse(value))
+      ) {
+        throw invalid();
+      }
+      return value;
+
+    case PagePropertyType.PERSON:
+      if (typeof value !== 'string' || !isValidUUID(value)) throw invalid();
+      return value;
+
+    case PagePropertyType.SELECT:
+      if (typeof value !== 'string' || !getOptionIds(property).includes(value))
+        throw invalid();
+      return value;
+
+    case PagePropertyType.MULTI_SELECT: {
+      const optionIds = getOptionIds(property);
+      if (
+        !Array.isArray(value) ||
+        value.some((item) => !optionIds.includes(item))
+      ) {
+        throw invalid();
+      }
+      const selected = [...new Set(value as string[])];
+      return selected.length > 0 ? selected : null;
+    }
+
+    default:
+      throw invalid();
+  }
+}
@@ -0,0 +1,40 @@
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { PageIdDto } from '../../page/dto/page.dto';
+import { MAX_REVIEW_APPROVERS, ReviewDecision } from '../page-review.constants';
+
+export class PageReviewIdDto {
+  @IsUUID()
+  reviewId: string;
+}
+
+export class RequestReviewDto extends PageIdDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_REVIEW_APPROVERS)
+  @IsUUID('all', { each: true })
+  approverIds: string[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  message?: string;
+}
+
+export class ReviewDecisionDto extends PageReviewIdDto {
+  @IsIn(Object.values(ReviewDecision))
+  decision: ReviewDecision;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  comment?: string;
+}
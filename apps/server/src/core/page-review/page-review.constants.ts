@@ -0,0 +1,13 @@
+export enum PageReviewStatus {
+  PENDING = 'pending',
+  APPROVED = 'approved',
+  REJECTED = 'rejected',
+  CANCELLED = 'cancelled',
+}
+
+export enum ReviewDecision {
+  APPROVE = 'approve',
+  REJECT = 'reject',
+}
+
+export const MAX_REVIEW_APPROVERS = 10;
@@ -0,0 +1,123 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { User } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PageReviewRepo } from '@docmost/db/repos/page/page-review.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { PageIdDto } from '../page/dto/page.dto';
+import { PageReviewService } from './page-review.service';
+import {
+  PageReviewIdDto,
+  RequestReviewDto,
+  ReviewDecisionDto,
+} from './dto/page-review.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('page-reviews')
+export class PageReviewController {
+  constructor(
+    private readonly pageReviewService: PageReviewService,
+    private readonly pageReviewRepo: PageReviewRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('status')
+  async getReviewStatus(@Body() dto: PageIdDto, @AuthUser() user: User) {
+    const page = await this.pageRepo.findById(dto.pageId, {
+      includePublishedContent: true,
+    });
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.pageReviewService.getReviewStatus(page);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('request')
+  async requestReview(@Body() dto: RequestReviewDto, @AuthUser() user: User) {
+    const page = await this.pageRepo.findById(dto.pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.pageReviewService.requestReview(page, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('diff')
+  async getReviewDiff(@Body() dto: PageReviewIdDto, @AuthUser() user: User) {
+    const review = await this.findReviewForEditor(dto.reviewId, user);
+    return this.pageReviewService.getReviewDiff(review);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('decide')
+  async decide(@Body() dto: ReviewDecisionDto, @AuthUser() user: User) {
+    const review = await this.findReviewForEditor(dto.reviewId, user);
+    return this.pageReviewService.decide(review, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('cancel')
+  async cancel(@Body() dto: PageReviewIdDto, @AuthUser() user: User) {
+    const review = await this.pageReviewRepo.findById(dto.reviewId);
+    if (!review || review.workspaceId !== user.workspaceId) {
+      throw new NotFoundException('Review not found');
+    }
+
+    // the requester and space admins can withdraw a review
+    const ability = await this.spaceAbility.createForUser(user, review.spaceId);
+    if (
+      review.requesterId !== user.id &&
+      ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    await this.pageReviewService.cancel(review);
+  }
+
+  private async findReviewForEditor(reviewId: string, user: User) {
+    const review = await this.pageReviewRepo.findById(reviewId);
+    if (!review || review.workspaceId !== user.workspaceId) {
+      throw new NotFoundException('Review not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: review.pageId,
+      spaceId: review.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return review;
+  }
+}
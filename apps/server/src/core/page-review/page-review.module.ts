@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PageReviewController } from './page-review.controller';
+import { PageReviewService } from './page-review.service';
+import { CollaborationModule } from '../../collaboration/collaboration.module';
+
+@Module({
+  imports: [CollaborationModule],
+  controllers: [PageReviewController],
+  providers: [PageReviewService],
+})
+export class PageReviewModule {}
@@ -0,0 +1,265 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { executeTx } from '@docmost/db/utils';
+import { PageReviewRepo } from '@docmost/db/repos/page/page-review.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import { Page, PageReview, User } from '@docmost/db/types/entity.types';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { CollaborationGateway } from '../../collaboration/collaboration.gateway';
+import { getProsemirrorContent } from '../../common/helpers/prosemirror/utils';
+import { diffPageContent } from '../page/page-diff.util';
+import { QueueJob, QueueName } from '../../integrations/queue/constants';
+import { IPageReviewNotificationJob } from '../../integrations/queue/constants/queue.interface';
+import { NotificationType } from '../notification/notification.constants';
+import { RequestReviewDto, ReviewDecisionDto } from './dto/page-review.dto';
+import { PageReviewStatus, ReviewDecision } from './page-review.constants';
+
+@Injectable()
+export class PageReviewService {
+  constructor(
+    private readonly pageReviewRepo: PageReviewRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
+    private readonly userRepo: UserRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+    private readonly collaborationGateway: CollaborationGateway,
+    @InjectKysely() private readonly db: KyselyDB,
+    @InjectQueue(QueueName.NOTIFICATION_QUEUE)
+    private readonly notificationQueue: Queue,
+  ) {}
+
+  async getReviewStatus(page: Page) {
+    const space = await this.spaceRepo.findById(page.spaceId, page.workspaceId);
+    const pendingReview = await this.pageReviewRepo.findPendingByPageId(
+      page.id,
+      { includeApprovers: true },
+    );
+
+    return {
+      reviewWorkflow: space?.reviewWorkflow ?? false,
+      publishedAt: page.publishedAt,
+      pendingReview: pendingReview ?? null,
+    };
+  }
+
+  /**
+   * Submits the current state of the page for review.
+   * The content is snapshotted so later edits do not change
+   * what the approvers sign off on.
+   */
+  async requestReview(page: Page, dto: RequestReviewDto, authUser: User) {
+    const space = await this.spaceRepo.findById(page.spaceId, page.workspaceId);
+    if (!space?.reviewWorkflow) {
+      throw new BadRequestException(
+        'The review workflow is not enabled in this space',
+      );
+    }
+
+    const approverIds = [...new Set(dto.approverIds)];
+    if (approverIds.includes(authUser.id)) {
+      throw new BadRequestException('You cannot approve your own changes');
+    }
+
+    for (const approverId of approverIds) {
+      const approver = await this.userRepo.findById(
+        approverId,
+        page.workspaceId,
+      );
+      if (!approver || approver.deletedAt || approver.deactivatedAt) {
+        throw new BadRequestException('Approver not found');
+      }
+
+      const ability = await this.spaceAbility
+        .createForPage(approver, page)
+        .catch(() => null);
+      if (!ability?.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+        throw new BadRequestException(
+          `${approver.name} cannot edit this page and cannot approve it`,
+        );
+      }
+    }
+
+    const content = await this.collaborationGateway.getDocumentContent(
+      `page.${page.id}`,
+      { user: authUser },
+    );
+
+    const review = await executeTx(this.db, async (trx) => {
+      const pendingReview = await this.pageReviewRepo.findPendingByPageId(
+        page.id,
+        { trx },
+      );
+      if (pendingReview) {
+        throw new BadRequestException('This page already has a pending review');
+      }
+
+      return this.pageReviewRepo.insertReview(
+        {
+          pageId: page.id,
+          spaceId: page.spaceId,
+          workspaceId: page.workspaceId,
+          requesterId: authUser.id,
+          content,
+          message: dto.message || null,
+        },
+        approverIds,
+        trx,
+      );
+    });
+
+    await this.notify(
+      NotificationType.PAGE_REVIEW_REQUESTED,
+      page,
+      approverIds,
+      authUser.id,
+    );
+
+    return this.pageReviewRepo.findById(review.id, { includeApprovers: true });
+  }
+
+  /**
+   * Records the decision of an approver. A single rejection rejects the
+   * review; once every approver approved, the snapshot is published.
+   */
+  async decide(review: PageReview, dto: ReviewDecisionDto, authUser: User) {
+    const status = await executeTx(this.db, async (trx) => {
+      const lockedReview = await this.pageReviewRepo.findById(review.id, {
+        includeContent: true,
+        withLock: true,
+        trx,
+      });
+      if (lockedReview.status !== PageReviewStatus.PENDING) {
+        throw new BadRequestException('This review is no longer pending');
+      }
+
+      const approvers = await this.pageReviewRepo.getApproverStatuses(
+        review.id,
+        trx,
+      );
+      const approver = approvers.find((entry) => entry.userId === authUser.id);
+      if (!approver) {
+        throw new ForbiddenException('You are not an approver of this review');
+      }
+      if (approver.status !== PageReviewStatus.PENDING) {
+        throw new BadRequestException('You already decided on this review');
+      }
+
+      approver.status =
+        dto.decision === ReviewDecision.APPROVE
+          ? PageReviewStatus.APPROVED
+          : PageReviewStatus.REJECTED;
+
+      await this.pageReviewRepo.updateApproverDecision(
+        review.id,
+        authUser.id,
+        { status: approver.status, comment: dto.comment },
+        trx,
+      );
+
+      let reviewStatus = PageReviewStatus.PENDING;
+      if (approver.status === PageReviewStatus.REJECTED) {
+        reviewStatus = PageReviewStatus.REJECTED;
+      } else if (
+        approvers.every((entry) => entry.status === PageReviewStatus.APPROVED)
+      ) {
+        reviewStatus = PageReviewStatus.APPROVED;
+      }
+
+      if (reviewStatus === PageReviewStatus.PENDING) {
+        return reviewStatus;
+      }
+
+      await this.pageReviewRepo.updateReview(
+        { status: reviewStatus, resolvedAt: new Date() },
+        review.id,
+        trx,
+      );
+
+      if (reviewStatus === PageReviewStatus.APPROVED) {
+        await this.pageRepo.updatePage(
+          {
+            publishedContent: lockedReview.content,
+            publishedAt: new Date(),
+            publishedById: authUser.id,
+            workspaceId: review.workspaceId,
+          },
+          review.pageId,
+          trx,
+        );
+      }
+
+      return reviewStatus;
+    });
+
+    if (status !== PageReviewStatus.PENDING && review.requesterId) {
+      const page = await this.pageRepo.findById(review.pageId);
+      await this.notify(
+        status === PageReviewStatus.APPROVED
+          ? NotificationType.PAGE_REVIEW_APPROVED
+          : NotificationType.PAGE_REVIEW_REJECTED,
+        page,
+        [review.requesterId],
+        authUser.id,
+      );
+    }
+
+    return this.pageReviewRepo.findById(review.id, { includeApprovers: true });
+  }
+
+  async cancel(review: PageReview): Promise<void> {
+    if (review.status !== PageReviewStatus.PENDING) {
+      throw new BadRequestException('This review is no longer pending');
+    }
+
+    await this.pageReviewRepo.updateReview(
+      { status: PageReviewStatus.CANCELLED, resolvedAt: new Date() },
+      review.id,
+    );
+  }
+
+  // changes of the submitted snapshot against the published version
+  async getReviewDiff(review: PageReview) {
+    const [reviewWithContent, page] = await Promise.all([
+      this.pageReviewRepo.findById(review.id, { includeContent: true }),
+      this.pageRepo.findById(review.pageId, {
+        includePublishedContent: true,
+      }),
+    ]);
+
+    return {
+      publishedAt: page.publishedAt,
+      changes: diffPageContent(
+        getProsemirrorContent(page.publishedContent),
+        getProsemirrorContent(reviewWithContent.content),
+      ),
+    };
+  }
+
+  private async notify(
+    type: NotificationType,
+    page: Page,
+    userIds: string[],
+    actorId: string,
+  ): Promise<void> {
+    await this.notificationQueue.add(QueueJob.PAGE_REVIEW_NOTIFICATIONS, {
+      type,
+      pageId: page.id,
+      userIds,
+      workspaceId: page.workspaceId,
+      actorId,
+    } as IPageReviewNotificationJob);
+  }
+}
@@ -0,0 +1,20 @@
+import { MongoAbility } from '@casl/ability';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+
+/**
+ * In spaces with the review workflow, members who cannot edit a page
+ * only get to see its last approved version, never the working draft.
+ */
+export function canViewPageDraft(
+  space: { reviewWorkflow?: boolean } | null | undefined,
+  ability: MongoAbility<ISpaceAbility>,
+): boolean {
+  return (
+    !space?.reviewWorkflow ||
+    ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)
+  );
+}
@@ -0,0 +1,46 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsUUID,
+} from 'class-validator';
+import { PageIdDto } from './page.dto';
+import { PageRole } from '../../../common/helpers/types/permission';
+
+export class AddPagePermissionsDto extends PageIdDto {
+  @IsEnum(PageRole)
+  role: string;
+
+  @IsArray()
+  @ArrayMaxSize(25, {
+    message: 'userIds must an array with no more than 25 elements',
+  })
+  @IsUUID('all', { each: true })
+  userIds: string[];
+
+  @IsArray()
+  @ArrayMaxSize(25, {
+    message: 'groupIds must an array with no more than 25 elements',
+  })
+  @IsUUID('all', { each: true })
+  groupIds: string[];
+}
+
+export class RemovePagePermissionDto extends PageIdDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsUUID()
+  userId: string;
+
+  @IsOptional()
+  @IsNotEmpty()
+  @IsUUID()
+  groupId: string;
+}
+
+export class UpdatePagePermissionRoleDto extends RemovePagePermissionDto {
+  @IsEnum(PageRole)
+  role: string;
+}
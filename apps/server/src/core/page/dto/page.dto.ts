@@ -4,6 +4,7 @@ import {
   IsOptional,
   IsString,
   IsUUID,
+  MaxLength,
 } from 'class-validator';
 
 export class PageIdDto {
@@ -22,6 +23,40 @@ export class PageHistoryIdDto {
   historyId: string;
 }
 
+export class PageHistoryListDto extends PageIdDto {
+  @IsOptional()
+  @IsBoolean()
+  pinnedOnly?: boolean;
+}
+
+export class CreatePageVersionDto extends PageIdDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(255)
+  name: string;
+}
+
+export class UpdatePageHistoryDto extends PageHistoryIdDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isPinned?: boolean;
+}
+
+export class PageHistoryDiffDto {
+  @IsUUID()
+  fromHistoryId: string;
+
+  // compare against the current page content when omitted
+  @IsOptional()
+  @IsUUID()
+  toHistoryId?: string;
+}
+
 export class PageInfoDto extends PageIdDto {
   @IsOptional()
   @IsBoolean()
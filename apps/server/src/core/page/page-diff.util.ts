@@ -0,0 +1,192 @@
+import { JSONContent } from '@tiptap/core';
+import { isDeepStrictEqual } from 'node:util';
+
+export enum PageDiffChangeType {
+  INSERT = 'insert',
+  DELETE = 'delete',
+  MODIFY = 'modify',
+}
+
+/**
+ * A node-level change between two documents.
+ * Paths are child indexes from the doc root: `oldPath` points into the old document,
+ * `newPath` into the new one. Inserts only have a newPath, deletes only an oldPath.
+ */
+export interface PageDiffChange {
+  type: PageDiffChangeType;
+  oldPath?: number[];
+  newPath?: number[];
+  oldNode?: JSONContent;
+  newNode?: JSONContent;
+}
+
+// above this many node comparisons the unmatched range is reported as delete + insert
+const MAX_LCS_CELLS = 1_000_000;
+
+export function diffPageContent(
+  oldDoc: JSONContent,
+  newDoc: JSONContent,
+): PageDiffChange[] {
+  const changes: PageDiffChange[] = [];
+  diffChildren(oldDoc?.content ?? [], newDoc?.content ?? [], [], [], changes);
+  return changes;
+}
+
+function diffChildren(
+  oldNodes: JSONContent[],
+  newNodes: JSONContent[],
+  oldPath: number[],
+  newPath: number[],
+  changes: PageDiffChange[],
+) {
+  const oldKeys = oldNodes.map(nodeKey);
+  const newKeys = newNodes.map(nodeKey);
+  const matches = longestCommonSubsequence(oldKeys, newKeys);
+
+  let oldIndex = 0;
+  let newIndex = 0;
+
+  // a sentinel match closes the trailing unmatched range
+  for (const [matchOld, matchNew] of [
+    ...matches,
+    [oldNodes.length, newNodes.length],
+  ]) {
+    const removed = range(oldIndex, matchOld);
+    const added = range(newIndex, matchNew);
+    const paired = Math.min(removed.length, added.length);
+
+    for (let i = 0; i < paired; i++) {
+      const o = removed[i];
+      const n = added[i];
+      const oldNode = oldNodes[o];
+      const newNode = newNodes[n];
+
+      if (oldNode.type !== newNode.type) {
+        changes.push(deleteChange(oldNode, [...oldPath, o]));
+        changes.push(insertChange(newNode, [...newPath, n]));
+      } else if (
+        isContainer(oldNode) &&
+        isContainer(newNode) &&
+        isDeepStrictEqual(oldNode.attrs ?? {}, newNode.attrs ?? {})
+      ) {
+        // same wrapper (list, table, callout...), report the changes inside it
+        diffChildren(
+          oldNode.content,
+          newNode.content,
+          [...oldPath, o],
+          [...newPath, n],
+          changes,
+        );
+      } else {
+        changes.push({
+          type: PageDiffChangeType.MODIFY,
+          oldPath: [...oldPath, o],
+          newPath: [...newPath, n],
+          oldNode,
+          newNode,
+        });
+      }
+    }
+
+    removed
+      .slice(paired)
+      .forEach((o) => changes.push(deleteChange(oldNodes[o], [...oldPath, o])));
+    added
+      .slice(paired)
+      .forEach((n) => changes.push(insertChange(newNodes[n], [...newPath, n])));
+
+    oldIndex = matchOld + 1;
+    newIndex = matchNew + 1;
+  }
+}
+
+function deleteChange(node: JSONContent, path: number[]): PageDiffChange {
+  return { type: PageDiffChangeType.DELETE, oldPath: path, oldNode: node };
+}
+
+function insertChange(node: JSONContent, path: number[]): PageDiffChange {
+  return { type: PageDiffChangeType.INSERT, newPath: path, newNode: node };
+}
+
+// block nodes whose children are blocks too, e.g. lists, tables or callouts
+function isContainer(node: JSONContent): boolean {
+  return (
+    Array.isArray(node.content) &&
+    node.content.length > 0 &&
+    node.content.some((child) => Array.isArray(child.content))
+  );
+}
+
+function nodeKey(node: JSONContent): string {
+  return JSON.stringify(node);
+}
+
+function range(start: number, end: number): number[] {
+  const result: number[] = [];
+  for (let i = start; i < end; i++) result.push(i);
+  return result;
+}
+
+/**
+ * Returns the index pairs of equal keys forming the longest common subsequence.
+ * Common prefixes and suffixes are matched up front to keep the table small.
+ */
+function longestCommonSubsequence(
+  a: string[],
+  b: string[],
+): Array<[number, number]> {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const prefix: Array<[number, number]> = range(0, start).map((i) => [i, i]);
+  const suffix: Array<[number, number]> = range(0, a.length - endA).map((i) => [
+    endA + i,
+    endB + i,
+  ]);
+
+  const rows = endA - start;
+  const cols = endB - start;
+  if (rows === 0 || cols === 0 || rows * cols > MAX_LCS_CELLS) {
+    return [...prefix, ...suffix];
+  }
+
+  const table: Uint32Array[] = [];
+  for (let i = 0; i <= rows; i++) {
+    table.push(new Uint32Array(cols + 1));
+  }
+
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      table[i][j] =
+        a[start + i] === b[start + j]
+          ? table[i + 1][j + 1] + 1
+          : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const middle: Array<[number, number]> = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (a[start + i] === b[start + j]) {
+      middle.push([start + i, start + j]);
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return [...prefix, ...middle, ...suffix];
+}
@@ -0,0 +1,28 @@
+export const DEFAULT_HISTORY_SNAPSHOT_INTERVAL_MINUTES = 5;
+export const DEFAULT_HISTORY_KEEP_ALL_DAYS = 30;
+export const DEFAULT_HISTORY_KEEP_DAILY_DAYS = 90;
+
+export interface PageHistorySettings {
+  snapshotInterval: number;
+  retentionEnabled: boolean;
+  keepAllDays: number;
+  keepDailyDays: number;
+}
+
+/**
+ * Resolves the page history settings stored under `settings.history`
+ * on the workspace, falling back to the defaults for unset values.
+ */
+export function getPageHistorySettings(workspace: {
+  settings?: unknown;
+}): PageHistorySettings {
+  const history = (workspace?.settings as any)?.history ?? {};
+
+  return {
+    snapshotInterval:
+      history.snapshotInterval ?? DEFAULT_HISTORY_SNAPSHOT_INTERVAL_MINUTES,
+    retentionEnabled: history.retentionEnabled === true,
+    keepAllDays: history.keepAllDays ?? DEFAULT_HISTORY_KEEP_ALL_DAYS,
+    keepDailyDays: history.keepDailyDays ?? DEFAULT_HISTORY_KEEP_DAILY_DAYS,
+  };
+}
@@ -0,0 +1,55 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  MongoAbility,
+} from '@casl/ability';
+import { canManagePageLock, isPageLockedForUser } from './page-lock.util';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+
+function buildAbility(
+  rules: [SpaceCaslAction, SpaceCaslSubject][],
+): MongoAbility<ISpaceAbility> {
+  const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+    createMongoAbility,
+  );
+  for (const [action, subject] of rules) {
+    can(action, subject);
+  }
+  return build();
+}
+
+describe('page lock', () => {
+  const page = { creatorId: 'creator', isLocked: true };
+  const writer = buildAbility([
+    [SpaceCaslAction.Manage, SpaceCaslSubject.Page],
+  ]);
+  const admin = buildAbility([
+    [SpaceCaslAction.Manage, SpaceCaslSubject.Settings],
+    [SpaceCaslAction.Manage, SpaceCaslSubject.Page],
+  ]);
+  const reader = buildAbility([[SpaceCaslAction.Read, SpaceCaslSubject.Page]]);
+
+  it('locks the page for writers', () => {
+    expect(canManagePageLock(page, 'writer', writer)).toBe(false);
+    expect(isPageLockedForUser(page, 'writer', writer)).toBe(true);
+  });
+
+  it('keeps the page editable for the creator and space admins', () => {
+    expect(isPageLockedForUser(page, 'creator', writer)).toBe(false);
+    expect(isPageLockedForUser(page, 'admin', admin)).toBe(false);
+  });
+
+  it('does not let a creator without edit rights manage the lock', () => {
+    expect(canManagePageLock(page, 'creator', reader)).toBe(false);
+  });
+
+  it('does not lock unlocked pages', () => {
+    expect(
+      isPageLockedForUser({ ...page, isLocked: false }, 'writer', writer),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,34 @@
+import { MongoAbility } from '@casl/ability';
+import { Page } from '@docmost/db/types/entity.types';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+
+/**
+ * Only space admins and the page creator can lock or unlock a page,
+ * and they keep full edit access while it is locked.
+ */
+export function canManagePageLock(
+  page: Pick<Page, 'creatorId'>,
+  userId: string,
+  ability: MongoAbility<ISpaceAbility>,
+): boolean {
+  if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+    return false;
+  }
+
+  return (
+    ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Settings) ||
+    page.creatorId === userId
+  );
+}
+
+export function isPageLockedForUser(
+  page: Pick<Page, 'isLocked' | 'creatorId'>,
+  userId: string,
+  ability: MongoAbility<ISpaceAbility>,
+): boolean {
+  return page.isLocked && !canManagePageLock(page, userId, ability);
+}
@@ -0,0 +1,62 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  MongoAbility,
+} from '@casl/ability';
+import { canManagePagePermissions } from './page-permission.util';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+
+function buildAbility(
+  rules: [SpaceCaslAction, SpaceCaslSubject][],
+): MongoAbility<ISpaceAbility> {
+  const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+    createMongoAbility,
+  );
+  for (const [action, subject] of rules) {
+    can(action, subject);
+  }
+  return build();
+}
+
+describe('canManagePagePermissions', () => {
+  const page = { creatorId: 'creator' };
+
+  it('allows space admins', () => {
+    const ability = buildAbility([
+      [SpaceCaslAction.Manage, SpaceCaslSubject.Settings],
+      [SpaceCaslAction.Manage, SpaceCaslSubject.Page],
+    ]);
+
+    expect(canManagePagePermissions(page, 'admin', ability)).toBe(true);
+  });
+
+  it('allows the page creator while they can edit the page', () => {
+    const ability = buildAbility([
+      [SpaceCaslAction.Edit, SpaceCaslSubject.Page],
+    ]);
+
+    expect(canManagePagePermissions(page, 'creator', ability)).toBe(true);
+  });
+
+  it('denies the page creator once they can no longer edit it', () => {
+    const ability = buildAbility([
+      [SpaceCaslAction.Read, SpaceCaslSubject.Page],
+    ]);
+
+    expect(canManagePagePermissions(page, 'creator', ability)).toBe(false);
+  });
+
+  it('denies other writers', () => {
+    const ability = buildAbility([
+      [SpaceCaslAction.Read, SpaceCaslSubject.Page],
+      [SpaceCaslAction.Create, SpaceCaslSubject.Page],
+      [SpaceCaslAction.Edit, SpaceCaslSubject.Page],
+    ]);
+
+    expect(canManagePagePermissions(page, 'writer', ability)).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+import { MongoAbility } from '@casl/ability';
+import { Page } from '@docmost/db/types/entity.types';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+
+/**
+ * Only space admins and the page creator can change page restrictions,
+ * so page writers cannot lock out admins or other writers.
+ */
+export function canManagePagePermissions(
+  page: Pick<Page, 'creatorId'>,
+  userId: string,
+  ability: MongoAbility<ISpaceAbility>,
+): boolean {
+  if (ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)) {
+    return true;
+  }
+
+  return (
+    page.creatorId === userId &&
+    ability.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page)
+  );
+}
@@ -14,27 +14,48 @@ import { CreatePageDto } from './dto/create-page.dto';
 import { UpdatePageDto } from './dto/update-page.dto';
 import { MovePageDto, MovePageToSpaceDto } from './dto/move-page.dto';
 import {
+  CreatePageVersionDto,
   DeletePageDto,
+  PageHistoryDiffDto,
   PageHistoryIdDto,
+  PageHistoryListDto,
   PageIdDto,
   PageInfoDto,
+  UpdatePageHistoryDto,
 } from './dto/page.dto';
 import { PageHistoryService } from './services/page-history.service';
 import { AuthUser } from '../../common/decorators/auth-user.decorator';
 import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
-import { User, Workspace } from '@docmost/db/types/entity.types';
+import {
+  Page,
+  PageHistory,
+  User,
+  Workspace,
+} from '@docmost/db/types/entity.types';
 import { SidebarPageDto } from './dto/sidebar-page.dto';
 import {
+  ISpaceAbility,
   SpaceCaslAction,
   SpaceCaslSubject,
 } from '../casl/interfaces/space-ability.type';
+import { MongoAbility } from '@casl/ability';
 import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 import { RecentPageDto } from './dto/recent-page.dto';
 import { DuplicatePageDto } from './dto/duplicate-page.dto';
 import { DeletedPageDto } from './dto/deleted-page.dto';
+import { PagePermissionService } from './services/page-permission.service';
+import {
+  AddPagePermissionsDto,
+  RemovePagePermissionDto,
+  UpdatePagePermissionRoleDto,
+} from './dto/page-permission.dto';
+import { canManagePageLock, isPageLockedForUser } from './page-lock.util';
+import { canManagePagePermissions } from './page-permission.util';
+import { canViewPageDraft } from '../page-review/page-review.util';
 
 @UseGuards(JwtAuthGuard)
 @Controller('pages')
@@ -42,7 +63,9 @@ export class PageController {
   constructor(
     private readonly pageService: PageService,
     private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
     private readonly pageHistoryService: PageHistoryService,
+    private readonly pagePermissionService: PagePermissionService,
     private readonly spaceAbility: SpaceAbilityFactory,
   ) {}
 
@@ -55,18 +78,26 @@ export class PageController {
       includeCreator: true,
       includeLastUpdatedBy: true,
       includeContributors: true,
+      includePublishedContent: true,
     });
 
     if (!page) {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
-    return page;
+    // readers in review workflow spaces get the last approved version
+    const space = await this.spaceRepo.findById(page.spaceId, page.workspaceId);
+    const { publishedContent, ...pageInfo } = page;
+    if (!canViewPageDraft(space, ability)) {
+      pageInfo.content = publishedContent;
+    }
+
+    return { ...pageInfo, permissions: ability.rules };
   }
 
   @HttpCode(HttpStatus.OK)
@@ -84,6 +115,23 @@ export class PageController {
       throw new ForbiddenException();
     }
 
+    if (createPageDto.parentPageId) {
+      const parentPage = await this.pageRepo.findById(
+        createPageDto.parentPageId,
+      );
+      if (parentPage) {
+        const parentAbility = await this.spaceAbility.createForPage(
+          user,
+          parentPage,
+        );
+        if (
+          parentAbility.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)
+        ) {
+          throw new ForbiddenException();
+        }
+      }
+    }
+
     return this.pageService.create(user.id, workspace.id, createPageDto);
   }
 
@@ -96,12 +144,50 @@ export class PageController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
-    return this.pageService.update(page, updatePageDto, user.id);
+    return this.pageService.update(page, updatePageDto, user.id, {
+      canBypassLock: canManagePageLock(page, user.id, ability),
+    });
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('lock')
+  async lock(@Body() pageIdDto: PageIdDto, @AuthUser() user: User) {
+    const page = await this.pageRepo.findById(pageIdDto.pageId);
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (!canManagePageLock(page, user.id, ability)) {
+      throw new ForbiddenException(
+        'Only space admins and the page creator can lock this page',
+      );
+    }
+
+    return this.pageService.setLocked(page, true);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('unlock')
+  async unlock(@Body() pageIdDto: PageIdDto, @AuthUser() user: User) {
+    const page = await this.pageRepo.findById(pageIdDto.pageId);
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (!canManagePageLock(page, user.id, ability)) {
+      throw new ForbiddenException(
+        'Only space admins and the page creator can unlock this page',
+      );
+    }
+
+    return this.pageService.setLocked(page, false);
   }
 
   @HttpCode(HttpStatus.OK)
@@ -117,7 +203,7 @@ export class PageController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
 
     if (deletePageDto.permanentlyDelete) {
       // Permanent deletion requires space admin permissions
@@ -126,17 +212,13 @@ export class PageController {
           'Only space admins can permanently delete pages',
         );
       }
-      await this.pageService.forceDelete(deletePageDto.pageId, workspace.id);
+      await this.pageService.forceDelete(page, user.id, workspace.id);
     } else {
-      // Soft delete requires page manage permissions
-      if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Page)) {
+      // Soft delete requires page delete permissions
+      if (ability.cannot(SpaceCaslAction.Delete, SpaceCaslSubject.Page)) {
         throw new ForbiddenException();
       }
-      await this.pageService.removePage(
-        deletePageDto.pageId,
-        user.id,
-        workspace.id,
-      );
+      await this.pageService.removePage(page, user.id, workspace.id);
     }
   }
 
@@ -153,12 +235,12 @@ export class PageController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
-    await this.pageRepo.restorePage(pageIdDto.pageId, workspace.id);
+    await this.pageService.restorePage(page, user.id, workspace.id);
 
     return this.pageRepo.findById(pageIdDto.pageId, {
       includeHasChildren: true,
@@ -185,6 +267,7 @@ export class PageController {
       return this.pageService.getRecentSpacePages(
         recentPageDto.spaceId,
         pagination,
+        user.id,
       );
     }
 
@@ -211,6 +294,7 @@ export class PageController {
       return this.pageService.getDeletedSpacePages(
         deletedPageDto.spaceId,
         pagination,
+        user.id,
       );
     }
   }
@@ -219,7 +303,7 @@ export class PageController {
   @HttpCode(HttpStatus.OK)
   @Post('/history')
   async getPageHistory(
-    @Body() dto: PageIdDto,
+    @Body() dto: PageHistoryListDto,
     @Body() pagination: PaginationOptions,
     @AuthUser() user: User,
   ) {
@@ -228,12 +312,15 @@ export class PageController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
+    await this.assertCanViewDraft(page.spaceId, user, ability);
 
-    return this.pageHistoryService.findHistoryByPageId(page.id, pagination);
+    return this.pageHistoryService.findHistoryByPageId(page.id, pagination, {
+      pinnedOnly: dto.pinnedOnly,
+    });
   }
 
   @HttpCode(HttpStatus.OK)
@@ -247,16 +334,209 @@ export class PageController {
       throw new NotFoundException('Page history not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(
-      user,
-      history.spaceId,
-    );
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: history.pageId,
+      spaceId: history.spaceId,
+    });
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
+    await this.assertCanViewDraft(history.spaceId, user, ability);
+
     return history;
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('/history/create')
+  async createPageVersion(
+    @Body() dto: CreatePageVersionDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.pageRepo.findById(dto.pageId, {
+      includeContent: true,
+    });
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.pageHistoryService.createVersion(page, dto.name, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/history/update')
+  async updatePageHistory(
+    @Body() dto: UpdatePageHistoryDto,
+    @AuthUser() user: User,
+  ) {
+    const history = await this.pageHistoryService.findById(dto.historyId);
+    if (!history) {
+      throw new NotFoundException('Page history not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: history.pageId,
+      spaceId: history.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.pageHistoryService.updateVersion(history, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/history/restore')
+  async restorePageHistory(
+    @Body() dto: PageHistoryIdDto,
+    @AuthUser() user: User,
+  ) {
+    const history = await this.pageHistoryService.findById(dto.historyId);
+    if (!history) {
+      throw new NotFoundException('Page history not found');
+    }
+
+    const page = await this.pageRepo.findById(history.pageId);
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (isPageLockedForUser(page, user.id, ability)) {
+      throw new ForbiddenException('Page is locked');
+    }
+
+    await this.pageHistoryService.restore(history, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/history/diff')
+  async diffPageHistory(
+    @Body() dto: PageHistoryDiffDto,
+    @AuthUser() user: User,
+  ) {
+    const fromHistory = await this.pageHistoryService.findById(
+      dto.fromHistoryId,
+    );
+    if (!fromHistory) {
+      throw new NotFoundException('Page history not found');
+    }
+
+    let to: PageHistory | Page;
+    if (dto.toHistoryId) {
+      to = await this.pageHistoryService.findById(dto.toHistoryId);
+      if (!to || to.pageId !== fromHistory.pageId) {
+        throw new NotFoundException('Page history not found');
+      }
+    } else {
+      to = await this.pageRepo.findById(fromHistory.pageId, {
+        includeContent: true,
+      });
+      if (!to) {
+        throw new NotFoundException('Page not found');
+      }
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: fromHistory.pageId,
+      spaceId: fromHistory.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+    await this.assertCanViewDraft(fromHistory.spaceId, user, ability);
+
+    return this.pageHistoryService.diff(fromHistory, to);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/permissions')
+  async getPagePermissions(@Body() dto: PageIdDto, @AuthUser() user: User) {
+    const page = await this.findPageForPermissions(dto.pageId, user, {
+      manage: false,
+    });
+    return this.pagePermissionService.getPagePermissions(page, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/permissions/add')
+  async addPagePermissions(
+    @Body() dto: AddPagePermissionsDto,
+    @AuthUser() user: User,
+  ) {
+    if (
+      (!dto.userIds || dto.userIds.length === 0) &&
+      (!dto.groupIds || dto.groupIds.length === 0)
+    ) {
+      throw new BadRequestException('userIds or groupIds is required');
+    }
+
+    const page = await this.findPageForPermissions(dto.pageId, user);
+    return this.pagePermissionService.addPagePermissions(page, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/permissions/remove')
+  async removePagePermission(
+    @Body() dto: RemovePagePermissionDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.findPageForPermissions(dto.pageId, user);
+    return this.pagePermissionService.removePagePermission(page, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/permissions/change-role')
+  async updatePagePermissionRole(
+    @Body() dto: UpdatePagePermissionRoleDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.findPageForPermissions(dto.pageId, user);
+    return this.pagePermissionService.updatePagePermissionRole(page, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/permissions/unrestrict')
+  async removePageRestriction(@Body() dto: PageIdDto, @AuthUser() user: User) {
+    const page = await this.findPageForPermissions(dto.pageId, user);
+    return this.pagePermissionService.removePageRestriction(page);
+  }
+
+  /*
+   * Page access rules can be viewed by anyone who can read the page.
+   * Only space admins and the page creator can change them,
+   * so page writers cannot lock admins out.
+   */
+  private async findPageForPermissions(
+    pageId: string,
+    user: User,
+    opts = { manage: true },
+  ): Promise<Page> {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (opts.manage && !canManagePagePermissions(page, user.id, ability)) {
+      throw new ForbiddenException();
+    }
+
+    return page;
+  }
+
   @HttpCode(HttpStatus.OK)
   @Post('/sidebar-pages')
   async getSidebarPages(
@@ -270,9 +550,10 @@ export class PageController {
       );
     }
     let spaceId = dto.spaceId;
+    let page: Page;
 
     if (dto.pageId) {
-      const page = await this.pageRepo.findById(dto.pageId);
+      page = await this.pageRepo.findById(dto.pageId);
       if (!page) {
         throw new ForbiddenException();
       }
@@ -280,12 +561,19 @@ export class PageController {
       spaceId = page.spaceId;
     }
 
-    const ability = await this.spaceAbility.createForUser(user, spaceId);
+    const ability = page
+      ? await this.spaceAbility.createForPage(user, page)
+      : await this.spaceAbility.createForUser(user, spaceId);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
-    return this.pageService.getSidebarPages(spaceId, pagination, dto.pageId);
+    return this.pageService.getSidebarPages(
+      spaceId,
+      pagination,
+      dto.pageId,
+      user.id,
+    );
   }
 
   @HttpCode(HttpStatus.OK)
@@ -303,7 +591,7 @@ export class PageController {
     }
 
     const abilities = await Promise.all([
-      this.spaceAbility.createForUser(user, movedPage.spaceId),
+      this.spaceAbility.createForPage(user, movedPage),
       this.spaceAbility.createForUser(user, dto.spaceId),
     ]);
 
@@ -315,7 +603,7 @@ export class PageController {
       throw new ForbiddenException();
     }
 
-    return this.pageService.movePageToSpace(movedPage, dto.spaceId);
+    return this.pageService.movePageToSpace(movedPage, dto.spaceId, user);
   }
 
   @HttpCode(HttpStatus.OK)
@@ -329,7 +617,7 @@ export class PageController {
     // If spaceId is provided, it's a copy to different space
     if (dto.spaceId) {
       const abilities = await Promise.all([
-        this.spaceAbility.createForUser(user, copiedPage.spaceId),
+        this.spaceAbility.createForPage(user, copiedPage),
         this.spaceAbility.createForUser(user, dto.spaceId),
       ]);
 
@@ -344,10 +632,7 @@ export class PageController {
       return this.pageService.duplicatePage(copiedPage, dto.spaceId, user);
     } else {
       // If no spaceId, it's a duplicate in same space
-      const ability = await this.spaceAbility.createForUser(
-        user,
-        copiedPage.spaceId,
-      );
+      const ability = await this.spaceAbility.createForPage(user, copiedPage);
       if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
         throw new ForbiddenException();
       }
@@ -364,14 +649,24 @@ export class PageController {
       throw new NotFoundException('Moved page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(
-      user,
-      movedPage.spaceId,
-    );
+    const ability = await this.spaceAbility.createForPage(user, movedPage);
     if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
+    if (dto.parentPageId && dto.parentPageId !== movedPage.parentPageId) {
+      const parentPage = await this.pageRepo.findById(dto.parentPageId);
+      if (parentPage) {
+        const parentAbility = await this.spaceAbility.createForPage(
+          user,
+          parentPage,
+        );
+        if (parentAbility.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+          throw new ForbiddenException();
+        }
+      }
+    }
+
     return this.pageService.movePage(dto, movedPage);
   }
 
@@ -383,10 +678,22 @@ export class PageController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
     return this.pageService.getPageBreadCrumbs(page.id);
   }
+
+  // page history would reveal unapproved drafts to readers of review spaces
+  private async assertCanViewDraft(
+    spaceId: string,
+    user: User,
+    ability: MongoAbility<ISpaceAbility>,
+  ) {
+    const space = await this.spaceRepo.findById(spaceId, user.workspaceId);
+    if (!canViewPageDraft(space, ability)) {
+      throw new ForbiddenException();
+    }
+  }
 }
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { InjectKysely } from 'nestjs-kysely';
+import { sql } from 'kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { PageHistoryRepo } from '@docmost/db/repos/page/page-history.repo';
+import { getPageHistorySettings } from '../page-history.constants';
+
+@Injectable()
+export class HistoryRetentionService {
+  private readonly logger = new Logger(HistoryRetentionService.name);
+  private readonly BATCH_SIZE = 5000;
+
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly pageHistoryRepo: PageHistoryRepo,
+  ) {}
+
+  @Interval('history-retention', 24 * 60 * 60 * 1000) // every 24 hours
+  async pruneHistory() {
+    try {
+      this.logger.debug('Starting page history retention job');
+
+      const workspaces = await this.db
+        .selectFrom('workspaces')
+        .select(['id', 'settings'])
+        .where(sql`settings->'history'->>'retentionEnabled'`, '=', 'true')
+        .where('deletedAt', 'is', null)
+        .execute();
+
+      for (const workspace of workspaces) {
+        try {
+          await this.pruneWorkspaceHistory(workspace);
+        } catch (error) {
+          this.logger.error(
+            `Failed to prune history for workspace ${workspace.id}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            error instanceof Error ? error.stack : undefined,
+          );
+        }
+      }
+
+      this.logger.debug('Page history retention job completed');
+    } catch (error) {
+      this.logger.error(
+        'Page history retention job failed',
+        error instanceof Error ? error.stack : undefined,
+      );
+    }
+  }
+
+  private async pruneWorkspaceHistory(workspace: {
+    id: string;
+    settings: unknown;
+  }) {
+    const { keepAllDays, keepDailyDays } = getPageHistorySettings(workspace);
+
+    const keepAllBefore = new Date();
+    keepAllBefore.setDate(keepAllBefore.getDate() - keepAllDays);
+
+    const keepDailyBefore = new Date();
+    keepDailyBefore.setDate(
+      keepDailyBefore.getDate() - Math.max(keepDailyDays, keepAllDays),
+    );
+
+    // delete in batches to keep transactions short on large histories
+    let total = 0;
+    let deleted: number;
+    do {
+      deleted = await this.pageHistoryRepo.deleteExpiredHistory(workspace.id, {
+        keepAllBefore,
+        keepDailyBefore,
+        limit: this.BATCH_SIZE,
+      });
+      total += deleted;
+    } while (deleted === this.BATCH_SIZE);
+
+    if (total > 0) {
+      this.logger.debug(
+        `Deleted ${total} history entries in workspace ${workspace.id}`,
+      );
+    }
+  }
+}
@@ -1,12 +1,22 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, NotFoundException } from '@nestjs/common';
 import { PageHistoryRepo } from '@docmost/db/repos/page/page-history.repo';
-import { PageHistory } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { Page, PageHistory, User } from '@docmost/db/types/entity.types';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import { PaginationResult } from '@docmost/db/pagination/pagination';
+import { isDeepStrictEqual } from 'node:util';
+import { CollaborationGateway } from '../../../collaboration/collaboration.gateway';
+import { getProsemirrorContent } from '../../../common/helpers/prosemirror/utils';
+import { UpdatePageHistoryDto } from '../dto/page.dto';
+import { diffPageContent } from '../page-diff.util';
 
 @Injectable()
 export class PageHistoryService {
-  constructor(private pageHistoryRepo: PageHistoryRepo) {}
+  constructor(
+    private pageHistoryRepo: PageHistoryRepo,
+    private pageRepo: PageRepo,
+    private collaborationGateway: CollaborationGateway,
+  ) {}
 
   async findById(historyId: string): Promise<PageHistory> {
     return await this.pageHistoryRepo.findById(historyId);
@@ -15,12 +25,129 @@ export class PageHistoryService {
   async findHistoryByPageId(
     pageId: string,
     paginationOptions: PaginationOptions,
+    opts?: { pinnedOnly?: boolean },
   ): Promise<PaginationResult<any>> {
     const pageHistory = await this.pageHistoryRepo.findPageHistoryByPageId(
       pageId,
       paginationOptions,
+      opts,
     );
 
     return pageHistory;
   }
+
+  /**
+   * Saves the current state of the page as a named version.
+   * Named versions are pinned so they are never pruned.
+   */
+  async createVersion(
+    page: Page,
+    name: string,
+    authUser: User,
+  ): Promise<PageHistory> {
+    return this.pageHistoryRepo.insertPageHistory({
+      pageId: page.id,
+      slugId: page.slugId,
+      title: page.title,
+      content: page.content,
+      icon: page.icon,
+      coverPhoto: page.coverPhoto,
+      lastUpdatedById: page.lastUpdatedById ?? page.creatorId,
+      spaceId: page.spaceId,
+      workspaceId: page.workspaceId,
+      name: name,
+      isPinned: true,
+      pinnedById: authUser.id,
+      pinnedAt: new Date(),
+    });
+  }
+
+  async updateVersion(
+    history: PageHistory,
+    dto: UpdatePageHistoryDto,
+    authUser: User,
+  ): Promise<PageHistory> {
+    const pinnedFields =
+      dto.isPinned === undefined || dto.isPinned === history.isPinned
+        ? {}
+        : {
+            isPinned: dto.isPinned,
+            pinnedById: dto.isPinned ? authUser.id : null,
+            pinnedAt: dto.isPinned ? new Date() : null,
+          };
+
+    await this.pageHistoryRepo.updatePageHistory(
+      {
+        name: dto.name === undefined ? undefined : dto.name.trim() || null,
+        ...pinnedFields,
+      },
+      history.id,
+    );
+
+    return this.pageHistoryRepo.findById(history.id);
+  }
+
+  /**
+   * Restores the page to a history version.
+   * The content goes through the collaboration server so open editors pick it up,
+   * and the current state is kept as a version so the restore can be undone.
+   */
+  async restore(history: PageHistory, authUser: User): Promise<void> {
+    const page = await this.pageRepo.findById(history.pageId, {
+      includeContent: true,
+    });
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const lastHistory = await this.pageHistoryRepo.findPageLastHistory(page.id);
+    if (
+      !lastHistory ||
+      !isDeepStrictEqual(lastHistory.content, page.content) ||
+      lastHistory.title !== page.title
+    ) {
+      await this.pageHistoryRepo.saveHistory(page);
+    }
+
+    await this.collaborationGateway.replaceDocumentContent(
+      `page.${page.id}`,
+      getProsemirrorContent(history.content),
+      { user: authUser },
+    );
+
+    if (page.title !== history.title || page.icon !== history.icon) {
+      await this.pageRepo.updatePage(
+        {
+          title: history.title,
+          icon: history.icon,
+          lastUpdatedById: authUser.id,
+          workspaceId: page.workspaceId,
+        },
+        page.id,
+      );
+    }
+  }
+
+  async diff(fromHistory: PageHistory, to: PageHistory | Page) {
+    return {
+      from: this.toDiffSide(fromHistory),
+      to: this.toDiffSide(to),
+      titleChanged: fromHistory.title !== to.title,
+      changes: diffPageContent(
+        getProsemirrorContent(fromHistory.content),
+        getProsemirrorContent(to.content),
+      ),
+    };
+  }
+
+  private toDiffSide(source: PageHistory | Page) {
+    const isHistory = 'pageId' in source;
+    // historyId is null when comparing against the current page
+    return {
+      historyId: isHistory ? source.id : null,
+      title: source.title,
+      name: isHistory ? (source as PageHistory).name : null,
+      createdAt: isHistory ? source.createdAt : source.updatedAt,
+    };
+  }
 }
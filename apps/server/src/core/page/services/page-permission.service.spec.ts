@@ -0,0 +1,85 @@
+import { BadRequestException } from '@nestjs/common';
+import { PagePermissionService } from './page-permission.service';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { Page } from '@docmost/db/types/entity.types';
+import { CollaborationGateway } from '../../../collaboration/collaboration.gateway';
+import { RemovePagePermissionDto } from '../dto/page-permission.dto';
+import { PageRole } from '../../../common/helpers/types/permission';
+
+jest.mock('../../../collaboration/collaboration.gateway', () => ({
+  CollaborationGateway: class {},
+}));
+
+describe('PagePermissionService', () => {
+  const page = { id: 'page-1', spaceId: 'space-1' } as Page;
+  const removeDto = {
+    pageId: page.id,
+    userId: 'user-1',
+  } as RemovePagePermissionDto;
+
+  let pagePermissionRepo: Record<string, jest.Mock>;
+  let pageRepo: { getPageAndDescendants: jest.Mock };
+  let collaborationGateway: { closeConnections: jest.Mock };
+  let service: PagePermissionService;
+
+  beforeEach(() => {
+    pagePermissionRepo = {
+      getPagePermissionByTypeId: jest
+        .fn()
+        .mockResolvedValue({ id: 'permission-1', role: PageRole.WRITER }),
+      roleCountByPageId: jest.fn().mockResolvedValue(2),
+      removePagePermissionById: jest.fn(),
+      updatePagePermission: jest.fn(),
+      removePagePermissions: jest.fn(),
+    };
+    pageRepo = {
+      getPageAndDescendants: jest
+        .fn()
+        .mockResolvedValue([{ id: 'page-1' }, { id: 'child-1' }]),
+    };
+    collaborationGateway = { closeConnections: jest.fn() };
+
+    service = new PagePermissionService(
+      pagePermissionRepo as unknown as PagePermissionRepo,
+      {} as SpaceMemberRepo,
+      pageRepo as unknown as PageRepo,
+      collaborationGateway as unknown as CollaborationGateway,
+      {} as KyselyDB,
+    );
+  });
+
+  it('disconnects editors of the page and its descendants on removal', async () => {
+    await service.removePagePermission(page, removeDto);
+
+    expect(pagePermissionRepo.removePagePermissionById).toHaveBeenCalled();
+    expect(collaborationGateway.closeConnections).toHaveBeenCalledWith(
+      'page.page-1',
+    );
+    expect(collaborationGateway.closeConnections).toHaveBeenCalledWith(
+      'page.child-1',
+    );
+  });
+
+  it('disconnects editors when a role is downgraded', async () => {
+    await service.updatePagePermissionRole(page, {
+      ...removeDto,
+      role: PageRole.READER,
+    });
+
+    expect(pagePermissionRepo.updatePagePermission).toHaveBeenCalled();
+    expect(collaborationGateway.closeConnections).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps at least one writer on a restricted page', async () => {
+    pagePermissionRepo.roleCountByPageId.mockResolvedValue(1);
+
+    await expect(
+      service.removePagePermission(page, removeDto),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(pagePermissionRepo.removePagePermissionById).not.toHaveBeenCalled();
+    expect(collaborationGateway.closeConnections).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,236 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { findHighestUserSpaceRole } from '@docmost/db/repos/space/utils';
+import {
+  InsertablePagePermission,
+  Page,
+  PagePermission,
+  User,
+} from '@docmost/db/types/entity.types';
+import {
+  AddPagePermissionsDto,
+  RemovePagePermissionDto,
+  UpdatePagePermissionRoleDto,
+} from '../dto/page-permission.dto';
+import { PageRole, SpaceRole } from '../../../common/helpers/types/permission';
+import { CollaborationGateway } from '../../../collaboration/collaboration.gateway';
+
+@Injectable()
+export class PagePermissionService {
+  constructor(
+    private pagePermissionRepo: PagePermissionRepo,
+    private spaceMemberRepo: SpaceMemberRepo,
+    private pageRepo: PageRepo,
+    private collaborationGateway: CollaborationGateway,
+    @InjectKysely() private readonly db: KyselyDB,
+  ) {}
+
+  async getPagePermissions(page: Page, authUser: User) {
+    const restrictions = await this.pagePermissionRepo.getPageRestrictions(
+      page.id,
+      authUser.id,
+    );
+
+    const members = await this.pagePermissionRepo.getPagePermissions(page.id);
+
+    return {
+      isRestricted: members.length > 0,
+      // restricted ancestors this page inherits access rules from
+      inheritedRestrictions: restrictions
+        .filter((restriction) => restriction.pageId !== page.id)
+        .map(({ pageId, title }) => ({ pageId, title })),
+      members,
+    };
+  }
+
+  async addPagePermissions(
+    page: Page,
+    dto: AddPagePermissionsDto,
+    authUser: User,
+  ): Promise<void> {
+    const userIds = dto.userIds ?? [];
+    const groupIds = dto.groupIds ?? [];
+
+    // make sure we have valid workspace users and groups without existing rules
+    const validUsers =
+      userIds.length > 0
+        ? await this.db
+            .selectFrom('users')
+            .select(['id'])
+            .where('users.id', 'in', userIds)
+            .where('users.workspaceId', '=', page.workspaceId)
+            .where(({ not, exists, selectFrom }) =>
+              not(
+                exists(
+                  selectFrom('pagePermissions')
+                    .select('id')
+                    .whereRef('pagePermissions.userId', '=', 'users.id')
+                    .where('pagePermissions.pageId', '=', page.id),
+                ),
+              ),
+            )
+            .execute()
+        : [];
+
+    const validGroups =
+      groupIds.length > 0
+        ? await this.db
+            .selectFrom('groups')
+            .select(['id'])
+            .where('groups.id', 'in', groupIds)
+            .where('groups.workspaceId', '=', page.workspaceId)
+            .where(({ not, exists, selectFrom }) =>
+              not(
+                exists(
+                  selectFrom('pagePermissions')
+                    .select('id')
+                    .whereRef('pagePermissions.groupId', '=', 'groups.id')
+                    .where('pagePermissions.pageId', '=', page.id),
+                ),
+              ),
+            )
+            .execute()
+        : [];
+
+    const permissionsToAdd: InsertablePagePermission[] = [
+      ...validUsers.map((user) => ({ userId: user.id })),
+      ...validGroups.map((group) => ({ groupId: group.id })),
+    ].map((member) => ({
+      ...member,
+      pageId: page.id,
+      role: dto.role,
+      addedById: authUser.id,
+      workspaceId: page.workspaceId,
+    }));
+
+    if (permissionsToAdd.length === 0) {
+      // either they already have access or do not exist on the workspace
+      return;
+    }
+
+    // restricting a page for the first time adds the current user as writer,
+    // so they keep access and the page always has at least one writer
+    const isRestricted =
+      (await this.pagePermissionRepo.getPagePermissions(page.id)).length > 0;
+    const isAddingSelf = validUsers.some((user) => user.id === authUser.id);
+
+    if (!isRestricted && !isAddingSelf) {
+      const userSpaceRole = findHighestUserSpaceRole(
+        await this.spaceMemberRepo.getUserSpaceRoles(authUser.id, page.spaceId),
+      );
+
+      if (userSpaceRole !== SpaceRole.ADMIN || dto.role !== PageRole.WRITER) {
+        permissionsToAdd.push({
+          pageId: page.id,
+          userId: authUser.id,
+          role: PageRole.WRITER,
+          addedById: authUser.id,
+          workspaceId: page.workspaceId,
+        });
+      }
+    }
+
+    await this.pagePermissionRepo.insertPagePermissions(permissionsToAdd);
+    await this.closePageConnections(page.id);
+  }
+
+  async removePagePermission(
+    page: Page,
+    dto: RemovePagePermissionDto,
+  ): Promise<void> {
+    const pagePermission = await this.findPagePermission(page, dto);
+
+    if (pagePermission.role === PageRole.WRITER) {
+      await this.validateLastWriter(page.id);
+    }
+
+    await this.pagePermissionRepo.removePagePermissionById(
+      pagePermission.id,
+      page.id,
+    );
+    await this.closePageConnections(page.id);
+  }
+
+  async updatePagePermissionRole(
+    page: Page,
+    dto: UpdatePagePermissionRoleDto,
+  ): Promise<void> {
+    const pagePermission = await this.findPagePermission(page, dto);
+
+    if (pagePermission.role === dto.role) {
+      return;
+    }
+
+    if (pagePermission.role === PageRole.WRITER) {
+      await this.validateLastWriter(page.id);
+    }
+
+    await this.pagePermissionRepo.updatePagePermission(
+      { role: dto.role },
+      pagePermission.id,
+      page.id,
+    );
+    await this.closePageConnections(page.id);
+  }
+
+  async removePageRestriction(page: Page): Promise<void> {
+    await this.pagePermissionRepo.removePagePermissions(page.id);
+    await this.closePageConnections(page.id);
+  }
+
+  /*
+   * Restrictions apply to the page and all its descendants.
+   * Their open editors are disconnected and authenticated again on reconnect,
+   * so users who lost access or were downgraded stop editing right away.
+   */
+  private async closePageConnections(pageId: string): Promise<void> {
+    const pages = await this.pageRepo.getPageAndDescendants(pageId, {
+      includeContent: false,
+    });
+
+    for (const page of pages) {
+      this.collaborationGateway.closeConnections(`page.${page.id}`);
+    }
+  }
+
+  async validateLastWriter(pageId: string): Promise<void> {
+    const writerCount = await this.pagePermissionRepo.roleCountByPageId(
+      PageRole.WRITER,
+      pageId,
+    );
+    if (writerCount === 1) {
+      throw new BadRequestException(
+        'There must be at least one writer on a restricted page',
+      );
+    }
+  }
+
+  private async findPagePermission(
+    page: Page,
+    dto: RemovePagePermissionDto,
+  ): Promise<PagePermission> {
+    if (!dto.userId && !dto.groupId) {
+      throw new BadRequestException('Please provide a valid userId or groupId');
+    }
+
+    const pagePermission =
+      await this.pagePermissionRepo.getPagePermissionByTypeId(
+        page.id,
+        dto.userId ? { userId: dto.userId } : { groupId: dto.groupId },
+      );
+
+    if (!pagePermission) {
+      throw new NotFoundException('Page permission not found');
+    }
+
+    return pagePermission;
+  }
+}
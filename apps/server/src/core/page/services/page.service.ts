@@ -1,5 +1,6 @@
 import {
   BadRequestException,
+  ForbiddenException,
   Injectable,
   Logger,
   NotFoundException,
@@ -7,6 +8,7 @@ import {
 import { CreatePageDto } from '../dto/create-page.dto';
 import { UpdatePageDto } from '../dto/update-page.dto';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
 import { InsertablePage, Page, User } from '@docmost/db/types/entity.types';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import {
@@ -40,6 +42,12 @@ import { Queue } from 'bullmq';
 import { QueueJob, QueueName } from '../../../integrations/queue/constants';
 import { EventName } from '../../../common/events/event.contants';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { CollaborationGateway } from '../../../collaboration/collaboration.gateway';
+import { AuditLogService } from '../../audit-log/audit-log.service';
+import {
+  AuditAction,
+  AuditResource,
+} from '../../audit-log/audit-log.constants';
 
 @Injectable()
 export class PageService {
@@ -47,12 +55,15 @@ export class PageService {
 
   constructor(
     private pageRepo: PageRepo,
+    private pagePermissionRepo: PagePermissionRepo,
     private attachmentRepo: AttachmentRepo,
     @InjectKysely() private readonly db: KyselyDB,
     private readonly storageService: StorageService,
     @InjectQueue(QueueName.ATTACHMENT_QUEUE) private attachmentQueue: Queue,
     @InjectQueue(QueueName.AI_QUEUE) private aiQueue: Queue,
     private eventEmitter: EventEmitter2,
+    private collaborationGateway: CollaborationGateway,
+    private auditLogService: AuditLogService,
   ) {}
 
   async findById(
@@ -151,7 +162,16 @@ export class PageService {
     page: Page,
     updatePageDto: UpdatePageDto,
     userId: string,
+    opts?: { canBypassLock?: boolean },
   ): Promise<Page> {
+    const changesTitleOrIcon =
+      (updatePageDto.title !== undefined &&
+        updatePageDto.title !== page.title) ||
+      (updatePageDto.icon !== undefined && updatePageDto.icon !== page.icon);
+    if (page.isLocked && !opts?.canBypassLock && changesTitleOrIcon) {
+      throw new ForbiddenException('Page is locked');
+    }
+
     const contributors = new Set<string>(page.contributorIds);
     contributors.add(userId);
     const contributorIds = Array.from(contributors);
@@ -176,10 +196,22 @@ export class PageService {
     });
   }
 
+  /**
+   * Open editors are disconnected so they re-authenticate
+   * with the access level that matches the new lock state.
+   */
+  async setLocked(page: Page, isLocked: boolean): Promise<Page> {
+    await this.pageRepo.updatePage({ isLocked }, page.id);
+    this.collaborationGateway.closeConnections(`page.${page.id}`);
+
+    return this.pageRepo.findById(page.id);
+  }
+
   async getSidebarPages(
     spaceId: string,
     pagination: PaginationOptions,
     pageId?: string,
+    userId?: string,
   ): Promise<any> {
     let query = this.db
       .selectFrom('pages')
@@ -197,7 +229,14 @@ export class PageService {
       .select((eb) => this.pageRepo.withHasChildren(eb))
       .orderBy('position', (ob) => ob.collate('C').asc())
       .where('deletedAt', 'is', null)
-      .where('spaceId', '=', spaceId);
+      .where('spaceId', '=', spaceId)
+      .$if(Boolean(userId), (qb) =>
+        qb.where(
+          'id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(userId, { spaceId }),
+        ),
+      );
 
     if (pageId) {
       query = query.where('parentPageId', '=', pageId);
@@ -213,7 +252,7 @@ export class PageService {
     return result;
   }
 
-  async movePageToSpace(rootPage: Page, spaceId: string) {
+  async movePageToSpace(rootPage: Page, spaceId: string, authUser?: User) {
     await executeTx(this.db, async (trx) => {
       // Update root page
       const nextPosition = await this.nextPagePosition(spaceId);
@@ -250,6 +289,13 @@ export class PageService {
           .where('pageId', 'in', pageIds)
           .execute();
 
+        // Update page watchers
+        await trx
+          .updateTable('watchers')
+          .set({ spaceId: spaceId })
+          .where('pageId', 'in', pageIds)
+          .execute();
+
         // Update attachments
         await this.attachmentRepo.updateAttachmentsByPageId(
           { spaceId },
@@ -263,6 +309,12 @@ export class PageService {
         });
       }
     });
+
+    this.eventEmitter.emit(EventName.PAGE_MOVED_TO_SPACE, {
+      pageIds: [rootPage.id],
+      workspaceId: rootPage.workspaceId,
+      actorId: authUser?.id,
+    });
   }
 
   async duplicatePage(
@@ -284,9 +336,17 @@ export class PageService {
       nextPosition = await this.nextPagePosition(spaceId);
     }
 
-    const pages = await this.pageRepo.getPageAndDescendants(rootPage.id, {
-      includeContent: true,
-    });
+    // skip restricted sub pages the user cannot access
+    const inaccessiblePageIds =
+      await this.pagePermissionRepo.findInaccessiblePageIds(authUser.id, {
+        spaceId: rootPage.spaceId,
+      });
+
+    const pages = (
+      await this.pageRepo.getPageAndDescendants(rootPage.id, {
+        includeContent: true,
+      })
+    ).filter((page) => !inaccessiblePageIds.includes(page.id));
 
     const pageMap = new Map<string, CopyPageMapEntry>();
     pages.forEach((page) => {
@@ -396,6 +456,30 @@ export class PageService {
 
     await this.db.insertInto('pages').values(insertablePages).execute();
 
+    // copies keep the page restrictions of their originals
+    const pagePermissions = await this.db
+      .selectFrom('pagePermissions')
+      .selectAll()
+      .where(
+        'pageId',
+        'in',
+        pages.map((page) => page.id),
+      )
+      .execute();
+
+    if (pagePermissions.length > 0) {
+      await this.pagePermissionRepo.insertPagePermissions(
+        pagePermissions.map((permission) => ({
+          pageId: pageMap.get(permission.pageId).newPageId,
+          userId: permission.userId,
+          groupId: permission.groupId,
+          role: permission.role,
+          addedById: authUser.id,
+          workspaceId: permission.workspaceId,
+        })),
+      );
+    }
+
     const insertedPageIds = insertablePages.map((page) => page.id);
     this.eventEmitter.emit(EventName.PAGE_CREATED, {
       pageIds: insertedPageIds,
@@ -569,8 +653,13 @@ export class PageService {
   async getRecentSpacePages(
     spaceId: string,
     pagination: PaginationOptions,
+    userId?: string,
   ): Promise<PaginationResult<Page>> {
-    return await this.pageRepo.getRecentPagesInSpace(spaceId, pagination);
+    return await this.pageRepo.getRecentPagesInSpace(
+      spaceId,
+      pagination,
+      userId,
+    );
   }
 
   async getRecentPages(
@@ -583,18 +672,27 @@ export class PageService {
   async getDeletedSpacePages(
     spaceId: string,
     pagination: PaginationOptions,
+    userId?: string,
   ): Promise<PaginationResult<Page>> {
-    return await this.pageRepo.getDeletedPagesInSpace(spaceId, pagination);
+    return await this.pageRepo.getDeletedPagesInSpace(
+      spaceId,
+      pagination,
+      userId,
+    );
   }
 
-  async forceDelete(pageId: string, workspaceId: string): Promise<void> {
+  async forceDelete(
+    page: Page,
+    userId: string,
+    workspaceId: string,
+  ): Promise<void> {
     // Get all descendant IDs (including the page itself) using recursive CTE
     const descendants = await this.db
       .withRecursive('page_descendants', (db) =>
         db
           .selectFrom('pages')
           .select(['id'])
-          .where('id', '=', pageId)
+          .where('id', '=', page.id)
           .unionAll((exp) =>
             exp
               .selectFrom('pages as p')
@@ -633,13 +731,44 @@ export class PageService {
         workspaceId,
       });
     }
+
+    await this.auditPage(AuditAction.PAGE_PERMANENTLY_DELETED, page, userId, {
+      deletedPageCount: pageIds.length,
+    });
   }
 
   async removePage(
-    pageId: string,
+    page: Page,
     userId: string,
     workspaceId: string,
   ): Promise<void> {
-    await this.pageRepo.removePage(pageId, userId, workspaceId);
+    await this.pageRepo.removePage(page.id, userId, workspaceId);
+    await this.auditPage(AuditAction.PAGE_DELETED, page, userId);
+  }
+
+  async restorePage(
+    page: Page,
+    userId: string,
+    workspaceId: string,
+  ): Promise<void> {
+    await this.pageRepo.restorePage(page.id, workspaceId);
+    await this.auditPage(AuditAction.PAGE_RESTORED, page, userId);
+  }
+
+  private async auditPage(
+    action: AuditAction,
+    page: Page,
+    userId: string,
+    metadata?: Record<string, any>,
+  ): Promise<void> {
+    await this.auditLogService.log({
+      workspaceId: page.workspaceId,
+      actorId: userId,
+      action,
+      resourceType: AuditResource.PAGE,
+      resourceId: page.id,
+      spaceId: page.spaceId,
+      metadata: { title: page.title, ...metadata },
+    });
   }
 }
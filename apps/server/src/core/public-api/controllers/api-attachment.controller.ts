@@ -0,0 +1,228 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Logger,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  Req,
+  Res,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import * as bytes from 'bytes';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { FileInterceptor } from '../../../common/interceptors/file.interceptor';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { AttachmentRepo } from '@docmost/db/repos/attachment/attachment.repo';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { AttachmentService } from '../../attachment/services/attachment.service';
+import { StorageService } from '../../../integrations/storage/storage.service';
+import { EnvironmentService } from '../../../integrations/environment/environment.service';
+import { ApiScopeGuard } from '../guards/api-scope.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiOperation, ApiTag } from '../decorators/api-docs.decorator';
+import { ApiScope, PUBLIC_API_VERSION } from '../public-api.constants';
+import { toApiAttachment } from '../public-api.util';
+
+@ApiTag('Attachments')
+@SkipTransform()
+@UseGuards(JwtAuthGuard, ApiScopeGuard)
+@Controller(PUBLIC_API_VERSION)
+export class ApiAttachmentController {
+  private readonly logger = new Logger(ApiAttachmentController.name);
+
+  constructor(
+    private readonly attachmentService: AttachmentService,
+    private readonly attachmentRepo: AttachmentRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly storageService: StorageService,
+    private readonly environmentService: EnvironmentService,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @ApiOperation({
+    summary: 'List page attachments',
+    query: CursorPaginationOptions,
+    response: 'Attachment',
+    paginated: true,
+  })
+  @RequireScopes(ApiScope.ATTACHMENTS_READ)
+  @Get('pages/:pageId/attachments')
+  async listAttachments(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Query() pagination: CursorPaginationOptions,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    const result = await this.attachmentRepo.findPageAttachmentsByCursor(
+      page.id,
+      pagination,
+    );
+
+    return { ...result, items: result.items.map(toApiAttachment) };
+  }
+
+  @ApiOperation({
+    summary: 'Upload an attachment',
+    description:
+      'Stores the file as an attachment of the page. Insert it into the page content to display it.',
+    upload: true,
+    response: 'Attachment',
+  })
+  @RequireScopes(ApiScope.ATTACHMENTS_WRITE)
+  @Post('pages/:pageId/attachments')
+  @UseInterceptors(FileInterceptor)
+  async uploadAttachment(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Req() req: any,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    const uploadSizeLimit = this.environmentService.getFileUploadSizeLimit();
+    const tooLargeMessage = `File too large. Exceeds the ${uploadSizeLimit} limit`;
+
+    let file = null;
+    try {
+      file = await req.file({
+        limits: { fileSize: bytes(uploadSizeLimit), files: 1 },
+      });
+    } catch (err: any) {
+      this.logger.error(err.message);
+      if (err?.statusCode === 413) {
+        throw new BadRequestException(tooLargeMessage);
+      }
+    }
+
+    if (!file) {
+      throw new BadRequestException('Failed to upload file');
+    }
+
+    try {
+      const attachment = await this.attachmentService.uploadFile({
+        filePromise: file,
+        pageId: page.id,
+        spaceId: page.spaceId,
+        userId: user.id,
+        workspaceId: workspace.id,
+      });
+      if (!attachment) {
+        throw new BadRequestException('Error processing file upload.');
+      }
+
+      return toApiAttachment(attachment);
+    } catch (err: any) {
+      if (err?.statusCode === 413) {
+        throw new BadRequestException(tooLargeMessage);
+      }
+      this.logger.error(err);
+      throw new BadRequestException('Error processing file upload.');
+    }
+  }
+
+  @ApiOperation({ summary: 'Get an attachment', response: 'Attachment' })
+  @RequireScopes(ApiScope.ATTACHMENTS_READ)
+  @Get('attachments/:attachmentId')
+  async getAttachment(
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const attachment = await this.findAttachmentOrFail(
+      attachmentId,
+      user,
+      workspace,
+    );
+    return toApiAttachment(attachment);
+  }
+
+  @ApiOperation({ summary: 'Download an attachment', download: true })
+  @RequireScopes(ApiScope.ATTACHMENTS_READ)
+  @Get('attachments/:attachmentId/download')
+  async downloadAttachment(
+    @Param('attachmentId', ParseUUIDPipe) attachmentId: string,
+    @Res() res: FastifyReply,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const attachment = await this.findAttachmentOrFail(
+      attachmentId,
+      user,
+      workspace,
+    );
+
+    try {
+      const fileStream = await this.storageService.read(attachment.filePath);
+      res.headers({
+        'Content-Type': attachment.mimeType,
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.fileName)}"`,
+      });
+
+      return res.send(fileStream);
+    } catch (err) {
+      this.logger.error(err);
+      throw new NotFoundException('File not found');
+    }
+  }
+
+  // avatars and logos have no page and are not exposed
+  private async findAttachmentOrFail(
+    attachmentId: string,
+    user: User,
+    workspace: Workspace,
+  ) {
+    const attachment = await this.attachmentRepo.findById(attachmentId);
+    if (
+      !attachment ||
+      attachment.workspaceId !== workspace.id ||
+      attachment.deletedAt ||
+      !attachment.pageId ||
+      !attachment.spaceId
+    ) {
+      throw new NotFoundException('Attachment not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: attachment.pageId,
+      spaceId: attachment.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return attachment;
+  }
+}
@@ -0,0 +1,160 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { CommentRepo } from '@docmost/db/repos/comment/comment.repo';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { CommentService } from '../../comment/comment.service';
+import { CommentType } from '../../comment/comment.constants';
+import { ApiScopeGuard } from '../guards/api-scope.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiOperation, ApiTag } from '../decorators/api-docs.decorator';
+import { ApiScope, PUBLIC_API_VERSION } from '../public-api.constants';
+import { ApiCommentListDto, ApiCreateCommentDto } from '../dto/comment.dto';
+import { toApiComment, toProsemirrorJson } from '../public-api.util';
+
+@ApiTag('Comments')
+@SkipTransform()
+@UseGuards(JwtAuthGuard, ApiScopeGuard)
+@Controller(PUBLIC_API_VERSION)
+export class ApiCommentController {
+  constructor(
+    private readonly commentService: CommentService,
+    private readonly commentRepo: CommentRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @ApiOperation({
+    summary: 'List page comments',
+    description: 'Lists the comments and replies of a page, oldest first.',
+    query: ApiCommentListDto,
+    response: 'Comment',
+    paginated: true,
+  })
+  @RequireScopes(ApiScope.COMMENTS_READ)
+  @Get('pages/:pageId/comments')
+  async listComments(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Query() dto: ApiCommentListDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    const result = await this.commentRepo.findPageCommentsByCursor(
+      page.id,
+      dto,
+    );
+
+    return {
+      ...result,
+      items: result.items.map((comment) => toApiComment(comment, dto.format)),
+    };
+  }
+
+  @ApiOperation({
+    summary: 'Create a page comment',
+    description:
+      'Comments created through the API are page comments, not anchored to a text selection.',
+    body: ApiCreateCommentDto,
+    response: 'Comment',
+  })
+  @RequireScopes(ApiScope.COMMENTS_WRITE)
+  @Post('pages/:pageId/comments')
+  async createComment(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Body() dto: ApiCreateCommentDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Comment)) {
+      throw new ForbiddenException();
+    }
+
+    const content = await toProsemirrorJson(dto.content, dto.format);
+    const comment = await this.commentService.create(
+      { userId: user.id, page, workspaceId: workspace.id },
+      {
+        pageId: page.id,
+        content: JSON.stringify(content),
+        selection: null,
+        parentCommentId: dto.parentCommentId,
+        type: CommentType.PAGE,
+      },
+    );
+
+    return toApiComment(comment, dto.format);
+  }
+
+  @ApiOperation({
+    summary: 'Delete a comment',
+    description:
+      'Users can delete their own comments, space admins can delete any comment.',
+  })
+  @RequireScopes(ApiScope.COMMENTS_WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete('comments/:commentId')
+  async deleteComment(
+    @Param('commentId', ParseUUIDPipe) commentId: string,
+    @AuthUser() user: User,
+  ) {
+    const comment = await this.commentRepo.findById(commentId);
+    if (!comment) {
+      throw new NotFoundException('Comment not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: comment.pageId,
+      spaceId: comment.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Delete, SpaceCaslSubject.Comment)) {
+      throw new ForbiddenException();
+    }
+
+    if (
+      comment.creatorId !== user.id &&
+      ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException(
+        'You can only delete your own comments or must be a space admin',
+      );
+    }
+
+    await this.commentRepo.deleteComment(comment.id);
+  }
+}
@@ -0,0 +1,62 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { ApiKeyScopeController } from './api-key-scope.controller';
+import { ApiKeyRepo } from '@docmost/db/repos/api-key/api-key.repo';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { ApiScope } from '../public-api.constants';
+
+describe('ApiKeyScopeController', () => {
+  const user = { id: 'user-1' } as User;
+  const workspace = { id: 'workspace-1' } as Workspace;
+  const dto = { apiKeyId: 'key-1', scopes: [ApiScope.PAGES_READ] };
+
+  let apiKeyRepo: { findById: jest.Mock; updateApiKey: jest.Mock };
+  let controller: ApiKeyScopeController;
+
+  beforeEach(() => {
+    apiKeyRepo = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ id: 'key-1', creatorId: user.id, scopes: [] }),
+      updateApiKey: jest.fn().mockResolvedValue({ id: 'key-1' }),
+    };
+    controller = new ApiKeyScopeController(apiKeyRepo as unknown as ApiKeyRepo);
+  });
+
+  it('saves the scopes of the creator', async () => {
+    await controller.updateApiKeyScopes(dto, { user: {} }, user, workspace);
+
+    expect(apiKeyRepo.updateApiKey).toHaveBeenCalledWith(
+      { scopes: dto.scopes },
+      'key-1',
+      workspace.id,
+    );
+  });
+
+  it('rejects requests made with an API key', async () => {
+    await expect(
+      controller.updateApiKeyScopes(
+        dto,
+        { user: { apiKeyId: 'key-1' } },
+        user,
+        workspace,
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(apiKeyRepo.updateApiKey).not.toHaveBeenCalled();
+  });
+
+  it('rejects keys of other users', async () => {
+    apiKeyRepo.findById.mockResolvedValue({ id: 'key-1', creatorId: 'other' });
+
+    await expect(
+      controller.updateApiKeyScopes(dto, { user: {} }, user, workspace),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('rejects unknown keys', async () => {
+    apiKeyRepo.findById.mockResolvedValue(undefined);
+
+    await expect(
+      controller.updateApiKeyScopes(dto, { user: {} }, user, workspace),
+    ).rejects.toBeInstanceOf(NotFoundException);
+  });
+});
@@ -0,0 +1,56 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { ApiKeyRepo } from '@docmost/db/repos/api-key/api-key.repo';
+import { UpdateApiKeyScopesDto } from '../dto/api-key-scope.dto';
+
+/*
+ * Keys are created by the API key module without scopes, which gives them
+ * no access. Their creator saves the scopes right after creating them.
+ */
+@UseGuards(JwtAuthGuard)
+@Controller('api-keys')
+export class ApiKeyScopeController {
+  constructor(private readonly apiKeyRepo: ApiKeyRepo) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('scopes')
+  async updateApiKeyScopes(
+    @Body() dto: UpdateApiKeyScopesDto,
+    @Req() req: any,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    // API keys cannot change the scopes of keys, including their own
+    if (req.user?.apiKeyId) {
+      throw new ForbiddenException();
+    }
+
+    const apiKey = await this.apiKeyRepo.findById(dto.apiKeyId, workspace.id);
+    if (!apiKey) {
+      throw new NotFoundException('API key not found');
+    }
+
+    if (apiKey.creatorId !== user.id) {
+      throw new ForbiddenException();
+    }
+
+    return this.apiKeyRepo.updateApiKey(
+      { scopes: dto.scopes },
+      apiKey.id,
+      workspace.id,
+    );
+  }
+}
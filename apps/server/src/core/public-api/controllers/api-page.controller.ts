@@ -0,0 +1,195 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { PageService } from '../../page/services/page.service';
+import { canManagePageLock } from '../../page/page-lock.util';
+import { canViewPageDraft } from '../../page-review/page-review.util';
+import { ApiScopeGuard } from '../guards/api-scope.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiOperation, ApiTag } from '../decorators/api-docs.decorator';
+import { ApiScope, PUBLIC_API_VERSION } from '../public-api.constants';
+import { ApiPageService } from '../services/api-page.service';
+import {
+  ApiCreatePageDto,
+  ApiPageContentDto,
+  ApiPageListDto,
+  ApiUpdatePageDto,
+} from '../dto/page.dto';
+import { toApiPage } from '../public-api.util';
+
+@ApiTag('Pages')
+@SkipTransform()
+@UseGuards(JwtAuthGuard, ApiScopeGuard)
+@Controller(`${PUBLIC_API_VERSION}/pages`)
+export class ApiPageController {
+  constructor(
+    private readonly apiPageService: ApiPageService,
+    private readonly pageService: PageService,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @ApiOperation({
+    summary: 'List pages',
+    description: 'Lists the pages of a space the user can access.',
+    query: ApiPageListDto,
+    response: 'Page',
+    paginated: true,
+  })
+  @RequireScopes(ApiScope.PAGES_READ)
+  @Get()
+  async listPages(@Query() dto: ApiPageListDto, @AuthUser() user: User) {
+    const ability = await this.spaceAbility.createForUser(user, dto.spaceId);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    const result = await this.pageRepo.getSpacePagesByCursor(dto.spaceId, dto, {
+      parentPageId: dto.parentPageId,
+      userId: user.id,
+    });
+
+    return { ...result, items: result.items.map(toApiPage) };
+  }
+
+  @ApiOperation({
+    summary: 'Get a page',
+    description:
+      'Readers of review workflow spaces get the last published version.',
+    query: ApiPageContentDto,
+    response: 'PageWithContent',
+  })
+  @RequireScopes(ApiScope.PAGES_READ)
+  @Get(':pageId')
+  async getPage(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Query() dto: ApiPageContentDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.findPageOrFail(pageId);
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    const space = await this.spaceRepo.findById(page.spaceId, page.workspaceId);
+
+    return this.apiPageService.getPage(page.id, dto.format, {
+      publishedOnly: !canViewPageDraft(space, ability),
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Create a page',
+    body: ApiCreatePageDto,
+    response: 'PageWithContent',
+  })
+  @RequireScopes(ApiScope.PAGES_WRITE)
+  @Post()
+  async createPage(
+    @Body() dto: ApiCreatePageDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = await this.spaceAbility.createForUser(user, dto.spaceId);
+    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (dto.parentPageId) {
+      const parentPage = await this.findPageOrFail(dto.parentPageId);
+      const parentAbility = await this.spaceAbility.createForPage(
+        user,
+        parentPage,
+      );
+      if (parentAbility.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)) {
+        throw new ForbiddenException();
+      }
+    }
+
+    return this.apiPageService.createPage(dto, user, workspace.id);
+  }
+
+  @ApiOperation({
+    summary: 'Update a page',
+    description: 'Only the given fields are changed.',
+    body: ApiUpdatePageDto,
+    response: 'PageWithContent',
+  })
+  @RequireScopes(ApiScope.PAGES_WRITE)
+  @Patch(':pageId')
+  async updatePage(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @Body() dto: ApiUpdatePageDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.findPageOrFail(pageId);
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.apiPageService.updatePage(page, dto, user, {
+      canBypassLock: canManagePageLock(page, user.id, ability),
+    });
+  }
+
+  @ApiOperation({
+    summary: 'Delete a page',
+    description: 'Moves the page and its sub pages to the trash.',
+  })
+  @RequireScopes(ApiScope.PAGES_WRITE)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':pageId')
+  async deletePage(
+    @Param('pageId', ParseUUIDPipe) pageId: string,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const page = await this.findPageOrFail(pageId);
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Delete, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    await this.pageService.removePage(page, user.id, workspace.id);
+  }
+
+  // pages in the trash are not part of the public API
+  private async findPageOrFail(pageId: string) {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+    return page;
+  }
+}
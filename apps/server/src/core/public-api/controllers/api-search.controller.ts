@@ -0,0 +1,105 @@
+import {
+  BadRequestException,
+  Controller,
+  ForbiddenException,
+  Get,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import {
+  decodeCursor,
+  encodeCursor,
+} from '@docmost/db/pagination/cursor-pagination';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { SearchService } from '../../search/search.service';
+import { ApiScopeGuard } from '../guards/api-scope.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiOperation, ApiTag } from '../decorators/api-docs.decorator';
+import { ApiScope, PUBLIC_API_VERSION } from '../public-api.constants';
+import { ApiSearchDto } from '../dto/search.dto';
+
+@ApiTag('Search')
+@SkipTransform()
+@UseGuards(JwtAuthGuard, ApiScopeGuard)
+@Controller(`${PUBLIC_API_VERSION}/search`)
+export class ApiSearchController {
+  constructor(
+    private readonly searchService: SearchService,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @ApiOperation({
+    summary: 'Search pages',
+    description:
+      'Full-text search over the pages the user can access, ordered by rank.',
+    query: ApiSearchDto,
+    response: 'SearchResult',
+    paginated: true,
+  })
+  @RequireScopes(ApiScope.PAGES_READ)
+  @Get()
+  async search(
+    @Query() dto: ApiSearchDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    if (dto.spaceId) {
+      const ability = await this.spaceAbility.createForUser(user, dto.spaceId);
+      if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+        throw new ForbiddenException();
+      }
+    }
+
+    // results are ranked, so the cursor holds the offset of the next page
+    const [offset] = dto.cursor ? decodeCursor(dto.cursor, 1) : [0];
+    if (!Number.isInteger(offset) || (offset as number) < 0) {
+      throw new BadRequestException('Invalid cursor');
+    }
+
+    const results =
+      (await this.searchService.searchPage(
+        {
+          query: dto.query,
+          spaceId: dto.spaceId,
+          limit: dto.limit + 1,
+          offset: offset as number,
+        },
+        { userId: user.id, workspaceId: workspace.id },
+      )) ?? [];
+
+    const hasNextPage = results.length > dto.limit;
+    const items = results.slice(0, dto.limit).map((result: any) => ({
+      id: result.id,
+      slugId: result.slugId,
+      title: result.title,
+      icon: result.icon,
+      parentPageId: result.parentPageId,
+      creatorId: result.creatorId,
+      rank: result.rank,
+      highlight: result.highlight,
+      space: result.space ?? null,
+      createdAt: result.createdAt,
+      updatedAt: result.updatedAt,
+    }));
+
+    return {
+      items,
+      meta: {
+        limit: dto.limit,
+        hasNextPage,
+        nextCursor: hasNextPage
+          ? encodeCursor([(offset as number) + dto.limit])
+          : null,
+      },
+    };
+  }
+}
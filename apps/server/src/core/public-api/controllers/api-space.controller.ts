@@ -0,0 +1,79 @@
+import {
+  Controller,
+  ForbiddenException,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { SpaceService } from '../../space/services/space.service';
+import { ApiScopeGuard } from '../guards/api-scope.guard';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiOperation, ApiTag } from '../decorators/api-docs.decorator';
+import { ApiScope, PUBLIC_API_VERSION } from '../public-api.constants';
+import { toApiSpace } from '../public-api.util';
+
+@ApiTag('Spaces')
+@SkipTransform()
+@RequireScopes(ApiScope.SPACES_READ)
+@UseGuards(JwtAuthGuard, ApiScopeGuard)
+@Controller(`${PUBLIC_API_VERSION}/spaces`)
+export class ApiSpaceController {
+  constructor(
+    private readonly spaceService: SpaceService,
+    private readonly spaceMemberRepo: SpaceMemberRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @ApiOperation({
+    summary: 'List spaces',
+    description: 'Lists the spaces the user is a member of.',
+    query: CursorPaginationOptions,
+    response: 'Space',
+    paginated: true,
+  })
+  @Get()
+  async listSpaces(
+    @Query() pagination: CursorPaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const result = await this.spaceMemberRepo.getUserSpacesByCursor(
+      user.id,
+      workspace.id,
+      pagination,
+    );
+
+    return { ...result, items: result.items.map(toApiSpace) };
+  }
+
+  @ApiOperation({ summary: 'Get a space', response: 'Space' })
+  @Get(':spaceId')
+  async getSpace(
+    @Param('spaceId', ParseUUIDPipe) spaceId: string,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const space = await this.spaceService.getSpaceInfo(spaceId, workspace.id);
+
+    const ability = await this.spaceAbility.createForUser(user, space.id);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Settings)) {
+      throw new ForbiddenException();
+    }
+
+    return toApiSpace(space);
+  }
+}
@@ -0,0 +1,18 @@
+import { Controller, Get } from '@nestjs/common';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { OpenApiService } from '../openapi/openapi.service';
+import { PUBLIC_API_VERSION } from '../public-api.constants';
+
+// the document only describes the API, so it does not require authentication
+@Controller(PUBLIC_API_VERSION)
+export class OpenApiController {
+  constructor(private readonly openApiService: OpenApiService) {}
+
+  @SkipTransform()
+  @Get('openapi.json')
+  getOpenApiDocument(@AuthWorkspace() workspace: Workspace) {
+    return this.openApiService.getDocument(workspace);
+  }
+}
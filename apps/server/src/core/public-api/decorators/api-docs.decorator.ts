@@ -0,0 +1,29 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiOperationOptions, SchemaObject } from '../openapi/openapi.types';
+
+export const API_TAG_KEY = 'apiTag';
+export const API_OPERATION_KEY = 'apiOperation';
+export const API_PROPERTY_KEY = 'apiProperty';
+
+// only controllers with a tag are part of the OpenAPI document
+export const ApiTag = (tag: string) => SetMetadata(API_TAG_KEY, tag);
+
+export const ApiOperation = (options: ApiOperationOptions) =>
+  SetMetadata(API_OPERATION_KEY, options);
+
+/*
+ * Adds to the schema derived from the class-validator decorators,
+ * e.g. descriptions or types class-validator cannot express.
+ */
+export const ApiProperty =
+  (schema: SchemaObject): PropertyDecorator =>
+  (target, propertyKey) => {
+    const properties =
+      Reflect.getMetadata(API_PROPERTY_KEY, target.constructor) ?? {};
+
+    Reflect.defineMetadata(
+      API_PROPERTY_KEY,
+      { ...properties, [propertyKey]: schema },
+      target.constructor,
+    );
+  };
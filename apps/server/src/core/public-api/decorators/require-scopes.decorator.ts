@@ -0,0 +1,6 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from '../public-api.constants';
+
+export const REQUIRED_SCOPES_KEY = 'requiredScopes';
+export const RequireScopes = (...scopes: ApiScope[]) =>
+  SetMetadata(REQUIRED_SCOPES_KEY, scopes);
@@ -0,0 +1,20 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsEnum,
+  IsUUID,
+  ValidateIf,
+} from 'class-validator';
+import { ApiScope } from '../public-api.constants';
+
+export class UpdateApiKeyScopesDto {
+  @IsUUID()
+  apiKeyId: string;
+
+  // null gives full access, including the internal API
+  @ValidateIf((dto) => dto.scopes !== null)
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsEnum(ApiScope, { each: true })
+  scopes: ApiScope[] | null;
+}
@@ -0,0 +1,26 @@
+import { IsDefined, IsEnum, IsOptional, IsUUID } from 'class-validator';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { ContentFormat } from '../public-api.constants';
+import { ApiProperty } from '../decorators/api-docs.decorator';
+import { CONTENT_SCHEMA } from '../openapi/openapi.schemas';
+
+export class ApiCommentListDto extends CursorPaginationOptions {
+  @IsOptional()
+  @IsEnum(ContentFormat)
+  format: ContentFormat = ContentFormat.JSON;
+}
+
+export class ApiCreateCommentDto {
+  @IsOptional()
+  @IsEnum(ContentFormat)
+  format: ContentFormat = ContentFormat.JSON;
+
+  @ApiProperty(CONTENT_SCHEMA)
+  @IsDefined()
+  content: unknown;
+
+  @ApiProperty({ description: 'Reply to the thread of this comment' })
+  @IsOptional()
+  @IsUUID()
+  parentCommentId?: string;
+}
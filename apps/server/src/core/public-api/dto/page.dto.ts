@@ -0,0 +1,76 @@
+import {
+  IsEnum,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { ContentFormat } from '../public-api.constants';
+import { ApiProperty } from '../decorators/api-docs.decorator';
+import { CONTENT_SCHEMA } from '../openapi/openapi.schemas';
+
+export class ApiPageListDto extends CursorPaginationOptions {
+  @IsUUID()
+  spaceId: string;
+
+  @ApiProperty({ description: 'Only list the direct children of this page' })
+  @IsOptional()
+  @IsUUID()
+  parentPageId?: string;
+}
+
+export class ApiPageContentDto {
+  @IsOptional()
+  @IsEnum(ContentFormat)
+  format: ContentFormat = ContentFormat.JSON;
+}
+
+export class ApiCreatePageDto {
+  @IsUUID()
+  spaceId: string;
+
+  @IsOptional()
+  @IsUUID()
+  parentPageId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  @IsOptional()
+  @IsEnum(ContentFormat)
+  format: ContentFormat = ContentFormat.JSON;
+
+  // validated against the format by the service
+  @ApiProperty(CONTENT_SCHEMA)
+  @IsOptional()
+  content?: unknown;
+}
+
+export class ApiUpdatePageDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  title?: string;
+
+  @IsOptional()
+  @IsString()
+  icon?: string;
+
+  @IsOptional()
+  @IsEnum(ContentFormat)
+  format: ContentFormat = ContentFormat.JSON;
+
+  @ApiProperty({
+    ...CONTENT_SCHEMA,
+    description: `${CONTENT_SCHEMA.description}. Replaces the whole document`,
+  })
+  @IsOptional()
+  content?: unknown;
+}
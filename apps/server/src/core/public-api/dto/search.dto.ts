@@ -0,0 +1,12 @@
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+
+export class ApiSearchDto extends CursorPaginationOptions {
+  @IsNotEmpty()
+  @IsString()
+  query: string;
+
+  @IsOptional()
+  @IsUUID()
+  spaceId?: string;
+}
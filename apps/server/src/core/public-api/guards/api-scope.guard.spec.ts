@@ -0,0 +1,90 @@
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiScopeGuard } from './api-scope.guard';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { EnvironmentService } from '../../../integrations/environment/environment.service';
+import { RequireScopes } from '../decorators/require-scopes.decorator';
+import { ApiScope } from '../public-api.constants';
+
+class TestController {
+  @RequireScopes(ApiScope.PAGES_READ)
+  readPage() {}
+
+  @RequireScopes(ApiScope.PAGES_READ, ApiScope.PAGES_WRITE)
+  updatePage() {}
+
+  // an internal route without scopes
+  deletePage() {}
+}
+
+function createContext(
+  handler: keyof TestController,
+  user: Record<string, unknown>,
+): ExecutionContext {
+  return {
+    getHandler: () => TestController.prototype[handler],
+    getClass: () => TestController,
+    switchToHttp: () => ({
+      getRequest: () => ({ user }),
+      getResponse: () => ({}),
+    }),
+  } as unknown as ExecutionContext;
+}
+
+const sessionUser = { user: { id: 'user-1' } };
+const legacyKey = { ...sessionUser, apiKeyId: 'key-1', apiKeyScopes: null };
+const readKey = {
+  ...sessionUser,
+  apiKeyId: 'key-2',
+  apiKeyScopes: [ApiScope.PAGES_READ],
+};
+
+describe('ApiScopeGuard', () => {
+  const guard = new ApiScopeGuard(new Reflector());
+
+  it('does not limit user sessions', () => {
+    expect(guard.canActivate(createContext('updatePage', sessionUser))).toBe(
+      true,
+    );
+  });
+
+  it('does not limit keys created before scopes existed', () => {
+    expect(guard.canActivate(createContext('updatePage', legacyKey))).toBe(
+      true,
+    );
+  });
+
+  it('allows keys with every required scope', () => {
+    expect(guard.canActivate(createContext('readPage', readKey))).toBe(true);
+  });
+
+  it('rejects keys missing a required scope', () => {
+    expect(() =>
+      guard.canActivate(createContext('updatePage', readKey)),
+    ).toThrow(ForbiddenException);
+  });
+});
+
+describe('JwtAuthGuard with API keys', () => {
+  const guard = new JwtAuthGuard(new Reflector(), {
+    isCloud: () => false,
+  } as EnvironmentService);
+
+  const handle = (
+    handler: keyof TestController,
+    user: Record<string, unknown>,
+  ) => guard.handleRequest(null, user, null, createContext(handler, user));
+
+  it('rejects scoped keys on routes without scopes', () => {
+    expect(() => handle('deletePage', readKey)).toThrow(ForbiddenException);
+  });
+
+  it('allows scoped keys on routes with scopes', () => {
+    expect(handle('readPage', readKey)).toBe(readKey);
+  });
+
+  it('keeps full access for keys without scopes and user sessions', () => {
+    expect(handle('deletePage', legacyKey)).toBe(legacyKey);
+    expect(handle('deletePage', sessionUser)).toBe(sessionUser);
+  });
+});
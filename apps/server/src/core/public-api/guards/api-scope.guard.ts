@@ -0,0 +1,48 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import { ApiScope } from '../public-api.constants';
+
+/*
+ * Runs after the JwtAuthGuard. Requests authenticated with a user session
+ * are not limited by scopes, API keys need every scope of the route.
+ */
+@Injectable()
+export class ApiScopeGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const requiredScopes = this.reflector.getAllAndOverride<ApiScope[]>(
+      REQUIRED_SCOPES_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+
+    if (!requiredScopes?.length) {
+      return true;
+    }
+
+    const req = context.switchToHttp().getRequest();
+    const { apiKeyId, apiKeyScopes } = req.user ?? {};
+
+    // keys created before scopes existed keep full access
+    if (!apiKeyId || !apiKeyScopes) {
+      return true;
+    }
+
+    const missingScopes = requiredScopes.filter(
+      (scope) => !apiKeyScopes.includes(scope),
+    );
+    if (missingScopes.length > 0) {
+      throw new ForbiddenException(
+        `API key is missing the required scopes: ${missingScopes.join(', ')}`,
+      );
+    }
+
+    return true;
+  }
+}
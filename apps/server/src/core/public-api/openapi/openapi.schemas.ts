@@ -0,0 +1,124 @@
+import { SchemaObject } from './openapi.types';
+
+const uuid: SchemaObject = { type: 'string', format: 'uuid' };
+const dateTime: SchemaObject = { type: 'string', format: 'date-time' };
+
+function nullable(schema: SchemaObject): SchemaObject {
+  return { ...schema, type: [schema.type as string, 'null'] };
+}
+
+function object(
+  properties: Record<string, SchemaObject>,
+  required = Object.keys(properties),
+): SchemaObject {
+  return { type: 'object', properties, required };
+}
+
+export const CONTENT_SCHEMA: SchemaObject = {
+  description:
+    'A ProseMirror JSON document, or a markdown string when format is markdown',
+  oneOf: [{ type: 'object' }, { type: 'string' }],
+};
+
+const page = {
+  id: uuid,
+  slugId: { type: 'string' },
+  title: nullable({ type: 'string' }),
+  icon: nullable({ type: 'string' }),
+  spaceId: uuid,
+  parentPageId: nullable(uuid),
+  creatorId: nullable(uuid),
+  lastUpdatedById: nullable(uuid),
+  isLocked: { type: 'boolean' },
+  createdAt: dateTime,
+  updatedAt: dateTime,
+};
+
+// response schemas, referenced by name from @ApiOperation
+export const OPENAPI_SCHEMAS: Record<string, SchemaObject> = {
+  Page: object(page),
+  PageWithContent: object({
+    ...page,
+    format: { type: 'string', enum: ['json', 'markdown'] },
+    content: CONTENT_SCHEMA,
+  }),
+  Space: object({
+    id: uuid,
+    name: nullable({ type: 'string' }),
+    slug: { type: 'string' },
+    description: nullable({ type: 'string' }),
+    logo: nullable({ type: 'string' }),
+    visibility: { type: 'string' },
+    memberCount: { type: 'integer' },
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  Comment: object({
+    id: uuid,
+    pageId: uuid,
+    parentCommentId: nullable(uuid),
+    type: { type: 'string', enum: ['inline', 'page'] },
+    selection: nullable({ type: 'string' }),
+    format: { type: 'string', enum: ['json', 'markdown'] },
+    content: CONTENT_SCHEMA,
+    creatorId: nullable(uuid),
+    creator: nullable(
+      object({
+        id: uuid,
+        name: nullable({ type: 'string' }),
+        avatarUrl: nullable({ type: 'string' }),
+      }),
+    ),
+    resolvedAt: nullable(dateTime),
+    editedAt: nullable(dateTime),
+    createdAt: dateTime,
+  }),
+  Attachment: object({
+    id: uuid,
+    fileName: { type: 'string' },
+    fileSize: { type: 'integer' },
+    fileExt: { type: 'string' },
+    mimeType: { type: 'string' },
+    pageId: nullable(uuid),
+    spaceId: nullable(uuid),
+    creatorId: nullable(uuid),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  SearchResult: object({
+    id: uuid,
+    slugId: { type: 'string' },
+    title: nullable({ type: 'string' }),
+    icon: nullable({ type: 'string' }),
+    parentPageId: nullable(uuid),
+    creatorId: nullable(uuid),
+    rank: { type: 'number' },
+    highlight: nullable({ type: 'string' }),
+    space: nullable(
+      object({ id: uuid, name: { type: 'string' }, slug: { type: 'string' } }),
+    ),
+    createdAt: dateTime,
+    updatedAt: dateTime,
+  }),
+  CursorPaginationMeta: object({
+    limit: { type: 'integer' },
+    hasNextPage: { type: 'boolean' },
+    nextCursor: nullable({
+      type: 'string',
+      description: 'Pass as cursor to fetch the next page',
+    }),
+  }),
+  Error: object(
+    {
+      statusCode: { type: 'integer' },
+      message: {
+        oneOf: [
+          { type: 'string' },
+          { type: 'array', items: { type: 'string' } },
+        ],
+      },
+      error: { type: 'string' },
+    },
+    ['statusCode', 'message'],
+  ),
+};
@@ -0,0 +1,344 @@
+import { Injectable, RequestMethod, Type } from '@nestjs/common';
+import {
+  HTTP_CODE_METADATA,
+  METHOD_METADATA,
+  PATH_METADATA,
+} from '@nestjs/common/constants';
+import { DiscoveryService, Reflector } from '@nestjs/core';
+import { getMetadataStorage } from 'class-validator';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { DomainService } from '../../../integrations/environment/domain.service';
+import {
+  API_OPERATION_KEY,
+  API_PROPERTY_KEY,
+  API_TAG_KEY,
+} from '../decorators/api-docs.decorator';
+import { REQUIRED_SCOPES_KEY } from '../decorators/require-scopes.decorator';
+import {
+  API_SCOPE_DESCRIPTIONS,
+  ApiScope,
+  PUBLIC_API_VERSION,
+} from '../public-api.constants';
+import { OPENAPI_SCHEMAS } from './openapi.schemas';
+import {
+  ApiOperationOptions,
+  OpenApiDocument,
+  OperationObject,
+  ParameterObject,
+  SchemaObject,
+} from './openapi.types';
+
+const ref = (name: string): SchemaObject => ({
+  $ref: `#/components/schemas/${name}`,
+});
+
+// e.g. ApiCreatePageDto -> CreatePage
+const schemaName = (dto: Type<unknown>) =>
+  dto.name.replace(/^Api/, '').replace(/Dto$/, '');
+
+/*
+ * Builds the OpenAPI document of the public API from the routes of the
+ * tagged controllers and the class-validator metadata of their DTOs.
+ */
+@Injectable()
+export class OpenApiService {
+  private document: Omit<OpenApiDocument, 'servers'>;
+
+  constructor(
+    private discoveryService: DiscoveryService,
+    private reflector: Reflector,
+    private domainService: DomainService,
+  ) {}
+
+  getDocument(workspace: Workspace): OpenApiDocument {
+    this.document ??= this.buildDocument();
+
+    return {
+      ...this.document,
+      servers: [
+        { url: `${this.domainService.getUrl(workspace.hostname)}/api` },
+      ],
+    };
+  }
+
+  private buildDocument(): Omit<OpenApiDocument, 'servers'> {
+    const schemas: Record<string, SchemaObject> = { ...OPENAPI_SCHEMAS };
+    const paths: OpenApiDocument['paths'] = {};
+    const tags = new Set<string>();
+
+    for (const wrapper of this.discoveryService.getControllers()) {
+      const controller = wrapper.metatype as Type<unknown>;
+      const tag = controller && Reflect.getMetadata(API_TAG_KEY, controller);
+      if (!tag) continue;
+
+      tags.add(tag);
+      const controllerPath = Reflect.getMetadata(PATH_METADATA, controller);
+
+      for (const methodName of Object.getOwnPropertyNames(
+        controller.prototype,
+      )) {
+        const handler = controller.prototype[methodName];
+        const options: ApiOperationOptions =
+          typeof handler === 'function' &&
+          Reflect.getMetadata(API_OPERATION_KEY, handler);
+        if (!options) continue;
+
+        const method =
+          RequestMethod[
+            Reflect.getMetadata(METHOD_METADATA, handler)
+          ].toLowerCase();
+        const path = this.toOpenApiPath(
+          controllerPath,
+          Reflect.getMetadata(PATH_METADATA, handler),
+        );
+        const status =
+          Reflect.getMetadata(HTTP_CODE_METADATA, handler) ??
+          (method === 'post' ? 201 : 200);
+        const scopes =
+          this.reflector.getAllAndOverride<ApiScope[]>(REQUIRED_SCOPES_KEY, [
+            handler,
+            controller,
+          ]) ?? [];
+
+        const operation: OperationObject = {
+          operationId: methodName,
+          summary: options.summary,
+          description: this.describe(options.description, scopes),
+          tags: [tag],
+          parameters: [
+            ...this.getPathParameters(path),
+            ...this.getQueryParameters(options.query),
+          ],
+          responses: {
+            [status]: this.getResponse(options),
+            default: {
+              description: 'Error',
+              content: { 'application/json': { schema: ref('Error') } },
+            },
+          },
+          security: [{ bearerAuth: scopes }],
+        };
+
+        if (options.body) {
+          schemas[schemaName(options.body)] = this.toSchema(options.body);
+          operation.requestBody = {
+            required: true,
+            content: {
+              'application/json': { schema: ref(schemaName(options.body)) },
+            },
+          };
+        }
+
+        if (options.upload) {
+          operation.requestBody = {
+            required: true,
+            content: {
+              'multipart/form-data': {
+                schema: {
+                  type: 'object',
+                  properties: { file: { type: 'string', format: 'binary' } },
+                  required: ['file'],
+                },
+              },
+            },
+          };
+        }
+
+        paths[path] = { ...paths[path], [method]: operation };
+      }
+    }
+
+    return {
+      openapi: '3.1.0',
+      info: {
+        title: 'Docmost API',
+        version: PUBLIC_API_VERSION,
+        description:
+          'Authenticate with an API key as bearer token. ' +
+          'List endpoints are cursor paginated: pass meta.nextCursor as cursor to get the next page.',
+      },
+      tags: [...tags].map((name) => ({ name })),
+      paths,
+      components: {
+        schemas,
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+        },
+      },
+    };
+  }
+
+  // /api is the global prefix, servers[].url already contains it
+  private toOpenApiPath(controllerPath: string, handlerPath: string): string {
+    const path = [controllerPath, handlerPath]
+      .map((segment) => segment.replace(/^\/+|\/+$/g, ''))
+      .filter(Boolean)
+      .join('/');
+
+    return `/${path}`.replace(/:(\w+)/g, '{$1}');
+  }
+
+  private describe(description: string | undefined, scopes: ApiScope[]) {
+    const scopeText = scopes
+      .map((scope) => `\`${scope}\` (${API_SCOPE_DESCRIPTIONS[scope]})`)
+      .join(', ');
+
+    return [description, scopeText && `Required scopes: ${scopeText}`]
+      .filter(Boolean)
+      .join('\n\n');
+  }
+
+  private getPathParameters(path: string): ParameterObject[] {
+    return [...path.matchAll(/{(\w+)}/g)].map(([, name]) => ({
+      name,
+      in: 'path',
+      required: true,
+      schema: { type: 'string', format: 'uuid' },
+    }));
+  }
+
+  private getQueryParameters(dto?: Type<unknown>): ParameterObject[] {
+    if (!dto) return [];
+
+    const schema = this.toSchema(dto);
+    return Object.entries(schema.properties).map(([name, property]) => {
+      const { description, ...propertySchema } = property;
+      return {
+        name,
+        in: 'query',
+        required: schema.required.includes(name),
+        ...(description && { description }),
+        schema: propertySchema,
+      };
+    });
+  }
+
+  private getResponse(options: ApiOperationOptions) {
+    if (options.download) {
+      return {
+        description: 'The file',
+        content: {
+          'application/octet-stream': {
+            schema: { type: 'string', format: 'binary' },
+          },
+        },
+      };
+    }
+
+    if (!options.response) {
+      return { description: 'No content' };
+    }
+
+    const schema: SchemaObject = options.paginated
+      ? {
+          type: 'object',
+          properties: {
+            items: { type: 'array', items: ref(options.response) },
+            meta: ref('CursorPaginationMeta'),
+          },
+          required: ['items', 'meta'],
+        }
+      : ref(options.response);
+
+    return {
+      description: options.response,
+      content: { 'application/json': { schema } },
+    };
+  }
+
+  private toSchema(dto: Type<unknown>): SchemaObject {
+    const metadatas = getMetadataStorage().getTargetValidationMetadatas(
+      dto,
+      '',
+      true,
+      false,
+    );
+    const overrides: Record<string, SchemaObject> =
+      Reflect.getMetadata(API_PROPERTY_KEY, dto) ?? {};
+    const defaults = new (dto as Type<Record<string, unknown>>)();
+
+    const properties: Record<string, SchemaObject> = {};
+    const required: string[] = [];
+
+    const propertyNames = new Set([
+      ...metadatas.map((metadata) => metadata.propertyName),
+      ...Object.keys(overrides),
+    ]);
+
+    for (const name of propertyNames) {
+      const schema: SchemaObject = {};
+      let isOptional = false;
+
+      for (const metadata of metadatas) {
+        if (metadata.propertyName !== name) continue;
+        if (metadata.name === 'isOptional') {
+          isOptional = true;
+          continue;
+        }
+
+        // constraints declared with { each: true } describe the items
+        const target = metadata.each ? (schema.items ??= {}) : schema;
+        if (metadata.each) schema.type = 'array';
+        applyConstraint(target, metadata.name, metadata.constraints);
+      }
+
+      if (defaults[name] !== undefined) {
+        schema.default = defaults[name];
+      }
+
+      properties[name] = { ...schema, ...overrides[name] };
+      if (!isOptional) {
+        required.push(name);
+      }
+    }
+
+    return { type: 'object', properties, required };
+  }
+}
+
+function applyConstraint(
+  schema: SchemaObject,
+  name: string,
+  constraints: any[],
+): void {
+  switch (name) {
+    case 'isString':
+    case 'isNotEmpty':
+      schema.type ??= 'string';
+      if (name === 'isNotEmpty') schema.minLength = 1;
+      break;
+    case 'isUuid':
+      schema.type = 'string';
+      schema.format = 'uuid';
+      break;
+    case 'isInt':
+      schema.type = 'integer';
+      break;
+    case 'isNumber':
+      schema.type = 'number';
+      break;
+    case 'isBoolean':
+      schema.type = 'boolean';
+      break;
+    case 'isArray':
+      schema.type = 'array';
+      break;
+    case 'isIn':
+    case 'isEnum':
+      schema.enum = name === 'isIn' ? constraints[0] : constraints[1];
+      schema.type ??= typeof schema.enum[0] === 'number' ? 'number' : 'string';
+      break;
+    case 'min':
+      schema.minimum = constraints[0];
+      break;
+    case 'max':
+      schema.maximum = constraints[0];
+      break;
+    case 'minLength':
+      schema.minLength = constraints[0];
+      break;
+    case 'maxLength':
+      schema.maxLength = constraints[0];
+      break;
+  }
+}
@@ -0,0 +1,77 @@
+import { Type } from '@nestjs/common';
+
+// the subset of OpenAPI 3.1 used by the public API document
+export interface SchemaObject {
+  type?: string | string[];
+  format?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  example?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: SchemaObject;
+  properties?: Record<string, SchemaObject>;
+  required?: string[];
+  oneOf?: SchemaObject[];
+  additionalProperties?: boolean | SchemaObject;
+  $ref?: string;
+}
+
+export interface ParameterObject {
+  name: string;
+  in: 'path' | 'query';
+  required: boolean;
+  description?: string;
+  schema: SchemaObject;
+}
+
+export interface OperationObject {
+  operationId: string;
+  summary: string;
+  description?: string;
+  tags: string[];
+  parameters?: ParameterObject[];
+  requestBody?: {
+    required: boolean;
+    content: Record<string, { schema: SchemaObject }>;
+  };
+  responses: Record<
+    string,
+    {
+      description: string;
+      content?: Record<string, { schema: SchemaObject }>;
+    }
+  >;
+  security: Record<string, string[]>[];
+}
+
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  servers: { url: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, OperationObject>>;
+  components: {
+    schemas: Record<string, SchemaObject>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+export interface ApiOperationOptions {
+  summary: string;
+  description?: string;
+  // class-validator DTO documented as query parameters
+  query?: Type<unknown>;
+  // class-validator DTO documented as the JSON request body
+  body?: Type<unknown>;
+  // multipart/form-data request with a single file field
+  upload?: boolean;
+  // name of a schema in openapi.schemas
+  response?: string;
+  paginated?: boolean;
+  // the response is the raw file
+  download?: boolean;
+}
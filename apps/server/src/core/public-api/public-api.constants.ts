@@ -0,0 +1,26 @@
+export const PUBLIC_API_VERSION = 'v1';
+
+export enum ApiScope {
+  PAGES_READ = 'pages:read',
+  PAGES_WRITE = 'pages:write',
+  SPACES_READ = 'spaces:read',
+  COMMENTS_READ = 'comments:read',
+  COMMENTS_WRITE = 'comments:write',
+  ATTACHMENTS_READ = 'attachments:read',
+  ATTACHMENTS_WRITE = 'attachments:write',
+}
+
+export const API_SCOPE_DESCRIPTIONS: Record<ApiScope, string> = {
+  [ApiScope.PAGES_READ]: 'Read and search pages',
+  [ApiScope.PAGES_WRITE]: 'Create, update and delete pages',
+  [ApiScope.SPACES_READ]: 'Read spaces',
+  [ApiScope.COMMENTS_READ]: 'Read comments',
+  [ApiScope.COMMENTS_WRITE]: 'Create and delete comments',
+  [ApiScope.ATTACHMENTS_READ]: 'Read and download attachments',
+  [ApiScope.ATTACHMENTS_WRITE]: 'Upload attachments',
+};
+
+export enum ContentFormat {
+  JSON = 'json',
+  MARKDOWN = 'markdown',
+}
@@ -0,0 +1,41 @@
+import { Module } from '@nestjs/common';
+import { DiscoveryModule } from '@nestjs/core';
+import { PageModule } from '../page/page.module';
+import { SpaceModule } from '../space/space.module';
+import { SearchModule } from '../search/search.module';
+import { CommentModule } from '../comment/comment.module';
+import { AttachmentModule } from '../attachment/attachment.module';
+import { CollaborationModule } from '../../collaboration/collaboration.module';
+import { ApiPageController } from './controllers/api-page.controller';
+import { ApiSpaceController } from './controllers/api-space.controller';
+import { ApiSearchController } from './controllers/api-search.controller';
+import { ApiCommentController } from './controllers/api-comment.controller';
+import { ApiAttachmentController } from './controllers/api-attachment.controller';
+import { OpenApiController } from './controllers/openapi.controller';
+import { ApiKeyScopeController } from './controllers/api-key-scope.controller';
+import { ApiPageService } from './services/api-page.service';
+import { OpenApiService } from './openapi/openapi.service';
+import { ApiScopeGuard } from './guards/api-scope.guard';
+
+@Module({
+  imports: [
+    DiscoveryModule,
+    PageModule,
+    SpaceModule,
+    SearchModule,
+    CommentModule,
+    AttachmentModule,
+    CollaborationModule,
+  ],
+  controllers: [
+    ApiPageController,
+    ApiSpaceController,
+    ApiSearchController,
+    ApiCommentController,
+    ApiAttachmentController,
+    OpenApiController,
+    ApiKeyScopeController,
+  ],
+  providers: [ApiPageService, OpenApiService, ApiScopeGuard],
+})
+export class PublicApiModule {}
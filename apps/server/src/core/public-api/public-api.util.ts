@@ -0,0 +1,125 @@
+import { BadRequestException } from '@nestjs/common';
+import { markdownToHtml } from '@docmost/editor-ext';
+import {
+  Attachment,
+  Comment,
+  Page,
+  Space,
+} from '@docmost/db/types/entity.types';
+import {
+  htmlToJson,
+  jsonToHtml,
+  jsonToNode,
+} from '../../collaboration/collaboration.util';
+import { turndown } from '../../integrations/export/turndown-utils';
+import { ContentFormat } from './public-api.constants';
+
+export async function toProsemirrorJson(
+  content: unknown,
+  format: ContentFormat,
+): Promise<any> {
+  if (format === ContentFormat.MARKDOWN) {
+    if (typeof content !== 'string') {
+      throw new BadRequestException('Markdown content must be a string');
+    }
+    return htmlToJson(await markdownToHtml(content));
+  }
+
+  if (!content || typeof content !== 'object') {
+    throw new BadRequestException(
+      'JSON content must be a ProseMirror document',
+    );
+  }
+
+  try {
+    // throws on nodes and marks the editor does not know
+    jsonToNode(content);
+  } catch {
+    throw new BadRequestException('Invalid ProseMirror document');
+  }
+  return content;
+}
+
+export function fromProsemirrorJson(content: any, format: ContentFormat) {
+  if (format !== ContentFormat.MARKDOWN) {
+    return content;
+  }
+  if (!content) {
+    return '';
+  }
+
+  const html = jsonToHtml(content).replace(
+    /<colgroup[^>]*>[\s\S]*?<\/colgroup>/gim,
+    '',
+  );
+  return turndown(html);
+}
+
+// the public API returns a stable subset of the database columns
+
+export function toApiPage(page: Page) {
+  return {
+    id: page.id,
+    slugId: page.slugId,
+    title: page.title,
+    icon: page.icon,
+    spaceId: page.spaceId,
+    parentPageId: page.parentPageId,
+    creatorId: page.creatorId,
+    lastUpdatedById: page.lastUpdatedById,
+    isLocked: page.isLocked,
+    createdAt: page.createdAt,
+    updatedAt: page.updatedAt,
+  };
+}
+
+export function toApiSpace(
+  space: Space & { memberCount?: number | string | bigint },
+) {
+  return {
+    id: space.id,
+    name: space.name,
+    slug: space.slug,
+    description: space.description,
+    logo: space.logo,
+    visibility: space.visibility,
+    memberCount: Number(space.memberCount ?? 0),
+    createdAt: space.createdAt,
+    updatedAt: space.updatedAt,
+  };
+}
+
+export function toApiComment(
+  comment: Comment & { creator?: unknown },
+  format: ContentFormat,
+) {
+  return {
+    id: comment.id,
+    pageId: comment.pageId,
+    parentCommentId: comment.parentCommentId,
+    type: comment.type,
+    selection: comment.selection,
+    format,
+    content: fromProsemirrorJson(comment.content, format),
+    creatorId: comment.creatorId,
+    creator: comment.creator ?? null,
+    resolvedAt: comment.resolvedAt,
+    editedAt: comment.editedAt,
+    createdAt: comment.createdAt,
+  };
+}
+
+export function toApiAttachment(attachment: Attachment) {
+  return {
+    id: attachment.id,
+    fileName: attachment.fileName,
+    fileSize: Number(attachment.fileSize),
+    fileExt: attachment.fileExt,
+    mimeType: attachment.mimeType,
+    pageId: attachment.pageId,
+    spaceId: attachment.spaceId,
+    creatorId: attachment.creatorId,
+    createdAt: attachment.createdAt,
+    updatedAt: attachment.updatedAt,
+  };
+}
@@ -0,0 +1,105 @@
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Page, User } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PageService } from '../../page/services/page.service';
+import { CollaborationGateway } from '../../../collaboration/collaboration.gateway';
+import { ContentFormat } from '../public-api.constants';
+import { ApiCreatePageDto, ApiUpdatePageDto } from '../dto/page.dto';
+import {
+  fromProsemirrorJson,
+  toApiPage,
+  toProsemirrorJson,
+} from '../public-api.util';
+
+@Injectable()
+export class ApiPageService {
+  constructor(
+    private pageService: PageService,
+    private pageRepo: PageRepo,
+    private collaborationGateway: CollaborationGateway,
+  ) {}
+
+  async createPage(dto: ApiCreatePageDto, user: User, workspaceId: string) {
+    // convert first so invalid content does not leave an empty page behind
+    const content =
+      dto.content !== undefined
+        ? await toProsemirrorJson(dto.content, dto.format)
+        : undefined;
+
+    const page = await this.pageService.create(user.id, workspaceId, {
+      spaceId: dto.spaceId,
+      parentPageId: dto.parentPageId,
+      title: dto.title,
+      icon: dto.icon,
+    });
+
+    if (content) {
+      await this.replaceContent(page, content, user);
+    }
+
+    return this.getPage(page.id, dto.format);
+  }
+
+  async updatePage(
+    page: Page,
+    dto: ApiUpdatePageDto,
+    user: User,
+    opts: { canBypassLock: boolean },
+  ) {
+    const content =
+      dto.content !== undefined
+        ? await toProsemirrorJson(dto.content, dto.format)
+        : undefined;
+
+    // editors are read-only on locked pages, the API follows the same rule
+    if (content && page.isLocked && !opts.canBypassLock) {
+      throw new ForbiddenException('Page is locked');
+    }
+
+    if (dto.title !== undefined || dto.icon !== undefined) {
+      await this.pageService.update(
+        page,
+        { pageId: page.id, title: dto.title, icon: dto.icon },
+        user.id,
+        opts,
+      );
+    }
+
+    if (content) {
+      await this.replaceContent(page, content, user);
+    }
+
+    return this.getPage(page.id, dto.format);
+  }
+
+  /**
+   * Returns the page with its content in the requested format.
+   * Pass publishedOnly for readers of review workflow spaces.
+   */
+  async getPage(
+    pageId: string,
+    format: ContentFormat,
+    opts?: { publishedOnly?: boolean },
+  ) {
+    const page = await this.pageRepo.findById(pageId, {
+      includeContent: true,
+      includePublishedContent: opts?.publishedOnly,
+    });
+    const content = opts?.publishedOnly ? page.publishedContent : page.content;
+
+    return {
+      ...toApiPage(page),
+      format,
+      content: fromProsemirrorJson(content, format),
+    };
+  }
+
+  // goes through the collaboration server so open editors receive the change
+  private async replaceContent(page: Page, content: any, user: User) {
+    await this.collaborationGateway.replaceDocumentContent(
+      `page.${page.id}`,
+      content,
+      { user },
+    );
+  }
+}
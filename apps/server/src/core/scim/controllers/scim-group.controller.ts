@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { ScimAuthGuard } from '../scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-exception.filter';
+import { SCIM_CONTENT_TYPE } from '../scim.constants';
+import { ScimGroupService } from '../services/scim-group.service';
+import {
+  ScimGroupPayload,
+  ScimListQuery,
+  ScimPatchPayload,
+} from '../scim.types';
+
+@UseFilters(ScimExceptionFilter)
+@UseGuards(ScimAuthGuard)
+@Controller('scim/v2/Groups')
+export class ScimGroupController {
+  constructor(private readonly scimGroupService: ScimGroupService) {}
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get()
+  async listGroups(
+    @Query() query: ScimListQuery,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimGroupService.listGroups(query, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get(':groupId')
+  async getGroup(
+    @Param('groupId') groupId: string,
+    @Query() query: ScimListQuery,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimGroupService.getGroup(groupId, workspace, query);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @HttpCode(HttpStatus.CREATED)
+  @Post()
+  async createGroup(
+    @Body() payload: ScimGroupPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimGroupService.createGroup(payload, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Put(':groupId')
+  async replaceGroup(
+    @Param('groupId') groupId: string,
+    @Body() payload: ScimGroupPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimGroupService.replaceGroup(groupId, payload, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Patch(':groupId')
+  async patchGroup(
+    @Param('groupId') groupId: string,
+    @Body() payload: ScimPatchPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimGroupService.patchGroup(groupId, payload, workspace);
+  }
+
+  @SkipTransform()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':groupId')
+  async deleteGroup(
+    @Param('groupId') groupId: string,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    await this.scimGroupService.deleteGroup(groupId, workspace);
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../../common/guards/jwt-auth.guard';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import WorkspaceAbilityFactory from '../../casl/abilities/workspace-ability.factory';
+import {
+  WorkspaceCaslAction,
+  WorkspaceCaslSubject,
+} from '../../casl/interfaces/workspace-ability.type';
+import { ScimTokenService } from '../services/scim-token.service';
+import { CreateScimTokenDto, ScimTokenIdDto } from '../dto/scim-token.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('scim-tokens')
+export class ScimTokenController {
+  constructor(
+    private readonly scimTokenService: ScimTokenService,
+    private readonly workspaceAbility: WorkspaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/')
+  async getScimTokens(
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    this.assertCanManageSettings(user, workspace);
+    return this.scimTokenService.getScimTokens(workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('create')
+  async createScimToken(
+    @Body() dto: CreateScimTokenDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    this.assertCanManageSettings(user, workspace);
+    return this.scimTokenService.createScimToken(dto, user, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('revoke')
+  async revokeScimToken(
+    @Body() dto: ScimTokenIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    this.assertCanManageSettings(user, workspace);
+    return this.scimTokenService.revokeScimToken(dto.tokenId, workspace.id);
+  }
+
+  private assertCanManageSettings(user: User, workspace: Workspace) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+  }
+}
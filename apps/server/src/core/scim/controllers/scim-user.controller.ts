@@ -0,0 +1,99 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseFilters,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { ScimAuthGuard } from '../scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-exception.filter';
+import { SCIM_CONTENT_TYPE } from '../scim.constants';
+import { ScimUserService } from '../services/scim-user.service';
+import {
+  ScimListQuery,
+  ScimPatchPayload,
+  ScimUserPayload,
+} from '../scim.types';
+
+@UseFilters(ScimExceptionFilter)
+@UseGuards(ScimAuthGuard)
+@Controller('scim/v2/Users')
+export class ScimUserController {
+  constructor(private readonly scimUserService: ScimUserService) {}
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get()
+  async listUsers(
+    @Query() query: ScimListQuery,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimUserService.listUsers(query, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get(':userId')
+  async getUser(
+    @Param('userId') userId: string,
+    @Query() query: ScimListQuery,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimUserService.getUser(userId, workspace, query);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @HttpCode(HttpStatus.CREATED)
+  @Post()
+  async createUser(
+    @Body() payload: ScimUserPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimUserService.createUser(payload, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Put(':userId')
+  async replaceUser(
+    @Param('userId') userId: string,
+    @Body() payload: ScimUserPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimUserService.replaceUser(userId, payload, workspace);
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Patch(':userId')
+  async patchUser(
+    @Param('userId') userId: string,
+    @Body() payload: ScimPatchPayload,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.scimUserService.patchUser(userId, payload, workspace);
+  }
+
+  @SkipTransform()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @Delete(':userId')
+  async deleteUser(
+    @Param('userId') userId: string,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    await this.scimUserService.deleteUser(userId, workspace);
+  }
+}
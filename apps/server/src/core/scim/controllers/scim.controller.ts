@@ -0,0 +1,70 @@
+import { Controller, Get, Header, UseFilters, UseGuards } from '@nestjs/common';
+import { AuthWorkspace } from '../../../common/decorators/auth-workspace.decorator';
+import { SkipTransform } from '../../../common/decorators/skip-transform.decorator';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { DomainService } from '../../../integrations/environment/domain.service';
+import { ScimAuthGuard } from '../scim-auth.guard';
+import { ScimExceptionFilter } from '../scim-exception.filter';
+import {
+  SCIM_CONTENT_TYPE,
+  SCIM_MAX_COUNT,
+  ScimSchema,
+} from '../scim.constants';
+
+// https://datatracker.ietf.org/doc/html/rfc7644#section-4
+@UseFilters(ScimExceptionFilter)
+@UseGuards(ScimAuthGuard)
+@Controller('scim/v2')
+export class ScimController {
+  constructor(private readonly domainService: DomainService) {}
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get('ServiceProviderConfig')
+  getServiceProviderConfig() {
+    return {
+      schemas: [ScimSchema.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_COUNT },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: 'oauthbearertoken',
+          name: 'Bearer token',
+          description: 'Authentication with a workspace SCIM token',
+          primary: true,
+        },
+      ],
+    };
+  }
+
+  @SkipTransform()
+  @Header('Content-Type', SCIM_CONTENT_TYPE)
+  @Get('ResourceTypes')
+  getResourceTypes(@AuthWorkspace() workspace: Workspace) {
+    const baseUrl = `${this.domainService.getUrl(workspace.hostname)}/api/scim/v2`;
+    const resourceTypes = [
+      { id: 'User', endpoint: '/Users', schema: ScimSchema.USER },
+      { id: 'Group', endpoint: '/Groups', schema: ScimSchema.GROUP },
+    ].map((resourceType) => ({
+      schemas: [ScimSchema.RESOURCE_TYPE],
+      ...resourceType,
+      name: resourceType.id,
+      meta: {
+        resourceType: 'ResourceType',
+        location: `${baseUrl}/ResourceTypes/${resourceType.id}`,
+      },
+    }));
+
+    return {
+      schemas: [ScimSchema.LIST_RESPONSE],
+      totalResults: resourceTypes.length,
+      startIndex: 1,
+      itemsPerPage: resourceTypes.length,
+      Resources: resourceTypes,
+    };
+  }
+}
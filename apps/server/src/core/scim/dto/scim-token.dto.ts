@@ -0,0 +1,13 @@
+import { IsNotEmpty, IsString, IsUUID, MaxLength } from 'class-validator';
+
+export class CreateScimTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
+
+export class ScimTokenIdDto {
+  @IsUUID()
+  tokenId: string;
+}
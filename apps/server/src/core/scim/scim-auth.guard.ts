@@ -0,0 +1,38 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  HttpStatus,
+  Injectable,
+} from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
+import { ScimTokenRepo } from '@docmost/db/repos/scim/scim-token.repo';
+import { extractBearerTokenFromHeader } from '../../common/helpers';
+import { ScimError } from './scim.error';
+import { hashScimToken } from './scim.utils';
+
+@Injectable()
+export class ScimAuthGuard implements CanActivate {
+  constructor(private scimTokenRepo: ScimTokenRepo) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const req = context.switchToHttp().getRequest<FastifyRequest>();
+    const token = extractBearerTokenFromHeader(req);
+
+    if (!token) {
+      throw new ScimError(HttpStatus.UNAUTHORIZED, 'Missing bearer token');
+    }
+
+    const scimToken = await this.scimTokenRepo.findByTokenHash(
+      hashScimToken(token),
+    );
+
+    // tokens are only valid on the workspace they were created for
+    if (!scimToken || scimToken.workspaceId !== req.raw?.['workspaceId']) {
+      throw new ScimError(HttpStatus.UNAUTHORIZED, 'Invalid bearer token');
+    }
+
+    await this.scimTokenRepo.updateLastUsedAt(scimToken.id);
+
+    return true;
+  }
+}
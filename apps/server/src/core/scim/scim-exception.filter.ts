@@ -0,0 +1,53 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { FastifyReply } from 'fastify';
+import { SCIM_CONTENT_TYPE, ScimSchema } from './scim.constants';
+import { ScimError } from './scim.error';
+
+/**
+ * Renders every error of the SCIM endpoints as a SCIM error response
+ * so identity providers can parse them.
+ */
+@Catch()
+export class ScimExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(ScimExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost) {
+    const res = host.switchToHttp().getResponse<FastifyReply>();
+
+    let status = HttpStatus.INTERNAL_SERVER_ERROR;
+    let body: Record<string, any>;
+
+    if (exception instanceof ScimError) {
+      status = exception.getStatus();
+      body = exception.getResponse() as Record<string, any>;
+    } else if (exception instanceof HttpException) {
+      status = exception.getStatus();
+      const response = exception.getResponse();
+      const message =
+        typeof response === 'string'
+          ? response
+          : ((response as any)?.message ?? exception.message);
+      body = {
+        schemas: [ScimSchema.ERROR],
+        status: String(status),
+        detail: Array.isArray(message) ? message.join(', ') : message,
+      };
+    } else {
+      this.logger.error(exception);
+      body = {
+        schemas: [ScimSchema.ERROR],
+        status: String(status),
+        detail: 'Internal server error',
+      };
+    }
+
+    res.status(status).header('Content-Type', SCIM_CONTENT_TYPE).send(body);
+  }
+}
@@ -0,0 +1,367 @@
+import { HttpStatus } from '@nestjs/common';
+import { RawBuilder, sql } from 'kysely';
+import { validate as isValidUUID } from 'uuid';
+import { ScimErrorType } from './scim.constants';
+import { ScimError } from './scim.error';
+
+export type ScimCompareOperator =
+  | 'eq'
+  | 'ne'
+  | 'co'
+  | 'sw'
+  | 'ew'
+  | 'gt'
+  | 'ge'
+  | 'lt'
+  | 'le';
+
+export type ScimFilterValue = string | number | boolean | null;
+
+export type ScimFilter =
+  | { op: 'and' | 'or'; left: ScimFilter; right: ScimFilter }
+  | { op: 'not'; filter: ScimFilter }
+  | { op: 'pr'; attr: string }
+  | { op: ScimCompareOperator; attr: string; value: ScimFilterValue };
+
+export interface ScimFilterAttribute {
+  // kysely reference of the mapped column, e.g. `users.email`
+  column?: string;
+  type?: 'string' | 'boolean' | 'datetime' | 'uuid';
+  caseExact?: boolean;
+  // compiles attributes that do not map to a single column
+  compile?: (
+    op: 'pr' | ScimCompareOperator,
+    value: ScimFilterValue,
+  ) => RawBuilder<boolean>;
+}
+
+const COMPARE_OPERATORS: ScimCompareOperator[] = [
+  'eq',
+  'ne',
+  'co',
+  'sw',
+  'ew',
+  'gt',
+  'ge',
+  'lt',
+  'le',
+];
+
+const ORDERING_SQL: Partial<Record<ScimCompareOperator, string>> = {
+  gt: '>',
+  ge: '>=',
+  lt: '<',
+  le: '<=',
+};
+
+type Token = {
+  type: 'word' | 'string' | '(' | ')' | '[' | ']';
+  value: string;
+};
+
+function invalidFilter(detail: string) {
+  return new ScimError(
+    HttpStatus.BAD_REQUEST,
+    detail,
+    ScimErrorType.INVALID_FILTER,
+  );
+}
+
+/*
+ * Strips the schema URN of fully qualified attribute paths, e.g.
+ * urn:ietf:params:scim:schemas:core:2.0:User:userName -> username
+ */
+export function normalizeScimPath(path: string): string {
+  const schemaEnd = path.lastIndexOf(':');
+  return (schemaEnd === -1 ? path : path.slice(schemaEnd + 1)).toLowerCase();
+}
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if ('()[]'.includes(char)) {
+      tokens.push({ type: char as Token['type'], value: char });
+      i++;
+    } else if (char === '"') {
+      let end = i + 1;
+      while (end < input.length && input[end] !== '"') {
+        end += input[end] === '\\' ? 2 : 1;
+      }
+      if (end >= input.length) {
+        throw invalidFilter('Unterminated string in filter');
+      }
+
+      try {
+        tokens.push({
+          type: 'string',
+          value: JSON.parse(input.slice(i, end + 1)),
+        });
+      } catch {
+        throw invalidFilter('Invalid string in filter');
+      }
+      i = end + 1;
+    } else {
+      let end = i;
+      while (end < input.length && !/[\s()[\]"]/.test(input[end])) {
+        end++;
+      }
+      tokens.push({ type: 'word', value: input.slice(i, end) });
+      i = end;
+    }
+  }
+
+  return tokens;
+}
+
+class ScimFilterParser {
+  private position = 0;
+  private prefixes: string[] = [];
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): ScimFilter {
+    const filter = this.parseOr();
+    if (this.position < this.tokens.length) {
+      throw invalidFilter(
+        `Unexpected "${this.tokens[this.position].value}" in filter`,
+      );
+    }
+    return filter;
+  }
+
+  private parseOr(): ScimFilter {
+    let left = this.parseAnd();
+    while (this.isKeyword('or')) {
+      this.position++;
+      left = { op: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ScimFilter {
+    let left = this.parseNot();
+    while (this.isKeyword('and')) {
+      this.position++;
+      left = { op: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ScimFilter {
+    if (this.isKeyword('not')) {
+      this.position++;
+      this.expect('(');
+      const filter = this.parseOr();
+      this.expect(')');
+      return { op: 'not', filter };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ScimFilter {
+    if (this.peek()?.type === '(') {
+      this.position++;
+      const filter = this.parseOr();
+      this.expect(')');
+      return filter;
+    }
+
+    const attr = this.attributePath(this.expect('word').value);
+
+    // value path, e.g. emails[type eq "work"]
+    if (this.peek()?.type === '[') {
+      this.position++;
+      this.prefixes.push(attr);
+      const filter = this.parseOr();
+      this.prefixes.pop();
+      this.expect(']');
+      return filter;
+    }
+
+    const op = this.expect('word').value.toLowerCase();
+    if (op === 'pr') {
+      return { op: 'pr', attr };
+    }
+    if (!COMPARE_OPERATORS.includes(op as ScimCompareOperator)) {
+      throw invalidFilter(`Unsupported filter operator "${op}"`);
+    }
+
+    return {
+      op: op as ScimCompareOperator,
+      attr,
+      value: this.parseValue(),
+    };
+  }
+
+  private parseValue(): ScimFilterValue {
+    const token = this.next();
+    if (token?.type === 'string') {
+      return token.value;
+    }
+    if (token?.type !== 'word') {
+      throw invalidFilter('Missing comparison value in filter');
+    }
+
+    const word = token.value.toLowerCase();
+    if (word === 'true') return true;
+    if (word === 'false') return false;
+    if (word === 'null') return null;
+    if (token.value !== '' && !isNaN(Number(token.value))) {
+      return Number(token.value);
+    }
+
+    throw invalidFilter(`Invalid comparison value "${token.value}"`);
+  }
+
+  private attributePath(path: string): string {
+    const attr = normalizeScimPath(path);
+    const prefix = this.prefixes[this.prefixes.length - 1];
+    return prefix ? `${prefix}.${attr}` : attr;
+  }
+
+  private isKeyword(keyword: string): boolean {
+    const token = this.peek();
+    return token?.type === 'word' && token.value.toLowerCase() === keyword;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private expect(type: Token['type']): Token {
+    const token = this.next();
+    if (token?.type !== type) {
+      throw invalidFilter(
+        token ? `Unexpected "${token.value}" in filter` : 'Incomplete filter',
+      );
+    }
+    return token;
+  }
+}
+
+/**
+ * Parses a SCIM filter expression (RFC 7644, section 3.4.2.2).
+ */
+export function parseScimFilter(input: string): ScimFilter {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw invalidFilter('Empty filter');
+  }
+  return new ScimFilterParser(tokens).parse();
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&');
+}
+
+function compileComparison(
+  attribute: ScimFilterAttribute,
+  op: 'pr' | ScimCompareOperator,
+  value: ScimFilterValue,
+): RawBuilder<boolean> {
+  if (attribute.compile) {
+    return attribute.compile(op, value);
+  }
+
+  const column = sql.ref(attribute.column);
+  const type = attribute.type ?? 'string';
+
+  if (op === 'pr') {
+    return type === 'string'
+      ? sql<boolean>`(${column} is not null and ${column} <> '')`
+      : sql<boolean>`${column} is not null`;
+  }
+
+  if (value === null) {
+    if (op === 'eq') return sql<boolean>`${column} is null`;
+    if (op === 'ne') return sql<boolean>`${column} is not null`;
+    throw invalidFilter(`Operator "${op}" cannot compare with null`);
+  }
+
+  if (type === 'uuid' || type === 'boolean') {
+    if (op !== 'eq' && op !== 'ne') {
+      throw invalidFilter(`Operator "${op}" is not supported for ${type}s`);
+    }
+    // ids that are not uuids can never match
+    if (type === 'uuid' && !isValidUUID(String(value))) {
+      return op === 'eq' ? sql<boolean>`false` : sql<boolean>`true`;
+    }
+    if (type === 'boolean' && typeof value !== 'boolean') {
+      throw invalidFilter('Expected a boolean comparison value');
+    }
+    return op === 'eq'
+      ? sql<boolean>`${column} = ${value}`
+      : sql<boolean>`${column} <> ${value}`;
+  }
+
+  if (type === 'datetime') {
+    const date = new Date(String(value));
+    if (isNaN(date.getTime())) {
+      throw invalidFilter('Expected a date comparison value');
+    }
+    if (op === 'eq') return sql<boolean>`${column} = ${date}`;
+    if (op === 'ne') return sql<boolean>`${column} <> ${date}`;
+    if (ORDERING_SQL[op]) {
+      return sql<boolean>`${column} ${sql.raw(ORDERING_SQL[op])} ${date}`;
+    }
+    throw invalidFilter(`Operator "${op}" is not supported for dates`);
+  }
+
+  const text = String(value);
+  const left = attribute.caseExact ? column : sql`lower(${column})`;
+  const right = attribute.caseExact ? sql`${text}` : sql`lower(${text})`;
+
+  switch (op) {
+    case 'eq':
+      return sql<boolean>`${left} = ${right}`;
+    case 'ne':
+      return sql<boolean>`(${column} is null or ${left} <> ${right})`;
+    case 'co':
+      return sql<boolean>`${column} ilike ${'%' + escapeLike(text) + '%'}`;
+    case 'sw':
+      return sql<boolean>`${column} ilike ${escapeLike(text) + '%'}`;
+    case 'ew':
+      return sql<boolean>`${column} ilike ${'%' + escapeLike(text)}`;
+    default:
+      return sql<boolean>`${left} ${sql.raw(ORDERING_SQL[op])} ${right}`;
+  }
+}
+
+/**
+ * Compiles a parsed filter into a where clause.
+ * `attributes` maps lowercased attribute paths to columns.
+ */
+export function compileScimFilter(
+  filter: ScimFilter,
+  attributes: Record<string, ScimFilterAttribute>,
+): RawBuilder<boolean> {
+  switch (filter.op) {
+    case 'and':
+      return sql<boolean>`(${compileScimFilter(filter.left, attributes)} and ${compileScimFilter(filter.right, attributes)})`;
+    case 'or':
+      return sql<boolean>`(${compileScimFilter(filter.left, attributes)} or ${compileScimFilter(filter.right, attributes)})`;
+    case 'not':
+      return sql<boolean>`not (${compileScimFilter(filter.filter, attributes)})`;
+  }
+
+  const attribute = attributes[filter.attr];
+  if (!attribute) {
+    throw invalidFilter(`Filtering by "${filter.attr}" is not supported`);
+  }
+
+  return compileComparison(
+    attribute,
+    filter.op,
+    filter.op === 'pr' ? null : filter.value,
+  );
+}
@@ -0,0 +1,27 @@
+export const SCIM_CONTENT_TYPE = 'application/scim+json';
+
+export enum ScimSchema {
+  USER = 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP = 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  LIST_RESPONSE = 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP = 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR = 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG = 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  RESOURCE_TYPE = 'urn:ietf:params:scim:schemas:core:2.0:ResourceType',
+}
+
+// https://datatracker.ietf.org/doc/html/rfc7644#section-3.12
+export enum ScimErrorType {
+  INVALID_FILTER = 'invalidFilter',
+  TOO_MANY = 'tooMany',
+  UNIQUENESS = 'uniqueness',
+  MUTABILITY = 'mutability',
+  INVALID_SYNTAX = 'invalidSyntax',
+  INVALID_PATH = 'invalidPath',
+  NO_TARGET = 'noTarget',
+  INVALID_VALUE = 'invalidValue',
+}
+
+export const SCIM_DEFAULT_COUNT = 100;
+export const SCIM_MAX_COUNT = 200;
+export const SCIM_TOKEN_PREFIX = 'scim_';
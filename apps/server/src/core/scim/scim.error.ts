@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ScimErrorType, ScimSchema } from './scim.constants';
+
+export class ScimError extends HttpException {
+  constructor(
+    status: HttpStatus,
+    detail: string,
+    readonly scimType?: ScimErrorType,
+  ) {
+    super(
+      {
+        schemas: [ScimSchema.ERROR],
+        status: String(status),
+        ...(scimType && { scimType }),
+        detail,
+      },
+      status,
+    );
+  }
+}
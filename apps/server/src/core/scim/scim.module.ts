@@ -0,0 +1,27 @@
+import { Module } from '@nestjs/common';
+import { WorkspaceModule } from '../workspace/workspace.module';
+import { ScimController } from './controllers/scim.controller';
+import { ScimUserController } from './controllers/scim-user.controller';
+import { ScimGroupController } from './controllers/scim-group.controller';
+import { ScimTokenController } from './controllers/scim-token.controller';
+import { ScimUserService } from './services/scim-user.service';
+import { ScimGroupService } from './services/scim-group.service';
+import { ScimTokenService } from './services/scim-token.service';
+import { ScimAuthGuard } from './scim-auth.guard';
+
+@Module({
+  imports: [WorkspaceModule],
+  controllers: [
+    ScimController,
+    ScimUserController,
+    ScimGroupController,
+    ScimTokenController,
+  ],
+  providers: [
+    ScimUserService,
+    ScimGroupService,
+    ScimTokenService,
+    ScimAuthGuard,
+  ],
+})
+export class ScimModule {}
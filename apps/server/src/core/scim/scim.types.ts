@@ -0,0 +1,82 @@
+import { ScimSchema } from './scim.constants';
+
+export interface ScimListQuery {
+  filter?: string;
+  startIndex?: string;
+  count?: string;
+  attributes?: string;
+  excludedAttributes?: string;
+}
+
+export interface ScimMeta {
+  resourceType: 'User' | 'Group';
+  created: Date;
+  lastModified: Date;
+  location: string;
+}
+
+export interface ScimUser {
+  schemas: ScimSchema[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  name: { formatted: string };
+  displayName: string;
+  emails: { value: string; type: string; primary: boolean }[];
+  active: boolean;
+  groups: { value: string; display: string; $ref: string }[];
+  meta: ScimMeta;
+}
+
+export interface ScimGroup {
+  schemas: ScimSchema[];
+  id: string;
+  externalId?: string;
+  displayName: string;
+  members: { value: string; display: string; $ref: string }[];
+  meta: ScimMeta;
+}
+
+export interface ScimListResponse<T> {
+  schemas: ScimSchema[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: Partial<T>[];
+}
+
+// request payloads are loosely typed as identity providers differ in
+// which attributes they send
+export interface ScimUserPayload {
+  schemas?: string[];
+  externalId?: string;
+  userName?: string;
+  displayName?: string;
+  name?: {
+    formatted?: string;
+    givenName?: string;
+    familyName?: string;
+  };
+  emails?: { value?: string; primary?: boolean | string }[];
+  active?: boolean | string;
+  [attribute: string]: unknown;
+}
+
+export interface ScimGroupPayload {
+  schemas?: string[];
+  externalId?: string;
+  displayName?: string;
+  members?: { value?: string }[];
+  [attribute: string]: unknown;
+}
+
+export interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+export interface ScimPatchPayload {
+  schemas?: string[];
+  Operations?: ScimPatchOperation[];
+}
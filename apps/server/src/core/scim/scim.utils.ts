@@ -0,0 +1,135 @@
+import { HttpStatus } from '@nestjs/common';
+import { createHash, randomBytes } from 'node:crypto';
+import {
+  SCIM_DEFAULT_COUNT,
+  SCIM_MAX_COUNT,
+  SCIM_TOKEN_PREFIX,
+  ScimErrorType,
+  ScimSchema,
+} from './scim.constants';
+import { ScimError } from './scim.error';
+import { normalizeScimPath } from './scim-filter';
+import {
+  ScimListQuery,
+  ScimListResponse,
+  ScimPatchOperation,
+  ScimPatchPayload,
+} from './scim.types';
+
+export function generateScimToken(): string {
+  return `${SCIM_TOKEN_PREFIX}${randomBytes(32).toString('hex')}`;
+}
+
+export function hashScimToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function parseScimPagination(query: ScimListQuery): {
+  startIndex: number;
+  count: number;
+} {
+  // startIndex is 1-based, values below 1 are treated as 1
+  const startIndex = Math.max(parseInt(query.startIndex, 10) || 1, 1);
+
+  const count = parseInt(query.count, 10);
+  return {
+    startIndex,
+    count: isNaN(count)
+      ? SCIM_DEFAULT_COUNT
+      : Math.min(Math.max(count, 0), SCIM_MAX_COUNT),
+  };
+}
+
+export function toScimListResponse<T extends object>(
+  resources: T[],
+  totalResults: number,
+  startIndex: number,
+  query: ScimListQuery,
+): ScimListResponse<T> {
+  return {
+    schemas: [ScimSchema.LIST_RESPONSE],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources.map((resource) =>
+      projectScimResource(resource, query),
+    ),
+  };
+}
+
+/**
+ * Applies the `attributes` and `excludedAttributes` query parameters
+ * to the top-level attributes of a resource. `schemas` and `id` are
+ * always returned.
+ */
+export function projectScimResource<T extends object>(
+  resource: T,
+  query: Pick<ScimListQuery, 'attributes' | 'excludedAttributes'>,
+): Partial<T> {
+  const toNames = (value?: string) =>
+    (value ?? '')
+      .split(',')
+      .map((path) => normalizeScimPath(path.trim()).split('.')[0])
+      .filter(Boolean);
+
+  const attributes = toNames(query.attributes);
+  const excluded = toNames(query.excludedAttributes);
+  if (attributes.length === 0 && excluded.length === 0) {
+    return resource;
+  }
+
+  return Object.fromEntries(
+    Object.entries(resource).filter(([key]) => {
+      const name = key.toLowerCase();
+      if (name === 'schemas' || name === 'id') return true;
+      if (attributes.length > 0) return attributes.includes(name);
+      return !excluded.includes(name);
+    }),
+  ) as Partial<T>;
+}
+
+export function getPatchOperations(
+  payload: ScimPatchPayload,
+): ScimPatchOperation[] {
+  if (!Array.isArray(payload?.Operations) || payload.Operations.length === 0) {
+    throw new ScimError(
+      HttpStatus.BAD_REQUEST,
+      'PATCH request must contain Operations',
+      ScimErrorType.INVALID_SYNTAX,
+    );
+  }
+
+  return payload.Operations.map((operation) => {
+    const op = String(operation?.op ?? '').toLowerCase();
+    if (!['add', 'replace', 'remove'].includes(op)) {
+      throw new ScimError(
+        HttpStatus.BAD_REQUEST,
+        `Unsupported PATCH operation "${operation?.op}"`,
+        ScimErrorType.INVALID_SYNTAX,
+      );
+    }
+    if (op === 'remove' && !operation.path) {
+      throw new ScimError(
+        HttpStatus.BAD_REQUEST,
+        'Remove operations require a path',
+        ScimErrorType.NO_TARGET,
+      );
+    }
+    return { ...operation, op };
+  });
+}
+
+// some identity providers send booleans as strings
+export function toScimBoolean(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'string') {
+    const normalized = value.trim().toLowerCase();
+    if (normalized === 'true') return true;
+    if (normalized === 'false') return false;
+  }
+  throw new ScimError(
+    HttpStatus.BAD_REQUEST,
+    'Expected a boolean value',
+    ScimErrorType.INVALID_VALUE,
+  );
+}
@@ -0,0 +1,418 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { sql } from 'kysely';
+import { validate as isValidUUID } from 'uuid';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { executeTx } from '@docmost/db/utils';
+import { GroupRepo } from '@docmost/db/repos/group/group.repo';
+import { GroupUserRepo } from '@docmost/db/repos/group/group-user.repo';
+import { Workspace } from '@docmost/db/types/entity.types';
+import { DomainService } from '../../../integrations/environment/domain.service';
+import { ScimErrorType, ScimSchema } from '../scim.constants';
+import { ScimError } from '../scim.error';
+import {
+  compileScimFilter,
+  normalizeScimPath,
+  parseScimFilter,
+  ScimFilter,
+  ScimFilterAttribute,
+} from '../scim-filter';
+import {
+  getPatchOperations,
+  parseScimPagination,
+  projectScimResource,
+  toScimListResponse,
+} from '../scim.utils';
+import {
+  ScimGroup,
+  ScimGroupPayload,
+  ScimListQuery,
+  ScimPatchOperation,
+  ScimPatchPayload,
+} from '../scim.types';
+
+type ScimGroupRow = Awaited<ReturnType<GroupRepo['findScimGroupById']>>;
+
+const GROUP_FILTER_ATTRIBUTES: Record<string, ScimFilterAttribute> = {
+  id: { column: 'groups.id', type: 'uuid' },
+  displayname: { column: 'groups.name' },
+  externalid: { column: 'groups.scimExternalId', caseExact: true },
+  'meta.created': { column: 'groups.createdAt', type: 'datetime' },
+  'meta.lastmodified': { column: 'groups.updatedAt', type: 'datetime' },
+  'members.value': {
+    compile: (op, value) => {
+      if (op !== 'eq') {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          'members can only be filtered with eq',
+          ScimErrorType.INVALID_FILTER,
+        );
+      }
+      if (!isValidUUID(String(value))) {
+        return sql<boolean>`false`;
+      }
+      return sql<boolean>`exists (
+        select 1 from group_users
+        where group_users.group_id = ${sql.ref('groups.id')}
+        and group_users.user_id = ${String(value)}
+      )`;
+    },
+  },
+};
+
+@Injectable()
+export class ScimGroupService {
+  constructor(
+    private groupRepo: GroupRepo,
+    private groupUserRepo: GroupUserRepo,
+    private domainService: DomainService,
+    @InjectKysely() private readonly db: KyselyDB,
+  ) {}
+
+  async listGroups(query: ScimListQuery, workspace: Workspace) {
+    const { startIndex, count } = parseScimPagination(query);
+    const filter = query.filter
+      ? compileScimFilter(
+          parseScimFilter(query.filter),
+          GROUP_FILTER_ATTRIBUTES,
+        )
+      : undefined;
+
+    const { groups, total } = await this.groupRepo.getScimGroups(workspace.id, {
+      filter,
+      offset: startIndex - 1,
+      limit: count,
+      includeMembers: this.includesMembers(query),
+    });
+
+    return toScimListResponse(
+      groups.map((group) => this.toScimGroup(group, workspace)),
+      total,
+      startIndex,
+      query,
+    );
+  }
+
+  async getGroup(
+    groupId: string,
+    workspace: Workspace,
+    query: ScimListQuery = {},
+  ): Promise<Partial<ScimGroup>> {
+    const group = await this.findGroupOrFail(groupId, workspace.id, {
+      includeMembers: this.includesMembers(query),
+    });
+    return projectScimResource(this.toScimGroup(group, workspace), query);
+  }
+
+  async createGroup(
+    payload: ScimGroupPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimGroup>> {
+    const name = this.toText(payload?.displayName);
+    if (!name) {
+      throw new ScimError(
+        HttpStatus.BAD_REQUEST,
+        'displayName is required',
+        ScimErrorType.INVALID_VALUE,
+      );
+    }
+
+    const groupId = await executeTx(this.db, async (trx) => {
+      await this.assertNameAvailable(name, workspace.id, undefined, trx);
+
+      const group = await this.groupRepo.insertGroup(
+        {
+          name,
+          isDefault: false,
+          creatorId: null,
+          workspaceId: workspace.id,
+          scimExternalId: this.toText(payload.externalId) ?? null,
+        },
+        trx,
+      );
+
+      await this.groupUserRepo.insertGroupUsers(
+        this.toMemberIds(payload.members),
+        group.id,
+        workspace.id,
+        trx,
+      );
+
+      return group.id;
+    });
+
+    return this.getGroup(groupId, workspace);
+  }
+
+  async replaceGroup(
+    groupId: string,
+    payload: ScimGroupPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimGroup>> {
+    const group = await this.findGroupOrFail(groupId, workspace.id);
+
+    await executeTx(this.db, async (trx) => {
+      const name = this.toText(payload?.displayName);
+      if (name) {
+        await this.renameGroup(group, name, workspace.id, trx);
+      }
+
+      if ('externalId' in (payload ?? {})) {
+        await this.groupRepo.update(
+          { scimExternalId: this.toText(payload.externalId) ?? null },
+          group.id,
+          workspace.id,
+          trx,
+        );
+      }
+
+      await this.groupUserRepo.deleteGroupUsers(group.id, { trx });
+      await this.groupUserRepo.insertGroupUsers(
+        this.toMemberIds(payload?.members),
+        group.id,
+        workspace.id,
+        trx,
+      );
+    });
+
+    return this.getGroup(groupId, workspace);
+  }
+
+  async patchGroup(
+    groupId: string,
+    payload: ScimPatchPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimGroup>> {
+    const group = await this.findGroupOrFail(groupId, workspace.id);
+    const operations = getPatchOperations(payload);
+
+    await executeTx(this.db, async (trx) => {
+      for (const operation of operations) {
+        await this.applyOperation(group, operation, workspace.id, trx);
+      }
+    });
+
+    return this.getGroup(groupId, workspace);
+  }
+
+  async deleteGroup(groupId: string, workspace: Workspace): Promise<void> {
+    const group = await this.findGroupOrFail(groupId, workspace.id);
+    await this.groupRepo.delete(group.id, workspace.id);
+  }
+
+  private async applyOperation(
+    group: ScimGroupRow,
+    operation: ScimPatchOperation,
+    workspaceId: string,
+    trx: KyselyTransaction,
+  ): Promise<void> {
+    const { op, path, value } = operation;
+
+    if (!path) {
+      if (!value || typeof value !== 'object') {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          'PATCH operations without a path require an object value',
+          ScimErrorType.INVALID_VALUE,
+        );
+      }
+      for (const [attribute, attributeValue] of Object.entries(value)) {
+        await this.applyOperation(
+          group,
+          { op, path: attribute, value: attributeValue },
+          workspaceId,
+          trx,
+        );
+      }
+      return;
+    }
+
+    // e.g. members[value eq "2819c223-7f76-453a-919d-413861904646"]
+    const memberFilter = path.match(/^members\[(.+)\]$/i);
+    if (memberFilter) {
+      if (op !== 'remove') {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          `Unsupported path "${path}" for ${op}`,
+          ScimErrorType.INVALID_PATH,
+        );
+      }
+      await this.groupUserRepo.deleteGroupUsers(group.id, {
+        userIds: this.memberIdsFromFilter(parseScimFilter(memberFilter[1])),
+        trx,
+      });
+      return;
+    }
+
+    switch (normalizeScimPath(path)) {
+      case 'displayname': {
+        const name = this.toText(value);
+        if (op === 'remove' || !name) {
+          throw new ScimError(
+            HttpStatus.BAD_REQUEST,
+            'displayName is required',
+            ScimErrorType.MUTABILITY,
+          );
+        }
+        await this.renameGroup(group, name, workspaceId, trx);
+        break;
+      }
+      case 'externalid':
+        await this.groupRepo.update(
+          {
+            scimExternalId:
+              op === 'remove' ? null : (this.toText(value) ?? null),
+          },
+          group.id,
+          workspaceId,
+          trx,
+        );
+        break;
+      case 'members': {
+        if (op === 'add') {
+          await this.groupUserRepo.insertGroupUsers(
+            this.toMemberIds(value),
+            group.id,
+            workspaceId,
+            trx,
+          );
+          break;
+        }
+
+        // remove without a value clears all members
+        const userIds = value ? this.toMemberIds(value) : undefined;
+        if (op === 'remove') {
+          await this.groupUserRepo.deleteGroupUsers(group.id, {
+            userIds,
+            trx,
+          });
+          break;
+        }
+
+        await this.groupUserRepo.deleteGroupUsers(group.id, { trx });
+        await this.groupUserRepo.insertGroupUsers(
+          userIds ?? [],
+          group.id,
+          workspaceId,
+          trx,
+        );
+        break;
+      }
+      default:
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          `Unsupported path "${path}"`,
+          ScimErrorType.INVALID_PATH,
+        );
+    }
+  }
+
+  private async renameGroup(
+    group: ScimGroupRow,
+    name: string,
+    workspaceId: string,
+    trx: KyselyTransaction,
+  ): Promise<void> {
+    if (name === group.name) return;
+
+    await this.assertNameAvailable(name, workspaceId, group.id, trx);
+    await this.groupRepo.update({ name }, group.id, workspaceId, trx);
+    group.name = name;
+  }
+
+  private async assertNameAvailable(
+    name: string,
+    workspaceId: string,
+    groupId: string | undefined,
+    trx: KyselyTransaction,
+  ): Promise<void> {
+    const existingGroup = await this.groupRepo.findByName(name, workspaceId, {
+      trx,
+    });
+
+    if (existingGroup && existingGroup.id !== groupId) {
+      throw new ScimError(
+        HttpStatus.CONFLICT,
+        'A group with this displayName already exists',
+        ScimErrorType.UNIQUENESS,
+      );
+    }
+  }
+
+  private memberIdsFromFilter(filter: ScimFilter): string[] {
+    if (filter.op === 'or') {
+      return [
+        ...this.memberIdsFromFilter(filter.left),
+        ...this.memberIdsFromFilter(filter.right),
+      ];
+    }
+    if (filter.op === 'eq' && filter.attr === 'value') {
+      return this.toMemberIds([{ value: filter.value }]);
+    }
+
+    throw new ScimError(
+      HttpStatus.BAD_REQUEST,
+      'Members can only be selected with value eq',
+      ScimErrorType.INVALID_FILTER,
+    );
+  }
+
+  // ids that are not uuids cannot belong to the workspace
+  private toMemberIds(members: unknown): string[] {
+    const items = Array.isArray(members) ? members : [members];
+    return items
+      .map((member) => String(member?.value ?? ''))
+      .filter((userId) => isValidUUID(userId));
+  }
+
+  private toText(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
+  private includesMembers(query: ScimListQuery): boolean {
+    const projected = projectScimResource({ members: true }, query);
+    return 'members' in projected;
+  }
+
+  private async findGroupOrFail(
+    groupId: string,
+    workspaceId: string,
+    opts?: { includeMembers?: boolean },
+  ): Promise<ScimGroupRow> {
+    const group = isValidUUID(groupId)
+      ? await this.groupRepo.findScimGroupById(groupId, workspaceId, {
+          includeMembers: opts?.includeMembers ?? true,
+        })
+      : undefined;
+
+    if (!group) {
+      throw new ScimError(HttpStatus.NOT_FOUND, `Group ${groupId} not found`);
+    }
+    return group;
+  }
+
+  private toScimGroup(group: ScimGroupRow, workspace: Workspace): ScimGroup {
+    const baseUrl = `${this.domainService.getUrl(workspace.hostname)}/api/scim/v2`;
+    const members = group.members ?? [];
+
+    return {
+      schemas: [ScimSchema.GROUP],
+      id: group.id,
+      ...(group.scimExternalId && { externalId: group.scimExternalId }),
+      displayName: group.name,
+      members: members.map((member) => ({
+        value: member.id,
+        display: member.name ?? member.email,
+        $ref: `${baseUrl}/Users/${member.id}`,
+      })),
+      meta: {
+        resourceType: 'Group',
+        created: group.createdAt,
+        lastModified: group.updatedAt,
+        location: `${baseUrl}/Groups/${group.id}`,
+      },
+    };
+  }
+}
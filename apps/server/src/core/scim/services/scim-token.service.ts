@@ -0,0 +1,44 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ScimTokenRepo } from '@docmost/db/repos/scim/scim-token.repo';
+import { User } from '@docmost/db/types/entity.types';
+import { CreateScimTokenDto } from '../dto/scim-token.dto';
+import { generateScimToken, hashScimToken } from '../scim.utils';
+
+@Injectable()
+export class ScimTokenService {
+  constructor(private scimTokenRepo: ScimTokenRepo) {}
+
+  async getScimTokens(workspaceId: string) {
+    return this.scimTokenRepo.getScimTokens(workspaceId);
+  }
+
+  /**
+   * Only the hash is stored, the plain token is returned once.
+   */
+  async createScimToken(
+    dto: CreateScimTokenDto,
+    authUser: User,
+    workspaceId: string,
+  ) {
+    const token = generateScimToken();
+
+    const scimToken = await this.scimTokenRepo.insertScimToken({
+      name: dto.name.trim(),
+      tokenHash: hashScimToken(token),
+      tokenHint: token.slice(-4),
+      creatorId: authUser.id,
+      workspaceId,
+    });
+
+    return { ...scimToken, token };
+  }
+
+  async revokeScimToken(tokenId: string, workspaceId: string): Promise<void> {
+    const scimToken = await this.scimTokenRepo.findById(tokenId, workspaceId);
+    if (!scimToken) {
+      throw new NotFoundException('SCIM token not found');
+    }
+
+    await this.scimTokenRepo.deleteScimToken(tokenId, workspaceId);
+  }
+}
@@ -0,0 +1,432 @@
+import { HttpStatus, Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { sql } from 'kysely';
+import { isEmail } from 'class-validator';
+import { randomBytes } from 'node:crypto';
+import { validate as isValidUUID } from 'uuid';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { executeTx } from '@docmost/db/utils';
+import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import { GroupUserRepo } from '@docmost/db/repos/group/group-user.repo';
+import { UpdatableUser, User, Workspace } from '@docmost/db/types/entity.types';
+import { UserRole } from '../../../common/helpers/types/permission';
+import { DomainService } from '../../../integrations/environment/domain.service';
+import { EnvironmentService } from '../../../integrations/environment/environment.service';
+import { QueueJob, QueueName } from '../../../integrations/queue/constants';
+import { WorkspaceService } from '../../workspace/services/workspace.service';
+import { ScimErrorType, ScimSchema } from '../scim.constants';
+import { ScimError } from '../scim.error';
+import {
+  compileScimFilter,
+  normalizeScimPath,
+  parseScimFilter,
+  ScimFilterAttribute,
+} from '../scim-filter';
+import {
+  getPatchOperations,
+  parseScimPagination,
+  projectScimResource,
+  toScimBoolean,
+  toScimListResponse,
+} from '../scim.utils';
+import {
+  ScimListQuery,
+  ScimPatchPayload,
+  ScimUser,
+  ScimUserPayload,
+} from '../scim.types';
+
+type ScimUserRow = Awaited<ReturnType<UserRepo['findScimUserById']>>;
+
+interface ScimUserChanges {
+  email?: string;
+  name?: string;
+  givenName?: string;
+  familyName?: string;
+  externalId?: string | null;
+  active?: boolean;
+}
+
+const USER_FILTER_ATTRIBUTES: Record<string, ScimFilterAttribute> = {
+  id: { column: 'users.id', type: 'uuid' },
+  username: { column: 'users.email' },
+  emails: { column: 'users.email' },
+  'emails.value': { column: 'users.email' },
+  externalid: { column: 'users.scimExternalId', caseExact: true },
+  displayname: { column: 'users.name' },
+  'name.formatted': { column: 'users.name' },
+  'meta.created': { column: 'users.createdAt', type: 'datetime' },
+  'meta.lastmodified': { column: 'users.updatedAt', type: 'datetime' },
+  active: {
+    compile: (op, value) => {
+      if (op === 'pr') return sql<boolean>`true`;
+      if ((op !== 'eq' && op !== 'ne') || typeof value !== 'boolean') {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          'active can only be compared with eq or ne and a boolean',
+          ScimErrorType.INVALID_FILTER,
+        );
+      }
+      const column = sql.ref('users.deactivatedAt');
+      return (op === 'eq') === value
+        ? sql<boolean>`${column} is null`
+        : sql<boolean>`${column} is not null`;
+    },
+  },
+};
+
+@Injectable()
+export class ScimUserService {
+  constructor(
+    private userRepo: UserRepo,
+    private groupUserRepo: GroupUserRepo,
+    private workspaceService: WorkspaceService,
+    private domainService: DomainService,
+    private environmentService: EnvironmentService,
+    @InjectKysely() private readonly db: KyselyDB,
+    @InjectQueue(QueueName.BILLING_QUEUE) private billingQueue: Queue,
+  ) {}
+
+  async listUsers(query: ScimListQuery, workspace: Workspace) {
+    const { startIndex, count } = parseScimPagination(query);
+    const filter = query.filter
+      ? compileScimFilter(parseScimFilter(query.filter), USER_FILTER_ATTRIBUTES)
+      : undefined;
+
+    const { users, total } = await this.userRepo.getScimUsers(workspace.id, {
+      filter,
+      offset: startIndex - 1,
+      limit: count,
+    });
+
+    return toScimListResponse(
+      users.map((user) => this.toScimUser(user, workspace)),
+      total,
+      startIndex,
+      query,
+    );
+  }
+
+  async getUser(
+    userId: string,
+    workspace: Workspace,
+    query: ScimListQuery = {},
+  ): Promise<Partial<ScimUser>> {
+    const user = await this.findUserOrFail(userId, workspace.id);
+    return projectScimResource(this.toScimUser(user, workspace), query);
+  }
+
+  async createUser(
+    payload: ScimUserPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimUser>> {
+    const changes = this.readUserPayload(payload);
+
+    if (!changes.email || !isEmail(changes.email)) {
+      throw new ScimError(
+        HttpStatus.BAD_REQUEST,
+        'userName must be a valid email address',
+        ScimErrorType.INVALID_VALUE,
+      );
+    }
+
+    const existingUser = await this.userRepo.findByEmail(
+      changes.email,
+      workspace.id,
+    );
+    if (existingUser) {
+      throw new ScimError(
+        HttpStatus.CONFLICT,
+        'A user with this userName already exists',
+        ScimErrorType.UNIQUENESS,
+      );
+    }
+
+    const userId = await executeTx(this.db, async (trx) => {
+      const user = await this.userRepo.insertUser(
+        {
+          email: changes.email,
+          name: this.resolveName(changes),
+          // provisioned users sign in through SSO
+          password: randomBytes(32).toString('hex'),
+          hasGeneratedPassword: true,
+          emailVerifiedAt: new Date(),
+          role: workspace.defaultRole ?? UserRole.MEMBER,
+          workspaceId: workspace.id,
+          scimExternalId: changes.externalId ?? null,
+          deactivatedAt: changes.active === false ? new Date() : null,
+        },
+        trx,
+      );
+
+      await this.groupUserRepo.addUserToDefaultGroup(
+        user.id,
+        workspace.id,
+        trx,
+      );
+
+      return user.id;
+    });
+
+    await this.syncSeats(workspace.id);
+
+    return this.getUser(userId, workspace);
+  }
+
+  async replaceUser(
+    userId: string,
+    payload: ScimUserPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimUser>> {
+    const user = await this.findUserOrFail(userId, workspace.id);
+    await this.applyChanges(user, this.readUserPayload(payload), workspace);
+    return this.getUser(userId, workspace);
+  }
+
+  async patchUser(
+    userId: string,
+    payload: ScimPatchPayload,
+    workspace: Workspace,
+  ): Promise<Partial<ScimUser>> {
+    const user = await this.findUserOrFail(userId, workspace.id);
+    const changes: ScimUserChanges = {};
+
+    for (const operation of getPatchOperations(payload)) {
+      if (operation.op === 'remove') {
+        // the remaining attributes are required
+        if (normalizeScimPath(operation.path) === 'externalid') {
+          changes.externalId = null;
+        }
+        continue;
+      }
+
+      if (operation.path) {
+        this.readUserAttribute(operation.path, operation.value, changes);
+      } else if (operation.value && typeof operation.value === 'object') {
+        Object.assign(changes, this.readUserPayload(operation.value));
+      } else {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          'PATCH operations without a path require an object value',
+          ScimErrorType.INVALID_VALUE,
+        );
+      }
+    }
+
+    await this.applyChanges(user, changes, workspace);
+    return this.getUser(userId, workspace);
+  }
+
+  async deleteUser(userId: string, workspace: Workspace): Promise<void> {
+    const user = isValidUUID(userId)
+      ? await this.userRepo.findById(userId, workspace.id)
+      : undefined;
+
+    if (!user || user.deletedAt) {
+      throw new ScimError(HttpStatus.NOT_FOUND, `User ${userId} not found`);
+    }
+
+    await this.assertNotLastOwner(user, workspace.id);
+
+    await this.workspaceService.removeUser(user, workspace.id, null);
+    await this.syncSeats(workspace.id);
+  }
+
+  private async applyChanges(
+    user: ScimUserRow,
+    changes: ScimUserChanges,
+    workspace: Workspace,
+  ): Promise<void> {
+    const updatableUser: UpdatableUser = {};
+
+    if (changes.email !== undefined) {
+      const email = String(changes.email).toLowerCase();
+      if (!isEmail(email)) {
+        throw new ScimError(
+          HttpStatus.BAD_REQUEST,
+          'userName must be a valid email address',
+          ScimErrorType.INVALID_VALUE,
+        );
+      }
+
+      if (email !== user.email) {
+        const existingUser = await this.userRepo.findByEmail(
+          email,
+          workspace.id,
+        );
+        if (existingUser) {
+          throw new ScimError(
+            HttpStatus.CONFLICT,
+            'A user with this userName already exists',
+            ScimErrorType.UNIQUENESS,
+          );
+        }
+        updatableUser.email = email;
+      }
+    }
+
+    const name = this.resolveName(changes);
+    if (name && name !== user.name) {
+      updatableUser.name = name;
+    }
+
+    if (changes.externalId !== undefined) {
+      updatableUser.scimExternalId = changes.externalId;
+    }
+
+    const isActive = !user.deactivatedAt;
+    if (changes.active !== undefined && changes.active !== isActive) {
+      if (!changes.active) {
+        await this.assertNotLastOwner(user, workspace.id);
+      }
+      updatableUser.deactivatedAt = changes.active ? null : new Date();
+    }
+
+    if (Object.keys(updatableUser).length === 0) {
+      return;
+    }
+
+    await this.userRepo.updateUser(updatableUser, user.id, workspace.id);
+
+    if ('deactivatedAt' in updatableUser) {
+      await this.syncSeats(workspace.id);
+    }
+  }
+
+  private readUserPayload(payload: Record<string, any>): ScimUserChanges {
+    const changes: ScimUserChanges = {};
+    for (const [attribute, value] of Object.entries(payload ?? {})) {
+      this.readUserAttribute(attribute, value, changes);
+    }
+    return changes;
+  }
+
+  // attributes we do not store, e.g. enterprise extension attributes,
+  // are ignored so identity providers can send their full profile
+  private readUserAttribute(
+    path: string,
+    value: any,
+    changes: ScimUserChanges,
+  ): void {
+    // drop value filters, e.g. emails[type eq "work"].value
+    const attribute = normalizeScimPath(path.replace(/\[[^\]]*\]/g, ''));
+
+    switch (attribute) {
+      case 'username':
+      case 'emails.value':
+        changes.email = this.toText(value);
+        break;
+      case 'emails':
+        if (Array.isArray(value) && !changes.email) {
+          const email =
+            value.find((item) => item?.primary === true) ?? value[0];
+          changes.email = this.toText(email?.value);
+        }
+        break;
+      case 'displayname':
+      case 'name.formatted':
+        changes.name = this.toText(value);
+        break;
+      case 'name':
+        changes.name = this.toText(value?.formatted) ?? changes.name;
+        changes.givenName = this.toText(value?.givenName);
+        changes.familyName = this.toText(value?.familyName);
+        break;
+      case 'name.givenname':
+        changes.givenName = this.toText(value);
+        break;
+      case 'name.familyname':
+        changes.familyName = this.toText(value);
+        break;
+      case 'externalid':
+        changes.externalId = this.toText(value) ?? null;
+        break;
+      case 'active':
+        changes.active = toScimBoolean(value);
+        break;
+    }
+  }
+
+  private resolveName(changes: ScimUserChanges): string | undefined {
+    if (changes.name) {
+      return changes.name;
+    }
+    const name = [changes.givenName, changes.familyName]
+      .filter(Boolean)
+      .join(' ');
+    return name || undefined;
+  }
+
+  private toText(value: unknown): string | undefined {
+    if (value === undefined || value === null) return undefined;
+    const text = String(value).trim();
+    return text || undefined;
+  }
+
+  private async findUserOrFail(
+    userId: string,
+    workspaceId: string,
+  ): Promise<ScimUserRow> {
+    const user = isValidUUID(userId)
+      ? await this.userRepo.findScimUserById(userId, workspaceId)
+      : undefined;
+
+    if (!user) {
+      throw new ScimError(HttpStatus.NOT_FOUND, `User ${userId} not found`);
+    }
+    return user;
+  }
+
+  private async assertNotLastOwner(
+    user: Pick<User, 'role'>,
+    workspaceId: string,
+  ): Promise<void> {
+    if (user.role !== UserRole.OWNER) return;
+
+    const ownerCount = await this.userRepo.roleCountByWorkspaceId(
+      UserRole.OWNER,
+      workspaceId,
+    );
+    if (ownerCount <= 1) {
+      throw new ScimError(
+        HttpStatus.BAD_REQUEST,
+        'There must be at least one workspace owner',
+        ScimErrorType.MUTABILITY,
+      );
+    }
+  }
+
+  private async syncSeats(workspaceId: string): Promise<void> {
+    if (this.environmentService.isCloud()) {
+      await this.billingQueue.add(QueueJob.STRIPE_SEATS_SYNC, { workspaceId });
+    }
+  }
+
+  private toScimUser(user: ScimUserRow, workspace: Workspace): ScimUser {
+    const baseUrl = `${this.domainService.getUrl(workspace.hostname)}/api/scim/v2`;
+
+    return {
+      schemas: [ScimSchema.USER],
+      id: user.id,
+      ...(user.scimExternalId && { externalId: user.scimExternalId }),
+      userName: user.email,
+      name: { formatted: user.name },
+      displayName: user.name,
+      emails: [{ value: user.email, type: 'work', primary: true }],
+      active: !user.deactivatedAt,
+      groups: user.groups.map((group) => ({
+        value: group.id,
+        display: group.name,
+        $ref: `${baseUrl}/Groups/${group.id}`,
+      })),
+      meta: {
+        resourceType: 'User',
+        created: user.createdAt,
+        lastModified: user.updatedAt,
+        location: `${baseUrl}/Users/${user.id}`,
+      },
+    };
+  }
+}
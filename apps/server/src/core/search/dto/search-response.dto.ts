@@ -1,4 +1,4 @@
-import { Space } from '@docmost/db/types/entity.types';
+import { Label, Space } from '@docmost/db/types/entity.types';
 
 export class SearchResponseDto {
   id: string;
@@ -11,4 +11,5 @@ export class SearchResponseDto {
   createdAt: Date;
   updatedAt: Date;
   space: Partial<Space>;
+  labels?: Pick<Label, 'id' | 'name' | 'color'>[];
 }
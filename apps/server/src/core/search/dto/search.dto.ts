@@ -1,9 +1,13 @@
 import {
+  ArrayMaxSize,
+  IsArray,
   IsBoolean,
+  IsIn,
   IsNotEmpty,
   IsNumber,
   IsOptional,
   IsString,
+  IsUUID,
 } from 'class-validator';
 
 export class SearchDTO {
@@ -23,6 +27,13 @@ export class SearchDTO {
   @IsString()
   creatorId?: string;
 
+  // only pages carrying all of these labels
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(10)
+  @IsUUID('all', { each: true })
+  labelIds?: string[];
+
   @IsOptional()
   @IsNumber()
   limit?: number;
@@ -30,6 +41,11 @@ export class SearchDTO {
   @IsOptional()
   @IsNumber()
   offset?: number;
+
+  // hybrid combines full-text rank with semantic similarity when AI search is enabled
+  @IsOptional()
+  @IsIn(['fulltext', 'hybrid'])
+  mode?: 'fulltext' | 'hybrid';
 }
 
 export class SearchShareDTO extends SearchDTO {
@@ -58,6 +74,15 @@ export class SearchSuggestionDTO {
   @IsBoolean()
   includePages?: boolean;
 
+  @IsOptional()
+  @IsBoolean()
+  includeSpaces?: boolean;
+
+  // also suggest open spaces the user has not joined yet
+  @IsOptional()
+  @IsBoolean()
+  includeOpenSpaces?: boolean;
+
   @IsOptional()
   @IsString()
   spaceId?: string;
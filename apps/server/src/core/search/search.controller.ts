@@ -7,8 +7,10 @@ import {
   HttpStatus,
   Logger,
   Post,
+  Req,
   UseGuards,
 } from '@nestjs/common';
+import { FastifyRequest } from 'fastify';
 import { SearchService } from './search.service';
 import {
   SearchDTO,
@@ -27,6 +29,7 @@ import { AuthUser } from '../../common/decorators/auth-user.decorator';
 import { Public } from 'src/common/decorators/public.decorator';
 import { EnvironmentService } from '../../integrations/environment/environment.service';
 import { ModuleRef } from '@nestjs/core';
+import { ShareService } from '../share/share.service';
 
 @UseGuards(JwtAuthGuard)
 @Controller('search')
@@ -38,6 +41,7 @@ export class SearchController {
     private readonly spaceAbility: SpaceAbilityFactory,
     private readonly environmentService: EnvironmentService,
     private moduleRef: ModuleRef,
+    private readonly shareService: ShareService,
   ) {}
 
   @HttpCode(HttpStatus.OK)
@@ -88,6 +92,7 @@ export class SearchController {
   @Post('share-search')
   async searchShare(
     @Body() searchDto: SearchShareDTO,
+    @Req() req: FastifyRequest,
     @AuthWorkspace() workspace: Workspace,
   ) {
     delete searchDto.spaceId;
@@ -95,6 +100,13 @@ export class SearchController {
       throw new BadRequestException('shareId is required');
     }
 
+    // rejects expired and locked shares
+    await this.shareService.getAccessibleShare(
+      searchDto.shareId,
+      workspace.id,
+      req.cookies,
+    );
+
     if (this.environmentService.getSearchDriver() === 'typesense') {
       return this.searchTypesense(searchDto, {
         workspaceId: workspace.id,
@@ -1,5 +1,31 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SearchService } from './search.service';
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  MongoAbility,
+} from '@casl/ability';
+import {
+  CamelCasePlugin,
+  DummyDriver,
+  Kysely,
+  PostgresAdapter,
+  PostgresIntrospector,
+  PostgresQueryCompiler,
+  sql,
+} from 'kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { SearchDTO } from './dto/search.dto';
 
 describe('SearchService', () => {
   let service: SearchService;
@@ -16,3 +42,99 @@ describe('SearchService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('SearchService review workflow spaces', () => {
+  const userId = 'user-1';
+  const workspaceId = 'workspace-1';
+
+  let queries: { sql: string; parameters: readonly unknown[] }[];
+  let spaceMemberRepo: { getUserSpaceIds: jest.Mock };
+  let spaceAbility: { createForUser: jest.Mock };
+  let service: SearchService;
+
+  beforeEach(() => {
+    queries = [];
+    const db = new Kysely<any>({
+      dialect: {
+        createAdapter: () => new PostgresAdapter(),
+        createDriver: () => new DummyDriver(),
+        createIntrospector: (db) => new PostgresIntrospector(db),
+        createQueryCompiler: () => new PostgresQueryCompiler(),
+      },
+      plugins: [new CamelCasePlugin()],
+      log: (event) => {
+        queries.push(event.query);
+      },
+    });
+    spaceMemberRepo = {
+      getUserSpaceIds: jest.fn().mockResolvedValue(['space-1', 'review-1']),
+    };
+    spaceAbility = { createForUser: jest.fn() };
+
+    service = createService(db);
+  });
+
+  const createService = (db: unknown) =>
+    new SearchService(
+      db as KyselyDB,
+      { withSpace: () => sql`null`.as('space') } as unknown as PageRepo,
+      null,
+      null,
+      spaceMemberRepo as unknown as SpaceMemberRepo,
+      {
+        getInaccessiblePageIds: () => sql`select null`,
+      } as unknown as PagePermissionRepo,
+      { withLabels: () => sql`null`.as('labels') } as unknown as LabelRepo,
+      null,
+      spaceAbility as unknown as SpaceAbilityFactory,
+    );
+
+  it('only matches titles where the user cannot see drafts', async () => {
+    jest
+      .spyOn(service as any, 'getDraftHiddenSpaceIds')
+      .mockResolvedValue(['review-1']);
+
+    await service.searchPage({ query: 'budget' } as SearchDTO, {
+      userId,
+      workspaceId,
+    });
+
+    const search = queries.find((query) => query.sql.includes('ts_headline'));
+    expect(search.sql).toMatch(
+      /case when pages\.space_id in \(\$\d+\) then 0 else ts_rank/,
+    );
+    expect(search.sql).toMatch(
+      /case when pages\.space_id in \(\$\d+\) then null else ts_headline/,
+    );
+    expect(search.sql).toMatch(
+      /"space_id" not in \(\$\d+\) and "tsv" @@ .*"space_id" in \(\$\d+\) and LOWER\(f_unaccent\(pages\.title\)\) like/,
+    );
+    expect(search.parameters).toContain('review-1');
+    expect(search.parameters).toContain('%budget%');
+  });
+
+  it('finds the review spaces in which the user cannot edit', async () => {
+    const reader = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+      createMongoAbility,
+    );
+    reader.can(SpaceCaslAction.Read, SpaceCaslSubject.Page);
+    const writer = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+      createMongoAbility,
+    );
+    writer.can(SpaceCaslAction.Edit, SpaceCaslSubject.Page);
+    spaceAbility.createForUser.mockImplementation(async (_user, spaceId) =>
+      spaceId === 'review-1' ? reader.build() : writer.build(),
+    );
+    const db = {
+      selectFrom: () => db,
+      select: () => db,
+      where: () => db,
+      execute: async () => [{ id: 'review-1' }, { id: 'review-2' }],
+    };
+    service = createService(db);
+
+    await expect(
+      service['getDraftHiddenSpaceIds'](userId, ['review-1', 'review-2']),
+    ).resolves.toEqual(['review-1']);
+  });
+});
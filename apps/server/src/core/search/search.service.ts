@@ -3,21 +3,39 @@ import { SearchDTO, SearchSuggestionDTO } from './dto/search.dto';
 import { SearchResponseDto } from './dto/search-response.dto';
 import { InjectKysely } from 'nestjs-kysely';
 import { KyselyDB } from '@docmost/db/types/kysely.types';
-import { sql } from 'kysely';
+import { RawBuilder, sql } from 'kysely';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
 import { ShareRepo } from '@docmost/db/repos/share/share.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import { PageEmbeddingService } from '../../integrations/ai/page-embedding.service';
+import { SpaceVisibility } from '../../common/helpers/types/permission';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import { canViewPageDraft } from '../page-review/page-review.util';
+import { User } from '@docmost/db/types/entity.types';
 
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const tsquery = require('pg-tsquery')();
 
+// weights of the full-text rank and the semantic similarity in hybrid mode
+const HYBRID_TEXT_WEIGHT = 0.4;
+const HYBRID_VECTOR_WEIGHT = 0.6;
+const HYBRID_VECTOR_CANDIDATES = 50;
+
 @Injectable()
 export class SearchService {
   constructor(
     @InjectKysely() private readonly db: KyselyDB,
     private pageRepo: PageRepo,
     private shareRepo: ShareRepo,
+    private spaceRepo: SpaceRepo,
     private spaceMemberRepo: SpaceMemberRepo,
+    private pagePermissionRepo: PagePermissionRepo,
+    private labelRepo: LabelRepo,
+    private pageEmbeddingService: PageEmbeddingService,
+    private spaceAbility: SpaceAbilityFactory,
   ) {}
 
   async searchPage(
@@ -33,6 +51,38 @@ export class SearchService {
       return;
     }
     const searchQuery = tsquery(query.trim() + '*');
+    const tsQuery = sql<string>`to_tsquery('english', f_unaccent(${searchQuery}))`;
+
+    let rank = sql<number>`ts_rank(tsv, ${tsQuery})`;
+    let similarPageIds: string[] = [];
+
+    let userSpaceIds: string[] = [];
+    let draftHiddenSpaceIds: string[] = [];
+    if (opts.userId) {
+      if (!searchParams.spaceId) {
+        userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(opts.userId);
+      }
+      draftHiddenSpaceIds = await this.getDraftHiddenSpaceIds(
+        opts.userId,
+        searchParams.spaceId ? [searchParams.spaceId] : userSpaceIds,
+      );
+    }
+    const inDraftHiddenSpace =
+      draftHiddenSpaceIds.length > 0
+        ? sql<boolean>`pages.space_id in (${sql.join(draftHiddenSpaceIds)})`
+        : sql<boolean>`false`;
+
+    if (searchParams.mode === 'hybrid') {
+      const hybrid = await this.getHybridRank(
+        searchParams,
+        tsQuery,
+        opts.workspaceId,
+      );
+      if (hybrid) {
+        rank = hybrid.rank;
+        similarPageIds = hybrid.pageIds;
+      }
+    }
 
     let queryResults = this.db
       .selectFrom('pages')
@@ -45,28 +95,63 @@ export class SearchService {
         'creatorId',
         'createdAt',
         'updatedAt',
-        sql<number>`ts_rank(tsv, to_tsquery('english', f_unaccent(${searchQuery})))`.as(
+        sql<number>`case when ${inDraftHiddenSpace} then 0 else ${rank} end`.as(
           'rank',
         ),
-        sql<string>`ts_headline('english', text_content, to_tsquery('english', f_unaccent(${searchQuery})),'MinWords=9, MaxWords=10, MaxFragments=3')`.as(
+        sql<string>`case when ${inDraftHiddenSpace} then null else ts_headline('english', text_content, ${tsQuery},'MinWords=9, MaxWords=10, MaxFragments=3') end`.as(
           'highlight',
         ),
       ])
-      .where(
-        'tsv',
-        '@@',
-        sql<string>`to_tsquery('english', f_unaccent(${searchQuery}))`,
-      )
+      .where((eb) => {
+        const contentMatch =
+          similarPageIds.length > 0
+            ? eb.or([eb('tsv', '@@', tsQuery), eb('id', 'in', similarPageIds)])
+            : eb('tsv', '@@', tsQuery);
+
+        if (draftHiddenSpaceIds.length === 0) {
+          return contentMatch;
+        }
+
+        // the index and embeddings follow the working draft,
+        // readers of review workflow spaces can only match titles
+        return eb.or([
+          eb.and([eb('spaceId', 'not in', draftHiddenSpaceIds), contentMatch]),
+          eb.and([
+            eb('spaceId', 'in', draftHiddenSpaceIds),
+            eb(
+              sql`LOWER(f_unaccent(pages.title))`,
+              'like',
+              sql`LOWER(f_unaccent(${`%${query.trim()}%`}))`,
+            ),
+          ]),
+        ]);
+      })
       .$if(Boolean(searchParams.creatorId), (qb) =>
         qb.where('creatorId', '=', searchParams.creatorId),
       )
+      .$if(searchParams.labelIds?.length > 0, (qb) =>
+        qb.where('id', 'in', (eb) =>
+          eb
+            .selectFrom('pageLabels')
+            .select('pageLabels.pageId')
+            .where('pageLabels.labelId', 'in', searchParams.labelIds)
+            .groupBy('pageLabels.pageId')
+            .having(
+              (eb) => eb.fn.count('pageLabels.labelId').distinct(),
+              '=',
+              searchParams.labelIds.length,
+            ),
+        ),
+      )
       .where('deletedAt', 'is', null)
       .orderBy('rank', 'desc')
       .limit(searchParams.limit | 25)
       .offset(searchParams.offset || 0);
 
     if (!searchParams.shareId) {
-      queryResults = queryResults.select((eb) => this.pageRepo.withSpace(eb));
+      queryResults = queryResults
+        .select((eb) => this.pageRepo.withSpace(eb))
+        .select((eb) => this.labelRepo.withLabels(eb));
     }
 
     if (searchParams.spaceId) {
@@ -74,9 +159,6 @@ export class SearchService {
       queryResults = queryResults.where('spaceId', '=', searchParams.spaceId);
     } else if (opts.userId && !searchParams.spaceId) {
       // only search spaces the user is a member of
-      const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(
-        opts.userId,
-      );
       if (userSpaceIds.length > 0) {
         queryResults = queryResults
           .where('spaceId', 'in', userSpaceIds)
@@ -92,6 +174,16 @@ export class SearchService {
         return [];
       }
 
+      // the search index follows the working draft, which visitors
+      // of review workflow spaces must not see
+      const space = await this.spaceRepo.findById(
+        share.spaceId,
+        opts.workspaceId,
+      );
+      if (space?.reviewWorkflow) {
+        return [];
+      }
+
       const pageIdsToSearch = [];
       if (share.includeSubPages) {
         const pageList = await this.pageRepo.getPageAndDescendants(
@@ -117,6 +209,17 @@ export class SearchService {
       return [];
     }
 
+    if (opts.userId) {
+      // hide restricted pages the user was not granted access to
+      queryResults = queryResults.where(
+        'id',
+        'not in',
+        this.pagePermissionRepo.getInaccessiblePageIds(opts.userId, {
+          spaceId: searchParams.spaceId,
+        }),
+      );
+    }
+
     //@ts-ignore
     queryResults = await queryResults.execute();
 
@@ -133,6 +236,74 @@ export class SearchService {
     return searchResults;
   }
 
+  /*
+   * Review workflow spaces in which the user cannot edit pages,
+   * and therefore must not see the working drafts.
+   */
+  private async getDraftHiddenSpaceIds(
+    userId: string,
+    spaceIds: string[],
+  ): Promise<string[]> {
+    if (spaceIds.length === 0) return [];
+
+    const reviewSpaces = await this.db
+      .selectFrom('spaces')
+      .select('id')
+      .where('id', 'in', spaceIds)
+      .where('reviewWorkflow', '=', true)
+      .execute();
+
+    const hiddenSpaceIds: string[] = [];
+    for (const space of reviewSpaces) {
+      const ability = await this.spaceAbility.createForUser(
+        { id: userId } as User,
+        space.id,
+      );
+      if (!canViewPageDraft({ reviewWorkflow: true }, ability)) {
+        hiddenSpaceIds.push(space.id);
+      }
+    }
+
+    return hiddenSpaceIds;
+  }
+
+  /*
+   * Blends the normalized full-text rank with the semantic similarity of
+   * the closest pages. Returns null when semantic search is unavailable.
+   */
+  private async getHybridRank(
+    searchParams: SearchDTO,
+    tsQuery: RawBuilder<string>,
+    workspaceId: string,
+  ) {
+    const embedding = await this.pageEmbeddingService.embedQuery(
+      searchParams.query.trim(),
+      workspaceId,
+    );
+    if (!embedding) return null;
+
+    const similarPages = await this.pageEmbeddingService.findSimilarPages(
+      embedding,
+      {
+        workspaceId,
+        spaceId: searchParams.spaceId,
+        limit: HYBRID_VECTOR_CANDIDATES,
+      },
+    );
+
+    const similarities = Object.fromEntries(
+      similarPages.map((page) => [page.pageId, page.similarity]),
+    );
+    // normalization 32 scales ts_rank to the 0..1 range of the similarity
+    const rank = sql<number>`${HYBRID_TEXT_WEIGHT} * ts_rank(tsv, ${tsQuery}, 32)
+      + ${HYBRID_VECTOR_WEIGHT} * coalesce((${JSON.stringify(similarities)}::jsonb ->> pages.id::text)::float, 0)`;
+
+    return {
+      rank,
+      pageIds: similarPages.map((page) => page.pageId),
+    };
+  }
+
   async searchSuggestions(
     suggestion: SearchSuggestionDTO,
     userId: string,
@@ -141,6 +312,7 @@ export class SearchService {
     let users = [];
     let groups = [];
     let pages = [];
+    let spaces = [];
 
     const limit = suggestion?.limit || 10;
     const query = suggestion.query.toLowerCase().trim();
@@ -195,6 +367,13 @@ export class SearchService {
         )
         .where('deletedAt', 'is', null)
         .where('workspaceId', '=', workspaceId)
+        .where(
+          'id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(userId, {
+            spaceId: suggestion?.spaceId,
+          }),
+        )
         .limit(limit);
 
       // only search spaces the user has access to
@@ -212,6 +391,43 @@ export class SearchService {
       }
     }
 
-    return { users, groups, pages };
+    if (suggestion.includeSpaces) {
+      const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
+      const includeOpenSpaces = suggestion.includeOpenSpaces;
+
+      // we need the length check or the query will throw an error if the userSpaceIds array is empty
+      if (includeOpenSpaces || userSpaceIds.length > 0) {
+        const results = await this.db
+          .selectFrom('spaces')
+          .select(['id', 'name', 'slug', 'logo', 'visibility'])
+          .where((eb) =>
+            eb(
+              sql`LOWER(f_unaccent(spaces.name))`,
+              'like',
+              sql`LOWER(f_unaccent(${`%${query}%`}))`,
+            ),
+          )
+          .where('workspaceId', '=', workspaceId)
+          .where((eb) =>
+            eb.or([
+              ...(userSpaceIds.length > 0
+                ? [eb('id', 'in', userSpaceIds)]
+                : []),
+              ...(includeOpenSpaces
+                ? [eb('visibility', '=', SpaceVisibility.OPEN)]
+                : []),
+            ]),
+          )
+          .limit(limit)
+          .execute();
+
+        spaces = results.map((space) => ({
+          ...space,
+          isMember: userSpaceIds.includes(space.id),
+        }));
+      }
+    }
+
+    return { users, groups, pages, spaces };
   }
 }
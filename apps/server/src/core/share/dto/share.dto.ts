@@ -1,9 +1,12 @@
 import {
   IsBoolean,
+  IsDateString,
+  IsIn,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUUID,
+  MaxLength,
 } from 'class-validator';
 
 export class CreateShareDto {
@@ -18,6 +21,22 @@ export class CreateShareDto {
   @IsOptional()
   @IsBoolean()
   searchIndexing: boolean;
+
+  // null removes the password
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  password?: string | null;
+
+  // null removes the expiry date
+  @IsOptional()
+  @IsDateString()
+  expiresAt?: string | null;
+
+  @IsOptional()
+  @IsBoolean()
+  disableDownload?: boolean;
 }
 
 export class UpdateShareDto extends CreateShareDto {
@@ -30,6 +49,17 @@ export class UpdateShareDto extends CreateShareDto {
   pageId: string;
 }
 
+export class UnlockShareDto {
+  @IsString()
+  @IsNotEmpty()
+  shareId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  password: string;
+}
+
 export class ShareIdDto {
   @IsString()
   @IsNotEmpty()
@@ -49,6 +79,30 @@ export class ShareInfoDto {
   @IsString()
   @IsOptional()
   pageId: string;
+
+  // landing page views are recorded when the share page is served
+  @IsOptional()
+  @IsBoolean()
+  trackView?: boolean;
+
+  // the page a visit lands on, only recorded here for password protected shares
+  @IsOptional()
+  @IsBoolean()
+  landingView?: boolean;
+}
+
+export class ShareViewsDto {
+  @IsString()
+  @IsNotEmpty()
+  shareId: string;
+
+  @IsOptional()
+  @IsUUID()
+  pageId?: string;
+
+  @IsOptional()
+  @IsIn([7, 30, 90])
+  days?: number;
 }
 
 export class SharePageIdDto {
@@ -0,0 +1,84 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Interval } from '@nestjs/schedule';
+import { ShareViewRepo } from '@docmost/db/repos/share/share-view.repo';
+
+const AGGREGATION_INTERVAL_MS = 5 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ShareAnalyticsService {
+  private readonly logger = new Logger(ShareAnalyticsService.name);
+  private readonly BATCH_SIZE = 5000;
+
+  constructor(private readonly shareViewRepo: ShareViewRepo) {}
+
+  /*
+   * Records an anonymous view event. No visitor data is stored,
+   * only the page, the share, the referring host and the day.
+   * Failures are logged and never surface to the visitor.
+   */
+  recordView(view: {
+    shareId: string;
+    pageId: string;
+    workspaceId: string;
+    referrer: string;
+  }): void {
+    this.shareViewRepo.insertViewEvent(view).catch((err) => {
+      this.logger.warn(`Failed to record share view: ${err?.message}`);
+    });
+  }
+
+  @Interval('share-view-aggregation', AGGREGATION_INTERVAL_MS)
+  async aggregateViews() {
+    try {
+      let processed: number;
+      do {
+        processed = await this.shareViewRepo.aggregateViewEvents(
+          this.BATCH_SIZE,
+        );
+      } while (processed === this.BATCH_SIZE);
+    } catch (err) {
+      this.logger.error('Share view aggregation failed', err);
+    }
+  }
+
+  async getShareViews(
+    shareId: string,
+    opts: { days: number; pageId?: string },
+  ) {
+    const days = this.getDays(opts.days);
+    const since = days[0];
+
+    const [dailyViews, pages, referrers] = await Promise.all([
+      this.shareViewRepo.getDailyViews(shareId, {
+        since,
+        pageId: opts.pageId,
+      }),
+      this.shareViewRepo.getTopPages(shareId, { since, limit: 50 }),
+      this.shareViewRepo.getTopReferrers(shareId, {
+        since,
+        limit: 10,
+        pageId: opts.pageId,
+      }),
+    ]);
+
+    // days without views are not stored, fill them in for the chart
+    const viewsByDay = new Map(dailyViews.map((row) => [row.day, row.views]));
+    const daily = days.map((day) => ({ day, views: viewsByDay.get(day) ?? 0 }));
+
+    return {
+      total: daily.reduce((sum, row) => sum + row.views, 0),
+      daily,
+      pages,
+      referrers,
+    };
+  }
+
+  // the last n days as YYYY-MM-DD strings, oldest first
+  private getDays(count: number): string[] {
+    const today = Date.now();
+    return Array.from({ length: count }, (_, index) =>
+      new Date(today - (count - 1 - index) * DAY_MS).toISOString().slice(0, 10),
+    );
+  }
+}
@@ -7,6 +7,9 @@ import { validate as isValidUUID } from 'uuid';
 import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
 import { EnvironmentService } from '../../integrations/environment/environment.service';
 import { Workspace } from '@docmost/db/types/entity.types';
+import { getReferrerHost, isBotUserAgent, isShareExpired } from './share.util';
+import { ShareAnalyticsService } from './share-analytics.service';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
 
 @Controller('share')
 export class ShareSeoController {
@@ -14,6 +17,8 @@ export class ShareSeoController {
     private readonly shareService: ShareService,
     private workspaceRepo: WorkspaceRepo,
     private environmentService: EnvironmentService,
+    private readonly shareAnalyticsService: ShareAnalyticsService,
+    private readonly pageRepo: PageRepo,
   ) {}
 
   /*
@@ -64,10 +69,23 @@ export class ShareSeoController {
         workspace.id,
       );
 
-      if (!share) {
+      // keep the titles of locked and expired shares private
+      if (!share || share.hasPassword || isShareExpired(share)) {
         return this.sendIndex(indexFilePath, res);
       }
 
+      if (
+        await this.shareService.isAwaitingApproval(
+          share.sharedPage,
+          share.spaceId,
+          workspace.id,
+        )
+      ) {
+        return this.sendIndex(indexFilePath, res);
+      }
+
+      await this.recordLandingView(req, share, pageId);
+
       const rawTitle = share.sharedPage.title ?? 'untitled';
       const metaTitle =
         rawTitle.length > 80 ? `${rawTitle.slice(0, 77)}…` : rawTitle;
@@ -91,6 +109,32 @@ export class ShareSeoController {
     }
   }
 
+  /*
+   * The first page of a visit is served here and carries the external referrer.
+   * Pages opened afterwards in the app are recorded through the page-info route.
+   */
+  async recordLandingView(
+    req: FastifyRequest,
+    share: { id: string; workspaceId: string },
+    pageId: string,
+  ) {
+    if (isBotUserAgent(req.headers['user-agent'])) return;
+
+    try {
+      const page = await this.pageRepo.findById(pageId);
+      if (!page || page.deletedAt) return;
+
+      this.shareAnalyticsService.recordView({
+        shareId: share.id,
+        pageId: page.id,
+        workspaceId: share.workspaceId,
+        referrer: getReferrerHost(req.headers.referer, req.headers.host),
+      });
+    } catch (err) {
+      // analytics must not break the share page
+    }
+  }
+
   sendIndex(indexFilePath: string, res: FastifyReply) {
     const stream = fs.createReadStream(indexFilePath);
     res.type('text/html').send(stream);
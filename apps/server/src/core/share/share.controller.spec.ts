@@ -0,0 +1,76 @@
+import { FastifyRequest } from 'fastify';
+import { ShareController } from './share.controller';
+import { ShareService } from './share.service';
+import { ShareAnalyticsService } from './share-analytics.service';
+import { EnvironmentService } from '../../integrations/environment/environment.service';
+import { Workspace } from '@docmost/db/types/entity.types';
+
+jest.mock('./share.service', () => ({ ShareService: jest.fn() }));
+
+describe('ShareController', () => {
+  const workspace = { id: 'workspace-1' } as Workspace;
+  const req = {
+    headers: { 'user-agent': 'Mozilla/5.0', host: 'docs.example.com' },
+    cookies: {},
+  } as unknown as FastifyRequest;
+
+  let hasPassword: boolean;
+  let shareAnalyticsService: { recordView: jest.Mock };
+  let controller: ShareController;
+
+  beforeEach(() => {
+    hasPassword = false;
+    shareAnalyticsService = { recordView: jest.fn() };
+    const shareService = {
+      getSharedPage: jest.fn(async () => ({
+        page: { id: 'page-1' },
+        share: { id: 'share-1', hasPassword },
+      })),
+    };
+
+    controller = new ShareController(
+      shareService as unknown as ShareService,
+      null,
+      null,
+      null,
+      { isCloud: () => false } as unknown as EnvironmentService,
+      shareAnalyticsService as unknown as ShareAnalyticsService,
+    );
+  });
+
+  describe('getSharedPageInfo', () => {
+    it('leaves landing views of public shares to the share page route', async () => {
+      await controller.getSharedPageInfo(
+        { pageId: 'page-1', trackView: false, landingView: true },
+        req,
+        workspace,
+      );
+
+      expect(shareAnalyticsService.recordView).not.toHaveBeenCalled();
+    });
+
+    it('records landing views of password protected shares', async () => {
+      hasPassword = true;
+
+      await controller.getSharedPageInfo(
+        { pageId: 'page-1', trackView: false, landingView: true },
+        req,
+        workspace,
+      );
+
+      expect(shareAnalyticsService.recordView).toHaveBeenCalledWith(
+        expect.objectContaining({ shareId: 'share-1', pageId: 'page-1' }),
+      );
+    });
+
+    it('records pages opened later in the visit', async () => {
+      await controller.getSharedPageInfo(
+        { pageId: 'page-1', trackView: true },
+        req,
+        workspace,
+      );
+
+      expect(shareAnalyticsService.recordView).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -7,8 +7,11 @@ import {
   HttpStatus,
   NotFoundException,
   Post,
+  Req,
+  Res,
   UseGuards,
 } from '@nestjs/common';
+import { FastifyReply, FastifyRequest } from 'fastify';
 import { AuthUser } from '../../common/decorators/auth-user.decorator';
 import { User, Workspace } from '@docmost/db/types/entity.types';
 import {
@@ -23,6 +26,8 @@ import {
   ShareIdDto,
   ShareInfoDto,
   SharePageIdDto,
+  ShareViewsDto,
+  UnlockShareDto,
   UpdateShareDto,
 } from './dto/share.dto';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
@@ -32,6 +37,13 @@ import { ShareRepo } from '@docmost/db/repos/share/share.repo';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import { EnvironmentService } from '../../integrations/environment/environment.service';
 import { hasLicenseOrEE } from '../../common/helpers';
+import {
+  getReferrerHost,
+  getShareAccessCookieName,
+  isBotUserAgent,
+  SHARE_ACCESS_TOKEN_TTL,
+} from './share.util';
+import { ShareAnalyticsService } from './share-analytics.service';
 
 @UseGuards(JwtAuthGuard)
 @Controller('shares')
@@ -42,6 +54,7 @@ export class ShareController {
     private readonly shareRepo: ShareRepo,
     private readonly pageRepo: PageRepo,
     private readonly environmentService: EnvironmentService,
+    private readonly shareAnalyticsService: ShareAnalyticsService,
   ) {}
 
   @HttpCode(HttpStatus.OK)
@@ -58,14 +71,38 @@ export class ShareController {
   @Post('/page-info')
   async getSharedPageInfo(
     @Body() dto: ShareInfoDto,
+    @Req() req: FastifyRequest,
     @AuthWorkspace() workspace: Workspace,
   ) {
     if (!dto.pageId && !dto.shareId) {
       throw new BadRequestException();
     }
 
+    const sharedPage = await this.shareService.getSharedPage(
+      dto,
+      workspace.id,
+      req.cookies,
+    );
+
+    // the share page route does not record views of password protected shares
+    const trackView =
+      dto.trackView || (dto.landingView && sharedPage.share.hasPassword);
+
+    if (
+      trackView &&
+      'page' in sharedPage &&
+      !isBotUserAgent(req.headers['user-agent'])
+    ) {
+      this.shareAnalyticsService.recordView({
+        shareId: sharedPage.share.id,
+        pageId: sharedPage.page.id,
+        workspaceId: workspace.id,
+        referrer: getReferrerHost(req.headers.referer, req.headers.host),
+      });
+    }
+
     return {
-      ...(await this.shareService.getSharedPage(dto, workspace.id)),
+      ...sharedPage,
       hasLicenseKey: hasLicenseOrEE({
         licenseKey: workspace.licenseKey,
         isCloud: this.environmentService.isCloud(),
@@ -76,17 +113,44 @@ export class ShareController {
 
   @Public()
   @HttpCode(HttpStatus.OK)
-  @Post('/info')
-  async getShare(@Body() dto: ShareIdDto) {
-    const share = await this.shareRepo.findById(dto.shareId, {
-      includeSharedPage: true,
-    });
+  @Post('/unlock')
+  async unlockShare(
+    @Body() dto: UnlockShareDto,
+    @Req() req: FastifyRequest,
+    @Res({ passthrough: true }) res: FastifyReply,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const { share, accessToken } = await this.shareService.unlockShare(
+      dto,
+      workspace.id,
+      req.ip,
+    );
 
-    if (!share) {
-      throw new NotFoundException('Share not found');
+    if (accessToken) {
+      res.setCookie(getShareAccessCookieName(share.id), accessToken, {
+        httpOnly: true,
+        path: '/',
+        maxAge: SHARE_ACCESS_TOKEN_TTL,
+        secure: this.environmentService.isHttps(),
+        sameSite: 'lax',
+      });
     }
+  }
 
-    return share;
+  @Public()
+  @HttpCode(HttpStatus.OK)
+  @Post('/info')
+  async getShare(
+    @Body() dto: ShareIdDto,
+    @Req() req: FastifyRequest,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.shareService.getAccessibleShare(
+      dto.shareId,
+      workspace.id,
+      req.cookies,
+      { includeSharedPage: true },
+    );
   }
 
   @HttpCode(HttpStatus.OK)
@@ -101,7 +165,7 @@ export class ShareController {
       throw new NotFoundException('Shared page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Share)) {
       throw new ForbiddenException();
     }
@@ -109,6 +173,29 @@ export class ShareController {
     return this.shareService.getShareForPage(page.id, workspace.id);
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('/views')
+  async getShareViews(@Body() dto: ShareViewsDto, @AuthUser() user: User) {
+    const share = await this.shareRepo.findById(dto.shareId);
+
+    if (!share || share.workspaceId !== user.workspaceId) {
+      throw new NotFoundException('Share not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: share.pageId,
+      spaceId: share.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Share)) {
+      throw new ForbiddenException();
+    }
+
+    return this.shareAnalyticsService.getShareViews(share.id, {
+      days: dto.days ?? 30,
+      pageId: dto.pageId,
+    });
+  }
+
   @HttpCode(HttpStatus.OK)
   @Post('create')
   async create(
@@ -122,7 +209,7 @@ export class ShareController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Share)) {
       throw new ForbiddenException();
     }
@@ -144,12 +231,15 @@ export class ShareController {
       throw new NotFoundException('Share not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, share.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: share.pageId,
+      spaceId: share.spaceId,
+    });
     if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Share)) {
       throw new ForbiddenException();
     }
 
-    return this.shareService.updateShare(share.id, updateShareDto);
+    return this.shareService.updateShare(share, updateShareDto, user.id);
   }
 
   @HttpCode(HttpStatus.OK)
@@ -161,12 +251,15 @@ export class ShareController {
       throw new NotFoundException('Share not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, share.spaceId);
-    if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Share)) {
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: share.pageId,
+      spaceId: share.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Delete, SpaceCaslSubject.Share)) {
       throw new ForbiddenException();
     }
 
-    await this.shareRepo.deleteShare(share.id);
+    await this.shareService.deleteShare(share, user.id);
   }
 
   @Public()
@@ -174,10 +267,15 @@ export class ShareController {
   @Post('/tree')
   async getSharePageTree(
     @Body() dto: ShareIdDto,
+    @Req() req: FastifyRequest,
     @AuthWorkspace() workspace: Workspace,
   ) {
     return {
-      ...(await this.shareService.getShareTree(dto.shareId, workspace.id)),
+      ...(await this.shareService.getShareTree(
+        dto.shareId,
+        workspace.id,
+        req.cookies,
+      )),
       hasLicenseKey: hasLicenseOrEE({
         licenseKey: workspace.licenseKey,
         isCloud: this.environmentService.isCloud(),
@@ -3,11 +3,12 @@ import { ShareController } from './share.controller';
 import { ShareService } from './share.service';
 import { TokenModule } from '../auth/token.module';
 import { ShareSeoController } from './share-seo.controller';
+import { ShareAnalyticsService } from './share-analytics.service';
 
 @Module({
   imports: [TokenModule],
   controllers: [ShareController, ShareSeoController],
-  providers: [ShareService],
+  providers: [ShareService, ShareAnalyticsService],
   exports: [ShareService],
 })
 export class ShareModule {}
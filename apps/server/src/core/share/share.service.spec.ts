@@ -0,0 +1,225 @@
+import {
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
+  NotFoundException,
+} from '@nestjs/common';
+import { RedisService } from '@nestjs-labs/nestjs-ioredis';
+import { ShareService } from './share.service';
+import { ShareRepo } from '@docmost/db/repos/share/share.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { TokenService } from '../auth/services/token.service';
+import { comparePasswordHash } from '../../common/helpers';
+import { SHARE_UNLOCK_ATTEMPTS_PER_IP } from './share.util';
+
+jest.mock('../../collaboration/collaboration.util', () => ({}));
+jest.mock('../../common/helpers', () => ({
+  ...jest.requireActual('../../common/helpers'),
+  comparePasswordHash: jest.fn(),
+}));
+
+describe('ShareService', () => {
+  const workspaceId = 'workspace-1';
+  const share = {
+    id: 'share-1',
+    workspaceId,
+    passwordHash: 'hash',
+    expiresAt: null,
+  };
+
+  let shareRepo: { findById: jest.Mock };
+  let pageRepo: { findById: jest.Mock; getPageAndDescendants: jest.Mock };
+  let spaceRepo: { findById: jest.Mock };
+  let tokenService: {
+    generateShareAccessToken: jest.Mock;
+    verifyJwt: jest.Mock;
+  };
+  let redis: { mget: jest.Mock; multi: jest.Mock };
+  let transaction: { set: jest.Mock; incr: jest.Mock; exec: jest.Mock };
+  let service: ShareService;
+
+  afterEach(() => jest.clearAllMocks());
+
+  beforeEach(() => {
+    shareRepo = { findById: jest.fn().mockResolvedValue({ ...share }) };
+    pageRepo = { findById: jest.fn(), getPageAndDescendants: jest.fn() };
+    spaceRepo = { findById: jest.fn() };
+    tokenService = {
+      generateShareAccessToken: jest.fn().mockResolvedValue('token'),
+      verifyJwt: jest.fn(),
+    };
+    transaction = {
+      set: jest.fn().mockReturnThis(),
+      incr: jest.fn().mockReturnThis(),
+      exec: jest.fn().mockResolvedValue([]),
+    };
+    redis = {
+      mget: jest.fn().mockResolvedValue([null, null]),
+      multi: jest.fn().mockReturnValue(transaction),
+    };
+
+    service = new ShareService(
+      shareRepo as unknown as ShareRepo,
+      pageRepo as unknown as PageRepo,
+      spaceRepo as unknown as SpaceRepo,
+      null,
+      tokenService as unknown as TokenService,
+      null,
+      { getOrThrow: () => redis } as unknown as RedisService,
+    );
+  });
+
+  describe('unlockShare', () => {
+    const dto = { shareId: share.id, password: 'secret' };
+
+    it('hands out an access token for the correct password', async () => {
+      (comparePasswordHash as jest.Mock).mockResolvedValue(true);
+
+      const result = await service.unlockShare(dto, workspaceId, '10.0.0.1');
+
+      expect(result.accessToken).toBe('token');
+      expect(transaction.exec).not.toHaveBeenCalled();
+    });
+
+    it('counts failed attempts per share and per ip', async () => {
+      (comparePasswordHash as jest.Mock).mockResolvedValue(false);
+
+      await expect(
+        service.unlockShare(dto, workspaceId, '10.0.0.1'),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+
+      expect(transaction.incr).toHaveBeenCalledWith(
+        'share-unlock:share:share-1',
+      );
+      expect(transaction.incr).toHaveBeenCalledWith('share-unlock:ip:10.0.0.1');
+    });
+
+    it('rejects attempts once the limit is reached', async () => {
+      (comparePasswordHash as jest.Mock).mockResolvedValue(true);
+      redis.mget.mockResolvedValue(['1', String(SHARE_UNLOCK_ATTEMPTS_PER_IP)]);
+
+      const error = await service
+        .unlockShare(dto, workspaceId, '10.0.0.1')
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(HttpException);
+      expect(error.getStatus()).toBe(HttpStatus.TOO_MANY_REQUESTS);
+      expect(comparePasswordHash).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAccessibleShare', () => {
+    it('rejects shares of other workspaces', async () => {
+      await expect(
+        service.getAccessibleShare(share.id, 'workspace-2'),
+      ).rejects.toThrow('Share not found');
+    });
+
+    it('requires the access cookie for password protected shares', async () => {
+      await expect(
+        service.getAccessibleShare(share.id, workspaceId, {}),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    });
+
+    it('returns the share without its password hash once unlocked', async () => {
+      tokenService.verifyJwt.mockResolvedValue({
+        shareId: share.id,
+        workspaceId,
+      });
+
+      const result = await service.getAccessibleShare(
+        share.id,
+        workspaceId,
+        { [`shareAccess_${share.id}`]: 'token' },
+        { includeSharedPage: true },
+      );
+
+      expect(result).not.toHaveProperty('passwordHash');
+      expect(result.hasPassword).toBe(true);
+      expect(shareRepo.findById).toHaveBeenCalledWith(share.id, {
+        includePasswordHash: true,
+        includeSharedPage: true,
+      });
+    });
+  });
+
+  describe('getSharedPage', () => {
+    const draft = { type: 'doc', content: [{ type: 'paragraph' }] };
+    const approved = { type: 'doc', content: [] };
+
+    beforeEach(() => {
+      jest
+        .spyOn(service, 'getShareForPage')
+        .mockResolvedValue({ ...share, passwordHash: null } as any);
+      jest
+        .spyOn(service, 'updatePublicAttachments')
+        .mockImplementation(async (page) => page.content);
+      spaceRepo.findById.mockResolvedValue({ reviewWorkflow: true });
+    });
+
+    it('serves the approved version in review workflow spaces', async () => {
+      pageRepo.findById.mockResolvedValue({
+        content: draft,
+        publishedContent: approved,
+        publishedAt: new Date(),
+      });
+
+      const { page } = await service.getSharedPage(
+        { pageId: 'page-1' },
+        workspaceId,
+      );
+
+      expect(page.content).toBe(approved);
+      expect(page).not.toHaveProperty('publishedContent');
+    });
+
+    it('hides pages that were never approved', async () => {
+      pageRepo.findById.mockResolvedValue({
+        title: 'Draft title',
+        content: draft,
+        publishedContent: null,
+        publishedAt: null,
+      });
+
+      await expect(
+        service.getSharedPage({ pageId: 'page-1' }, workspaceId),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+
+  describe('getShareTree', () => {
+    const publishedAt = new Date();
+
+    beforeEach(() => {
+      jest.spyOn(service, 'getAccessibleShare').mockResolvedValue({
+        ...share,
+        pageId: 'root',
+        spaceId: 'space-1',
+        includeSubPages: true,
+      } as any);
+      pageRepo.getPageAndDescendants.mockResolvedValue([
+        { id: 'root', parentPageId: null, publishedAt },
+        { id: 'draft', parentPageId: 'root', publishedAt: null },
+        { id: 'under-draft', parentPageId: 'draft', publishedAt },
+        { id: 'approved', parentPageId: 'root', publishedAt },
+      ]);
+    });
+
+    it('leaves unapproved pages and their children out in review spaces', async () => {
+      spaceRepo.findById.mockResolvedValue({ reviewWorkflow: true });
+
+      const { pageTree } = await service.getShareTree(share.id, workspaceId);
+
+      expect(pageTree.map((page) => page.id)).toEqual(['root', 'approved']);
+    });
+
+    it('lists every page in other spaces', async () => {
+      spaceRepo.findById.mockResolvedValue({ reviewWorkflow: false });
+
+      const { pageTree } = await service.getShareTree(share.id, workspaceId);
+
+      expect(pageTree).toHaveLength(4);
+    });
+  });
+});
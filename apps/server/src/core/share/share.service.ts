@@ -1,14 +1,27 @@
 import {
   BadRequestException,
+  ForbiddenException,
+  HttpException,
+  HttpStatus,
   Injectable,
   Logger,
   NotFoundException,
 } from '@nestjs/common';
-import { CreateShareDto, ShareInfoDto, UpdateShareDto } from './dto/share.dto';
+import {
+  CreateShareDto,
+  ShareInfoDto,
+  UnlockShareDto,
+  UpdateShareDto,
+} from './dto/share.dto';
 import { InjectKysely } from 'nestjs-kysely';
 import { KyselyDB } from '@docmost/db/types/kysely.types';
-import { nanoIdGen } from '../../common/helpers';
+import {
+  comparePasswordHash,
+  hashPassword,
+  nanoIdGen,
+} from '../../common/helpers';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 import { TokenService } from '../auth/services/token.service';
 import { jsonToNode } from '../../collaboration/collaboration.util';
 import {
@@ -19,10 +32,24 @@ import {
 } from '../../common/helpers/prosemirror/utils';
 import { Node } from '@tiptap/pm/model';
 import { ShareRepo } from '@docmost/db/repos/share/share.repo';
-import { updateAttachmentAttr } from './share.util';
-import { Page } from '@docmost/db/types/entity.types';
+import {
+  getShareAccessCookieName,
+  isShareExpired,
+  removeAttachmentAttr,
+  SHARE_ACCESS_TOKEN_TTL,
+  SHARE_UNLOCK_ATTEMPTS_PER_IP,
+  SHARE_UNLOCK_ATTEMPTS_PER_SHARE,
+  SHARE_UNLOCK_ATTEMPTS_WINDOW,
+  updateAttachmentAttr,
+  withoutUnapprovedPages,
+} from './share.util';
+import { Page, Share, UpdatableShare } from '@docmost/db/types/entity.types';
+import { JwtShareAccessPayload, JwtType } from '../auth/dto/jwt-payload';
 import { validate as isValidUUID } from 'uuid';
 import { sql } from 'kysely';
+import { AuditLogService } from '../audit-log/audit-log.service';
+import { AuditAction, AuditResource } from '../audit-log/audit-log.constants';
+import { RedisService } from '@nestjs-labs/nestjs-ioredis';
 
 @Injectable()
 export class ShareService {
@@ -31,21 +58,30 @@ export class ShareService {
   constructor(
     private readonly shareRepo: ShareRepo,
     private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
     @InjectKysely() private readonly db: KyselyDB,
     private readonly tokenService: TokenService,
+    private readonly auditLogService: AuditLogService,
+    private readonly redisService: RedisService,
   ) {}
 
-  async getShareTree(shareId: string, workspaceId: string) {
-    const share = await this.shareRepo.findById(shareId);
-    if (!share || share.workspaceId !== workspaceId) {
-      throw new NotFoundException('Share not found');
-    }
+  async getShareTree(
+    shareId: string,
+    workspaceId: string,
+    cookies?: Record<string, string>,
+  ) {
+    const share = await this.getAccessibleShare(shareId, workspaceId, cookies);
 
     if (share.includeSubPages) {
-      const pageList = await this.pageRepo.getPageAndDescendants(share.pageId, {
+      let pageList = await this.pageRepo.getPageAndDescendants(share.pageId, {
         includeContent: false,
       });
 
+      const space = await this.spaceRepo.findById(share.spaceId, workspaceId);
+      if (space?.reviewWorkflow) {
+        pageList = withoutUnapprovedPages(pageList);
+      }
+
       return { share, pageTree: pageList };
     } else {
       return { share, pageTree: [] };
@@ -66,45 +102,257 @@ export class ShareService {
         return shares;
       }
 
-      return await this.shareRepo.insertShare({
+      const share = await this.shareRepo.insertShare({
         key: nanoIdGen().toLowerCase(),
         pageId: page.id,
         includeSubPages: createShareDto.includeSubPages || true,
         searchIndexing: createShareDto.searchIndexing || true,
+        ...(await this.toAccessSettings(createShareDto)),
         creatorId: authUserId,
         spaceId: page.spaceId,
         workspaceId,
       });
+
+      await this.auditShare(AuditAction.SHARE_CREATED, share, authUserId);
+
+      return share;
     } catch (err) {
       this.logger.error(err);
       throw new BadRequestException('Failed to share page');
     }
   }
 
-  async updateShare(shareId: string, updateShareDto: UpdateShareDto) {
+  async updateShare(
+    share: Share,
+    updateShareDto: UpdateShareDto,
+    authUserId: string,
+  ) {
+    const accessSettings = await this.toAccessSettings(updateShareDto);
+
+    let updatedShare: Share;
     try {
-      return this.shareRepo.updateShare(
+      updatedShare = await this.shareRepo.updateShare(
         {
           includeSubPages: updateShareDto.includeSubPages,
           searchIndexing: updateShareDto.searchIndexing,
+          ...accessSettings,
         },
-        shareId,
+        share.id,
       );
     } catch (err) {
       this.logger.error(err);
       throw new BadRequestException('Failed to update share');
     }
+
+    await this.auditShare(AuditAction.SHARE_UPDATED, updatedShare, authUserId);
+
+    return updatedShare;
+  }
+
+  async deleteShare(share: Share, authUserId: string): Promise<void> {
+    await this.shareRepo.deleteShare(share.id);
+    await this.auditShare(AuditAction.SHARE_DELETED, share, authUserId);
+  }
+
+  private async auditShare(action: AuditAction, share: Share, actorId: string) {
+    await this.auditLogService.log({
+      workspaceId: share.workspaceId,
+      actorId,
+      action,
+      resourceType: AuditResource.SHARE,
+      resourceId: share.id,
+      spaceId: share.spaceId,
+      metadata: {
+        pageId: share.pageId,
+        key: share.key,
+        includeSubPages: share.includeSubPages,
+        searchIndexing: share.searchIndexing,
+        expiresAt: share.expiresAt ?? null,
+        disableDownload: share.disableDownload,
+      },
+    });
+  }
+
+  /*
+   * Maps the password and expiry settings of a share dto to columns.
+   * Undefined values are left untouched, null values clear the setting.
+   */
+  private async toAccessSettings(
+    dto: CreateShareDto,
+  ): Promise<
+    Pick<UpdatableShare, 'passwordHash' | 'expiresAt' | 'disableDownload'>
+  > {
+    let expiresAt: Date | null | undefined = undefined;
+    if (dto.expiresAt !== undefined) {
+      expiresAt = dto.expiresAt ? new Date(dto.expiresAt) : null;
+      if (expiresAt && expiresAt <= new Date()) {
+        throw new BadRequestException('Expiry date must be in the future');
+      }
+    }
+
+    let passwordHash: string | null | undefined = undefined;
+    if (dto.password !== undefined) {
+      passwordHash = dto.password ? await hashPassword(dto.password) : null;
+    }
+
+    return {
+      passwordHash,
+      expiresAt,
+      disableDownload: dto.disableDownload,
+    };
   }
 
-  async getSharedPage(dto: ShareInfoDto, workspaceId: string) {
+  async unlockShare(dto: UnlockShareDto, workspaceId: string, ip: string) {
+    const share = await this.shareRepo.findById(dto.shareId, {
+      includePasswordHash: true,
+    });
+
+    if (!share || share.workspaceId !== workspaceId || isShareExpired(share)) {
+      throw new NotFoundException('Share not found');
+    }
+
+    if (!share.passwordHash) {
+      // nothing to unlock
+      return { share, accessToken: null };
+    }
+
+    const attemptKeys = [
+      `share-unlock:share:${share.id}`,
+      `share-unlock:ip:${ip}`,
+    ];
+    await this.checkUnlockAttempts(attemptKeys);
+
+    const isPasswordMatch = await comparePasswordHash(
+      dto.password,
+      share.passwordHash,
+    );
+    if (!isPasswordMatch) {
+      await this.recordFailedUnlockAttempt(attemptKeys);
+      throw new ForbiddenException('Incorrect password');
+    }
+
+    const accessToken = await this.tokenService.generateShareAccessToken(
+      share.id,
+      workspaceId,
+      SHARE_ACCESS_TOKEN_TTL,
+    );
+
+    return { share, accessToken };
+  }
+
+  /*
+   * Failed unlock attempts are counted per share and per client ip,
+   * so a share password cannot be guessed from one or many addresses.
+   */
+  private async checkUnlockAttempts([shareKey, ipKey]: string[]) {
+    const [shareAttempts, ipAttempts] = await this.redisService
+      .getOrThrow()
+      .mget(shareKey, ipKey);
+
+    if (
+      Number(shareAttempts) >= SHARE_UNLOCK_ATTEMPTS_PER_SHARE ||
+      Number(ipAttempts) >= SHARE_UNLOCK_ATTEMPTS_PER_IP
+    ) {
+      throw new HttpException(
+        'Too many unlock attempts. Try again later.',
+        HttpStatus.TOO_MANY_REQUESTS,
+      );
+    }
+  }
+
+  private async recordFailedUnlockAttempt(keys: string[]) {
+    const transaction = this.redisService.getOrThrow().multi();
+    for (const key of keys) {
+      // the window starts with the first failed attempt
+      transaction
+        .set(key, 0, 'EX', SHARE_UNLOCK_ATTEMPTS_WINDOW, 'NX')
+        .incr(key);
+    }
+    await transaction.exec();
+  }
+
+  /*
+   * Password-protected shares can only be viewed with the access token
+   * handed out by unlockShare, which the client keeps in a cookie.
+   */
+  async canAccessShare(
+    share: { id: string; workspaceId: string; hasPassword: boolean },
+    cookies?: Record<string, string>,
+  ): Promise<boolean> {
+    if (!share.hasPassword) {
+      return true;
+    }
+
+    const accessToken = cookies?.[getShareAccessCookieName(share.id)];
+    if (!accessToken) {
+      return false;
+    }
+
+    try {
+      const payload: JwtShareAccessPayload = await this.tokenService.verifyJwt(
+        accessToken,
+        JwtType.SHARE_ACCESS,
+      );
+      return (
+        payload.shareId === share.id &&
+        payload.workspaceId === share.workspaceId
+      );
+    } catch (err) {
+      return false;
+    }
+  }
+
+  async getAccessibleShare(
+    shareId: string,
+    workspaceId: string,
+    cookies?: Record<string, string>,
+    opts?: { includeSharedPage?: boolean },
+  ) {
+    const share = await this.shareRepo.findById(shareId, {
+      includePasswordHash: true,
+      includeSharedPage: opts?.includeSharedPage,
+    });
+    if (!share || share.workspaceId !== workspaceId || isShareExpired(share)) {
+      throw new NotFoundException('Share not found');
+    }
+
+    const { passwordHash, ...shareInfo } = share;
+    const accessibleShare = { ...shareInfo, hasPassword: !!passwordHash };
+
+    if (!(await this.canAccessShare(accessibleShare, cookies))) {
+      throw new ForbiddenException('Share password required');
+    }
+
+    return accessibleShare;
+  }
+
+  async getSharedPage(
+    dto: ShareInfoDto,
+    workspaceId: string,
+    cookies?: Record<string, string>,
+  ) {
     const share = await this.getShareForPage(dto.pageId, workspaceId);
 
-    if (!share) {
+    if (!share || isShareExpired(share)) {
       throw new NotFoundException('Shared page not found');
     }
 
+    if (!(await this.canAccessShare(share, cookies))) {
+      // only reveal what the unlock page needs
+      return {
+        share: {
+          id: share.id,
+          key: share.key,
+          hasPassword: share.hasPassword,
+          searchIndexing: share.searchIndexing,
+        },
+        passwordRequired: true,
+      };
+    }
+
     const page = await this.pageRepo.findById(dto.pageId, {
       includeContent: true,
+      includePublishedContent: true,
       includeCreator: true,
     });
 
@@ -112,11 +360,35 @@ export class ShareService {
       throw new NotFoundException('Shared page not found');
     }
 
-    page.content = await this.updatePublicAttachments(page);
+    // shares of review workflow spaces serve the last approved version
+    const space = await this.spaceRepo.findById(page.spaceId, workspaceId);
+    if (space?.reviewWorkflow) {
+      if (!page.publishedAt) {
+        throw new NotFoundException('Shared page not found');
+      }
+      page.content = page.publishedContent;
+    }
+    delete page.publishedContent;
+
+    page.content = await this.updatePublicAttachments(page, share);
 
     return { page, share };
   }
 
+  /*
+   * Review workflow spaces keep pages off shares until a version is approved.
+   */
+  async isAwaitingApproval(
+    page: { publishedAt?: Date | null },
+    spaceId: string,
+    workspaceId: string,
+  ): Promise<boolean> {
+    if (page.publishedAt) return false;
+
+    const space = await this.spaceRepo.findById(spaceId, workspaceId);
+    return Boolean(space?.reviewWorkflow);
+  }
+
   async getShareForPage(pageId: string, workspaceId: string) {
     // here we try to check if a page was shared directly or if it inherits the share from its closest shared ancestor
     const share = await this.db
@@ -128,6 +400,7 @@ export class ShareService {
             'slugId',
             'pages.title',
             'pages.icon',
+            'pages.publishedAt',
             'parentPageId',
             sql`0`.as('level'),
           ])
@@ -141,6 +414,7 @@ export class ShareService {
                 'p.slugId',
                 'p.title',
                 'p.icon',
+                'p.publishedAt',
                 'p.parentPageId',
                 // Increase the level by 1 for each ancestor.
                 sql`ph.level + 1`.as('level'),
@@ -156,12 +430,16 @@ export class ShareService {
         'page_hierarchy.slugId as sharedPageSlugId',
         'page_hierarchy.title as sharedPageTitle',
         'page_hierarchy.icon as sharedPageIcon',
+        'page_hierarchy.publishedAt as sharedPagePublishedAt',
         'page_hierarchy.level as level',
         'shares.id',
         'shares.key',
         'shares.pageId',
         'shares.includeSubPages',
         'shares.searchIndexing',
+        'shares.passwordHash',
+        'shares.expiresAt',
+        'shares.disableDownload',
         'shares.creatorId',
         'shares.spaceId',
         'shares.workspaceId',
@@ -186,6 +464,9 @@ export class ShareService {
       key: share.key,
       includeSubPages: share.includeSubPages,
       searchIndexing: share.searchIndexing,
+      hasPassword: !!share.passwordHash,
+      expiresAt: share.expiresAt,
+      disableDownload: share.disableDownload,
       pageId: share.pageId,
       creatorId: share.creatorId,
       spaceId: share.spaceId,
@@ -197,6 +478,7 @@ export class ShareService {
         slugId: share.sharedPageSlugId,
         title: share.sharedPageTitle,
         icon: share.sharedPageIcon,
+        publishedAt: share.sharedPagePublishedAt,
       },
     };
   }
@@ -262,7 +544,10 @@ export class ShareService {
     return ancestor;
   }
 
-  async updatePublicAttachments(page: Page): Promise<any> {
+  async updatePublicAttachments(
+    page: Page,
+    share: { id: string; disableDownload: boolean },
+  ): Promise<any> {
     const prosemirrorJson = getProsemirrorContent(page.content);
     const attachmentIds = getAttachmentIds(prosemirrorJson);
     const attachmentMap = new Map<string, string>();
@@ -273,6 +558,7 @@ export class ShareService {
           attachmentId,
           pageId: page.id,
           workspaceId: page.workspaceId,
+          shareId: share.id,
         });
         attachmentMap.set(attachmentId, token);
       }),
@@ -282,6 +568,11 @@ export class ShareService {
 
     doc?.descendants((node: Node) => {
       if (!isAttachmentNode(node.type.name)) return;
+      // file attachments lose their link when downloads are disabled
+      if (share.disableDownload && node.type.name === 'attachment') {
+        removeAttachmentAttr(node, 'url');
+        return;
+      }
 
       const attachmentId = node.attrs.attachmentId;
       const token = attachmentMap.get(attachmentId);
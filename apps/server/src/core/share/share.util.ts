@@ -15,8 +15,75 @@ export function updateAttachmentAttr(
   }
 }
 
+export function removeAttachmentAttr(node: Node, attr: 'src' | 'url') {
+  // @ts-ignore
+  node.attrs[attr] = null;
+}
+
 function updateAttachmentUrl(src: string, jwtToken: string) {
   const updatedSrc = src.replace('/files/', '/files/public/');
   const separator = updatedSrc.includes('?') ? '&' : '?';
   return `${updatedSrc}${separator}jwt=${jwtToken}`;
 }
+
+// in seconds
+export const SHARE_ACCESS_TOKEN_TTL = 12 * 60 * 60;
+
+// failed password attempts allowed within the window (in seconds)
+export const SHARE_UNLOCK_ATTEMPTS_WINDOW = 15 * 60;
+export const SHARE_UNLOCK_ATTEMPTS_PER_SHARE = 50;
+export const SHARE_UNLOCK_ATTEMPTS_PER_IP = 10;
+
+export function getShareAccessCookieName(shareId: string) {
+  return `shareAccess_${shareId}`;
+}
+
+export function isShareExpired(share: { expiresAt?: Date | null }) {
+  return Boolean(share.expiresAt) && new Date(share.expiresAt) <= new Date();
+}
+
+const BOT_USER_AGENT_REGEX =
+  /bot|crawl|spider|slurp|preview|facebookexternalhit|embedly|headless/i;
+
+export function isBotUserAgent(userAgent?: string) {
+  return !userAgent || BOT_USER_AGENT_REGEX.test(userAgent);
+}
+
+/*
+ * Reduces a referrer url to its hostname so no paths or query strings are kept.
+ * Referrers from the app itself are treated as direct visits.
+ */
+export function getReferrerHost(referrer?: string, appHost?: string): string {
+  if (!referrer) return '';
+
+  try {
+    const hostname = new URL(referrer).hostname.toLowerCase();
+    const appHostname = appHost?.split(':')[0].toLowerCase();
+    return hostname === appHostname ? '' : hostname.slice(0, 255);
+  } catch (err) {
+    return '';
+  }
+}
+
+/*
+ * Drops pages of review workflow spaces that were never approved,
+ * together with everything below them.
+ */
+export function withoutUnapprovedPages<
+  T extends {
+    id: string;
+    parentPageId: string | null;
+    publishedAt: Date | null;
+  },
+>(pages: T[]): T[] {
+  const pagesById = new Map(pages.map((page) => [page.id, page]));
+
+  const isApproved = (page: T): boolean => {
+    for (let p = page; p; p = pagesById.get(p.parentPageId)) {
+      if (!p.publishedAt) return false;
+    }
+    return true;
+  };
+
+  return pages.filter(isApproved);
+}
@@ -1,13 +1,20 @@
-import { ArrayMaxSize, IsArray, IsEnum, IsUUID } from 'class-validator';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsNotEmpty,
+  IsString,
+  IsUUID,
+} from 'class-validator';
 import { SpaceIdDto } from './space-id.dto';
-import { SpaceRole } from '../../../common/helpers/types/permission';
 
 export class AddSpaceMembersDto extends SpaceIdDto {
   // @IsOptional()
   // @IsUUID()
   // userId: string;
 
-  @IsEnum(SpaceRole)
+  // a built-in space role or the id of a custom space role
+  @IsString()
+  @IsNotEmpty()
   role: string;
 
   @IsArray()
@@ -1,11 +1,13 @@
 import {
   IsAlphanumeric,
+  IsIn,
   IsOptional,
   IsString,
   MaxLength,
   MinLength,
 } from 'class-validator';
 import {Transform, TransformFnParams} from "class-transformer";
+import { SpaceVisibility } from '../../../common/helpers/types/permission';
 
 export class CreateSpaceDto {
   @MinLength(2)
@@ -22,4 +24,13 @@ export class CreateSpaceDto {
   @MaxLength(50)
   @IsAlphanumeric()
   slug: string;
+
+  @IsOptional()
+  @IsIn(Object.values(SpaceVisibility))
+  visibility?: SpaceVisibility;
+
+  // role granted to members who join an open space
+  @IsOptional()
+  @IsString()
+  defaultRole?: string;
 }
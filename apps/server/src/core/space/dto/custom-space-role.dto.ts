@@ -0,0 +1,58 @@
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+  ValidateNested,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform, TransformFnParams, Type } from 'class-transformer';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+
+export class SpaceRolePermissionDto {
+  @IsEnum(SpaceCaslAction)
+  action: SpaceCaslAction;
+
+  @IsEnum(SpaceCaslSubject)
+  subject: SpaceCaslSubject;
+}
+
+export class CreateCustomSpaceRoleDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  @Transform(({ value }: TransformFnParams) => value?.trim())
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(250)
+  description?: string;
+
+  @IsArray()
+  @ArrayMaxSize(25)
+  @ValidateNested({ each: true })
+  @Type(() => SpaceRolePermissionDto)
+  permissions: SpaceRolePermissionDto[];
+}
+
+export class UpdateCustomSpaceRoleDto extends PartialType(
+  CreateCustomSpaceRoleDto,
+) {
+  @IsNotEmpty()
+  @IsUUID()
+  roleId: string;
+}
+
+export class CustomSpaceRoleIdDto {
+  @IsNotEmpty()
+  @IsUUID()
+  roleId: string;
+}
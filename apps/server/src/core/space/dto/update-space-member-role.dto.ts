@@ -1,6 +1,5 @@
-import { IsEnum, IsNotEmpty, IsOptional, IsUUID } from 'class-validator';
+import { IsNotEmpty, IsOptional, IsString, IsUUID } from 'class-validator';
 import { SpaceIdDto } from './space-id.dto';
-import { SpaceRole } from '../../../common/helpers/types/permission';
 
 export class UpdateSpaceMemberRoleDto extends SpaceIdDto {
   @IsOptional()
@@ -13,6 +12,8 @@ export class UpdateSpaceMemberRoleDto extends SpaceIdDto {
   @IsUUID()
   groupId: string;
 
-  @IsEnum(SpaceRole)
+  // a built-in space role or the id of a custom space role
+  @IsString()
+  @IsNotEmpty()
   role: string;
 }
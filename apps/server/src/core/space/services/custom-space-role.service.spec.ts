@@ -0,0 +1,125 @@
+import { BadRequestException } from '@nestjs/common';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import { CustomSpaceRoleService } from './custom-space-role.service';
+import { CustomSpaceRoleRepo } from '@docmost/db/repos/space/custom-space-role.repo';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import { SpaceRole } from '../../../common/helpers/types/permission';
+
+describe('CustomSpaceRoleService', () => {
+  const workspaceId = 'workspace-1';
+  const editorRole = '0190f1a0-0000-7000-8000-000000000001';
+  const settingsRole = '0190f1a0-0000-7000-8000-000000000002';
+
+  const customRoles = {
+    [editorRole]: [
+      { action: SpaceCaslAction.Edit, subject: SpaceCaslSubject.Page },
+    ],
+    [settingsRole]: [
+      { action: SpaceCaslAction.Read, subject: SpaceCaslSubject.Page },
+      { action: SpaceCaslAction.Edit, subject: SpaceCaslSubject.Settings },
+    ],
+  };
+
+  let defaultSpaceCount: number;
+  let customSpaceRoleRepo: {
+    findByIds: jest.Mock;
+    findById: jest.Mock;
+    updateCustomSpaceRole: jest.Mock;
+    deleteCustomSpaceRole: jest.Mock;
+  };
+  let service: CustomSpaceRoleService;
+
+  beforeEach(() => {
+    defaultSpaceCount = 0;
+    customSpaceRoleRepo = {
+      findByIds: jest.fn(async (ids: string[]) =>
+        ids.map((id) => ({ id, permissions: customRoles[id] })),
+      ),
+      findById: jest.fn(async (id: string) =>
+        customRoles[id]
+          ? { id, name: 'Editor', memberCount: 0, defaultSpaceCount }
+          : undefined,
+      ),
+      updateCustomSpaceRole: jest.fn(),
+      deleteCustomSpaceRole: jest.fn(),
+    };
+
+    service = new CustomSpaceRoleService(
+      customSpaceRoleRepo as unknown as CustomSpaceRoleRepo,
+      new SpaceAbilityFactory(
+        {} as SpaceMemberRepo,
+        {} as PagePermissionRepo,
+        customSpaceRoleRepo as unknown as CustomSpaceRoleRepo,
+      ),
+    );
+  });
+
+  describe('validateDefaultRole', () => {
+    it.each([SpaceRole.WRITER, SpaceRole.READER, editorRole])(
+      'accepts %s',
+      async (role) => {
+        await expect(
+          service.validateDefaultRole(role, workspaceId),
+        ).resolves.toBeUndefined();
+      },
+    );
+
+    it.each([SpaceRole.ADMIN, settingsRole])('rejects %s', async (role) => {
+      await expect(
+        service.validateDefaultRole(role, workspaceId),
+      ).rejects.toBeInstanceOf(BadRequestException);
+    });
+  });
+
+  describe('roles used as a space default role', () => {
+    const settingsPermissions = customRoles[settingsRole];
+
+    beforeEach(() => {
+      defaultSpaceCount = 1;
+    });
+
+    it('cannot be given management permissions', async () => {
+      await expect(
+        service.updateCustomSpaceRole(
+          { roleId: editorRole, permissions: settingsPermissions },
+          workspaceId,
+        ),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(customSpaceRoleRepo.updateCustomSpaceRole).not.toHaveBeenCalled();
+    });
+
+    it('can still be renamed', async () => {
+      await service.updateCustomSpaceRole(
+        { roleId: editorRole, description: 'Edits pages' },
+        workspaceId,
+      );
+
+      expect(customSpaceRoleRepo.updateCustomSpaceRole).toHaveBeenCalled();
+    });
+
+    it('cannot be deleted', async () => {
+      await expect(
+        service.deleteCustomSpaceRole(editorRole, workspaceId),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(customSpaceRoleRepo.deleteCustomSpaceRole).not.toHaveBeenCalled();
+    });
+  });
+
+  it('lets roles that are not a default role manage spaces', async () => {
+    await service.updateCustomSpaceRole(
+      { roleId: editorRole, permissions: customRoles[settingsRole] },
+      workspaceId,
+    );
+
+    expect(customSpaceRoleRepo.updateCustomSpaceRole).toHaveBeenCalledWith(
+      { permissions: JSON.stringify(customRoles[settingsRole]) },
+      editorRole,
+      workspaceId,
+    );
+  });
+});
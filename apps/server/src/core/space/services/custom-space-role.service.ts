@@ -0,0 +1,191 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { CustomSpaceRoleRepo } from '@docmost/db/repos/space/custom-space-role.repo';
+import { CustomSpaceRole, User } from '@docmost/db/types/entity.types';
+import { isBuiltInSpaceRole } from '@docmost/db/repos/space/utils';
+import { SpaceRole } from '../../../common/helpers/types/permission';
+import SpaceAbilityFactory from '../../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../casl/interfaces/space-ability.type';
+import {
+  CreateCustomSpaceRoleDto,
+  SpaceRolePermissionDto,
+  UpdateCustomSpaceRoleDto,
+} from '../dto/custom-space-role.dto';
+
+@Injectable()
+export class CustomSpaceRoleService {
+  constructor(
+    private customSpaceRoleRepo: CustomSpaceRoleRepo,
+    private spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  async getCustomSpaceRoles(workspaceId: string) {
+    return this.customSpaceRoleRepo.getCustomSpaceRoles(workspaceId);
+  }
+
+  async createCustomSpaceRole(
+    dto: CreateCustomSpaceRoleDto,
+    authUser: User,
+    workspaceId: string,
+  ): Promise<CustomSpaceRole> {
+    await this.validateRoleName(dto.name, workspaceId);
+
+    return this.customSpaceRoleRepo.insertCustomSpaceRole({
+      name: dto.name,
+      description: dto.description,
+      permissions: JSON.stringify(this.normalizePermissions(dto.permissions)),
+      creatorId: authUser.id,
+      workspaceId,
+    });
+  }
+
+  async updateCustomSpaceRole(
+    dto: UpdateCustomSpaceRoleDto,
+    workspaceId: string,
+  ): Promise<CustomSpaceRole> {
+    const role = await this.customSpaceRoleRepo.findById(
+      dto.roleId,
+      workspaceId,
+      { includeDefaultSpaceCount: true },
+    );
+    if (!role) {
+      throw new NotFoundException('Space role not found');
+    }
+
+    if (dto.name && dto.name.toLowerCase() !== role.name.toLowerCase()) {
+      await this.validateRoleName(dto.name, workspaceId);
+    }
+
+    const permissions = dto.permissions
+      ? this.normalizePermissions(dto.permissions)
+      : undefined;
+
+    if (
+      permissions &&
+      Number(role.defaultSpaceCount) > 0 &&
+      managesSpace(permissions)
+    ) {
+      throw new BadRequestException(
+        'This role is the default role of a space and cannot manage space settings or members',
+      );
+    }
+
+    return this.customSpaceRoleRepo.updateCustomSpaceRole(
+      {
+        name: dto.name,
+        description: dto.description,
+        permissions: permissions ? JSON.stringify(permissions) : undefined,
+      },
+      role.id,
+      workspaceId,
+    );
+  }
+
+  async deleteCustomSpaceRole(
+    roleId: string,
+    workspaceId: string,
+  ): Promise<void> {
+    const role = await this.customSpaceRoleRepo.findById(roleId, workspaceId, {
+      includeMemberCount: true,
+      includeDefaultSpaceCount: true,
+    });
+    if (!role) {
+      throw new NotFoundException('Space role not found');
+    }
+
+    if (Number(role.memberCount) > 0) {
+      throw new BadRequestException(
+        'This role is assigned to space members and cannot be deleted',
+      );
+    }
+
+    if (Number(role.defaultSpaceCount) > 0) {
+      throw new BadRequestException(
+        'This role is the default role of a space and cannot be deleted',
+      );
+    }
+
+    await this.customSpaceRoleRepo.deleteCustomSpaceRole(roleId, workspaceId);
+  }
+
+  /*
+   * Space member roles are either built-in or
+   * the id of a custom role in the same workspace.
+   */
+  async validateSpaceRole(role: string, workspaceId: string): Promise<void> {
+    if (isBuiltInSpaceRole(role)) {
+      return;
+    }
+
+    const customRole = isUUID(role)
+      ? await this.customSpaceRoleRepo.findById(role, workspaceId)
+      : null;
+    if (!customRole) {
+      throw new BadRequestException('Invalid space role');
+    }
+  }
+
+  /*
+   * Anyone in the workspace can join an open space with its default role,
+   * so it must never allow managing the space or its members.
+   */
+  async validateDefaultRole(role: string, workspaceId: string): Promise<void> {
+    if (role === SpaceRole.ADMIN) {
+      throw new BadRequestException('The default space role cannot be admin');
+    }
+
+    await this.validateSpaceRole(role, workspaceId);
+
+    const roleAbility = await this.spaceAbility.createForRole(role);
+    if (managesSpace(roleAbility.rules)) {
+      throw new BadRequestException(
+        'The default space role cannot manage space settings or members',
+      );
+    }
+  }
+
+  private async validateRoleName(name: string, workspaceId: string) {
+    if (isBuiltInSpaceRole(name.toLowerCase())) {
+      throw new BadRequestException(`"${name}" is a reserved role name`);
+    }
+
+    const existingRole = await this.customSpaceRoleRepo.findByName(
+      name,
+      workspaceId,
+    );
+    if (existingRole) {
+      throw new BadRequestException(`A role named "${name}" already exists`);
+    }
+  }
+
+  private normalizePermissions(permissions: SpaceRolePermissionDto[]) {
+    const seen = new Set<string>();
+    return permissions
+      .filter((permission) => {
+        const key = `${permission.action}:${permission.subject}`;
+        if (seen.has(key)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      })
+      .map(({ action, subject }) => ({ action, subject }));
+  }
+}
+
+// whether any permission goes beyond reading the space settings or members
+function managesSpace(rules: { action: unknown; subject: unknown }[]): boolean {
+  return rules.some(
+    (rule) =>
+      (rule.subject === SpaceCaslSubject.Settings ||
+        rule.subject === SpaceCaslSubject.Member) &&
+      rule.action !== SpaceCaslAction.Read,
+  );
+}
@@ -0,0 +1,71 @@
+import { BadRequestException } from '@nestjs/common';
+import { SpaceMemberService } from './space-member.service';
+import { CustomSpaceRoleService } from './custom-space-role.service';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { AuditLogService } from '../../audit-log/audit-log.service';
+import { User } from '@docmost/db/types/entity.types';
+import { SpaceVisibility } from '../../../common/helpers/types/permission';
+
+describe('SpaceMemberService', () => {
+  const workspaceId = 'workspace-1';
+  const user = { id: 'user-1' } as User;
+  const space = {
+    id: 'space-1',
+    name: 'Open space',
+    visibility: SpaceVisibility.OPEN,
+    defaultRole: '0190f1a0-0000-7000-8000-000000000001',
+  };
+
+  let spaceMemberRepo: {
+    getUserSpaceRoles: jest.Mock;
+    insertSpaceMember: jest.Mock;
+  };
+  let customSpaceRoleService: { validateDefaultRole: jest.Mock };
+  let service: SpaceMemberService;
+
+  beforeEach(() => {
+    spaceMemberRepo = {
+      getUserSpaceRoles: jest.fn().mockResolvedValue(undefined),
+      insertSpaceMember: jest.fn(),
+    };
+    customSpaceRoleService = {
+      validateDefaultRole: jest.fn().mockResolvedValue(undefined),
+    };
+
+    service = new SpaceMemberService(
+      spaceMemberRepo as unknown as SpaceMemberRepo,
+      { findById: jest.fn().mockResolvedValue(space) } as unknown as SpaceRepo,
+      customSpaceRoleService as unknown as CustomSpaceRoleService,
+      { log: jest.fn() } as unknown as AuditLogService,
+      null,
+    );
+  });
+
+  describe('joinSpace', () => {
+    it('adds the user with the default role', async () => {
+      await service.joinSpace(space.id, user, workspaceId);
+
+      expect(customSpaceRoleService.validateDefaultRole).toHaveBeenCalledWith(
+        space.defaultRole,
+        workspaceId,
+      );
+      expect(spaceMemberRepo.insertSpaceMember).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: user.id, role: space.defaultRole }),
+      );
+    });
+
+    it('refuses default roles that can manage the space', async () => {
+      customSpaceRoleService.validateDefaultRole.mockRejectedValue(
+        new BadRequestException(
+          'The default space role cannot manage space settings or members',
+        ),
+      );
+
+      await expect(
+        service.joinSpace(space.id, user, workspaceId),
+      ).rejects.toBeInstanceOf(BadRequestException);
+      expect(spaceMemberRepo.insertSpaceMember).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -12,14 +12,25 @@ import { Space, SpaceMember, User } from '@docmost/db/types/entity.types';
 import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 import { RemoveSpaceMemberDto } from '../dto/remove-space-member.dto';
 import { UpdateSpaceMemberRoleDto } from '../dto/update-space-member-role.dto';
-import { SpaceRole } from '../../../common/helpers/types/permission';
+import {
+  SpaceRole,
+  SpaceVisibility,
+} from '../../../common/helpers/types/permission';
 import { PaginationResult } from '@docmost/db/pagination/pagination';
+import { CustomSpaceRoleService } from './custom-space-role.service';
+import { AuditLogService } from '../../audit-log/audit-log.service';
+import {
+  AuditAction,
+  AuditResource,
+} from '../../audit-log/audit-log.constants';
 
 @Injectable()
 export class SpaceMemberService {
   constructor(
     private spaceMemberRepo: SpaceMemberRepo,
     private spaceRepo: SpaceRepo,
+    private customSpaceRoleService: CustomSpaceRoleService,
+    private auditLogService: AuditLogService,
     @InjectKysely() private readonly db: KyselyDB,
   ) {}
 
@@ -94,6 +105,8 @@ export class SpaceMemberService {
       throw new NotFoundException('Space not found');
     }
 
+    await this.customSpaceRoleService.validateSpaceRole(dto.role, workspaceId);
+
     // make sure we have valid workspace users
     const validUsersQuery = this.db
       .selectFrom('users')
@@ -164,10 +177,81 @@ export class SpaceMemberService {
     } else {
       // either they are already members or do not exist on the workspace
     }
+
+    const addedMembers = [
+      ...validUsers.map((user) => ({ ...user, type: AuditResource.USER })),
+      ...validGroups.map((group) => ({ ...group, type: AuditResource.GROUP })),
+    ];
+    for (const member of addedMembers) {
+      await this.auditLogService.log({
+        workspaceId,
+        actorId: authUser.id,
+        action: AuditAction.SPACE_MEMBER_ADDED,
+        resourceType: member.type,
+        resourceId: member.id,
+        spaceId: space.id,
+        metadata: { name: member.name, spaceName: space.name, role: dto.role },
+      });
+    }
+  }
+
+  /*
+   * Open spaces can be joined by any workspace member,
+   * who is added with the space's default role.
+   */
+  async joinSpace(
+    spaceId: string,
+    authUser: User,
+    workspaceId: string,
+  ): Promise<Space> {
+    const space = await this.spaceRepo.findById(spaceId, workspaceId);
+    // private spaces are not discoverable
+    if (!space || space.visibility !== SpaceVisibility.OPEN) {
+      throw new NotFoundException('Space not found');
+    }
+
+    const userSpaceRoles = await this.spaceMemberRepo.getUserSpaceRoles(
+      authUser.id,
+      space.id,
+    );
+    if (userSpaceRoles) {
+      throw new BadRequestException('You are already a member of this space');
+    }
+
+    // the default role is checked again in case the role gained permissions since
+    await this.customSpaceRoleService.validateDefaultRole(
+      space.defaultRole,
+      workspaceId,
+    );
+
+    await this.spaceMemberRepo.insertSpaceMember({
+      userId: authUser.id,
+      spaceId: space.id,
+      role: space.defaultRole,
+      addedById: authUser.id,
+    });
+
+    await this.auditLogService.log({
+      workspaceId,
+      actorId: authUser.id,
+      action: AuditAction.SPACE_MEMBER_ADDED,
+      resourceType: AuditResource.USER,
+      resourceId: authUser.id,
+      spaceId: space.id,
+      metadata: {
+        name: authUser.name,
+        spaceName: space.name,
+        role: space.defaultRole,
+        joined: true,
+      },
+    });
+
+    return space;
   }
 
   async removeMemberFromSpace(
     dto: RemoveSpaceMemberDto,
+    authUser: User,
     workspaceId: string,
   ): Promise<void> {
     const space = await this.spaceRepo.findById(dto.spaceId, workspaceId);
@@ -209,10 +293,20 @@ export class SpaceMemberService {
       spaceMember.id,
       dto.spaceId,
     );
+
+    await this.auditLogService.log({
+      workspaceId,
+      actorId: authUser.id,
+      action: AuditAction.SPACE_MEMBER_REMOVED,
+      ...this.memberResource(spaceMember),
+      spaceId: space.id,
+      metadata: { spaceName: space.name, role: spaceMember.role },
+    });
   }
 
   async updateSpaceMemberRole(
     dto: UpdateSpaceMemberRoleDto,
+    authUser: User,
     workspaceId: string,
   ): Promise<void> {
     const space = await this.spaceRepo.findById(dto.spaceId, workspaceId);
@@ -250,6 +344,8 @@ export class SpaceMemberService {
       return;
     }
 
+    await this.customSpaceRoleService.validateSpaceRole(dto.role, workspaceId);
+
     if (spaceMember.role === SpaceRole.ADMIN) {
       await this.validateLastAdmin(dto.spaceId);
     }
@@ -259,6 +355,25 @@ export class SpaceMemberService {
       spaceMember.id,
       dto.spaceId,
     );
+
+    await this.auditLogService.log({
+      workspaceId,
+      actorId: authUser.id,
+      action: AuditAction.SPACE_MEMBER_ROLE_CHANGED,
+      ...this.memberResource(spaceMember),
+      spaceId: space.id,
+      metadata: {
+        spaceName: space.name,
+        oldRole: spaceMember.role,
+        newRole: dto.role,
+      },
+    });
+  }
+
+  private memberResource(spaceMember: SpaceMember) {
+    return spaceMember.userId
+      ? { resourceType: AuditResource.USER, resourceId: spaceMember.userId }
+      : { resourceType: AuditResource.GROUP, resourceId: spaceMember.groupId };
   }
 
   async validateLastAdmin(spaceId: string): Promise<void> {
@@ -1,5 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SpaceService } from './space.service';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventName } from '../../../common/events/event.contants';
 
 describe('SpaceService', () => {
   let service: SpaceService;
@@ -16,3 +20,72 @@ describe('SpaceService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('SpaceService events', () => {
+  const workspaceId = 'workspace-1';
+  const space = { id: 'space-1', workspaceId, reviewWorkflow: false };
+
+  let committed: boolean;
+  let emittedWhileOpen: boolean[];
+  let spaceRepo: {
+    findById: jest.Mock;
+    updateSpace: jest.Mock;
+    slugExists: jest.Mock;
+  };
+  let eventEmitter: { emit: jest.Mock };
+  let service: SpaceService;
+
+  beforeEach(() => {
+    committed = false;
+    emittedWhileOpen = [];
+    spaceRepo = {
+      findById: jest.fn().mockResolvedValue(space),
+      updateSpace: jest.fn().mockResolvedValue(space),
+      slugExists: jest.fn().mockResolvedValue(false),
+    };
+    eventEmitter = {
+      emit: jest.fn(() => emittedWhileOpen.push(!committed)),
+    };
+    const db = {
+      transaction: () => ({
+        execute: async (callback: (trx: unknown) => Promise<unknown>) => {
+          const result = await callback({});
+          committed = true;
+          return result;
+        },
+      }),
+    };
+
+    service = new SpaceService(
+      spaceRepo as unknown as SpaceRepo,
+      null,
+      null,
+      null,
+      db as unknown as KyselyDB,
+      null,
+      eventEmitter as unknown as EventEmitter2,
+    );
+  });
+
+  it('emits space updates after the commit', async () => {
+    await service.updateSpace(
+      { spaceId: space.id, name: 'Renamed' },
+      workspaceId,
+    );
+
+    expect(eventEmitter.emit).toHaveBeenCalledWith(EventName.SPACE_UPDATED, {
+      spaceId: space.id,
+      workspaceId,
+    });
+    expect(emittedWhileOpen).toEqual([false]);
+  });
+
+  it('does not emit when the update fails', async () => {
+    spaceRepo.updateSpace.mockRejectedValue(new Error('failed'));
+
+    await expect(
+      service.updateSpace({ spaceId: space.id, name: 'Renamed' }, workspaceId),
+    ).rejects.toThrow('failed');
+    expect(eventEmitter.emit).not.toHaveBeenCalled();
+  });
+});
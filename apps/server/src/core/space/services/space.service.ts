@@ -6,6 +6,7 @@ import {
 import { CreateSpaceDto } from '../dto/create-space.dto';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
 import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
 import { Space, User } from '@docmost/db/types/entity.types';
 import { PaginationResult } from '@docmost/db/pagination/pagination';
@@ -13,18 +14,27 @@ import { UpdateSpaceDto } from '../dto/update-space.dto';
 import { executeTx } from '@docmost/db/utils';
 import { InjectKysely } from 'nestjs-kysely';
 import { SpaceMemberService } from './space-member.service';
-import { SpaceRole } from '../../../common/helpers/types/permission';
+import {
+  SpaceRole,
+  SpaceVisibility,
+} from '../../../common/helpers/types/permission';
 import { QueueJob, QueueName } from 'src/integrations/queue/constants';
 import { Queue } from 'bullmq';
 import { InjectQueue } from '@nestjs/bullmq';
+import { CustomSpaceRoleService } from './custom-space-role.service';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventName } from '../../../common/events/event.contants';
 
 @Injectable()
 export class SpaceService {
   constructor(
     private spaceRepo: SpaceRepo,
+    private pageRepo: PageRepo,
     private spaceMemberService: SpaceMemberService,
+    private customSpaceRoleService: CustomSpaceRoleService,
     @InjectKysely() private readonly db: KyselyDB,
     @InjectQueue(QueueName.ATTACHMENT_QUEUE) private attachmentQueue: Queue,
+    private eventEmitter: EventEmitter2,
   ) {}
 
   async createSpace(
@@ -56,6 +66,11 @@ export class SpaceService {
       trx,
     );
 
+    this.eventEmitter.emit(EventName.SPACE_CREATED, {
+      spaceId: space.id,
+      workspaceId,
+    });
+
     return { ...space, memberCount: 1 };
   }
 
@@ -76,6 +91,13 @@ export class SpaceService {
       );
     }
 
+    if (createSpaceDto.defaultRole) {
+      await this.customSpaceRoleService.validateDefaultRole(
+        createSpaceDto.defaultRole,
+        workspaceId,
+      );
+    }
+
     return await this.spaceRepo.insertSpace(
       {
         name: createSpaceDto.name ?? 'untitled space',
@@ -83,6 +105,8 @@ export class SpaceService {
         creatorId: userId,
         workspaceId: workspaceId,
         slug: createSpaceDto.slug,
+        visibility: createSpaceDto.visibility ?? SpaceVisibility.PRIVATE,
+        defaultRole: createSpaceDto.defaultRole,
       },
       trx,
     );
@@ -105,15 +129,49 @@ export class SpaceService {
       }
     }
 
-    return await this.spaceRepo.updateSpace(
-      {
-        name: updateSpaceDto.name,
-        description: updateSpaceDto.description,
-        slug: updateSpaceDto.slug,
-      },
+    if (updateSpaceDto.defaultRole) {
+      await this.customSpaceRoleService.validateDefaultRole(
+        updateSpaceDto.defaultRole,
+        workspaceId,
+      );
+    }
+
+    const space = await this.spaceRepo.findById(
       updateSpaceDto.spaceId,
       workspaceId,
     );
+    if (!space) {
+      throw new NotFoundException('Space not found');
+    }
+
+    const updatedSpace = await executeTx(this.db, async (trx) => {
+      // readers keep seeing what they saw before the workflow was enabled
+      if (updateSpaceDto.reviewWorkflow && !space.reviewWorkflow) {
+        await this.pageRepo.publishSpacePages(space.id, trx);
+      }
+
+      return this.spaceRepo.updateSpace(
+        {
+          name: updateSpaceDto.name,
+          description: updateSpaceDto.description,
+          slug: updateSpaceDto.slug,
+          visibility: updateSpaceDto.visibility,
+          defaultRole: updateSpaceDto.defaultRole,
+          reviewWorkflow: updateSpaceDto.reviewWorkflow,
+        },
+        space.id,
+        workspaceId,
+        trx,
+      );
+    });
+
+    // emitted after the commit so listeners see the new space settings
+    this.eventEmitter.emit(EventName.SPACE_UPDATED, {
+      spaceId: space.id,
+      workspaceId,
+    });
+
+    return updatedSpace;
   }
 
   async getSpaceInfo(spaceId: string, workspaceId: string): Promise<Space> {
@@ -129,10 +187,12 @@ export class SpaceService {
 
   async getWorkspaceSpaces(
     workspaceId: string,
+    userId: string,
     pagination: PaginationOptions,
   ): Promise<PaginationResult<Space>> {
     const spaces = await this.spaceRepo.getSpacesInWorkspace(
       workspaceId,
+      userId,
       pagination,
     );
 
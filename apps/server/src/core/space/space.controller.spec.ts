@@ -1,6 +1,19 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SpaceController } from './space.controller';
 import { SpaceService } from './services/space.service';
+import { ForbiddenException } from '@nestjs/common';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { CustomSpaceRoleRepo } from '@docmost/db/repos/space/custom-space-role.repo';
+import { CustomSpaceRoleService } from './services/custom-space-role.service';
+import { SpaceMemberService } from './services/space-member.service';
+import WorkspaceAbilityFactory from '../casl/abilities/workspace-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { SpaceRole } from '../../common/helpers/types/permission';
 
 describe('SpaceController', () => {
   let controller: SpaceController;
@@ -18,3 +31,124 @@ describe('SpaceController', () => {
     expect(controller).toBeDefined();
   });
 });
+
+describe('SpaceController role grants', () => {
+  const workspaceId = 'workspace-1';
+  const memberManagerRole = '0190f1a0-0000-7000-8000-000000000001';
+  const settingsRole = '0190f1a0-0000-7000-8000-000000000002';
+
+  let spaceMemberRepo: Record<string, jest.Mock>;
+  let spaceAbility: SpaceAbilityFactory;
+  let controller: SpaceController;
+
+  const customRoles = {
+    [memberManagerRole]: [
+      [SpaceCaslAction.Read, SpaceCaslSubject.Settings],
+      [SpaceCaslAction.Manage, SpaceCaslSubject.Member],
+      [SpaceCaslAction.Read, SpaceCaslSubject.Page],
+      [SpaceCaslAction.Read, SpaceCaslSubject.Share],
+      [SpaceCaslAction.Read, SpaceCaslSubject.Comment],
+    ],
+    [settingsRole]: [
+      [SpaceCaslAction.Manage, SpaceCaslSubject.Settings],
+      [SpaceCaslAction.Read, SpaceCaslSubject.Page],
+    ],
+  };
+
+  const abilityOf = (role: string) => spaceAbility.createForRole(role);
+
+  beforeEach(() => {
+    spaceMemberRepo = {
+      getUserSpaceRoles: jest.fn(),
+      getSpaceMemberByTypeId: jest.fn(),
+    };
+    const customSpaceRoleRepo = {
+      findByIds: jest.fn(async (ids: string[]) =>
+        ids
+          .filter((id) => customRoles[id])
+          .map((id) => ({
+            id,
+            permissions: customRoles[id].map(([action, subject]) => ({
+              action,
+              subject,
+            })),
+          })),
+      ),
+      findById: jest.fn(async (id: string) =>
+        customRoles[id] ? { id } : undefined,
+      ),
+    };
+
+    spaceAbility = new SpaceAbilityFactory(
+      spaceMemberRepo as unknown as SpaceMemberRepo,
+      {} as PagePermissionRepo,
+      customSpaceRoleRepo as unknown as CustomSpaceRoleRepo,
+    );
+    controller = new SpaceController(
+      {} as SpaceService,
+      {} as SpaceMemberService,
+      new CustomSpaceRoleService(
+        customSpaceRoleRepo as unknown as CustomSpaceRoleRepo,
+        spaceAbility,
+      ),
+      spaceMemberRepo as unknown as SpaceMemberRepo,
+      spaceAbility,
+      {} as WorkspaceAbilityFactory,
+    );
+  });
+
+  it('lets space admins grant any role', async () => {
+    const ability = await abilityOf(SpaceRole.ADMIN);
+
+    await expect(
+      controller.validateRoleGrant(settingsRole, ability, workspaceId),
+    ).resolves.toBeUndefined();
+  });
+
+  it('lets member managers grant roles within their permissions', async () => {
+    const ability = await abilityOf(memberManagerRole);
+
+    await expect(
+      controller.validateRoleGrant(SpaceRole.READER, ability, workspaceId),
+    ).resolves.toBeUndefined();
+  });
+
+  it.each([SpaceRole.ADMIN, SpaceRole.WRITER, settingsRole])(
+    'does not let member managers grant %s',
+    async (role) => {
+      const ability = await abilityOf(memberManagerRole);
+
+      await expect(
+        controller.validateRoleGrant(role, ability, workspaceId),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+    },
+  );
+
+  it('does not let member managers change space admins', async () => {
+    const ability = await abilityOf(memberManagerRole);
+    spaceMemberRepo.getSpaceMemberByTypeId.mockResolvedValue({
+      role: SpaceRole.ADMIN,
+    });
+
+    await expect(
+      controller.validateMemberChange(
+        { spaceId: 'space-1', userId: 'admin' } as any,
+        ability,
+      ),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+  });
+
+  it('lets member managers change members within their permissions', async () => {
+    const ability = await abilityOf(memberManagerRole);
+    spaceMemberRepo.getSpaceMemberByTypeId.mockResolvedValue({
+      role: SpaceRole.READER,
+    });
+
+    await expect(
+      controller.validateMemberChange(
+        { spaceId: 'space-1', userId: 'reader' } as any,
+        ability,
+      ),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -20,11 +20,15 @@ import { User, Workspace } from '@docmost/db/types/entity.types';
 import { AddSpaceMembersDto } from './dto/add-space-members.dto';
 import { RemoveSpaceMemberDto } from './dto/remove-space-member.dto';
 import { UpdateSpaceMemberRoleDto } from './dto/update-space-member-role.dto';
-import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import SpaceAbilityFactory, {
+  isAbilityWithin,
+} from '../casl/abilities/space-ability.factory';
 import {
+  ISpaceAbility,
   SpaceCaslAction,
   SpaceCaslSubject,
 } from '../casl/interfaces/space-ability.type';
+import { MongoAbility } from '@casl/ability';
 import { UpdateSpaceDto } from './dto/update-space.dto';
 import { findHighestUserSpaceRole } from '@docmost/db/repos/space/utils';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
@@ -34,6 +38,12 @@ import {
 } from '../casl/interfaces/workspace-ability.type';
 import WorkspaceAbilityFactory from '../casl/abilities/workspace-ability.factory';
 import { CreateSpaceDto } from './dto/create-space.dto';
+import { CustomSpaceRoleService } from './services/custom-space-role.service';
+import {
+  CreateCustomSpaceRoleDto,
+  CustomSpaceRoleIdDto,
+  UpdateCustomSpaceRoleDto,
+} from './dto/custom-space-role.dto';
 
 @UseGuards(JwtAuthGuard)
 @Controller('spaces')
@@ -41,6 +51,7 @@ export class SpaceController {
   constructor(
     private readonly spaceService: SpaceService,
     private readonly spaceMemberService: SpaceMemberService,
+    private readonly customSpaceRoleService: CustomSpaceRoleService,
     private readonly spaceMemberRepo: SpaceMemberRepo,
     private readonly spaceAbility: SpaceAbilityFactory,
     private readonly workspaceAbility: WorkspaceAbilityFactory,
@@ -56,6 +67,35 @@ export class SpaceController {
     return this.spaceMemberService.getUserSpaces(user.id, pagination);
   }
 
+  @HttpCode(HttpStatus.OK)
+  @Post('directory')
+  async getSpaceDirectory(
+    @Body()
+    pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.spaceService.getWorkspaceSpaces(
+      workspace.id,
+      user.id,
+      pagination,
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('join')
+  async joinSpace(
+    @Body() spaceIdDto: SpaceIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.spaceMemberService.joinSpace(
+      spaceIdDto.spaceId,
+      user,
+      workspace.id,
+    );
+  }
+
   @HttpCode(HttpStatus.OK)
   @Post('info')
   async getSpaceInfo(
@@ -186,6 +226,7 @@ export class SpaceController {
     if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Member)) {
       throw new ForbiddenException();
     }
+    await this.validateRoleGrant(dto.role, ability, workspace.id);
 
     return this.spaceMemberService.addMembersToSpaceBatch(
       dto,
@@ -207,8 +248,13 @@ export class SpaceController {
     if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Member)) {
       throw new ForbiddenException();
     }
+    await this.validateMemberChange(dto, ability);
 
-    return this.spaceMemberService.removeMemberFromSpace(dto, workspace.id);
+    return this.spaceMemberService.removeMemberFromSpace(
+      dto,
+      user,
+      workspace.id,
+    );
   }
 
   @HttpCode(HttpStatus.OK)
@@ -224,8 +270,140 @@ export class SpaceController {
     if (ability.cannot(SpaceCaslAction.Manage, SpaceCaslSubject.Member)) {
       throw new ForbiddenException();
     }
+    await this.validateMemberChange(dto, ability);
+    await this.validateRoleGrant(dto.role, ability, workspace.id);
+
+    return this.spaceMemberService.updateSpaceMemberRole(
+      dto,
+      user,
+      workspace.id,
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('roles')
+  async getCustomSpaceRoles(
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (ability.cannot(WorkspaceCaslAction.Read, WorkspaceCaslSubject.Space)) {
+      throw new ForbiddenException();
+    }
+
+    return this.customSpaceRoleService.getCustomSpaceRoles(workspace.id);
+  }
 
-    return this.spaceMemberService.updateSpaceMemberRole(dto, workspace.id);
+  @HttpCode(HttpStatus.OK)
+  @Post('roles/create')
+  async createCustomSpaceRole(
+    @Body() dto: CreateCustomSpaceRoleDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Space)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.customSpaceRoleService.createCustomSpaceRole(
+      dto,
+      user,
+      workspace.id,
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('roles/update')
+  async updateCustomSpaceRole(
+    @Body() dto: UpdateCustomSpaceRoleDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Space)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.customSpaceRoleService.updateCustomSpaceRole(dto, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('roles/delete')
+  async deleteCustomSpaceRole(
+    @Body() dto: CustomSpaceRoleIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Space)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.customSpaceRoleService.deleteCustomSpaceRole(
+      dto.roleId,
+      workspace.id,
+    );
+  }
+
+  /*
+   * Custom roles can grant member management without full access.
+   * Such members may only hand out roles within their own permissions,
+   * space admins can grant any role.
+   */
+  async validateRoleGrant(
+    role: string,
+    ability: MongoAbility<ISpaceAbility>,
+    workspaceId: string,
+  ) {
+    if (ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)) {
+      return;
+    }
+
+    await this.customSpaceRoleService.validateSpaceRole(role, workspaceId);
+    const roleAbility = await this.spaceAbility.createForRole(role);
+    if (!isAbilityWithin(roleAbility, ability)) {
+      throw new ForbiddenException(
+        'You cannot grant a role with more permissions than your own',
+      );
+    }
+  }
+
+  /*
+   * Likewise, members with more permissions than the current user,
+   * such as space admins, can only be changed or removed by space admins.
+   */
+  async validateMemberChange(
+    dto: RemoveSpaceMemberDto | UpdateSpaceMemberRoleDto,
+    ability: MongoAbility<ISpaceAbility>,
+  ) {
+    if (ability.can(SpaceCaslAction.Manage, SpaceCaslSubject.Settings)) {
+      return;
+    }
+
+    const spaceMember = await this.spaceMemberRepo.getSpaceMemberByTypeId(
+      dto.spaceId,
+      dto.userId ? { userId: dto.userId } : { groupId: dto.groupId },
+    );
+    // unknown members are reported by the member service
+    if (!spaceMember) {
+      return;
+    }
+
+    const memberAbility = await this.spaceAbility.createForRole(
+      spaceMember.role,
+    );
+    if (!isAbilityWithin(memberAbility, ability)) {
+      throw new ForbiddenException(
+        'You cannot change members with more permissions than your own',
+      );
+    }
   }
 
   validateIds(dto: RemoveSpaceMemberDto | UpdateSpaceMemberRoleDto) {
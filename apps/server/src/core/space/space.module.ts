@@ -2,10 +2,11 @@ import { Module } from '@nestjs/common';
 import { SpaceService } from './services/space.service';
 import { SpaceController } from './space.controller';
 import { SpaceMemberService } from './services/space-member.service';
+import { CustomSpaceRoleService } from './services/custom-space-role.service';
 
 @Module({
   controllers: [SpaceController],
-  providers: [SpaceService, SpaceMemberService],
-  exports: [SpaceService, SpaceMemberService],
+  providers: [SpaceService, SpaceMemberService, CustomSpaceRoleService],
+  exports: [SpaceService, SpaceMemberService, CustomSpaceRoleService],
 })
 export class SpaceModule {}
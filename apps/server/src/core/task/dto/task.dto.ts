@@ -0,0 +1,27 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export class MyTasksDto {
+  @IsOptional()
+  @IsBoolean()
+  completed?: boolean;
+}
+
+export class ToggleTaskDto {
+  @IsUUID()
+  pageId: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(64)
+  taskId: string;
+
+  @IsBoolean()
+  completed: boolean;
+}
@@ -0,0 +1,67 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { User } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { isPageLockedForUser } from '../page/page-lock.util';
+import { TaskService } from './task.service';
+import { MyTasksDto, ToggleTaskDto } from './dto/task.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('tasks')
+export class TaskController {
+  constructor(
+    private readonly taskService: TaskService,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('my')
+  async getMyTasks(
+    @Body() dto: MyTasksDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+  ) {
+    return this.taskService.getAssignedTasks(
+      user.id,
+      dto.completed ?? false,
+      pagination,
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('toggle')
+  async toggleTask(@Body() dto: ToggleTaskDto, @AuthUser() user: User) {
+    const page = await this.pageRepo.findById(dto.pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (isPageLockedForUser(page, user.id, ability)) {
+      throw new ForbiddenException('Page is locked');
+    }
+
+    await this.taskService.toggleTask(page, dto.taskId, dto.completed, user);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TaskController } from './task.controller';
+import { TaskService } from './task.service';
+import { CollaborationModule } from '../../collaboration/collaboration.module';
+
+@Module({
+  imports: [CollaborationModule],
+  controllers: [TaskController],
+  providers: [TaskService],
+})
+export class TaskModule {}
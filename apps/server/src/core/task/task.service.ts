@@ -0,0 +1,55 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PageTaskRepo } from '@docmost/db/repos/page/page-task.repo';
+import { Page, User } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { CollaborationGateway } from '../../collaboration/collaboration.gateway';
+
+@Injectable()
+export class TaskService {
+  constructor(
+    private readonly pageTaskRepo: PageTaskRepo,
+    private readonly collaborationGateway: CollaborationGateway,
+  ) {}
+
+  async getAssignedTasks(
+    userId: string,
+    completed: boolean,
+    pagination: PaginationOptions,
+  ) {
+    return this.pageTaskRepo.getAssignedTasks(
+      userId,
+      { completed },
+      pagination,
+    );
+  }
+
+  /**
+   * Checks or unchecks a task item.
+   * The change goes through the collaboration server so open editors
+   * pick it up; the index is updated right away instead of waiting
+   * for the document to be stored.
+   */
+  async toggleTask(
+    page: Page,
+    taskId: string,
+    completed: boolean,
+    authUser: User,
+  ): Promise<void> {
+    const task = await this.pageTaskRepo.findByTaskId(page.id, taskId);
+    if (!task) {
+      throw new NotFoundException('Task not found');
+    }
+
+    const updated = await this.collaborationGateway.updateNodeAttributes(
+      `page.${page.id}`,
+      { type: 'taskItem', id: taskId },
+      { checked: completed },
+      { user: authUser },
+    );
+    if (!updated) {
+      throw new NotFoundException('Task not found');
+    }
+
+    await this.pageTaskRepo.updateTaskCompletion(page.id, taskId, completed);
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  IsIn,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+
+export enum TemplateScope {
+  SPACE = 'space',
+  WORKSPACE = 'workspace',
+}
+
+export class TemplateListDto {
+  @IsOptional()
+  @IsUUID()
+  spaceId?: string;
+}
+
+export class TemplateIdDto {
+  @IsUUID()
+  templateId: string;
+}
+
+export class TemplatePageIdDto {
+  @IsString()
+  @IsNotEmpty()
+  pageId: string;
+}
+
+export class CreateTemplateDto extends TemplatePageIdDto {
+  @IsOptional()
+  @IsIn(Object.values(TemplateScope))
+  scope?: TemplateScope;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UpdateTemplateDto extends TemplateIdDto {
+  @IsOptional()
+  @IsIn(Object.values(TemplateScope))
+  scope?: TemplateScope;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  description?: string;
+}
+
+export class UseTemplateDto extends TemplateIdDto {
+  @IsUUID()
+  spaceId: string;
+
+  @IsOptional()
+  @IsString()
+  parentPageId?: string;
+
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
+
+export class RenderTemplateDto extends TemplateIdDto {
+  @IsString()
+  @IsNotEmpty()
+  pageId: string;
+
+  @IsOptional()
+  @IsObject()
+  variables?: Record<string, string>;
+}
@@ -0,0 +1,138 @@
+import { ForbiddenException, NotFoundException } from '@nestjs/common';
+import { TemplateController } from './template.controller';
+import { TemplateService } from './template.service';
+import { TemplateRepo } from '@docmost/db/repos/template/template.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { TemplateScope } from './dto/template.dto';
+
+jest.mock('./template.service', () => ({ TemplateService: jest.fn() }));
+
+describe('TemplateController', () => {
+  const user = { id: 'user-1' } as User;
+  const workspace = { id: 'workspace-1' } as Workspace;
+  const template = {
+    id: 'template-1',
+    pageId: 'page-1',
+    spaceId: 'space-1',
+    scope: TemplateScope.WORKSPACE,
+  };
+
+  const parentPage = { id: 'parent-1', spaceId: 'space-2' };
+
+  let canRead: boolean;
+  let canCreateUnderParent: boolean;
+  let templateService: {
+    getTemplateInfo: jest.Mock;
+    createPageFromTemplate: jest.Mock;
+  };
+  let pageRepo: { findById: jest.Mock };
+  let spaceAbility: { createForPage: jest.Mock; createForUser: jest.Mock };
+  let controller: TemplateController;
+
+  beforeEach(() => {
+    canRead = true;
+    canCreateUnderParent = true;
+    templateService = {
+      getTemplateInfo: jest.fn(async (template) => template),
+      createPageFromTemplate: jest.fn().mockResolvedValue({ id: 'new-page' }),
+    };
+    pageRepo = { findById: jest.fn().mockResolvedValue(parentPage) };
+    spaceAbility = {
+      createForPage: jest.fn(async (_user, page) => ({
+        cannot: (action: SpaceCaslAction, subject: SpaceCaslSubject) =>
+          page.id === parentPage.id
+            ? !(canCreateUnderParent && action === SpaceCaslAction.Create)
+            : !(
+                canRead &&
+                action === SpaceCaslAction.Read &&
+                subject === SpaceCaslSubject.Page
+              ),
+      })),
+      createForUser: jest.fn(async () => ({ cannot: () => false })),
+    };
+
+    controller = new TemplateController(
+      templateService as unknown as TemplateService,
+      {
+        findById: jest.fn().mockResolvedValue(template),
+      } as unknown as TemplateRepo,
+      pageRepo as unknown as PageRepo,
+      spaceAbility as unknown as SpaceAbilityFactory,
+      null,
+    );
+  });
+
+  it('returns workspace templates the user can read', async () => {
+    await expect(
+      controller.getTemplate({ templateId: template.id }, user, workspace),
+    ).resolves.toEqual(template);
+    expect(spaceAbility.createForPage).toHaveBeenCalledWith(user, {
+      id: template.pageId,
+      spaceId: template.spaceId,
+    });
+  });
+
+  it('hides unpublished workspace templates whose page the user cannot read', async () => {
+    canRead = false;
+
+    await expect(
+      controller.getTemplate({ templateId: template.id }, user, workspace),
+    ).rejects.toBeInstanceOf(ForbiddenException);
+    expect(templateService.getTemplateInfo).not.toHaveBeenCalled();
+  });
+
+  it('lets everyone use published workspace templates', async () => {
+    const published = { ...template, publishedAt: new Date() };
+    controller = new TemplateController(
+      templateService as unknown as TemplateService,
+      {
+        findById: jest.fn().mockResolvedValue(published),
+      } as unknown as TemplateRepo,
+      pageRepo as unknown as PageRepo,
+      spaceAbility as unknown as SpaceAbilityFactory,
+      null,
+    );
+    canRead = false;
+
+    await expect(
+      controller.getTemplate({ templateId: template.id }, user, workspace),
+    ).resolves.toEqual(published);
+    expect(spaceAbility.createForPage).not.toHaveBeenCalled();
+  });
+
+  describe('useTemplate', () => {
+    const dto = {
+      templateId: template.id,
+      spaceId: parentPage.spaceId,
+      parentPageId: parentPage.id,
+    };
+
+    it('creates pages under parents the user can add to', async () => {
+      await expect(
+        controller.useTemplate(dto, user, workspace),
+      ).resolves.toEqual({ id: 'new-page' });
+      expect(spaceAbility.createForPage).toHaveBeenCalledWith(user, parentPage);
+    });
+
+    it('respects restrictions on the parent page', async () => {
+      canCreateUnderParent = false;
+
+      await expect(
+        controller.useTemplate(dto, user, workspace),
+      ).rejects.toBeInstanceOf(ForbiddenException);
+      expect(templateService.createPageFromTemplate).not.toHaveBeenCalled();
+    });
+
+    it('rejects parents from other spaces', async () => {
+      await expect(
+        controller.useTemplate({ ...dto, spaceId: 'space-3' }, user, workspace),
+      ).rejects.toBeInstanceOf(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { User, Workspace } from '@docmost/db/types/entity.types';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import WorkspaceAbilityFactory from '../casl/abilities/workspace-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import {
+  WorkspaceCaslAction,
+  WorkspaceCaslSubject,
+} from '../casl/interfaces/workspace-ability.type';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import {
+  TemplateRepo,
+  TemplateWithPage,
+} from '@docmost/db/repos/template/template.repo';
+import { TemplateService } from './template.service';
+import {
+  CreateTemplateDto,
+  RenderTemplateDto,
+  TemplateIdDto,
+  TemplateListDto,
+  TemplatePageIdDto,
+  TemplateScope,
+  UpdateTemplateDto,
+  UseTemplateDto,
+} from './dto/template.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('templates')
+export class TemplateController {
+  constructor(
+    private readonly templateService: TemplateService,
+    private readonly templateRepo: TemplateRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+    private readonly workspaceAbility: WorkspaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('/')
+  async getTemplates(
+    @Body() dto: TemplateListDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    return this.templateRepo.getTemplatesPaginated(
+      user.id,
+      workspace.id,
+      pagination,
+      { spaceId: dto.spaceId },
+    );
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('info')
+  async getTemplate(
+    @Body() dto: TemplateIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const template = await this.getReadableTemplate(
+      dto.templateId,
+      user,
+      workspace,
+    );
+
+    return this.templateService.getTemplateInfo(template);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('for-page')
+  async getTemplateForPage(
+    @Body() dto: TemplatePageIdDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.pageRepo.findById(dto.pageId);
+    if (!page) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.templateRepo.findByPageId(page.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('create')
+  async create(
+    @Body() dto: CreateTemplateDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const page = await this.pageRepo.findById(dto.pageId);
+    if (!page || page.workspaceId !== workspace.id) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (dto.scope === TemplateScope.WORKSPACE) {
+      this.validateCanManageWorkspaceTemplates(user, workspace);
+    }
+
+    return this.templateService.createTemplate(page, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('update')
+  async update(
+    @Body() dto: UpdateTemplateDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const template = await this.getEditableTemplate(
+      dto.templateId,
+      user,
+      workspace,
+    );
+
+    if (dto.scope === TemplateScope.WORKSPACE) {
+      this.validateCanManageWorkspaceTemplates(user, workspace);
+    }
+
+    return this.templateService.updateTemplate(template, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('delete')
+  async delete(
+    @Body() dto: TemplateIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const template = await this.getEditableTemplate(
+      dto.templateId,
+      user,
+      workspace,
+    );
+
+    await this.templateRepo.deleteTemplate(template.id, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('use')
+  async useTemplate(
+    @Body() dto: UseTemplateDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const template = await this.getReadableTemplate(
+      dto.templateId,
+      user,
+      workspace,
+    );
+
+    const ability = await this.spaceAbility.createForUser(user, dto.spaceId);
+    if (ability.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (dto.parentPageId) {
+      const parentPage = await this.pageRepo.findById(dto.parentPageId);
+      if (!parentPage || parentPage.spaceId !== dto.spaceId) {
+        throw new NotFoundException('Parent page not found');
+      }
+
+      const parentAbility = await this.spaceAbility.createForPage(
+        user,
+        parentPage,
+      );
+      if (parentAbility.cannot(SpaceCaslAction.Create, SpaceCaslSubject.Page)) {
+        throw new ForbiddenException();
+      }
+    }
+
+    return this.templateService.createPageFromTemplate(template, dto, user);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('render')
+  async renderTemplate(
+    @Body() dto: RenderTemplateDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const template = await this.getReadableTemplate(
+      dto.templateId,
+      user,
+      workspace,
+    );
+
+    const page = await this.pageRepo.findById(dto.pageId);
+    if (!page || page.workspaceId !== workspace.id) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return this.templateService.renderTemplate(
+      template,
+      page,
+      dto.variables,
+      user,
+    );
+  }
+
+  // published workspace templates are open to the whole workspace, other templates are read through their page
+  private async getReadableTemplate(
+    templateId: string,
+    user: User,
+    workspace: Workspace,
+  ): Promise<TemplateWithPage> {
+    const template = await this.templateRepo.findById(templateId, workspace.id);
+    if (!template) {
+      throw new NotFoundException('Template not found');
+    }
+
+    if (template.scope === TemplateScope.WORKSPACE && template.publishedAt) {
+      return template;
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: template.pageId,
+      spaceId: template.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return template;
+  }
+
+  private async getEditableTemplate(
+    templateId: string,
+    user: User,
+    workspace: Workspace,
+  ): Promise<TemplateWithPage> {
+    const template = await this.templateRepo.findById(templateId, workspace.id);
+    if (!template) {
+      throw new NotFoundException('Template not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, {
+      id: template.pageId,
+      spaceId: template.spaceId,
+    });
+    if (ability.cannot(SpaceCaslAction.Edit, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    if (template.scope === TemplateScope.WORKSPACE) {
+      this.validateCanManageWorkspaceTemplates(user, workspace);
+    }
+
+    return template;
+  }
+
+  private validateCanManageWorkspaceTemplates(
+    user: User,
+    workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TemplateController } from './template.controller';
+import { TemplateService } from './template.service';
+import { PageModule } from '../page/page.module';
+import { StorageModule } from '../../integrations/storage/storage.module';
+
+@Module({
+  imports: [PageModule, StorageModule],
+  controllers: [TemplateController],
+  providers: [TemplateService],
+  exports: [TemplateService],
+})
+export class TemplateModule {}
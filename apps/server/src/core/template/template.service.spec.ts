@@ -0,0 +1,100 @@
+import { TemplateService } from './template.service';
+import {
+  TemplateRepo,
+  TemplateWithPage,
+} from '@docmost/db/repos/template/template.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { Page, User } from '@docmost/db/types/entity.types';
+import { TemplateScope } from './dto/template.dto';
+
+jest.mock('../page/services/page.service', () => ({ PageService: jest.fn() }));
+jest.mock('../../common/helpers/prosemirror/html', () => ({}));
+
+describe('TemplateService', () => {
+  const user = { id: 'user-1' } as User;
+  const page = {
+    id: 'page-1',
+    title: 'Meeting {{topic}}',
+    icon: '📝',
+    content: { type: 'doc', content: [] },
+    workspaceId: 'workspace-1',
+  } as unknown as Page;
+  const template = {
+    id: 'template-1',
+    pageId: page.id,
+    workspaceId: page.workspaceId,
+    scope: TemplateScope.WORKSPACE,
+    publishedAt: new Date(),
+  } as TemplateWithPage;
+
+  let templateRepo: {
+    findById: jest.Mock;
+    findByPageId: jest.Mock;
+    findPublishedVersion: jest.Mock;
+    insertTemplate: jest.Mock;
+    updateTemplate: jest.Mock;
+  };
+  let pageRepo: { findById: jest.Mock };
+  let service: TemplateService;
+
+  beforeEach(() => {
+    templateRepo = {
+      findById: jest.fn(),
+      findByPageId: jest.fn().mockResolvedValue(undefined),
+      findPublishedVersion: jest.fn().mockResolvedValue({
+        publishedTitle: 'Standup {{team}}',
+        publishedContent: { type: 'doc', content: [] },
+      }),
+      insertTemplate: jest.fn().mockResolvedValue(template),
+      updateTemplate: jest.fn(),
+    };
+    pageRepo = { findById: jest.fn().mockResolvedValue(page) };
+
+    service = new TemplateService(
+      templateRepo as unknown as TemplateRepo,
+      pageRepo as unknown as PageRepo,
+      null,
+      null,
+      null,
+      null,
+    );
+  });
+
+  it('publishes a copy of workspace templates', async () => {
+    await service.createTemplate(
+      page,
+      { pageId: page.id, scope: TemplateScope.WORKSPACE },
+      user,
+    );
+
+    expect(templateRepo.insertTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({
+        publishedTitle: page.title,
+        publishedIcon: page.icon,
+        publishedContent: page.content,
+        publishedAt: expect.any(Date),
+      }),
+    );
+  });
+
+  it('drops the published copy when a template moves to space scope', async () => {
+    await service.updateTemplate(template, {
+      templateId: template.id,
+      scope: TemplateScope.SPACE,
+    });
+
+    expect(templateRepo.updateTemplate).toHaveBeenCalledWith(
+      expect.objectContaining({ publishedContent: null, publishedAt: null }),
+      template.id,
+      template.workspaceId,
+    );
+  });
+
+  it('reads the variables of workspace templates from the published copy', async () => {
+    const info = await service.getTemplateInfo(template);
+
+    expect(pageRepo.findById).not.toHaveBeenCalled();
+    expect(info.variables).toContain('team');
+    expect(info.variables).not.toContain('topic');
+  });
+});
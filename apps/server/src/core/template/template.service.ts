@@ -0,0 +1,373 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { JSONContent } from '@tiptap/core';
+import { v7 as uuid7 } from 'uuid';
+import {
+  TemplateRepo,
+  TemplateWithPage,
+} from '@docmost/db/repos/template/template.repo';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import {
+  Page,
+  UpdatablePageTemplate,
+  User,
+} from '@docmost/db/types/entity.types';
+import { PageService } from '../page/services/page.service';
+import { StorageService } from '../../integrations/storage/storage.service';
+import {
+  CreateTemplateDto,
+  TemplateScope,
+  UpdateTemplateDto,
+  UseTemplateDto,
+} from './dto/template.dto';
+import {
+  extractTemplateVariables,
+  fillTemplateContent,
+  fillTemplateText,
+  getBuiltInTemplateValues,
+  isBuiltInTemplateVariable,
+} from './template.utils';
+import {
+  createYdocFromJson,
+  getAttachmentIds,
+  getProsemirrorContent,
+  isAttachmentNode,
+  removeMarkTypeFromDoc,
+} from '../../common/helpers/prosemirror/utils';
+import { jsonToNode, jsonToText } from '../../collaboration/collaboration.util';
+import { generateSlugId } from '../../common/helpers';
+
+// the page a template is filled from: its live page, or the published copy of a workspace template
+type TemplateSource = Pick<
+  Page,
+  'id' | 'workspaceId' | 'title' | 'icon' | 'content'
+>;
+
+@Injectable()
+export class TemplateService {
+  private readonly logger = new Logger(TemplateService.name);
+
+  constructor(
+    private readonly templateRepo: TemplateRepo,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
+    private readonly pageService: PageService,
+    private readonly storageService: StorageService,
+    @InjectKysely() private readonly db: KyselyDB,
+  ) {}
+
+  async getTemplateInfo(template: TemplateWithPage) {
+    const source = await this.getTemplateSource(template);
+
+    return {
+      ...template,
+      variables: extractTemplateVariables(
+        source.title,
+        getProsemirrorContent(source.content),
+      ),
+    };
+  }
+
+  async createTemplate(page: Page, dto: CreateTemplateDto, authUser: User) {
+    const existingTemplate = await this.templateRepo.findByPageId(page.id);
+    if (existingTemplate) {
+      throw new BadRequestException('Page is already a template');
+    }
+
+    const scope = dto.scope ?? TemplateScope.SPACE;
+    const template = await this.templateRepo.insertTemplate({
+      pageId: page.id,
+      scope,
+      description: dto.description,
+      creatorId: authUser.id,
+      workspaceId: page.workspaceId,
+      ...(await this.getPublishedVersion(page.id, scope)),
+    });
+
+    return this.templateRepo.findById(template.id, template.workspaceId);
+  }
+
+  async updateTemplate(
+    template: TemplateWithPage,
+    dto: UpdateTemplateDto,
+  ): Promise<TemplateWithPage> {
+    // saving a workspace template publishes the current page again
+    await this.templateRepo.updateTemplate(
+      {
+        scope: dto.scope,
+        description: dto.description,
+        ...(await this.getPublishedVersion(
+          template.pageId,
+          dto.scope ?? (template.scope as TemplateScope),
+        )),
+      },
+      template.id,
+      template.workspaceId,
+    );
+
+    return this.templateRepo.findById(template.id, template.workspaceId);
+  }
+
+  async createPageFromTemplate(
+    template: TemplateWithPage,
+    dto: UseTemplateDto,
+    authUser: User,
+  ): Promise<Page> {
+    let parentPageId: string = null;
+
+    if (dto.parentPageId) {
+      const parentPage = await this.pageRepo.findById(dto.parentPageId);
+      if (!parentPage || parentPage.spaceId !== dto.spaceId) {
+        throw new NotFoundException('Parent page not found');
+      }
+      parentPageId = parentPage.id;
+    }
+
+    const templatePage = await this.getTemplateSource(template);
+
+    const values = await this.getVariableValues(
+      dto.variables,
+      dto.spaceId,
+      authUser,
+    );
+
+    const pageId = uuid7();
+    const { content, attachmentMap } = this.buildContent(templatePage, values);
+
+    const createdPage = await this.pageRepo.insertPage({
+      id: pageId,
+      slugId: generateSlugId(),
+      title: fillTemplateText(templatePage.title, values),
+      icon: templatePage.icon,
+      content,
+      textContent: jsonToText(content),
+      ydoc: createYdocFromJson(content),
+      position: await this.pageService.nextPagePosition(
+        dto.spaceId,
+        parentPageId,
+      ),
+      parentPageId,
+      spaceId: dto.spaceId,
+      creatorId: authUser.id,
+      lastUpdatedById: authUser.id,
+      workspaceId: authUser.workspaceId,
+    });
+
+    await this.copyAttachments(attachmentMap, templatePage, {
+      pageId,
+      spaceId: dto.spaceId,
+    });
+
+    return createdPage;
+  }
+
+  /**
+   * Fills a template for insertion into an existing page (e.g. from the slash menu).
+   * The client inserts the returned content into the open editor.
+   */
+  async renderTemplate(
+    template: TemplateWithPage,
+    targetPage: Page,
+    variables: Record<string, string>,
+    authUser: User,
+  ): Promise<{ content: JSONContent }> {
+    const templatePage = await this.getTemplateSource(template);
+
+    const values = await this.getVariableValues(
+      variables,
+      targetPage.spaceId,
+      authUser,
+    );
+
+    const { content, attachmentMap } = this.buildContent(templatePage, values);
+
+    await this.copyAttachments(attachmentMap, templatePage, {
+      pageId: targetPage.id,
+      spaceId: targetPage.spaceId,
+    });
+
+    return { content };
+  }
+
+  /**
+   * Workspace templates are shared as published so that people without
+   * access to the template page can use them. Space templates use the live page.
+   */
+  private async getPublishedVersion(
+    pageId: string,
+    scope: TemplateScope,
+  ): Promise<
+    Pick<
+      UpdatablePageTemplate,
+      'publishedTitle' | 'publishedIcon' | 'publishedContent' | 'publishedAt'
+    >
+  > {
+    if (scope !== TemplateScope.WORKSPACE) {
+      return {
+        publishedTitle: null,
+        publishedIcon: null,
+        publishedContent: null,
+        publishedAt: null,
+      };
+    }
+
+    const page = await this.pageRepo.findById(pageId, {
+      includeContent: true,
+    });
+
+    return {
+      publishedTitle: page.title,
+      publishedIcon: page.icon,
+      publishedContent: page.content,
+      publishedAt: new Date(),
+    };
+  }
+
+  private async getTemplateSource(
+    template: TemplateWithPage,
+  ): Promise<TemplateSource> {
+    if (template.scope === TemplateScope.WORKSPACE && template.publishedAt) {
+      const published = await this.templateRepo.findPublishedVersion(
+        template.id,
+      );
+
+      return {
+        id: template.pageId,
+        workspaceId: template.workspaceId,
+        title: published.publishedTitle,
+        icon: published.publishedIcon,
+        content: published.publishedContent,
+      };
+    }
+
+    return this.pageRepo.findById(template.pageId, { includeContent: true });
+  }
+
+  private async getVariableValues(
+    variables: Record<string, string>,
+    spaceId: string,
+    authUser: User,
+  ): Promise<Record<string, string>> {
+    const values: Record<string, string> = {};
+
+    for (const [name, value] of Object.entries(variables ?? {})) {
+      if (typeof value === 'string' && !isBuiltInTemplateVariable(name)) {
+        values[name] = value;
+      }
+    }
+
+    const space = await this.spaceRepo.findById(spaceId, authUser.workspaceId);
+
+    return {
+      ...values,
+      ...getBuiltInTemplateValues({
+        authorName: authUser.name,
+        spaceName: space?.name,
+        timezone: authUser.timezone,
+        locale: authUser.locale,
+      }),
+    };
+  }
+
+  /**
+   * Copies the template content with comment marks dropped and variables filled in.
+   * Attachment ids are replaced with new ones; the returned map (old id => new id)
+   * is used to copy the files once the target page exists.
+   */
+  private buildContent(
+    templatePage: TemplateSource,
+    values: Record<string, string>,
+  ): { content: JSONContent; attachmentMap: Map<string, string> } {
+    const doc = removeMarkTypeFromDoc(
+      jsonToNode(getProsemirrorContent(templatePage.content)),
+      'comment',
+    );
+    const prosemirrorJson: JSONContent = doc.toJSON();
+
+    const attachmentMap = new Map<string, string>();
+    getAttachmentIds(prosemirrorJson).forEach((attachmentId: string) => {
+      attachmentMap.set(attachmentId, uuid7());
+    });
+
+    const remapAttachments = (node: JSONContent) => {
+      const newAttachmentId = attachmentMap.get(node.attrs?.attachmentId);
+      if (isAttachmentNode(node.type) && newAttachmentId) {
+        const oldAttachmentId = node.attrs.attachmentId;
+        node.attrs.attachmentId = newAttachmentId;
+        if (node.attrs.src) {
+          node.attrs.src = node.attrs.src.replace(
+            oldAttachmentId,
+            newAttachmentId,
+          );
+        }
+      }
+      node.content?.forEach(remapAttachments);
+    };
+    remapAttachments(prosemirrorJson);
+
+    return {
+      content: fillTemplateContent(prosemirrorJson, values),
+      attachmentMap,
+    };
+  }
+
+  private async copyAttachments(
+    attachmentMap: Map<string, string>,
+    templatePage: TemplateSource,
+    target: { pageId: string; spaceId: string },
+  ) {
+    const attachmentIds = Array.from(attachmentMap.keys());
+    if (attachmentIds.length === 0) return;
+
+    const attachments = await this.db
+      .selectFrom('attachments')
+      .selectAll()
+      .where('id', 'in', attachmentIds)
+      .where('workspaceId', '=', templatePage.workspaceId)
+      .execute();
+
+    for (const attachment of attachments) {
+      // only copy attachments owned by the template page
+      if (attachment.pageId !== templatePage.id) continue;
+
+      const newAttachmentId = attachmentMap.get(attachment.id);
+      const newFilePath = attachment.filePath.replace(
+        attachment.id,
+        newAttachmentId,
+      );
+
+      try {
+        await this.storageService.copy(attachment.filePath, newFilePath);
+
+        await this.db
+          .insertInto('attachments')
+          .values({
+            id: newAttachmentId,
+            type: attachment.type,
+            filePath: newFilePath,
+            fileName: attachment.fileName,
+            fileSize: attachment.fileSize,
+            mimeType: attachment.mimeType,
+            fileExt: attachment.fileExt,
+            creatorId: attachment.creatorId,
+            workspaceId: attachment.workspaceId,
+            pageId: target.pageId,
+            spaceId: target.spaceId,
+          })
+          .execute();
+      } catch (err) {
+        this.logger.error(
+          `Template: failed to copy attachment ${attachment.id}`,
+          err,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,128 @@
+import { JSONContent } from '@tiptap/core';
+
+export const TEMPLATE_VARIABLE_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export enum BuiltInTemplateVariable {
+  DATE = 'date',
+  TIME = 'time',
+  DATETIME = 'datetime',
+  AUTHOR = 'author',
+  SPACE = 'space',
+}
+
+const BUILT_IN_TEMPLATE_VARIABLES: string[] = Object.values(
+  BuiltInTemplateVariable,
+);
+
+export function isBuiltInTemplateVariable(name: string): boolean {
+  return BUILT_IN_TEMPLATE_VARIABLES.includes(name.toLowerCase());
+}
+
+function collectVariables(text: string, variables: Set<string>) {
+  if (!text) return;
+  for (const match of text.matchAll(TEMPLATE_VARIABLE_REGEX)) {
+    variables.add(match[1]);
+  }
+}
+
+/**
+ * Returns the custom (non built-in) variable names used in a template,
+ * in the order they first appear. These are the prompts the user fills in.
+ */
+export function extractTemplateVariables(
+  title: string,
+  prosemirrorJson: JSONContent,
+): string[] {
+  const variables = new Set<string>();
+  collectVariables(title, variables);
+
+  const walk = (node: JSONContent) => {
+    if (!node) return;
+    collectVariables(node.text, variables);
+    node.content?.forEach(walk);
+  };
+  walk(prosemirrorJson);
+
+  return Array.from(variables).filter(
+    (name) => !isBuiltInTemplateVariable(name),
+  );
+}
+
+export function getBuiltInTemplateValues(opts: {
+  authorName: string;
+  spaceName: string;
+  timezone?: string;
+  locale?: string;
+  now?: Date;
+}): Record<string, string> {
+  const now = opts.now ?? new Date();
+  const format = (options: Intl.DateTimeFormatOptions) => {
+    try {
+      return now.toLocaleString(opts.locale || 'en-US', {
+        ...options,
+        timeZone: opts.timezone || 'UTC',
+      });
+    } catch {
+      // invalid locale or timezone stored on the user
+      return now.toLocaleString('en-US', { ...options, timeZone: 'UTC' });
+    }
+  };
+
+  const dateOptions: Intl.DateTimeFormatOptions = {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  };
+  const timeOptions: Intl.DateTimeFormatOptions = {
+    hour: '2-digit',
+    minute: '2-digit',
+  };
+
+  return {
+    [BuiltInTemplateVariable.DATE]: format(dateOptions),
+    [BuiltInTemplateVariable.TIME]: format(timeOptions),
+    [BuiltInTemplateVariable.DATETIME]: format({
+      ...dateOptions,
+      ...timeOptions,
+    }),
+    [BuiltInTemplateVariable.AUTHOR]: opts.authorName ?? '',
+    [BuiltInTemplateVariable.SPACE]: opts.spaceName ?? '',
+  };
+}
+
+/**
+ * Replaces {{variable}} placeholders in text.
+ * Built-in names are matched case-insensitively; placeholders without a value are kept as-is.
+ */
+export function fillTemplateText(
+  text: string,
+  values: Record<string, string>,
+): string {
+  if (!text) return text;
+  return text.replace(TEMPLATE_VARIABLE_REGEX, (placeholder, name: string) => {
+    const key = isBuiltInTemplateVariable(name) ? name.toLowerCase() : name;
+    const value = values[key];
+    return value === undefined || value === null ? placeholder : String(value);
+  });
+}
+
+export function fillTemplateContent(
+  prosemirrorJson: JSONContent,
+  values: Record<string, string>,
+): JSONContent {
+  const fill = (node: JSONContent): JSONContent => {
+    const filled: JSONContent = { ...node };
+    if (typeof node.text === 'string') {
+      filled.text = fillTemplateText(node.text, values);
+    }
+    if (node.content) {
+      // text nodes cannot be empty in prosemirror
+      filled.content = node.content
+        .map(fill)
+        .filter((child) => child.type !== 'text' || child.text);
+    }
+    return filled;
+  };
+
+  return fill(prosemirrorJson);
+}
@@ -0,0 +1,24 @@
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+} from 'class-validator';
+
+export class WatchPageIdDto {
+  @IsString()
+  @IsNotEmpty()
+  pageId: string;
+}
+
+export class WatchPageDto extends WatchPageIdDto {
+  @IsOptional()
+  @IsBoolean()
+  includeChildren?: boolean;
+}
+
+export class WatchSpaceIdDto {
+  @IsUUID()
+  spaceId: string;
+}
@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  NotFoundException,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { AuthUser } from '../../common/decorators/auth-user.decorator';
+import { AuthWorkspace } from '../../common/decorators/auth-workspace.decorator';
+import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
+import { Page, User, Workspace } from '@docmost/db/types/entity.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import SpaceAbilityFactory from '../casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../casl/interfaces/space-ability.type';
+import { WatcherService } from './watcher.service';
+import {
+  WatchPageDto,
+  WatchPageIdDto,
+  WatchSpaceIdDto,
+} from './dto/watcher.dto';
+
+@UseGuards(JwtAuthGuard)
+@Controller('watchers')
+export class WatcherController {
+  constructor(
+    private readonly watcherService: WatcherService,
+    private readonly pageRepo: PageRepo,
+    private readonly spaceAbility: SpaceAbilityFactory,
+  ) {}
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/status')
+  async getPageWatchStatus(
+    @Body() dto: WatchPageIdDto,
+    @AuthUser() user: User,
+  ) {
+    const page = await this.getReadablePage(dto.pageId, user);
+    return this.watcherService.getPageWatchStatus(page, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/watch')
+  async watchPage(@Body() dto: WatchPageDto, @AuthUser() user: User) {
+    const page = await this.getReadablePage(dto.pageId, user);
+    return this.watcherService.watchPage(page, user.id, dto.includeChildren);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('page/unwatch')
+  async unwatchPage(@Body() dto: WatchPageIdDto, @AuthUser() user: User) {
+    const page = await this.getReadablePage(dto.pageId, user);
+    return this.watcherService.unwatchPage(page, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('space/status')
+  async getSpaceWatchStatus(
+    @Body() dto: WatchSpaceIdDto,
+    @AuthUser() user: User,
+  ) {
+    await this.validateSpaceAccess(dto.spaceId, user);
+    return this.watcherService.getSpaceWatchStatus(dto.spaceId, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('space/watch')
+  async watchSpace(
+    @Body() dto: WatchSpaceIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    await this.validateSpaceAccess(dto.spaceId, user);
+    return this.watcherService.watchSpace(dto.spaceId, workspace.id, user.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('space/unwatch')
+  async unwatchSpace(@Body() dto: WatchSpaceIdDto, @AuthUser() user: User) {
+    return this.watcherService.unwatchSpace(dto.spaceId, user.id);
+  }
+
+  private async getReadablePage(pageId: string, user: User): Promise<Page> {
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.deletedAt) {
+      throw new NotFoundException('Page not found');
+    }
+
+    const ability = await this.spaceAbility.createForPage(user, page);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+
+    return page;
+  }
+
+  private async validateSpaceAccess(spaceId: string, user: User) {
+    const ability = await this.spaceAbility.createForUser(user, spaceId);
+    if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      throw new ForbiddenException();
+    }
+  }
+}
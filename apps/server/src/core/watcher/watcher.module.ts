@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WatcherController } from './watcher.controller';
+import { WatcherService } from './watcher.service';
+
+@Module({
+  controllers: [WatcherController],
+  providers: [WatcherService],
+  exports: [WatcherService],
+})
+export class WatcherModule {}
@@ -0,0 +1,128 @@
+import { Injectable } from '@nestjs/common';
+import { WatcherRepo } from '@docmost/db/repos/watcher/watcher.repo';
+import { Page } from '@docmost/db/types/entity.types';
+
+export enum WatchSource {
+  PAGE = 'page',
+  PARENT = 'parent',
+  SPACE = 'space',
+  AUTO = 'auto',
+}
+
+export interface PageWatchStatus {
+  watching: boolean;
+  // why the user is watching the page, null if not watching
+  source: WatchSource | null;
+  includeChildren: boolean;
+}
+
+@Injectable()
+export class WatcherService {
+  constructor(private readonly watcherRepo: WatcherRepo) {}
+
+  async getPageWatchStatus(
+    page: Page,
+    userId: string,
+  ): Promise<PageWatchStatus> {
+    const entries = await this.watcherRepo.findPageWatchEntries(page, {
+      userId,
+    });
+    const direct = entries.find((entry) => entry.pageId === page.id);
+
+    let source: WatchSource = null;
+    if (direct?.isMuted) {
+      source = null;
+    } else if (direct) {
+      source = WatchSource.PAGE;
+    } else if (entries.some((entry) => entry.pageId && !entry.isMuted)) {
+      source = WatchSource.PARENT;
+    } else if (entries.some((entry) => !entry.pageId && !entry.isMuted)) {
+      source = WatchSource.SPACE;
+    } else if (this.isAutoWatcher(page, userId)) {
+      source = WatchSource.AUTO;
+    }
+
+    return {
+      watching: source !== null,
+      source,
+      includeChildren: Boolean(
+        direct && !direct.isMuted && direct.includeChildren,
+      ),
+    };
+  }
+
+  async watchPage(page: Page, userId: string, includeChildren = false) {
+    await this.watcherRepo.upsertPageWatcher({
+      userId,
+      pageId: page.id,
+      spaceId: page.spaceId,
+      workspaceId: page.workspaceId,
+      includeChildren,
+      isMuted: false,
+    });
+    return this.getPageWatchStatus(page, userId);
+  }
+
+  /*
+   * Unwatching mutes the page, so it also stops updates the user
+   * would get through a parent page, the space or as a contributor.
+   */
+  async unwatchPage(page: Page, userId: string) {
+    await this.watcherRepo.upsertPageWatcher({
+      userId,
+      pageId: page.id,
+      spaceId: page.spaceId,
+      workspaceId: page.workspaceId,
+      includeChildren: false,
+      isMuted: true,
+    });
+    return this.getPageWatchStatus(page, userId);
+  }
+
+  async getSpaceWatchStatus(spaceId: string, userId: string) {
+    const watcher = await this.watcherRepo.findSpaceWatcher(userId, spaceId);
+    return { watching: Boolean(watcher && !watcher.isMuted) };
+  }
+
+  async watchSpace(spaceId: string, workspaceId: string, userId: string) {
+    await this.watcherRepo.upsertSpaceWatcher({
+      userId,
+      spaceId,
+      workspaceId,
+    });
+    return { watching: true };
+  }
+
+  async unwatchSpace(spaceId: string, userId: string) {
+    await this.watcherRepo.deleteSpaceWatcher(userId, spaceId);
+    return { watching: false };
+  }
+
+  /*
+   * Returns everyone watching a page, including its creator and contributors
+   * who watch it automatically, minus the users who muted it.
+   */
+  async getPageWatcherIds(page: Page): Promise<string[]> {
+    const entries = await this.watcherRepo.findPageWatchEntries(page);
+
+    const mutedIds = new Set(
+      entries
+        .filter((entry) => entry.pageId === page.id && entry.isMuted)
+        .map((entry) => entry.userId),
+    );
+
+    const watcherIds = new Set([
+      ...entries.filter((entry) => !entry.isMuted).map((entry) => entry.userId),
+      page.creatorId,
+      ...(page.contributorIds ?? []),
+    ]);
+
+    return Array.from(watcherIds).filter((id) => id && !mutedIds.has(id));
+  }
+
+  private isAutoWatcher(page: Page, userId: string): boolean {
+    return (
+      page.creatorId === userId || (page.contributorIds ?? []).includes(userId)
+    );
+  }
+}
@@ -39,6 +39,12 @@ import { ModuleRef } from '@nestjs/core';
 import { AuthService } from '../../auth/services/auth.service';
 import { TokenService } from '../../auth/services/token.service';
 import { UserRepo } from '@docmost/db/repos/user/user.repo';
+import { WebhookService } from '../../../integrations/webhook/webhook.service';
+import {
+  CreateWebhookDto,
+  UpdateWebhookDto,
+  WebhookIdDto,
+} from '../../../integrations/webhook/dto/webhook.dto';
 
 @UseGuards(JwtAuthGuard)
 @Controller('workspace')
@@ -51,6 +57,7 @@ export class WorkspaceController {
     private moduleRef: ModuleRef,
     private tokenService: TokenService,
     private userRepo: UserRepo,
+    private webhookService: WebhookService,
   ) {}
 
   @Public()
@@ -397,4 +404,145 @@ export class WorkspaceController {
 
     return { inviteLink };
   }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks')
+  async getWebhooks(
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.getWebhooks(workspace.id, pagination);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/info')
+  async getWebhook(
+    @Body() dto: WebhookIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.getWebhook(dto.webhookId, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/create')
+  async createWebhook(
+    @Body() dto: CreateWebhookDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.createWebhook(user, workspace.id, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/update')
+  async updateWebhook(
+    @Body() dto: UpdateWebhookDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.updateWebhook(workspace.id, dto);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/rotate-secret')
+  async rotateWebhookSecret(
+    @Body() dto: WebhookIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.rotateSecret(dto.webhookId, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/delete')
+  async deleteWebhook(
+    @Body() dto: WebhookIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    await this.webhookService.deleteWebhook(dto.webhookId, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/test')
+  async testWebhook(
+    @Body() dto: WebhookIdDto,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.sendTestEvent(dto.webhookId, workspace.id);
+  }
+
+  @HttpCode(HttpStatus.OK)
+  @Post('webhooks/deliveries')
+  async getWebhookDeliveries(
+    @Body() dto: WebhookIdDto,
+    @Body() pagination: PaginationOptions,
+    @AuthUser() user: User,
+    @AuthWorkspace() workspace: Workspace,
+  ) {
+    const ability = this.workspaceAbility.createForUser(user, workspace);
+    if (
+      ability.cannot(WorkspaceCaslAction.Manage, WorkspaceCaslSubject.Settings)
+    ) {
+      throw new ForbiddenException();
+    }
+
+    return this.webhookService.getDeliveries(
+      dto.webhookId,
+      workspace.id,
+      pagination,
+    );
+  }
 }
@@ -1,6 +1,14 @@
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateWorkspaceDto } from './create-workspace.dto';
-import { IsArray, IsBoolean, IsOptional, IsString } from 'class-validator';
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+} from 'class-validator';
 
 export class UpdateWorkspaceDto extends PartialType(CreateWorkspaceDto) {
   @IsOptional()
@@ -30,4 +38,27 @@ export class UpdateWorkspaceDto extends PartialType(CreateWorkspaceDto) {
   @IsOptional()
   @IsBoolean()
   generativeAi: boolean;
+
+  // minutes between automatic page history snapshots
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(1440)
+  historySnapshotInterval: number;
+
+  @IsOptional()
+  @IsBoolean()
+  historyRetention: boolean;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  historyKeepAllDays: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  historyKeepDailyDays: number;
 }
@@ -1,5 +1,15 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { WorkspaceService } from './workspace.service';
+import { BadRequestException } from '@nestjs/common';
+import { Queue } from 'bullmq';
+import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
+import { createPageEmbeddingsTable } from '@docmost/db/helpers/helpers';
+import { QueueJob } from '../../../integrations/queue/constants';
+import { UpdateWorkspaceDto } from '../dto/update-workspace.dto';
+
+jest.mock('@docmost/db/helpers/helpers', () => ({
+  createPageEmbeddingsTable: jest.fn(),
+}));
 
 describe('WorkspaceService', () => {
   let service: WorkspaceService;
@@ -16,3 +26,82 @@ describe('WorkspaceService', () => {
     expect(service).toBeDefined();
   });
 });
+
+describe('WorkspaceService AI search', () => {
+  const workspaceId = 'workspace-1';
+
+  let workspaceRepo: {
+    updateAiSettings: jest.Mock;
+    updateWorkspace: jest.Mock;
+    findById: jest.Mock;
+  };
+  let aiQueue: { add: jest.Mock };
+  let service: WorkspaceService;
+
+  beforeEach(() => {
+    workspaceRepo = {
+      updateAiSettings: jest.fn(),
+      updateWorkspace: jest.fn(),
+      findById: jest.fn().mockResolvedValue({ id: workspaceId }),
+    };
+    aiQueue = { add: jest.fn() };
+
+    service = new WorkspaceService(
+      workspaceRepo as unknown as WorkspaceRepo,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      null,
+      aiQueue as unknown as Queue,
+    );
+  });
+
+  afterEach(() => jest.resetAllMocks());
+
+  it('creates the embeddings table before enabling AI search', async () => {
+    await service.update(workspaceId, { aiSearch: true } as UpdateWorkspaceDto);
+
+    expect(createPageEmbeddingsTable).toHaveBeenCalled();
+    expect(workspaceRepo.updateAiSettings).toHaveBeenCalledWith(
+      workspaceId,
+      'search',
+      true,
+    );
+    expect(aiQueue.add).toHaveBeenCalledWith(
+      QueueJob.WORKSPACE_CREATE_EMBEDDINGS,
+      { workspaceId },
+    );
+  });
+
+  it('leaves AI search off without pgvector', async () => {
+    (createPageEmbeddingsTable as jest.Mock).mockRejectedValue(
+      new Error('The pgvector postgres extension is not installed'),
+    );
+
+    await expect(
+      service.update(workspaceId, { aiSearch: true } as UpdateWorkspaceDto),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(workspaceRepo.updateAiSettings).not.toHaveBeenCalled();
+    expect(aiQueue.add).not.toHaveBeenCalled();
+  });
+
+  it('does not need pgvector to turn AI search off', async () => {
+    await service.update(workspaceId, {
+      aiSearch: false,
+    } as UpdateWorkspaceDto);
+
+    expect(createPageEmbeddingsTable).not.toHaveBeenCalled();
+    expect(workspaceRepo.updateAiSettings).toHaveBeenCalledWith(
+      workspaceId,
+      'search',
+      false,
+    );
+  });
+});
@@ -33,7 +33,13 @@ import { InjectQueue } from '@nestjs/bullmq';
 import { QueueJob, QueueName } from '../../../integrations/queue/constants';
 import { Queue } from 'bullmq';
 import { generateRandomSuffixNumbers } from '../../../common/helpers';
-import { isPageEmbeddingsTableExists } from '@docmost/db/helpers/helpers';
+import { createPageEmbeddingsTable } from '@docmost/db/helpers/helpers';
+import { getPageHistorySettings } from '../../page/page-history.constants';
+import { AuditLogService } from '../../audit-log/audit-log.service';
+import {
+  AuditAction,
+  AuditResource,
+} from '../../audit-log/audit-log.constants';
 
 @Injectable()
 export class WorkspaceService {
@@ -48,6 +54,7 @@ export class WorkspaceService {
     private userRepo: UserRepo,
     private environmentService: EnvironmentService,
     private domainService: DomainService,
+    private auditLogService: AuditLogService,
     @InjectKysely() private readonly db: KyselyDB,
     @InjectQueue(QueueName.ATTACHMENT_QUEUE) private attachmentQueue: Queue,
     @InjectQueue(QueueName.BILLING_QUEUE) private billingQueue: Queue,
@@ -269,6 +276,45 @@ export class WorkspaceService {
     );
   }
 
+  private async updateHistorySettings(
+    workspaceId: string,
+    updateWorkspaceDto: UpdateWorkspaceDto,
+  ) {
+    const historySettings = {
+      snapshotInterval: updateWorkspaceDto.historySnapshotInterval,
+      retentionEnabled: updateWorkspaceDto.historyRetention,
+      keepAllDays: updateWorkspaceDto.historyKeepAllDays,
+      keepDailyDays: updateWorkspaceDto.historyKeepDailyDays,
+    };
+
+    delete updateWorkspaceDto.historySnapshotInterval;
+    delete updateWorkspaceDto.historyRetention;
+    delete updateWorkspaceDto.historyKeepAllDays;
+    delete updateWorkspaceDto.historyKeepDailyDays;
+
+    if (Object.values(historySettings).every((v) => v === undefined)) {
+      return;
+    }
+
+    const workspace = await this.workspaceRepo.findById(workspaceId);
+    const current = getPageHistorySettings(workspace);
+    const keepAllDays = historySettings.keepAllDays ?? current.keepAllDays;
+    const keepDailyDays =
+      historySettings.keepDailyDays ?? current.keepDailyDays;
+
+    if (keepDailyDays < keepAllDays) {
+      throw new BadRequestException(
+        'Daily history retention must be at least as long as the keep-all period.',
+      );
+    }
+
+    for (const [key, value] of Object.entries(historySettings)) {
+      if (typeof value !== 'undefined') {
+        await this.workspaceRepo.updateHistorySettings(workspaceId, key, value);
+      }
+    }
+  }
+
   async update(workspaceId: string, updateWorkspaceDto: UpdateWorkspaceDto) {
     if (updateWorkspaceDto.enforceSso) {
       const sso = await this.db
@@ -306,6 +352,8 @@ export class WorkspaceService {
       }
     }
 
+    await this.updateHistorySettings(workspaceId, updateWorkspaceDto);
+
     if (typeof updateWorkspaceDto.restrictApiToAdmins !== 'undefined') {
       await this.workspaceRepo.updateApiSettings(
         workspaceId,
@@ -316,6 +364,17 @@ export class WorkspaceService {
     }
 
     if (typeof updateWorkspaceDto.aiSearch !== 'undefined') {
+      if (updateWorkspaceDto.aiSearch) {
+        try {
+          await createPageEmbeddingsTable(this.db);
+        } catch (err) {
+          this.logger.error('Failed to create the page_embeddings table', err);
+          throw new BadRequestException(
+            'Failed to activate. Make sure pgvector postgres extension is installed.',
+          );
+        }
+      }
+
       await this.workspaceRepo.updateAiSettings(
         workspaceId,
         'search',
@@ -323,13 +382,6 @@ export class WorkspaceService {
       );
 
       if (updateWorkspaceDto.aiSearch) {
-        const tableExists = await isPageEmbeddingsTableExists(this.db);
-        if (!tableExists) {
-          throw new BadRequestException(
-            'Failed to activate. Make sure pgvector postgres extension is installed.',
-          );
-        }
-
         await this.aiQueue.add(QueueJob.WORKSPACE_CREATE_EMBEDDINGS, {
           workspaceId,
         });
@@ -429,6 +481,15 @@ export class WorkspaceService {
       user.id,
       workspaceId,
     );
+
+    await this.auditLogService.log({
+      workspaceId,
+      actorId: authUser.id,
+      action: AuditAction.WORKSPACE_MEMBER_ROLE_CHANGED,
+      resourceType: AuditResource.USER,
+      resourceId: user.id,
+      metadata: { email: user.email, oldRole: user.role, newRole },
+    });
   }
 
   async generateHostname(
@@ -513,6 +574,20 @@ export class WorkspaceService {
       throw new BadRequestException('You cannot delete a user with owner role');
     }
 
+    await this.removeUser(user, workspaceId, authUser.id);
+  }
+
+  /**
+   * Anonymizes the user and removes their memberships.
+   * Callers are responsible for the permission checks.
+   */
+  async removeUser(
+    user: User,
+    workspaceId: string,
+    actorId: string | null,
+  ): Promise<void> {
+    const userId = user.id;
+
     await executeTx(this.db, async (trx) => {
       await this.userRepo.updateUser(
         {
@@ -520,6 +595,7 @@ export class WorkspaceService {
           email: v4() + '@deleted.docmost.com',
           avatarUrl: null,
           settings: null,
+          scimExternalId: null,
           deletedAt: new Date(),
         },
         userId,
@@ -538,6 +614,15 @@ export class WorkspaceService {
         .execute();
     });
 
+    await this.auditLogService.log({
+      workspaceId,
+      actorId,
+      action: AuditAction.WORKSPACE_MEMBER_DELETED,
+      resourceType: AuditResource.USER,
+      resourceId: user.id,
+      metadata: { name: user.name, email: user.email, role: user.role },
+    });
+
     try {
       await this.attachmentQueue.add(QueueJob.DELETE_USER_AVATARS, user);
     } catch (err) {
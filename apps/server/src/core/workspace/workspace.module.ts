@@ -5,9 +5,15 @@ import { SpaceModule } from '../space/space.module';
 import { WorkspaceInvitationService } from './services/workspace-invitation.service';
 import { TokenModule } from '../auth/token.module';
 import { AuthModule } from '../auth/auth.module';
+import { WebhookModule } from '../../integrations/webhook/webhook.module';
 
 @Module({
-  imports: [SpaceModule, TokenModule, forwardRef(() => AuthModule)],
+  imports: [
+    SpaceModule,
+    TokenModule,
+    WebhookModule,
+    forwardRef(() => AuthModule),
+  ],
   controllers: [WorkspaceController],
   providers: [WorkspaceService, WorkspaceInvitationService],
   exports: [WorkspaceService],
@@ -17,7 +17,20 @@ import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
 import { PageRepo } from './repos/page/page.repo';
 import { CommentRepo } from './repos/comment/comment.repo';
+import { CommentReactionRepo } from './repos/comment/comment-reaction.repo';
 import { PageHistoryRepo } from './repos/page/page-history.repo';
+import { PagePermissionRepo } from './repos/page/page-permission.repo';
+import { PageEmbeddingRepo } from './repos/page/page-embedding.repo';
+import { PagePropertyRepo } from './repos/page/page-property.repo';
+import { PageTaskRepo } from './repos/page/page-task.repo';
+import { PageReviewRepo } from './repos/page/page-review.repo';
+import { NotificationRepo } from './repos/notification/notification.repo';
+import { WatcherRepo } from './repos/watcher/watcher.repo';
+import { LabelRepo } from './repos/label/label.repo';
+import { CustomSpaceRoleRepo } from './repos/space/custom-space-role.repo';
+import { AuditLogRepo } from './repos/audit-log/audit-log.repo';
+import { ScimTokenRepo } from './repos/scim/scim-token.repo';
+import { ApiKeyRepo } from './repos/api-key/api-key.repo';
 import { AttachmentRepo } from './repos/attachment/attachment.repo';
 import { KyselyDB } from '@docmost/db/types/kysely.types';
 import * as process from 'node:process';
@@ -25,10 +38,16 @@ import { MigrationService } from '@docmost/db/services/migration.service';
 import { UserTokenRepo } from './repos/user-token/user-token.repo';
 import { BacklinkRepo } from '@docmost/db/repos/backlink/backlink.repo';
 import { ShareRepo } from '@docmost/db/repos/share/share.repo';
+import { ShareViewRepo } from '@docmost/db/repos/share/share-view.repo';
 import { PageListener } from '@docmost/db/listeners/page.listener';
+import { WebhookRepo } from '@docmost/db/repos/webhook/webhook.repo';
+import { WebhookDeliveryRepo } from '@docmost/db/repos/webhook/webhook-delivery.repo';
+import { TemplateRepo } from '@docmost/db/repos/template/template.repo';
 
 // https://github.com/brianc/node-postgres/issues/811
 types.setTypeParser(types.builtins.INT8, (val) => Number(val));
+// keep dates as YYYY-MM-DD strings instead of local midnight timestamps
+types.setTypeParser(types.builtins.DATE, (val) => val);
 
 @Global()
 @Module({
@@ -155,11 +174,28 @@ types.setTypeParser(types.builtins.INT8, (val) => Number(val));
     SpaceMemberRepo,
     PageRepo,
     PageHistoryRepo,
+    PagePermissionRepo,
+    PageEmbeddingRepo,
+    PagePropertyRepo,
+    PageTaskRepo,
+    PageReviewRepo,
+    NotificationRepo,
+    WatcherRepo,
+    LabelRepo,
+    CustomSpaceRoleRepo,
     CommentRepo,
+    CommentReactionRepo,
     AttachmentRepo,
     UserTokenRepo,
     BacklinkRepo,
     ShareRepo,
+    ShareViewRepo,
+    WebhookRepo,
+    WebhookDeliveryRepo,
+    TemplateRepo,
+    AuditLogRepo,
+    ScimTokenRepo,
+    ApiKeyRepo,
     PageListener,
   ],
   exports: [
@@ -171,11 +207,28 @@ types.setTypeParser(types.builtins.INT8, (val) => Number(val));
     SpaceMemberRepo,
     PageRepo,
     PageHistoryRepo,
+    PagePermissionRepo,
+    PageEmbeddingRepo,
+    PagePropertyRepo,
+    PageTaskRepo,
+    PageReviewRepo,
+    NotificationRepo,
+    WatcherRepo,
+    LabelRepo,
+    CustomSpaceRoleRepo,
     CommentRepo,
+    CommentReactionRepo,
     AttachmentRepo,
     UserTokenRepo,
     BacklinkRepo,
     ShareRepo,
+    ShareViewRepo,
+    WebhookRepo,
+    WebhookDeliveryRepo,
+    TemplateRepo,
+    AuditLogRepo,
+    ScimTokenRepo,
+    ApiKeyRepo,
   ],
 })
 export class DatabaseModule
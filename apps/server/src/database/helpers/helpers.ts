@@ -5,6 +5,90 @@ export async function isPageEmbeddingsTableExists(db: KyselyDB) {
   return tableExists({ db, tableName: 'page_embeddings' });
 }
 
+// dimensions accepted by AI_EMBEDDING_DIMENSION, each gets its own ANN index
+const INDEXED_DIMENSIONS = [768, 1024, 1536];
+
+/*
+ * page_embeddings depends on pgvector, which not every install has, so it is
+ * created when a workspace turns on AI search rather than in a migration.
+ */
+export async function createPageEmbeddingsTable(db: KyselyDB): Promise<void> {
+  const { rows } = await sql<{ available: boolean }>`
+    SELECT EXISTS (
+      SELECT 1 FROM pg_available_extensions WHERE name = 'vector'
+    ) as available
+  `.execute(db);
+
+  if (!rows[0]?.available) {
+    throw new Error('The pgvector postgres extension is not installed');
+  }
+
+  await db.transaction().execute(async (trx) => {
+    // workspaces enabling AI search at the same time wait for each other
+    await sql`SELECT pg_advisory_xact_lock(hashtext('page_embeddings'))`.execute(
+      trx,
+    );
+    await sql`CREATE EXTENSION IF NOT EXISTS vector`.execute(trx);
+
+    await trx.schema
+      .createTable('page_embeddings')
+      .ifNotExists()
+      .addColumn('id', 'uuid', (col) =>
+        col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+      )
+      .addColumn('page_id', 'uuid', (col) =>
+        col.notNull().references('pages.id').onDelete('cascade'),
+      )
+      .addColumn('space_id', 'uuid', (col) =>
+        col.notNull().references('spaces.id').onDelete('cascade'),
+      )
+      .addColumn('workspace_id', 'uuid', (col) =>
+        col.notNull().references('workspaces.id').onDelete('cascade'),
+      )
+      .addColumn('attachment_id', 'uuid', (col) =>
+        col.references('attachments.id').onDelete('cascade'),
+      )
+      .addColumn('model_name', 'varchar', (col) => col.notNull())
+      .addColumn('model_dimensions', 'integer', (col) => col.notNull())
+      .addColumn('embedding', sql`vector`, (col) => col.notNull())
+      .addColumn('chunk_index', 'integer', (col) => col.notNull().defaultTo(0))
+      .addColumn('chunk_start', 'integer', (col) => col.notNull().defaultTo(0))
+      .addColumn('chunk_length', 'integer', (col) => col.notNull().defaultTo(0))
+      .addColumn('metadata', 'jsonb', (col) => col.notNull().defaultTo('{}'))
+      .addColumn('created_at', 'timestamptz', (col) =>
+        col.notNull().defaultTo(sql`now()`),
+      )
+      .addColumn('updated_at', 'timestamptz', (col) =>
+        col.notNull().defaultTo(sql`now()`),
+      )
+      .addColumn('deleted_at', 'timestamptz', (col) => col)
+      .execute();
+
+    await trx.schema
+      .createIndex('page_embeddings_page_id_idx')
+      .ifNotExists()
+      .on('page_embeddings')
+      .column('page_id')
+      .execute();
+
+    await trx.schema
+      .createIndex('page_embeddings_workspace_id_idx')
+      .ifNotExists()
+      .on('page_embeddings')
+      .column('workspace_id')
+      .execute();
+
+    for (const dimensions of INDEXED_DIMENSIONS) {
+      await sql`
+        CREATE INDEX IF NOT EXISTS ${sql.raw(`page_embeddings_embedding_${dimensions}_idx`)}
+        ON page_embeddings
+        USING hnsw ((embedding::vector(${sql.raw(String(dimensions))})) vector_cosine_ops)
+        WHERE model_dimensions = ${sql.raw(String(dimensions))}
+      `.execute(trx);
+    }
+  });
+}
+
 export async function tableExists(opts: {
   db: KyselyDB;
   tableName: string;
@@ -0,0 +1,23 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('page_history')
+    .addColumn('name', 'varchar', (col) => col)
+    .addColumn('is_pinned', 'boolean', (col) => col.notNull().defaultTo(false))
+    .addColumn('pinned_by_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('pinned_at', 'timestamptz', (col) => col)
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('page_history')
+    .dropColumn('name')
+    .dropColumn('is_pinned')
+    .dropColumn('pinned_by_id')
+    .dropColumn('pinned_at')
+    .execute();
+}
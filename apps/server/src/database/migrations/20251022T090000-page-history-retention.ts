@@ -0,0 +1,16 @@
+import { Kysely } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createIndex('page_history_page_id_created_at_idx')
+    .on('page_history')
+    .columns(['page_id', 'created_at'])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .dropIndex('page_history_page_id_created_at_idx')
+    .ifExists()
+    .execute();
+}
@@ -0,0 +1,67 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('watchers')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('user_id', 'uuid', (col) =>
+      col.notNull().references('users.id').onDelete('cascade'),
+    )
+    .addColumn('page_id', 'uuid', (col) =>
+      col.references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('space_id', 'uuid', (col) =>
+      col.notNull().references('spaces.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('include_children', 'boolean', (col) =>
+      col.notNull().defaultTo(false),
+    )
+    // muted rows opt the user out of a page they would watch automatically
+    .addColumn('is_muted', 'boolean', (col) => col.notNull().defaultTo(false))
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute();
+
+  // one page watch per user
+  await db.schema
+    .createIndex('watchers_user_id_page_id_unique')
+    .on('watchers')
+    .columns(['user_id', 'page_id'])
+    .unique()
+    .where(sql.ref('page_id'), 'is not', null)
+    .execute();
+
+  // one space watch per user
+  await db.schema
+    .createIndex('watchers_user_id_space_id_unique')
+    .on('watchers')
+    .columns(['user_id', 'space_id'])
+    .unique()
+    .where(sql.ref('page_id'), 'is', null)
+    .execute();
+
+  await db.schema
+    .createIndex('watchers_page_id_idx')
+    .on('watchers')
+    .column('page_id')
+    .execute();
+
+  await db.schema
+    .createIndex('watchers_space_id_idx')
+    .on('watchers')
+    .column('space_id')
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('watchers').execute();
+}
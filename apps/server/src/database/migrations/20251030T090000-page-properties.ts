@@ -0,0 +1,74 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // property definitions apply to the child pages of a parent page,
+  // or to every page in the space when parent_page_id is null
+  await db.schema
+    .createTable('page_properties')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    .addColumn('type', 'varchar(20)', (col) => col.notNull())
+    .addColumn('options', 'jsonb', (col) => col)
+    .addColumn('parent_page_id', 'uuid', (col) =>
+      col.references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('space_id', 'uuid', (col) =>
+      col.notNull().references('spaces.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('creator_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex('page_properties_space_id_parent_page_id_idx')
+    .on('page_properties')
+    .columns(['space_id', 'parent_page_id'])
+    .execute();
+
+  await db.schema
+    .createTable('page_property_values')
+    .addColumn('page_id', 'uuid', (col) =>
+      col.notNull().references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('property_id', 'uuid', (col) =>
+      col.notNull().references('page_properties.id').onDelete('cascade'),
+    )
+    .addColumn('value', 'jsonb', (col) => col.notNull())
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('last_updated_by_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addPrimaryKeyConstraint('page_property_values_pkey', [
+      'page_id',
+      'property_id',
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex('page_property_values_property_id_idx')
+    .on('page_property_values')
+    .column('property_id')
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('page_property_values').execute();
+  await db.schema.dropTable('page_properties').execute();
+}
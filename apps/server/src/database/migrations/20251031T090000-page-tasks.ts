@@ -0,0 +1,49 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('page_tasks')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    // the id attribute of the task item node in the page content
+    .addColumn('task_id', 'varchar(64)', (col) => col.notNull())
+    .addColumn('text', 'text', (col) => col)
+    .addColumn('is_completed', 'boolean', (col) =>
+      col.notNull().defaultTo(false),
+    )
+    .addColumn('assignee_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('due_date', 'date', (col) => col)
+    .addColumn('page_id', 'uuid', (col) =>
+      col.notNull().references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('space_id', 'uuid', (col) =>
+      col.notNull().references('spaces.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addUniqueConstraint('page_tasks_page_id_task_id_unique', [
+      'page_id',
+      'task_id',
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex('page_tasks_assignee_id_is_completed_idx')
+    .on('page_tasks')
+    .columns(['assignee_id', 'is_completed'])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('page_tasks').execute();
+}
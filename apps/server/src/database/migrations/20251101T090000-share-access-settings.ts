@@ -0,0 +1,21 @@
+import { type Kysely } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('shares')
+    .addColumn('password_hash', 'varchar', (col) => col)
+    .addColumn('expires_at', 'timestamptz', (col) => col)
+    .addColumn('disable_download', 'boolean', (col) =>
+      col.notNull().defaultTo(false),
+    )
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('shares')
+    .dropColumn('password_hash')
+    .dropColumn('expires_at')
+    .dropColumn('disable_download')
+    .execute();
+}
@@ -0,0 +1,61 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // raw view events, folded into share_view_stats by a background job
+  await db.schema
+    .createTable('share_view_events')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('share_id', 'uuid', (col) =>
+      col.notNull().references('shares.id').onDelete('cascade'),
+    )
+    .addColumn('page_id', 'uuid', (col) =>
+      col.notNull().references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    // hostname of the referring site, empty for direct and internal visits
+    .addColumn('referrer', 'varchar(255)', (col) => col.notNull().defaultTo(''))
+    .addColumn('day', 'date', (col) =>
+      col.notNull().defaultTo(sql`current_date`),
+    )
+    .execute();
+
+  await db.schema
+    .createTable('share_view_stats')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('share_id', 'uuid', (col) =>
+      col.notNull().references('shares.id').onDelete('cascade'),
+    )
+    .addColumn('page_id', 'uuid', (col) =>
+      col.notNull().references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('referrer', 'varchar(255)', (col) => col.notNull().defaultTo(''))
+    .addColumn('day', 'date', (col) => col.notNull())
+    .addColumn('views', 'integer', (col) => col.notNull().defaultTo(0))
+    .addUniqueConstraint('share_view_stats_share_page_day_referrer_unique', [
+      'share_id',
+      'page_id',
+      'day',
+      'referrer',
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex('share_view_stats_page_id_day_idx')
+    .on('share_view_stats')
+    .columns(['page_id', 'day'])
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('share_view_stats').execute();
+  await db.schema.dropTable('share_view_events').execute();
+}
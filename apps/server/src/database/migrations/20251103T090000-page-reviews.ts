@@ -0,0 +1,106 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('spaces')
+    .addColumn('review_workflow', 'boolean', (col) =>
+      col.notNull().defaultTo(false),
+    )
+    .execute();
+
+  // the last approved version, served to readers and shares
+  // in spaces with the review workflow enabled
+  await db.schema
+    .alterTable('pages')
+    .addColumn('published_content', 'jsonb', (col) => col)
+    .addColumn('published_at', 'timestamptz', (col) => col)
+    .addColumn('published_by_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .execute();
+
+  await db.schema
+    .createTable('page_reviews')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('page_id', 'uuid', (col) =>
+      col.notNull().references('pages.id').onDelete('cascade'),
+    )
+    .addColumn('space_id', 'uuid', (col) =>
+      col.notNull().references('spaces.id').onDelete('cascade'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('requester_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    // pending, approved, rejected or cancelled
+    .addColumn('status', 'varchar(20)', (col) =>
+      col.notNull().defaultTo('pending'),
+    )
+    // snapshot of the page content submitted for review
+    .addColumn('content', 'jsonb', (col) => col)
+    .addColumn('message', 'text', (col) => col)
+    .addColumn('resolved_at', 'timestamptz', (col) => col)
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .addColumn('updated_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute();
+
+  // a page has at most one open review
+  await db.schema
+    .createIndex('page_reviews_pending_page_id_unique')
+    .on('page_reviews')
+    .column('page_id')
+    .unique()
+    .where(sql.ref('status'), '=', 'pending')
+    .execute();
+
+  await db.schema
+    .createTable('page_review_approvers')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('review_id', 'uuid', (col) =>
+      col.notNull().references('page_reviews.id').onDelete('cascade'),
+    )
+    .addColumn('user_id', 'uuid', (col) =>
+      col.notNull().references('users.id').onDelete('cascade'),
+    )
+    // pending, approved or rejected
+    .addColumn('status', 'varchar(20)', (col) =>
+      col.notNull().defaultTo('pending'),
+    )
+    .addColumn('comment', 'text', (col) => col)
+    .addColumn('decided_at', 'timestamptz', (col) => col)
+    .addUniqueConstraint('page_review_approvers_review_id_user_id_unique', [
+      'review_id',
+      'user_id',
+    ])
+    .execute();
+
+  await db.schema
+    .createIndex('page_review_approvers_user_id_idx')
+    .on('page_review_approvers')
+    .column('user_id')
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('page_review_approvers').execute();
+  await db.schema.dropTable('page_reviews').execute();
+
+  await db.schema
+    .alterTable('pages')
+    .dropColumn('published_content')
+    .dropColumn('published_at')
+    .dropColumn('published_by_id')
+    .execute();
+
+  await db.schema.alterTable('spaces').dropColumn('review_workflow').execute();
+}
@@ -0,0 +1,57 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('audit_logs')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    // no foreign keys on actor and space: the trail must keep the ids
+    // after users or spaces are deleted
+    .addColumn('actor_id', 'uuid')
+    .addColumn('action', 'varchar(100)', (col) => col.notNull())
+    .addColumn('resource_type', 'varchar(50)', (col) => col.notNull())
+    .addColumn('resource_id', 'uuid')
+    .addColumn('space_id', 'uuid')
+    .addColumn('metadata', 'jsonb')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex('audit_logs_workspace_id_created_at_idx')
+    .on('audit_logs')
+    .columns(['workspace_id', 'created_at'])
+    .execute();
+
+  await db.schema
+    .createIndex('audit_logs_workspace_id_action_idx')
+    .on('audit_logs')
+    .columns(['workspace_id', 'action'])
+    .execute();
+
+  // entries are append-only. Deletes are still allowed so the
+  // workspace cascade can clean up when a workspace is deleted.
+  await sql`
+    CREATE OR REPLACE FUNCTION audit_logs_prevent_update() RETURNS trigger AS $$
+    BEGIN
+      RAISE EXCEPTION 'audit_logs entries cannot be modified';
+    END;
+    $$ LANGUAGE plpgsql;
+  `.execute(db);
+
+  await sql`
+    CREATE TRIGGER audit_logs_prevent_update
+    BEFORE UPDATE ON audit_logs
+    FOR EACH ROW EXECUTE FUNCTION audit_logs_prevent_update();
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.dropTable('audit_logs').execute();
+  await sql`DROP FUNCTION IF EXISTS audit_logs_prevent_update()`.execute(db);
+}
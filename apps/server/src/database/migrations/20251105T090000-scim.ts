@@ -0,0 +1,47 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .createTable('scim_tokens')
+    .addColumn('id', 'uuid', (col) =>
+      col.primaryKey().defaultTo(sql`gen_uuid_v7()`),
+    )
+    .addColumn('name', 'varchar(100)', (col) => col.notNull())
+    // sha256 of the token, the token itself is only shown once
+    .addColumn('token_hash', 'varchar(64)', (col) => col.notNull().unique())
+    .addColumn('token_hint', 'varchar(8)', (col) => col.notNull())
+    .addColumn('creator_id', 'uuid', (col) =>
+      col.references('users.id').onDelete('set null'),
+    )
+    .addColumn('workspace_id', 'uuid', (col) =>
+      col.notNull().references('workspaces.id').onDelete('cascade'),
+    )
+    .addColumn('last_used_at', 'timestamptz')
+    .addColumn('created_at', 'timestamptz', (col) =>
+      col.notNull().defaultTo(sql`now()`),
+    )
+    .execute();
+
+  await db.schema
+    .createIndex('scim_tokens_workspace_id_idx')
+    .on('scim_tokens')
+    .column('workspace_id')
+    .execute();
+
+  // the id the identity provider uses for the resource
+  await db.schema
+    .alterTable('users')
+    .addColumn('scim_external_id', 'varchar(255)', (col) => col)
+    .execute();
+
+  await db.schema
+    .alterTable('groups')
+    .addColumn('scim_external_id', 'varchar(255)', (col) => col)
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('groups').dropColumn('scim_external_id').execute();
+  await db.schema.alterTable('users').dropColumn('scim_external_id').execute();
+  await db.schema.dropTable('scim_tokens').execute();
+}
@@ -0,0 +1,19 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // null keeps full access for keys created before scopes existed
+  await db.schema
+    .alterTable('api_keys')
+    .addColumn('scopes', sql`varchar[]`, (col) => col)
+    .execute();
+
+  // new keys have no access until their scopes are saved
+  await db.schema
+    .alterTable('api_keys')
+    .alterColumn('scopes', (col) => col.setDefault(sql`'{}'::varchar[]`))
+    .execute();
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema.alterTable('api_keys').dropColumn('scopes').execute();
+}
@@ -0,0 +1,33 @@
+import { Kysely, sql } from 'kysely';
+
+export async function up(db: Kysely<any>): Promise<void> {
+  // workspace templates are used as published, not from their live page
+  await db.schema
+    .alterTable('page_templates')
+    .addColumn('published_title', 'varchar', (col) => col)
+    .addColumn('published_icon', 'varchar', (col) => col)
+    .addColumn('published_content', 'jsonb', (col) => col)
+    .addColumn('published_at', 'timestamptz', (col) => col)
+    .execute();
+
+  await sql`
+    UPDATE page_templates
+    SET published_title = pages.title,
+        published_icon = pages.icon,
+        published_content = pages.content,
+        published_at = now()
+    FROM pages
+    WHERE pages.id = page_templates.page_id
+      AND page_templates.scope = 'workspace'
+  `.execute(db);
+}
+
+export async function down(db: Kysely<any>): Promise<void> {
+  await db.schema
+    .alterTable('page_templates')
+    .dropColumn('published_title')
+    .dropColumn('published_icon')
+    .dropColumn('published_content')
+    .dropColumn('published_at')
+    .execute();
+}
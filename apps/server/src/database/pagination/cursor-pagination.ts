@@ -0,0 +1,104 @@
+// adapted from https://github.com/charlie-hadden/kysely-paginate/blob/main/src/cursor.ts - MIT
+import { BadRequestException } from '@nestjs/common';
+import { SelectQueryBuilder, StringReference } from 'kysely';
+
+export type CursorPaginationMeta = {
+  limit: number;
+  hasNextPage: boolean;
+  nextCursor: string | null;
+};
+export type CursorPaginationResult<T> = {
+  items: T[];
+  meta: CursorPaginationMeta;
+};
+
+export type CursorField<DB, TB extends keyof DB, O> = {
+  expression: StringReference<DB, TB>;
+  // the selected column holding the value of the expression
+  key: keyof O & string;
+  direction: 'asc' | 'desc';
+};
+
+export function encodeCursor(values: unknown[]): string {
+  return Buffer.from(JSON.stringify(values)).toString('base64url');
+}
+
+export function decodeCursor(cursor: string, length: number): unknown[] {
+  let values: unknown;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+  } catch {
+    throw new BadRequestException('Invalid cursor');
+  }
+
+  if (!Array.isArray(values) || values.length !== length) {
+    throw new BadRequestException('Invalid cursor');
+  }
+  return values;
+}
+
+/*
+ * Keyset pagination over the given fields.
+ * The fields must be unique together and their values must survive a JSON
+ * round trip, so prefer ids (uuid v7 ids sort by creation time) over timestamps.
+ */
+export async function executeWithCursorPagination<O, DB, TB extends keyof DB>(
+  qb: SelectQueryBuilder<DB, TB, O>,
+  opts: {
+    perPage: number;
+    cursor?: string;
+    fields: CursorField<DB, TB, O>[];
+  },
+): Promise<CursorPaginationResult<O>> {
+  const { perPage, fields } = opts;
+
+  for (const field of fields) {
+    qb = qb.orderBy(field.expression, field.direction);
+  }
+
+  if (opts.cursor) {
+    const values = decodeCursor(opts.cursor, fields.length);
+
+    // (a > x) or (a = x and b > y) ...
+    qb = qb.where((eb) =>
+      eb.or(
+        fields.map((field, index) =>
+          eb.and([
+            ...fields
+              .slice(0, index)
+              .map((previous, i) =>
+                eb(previous.expression as any, '=', values[i]),
+              ),
+            eb(
+              field.expression as any,
+              field.direction === 'asc' ? '>' : '<',
+              values[index],
+            ),
+          ]),
+        ),
+      ),
+    );
+  }
+
+  const rows = await qb.limit(perPage + 1).execute();
+
+  const hasNextPage = rows.length > perPage;
+  if (hasNextPage) {
+    rows.pop();
+  }
+
+  const lastRow = rows[rows.length - 1];
+  const nextCursor =
+    hasNextPage && lastRow
+      ? encodeCursor(fields.map((field) => lastRow[field.key]))
+      : null;
+
+  return {
+    items: rows,
+    meta: {
+      limit: perPage,
+      hasNextPage,
+      nextCursor,
+    },
+  };
+}
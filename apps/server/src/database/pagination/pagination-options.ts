@@ -1,5 +1,7 @@
+import { Type } from 'class-transformer';
 import {
   IsBoolean,
+  IsInt,
   IsNumber,
   IsOptional,
   IsPositive,
@@ -29,3 +31,17 @@ export class PaginationOptions {
   @IsBoolean()
   adminView: boolean;
 }
+
+export class CursorPaginationOptions {
+  @IsOptional()
+  @IsString()
+  cursor?: string;
+
+  // query string values arrive as strings
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(100)
+  limit = 20;
+}
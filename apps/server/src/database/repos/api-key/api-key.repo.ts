@@ -0,0 +1,54 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import { ApiKey, UpdatableApiKey } from '@docmost/db/types/entity.types';
+
+@Injectable()
+export class ApiKeyRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  private baseFields: Array<keyof ApiKey> = [
+    'id',
+    'name',
+    'scopes',
+    'creatorId',
+    'workspaceId',
+    'expiresAt',
+    'lastUsedAt',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  async findById(
+    apiKeyId: string,
+    workspaceId: string,
+    opts?: { trx?: KyselyTransaction },
+  ): Promise<ApiKey> {
+    const db = dbOrTx(this.db, opts?.trx);
+    return db
+      .selectFrom('apiKeys')
+      .select(this.baseFields)
+      .where('id', '=', apiKeyId)
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .executeTakeFirst();
+  }
+
+  async updateApiKey(
+    updatableApiKey: UpdatableApiKey,
+    apiKeyId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<ApiKey> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .updateTable('apiKeys')
+      .set({ ...updatableApiKey, updatedAt: new Date() })
+      .where('id', '=', apiKeyId)
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .returning(this.baseFields)
+      .executeTakeFirst();
+  }
+}
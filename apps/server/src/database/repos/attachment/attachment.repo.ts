@@ -7,6 +7,8 @@ import {
   InsertableAttachment,
   UpdatableAttachment,
 } from '@docmost/db/types/entity.types';
+import { CursorPaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithCursorPagination } from '@docmost/db/pagination/cursor-pagination';
 
 @Injectable()
 export class AttachmentRepo {
@@ -72,6 +74,23 @@ export class AttachmentRepo {
       .execute();
   }
 
+  async findPageAttachmentsByCursor(
+    pageId: string,
+    pagination: CursorPaginationOptions,
+  ) {
+    const query = this.db
+      .selectFrom('attachments')
+      .select(this.baseFields)
+      .where('pageId', '=', pageId)
+      .where('deletedAt', 'is', null);
+
+    return executeWithCursorPagination(query, {
+      perPage: pagination.limit,
+      cursor: pagination.cursor,
+      fields: [{ expression: 'id', key: 'id', direction: 'asc' }],
+    });
+  }
+
   updateAttachmentsByPageId(
     updatableAttachment: UpdatableAttachment,
     pageIds: string[],
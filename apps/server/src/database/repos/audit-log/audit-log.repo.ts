@@ -0,0 +1,98 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import { AuditLog, InsertableAuditLog } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { ExpressionBuilder } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonObjectFrom } from 'kysely/helpers/postgres';
+
+export interface AuditLogFilters {
+  action?: string;
+  actorId?: string;
+  resourceType?: string;
+  resourceId?: string;
+  spaceId?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+@Injectable()
+export class AuditLogRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async insertAuditLog(
+    insertableAuditLog: InsertableAuditLog,
+    trx?: KyselyTransaction,
+  ): Promise<AuditLog> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('auditLogs')
+      .values(insertableAuditLog)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async getAuditLogsPaginated(
+    workspaceId: string,
+    filters: AuditLogFilters,
+    pagination: PaginationOptions,
+  ) {
+    const query = this.buildFilteredQuery(workspaceId, filters);
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  async getAuditLogsForExport(
+    workspaceId: string,
+    filters: AuditLogFilters,
+    limit: number,
+  ) {
+    return this.buildFilteredQuery(workspaceId, filters).limit(limit).execute();
+  }
+
+  private buildFilteredQuery(workspaceId: string, filters: AuditLogFilters) {
+    return this.db
+      .selectFrom('auditLogs')
+      .selectAll('auditLogs')
+      .select((eb) => this.withActor(eb))
+      .where('workspaceId', '=', workspaceId)
+      .$if(Boolean(filters.action), (qb) =>
+        qb.where('action', '=', filters.action),
+      )
+      .$if(Boolean(filters.actorId), (qb) =>
+        qb.where('actorId', '=', filters.actorId),
+      )
+      .$if(Boolean(filters.resourceType), (qb) =>
+        qb.where('resourceType', '=', filters.resourceType),
+      )
+      .$if(Boolean(filters.resourceId), (qb) =>
+        qb.where('resourceId', '=', filters.resourceId),
+      )
+      .$if(Boolean(filters.spaceId), (qb) =>
+        qb.where('spaceId', '=', filters.spaceId),
+      )
+      .$if(Boolean(filters.startDate), (qb) =>
+        qb.where('createdAt', '>=', filters.startDate),
+      )
+      .$if(Boolean(filters.endDate), (qb) =>
+        qb.where('createdAt', '<=', filters.endDate),
+      )
+      .orderBy('createdAt', 'desc')
+      .orderBy('id', 'desc');
+  }
+
+  withActor(eb: ExpressionBuilder<DB, 'auditLogs'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.email', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'auditLogs.actorId'),
+    ).as('actor');
+  }
+}
@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '../../types/kysely.types';
+import { InsertableCommentReaction } from '@docmost/db/types/entity.types';
+import { ExpressionBuilder, sql } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonArrayFrom } from 'kysely/helpers/postgres';
+
+export interface CommentReactionSummary {
+  emoji: string;
+  count: number;
+  reactors: { id: string; name: string }[];
+}
+
+@Injectable()
+export class CommentReactionRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async insertReaction(
+    insertableReaction: InsertableCommentReaction,
+  ): Promise<void> {
+    await this.db
+      .insertInto('commentReactions')
+      .values(insertableReaction)
+      .onConflict((oc) =>
+        oc.columns(['commentId', 'userId', 'emoji']).doNothing(),
+      )
+      .execute();
+  }
+
+  async deleteReaction(
+    commentId: string,
+    userId: string,
+    emoji: string,
+  ): Promise<void> {
+    await this.db
+      .deleteFrom('commentReactions')
+      .where('commentId', '=', commentId)
+      .where('userId', '=', userId)
+      .where('emoji', '=', emoji)
+      .execute();
+  }
+
+  async getCommentReactions(
+    commentId: string,
+  ): Promise<CommentReactionSummary[]> {
+    const comment = await this.db
+      .selectFrom('comments')
+      .select((eb) => this.withReactions(eb))
+      .where('id', '=', commentId)
+      .executeTakeFirst();
+
+    return comment?.reactions ?? [];
+  }
+
+  /*
+   * Reactions of a comment grouped by emoji,
+   * in the order each emoji was first used.
+   */
+  withReactions(eb: ExpressionBuilder<DB, 'comments'>) {
+    return jsonArrayFrom(
+      eb
+        .selectFrom('commentReactions')
+        .innerJoin('users', 'users.id', 'commentReactions.userId')
+        .select((eb) => [
+          'commentReactions.emoji',
+          eb.fn.countAll<number>().as('count'),
+          sql<
+            { id: string; name: string }[]
+          >`json_agg(json_build_object('id', users.id, 'name', users.name) order by comment_reactions.created_at)`.as(
+            'reactors',
+          ),
+        ])
+        .whereRef('commentReactions.commentId', '=', 'comments.id')
+        .groupBy('commentReactions.emoji')
+        .orderBy(sql`min(comment_reactions.created_at)`),
+    ).as('reactions');
+  }
+}
@@ -7,15 +7,23 @@ import {
   InsertableComment,
   UpdatableComment,
 } from '@docmost/db/types/entity.types';
-import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import {
+  CursorPaginationOptions,
+  PaginationOptions,
+} from '@docmost/db/pagination/pagination-options';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { executeWithCursorPagination } from '@docmost/db/pagination/cursor-pagination';
 import { ExpressionBuilder } from 'kysely';
 import { DB } from '@docmost/db/types/db';
 import { jsonObjectFrom } from 'kysely/helpers/postgres';
+import { CommentReactionRepo } from './comment-reaction.repo';
 
 @Injectable()
 export class CommentRepo {
-  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly commentReactionRepo: CommentReactionRepo,
+  ) {}
 
   // todo, add workspaceId
   async findById(
@@ -37,6 +45,7 @@ export class CommentRepo {
       .selectAll('comments')
       .select((eb) => this.withCreator(eb))
       .select((eb) => this.withResolvedBy(eb))
+      .select((eb) => this.commentReactionRepo.withReactions(eb))
       .where('pageId', '=', pageId)
       .orderBy('createdAt', 'asc');
 
@@ -48,6 +57,23 @@ export class CommentRepo {
     return result;
   }
 
+  async findPageCommentsByCursor(
+    pageId: string,
+    pagination: CursorPaginationOptions,
+  ) {
+    const query = this.db
+      .selectFrom('comments')
+      .selectAll('comments')
+      .select((eb) => this.withCreator(eb))
+      .where('pageId', '=', pageId);
+
+    return executeWithCursorPagination(query, {
+      perPage: pagination.limit,
+      cursor: pagination.cursor,
+      fields: [{ expression: 'comments.id', key: 'id', direction: 'asc' }],
+    });
+  }
+
   async updateComment(
     updatableComment: UpdatableComment,
     commentId: string,
@@ -115,4 +141,25 @@ export class CommentRepo {
 
     return Number(result?.count) > 0;
   }
+
+  /*
+   * Returns the ids of everyone who took part in a comment thread,
+   * the author of the parent comment included.
+   */
+  async getThreadParticipantIds(parentCommentId: string): Promise<string[]> {
+    const rows = await this.db
+      .selectFrom('comments')
+      .select('creatorId')
+      .distinct()
+      .where((eb) =>
+        eb.or([
+          eb('id', '=', parentCommentId),
+          eb('parentCommentId', '=', parentCommentId),
+        ]),
+      )
+      .where('creatorId', 'is not', null)
+      .execute();
+
+    return rows.map((row) => row.creatorId);
+  }
 }
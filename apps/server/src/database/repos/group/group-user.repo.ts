@@ -145,6 +145,48 @@ export class GroupUserRepo {
     );
   }
 
+  async insertGroupUsers(
+    userIds: string[],
+    groupId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    if (userIds.length === 0) return;
+    const db = dbOrTx(this.db, trx);
+
+    // only add active users of the workspace
+    const validUsers = await db
+      .selectFrom('users')
+      .select('id')
+      .where('id', 'in', userIds)
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .execute();
+
+    if (validUsers.length === 0) return;
+
+    await db
+      .insertInto('groupUsers')
+      .values(validUsers.map((user) => ({ userId: user.id, groupId })))
+      .onConflict((oc) => oc.columns(['userId', 'groupId']).doNothing())
+      .execute();
+  }
+
+  async deleteGroupUsers(
+    groupId: string,
+    opts?: { userIds?: string[]; trx?: KyselyTransaction },
+  ): Promise<void> {
+    if (opts?.userIds && opts.userIds.length === 0) return;
+
+    await dbOrTx(this.db, opts?.trx)
+      .deleteFrom('groupUsers')
+      .where('groupId', '=', groupId)
+      .$if(Boolean(opts?.userIds), (qb) =>
+        qb.where('userId', 'in', opts.userIds),
+      )
+      .execute();
+  }
+
   async delete(userId: string, groupId: string): Promise<void> {
     await this.db
       .deleteFrom('groupUsers')
@@ -7,7 +7,8 @@ import {
   InsertableGroup,
   UpdatableGroup,
 } from '@docmost/db/types/entity.types';
-import { ExpressionBuilder, sql } from 'kysely';
+import { Expression, ExpressionBuilder, SqlBool, sql } from 'kysely';
+import { jsonArrayFrom } from 'kysely/helpers/postgres';
 import { PaginationOptions } from '../../pagination/pagination-options';
 import { DB } from '@docmost/db/types/db';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
@@ -51,8 +52,10 @@ export class GroupRepo {
     updatableGroup: UpdatableGroup,
     groupId: string,
     workspaceId: string,
+    trx?: KyselyTransaction,
   ): Promise<void> {
-    await this.db
+    const db = dbOrTx(this.db, trx);
+    await db
       .updateTable('groups')
       .set({ ...updatableGroup, updatedAt: new Date() })
       .where('id', '=', groupId)
@@ -130,6 +133,71 @@ export class GroupRepo {
     return result;
   }
 
+  async findScimGroupById(
+    groupId: string,
+    workspaceId: string,
+    opts?: { includeMembers?: boolean; trx?: KyselyTransaction },
+  ) {
+    return this.scimGroupsQuery(workspaceId, opts?.includeMembers, opts?.trx)
+      .where('groups.id', '=', groupId)
+      .executeTakeFirst();
+  }
+
+  async getScimGroups(
+    workspaceId: string,
+    opts: {
+      filter?: Expression<SqlBool>;
+      offset: number;
+      limit: number;
+      includeMembers?: boolean;
+    },
+  ) {
+    const query = this.db
+      .selectFrom('groups')
+      .where('workspaceId', '=', workspaceId)
+      .where('isDefault', '=', false)
+      .$if(Boolean(opts.filter), (qb) => qb.where(opts.filter));
+
+    const [{ count }, groups] = await Promise.all([
+      query.select((eb) => eb.fn.countAll().as('count')).executeTakeFirst(),
+      this.scimGroupsQuery(workspaceId, opts.includeMembers)
+        .$if(Boolean(opts.filter), (qb) => qb.where(opts.filter))
+        .orderBy('groups.createdAt', 'asc')
+        .orderBy('groups.id', 'asc')
+        .offset(opts.offset)
+        .limit(opts.limit)
+        .execute(),
+    ]);
+
+    return { groups, total: Number(count) };
+  }
+
+  // default groups are managed by the workspace and hidden from SCIM
+  private scimGroupsQuery(
+    workspaceId: string,
+    includeMembers: boolean,
+    trx?: KyselyTransaction,
+  ) {
+    return dbOrTx(this.db, trx)
+      .selectFrom('groups')
+      .selectAll('groups')
+      .$if(includeMembers, (qb) => qb.select((eb) => this.withScimMembers(eb)))
+      .where('workspaceId', '=', workspaceId)
+      .where('isDefault', '=', false);
+  }
+
+  withScimMembers(eb: ExpressionBuilder<DB, 'groups'>) {
+    return jsonArrayFrom(
+      eb
+        .selectFrom('users')
+        .innerJoin('groupUsers', 'groupUsers.userId', 'users.id')
+        .select(['users.id', 'users.name', 'users.email'])
+        .whereRef('groupUsers.groupId', '=', 'groups.id')
+        .where('users.deletedAt', 'is', null)
+        .orderBy('groupUsers.createdAt'),
+    ).as('members');
+  }
+
   withMemberCount(eb: ExpressionBuilder<DB, 'groups'>) {
     return eb
       .selectFrom('groupUsers')
@@ -0,0 +1,184 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '../../types/kysely.types';
+import { dbOrTx } from '../../utils';
+import { DB } from '@docmost/db/types/db';
+import { Label } from '@docmost/db/types/entity.types';
+import { ExpressionBuilder, sql } from 'kysely';
+import { jsonArrayFrom } from 'kysely/helpers/postgres';
+import { PaginationOptions } from '../../pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { PageRepo } from '../page/page.repo';
+import { PagePermissionRepo } from '../page/page-permission.repo';
+import { SpaceMemberRepo } from '../space/space-member.repo';
+
+@Injectable()
+export class LabelRepo {
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly pageRepo: PageRepo,
+    private readonly pagePermissionRepo: PagePermissionRepo,
+    private readonly spaceMemberRepo: SpaceMemberRepo,
+  ) {}
+
+  async findById(labelId: string, workspaceId: string): Promise<Label> {
+    return this.db
+      .selectFrom('labels')
+      .selectAll()
+      .where('id', '=', labelId)
+      .where('workspaceId', '=', workspaceId)
+      .executeTakeFirst();
+  }
+
+  async findByName(name: string, workspaceId: string): Promise<Label> {
+    return this.db
+      .selectFrom('labels')
+      .selectAll()
+      .where('name', '=', name)
+      .where('workspaceId', '=', workspaceId)
+      .executeTakeFirst();
+  }
+
+  async getLabelsInWorkspace(
+    workspaceId: string,
+    pagination: PaginationOptions,
+  ) {
+    let query = this.db
+      .selectFrom('labels')
+      .select(['id', 'name', 'color', 'createdAt'])
+      .where('workspaceId', '=', workspaceId)
+      .orderBy('name', 'asc');
+
+    if (pagination.query) {
+      query = query.where(
+        sql`f_unaccent(labels.name)`,
+        'ilike',
+        sql`f_unaccent(${'%' + pagination.query.trim() + '%'})`,
+      );
+    }
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  async getPageLabels(pageId: string, trx?: KyselyTransaction) {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .selectFrom('pageLabels')
+      .innerJoin('labels', 'labels.id', 'pageLabels.labelId')
+      .select(['labels.id', 'labels.name', 'labels.color'])
+      .where('pageLabels.pageId', '=', pageId)
+      .orderBy('labels.name', 'asc')
+      .execute();
+  }
+
+  /*
+   * Attaches labels to a page by name.
+   * Labels that do not exist in the workspace yet are created.
+   */
+  async addPageLabelsByName(
+    pageId: string,
+    names: string[],
+    opts: { workspaceId: string; creatorId: string },
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    if (names.length === 0) return;
+    const db = dbOrTx(this.db, trx);
+
+    await db
+      .insertInto('labels')
+      .values(
+        names.map((name) => ({
+          name,
+          workspaceId: opts.workspaceId,
+          creatorId: opts.creatorId,
+        })),
+      )
+      .onConflict((oc) => oc.columns(['workspaceId', 'name']).doNothing())
+      .execute();
+
+    await db
+      .insertInto('pageLabels')
+      .columns(['pageId', 'labelId', 'workspaceId'])
+      .expression((eb) =>
+        eb
+          .selectFrom('labels')
+          .select([
+            sql<string>`${pageId}::uuid`.as('pageId'),
+            'labels.id',
+            'labels.workspaceId',
+          ])
+          .where('labels.workspaceId', '=', opts.workspaceId)
+          .where('labels.name', 'in', names),
+      )
+      .onConflict((oc) => oc.columns(['pageId', 'labelId']).doNothing())
+      .execute();
+  }
+
+  async removePageLabel(
+    pageId: string,
+    labelId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .deleteFrom('pageLabels')
+      .where('pageId', '=', pageId)
+      .where('labelId', '=', labelId)
+      .execute();
+  }
+
+  /*
+   * Pages carrying a label, limited to the spaces the user is a member of
+   * and the pages they are allowed to see.
+   */
+  async getLabelPages(
+    labelId: string,
+    userId: string,
+    pagination: PaginationOptions,
+  ) {
+    const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
+
+    const query = this.db
+      .selectFrom('pages')
+      .innerJoin('pageLabels', 'pageLabels.pageId', 'pages.id')
+      .select([
+        'pages.id',
+        'pages.slugId',
+        'pages.title',
+        'pages.icon',
+        'pages.spaceId',
+        'pages.updatedAt',
+      ])
+      .select((eb) => this.pageRepo.withSpace(eb))
+      .select((eb) => this.withLabels(eb))
+      .where('pageLabels.labelId', '=', labelId)
+      .where('pages.spaceId', 'in', userSpaceIds)
+      .where('pages.deletedAt', 'is', null)
+      .where(
+        'pages.id',
+        'not in',
+        this.pagePermissionRepo.getInaccessiblePageIds(userId),
+      )
+      .orderBy('pages.updatedAt', 'desc');
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+      hasEmptyIds: userSpaceIds.length === 0,
+    });
+  }
+
+  withLabels(eb: ExpressionBuilder<DB, 'pages'>) {
+    return jsonArrayFrom(
+      eb
+        .selectFrom('pageLabels')
+        .innerJoin('labels', 'labels.id', 'pageLabels.labelId')
+        .select(['labels.id', 'labels.name', 'labels.color'])
+        .whereRef('pageLabels.pageId', '=', 'pages.id')
+        .orderBy('labels.name', 'asc'),
+    ).as('labels');
+  }
+}
@@ -0,0 +1,203 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '../../types/kysely.types';
+import { dbOrTx } from '../../utils';
+import {
+  InsertableNotification,
+  Notification,
+  UpdatableNotification,
+} from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { ExpressionBuilder, sql } from 'kysely';
+import { jsonObjectFrom } from 'kysely/helpers/postgres';
+import { DB } from '@docmost/db/types/db';
+
+@Injectable()
+export class NotificationRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async insertNotifications(
+    insertableNotifications: InsertableNotification[],
+    trx?: KyselyTransaction,
+  ): Promise<Notification[]> {
+    if (insertableNotifications.length === 0) return [];
+
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('notifications')
+      .values(insertableNotifications)
+      .returningAll()
+      .execute();
+  }
+
+  async updateNotification(
+    updatableNotification: UpdatableNotification,
+    notificationId: string,
+  ): Promise<void> {
+    await this.db
+      .updateTable('notifications')
+      .set(updatableNotification)
+      .where('id', '=', notificationId)
+      .execute();
+  }
+
+  // unread notifications of a page that were not emailed yet
+  async findPendingNotifications(
+    type: string,
+    pageId: string,
+    userIds: string[],
+  ): Promise<Notification[]> {
+    if (userIds.length === 0) return [];
+
+    return this.db
+      .selectFrom('notifications')
+      .selectAll()
+      .where('type', '=', type)
+      .where('pageId', '=', pageId)
+      .where('userId', 'in', userIds)
+      .where('readAt', 'is', null)
+      .where('emailedAt', 'is', null)
+      .execute();
+  }
+
+  async getUserNotifications(
+    userId: string,
+    workspaceId: string,
+    pagination: PaginationOptions,
+    opts?: { unreadOnly?: boolean },
+  ) {
+    const query = this.db
+      .selectFrom('notifications')
+      .selectAll('notifications')
+      .select((eb) => this.withActor(eb))
+      .select((eb) => this.withPage(eb))
+      .select((eb) => this.withSpace(eb))
+      .where('userId', '=', userId)
+      .where('workspaceId', '=', workspaceId)
+      .$if(Boolean(opts?.unreadOnly), (qb) => qb.where('readAt', 'is', null))
+      .orderBy('createdAt', 'desc');
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  async getUnreadCount(userId: string, workspaceId: string): Promise<number> {
+    const { count } = await this.db
+      .selectFrom('notifications')
+      .select((eb) => eb.fn.countAll().as('count'))
+      .where('userId', '=', userId)
+      .where('workspaceId', '=', workspaceId)
+      .where('readAt', 'is', null)
+      .executeTakeFirst();
+
+    return Number(count);
+  }
+
+  async markAsRead(notificationIds: string[], userId: string): Promise<void> {
+    await this.db
+      .updateTable('notifications')
+      .set({ readAt: new Date() })
+      .where('id', 'in', notificationIds)
+      .where('userId', '=', userId)
+      .where('readAt', 'is', null)
+      .execute();
+  }
+
+  async markAllAsRead(userId: string, workspaceId: string): Promise<void> {
+    await this.db
+      .updateTable('notifications')
+      .set({ readAt: new Date() })
+      .where('userId', '=', userId)
+      .where('workspaceId', '=', workspaceId)
+      .where('readAt', 'is', null)
+      .execute();
+  }
+
+  /*
+   * Users with unread notifications that were not emailed yet,
+   * whose oldest pending notification is older than their digest frequency.
+   */
+  async getUserIdsDueForDigest(): Promise<string[]> {
+    const frequency = sql<string>`coalesce(users.settings->'notifications'->>'emailDigest', 'hourly')`;
+
+    const rows = await this.db
+      .selectFrom('notifications')
+      .innerJoin('users', 'users.id', 'notifications.userId')
+      .select('notifications.userId')
+      .where('notifications.emailedAt', 'is', null)
+      .where('notifications.readAt', 'is', null)
+      .where('users.deletedAt', 'is', null)
+      .where('users.deactivatedAt', 'is', null)
+      .where(frequency, '!=', 'off')
+      .groupBy(['notifications.userId', 'users.settings'])
+      .having(
+        (eb) => eb.fn.min('notifications.createdAt'),
+        '<=',
+        sql<Date>`now() - (case when ${frequency} = 'daily' then interval '1 day' else interval '1 hour' end)`,
+      )
+      .execute();
+
+    return rows.map((row) => row.userId);
+  }
+
+  /*
+   * Marks the user's pending notifications as emailed and returns them.
+   * Claiming in a single update keeps concurrent digest runs from sending twice.
+   */
+  async claimPendingDigest(userId: string) {
+    const claimed = await this.db
+      .updateTable('notifications')
+      .set({ emailedAt: new Date() })
+      .where('userId', '=', userId)
+      .where('emailedAt', 'is', null)
+      .where('readAt', 'is', null)
+      .returning('id')
+      .execute();
+
+    if (claimed.length === 0) return [];
+
+    return this.db
+      .selectFrom('notifications')
+      .selectAll('notifications')
+      .select((eb) => this.withActor(eb))
+      .select((eb) => this.withPage(eb))
+      .select((eb) => this.withSpace(eb))
+      .where(
+        'id',
+        'in',
+        claimed.map((notification) => notification.id),
+      )
+      .orderBy('createdAt', 'desc')
+      .execute();
+  }
+
+  withActor(eb: ExpressionBuilder<DB, 'notifications'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'notifications.actorId'),
+    ).as('actor');
+  }
+
+  withPage(eb: ExpressionBuilder<DB, 'notifications'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('pages')
+        .select(['pages.id', 'pages.slugId', 'pages.title', 'pages.icon'])
+        .whereRef('pages.id', '=', 'notifications.pageId'),
+    ).as('page');
+  }
+
+  withSpace(eb: ExpressionBuilder<DB, 'notifications'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('spaces')
+        .select(['spaces.id', 'spaces.name', 'spaces.slug'])
+        .whereRef('spaces.id', '=', 'notifications.spaceId'),
+    ).as('space');
+  }
+}
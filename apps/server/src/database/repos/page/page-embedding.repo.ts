@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '../../types/kysely.types';
+import { executeTx } from '../../utils';
+import { InsertablePageEmbedding } from '@docmost/db/types/entity.types';
+import { sql } from 'kysely';
+
+export interface SimilarPage {
+  pageId: string;
+  similarity: number;
+}
+
+@Injectable()
+export class PageEmbeddingRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  /*
+   * Replaces all embeddings of a page with the given chunks.
+   */
+  async replacePageEmbeddings(
+    pageId: string,
+    insertablePageEmbeddings: InsertablePageEmbedding[],
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    await executeTx(
+      this.db,
+      async (trx) => {
+        await trx
+          .deleteFrom('pageEmbeddings')
+          .where('pageId', '=', pageId)
+          .execute();
+
+        if (insertablePageEmbeddings.length > 0) {
+          await trx
+            .insertInto('pageEmbeddings')
+            .values(
+              insertablePageEmbeddings.map((pageEmbedding) => ({
+                ...pageEmbedding,
+                embedding:
+                  sql`${toVector(pageEmbedding.embedding)}::vector` as any,
+              })),
+            )
+            .execute();
+        }
+      },
+      trx,
+    );
+  }
+
+  async getWorkspacePageIds(workspaceId: string): Promise<string[]> {
+    const pages = await this.db
+      .selectFrom('pages')
+      .select('id')
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .execute();
+    return pages.map((page) => page.id);
+  }
+
+  async softDeleteByPageIds(pageIds: string[]): Promise<void> {
+    await this.db
+      .updateTable('pageEmbeddings')
+      .set({ deletedAt: new Date() })
+      .where('pageId', 'in', pageIds)
+      .execute();
+  }
+
+  async restoreByPageIds(pageIds: string[]): Promise<void> {
+    await this.db
+      .updateTable('pageEmbeddings')
+      .set({ deletedAt: null })
+      .where('pageId', 'in', pageIds)
+      .execute();
+  }
+
+  async deleteByPageIds(pageIds: string[]): Promise<void> {
+    await this.db
+      .deleteFrom('pageEmbeddings')
+      .where('pageId', 'in', pageIds)
+      .execute();
+  }
+
+  async deleteByWorkspaceId(workspaceId: string): Promise<void> {
+    await this.db
+      .deleteFrom('pageEmbeddings')
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  async syncSpaceIds(pageIds: string[]): Promise<void> {
+    await this.db
+      .updateTable('pageEmbeddings')
+      .set((eb) => ({
+        spaceId: eb
+          .selectFrom('pages')
+          .select('pages.spaceId')
+          .whereRef('pages.id', '=', 'pageEmbeddings.pageId'),
+        updatedAt: new Date(),
+      }))
+      .where('pageId', 'in', pageIds)
+      .execute();
+  }
+
+  /*
+   * Returns the pages whose chunks are closest to the embedding (cosine similarity).
+   * Only embeddings from the same model are compared.
+   */
+  async findSimilarPages(
+    embedding: number[],
+    opts: {
+      workspaceId: string;
+      modelName: string;
+      spaceId?: string;
+      limit: number;
+    },
+  ): Promise<SimilarPage[]> {
+    const dimensions = embedding.length;
+    // the cast matches the per-dimension hnsw indexes
+    const vectorType = sql.raw(`vector(${Math.trunc(dimensions)})`);
+    const distance = sql<number>`page_embeddings.embedding::${vectorType} <=> ${toVector(embedding)}::${vectorType}`;
+
+    const nearestChunks = this.db
+      .selectFrom('pageEmbeddings')
+      .select(['pageId', sql<number>`1 - (${distance})`.as('similarity')])
+      .where('workspaceId', '=', opts.workspaceId)
+      .where('modelName', '=', opts.modelName)
+      .where('modelDimensions', '=', dimensions)
+      .where('deletedAt', 'is', null)
+      .$if(Boolean(opts.spaceId), (qb) =>
+        qb.where('spaceId', '=', opts.spaceId),
+      )
+      .orderBy(distance)
+      // a page can own several of the nearest chunks
+      .limit(opts.limit * 4);
+
+    const rows = await this.db
+      .selectFrom(nearestChunks.as('chunks'))
+      .select([
+        'chunks.pageId',
+        (eb) => eb.fn.max('chunks.similarity').as('similarity'),
+      ])
+      .groupBy('chunks.pageId')
+      .orderBy('similarity', 'desc')
+      .limit(opts.limit)
+      .execute();
+
+    return rows.map((row) => ({
+      pageId: row.pageId,
+      similarity: Number(row.similarity),
+    }));
+  }
+}
+
+function toVector(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
@@ -6,11 +6,12 @@ import {
   InsertablePageHistory,
   Page,
   PageHistory,
+  UpdatablePageHistory,
 } from '@docmost/db/types/entity.types';
 import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
 import { jsonObjectFrom } from 'kysely/helpers/postgres';
-import { ExpressionBuilder } from 'kysely';
+import { ExpressionBuilder, sql } from 'kysely';
 import { DB } from '@docmost/db/types/db';
 
 @Injectable()
@@ -43,6 +44,19 @@ export class PageHistoryRepo {
       .executeTakeFirst();
   }
 
+  async updatePageHistory(
+    updatablePageHistory: UpdatablePageHistory,
+    pageHistoryId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .updateTable('pageHistory')
+      .set({ ...updatablePageHistory, updatedAt: new Date() })
+      .where('id', '=', pageHistoryId)
+      .execute();
+  }
+
   async saveHistory(page: Page, trx?: KyselyTransaction): Promise<void> {
     await this.insertPageHistory(
       {
@@ -60,12 +74,17 @@ export class PageHistoryRepo {
     );
   }
 
-  async findPageHistoryByPageId(pageId: string, pagination: PaginationOptions) {
+  async findPageHistoryByPageId(
+    pageId: string,
+    pagination: PaginationOptions,
+    opts?: { pinnedOnly?: boolean },
+  ) {
     const query = this.db
       .selectFrom('pageHistory')
       .selectAll()
       .select((eb) => this.withLastUpdatedBy(eb))
       .where('pageId', '=', pageId)
+      .$if(Boolean(opts?.pinnedOnly), (qb) => qb.where('isPinned', '=', true))
       .orderBy('createdAt', 'desc');
 
     const result = executeWithPagination(query, {
@@ -88,6 +107,46 @@ export class PageHistoryRepo {
       .executeTakeFirst();
   }
 
+  /**
+   * Thins out old snapshots: everything newer than `keepAllBefore` is kept,
+   * then the latest snapshot per page per day until `keepDailyBefore`,
+   * then the latest per page per week. Pinned and named versions are never deleted.
+   * Returns the number of deleted rows; call repeatedly until it returns 0.
+   */
+  async deleteExpiredHistory(
+    workspaceId: string,
+    opts: { keepAllBefore: Date; keepDailyBefore: Date; limit: number },
+  ): Promise<number> {
+    const ranked = this.db
+      .selectFrom('pageHistory')
+      .select([
+        'id',
+        sql<number>`row_number() over (
+          partition by page_id,
+            created_at >= ${opts.keepDailyBefore},
+            date_trunc(case when created_at >= ${opts.keepDailyBefore} then 'day' else 'week' end, created_at)
+          order by created_at desc
+        )`.as('rank'),
+      ])
+      .where('workspaceId', '=', workspaceId)
+      .where('createdAt', '<', opts.keepAllBefore)
+      .where('isPinned', '=', false)
+      .where('name', 'is', null);
+
+    const result = await this.db
+      .deleteFrom('pageHistory')
+      .where('id', 'in', (eb) =>
+        eb
+          .selectFrom(ranked.as('ranked'))
+          .select('ranked.id')
+          .where('ranked.rank', '>', 1)
+          .limit(opts.limit),
+      )
+      .executeTakeFirst();
+
+    return Number(result.numDeletedRows);
+  }
+
   withLastUpdatedBy(eb: ExpressionBuilder<DB, 'pageHistory'>) {
     return jsonObjectFrom(
       eb
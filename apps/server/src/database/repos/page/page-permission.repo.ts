@@ -0,0 +1,328 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertablePagePermission,
+  PagePermission,
+  UpdatablePagePermission,
+} from '@docmost/db/types/entity.types';
+import { MemberInfo } from '@docmost/db/repos/space/types';
+import { GroupRepo } from '@docmost/db/repos/group/group.repo';
+import { PageRole, SpaceRole } from '../../../common/helpers/types/permission';
+
+export interface PageRestriction {
+  pageId: string;
+  title: string;
+  // the user's best role on this page, null if the user has no access
+  role: string | null;
+}
+
+@Injectable()
+export class PagePermissionRepo {
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly groupRepo: GroupRepo,
+  ) {}
+
+  async insertPagePermissions(
+    insertablePagePermissions:
+      | InsertablePagePermission
+      | InsertablePagePermission[],
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .insertInto('pagePermissions')
+      .values(insertablePagePermissions)
+      .execute();
+  }
+
+  async updatePagePermission(
+    updatablePagePermission: UpdatablePagePermission,
+    pagePermissionId: string,
+    pageId: string,
+  ): Promise<void> {
+    await this.db
+      .updateTable('pagePermissions')
+      .set({ ...updatablePagePermission, updatedAt: new Date() })
+      .where('id', '=', pagePermissionId)
+      .where('pageId', '=', pageId)
+      .execute();
+  }
+
+  async getPagePermissionByTypeId(
+    pageId: string,
+    opts: {
+      userId?: string;
+      groupId?: string;
+    },
+    trx?: KyselyTransaction,
+  ): Promise<PagePermission> {
+    const db = dbOrTx(this.db, trx);
+    let query = db
+      .selectFrom('pagePermissions')
+      .selectAll()
+      .where('pageId', '=', pageId);
+    if (opts.userId) {
+      query = query.where('userId', '=', opts.userId);
+    } else if (opts.groupId) {
+      query = query.where('groupId', '=', opts.groupId);
+    } else {
+      throw new BadRequestException('Please provide a userId or groupId');
+    }
+    return query.executeTakeFirst();
+  }
+
+  async removePagePermissionById(
+    pagePermissionId: string,
+    pageId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .deleteFrom('pagePermissions')
+      .where('id', '=', pagePermissionId)
+      .where('pageId', '=', pageId)
+      .execute();
+  }
+
+  async removePagePermissions(
+    pageId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .deleteFrom('pagePermissions')
+      .where('pageId', '=', pageId)
+      .execute();
+  }
+
+  async roleCountByPageId(role: string, pageId: string): Promise<number> {
+    const { count } = await this.db
+      .selectFrom('pagePermissions')
+      .select((eb) => eb.fn.count('role').as('count'))
+      .where('role', '=', role)
+      .where('pageId', '=', pageId)
+      .executeTakeFirst();
+
+    return Number(count);
+  }
+
+  async getPagePermissions(pageId: string) {
+    const permissions = await this.db
+      .selectFrom('pagePermissions')
+      .leftJoin('users', 'users.id', 'pagePermissions.userId')
+      .leftJoin('groups', 'groups.id', 'pagePermissions.groupId')
+      .select([
+        'users.id as userId',
+        'users.name as userName',
+        'users.avatarUrl as userAvatarUrl',
+        'users.email as userEmail',
+        'groups.id as groupId',
+        'groups.name as groupName',
+        'groups.isDefault as groupIsDefault',
+        'pagePermissions.role',
+        'pagePermissions.createdAt',
+      ])
+      .select((eb) => this.groupRepo.withMemberCount(eb))
+      .where('pageId', '=', pageId)
+      .orderBy((eb) => eb('groups.id', 'is not', null), 'desc')
+      .orderBy('pagePermissions.createdAt', 'asc')
+      .execute();
+
+    return permissions.map((permission) => {
+      let memberInfo: MemberInfo;
+      if (permission.userId) {
+        memberInfo = {
+          id: permission.userId,
+          name: permission.userName,
+          email: permission.userEmail,
+          avatarUrl: permission.userAvatarUrl,
+          type: 'user',
+        };
+      } else {
+        memberInfo = {
+          id: permission.groupId,
+          name: permission.groupName,
+          memberCount: permission.memberCount as number,
+          isDefault: permission.groupIsDefault,
+          type: 'group',
+        };
+      }
+
+      return {
+        ...memberInfo,
+        role: permission.role,
+        createdAt: permission.createdAt,
+      };
+    });
+  }
+
+  /*
+   * Returns the restricted pages in the ancestry of a page (including itself)
+   * together with the best role the user holds on each of them,
+   * either directly or via a group.
+   * An empty array means the page is not restricted.
+   */
+  async getPageRestrictions(
+    pageId: string,
+    userId: string,
+  ): Promise<PageRestriction[]> {
+    const rolePriority = (role: string) => (role === PageRole.WRITER ? 2 : 1);
+
+    const rows = await this.db
+      .withRecursive('pageAncestors', (db) =>
+        db
+          .selectFrom('pages')
+          .select(['id', 'title', 'parentPageId'])
+          .where('id', '=', pageId)
+          .unionAll((exp) =>
+            exp
+              .selectFrom('pages as p')
+              .select(['p.id', 'p.title', 'p.parentPageId'])
+              .innerJoin('pageAncestors as pa', 'pa.parentPageId', 'p.id'),
+          ),
+      )
+      .selectFrom('pageAncestors')
+      .innerJoin(
+        'pagePermissions',
+        'pagePermissions.pageId',
+        'pageAncestors.id',
+      )
+      .select([
+        'pageAncestors.id as pageId',
+        'pageAncestors.title',
+        'pagePermissions.role',
+        'pagePermissions.userId',
+        'pagePermissions.groupId',
+      ])
+      .select((eb) =>
+        eb
+          .or([
+            eb('pagePermissions.userId', '=', userId),
+            eb(
+              'pagePermissions.groupId',
+              'in',
+              eb
+                .selectFrom('groupUsers')
+                .select('groupUsers.groupId')
+                .where('groupUsers.userId', '=', userId),
+            ),
+          ])
+          .as('isMatch'),
+      )
+      .execute();
+
+    const restrictions = new Map<string, PageRestriction>();
+    for (const row of rows) {
+      const restriction = restrictions.get(row.pageId) ?? {
+        pageId: row.pageId,
+        title: row.title,
+        role: null,
+      };
+
+      if (
+        row.isMatch &&
+        (!restriction.role ||
+          rolePriority(row.role) > rolePriority(restriction.role))
+      ) {
+        restriction.role = row.role;
+      }
+
+      restrictions.set(row.pageId, restriction);
+    }
+
+    return Array.from(restrictions.values());
+  }
+
+  /*
+   * Subquery of all page ids the user cannot access:
+   * restricted pages the user was not granted access to, and their descendants.
+   * Space admins are never restricted.
+   * Without a spaceId, only the spaces the user is a member of are scanned.
+   */
+  getInaccessiblePageIds(userId: string, opts?: { spaceId?: string }) {
+    const userGroupIds = this.db
+      .selectFrom('groupUsers')
+      .select('groupUsers.groupId')
+      .where('groupUsers.userId', '=', userId);
+
+    const userSpaceIds = this.db
+      .selectFrom('spaceMembers')
+      .select('spaceMembers.spaceId')
+      .where((eb) =>
+        eb.or([
+          eb('spaceMembers.userId', '=', userId),
+          eb('spaceMembers.groupId', 'in', userGroupIds),
+        ]),
+      );
+
+    return this.db
+      .withRecursive('inaccessiblePages', (db) =>
+        db
+          .selectFrom('pages')
+          .select(['pages.id'])
+          .where(
+            'pages.id',
+            'in',
+            db.selectFrom('pagePermissions').select('pagePermissions.pageId'),
+          )
+          .$if(Boolean(opts?.spaceId), (qb) =>
+            qb.where('pages.spaceId', '=', opts.spaceId),
+          )
+          .$if(!opts?.spaceId, (qb) =>
+            qb.where('pages.spaceId', 'in', userSpaceIds),
+          )
+          .where((eb) =>
+            eb.not(
+              eb.exists(
+                eb
+                  .selectFrom('pagePermissions')
+                  .select('pagePermissions.id')
+                  .whereRef('pagePermissions.pageId', '=', 'pages.id')
+                  .where((eb) =>
+                    eb.or([
+                      eb('pagePermissions.userId', '=', userId),
+                      eb('pagePermissions.groupId', 'in', userGroupIds),
+                    ]),
+                  ),
+              ),
+            ),
+          )
+          .where((eb) =>
+            eb.not(
+              eb.exists(
+                eb
+                  .selectFrom('spaceMembers')
+                  .select('spaceMembers.id')
+                  .whereRef('spaceMembers.spaceId', '=', 'pages.spaceId')
+                  .where('spaceMembers.role', '=', SpaceRole.ADMIN)
+                  .where((eb) =>
+                    eb.or([
+                      eb('spaceMembers.userId', '=', userId),
+                      eb('spaceMembers.groupId', 'in', userGroupIds),
+                    ]),
+                  ),
+              ),
+            ),
+          )
+          .unionAll((exp) =>
+            exp
+              .selectFrom('pages as p')
+              .select(['p.id'])
+              .innerJoin('inaccessiblePages as ip', 'ip.id', 'p.parentPageId'),
+          ),
+      )
+      .selectFrom('inaccessiblePages')
+      .select('inaccessiblePages.id');
+  }
+
+  async findInaccessiblePageIds(
+    userId: string,
+    opts?: { spaceId?: string },
+  ): Promise<string[]> {
+    const pages = await this.getInaccessiblePageIds(userId, opts).execute();
+    return pages.map((page) => page.id);
+  }
+}
@@ -0,0 +1,136 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertablePageProperty,
+  PageProperty,
+  PagePropertyValue,
+  UpdatablePageProperty,
+} from '@docmost/db/types/entity.types';
+
+@Injectable()
+export class PagePropertyRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async findById(
+    propertyId: string,
+    trx?: KyselyTransaction,
+  ): Promise<PageProperty> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .selectFrom('pageProperties')
+      .selectAll()
+      .where('id', '=', propertyId)
+      .executeTakeFirst();
+  }
+
+  async insertProperty(
+    insertableProperty: InsertablePageProperty,
+    trx?: KyselyTransaction,
+  ): Promise<PageProperty> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('pageProperties')
+      .values(insertableProperty)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async updateProperty(
+    updatableProperty: UpdatablePageProperty,
+    propertyId: string,
+    trx?: KyselyTransaction,
+  ): Promise<PageProperty> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .updateTable('pageProperties')
+      .set({ ...updatableProperty, updatedAt: new Date() })
+      .where('id', '=', propertyId)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async deleteProperty(propertyId: string): Promise<void> {
+    await this.db
+      .deleteFrom('pageProperties')
+      .where('id', '=', propertyId)
+      .execute();
+  }
+
+  /*
+   * Properties that apply to the children of a page:
+   * the ones defined on the parent page and the space-wide ones.
+   * A null parentPageId returns the space-wide properties only.
+   */
+  async getPropertiesForParent(
+    spaceId: string,
+    parentPageId: string | null,
+  ): Promise<PageProperty[]> {
+    return this.db
+      .selectFrom('pageProperties')
+      .selectAll()
+      .where('spaceId', '=', spaceId)
+      .where((eb) =>
+        parentPageId
+          ? eb.or([
+              eb('parentPageId', 'is', null),
+              eb('parentPageId', '=', parentPageId),
+            ])
+          : eb('parentPageId', 'is', null),
+      )
+      .orderBy('createdAt', 'asc')
+      .execute();
+  }
+
+  async getValuesForPages(
+    pageIds: string[],
+  ): Promise<Pick<PagePropertyValue, 'pageId' | 'propertyId' | 'value'>[]> {
+    if (pageIds.length === 0) return [];
+
+    return this.db
+      .selectFrom('pagePropertyValues')
+      .select(['pageId', 'propertyId', 'value'])
+      .where('pageId', 'in', pageIds)
+      .execute();
+  }
+
+  async upsertValue(
+    value: {
+      pageId: string;
+      propertyId: string;
+      value: unknown;
+      workspaceId: string;
+      lastUpdatedById: string;
+    },
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    const jsonValue = JSON.stringify(value.value);
+
+    await db
+      .insertInto('pagePropertyValues')
+      .values({ ...value, value: jsonValue })
+      .onConflict((oc) =>
+        oc.columns(['pageId', 'propertyId']).doUpdateSet({
+          value: jsonValue,
+          lastUpdatedById: value.lastUpdatedById,
+          updatedAt: new Date(),
+        }),
+      )
+      .execute();
+  }
+
+  async deleteValue(
+    pageId: string,
+    propertyId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .deleteFrom('pagePropertyValues')
+      .where('pageId', '=', pageId)
+      .where('propertyId', '=', propertyId)
+      .execute();
+  }
+}
@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertablePageReview,
+  PageReview,
+  UpdatablePageReview,
+} from '@docmost/db/types/entity.types';
+import { ExpressionBuilder } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/postgres';
+import { PageReviewStatus } from '../../../core/page-review/page-review.constants';
+
+@Injectable()
+export class PageReviewRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  private baseFields: Array<keyof PageReview> = [
+    'id',
+    'pageId',
+    'spaceId',
+    'workspaceId',
+    'requesterId',
+    'status',
+    'message',
+    'resolvedAt',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  async findById(
+    reviewId: string,
+    opts?: {
+      includeContent?: boolean;
+      includeApprovers?: boolean;
+      withLock?: boolean;
+      trx?: KyselyTransaction;
+    },
+  ) {
+    const db = dbOrTx(this.db, opts?.trx);
+
+    return db
+      .selectFrom('pageReviews')
+      .select(this.baseFields)
+      .$if(opts?.includeContent, (qb) => qb.select('content'))
+      .$if(opts?.includeApprovers, (qb) =>
+        qb
+          .select((eb) => this.withRequester(eb))
+          .select((eb) => this.withApprovers(eb)),
+      )
+      .$if(opts?.withLock && Boolean(opts?.trx), (qb) => qb.forUpdate())
+      .where('id', '=', reviewId)
+      .executeTakeFirst();
+  }
+
+  async findPendingByPageId(
+    pageId: string,
+    opts?: { includeApprovers?: boolean; trx?: KyselyTransaction },
+  ) {
+    return dbOrTx(this.db, opts?.trx)
+      .selectFrom('pageReviews')
+      .select(this.baseFields)
+      .$if(opts?.includeApprovers, (qb) =>
+        qb
+          .select((eb) => this.withRequester(eb))
+          .select((eb) => this.withApprovers(eb)),
+      )
+      .where('pageId', '=', pageId)
+      .where('status', '=', PageReviewStatus.PENDING)
+      .executeTakeFirst();
+  }
+
+  async insertReview(
+    review: InsertablePageReview,
+    approverIds: string[],
+    trx?: KyselyTransaction,
+  ): Promise<PageReview> {
+    const db = dbOrTx(this.db, trx);
+
+    const inserted = await db
+      .insertInto('pageReviews')
+      .values(review)
+      .returningAll()
+      .executeTakeFirst();
+
+    await db
+      .insertInto('pageReviewApprovers')
+      .values(approverIds.map((userId) => ({ reviewId: inserted.id, userId })))
+      .execute();
+
+    return inserted;
+  }
+
+  async updateReview(
+    updatableReview: UpdatablePageReview,
+    reviewId: string,
+    trx?: KyselyTransaction,
+  ) {
+    return dbOrTx(this.db, trx)
+      .updateTable('pageReviews')
+      .set({ ...updatableReview, updatedAt: new Date() })
+      .where('id', '=', reviewId)
+      .execute();
+  }
+
+  async updateApproverDecision(
+    reviewId: string,
+    userId: string,
+    decision: { status: string; comment?: string },
+    trx?: KyselyTransaction,
+  ) {
+    return dbOrTx(this.db, trx)
+      .updateTable('pageReviewApprovers')
+      .set({
+        status: decision.status,
+        comment: decision.comment ?? null,
+        decidedAt: new Date(),
+      })
+      .where('reviewId', '=', reviewId)
+      .where('userId', '=', userId)
+      .execute();
+  }
+
+  async getApproverStatuses(
+    reviewId: string,
+    trx?: KyselyTransaction,
+  ): Promise<{ userId: string; status: string }[]> {
+    return dbOrTx(this.db, trx)
+      .selectFrom('pageReviewApprovers')
+      .select(['userId', 'status'])
+      .where('reviewId', '=', reviewId)
+      .execute();
+  }
+
+  withRequester(eb: ExpressionBuilder<DB, 'pageReviews'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'pageReviews.requesterId'),
+    ).as('requester');
+  }
+
+  withApprovers(eb: ExpressionBuilder<DB, 'pageReviews'>) {
+    return jsonArrayFrom(
+      eb
+        .selectFrom('pageReviewApprovers')
+        .innerJoin('users', 'users.id', 'pageReviewApprovers.userId')
+        .select([
+          'users.id',
+          'users.name',
+          'users.avatarUrl',
+          'pageReviewApprovers.status',
+          'pageReviewApprovers.comment',
+          'pageReviewApprovers.decidedAt',
+        ])
+        .whereRef('pageReviewApprovers.reviewId', '=', 'pageReviews.id')
+        .orderBy('users.name', 'asc'),
+    ).as('approvers');
+  }
+}
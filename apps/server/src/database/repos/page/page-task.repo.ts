@@ -0,0 +1,134 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import { PageTask } from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { TaskItemNode } from '../../../common/helpers/prosemirror/utils';
+import { PageRepo } from './page.repo';
+import { PagePermissionRepo } from './page-permission.repo';
+import { SpaceMemberRepo } from '../space/space-member.repo';
+
+@Injectable()
+export class PageTaskRepo {
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly pageRepo: PageRepo,
+    private readonly pagePermissionRepo: PagePermissionRepo,
+    private readonly spaceMemberRepo: SpaceMemberRepo,
+  ) {}
+
+  async findByTaskId(pageId: string, taskId: string): Promise<PageTask> {
+    return this.db
+      .selectFrom('pageTasks')
+      .selectAll()
+      .where('pageId', '=', pageId)
+      .where('taskId', '=', taskId)
+      .executeTakeFirst();
+  }
+
+  /*
+   * Replaces the indexed tasks of a page with the ones found in its content.
+   */
+  async syncPageTasks(
+    page: { id: string; spaceId: string; workspaceId: string },
+    tasks: TaskItemNode[],
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    const taskIds = tasks.map((task) => task.taskId);
+
+    await db
+      .deleteFrom('pageTasks')
+      .where('pageId', '=', page.id)
+      .$if(taskIds.length > 0, (qb) => qb.where('taskId', 'not in', taskIds))
+      .execute();
+
+    if (tasks.length === 0) return;
+
+    await db
+      .insertInto('pageTasks')
+      .values(
+        tasks.map((task) => ({
+          ...task,
+          pageId: page.id,
+          spaceId: page.spaceId,
+          workspaceId: page.workspaceId,
+        })),
+      )
+      .onConflict((oc) =>
+        oc.columns(['pageId', 'taskId']).doUpdateSet((eb) => ({
+          text: eb.ref('excluded.text'),
+          isCompleted: eb.ref('excluded.isCompleted'),
+          assigneeId: eb.ref('excluded.assigneeId'),
+          dueDate: eb.ref('excluded.dueDate'),
+          spaceId: eb.ref('excluded.spaceId'),
+          updatedAt: new Date(),
+        })),
+      )
+      .execute();
+  }
+
+  async updateTaskCompletion(
+    pageId: string,
+    taskId: string,
+    isCompleted: boolean,
+  ): Promise<void> {
+    await this.db
+      .updateTable('pageTasks')
+      .set({ isCompleted, updatedAt: new Date() })
+      .where('pageId', '=', pageId)
+      .where('taskId', '=', taskId)
+      .execute();
+  }
+
+  /*
+   * Tasks assigned to a user across the spaces they are a member of,
+   * limited to the pages they are allowed to see.
+   * Tasks with the closest due date come first.
+   */
+  async getAssignedTasks(
+    userId: string,
+    opts: { completed: boolean },
+    pagination: PaginationOptions,
+  ) {
+    const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
+
+    const query = this.db
+      .selectFrom('pageTasks')
+      .innerJoin('pages', 'pages.id', 'pageTasks.pageId')
+      .select([
+        'pageTasks.id',
+        'pageTasks.taskId',
+        'pageTasks.text',
+        'pageTasks.isCompleted',
+        'pageTasks.dueDate',
+        'pageTasks.pageId',
+        'pageTasks.spaceId',
+        'pageTasks.updatedAt',
+        'pages.slugId as pageSlugId',
+        'pages.title as pageTitle',
+        'pages.icon as pageIcon',
+      ])
+      .select((eb) => this.pageRepo.withSpace(eb))
+      .where('pageTasks.assigneeId', '=', userId)
+      .where('pageTasks.isCompleted', '=', opts.completed)
+      .where('pageTasks.spaceId', 'in', userSpaceIds)
+      .where('pages.deletedAt', 'is', null)
+      .where(
+        'pages.id',
+        'not in',
+        this.pagePermissionRepo.getInaccessiblePageIds(userId),
+      )
+      .orderBy((eb) => eb('pageTasks.dueDate', 'is', null), 'asc')
+      .orderBy('pageTasks.dueDate', 'asc')
+      .orderBy('pageTasks.updatedAt', 'desc');
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+      hasEmptyIds: userSpaceIds.length === 0,
+    });
+  }
+}
@@ -7,13 +7,18 @@ import {
   Page,
   UpdatablePage,
 } from '@docmost/db/types/entity.types';
-import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import {
+  CursorPaginationOptions,
+  PaginationOptions,
+} from '@docmost/db/pagination/pagination-options';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { executeWithCursorPagination } from '@docmost/db/pagination/cursor-pagination';
 import { validate as isValidUUID } from 'uuid';
 import { ExpressionBuilder, sql } from 'kysely';
 import { DB } from '@docmost/db/types/db';
 import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/postgres';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { EventName } from '../../../common/events/event.contants';
 
@@ -22,6 +27,7 @@ export class PageRepo {
   constructor(
     @InjectKysely() private readonly db: KyselyDB,
     private spaceMemberRepo: SpaceMemberRepo,
+    private pagePermissionRepo: PagePermissionRepo,
     private eventEmitter: EventEmitter2,
   ) {}
 
@@ -48,6 +54,7 @@ export class PageRepo {
     pageId: string,
     opts?: {
       includeContent?: boolean;
+      includePublishedContent?: boolean;
       includeTextContent?: boolean;
       includeYdoc?: boolean;
       includeSpace?: boolean;
@@ -65,6 +72,9 @@ export class PageRepo {
       .selectFrom('pages')
       .select(this.baseFields)
       .$if(opts?.includeContent, (qb) => qb.select('content'))
+      .$if(opts?.includePublishedContent, (qb) =>
+        qb.select(['publishedContent', 'publishedAt']),
+      )
       .$if(opts?.includeYdoc, (qb) => qb.select('ydoc'))
       .$if(opts?.includeTextContent, (qb) => qb.select('textContent'))
       .$if(opts?.includeHasChildren, (qb) =>
@@ -131,6 +141,21 @@ export class PageRepo {
     return result;
   }
 
+  /*
+   * Makes the current content of every page in a space its published version.
+   */
+  async publishSpacePages(spaceId: string, trx?: KyselyTransaction) {
+    await dbOrTx(this.db, trx)
+      .updateTable('pages')
+      .set((eb) => ({
+        publishedContent: eb.ref('content'),
+        publishedAt: new Date(),
+        publishedById: null,
+      }))
+      .where('spaceId', '=', spaceId)
+      .execute();
+  }
+
   async insertPage(
     insertablePage: InsertablePage,
     trx?: KyselyTransaction,
@@ -275,13 +300,24 @@ export class PageRepo {
     });
   }
 
-  async getRecentPagesInSpace(spaceId: string, pagination: PaginationOptions) {
+  async getRecentPagesInSpace(
+    spaceId: string,
+    pagination: PaginationOptions,
+    userId?: string,
+  ) {
     const query = this.db
       .selectFrom('pages')
       .select(this.baseFields)
       .select((eb) => this.withSpace(eb))
       .where('spaceId', '=', spaceId)
       .where('deletedAt', 'is', null)
+      .$if(Boolean(userId), (qb) =>
+        qb.where(
+          'id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(userId, { spaceId }),
+        ),
+      )
       .orderBy('updatedAt', 'desc');
 
     const result = executeWithPagination(query, {
@@ -292,6 +328,36 @@ export class PageRepo {
     return result;
   }
 
+  async getSpacePagesByCursor(
+    spaceId: string,
+    pagination: CursorPaginationOptions,
+    opts?: { parentPageId?: string; userId?: string },
+  ) {
+    const query = this.db
+      .selectFrom('pages')
+      .select(this.baseFields)
+      .where('spaceId', '=', spaceId)
+      .where('deletedAt', 'is', null)
+      .$if(Boolean(opts?.parentPageId), (qb) =>
+        qb.where('parentPageId', '=', opts.parentPageId),
+      )
+      .$if(Boolean(opts?.userId), (qb) =>
+        qb.where(
+          'id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(opts.userId, {
+            spaceId,
+          }),
+        ),
+      );
+
+    return executeWithCursorPagination(query, {
+      perPage: pagination.limit,
+      cursor: pagination.cursor,
+      fields: [{ expression: 'id', key: 'id', direction: 'asc' }],
+    });
+  }
+
   async getRecentPages(userId: string, pagination: PaginationOptions) {
     const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
 
@@ -301,6 +367,11 @@ export class PageRepo {
       .select((eb) => this.withSpace(eb))
       .where('spaceId', 'in', userSpaceIds)
       .where('deletedAt', 'is', null)
+      .where(
+        'id',
+        'not in',
+        this.pagePermissionRepo.getInaccessiblePageIds(userId),
+      )
       .orderBy('updatedAt', 'desc');
 
     const hasEmptyIds = userSpaceIds.length === 0;
@@ -313,7 +384,11 @@ export class PageRepo {
     return result;
   }
 
-  async getDeletedPagesInSpace(spaceId: string, pagination: PaginationOptions) {
+  async getDeletedPagesInSpace(
+    spaceId: string,
+    pagination: PaginationOptions,
+    userId?: string,
+  ) {
     const query = this.db
       .selectFrom('pages')
       .select(this.baseFields)
@@ -338,6 +413,13 @@ export class PageRepo {
           ),
         ]),
       )
+      .$if(Boolean(userId), (qb) =>
+        qb.where(
+          'id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(userId, { spaceId }),
+        ),
+      )
       .orderBy('deletedAt', 'desc');
 
     const result = executeWithPagination(query, {
@@ -352,7 +434,12 @@ export class PageRepo {
     return jsonObjectFrom(
       eb
         .selectFrom('spaces')
-        .select(['spaces.id', 'spaces.name', 'spaces.slug'])
+        .select([
+          'spaces.id',
+          'spaces.name',
+          'spaces.slug',
+          'spaces.reviewWorkflow',
+        ])
         .whereRef('spaces.id', '=', 'pages.spaceId'),
     ).as('space');
   }
@@ -413,7 +500,7 @@ export class PageRepo {
 
   async getPageAndDescendants(
     parentPageId: string,
-    opts: { includeContent: boolean },
+    opts: { includeContent: boolean; includePublishedContent?: boolean },
   ) {
     return this.db
       .withRecursive('page_hierarchy', (db) =>
@@ -428,8 +515,12 @@ export class PageRepo {
             'parentPageId',
             'spaceId',
             'workspaceId',
+            'publishedAt',
           ])
           .$if(opts?.includeContent, (qb) => qb.select('content'))
+          .$if(opts?.includePublishedContent, (qb) =>
+            qb.select('publishedContent'),
+          )
           .where('id', '=', parentPageId)
           .where('deletedAt', 'is', null)
           .unionAll((exp) =>
@@ -444,8 +535,12 @@ export class PageRepo {
                 'p.parentPageId',
                 'p.spaceId',
                 'p.workspaceId',
+                'p.publishedAt',
               ])
               .$if(opts?.includeContent, (qb) => qb.select('p.content'))
+              .$if(opts?.includePublishedContent, (qb) =>
+                qb.select('p.publishedContent'),
+              )
               .innerJoin('page_hierarchy as ph', 'p.parentPageId', 'ph.id')
               .where('p.deletedAt', 'is', null),
           ),
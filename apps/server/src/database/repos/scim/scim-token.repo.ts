@@ -0,0 +1,86 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import { InsertableScimToken, ScimToken } from '@docmost/db/types/entity.types';
+import { ExpressionBuilder } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonObjectFrom } from 'kysely/helpers/postgres';
+
+@Injectable()
+export class ScimTokenRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  private baseFields: Array<keyof ScimToken> = [
+    'id',
+    'name',
+    'tokenHint',
+    'creatorId',
+    'workspaceId',
+    'lastUsedAt',
+    'createdAt',
+  ];
+
+  async findById(tokenId: string, workspaceId: string) {
+    return this.db
+      .selectFrom('scimTokens')
+      .select(this.baseFields)
+      .where('id', '=', tokenId)
+      .where('workspaceId', '=', workspaceId)
+      .executeTakeFirst();
+  }
+
+  async findByTokenHash(tokenHash: string) {
+    return this.db
+      .selectFrom('scimTokens')
+      .select(this.baseFields)
+      .where('tokenHash', '=', tokenHash)
+      .executeTakeFirst();
+  }
+
+  async getScimTokens(workspaceId: string) {
+    return this.db
+      .selectFrom('scimTokens')
+      .select(this.baseFields)
+      .select((eb) => this.withCreator(eb))
+      .where('workspaceId', '=', workspaceId)
+      .orderBy('createdAt', 'desc')
+      .execute();
+  }
+
+  async insertScimToken(
+    insertableScimToken: InsertableScimToken,
+    trx?: KyselyTransaction,
+  ) {
+    return dbOrTx(this.db, trx)
+      .insertInto('scimTokens')
+      .values(insertableScimToken)
+      .returning(this.baseFields)
+      .executeTakeFirst();
+  }
+
+  async updateLastUsedAt(tokenId: string): Promise<void> {
+    await this.db
+      .updateTable('scimTokens')
+      .set({ lastUsedAt: new Date() })
+      .where('id', '=', tokenId)
+      .execute();
+  }
+
+  async deleteScimToken(tokenId: string, workspaceId: string): Promise<void> {
+    await this.db
+      .deleteFrom('scimTokens')
+      .where('id', '=', tokenId)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  withCreator(eb: ExpressionBuilder<DB, 'scimTokens'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'scimTokens.creatorId'),
+    ).as('creator');
+  }
+}
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { InsertableShareViewEvent } from '@docmost/db/types/entity.types';
+import { sql } from 'kysely';
+
+@Injectable()
+export class ShareViewRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async insertViewEvent(event: InsertableShareViewEvent): Promise<void> {
+    await this.db.insertInto('shareViewEvents').values(event).execute();
+  }
+
+  /*
+   * Folds a batch of raw view events into the daily stats and deletes them.
+   * Rows locked by a concurrent run are skipped.
+   * Returns the number of processed events.
+   */
+  async aggregateViewEvents(limit: number): Promise<number> {
+    return this.db.transaction().execute(async (trx) => {
+      const events = await trx
+        .deleteFrom('shareViewEvents')
+        .where('id', 'in', (eb) =>
+          eb
+            .selectFrom('shareViewEvents')
+            .select('id')
+            .orderBy('id', 'asc')
+            .limit(limit)
+            .forUpdate()
+            .skipLocked(),
+        )
+        .returning(['shareId', 'pageId', 'workspaceId', 'referrer', 'day'])
+        .execute();
+
+      if (events.length === 0) return 0;
+
+      const stats = new Map<
+        string,
+        (typeof events)[number] & { views: number }
+      >();
+      for (const event of events) {
+        const key = [
+          event.shareId,
+          event.pageId,
+          event.day,
+          event.referrer,
+        ].join('|');
+        const stat = stats.get(key) ?? { ...event, views: 0 };
+        stat.views += 1;
+        stats.set(key, stat);
+      }
+
+      await trx
+        .insertInto('shareViewStats')
+        .values(Array.from(stats.values()))
+        .onConflict((oc) =>
+          oc.columns(['shareId', 'pageId', 'day', 'referrer']).doUpdateSet({
+            views: (eb) =>
+              eb('shareViewStats.views', '+', eb.ref('excluded.views')),
+          }),
+        )
+        .execute();
+
+      return events.length;
+    });
+  }
+
+  async getDailyViews(
+    shareId: string,
+    opts: { since: string; pageId?: string },
+  ): Promise<{ day: string; views: number }[]> {
+    return this.db
+      .selectFrom('shareViewStats')
+      .select(['day', sql<number>`sum(views)::int`.as('views')])
+      .where('shareId', '=', shareId)
+      .where('day', '>=', opts.since)
+      .$if(Boolean(opts.pageId), (qb) => qb.where('pageId', '=', opts.pageId))
+      .groupBy('day')
+      .orderBy('day', 'asc')
+      .execute();
+  }
+
+  async getTopPages(shareId: string, opts: { since: string; limit: number }) {
+    return this.db
+      .selectFrom('shareViewStats')
+      .innerJoin('pages', 'pages.id', 'shareViewStats.pageId')
+      .select([
+        'pages.id',
+        'pages.slugId',
+        'pages.title',
+        'pages.icon',
+        sql<number>`sum(share_view_stats.views)::int`.as('views'),
+      ])
+      .where('shareViewStats.shareId', '=', shareId)
+      .where('shareViewStats.day', '>=', opts.since)
+      .groupBy('pages.id')
+      .orderBy('views', 'desc')
+      .limit(opts.limit)
+      .execute();
+  }
+
+  async getTopReferrers(
+    shareId: string,
+    opts: { since: string; limit: number; pageId?: string },
+  ): Promise<{ referrer: string; views: number }[]> {
+    return this.db
+      .selectFrom('shareViewStats')
+      .select(['referrer', sql<number>`sum(views)::int`.as('views')])
+      .where('shareId', '=', shareId)
+      .where('day', '>=', opts.since)
+      .$if(Boolean(opts.pageId), (qb) => qb.where('pageId', '=', opts.pageId))
+      .groupBy('referrer')
+      .orderBy('views', 'desc')
+      .limit(opts.limit)
+      .execute();
+  }
+}
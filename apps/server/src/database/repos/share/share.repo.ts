@@ -28,6 +28,8 @@ export class ShareRepo {
     'pageId',
     'includeSubPages',
     'searchIndexing',
+    'disableDownload',
+    'expiresAt',
     'creatorId',
     'spaceId',
     'workspaceId',
@@ -41,13 +43,17 @@ export class ShareRepo {
     opts?: {
       includeSharedPage?: boolean;
       includeCreator?: boolean;
+      includePasswordHash?: boolean;
       withLock?: boolean;
       trx?: KyselyTransaction;
     },
   ): Promise<Share> {
     const db = dbOrTx(this.db, opts?.trx);
 
-    let query = db.selectFrom('shares').select(this.baseFields);
+    let query = db
+      .selectFrom('shares')
+      .select(this.baseFields)
+      .$if(opts?.includePasswordHash, (qb) => qb.select('passwordHash'));
 
     if (opts?.includeSharedPage) {
       query = query.select((eb) => this.withSharedPage(eb));
@@ -145,6 +151,7 @@ export class ShareRepo {
       .select((eb) => this.withPage(eb))
       .select((eb) => this.withSpace(eb, userId))
       .select((eb) => this.withCreator(eb))
+      .select((eb) => this.withRecentViews(eb))
       .where('spaceId', 'in', userSpaceIds)
       .orderBy('updatedAt', 'desc');
 
@@ -225,6 +232,18 @@ export class ShareRepo {
     ).as('creator');
   }
 
+  // views over the last 30 days
+  withRecentViews(eb: ExpressionBuilder<DB, 'shares'>) {
+    return eb
+      .selectFrom('shareViewStats')
+      .select(
+        sql<number>`coalesce(sum(share_view_stats.views), 0)::int`.as('views'),
+      )
+      .whereRef('shareViewStats.shareId', '=', 'shares.id')
+      .where('shareViewStats.day', '>=', sql<string>`current_date - 30`)
+      .as('recentViews');
+  }
+
   withSharedPage(eb: ExpressionBuilder<DB, 'shares'>) {
     return jsonObjectFrom(
       eb
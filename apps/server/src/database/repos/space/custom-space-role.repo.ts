@@ -0,0 +1,133 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  CustomSpaceRole,
+  InsertableCustomSpaceRole,
+  UpdatableCustomSpaceRole,
+} from '@docmost/db/types/entity.types';
+import { ExpressionBuilder, sql } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+
+@Injectable()
+export class CustomSpaceRoleRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async findById(
+    roleId: string,
+    workspaceId: string,
+    opts?: {
+      includeMemberCount?: boolean;
+      includeDefaultSpaceCount?: boolean;
+      trx?: KyselyTransaction;
+    },
+  ): Promise<
+    CustomSpaceRole & { memberCount?: number; defaultSpaceCount?: number }
+  > {
+    const db = dbOrTx(this.db, opts?.trx);
+    return db
+      .selectFrom('customSpaceRoles')
+      .selectAll()
+      .$if(opts?.includeMemberCount, (qb) => qb.select(this.withMemberCount))
+      .$if(opts?.includeDefaultSpaceCount, (qb) =>
+        qb.select(this.withDefaultSpaceCount),
+      )
+      .where('id', '=', roleId)
+      .where('workspaceId', '=', workspaceId)
+      .executeTakeFirst();
+  }
+
+  async findByName(
+    name: string,
+    workspaceId: string,
+  ): Promise<CustomSpaceRole> {
+    return this.db
+      .selectFrom('customSpaceRoles')
+      .selectAll()
+      .where(sql`LOWER(name)`, '=', sql`LOWER(${name})`)
+      .where('workspaceId', '=', workspaceId)
+      .executeTakeFirst();
+  }
+
+  async findByIds(roleIds: string[]): Promise<CustomSpaceRole[]> {
+    if (roleIds.length === 0) {
+      return [];
+    }
+
+    return this.db
+      .selectFrom('customSpaceRoles')
+      .selectAll()
+      .where('id', 'in', roleIds)
+      .execute();
+  }
+
+  async getCustomSpaceRoles(workspaceId: string) {
+    return this.db
+      .selectFrom('customSpaceRoles')
+      .selectAll()
+      .select(this.withMemberCount)
+      .where('workspaceId', '=', workspaceId)
+      .orderBy('name', 'asc')
+      .execute();
+  }
+
+  async insertCustomSpaceRole(
+    insertableRole: InsertableCustomSpaceRole,
+    trx?: KyselyTransaction,
+  ): Promise<CustomSpaceRole> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('customSpaceRoles')
+      .values(insertableRole)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async updateCustomSpaceRole(
+    updatableRole: UpdatableCustomSpaceRole,
+    roleId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<CustomSpaceRole> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .updateTable('customSpaceRoles')
+      .set({ ...updatableRole, updatedAt: new Date() })
+      .where('id', '=', roleId)
+      .where('workspaceId', '=', workspaceId)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async deleteCustomSpaceRole(
+    roleId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .deleteFrom('customSpaceRoles')
+      .where('id', '=', roleId)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  // space memberships are assigned a custom role by storing its id as the role
+  withMemberCount(eb: ExpressionBuilder<DB, 'customSpaceRoles'>) {
+    return eb
+      .selectFrom('spaceMembers')
+      .select((eb) => eb.fn.countAll<number>().as('count'))
+      .where(sql<boolean>`space_members.role = custom_space_roles.id::text`)
+      .as('memberCount');
+  }
+
+  // spaces whose default role, given to people joining them, is this role
+  withDefaultSpaceCount(eb: ExpressionBuilder<DB, 'customSpaceRoles'>) {
+    return eb
+      .selectFrom('spaces')
+      .select((eb) => eb.fn.countAll<number>().as('count'))
+      .where(sql<boolean>`spaces.default_role = custom_space_roles.id::text`)
+      .as('defaultSpaceCount');
+  }
+}
@@ -8,9 +8,13 @@ import {
   SpaceMember,
   UpdatableSpaceMember,
 } from '@docmost/db/types/entity.types';
-import { PaginationOptions } from '../../pagination/pagination-options';
+import {
+  CursorPaginationOptions,
+  PaginationOptions,
+} from '../../pagination/pagination-options';
 import { MemberInfo, UserSpaceRole } from './types';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { executeWithCursorPagination } from '@docmost/db/pagination/cursor-pagination';
 import { GroupRepo } from '@docmost/db/repos/group/group.repo';
 import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 
@@ -263,4 +267,29 @@ export class SpaceMemberRepo {
 
     return result;
   }
+
+  async getUserSpacesByCursor(
+    userId: string,
+    workspaceId: string,
+    pagination: CursorPaginationOptions,
+  ) {
+    const userSpaceIds = await this.getUserSpaceIds(userId);
+
+    const query = this.db
+      .selectFrom('spaces')
+      .selectAll()
+      .select((eb) => [this.spaceRepo.withMemberCount(eb)])
+      .where('workspaceId', '=', workspaceId)
+      .where((eb) =>
+        userSpaceIds.length > 0
+          ? eb('id', 'in', userSpaceIds)
+          : eb(sql`1`, '=', 0),
+      );
+
+    return executeWithCursorPagination(query, {
+      perPage: pagination.limit,
+      cursor: pagination.cursor,
+      fields: [{ expression: 'id', key: 'id', direction: 'asc' }],
+    });
+  }
 }
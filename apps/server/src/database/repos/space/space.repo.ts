@@ -14,6 +14,7 @@ import { DB } from '@docmost/db/types/db';
 import { validate as isValidUUID } from 'uuid';
 import { EventEmitter2 } from '@nestjs/event-emitter';
 import { EventName } from '../../../common/events/event.contants';
+import { SpaceVisibility } from '../../../common/helpers/types/permission';
 
 @Injectable()
 export class SpaceRepo {
@@ -101,16 +102,41 @@ export class SpaceRepo {
       .executeTakeFirst();
   }
 
+  /*
+   * The workspace space directory:
+   * open spaces and the private spaces the user is a member of.
+   */
   async getSpacesInWorkspace(
     workspaceId: string,
+    userId: string,
     pagination: PaginationOptions,
   ) {
-    // todo: show spaces user have access based on visibility and memberships
+    const userSpaceIds = this.db
+      .selectFrom('spaceMembers')
+      .select('spaceMembers.spaceId')
+      .where('spaceMembers.userId', '=', userId)
+      .union(
+        this.db
+          .selectFrom('spaceMembers')
+          .innerJoin('groupUsers', 'groupUsers.groupId', 'spaceMembers.groupId')
+          .select('spaceMembers.spaceId')
+          .where('groupUsers.userId', '=', userId),
+      );
+
     let query = this.db
       .selectFrom('spaces')
       .selectAll('spaces')
-      .select((eb) => [this.withMemberCount(eb)])
+      .select((eb) => [
+        this.withMemberCount(eb),
+        eb('spaces.id', 'in', userSpaceIds).as('isMember'),
+      ])
       .where('workspaceId', '=', workspaceId)
+      .where((eb) =>
+        eb.or([
+          eb('visibility', '=', SpaceVisibility.OPEN),
+          eb('spaces.id', 'in', userSpaceIds),
+        ]),
+      )
       .orderBy('createdAt', 'asc');
 
     if (pagination.query) {
@@ -167,6 +193,7 @@ export class SpaceRepo {
 
     this.eventEmitter.emit(EventName.SPACE_DELETED, {
       spaceId,
+      workspaceId,
     });
   }
 }
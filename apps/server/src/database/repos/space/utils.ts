@@ -1,21 +1,33 @@
 import { UserSpaceRole } from '@docmost/db/repos/space/types';
 import { SpaceRole } from '../../../common/helpers/types/permission';
 
+export function isBuiltInSpaceRole(role: string): boolean {
+  return Object.values(SpaceRole).includes(role as SpaceRole);
+}
+
+/*
+ * Built-in roles take precedence over custom roles,
+ * which are returned by id only when the user has no built-in role.
+ */
 export function findHighestUserSpaceRole(userSpaceRoles: UserSpaceRole[]) {
   if (!userSpaceRoles) {
     return undefined;
   }
 
   const roleOrder: { [key in SpaceRole]: number } = {
-    [SpaceRole.ADMIN]: 3,
-    [SpaceRole.WRITER]: 2,
+    [SpaceRole.ADMIN]: 4,
+    [SpaceRole.WRITER]: 3,
+    [SpaceRole.COMMENTER]: 2,
     [SpaceRole.READER]: 1,
   };
   let highestRole: string;
 
   for (const userSpaceRole of userSpaceRoles) {
     const currentRole = userSpaceRole.role;
-    if (!highestRole || roleOrder[currentRole] > roleOrder[highestRole]) {
+    if (
+      !highestRole ||
+      (roleOrder[currentRole] ?? 0) > (roleOrder[highestRole] ?? 0)
+    ) {
       highestRole = currentRole;
     }
   }
@@ -0,0 +1,224 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertablePageTemplate,
+  PageTemplate,
+  UpdatablePageTemplate,
+} from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { ExpressionBuilder, sql } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonObjectFrom } from 'kysely/helpers/postgres';
+import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+
+export type TemplateWithPage = Omit<
+  PageTemplate,
+  'publishedTitle' | 'publishedIcon' | 'publishedContent'
+> & {
+  title: string | null;
+  icon: string | null;
+  slugId: string;
+  spaceId: string;
+};
+
+@Injectable()
+export class TemplateRepo {
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private spaceMemberRepo: SpaceMemberRepo,
+    private pagePermissionRepo: PagePermissionRepo,
+  ) {}
+
+  // published workspace templates show the title and icon they were published with
+  private title = sql<
+    string | null
+  >`coalesce(page_templates.published_title, pages.title)`;
+
+  private baseFields = [
+    'pageTemplates.id',
+    'pageTemplates.pageId',
+    'pageTemplates.scope',
+    'pageTemplates.description',
+    'pageTemplates.creatorId',
+    'pageTemplates.workspaceId',
+    'pageTemplates.publishedAt',
+    'pageTemplates.createdAt',
+    'pageTemplates.updatedAt',
+    this.title.as('title'),
+    sql<
+      string | null
+    >`case when page_templates.published_at is null then pages.icon else page_templates.published_icon end`.as(
+      'icon',
+    ),
+    'pages.slugId',
+    'pages.spaceId',
+  ] as const;
+
+  async findById(
+    templateId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<TemplateWithPage> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .selectFrom('pageTemplates')
+      .innerJoin('pages', 'pages.id', 'pageTemplates.pageId')
+      .select(this.baseFields)
+      .where('pageTemplates.id', '=', templateId)
+      .where('pageTemplates.workspaceId', '=', workspaceId)
+      .where('pages.deletedAt', 'is', null)
+      .executeTakeFirst();
+  }
+
+  async findByPageId(
+    pageId: string,
+    trx?: KyselyTransaction,
+  ): Promise<TemplateWithPage> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .selectFrom('pageTemplates')
+      .innerJoin('pages', 'pages.id', 'pageTemplates.pageId')
+      .select(this.baseFields)
+      .where('pageTemplates.pageId', '=', pageId)
+      .executeTakeFirst();
+  }
+
+  async findPublishedVersion(
+    templateId: string,
+  ): Promise<
+    Pick<
+      PageTemplate,
+      'publishedTitle' | 'publishedIcon' | 'publishedContent' | 'publishedAt'
+    >
+  > {
+    return this.db
+      .selectFrom('pageTemplates')
+      .select([
+        'publishedTitle',
+        'publishedIcon',
+        'publishedContent',
+        'publishedAt',
+      ])
+      .where('id', '=', templateId)
+      .executeTakeFirst();
+  }
+
+  async insertTemplate(
+    insertableTemplate: InsertablePageTemplate,
+    trx?: KyselyTransaction,
+  ): Promise<PageTemplate> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('pageTemplates')
+      .values(insertableTemplate)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async updateTemplate(
+    updatableTemplate: UpdatablePageTemplate,
+    templateId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .updateTable('pageTemplates')
+      .set({ ...updatableTemplate, updatedAt: new Date() })
+      .where('id', '=', templateId)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  async deleteTemplate(templateId: string, workspaceId: string): Promise<void> {
+    await this.db
+      .deleteFrom('pageTemplates')
+      .where('id', '=', templateId)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  /**
+   * Templates the user can pick from: published workspace templates plus the
+   * space templates of the spaces they are a member of.
+   * When a spaceId is given, space templates are limited to that space.
+   * Space templates also require read access to the template page.
+   */
+  async getTemplatesPaginated(
+    userId: string,
+    workspaceId: string,
+    pagination: PaginationOptions,
+    opts?: { spaceId?: string },
+  ) {
+    const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
+    const templateSpaceIds = opts?.spaceId
+      ? userSpaceIds.filter((id) => id === opts.spaceId)
+      : userSpaceIds;
+
+    let query = this.db
+      .selectFrom('pageTemplates')
+      .innerJoin('pages', 'pages.id', 'pageTemplates.pageId')
+      .select(this.baseFields)
+      .select((eb) => this.withSpace(eb))
+      .select((eb) => this.withCreator(eb))
+      .where('pageTemplates.workspaceId', '=', workspaceId)
+      .where('pages.deletedAt', 'is', null)
+      .where((eb) =>
+        eb.or([
+          eb.and([
+            eb('pageTemplates.scope', '=', 'workspace'),
+            eb('pageTemplates.publishedAt', 'is not', null),
+          ]),
+          ...(templateSpaceIds.length > 0
+            ? [
+                eb.and([
+                  eb('pages.spaceId', 'in', templateSpaceIds),
+                  eb(
+                    'pages.id',
+                    'not in',
+                    this.pagePermissionRepo.getInaccessiblePageIds(userId),
+                  ),
+                ]),
+              ]
+            : []),
+        ]),
+      )
+      .orderBy(this.title, 'asc')
+      .orderBy('pageTemplates.createdAt', 'desc');
+
+    if (pagination.query) {
+      query = query.where(
+        sql`f_unaccent(${this.title})`,
+        'ilike',
+        sql`f_unaccent(${'%' + pagination.query + '%'})`,
+      );
+    }
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  withSpace(eb: ExpressionBuilder<DB, 'pages'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('spaces')
+        .select(['spaces.id', 'spaces.name', 'spaces.slug'])
+        .whereRef('spaces.id', '=', 'pages.spaceId'),
+    ).as('space');
+  }
+
+  withCreator(eb: ExpressionBuilder<DB, 'pageTemplates'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'pageTemplates.creatorId'),
+    ).as('creator');
+  }
+}
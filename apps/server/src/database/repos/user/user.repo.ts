@@ -11,8 +11,8 @@ import {
 } from '@docmost/db/types/entity.types';
 import { PaginationOptions } from '../../pagination/pagination-options';
 import { executeWithPagination } from '@docmost/db/pagination/pagination';
-import { ExpressionBuilder, sql } from 'kysely';
-import { jsonObjectFrom } from 'kysely/helpers/postgres';
+import { Expression, ExpressionBuilder, SqlBool, sql } from 'kysely';
+import { jsonArrayFrom, jsonObjectFrom } from 'kysely/helpers/postgres';
 
 @Injectable()
 export class UserRepo {
@@ -189,6 +189,62 @@ export class UserRepo {
     return result;
   }
 
+  async findScimUserById(
+    userId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ) {
+    return this.scimUsersQuery(workspaceId, trx)
+      .where('users.id', '=', userId)
+      .executeTakeFirst();
+  }
+
+  async getScimUsers(
+    workspaceId: string,
+    opts: { filter?: Expression<SqlBool>; offset: number; limit: number },
+  ) {
+    const query = this.db
+      .selectFrom('users')
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .$if(Boolean(opts.filter), (qb) => qb.where(opts.filter));
+
+    const [{ count }, users] = await Promise.all([
+      query.select((eb) => eb.fn.countAll().as('count')).executeTakeFirst(),
+      this.scimUsersQuery(workspaceId)
+        .$if(Boolean(opts.filter), (qb) => qb.where(opts.filter))
+        .orderBy('users.createdAt', 'asc')
+        .orderBy('users.id', 'asc')
+        .offset(opts.offset)
+        .limit(opts.limit)
+        .execute(),
+    ]);
+
+    return { users, total: Number(count) };
+  }
+
+  private scimUsersQuery(workspaceId: string, trx?: KyselyTransaction) {
+    return dbOrTx(this.db, trx)
+      .selectFrom('users')
+      .select(this.baseFields)
+      .select('scimExternalId')
+      .select((eb) => this.withScimGroups(eb))
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null);
+  }
+
+  withScimGroups(eb: ExpressionBuilder<DB, 'users'>) {
+    return jsonArrayFrom(
+      eb
+        .selectFrom('groups')
+        .innerJoin('groupUsers', 'groupUsers.groupId', 'groups.id')
+        .select(['groups.id', 'groups.name'])
+        .whereRef('groupUsers.userId', '=', 'users.id')
+        .where('groups.isDefault', '=', false)
+        .orderBy('groups.name'),
+    ).as('groups');
+  }
+
   async updatePreference(
     userId: string,
     prefKey: string,
@@ -207,6 +263,23 @@ export class UserRepo {
       .executeTakeFirst();
   }
 
+  async updateNotificationSettings(
+    userId: string,
+    notificationSettings: Record<string, string | boolean>,
+  ) {
+    return await this.db
+      .updateTable('users')
+      .set({
+        settings: sql`COALESCE(settings, '{}'::jsonb)
+                || jsonb_build_object('notifications', COALESCE(settings->'notifications', '{}'::jsonb)
+                || ${JSON.stringify(notificationSettings)}::jsonb)`,
+        updatedAt: new Date(),
+      })
+      .where('id', '=', userId)
+      .returning(this.baseFields)
+      .executeTakeFirst();
+  }
+
   withUserMfa(eb: ExpressionBuilder<DB, 'users'>) {
     return jsonObjectFrom(
       eb
@@ -0,0 +1,121 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '../../types/kysely.types';
+import { dbOrTx } from '../../utils';
+import { Watcher } from '@docmost/db/types/entity.types';
+
+@Injectable()
+export class WatcherRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async findSpaceWatcher(userId: string, spaceId: string): Promise<Watcher> {
+    return this.db
+      .selectFrom('watchers')
+      .selectAll()
+      .where('userId', '=', userId)
+      .where('spaceId', '=', spaceId)
+      .where('pageId', 'is', null)
+      .executeTakeFirst();
+  }
+
+  async upsertPageWatcher(
+    watcher: {
+      userId: string;
+      pageId: string;
+      spaceId: string;
+      workspaceId: string;
+      includeChildren: boolean;
+      isMuted: boolean;
+    },
+    trx?: KyselyTransaction,
+  ): Promise<Watcher> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('watchers')
+      .values(watcher)
+      .onConflict((oc) =>
+        oc
+          .columns(['userId', 'pageId'])
+          .where('pageId', 'is not', null)
+          .doUpdateSet({
+            spaceId: watcher.spaceId,
+            includeChildren: watcher.includeChildren,
+            isMuted: watcher.isMuted,
+            updatedAt: new Date(),
+          }),
+      )
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async upsertSpaceWatcher(
+    watcher: { userId: string; spaceId: string; workspaceId: string },
+    trx?: KyselyTransaction,
+  ): Promise<Watcher> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('watchers')
+      .values({ ...watcher, pageId: null })
+      .onConflict((oc) =>
+        oc
+          .columns(['userId', 'spaceId'])
+          .where('pageId', 'is', null)
+          .doUpdateSet({ isMuted: false, updatedAt: new Date() }),
+      )
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async deleteSpaceWatcher(userId: string, spaceId: string): Promise<void> {
+    await this.db
+      .deleteFrom('watchers')
+      .where('userId', '=', userId)
+      .where('spaceId', '=', spaceId)
+      .where('pageId', 'is', null)
+      .execute();
+  }
+
+  /*
+   * Returns the watch entries that apply to a page:
+   * the page itself, its ancestors watched with their children, and its space.
+   */
+  async findPageWatchEntries(
+    page: { id: string; spaceId: string },
+    opts?: { userId?: string },
+  ): Promise<Watcher[]> {
+    return this.db
+      .withRecursive('pageAncestors', (db) =>
+        db
+          .selectFrom('pages')
+          .select(['id', 'parentPageId'])
+          .where('id', '=', page.id)
+          .unionAll((exp) =>
+            exp
+              .selectFrom('pages as p')
+              .select(['p.id', 'p.parentPageId'])
+              .innerJoin('pageAncestors as pa', 'pa.parentPageId', 'p.id'),
+          ),
+      )
+      .selectFrom('watchers')
+      .selectAll('watchers')
+      .where('watchers.spaceId', '=', page.spaceId)
+      .where((eb) =>
+        eb.or([
+          eb('watchers.pageId', '=', page.id),
+          eb('watchers.pageId', 'is', null),
+          eb.and([
+            eb('watchers.includeChildren', '=', true),
+            eb(
+              'watchers.pageId',
+              'in',
+              eb.selectFrom('pageAncestors').select('pageAncestors.id'),
+            ),
+          ]),
+        ]),
+      )
+      .$if(Boolean(opts?.userId), (qb) =>
+        qb.where('watchers.userId', '=', opts.userId),
+      )
+      .execute();
+  }
+}
@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertableWebhookDelivery,
+  UpdatableWebhookDelivery,
+  WebhookDelivery,
+} from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+
+@Injectable()
+export class WebhookDeliveryRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  async findById(
+    deliveryId: string,
+    trx?: KyselyTransaction,
+  ): Promise<WebhookDelivery> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .selectFrom('webhookDeliveries')
+      .selectAll()
+      .where('id', '=', deliveryId)
+      .executeTakeFirst();
+  }
+
+  async insertDelivery(
+    insertableDelivery: InsertableWebhookDelivery,
+    trx?: KyselyTransaction,
+  ): Promise<WebhookDelivery> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('webhookDeliveries')
+      .values(insertableDelivery)
+      .returningAll()
+      .executeTakeFirst();
+  }
+
+  async updateDelivery(
+    updatableDelivery: UpdatableWebhookDelivery,
+    deliveryId: string,
+    trx?: KyselyTransaction,
+  ): Promise<void> {
+    const db = dbOrTx(this.db, trx);
+    await db
+      .updateTable('webhookDeliveries')
+      .set({ ...updatableDelivery, updatedAt: new Date() })
+      .where('id', '=', deliveryId)
+      .execute();
+  }
+
+  async getDeliveriesPaginated(
+    webhookId: string,
+    workspaceId: string,
+    pagination: PaginationOptions,
+  ) {
+    const query = this.db
+      .selectFrom('webhookDeliveries')
+      .select([
+        'id',
+        'webhookId',
+        'event',
+        'payload',
+        'status',
+        'attempts',
+        'responseStatus',
+        'responseBody',
+        'errorMessage',
+        'durationMs',
+        'deliveredAt',
+        'createdAt',
+        'updatedAt',
+      ])
+      .where('webhookId', '=', webhookId)
+      .where('workspaceId', '=', workspaceId)
+      .orderBy('createdAt', 'desc');
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  async deleteDeliveriesBefore(date: Date): Promise<void> {
+    await this.db
+      .deleteFrom('webhookDeliveries')
+      .where('createdAt', '<', date)
+      .execute();
+  }
+}
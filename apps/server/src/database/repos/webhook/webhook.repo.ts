@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB, KyselyTransaction } from '@docmost/db/types/kysely.types';
+import { dbOrTx } from '@docmost/db/utils';
+import {
+  InsertableWebhook,
+  UpdatableWebhook,
+  Webhook,
+} from '@docmost/db/types/entity.types';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { executeWithPagination } from '@docmost/db/pagination/pagination';
+import { ExpressionBuilder, sql } from 'kysely';
+import { DB } from '@docmost/db/types/db';
+import { jsonObjectFrom } from 'kysely/helpers/postgres';
+
+@Injectable()
+export class WebhookRepo {
+  constructor(@InjectKysely() private readonly db: KyselyDB) {}
+
+  private baseFields: Array<keyof Webhook> = [
+    'id',
+    'name',
+    'url',
+    'events',
+    'isEnabled',
+    'creatorId',
+    'workspaceId',
+    'createdAt',
+    'updatedAt',
+  ];
+
+  async findById(
+    webhookId: string,
+    workspaceId: string,
+    opts?: { includeSecret?: boolean; trx?: KyselyTransaction },
+  ): Promise<Webhook> {
+    const db = dbOrTx(this.db, opts?.trx);
+    return db
+      .selectFrom('webhooks')
+      .select(this.baseFields)
+      .$if(opts?.includeSecret, (qb) => qb.select('secret'))
+      .where('id', '=', webhookId)
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .executeTakeFirst();
+  }
+
+  async findEnabledByEvent(
+    event: string,
+    workspaceId: string,
+  ): Promise<Webhook[]> {
+    return this.db
+      .selectFrom('webhooks')
+      .select(this.baseFields)
+      .where('workspaceId', '=', workspaceId)
+      .where('isEnabled', '=', true)
+      .where('deletedAt', 'is', null)
+      .where(sql<boolean>`${event} = ANY(events)`)
+      .execute();
+  }
+
+  async insertWebhook(
+    insertableWebhook: InsertableWebhook,
+    trx?: KyselyTransaction,
+  ): Promise<Webhook> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .insertInto('webhooks')
+      .values(insertableWebhook)
+      .returning([...this.baseFields, 'secret'])
+      .executeTakeFirst();
+  }
+
+  async updateWebhook(
+    updatableWebhook: UpdatableWebhook,
+    webhookId: string,
+    workspaceId: string,
+    trx?: KyselyTransaction,
+  ): Promise<Webhook> {
+    const db = dbOrTx(this.db, trx);
+    return db
+      .updateTable('webhooks')
+      .set({ ...updatableWebhook, updatedAt: new Date() })
+      .where('id', '=', webhookId)
+      .where('workspaceId', '=', workspaceId)
+      .returning(this.baseFields)
+      .executeTakeFirst();
+  }
+
+  async deleteWebhook(webhookId: string, workspaceId: string): Promise<void> {
+    await this.db
+      .deleteFrom('webhooks')
+      .where('id', '=', webhookId)
+      .where('workspaceId', '=', workspaceId)
+      .execute();
+  }
+
+  async getWebhooksPaginated(
+    workspaceId: string,
+    pagination: PaginationOptions,
+  ) {
+    const query = this.db
+      .selectFrom('webhooks')
+      .select(this.baseFields)
+      .select((eb) => this.withCreator(eb))
+      .where('workspaceId', '=', workspaceId)
+      .where('deletedAt', 'is', null)
+      .orderBy('createdAt', 'desc');
+
+    return executeWithPagination(query, {
+      page: pagination.page,
+      perPage: pagination.limit,
+    });
+  }
+
+  withCreator(eb: ExpressionBuilder<DB, 'webhooks'>) {
+    return jsonObjectFrom(
+      eb
+        .selectFrom('users')
+        .select(['users.id', 'users.name', 'users.avatarUrl'])
+        .whereRef('users.id', '=', 'webhooks.creatorId'),
+    ).as('creator');
+  }
+}
@@ -176,6 +176,24 @@ export class WorkspaceRepo {
       .executeTakeFirst();
   }
 
+  async updateHistorySettings(
+    workspaceId: string,
+    prefKey: string,
+    prefValue: number | boolean,
+  ) {
+    return this.db
+      .updateTable('workspaces')
+      .set({
+        settings: sql`COALESCE(settings, '{}'::jsonb)
+                || jsonb_build_object('history', COALESCE(settings->'history', '{}'::jsonb) 
+                || jsonb_build_object('${sql.raw(prefKey)}', ${sql.lit(prefValue)}))`,
+        updatedAt: new Date(),
+      })
+      .where('id', '=', workspaceId)
+      .returning(this.baseFields)
+      .executeTakeFirst();
+  }
+
   async updateAiSettings(
     workspaceId: string,
     prefKey: string,
@@ -37,11 +37,24 @@ export interface ApiKeys {
   id: Generated<string>;
   lastUsedAt: Timestamp | null;
   name: string | null;
+  scopes: string[] | null;
   updatedAt: Generated<Timestamp>;
   creatorId: string;
   workspaceId: string;
 }
 
+export interface AuditLogs {
+  action: string;
+  actorId: string | null;
+  createdAt: Generated<Timestamp>;
+  id: Generated<string>;
+  metadata: Json | null;
+  resourceId: string | null;
+  resourceType: string;
+  spaceId: string | null;
+  workspaceId: string;
+}
+
 export interface Attachments {
   createdAt: Generated<Timestamp>;
   creatorId: string;
@@ -140,6 +153,15 @@ export interface Billing {
   workspaceId: string;
 }
 
+export interface CommentReactions {
+  commentId: string;
+  createdAt: Generated<Timestamp>;
+  emoji: string;
+  id: Generated<string>;
+  userId: string;
+  workspaceId: string;
+}
+
 export interface Comments {
   content: Json | null;
   createdAt: Generated<Timestamp>;
@@ -159,6 +181,17 @@ export interface Comments {
   workspaceId: string;
 }
 
+export interface CustomSpaceRoles {
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  description: string | null;
+  id: Generated<string>;
+  name: string;
+  permissions: Generated<Json>;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
 export interface FileTasks {
   createdAt: Generated<Timestamp>;
   creatorId: string | null;
@@ -185,6 +218,7 @@ export interface Groups {
   id: Generated<string>;
   isDefault: boolean;
   name: string;
+  scimExternalId: string | null;
   updatedAt: Generated<Timestamp>;
   workspaceId: string;
 }
@@ -197,14 +231,43 @@ export interface GroupUsers {
   userId: string;
 }
 
+export interface Labels {
+  color: string | null;
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  id: Generated<string>;
+  name: string;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
+export interface Notifications {
+  actorId: string | null;
+  commentId: string | null;
+  createdAt: Generated<Timestamp>;
+  data: Json | null;
+  emailedAt: Timestamp | null;
+  id: Generated<string>;
+  pageId: string | null;
+  readAt: Timestamp | null;
+  spaceId: string | null;
+  type: string;
+  userId: string;
+  workspaceId: string;
+}
+
 export interface PageHistory {
   content: Json | null;
   coverPhoto: string | null;
   createdAt: Generated<Timestamp>;
   icon: string | null;
   id: Generated<string>;
+  isPinned: Generated<boolean>;
   lastUpdatedById: string | null;
+  name: string | null;
   pageId: string;
+  pinnedAt: Timestamp | null;
+  pinnedById: string | null;
   slug: string | null;
   slugId: string | null;
   spaceId: string;
@@ -214,6 +277,99 @@ export interface PageHistory {
   workspaceId: string;
 }
 
+export interface PageLabels {
+  createdAt: Generated<Timestamp>;
+  labelId: string;
+  pageId: string;
+  workspaceId: string;
+}
+
+export interface PageTasks {
+  assigneeId: string | null;
+  createdAt: Generated<Timestamp>;
+  dueDate: string | null;
+  id: Generated<string>;
+  isCompleted: Generated<boolean>;
+  pageId: string;
+  spaceId: string;
+  taskId: string;
+  text: string | null;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
+export interface PageReviewApprovers {
+  comment: string | null;
+  decidedAt: Timestamp | null;
+  id: Generated<string>;
+  reviewId: string;
+  status: Generated<string>;
+  userId: string;
+}
+
+export interface PageReviews {
+  content: Json | null;
+  createdAt: Generated<Timestamp>;
+  id: Generated<string>;
+  message: string | null;
+  pageId: string;
+  requesterId: string | null;
+  resolvedAt: Timestamp | null;
+  spaceId: string;
+  status: Generated<string>;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
+export interface PagePermissions {
+  addedById: string | null;
+  createdAt: Generated<Timestamp>;
+  groupId: string | null;
+  id: Generated<string>;
+  pageId: string;
+  role: string;
+  updatedAt: Generated<Timestamp>;
+  userId: string | null;
+  workspaceId: string;
+}
+
+export interface PageProperties {
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  id: Generated<string>;
+  name: string;
+  options: Json | null;
+  parentPageId: string | null;
+  spaceId: string;
+  type: string;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
+export interface PagePropertyValues {
+  lastUpdatedById: string | null;
+  pageId: string;
+  propertyId: string;
+  updatedAt: Generated<Timestamp>;
+  value: Json;
+  workspaceId: string;
+}
+
+export interface PageTemplates {
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  description: string | null;
+  id: Generated<string>;
+  pageId: string;
+  publishedAt: Timestamp | null;
+  publishedContent: Json | null;
+  publishedIcon: string | null;
+  publishedTitle: string | null;
+  scope: Generated<string>;
+  updatedAt: Generated<Timestamp>;
+  workspaceId: string;
+}
+
 export interface Pages {
   content: Json | null;
   contributorIds: Generated<string[] | null>;
@@ -228,6 +384,9 @@ export interface Pages {
   lastUpdatedById: string | null;
   parentPageId: string | null;
   position: string | null;
+  publishedAt: Timestamp | null;
+  publishedById: string | null;
+  publishedContent: Json | null;
   slugId: string;
   spaceId: string;
   textContent: string | null;
@@ -242,16 +401,49 @@ export interface Shares {
   createdAt: Generated<Timestamp>;
   creatorId: string | null;
   deletedAt: Timestamp | null;
+  disableDownload: Generated<boolean>;
+  expiresAt: Timestamp | null;
   id: Generated<string>;
   includeSubPages: Generated<boolean | null>;
   key: string;
   pageId: string | null;
+  passwordHash: string | null;
   searchIndexing: Generated<boolean | null>;
   spaceId: string;
   updatedAt: Generated<Timestamp>;
   workspaceId: string;
 }
 
+export interface ScimTokens {
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  id: Generated<string>;
+  lastUsedAt: Timestamp | null;
+  name: string;
+  tokenHash: string;
+  tokenHint: string;
+  workspaceId: string;
+}
+
+export interface ShareViewEvents {
+  day: Generated<string>;
+  id: Generated<string>;
+  pageId: string;
+  referrer: Generated<string>;
+  shareId: string;
+  workspaceId: string;
+}
+
+export interface ShareViewStats {
+  day: string;
+  id: Generated<string>;
+  pageId: string;
+  referrer: Generated<string>;
+  shareId: string;
+  views: Generated<number>;
+  workspaceId: string;
+}
+
 export interface SpaceMembers {
   addedById: string | null;
   createdAt: Generated<Timestamp>;
@@ -273,6 +465,7 @@ export interface Spaces {
   id: Generated<string>;
   logo: string | null;
   name: string | null;
+  reviewWorkflow: Generated<boolean>;
   slug: string;
   updatedAt: Generated<Timestamp>;
   visibility: Generated<string>;
@@ -307,6 +500,7 @@ export interface Users {
   name: string | null;
   password: string | null;
   role: string | null;
+  scimExternalId: string | null;
   settings: Json | null;
   timezone: string | null;
   updatedAt: Generated<Timestamp>;
@@ -336,6 +530,49 @@ export interface WorkspaceInvitations {
   workspaceId: string;
 }
 
+export interface Watchers {
+  createdAt: Generated<Timestamp>;
+  id: Generated<string>;
+  includeChildren: Generated<boolean>;
+  isMuted: Generated<boolean>;
+  pageId: string | null;
+  spaceId: string;
+  updatedAt: Generated<Timestamp>;
+  userId: string;
+  workspaceId: string;
+}
+
+export interface WebhookDeliveries {
+  attempts: Generated<number>;
+  createdAt: Generated<Timestamp>;
+  deliveredAt: Timestamp | null;
+  durationMs: number | null;
+  errorMessage: string | null;
+  event: string;
+  id: Generated<string>;
+  payload: Json | null;
+  responseBody: string | null;
+  responseStatus: number | null;
+  status: Generated<string>;
+  updatedAt: Generated<Timestamp>;
+  webhookId: string;
+  workspaceId: string;
+}
+
+export interface Webhooks {
+  createdAt: Generated<Timestamp>;
+  creatorId: string | null;
+  deletedAt: Timestamp | null;
+  events: Generated<string[]>;
+  id: Generated<string>;
+  isEnabled: Generated<boolean>;
+  name: string | null;
+  secret: string;
+  updatedAt: Generated<Timestamp>;
+  url: string;
+  workspaceId: string;
+}
+
 export interface Workspaces {
   billingEmail: string | null;
   createdAt: Generated<Timestamp>;
@@ -363,22 +600,41 @@ export interface Workspaces {
 export interface DB {
   apiKeys: ApiKeys;
   attachments: Attachments;
+  auditLogs: AuditLogs;
   authAccounts: AuthAccounts;
   authProviders: AuthProviders;
   backlinks: Backlinks;
   billing: Billing;
+  commentReactions: CommentReactions;
   comments: Comments;
+  customSpaceRoles: CustomSpaceRoles;
   fileTasks: FileTasks;
   groups: Groups;
   groupUsers: GroupUsers;
+  labels: Labels;
+  notifications: Notifications;
   pageHistory: PageHistory;
+  pageLabels: PageLabels;
+  pagePermissions: PagePermissions;
+  pageReviewApprovers: PageReviewApprovers;
+  pageReviews: PageReviews;
+  pageProperties: PageProperties;
+  pagePropertyValues: PagePropertyValues;
   pages: Pages;
+  pageTasks: PageTasks;
+  pageTemplates: PageTemplates;
+  scimTokens: ScimTokens;
   shares: Shares;
+  shareViewEvents: ShareViewEvents;
+  shareViewStats: ShareViewStats;
   spaceMembers: SpaceMembers;
   spaces: Spaces;
   userMfa: UserMfa;
   users: Users;
   userTokens: UserTokens;
+  watchers: Watchers;
+  webhookDeliveries: WebhookDeliveries;
+  webhooks: Webhooks;
   workspaceInvitations: WorkspaceInvitations;
   workspaces: Workspaces;
 }
@@ -1,22 +1,41 @@
 import {
   ApiKeys,
   Attachments,
+  AuditLogs,
+  ScimTokens,
   AuthAccounts,
   AuthProviders,
   Backlinks,
   Billing,
+  CommentReactions,
   Comments,
+  CustomSpaceRoles,
   FileTasks,
   Groups,
   GroupUsers,
+  Labels,
+  Notifications,
   PageHistory,
+  PageLabels,
+  PagePermissions,
+  PageReviewApprovers,
+  PageReviews,
+  PageProperties,
+  PagePropertyValues,
   Pages,
+  PageTasks,
+  PageTemplates,
   Shares,
+  ShareViewEvents,
+  ShareViewStats,
   SpaceMembers,
   Spaces,
   UserMfa,
   Users,
   UserTokens,
+  Watchers,
+  WebhookDeliveries,
+  Webhooks,
   WorkspaceInvitations,
   Workspaces,
 } from '@docmost/db/types/db';
@@ -29,19 +48,38 @@ export interface DbInterface {
   backlinks: Backlinks;
   billing: Billing;
   comments: Comments;
+  commentReactions: CommentReactions;
+  customSpaceRoles: CustomSpaceRoles;
   fileTasks: FileTasks;
   groups: Groups;
   groupUsers: GroupUsers;
+  labels: Labels;
+  notifications: Notifications;
   pageEmbeddings: PageEmbeddings;
   pageHistory: PageHistory;
+  pageLabels: PageLabels;
+  pagePermissions: PagePermissions;
+  pageReviewApprovers: PageReviewApprovers;
+  pageReviews: PageReviews;
+  pageProperties: PageProperties;
+  pagePropertyValues: PagePropertyValues;
   pages: Pages;
+  pageTasks: PageTasks;
+  pageTemplates: PageTemplates;
   shares: Shares;
+  shareViewEvents: ShareViewEvents;
+  shareViewStats: ShareViewStats;
   spaceMembers: SpaceMembers;
   spaces: Spaces;
   userMfa: UserMfa;
   users: Users;
   userTokens: UserTokens;
+  watchers: Watchers;
+  webhooks: Webhooks;
+  webhookDeliveries: WebhookDeliveries;
   workspaceInvitations: WorkspaceInvitations;
   workspaces: Workspaces;
   apiKeys: ApiKeys;
+  auditLogs: AuditLogs;
+  scimTokens: ScimTokens;
 }
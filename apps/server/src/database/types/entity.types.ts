@@ -17,9 +17,28 @@ import {
   AuthProviders,
   AuthAccounts,
   Shares,
+  ShareViewEvents,
+  ShareViewStats,
   FileTasks,
   UserMfa as _UserMFA,
   ApiKeys,
+  AuditLogs,
+  ScimTokens,
+  Webhooks,
+  WebhookDeliveries,
+  PageTemplates,
+  PagePermissions,
+  CustomSpaceRoles,
+  Notifications,
+  Watchers,
+  CommentReactions,
+  Labels,
+  PageLabels,
+  PageProperties,
+  PagePropertyValues,
+  PageTasks,
+  PageReviews,
+  PageReviewApprovers,
 } from './db';
 import { PageEmbeddings } from '@docmost/db/types/embeddings.types';
 
@@ -112,6 +131,10 @@ export type Share = Selectable<Shares>;
 export type InsertableShare = Insertable<Shares>;
 export type UpdatableShare = Updateable<Omit<Shares, 'id'>>;
 
+// Share View
+export type InsertableShareViewEvent = Insertable<ShareViewEvents>;
+export type ShareViewStat = Selectable<ShareViewStats>;
+
 // File Task
 export type FileTask = Selectable<FileTasks>;
 export type InsertableFileTask = Insertable<FileTasks>;
@@ -127,6 +150,85 @@ export type ApiKey = Selectable<ApiKeys>;
 export type InsertableApiKey = Insertable<ApiKeys>;
 export type UpdatableApiKey = Updateable<Omit<ApiKeys, 'id'>>;
 
+// Audit Log
+export type AuditLog = Selectable<AuditLogs>;
+export type InsertableAuditLog = Insertable<AuditLogs>;
+
+// SCIM Token
+export type ScimToken = Selectable<ScimTokens>;
+export type InsertableScimToken = Insertable<ScimTokens>;
+
+// Webhook
+export type Webhook = Selectable<Webhooks>;
+export type InsertableWebhook = Insertable<Webhooks>;
+export type UpdatableWebhook = Updateable<Omit<Webhooks, 'id'>>;
+
+// Webhook Delivery
+export type WebhookDelivery = Selectable<WebhookDeliveries>;
+export type InsertableWebhookDelivery = Insertable<WebhookDeliveries>;
+export type UpdatableWebhookDelivery = Updateable<
+  Omit<WebhookDeliveries, 'id'>
+>;
+
+// Page Template
+export type PageTemplate = Selectable<PageTemplates>;
+export type InsertablePageTemplate = Insertable<PageTemplates>;
+export type UpdatablePageTemplate = Updateable<Omit<PageTemplates, 'id'>>;
+
+// Page Permission
+export type PagePermission = Selectable<PagePermissions>;
+export type InsertablePagePermission = Insertable<PagePermissions>;
+export type UpdatablePagePermission = Updateable<Omit<PagePermissions, 'id'>>;
+
+// Custom Space Role
+export type CustomSpaceRole = Selectable<CustomSpaceRoles>;
+export type InsertableCustomSpaceRole = Insertable<CustomSpaceRoles>;
+export type UpdatableCustomSpaceRole = Updateable<Omit<CustomSpaceRoles, 'id'>>;
+
+// Notification
+export type Notification = Selectable<Notifications>;
+export type InsertableNotification = Insertable<Notifications>;
+export type UpdatableNotification = Updateable<Omit<Notifications, 'id'>>;
+
+// Watcher
+export type Watcher = Selectable<Watchers>;
+export type InsertableWatcher = Insertable<Watchers>;
+export type UpdatableWatcher = Updateable<Omit<Watchers, 'id'>>;
+
+// Comment Reaction
+export type CommentReaction = Selectable<CommentReactions>;
+export type InsertableCommentReaction = Insertable<CommentReactions>;
+
+// Label
+export type Label = Selectable<Labels>;
+export type InsertableLabel = Insertable<Labels>;
+
+// Page Label
+export type PageLabel = Selectable<PageLabels>;
+export type InsertablePageLabel = Insertable<PageLabels>;
+
+// Page Property
+export type PageProperty = Selectable<PageProperties>;
+export type InsertablePageProperty = Insertable<PageProperties>;
+export type UpdatablePageProperty = Updateable<Omit<PageProperties, 'id'>>;
+
+// Page Property Value
+export type PagePropertyValue = Selectable<PagePropertyValues>;
+export type InsertablePagePropertyValue = Insertable<PagePropertyValues>;
+
+// Page Task
+export type PageTask = Selectable<PageTasks>;
+export type InsertablePageTask = Insertable<PageTasks>;
+
+// Page Review
+export type PageReview = Selectable<PageReviews>;
+export type InsertablePageReview = Insertable<PageReviews>;
+export type UpdatablePageReview = Updateable<Omit<PageReviews, 'id'>>;
+
+// Page Review Approver
+export type PageReviewApprover = Selectable<PageReviewApprovers>;
+export type InsertablePageReviewApprover = Insertable<PageReviewApprovers>;
+
 // Page Embedding
 export type PageEmbedding = Selectable<PageEmbeddings>;
 export type InsertablePageEmbedding = Insertable<PageEmbeddings>;
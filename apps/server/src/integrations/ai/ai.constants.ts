@@ -0,0 +1,17 @@
+export enum AiDriver {
+  OPENAI = 'openai',
+  GEMINI = 'gemini',
+  OLLAMA = 'ollama',
+}
+
+export const EMBEDDING_REQUEST_TIMEOUT_MS = 60 * 1000;
+// number of chunks sent to the provider per request
+export const EMBEDDING_BATCH_SIZE = 32;
+
+// chunk sizes are in characters of the page text content
+export const EMBEDDING_CHUNK_SIZE = 1500;
+export const EMBEDDING_CHUNK_OVERLAP = 200;
+export const EMBEDDING_MAX_CHUNKS_PER_PAGE = 200;
+
+// pages queued per GENERATE_PAGE_EMBEDDINGS job when indexing a workspace
+export const EMBEDDING_WORKSPACE_BATCH_SIZE = 50;
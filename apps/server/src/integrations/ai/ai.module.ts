@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { EmbeddingService } from './embedding.service';
+import { PageEmbeddingService } from './page-embedding.service';
+import { AiProcessor } from './processors/ai.processor';
+
+@Module({
+  providers: [EmbeddingService, PageEmbeddingService, AiProcessor],
+  exports: [EmbeddingService, PageEmbeddingService],
+})
+export class AiModule {}
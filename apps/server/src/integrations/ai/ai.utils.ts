@@ -0,0 +1,68 @@
+export interface TextChunk {
+  index: number;
+  start: number;
+  length: number;
+  text: string;
+}
+
+/*
+ * Splits text into overlapping chunks, preferring to cut at paragraph,
+ * sentence or word boundaries so chunks stay readable.
+ */
+export function chunkText(
+  text: string,
+  opts: { size: number; overlap: number; maxChunks?: number },
+): TextChunk[] {
+  const chunks: TextChunk[] = [];
+  if (!text?.trim()) return chunks;
+
+  const { size, overlap } = opts;
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + size, text.length);
+    if (end < text.length) {
+      end = findBreakpoint(text, start, end);
+    }
+
+    const chunk = text.slice(start, end);
+    if (chunk.trim()) {
+      chunks.push({
+        index: chunks.length,
+        start,
+        length: chunk.length,
+        text: chunk.trim(),
+      });
+    }
+
+    if (end >= text.length) break;
+    if (opts.maxChunks && chunks.length >= opts.maxChunks) break;
+
+    // always move forward, even when the overlap exceeds the chunk
+    const nextStart = Math.max(end - overlap, start + 1);
+    // begin the overlap on a word boundary
+    const wordStart = text.indexOf(' ', nextStart);
+    start = wordStart !== -1 && wordStart < end ? wordStart + 1 : nextStart;
+  }
+
+  return chunks;
+}
+
+function findBreakpoint(text: string, start: number, end: number): number {
+  // do not cut in the first half of the chunk
+  const minEnd = start + Math.floor((end - start) / 2);
+  const window = text.slice(minEnd, end);
+
+  for (const separator of ['\n\n', '\n', '. ', ' ']) {
+    const position = window.lastIndexOf(separator);
+    if (position !== -1) {
+      return minEnd + position + separator.length;
+    }
+  }
+
+  return end;
+}
+
+export function isAiSearchEnabled(settings: unknown): boolean {
+  return (settings as any)?.ai?.search === true;
+}
@@ -0,0 +1,99 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { EnvironmentService } from '../environment/environment.service';
+import { EmbeddingProvider } from './providers/embedding-provider.interface';
+import { OpenAiEmbeddingProvider } from './providers/openai-embedding.provider';
+import { OllamaEmbeddingProvider } from './providers/ollama-embedding.provider';
+import { GeminiEmbeddingProvider } from './providers/gemini-embedding.provider';
+import { AiDriver, EMBEDDING_BATCH_SIZE } from './ai.constants';
+
+@Injectable()
+export class EmbeddingService {
+  private readonly logger = new Logger(EmbeddingService.name);
+  private provider: EmbeddingProvider;
+
+  constructor(private readonly environmentService: EnvironmentService) {}
+
+  isConfigured(): boolean {
+    return Boolean(
+      this.environmentService.getAiDriver() &&
+        this.environmentService.getAiEmbeddingModel(),
+    );
+  }
+
+  getModelName(): string {
+    return this.getProvider().modelName;
+  }
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const provider = this.getProvider();
+    const expectedDimensions = this.getDimensions();
+    const embeddings: number[][] = [];
+
+    for (let i = 0; i < inputs.length; i += EMBEDDING_BATCH_SIZE) {
+      const batch = inputs.slice(i, i + EMBEDDING_BATCH_SIZE);
+      const result = await provider.embed(batch);
+
+      if (result?.length !== batch.length) {
+        throw new Error(
+          `Embedding provider returned ${result?.length ?? 0} embeddings for ${batch.length} inputs`,
+        );
+      }
+
+      for (const embedding of result) {
+        if (expectedDimensions && embedding.length !== expectedDimensions) {
+          throw new Error(
+            `Expected ${expectedDimensions} embedding dimensions but got ${embedding.length}`,
+          );
+        }
+      }
+
+      embeddings.push(...result);
+    }
+
+    return embeddings;
+  }
+
+  private getDimensions(): number | undefined {
+    const dimensions = this.environmentService.getAiEmbeddingDimension();
+    return Number.isNaN(dimensions) ? undefined : dimensions;
+  }
+
+  private getProvider(): EmbeddingProvider {
+    if (this.provider) return this.provider;
+
+    if (!this.isConfigured()) {
+      throw new Error('AI embedding provider is not configured');
+    }
+
+    const driver = this.environmentService.getAiDriver();
+    const model = this.environmentService.getAiEmbeddingModel();
+    const dimensions = this.getDimensions();
+
+    switch (driver) {
+      case AiDriver.OPENAI:
+        this.provider = new OpenAiEmbeddingProvider(model, {
+          apiUrl: this.environmentService.getOpenAiApiUrl(),
+          apiKey: this.environmentService.getOpenAiApiKey(),
+          dimensions,
+        });
+        break;
+      case AiDriver.OLLAMA:
+        this.provider = new OllamaEmbeddingProvider(model, {
+          apiUrl: this.environmentService.getOllamaApiUrl(),
+          dimensions,
+        });
+        break;
+      case AiDriver.GEMINI:
+        this.provider = new GeminiEmbeddingProvider(model, {
+          apiKey: this.environmentService.getGeminiApiKey(),
+          dimensions,
+        });
+        break;
+      default:
+        throw new Error(`Unsupported AI driver: ${driver}`);
+    }
+
+    this.logger.log(`Using ${driver} embedding provider with model ${model}`);
+    return this.provider;
+  }
+}
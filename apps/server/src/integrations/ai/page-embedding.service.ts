@@ -0,0 +1,184 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { InjectKysely } from 'nestjs-kysely';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { WorkspaceRepo } from '@docmost/db/repos/workspace/workspace.repo';
+import {
+  PageEmbeddingRepo,
+  SimilarPage,
+} from '@docmost/db/repos/page/page-embedding.repo';
+import { isPageEmbeddingsTableExists } from '@docmost/db/helpers/helpers';
+import { QueueJob, QueueName } from '../queue/constants';
+import { IPageEmbeddingJob } from '../queue/constants/queue.interface';
+import { EmbeddingService } from './embedding.service';
+import { chunkText, isAiSearchEnabled } from './ai.utils';
+import {
+  EMBEDDING_CHUNK_OVERLAP,
+  EMBEDDING_CHUNK_SIZE,
+  EMBEDDING_MAX_CHUNKS_PER_PAGE,
+  EMBEDDING_WORKSPACE_BATCH_SIZE,
+} from './ai.constants';
+
+@Injectable()
+export class PageEmbeddingService {
+  private readonly logger = new Logger(PageEmbeddingService.name);
+  private tableExists = false;
+
+  constructor(
+    @InjectKysely() private readonly db: KyselyDB,
+    private readonly pageRepo: PageRepo,
+    private readonly workspaceRepo: WorkspaceRepo,
+    private readonly pageEmbeddingRepo: PageEmbeddingRepo,
+    private readonly embeddingService: EmbeddingService,
+    @InjectQueue(QueueName.AI_QUEUE) private aiQueue: Queue,
+  ) {}
+
+  /*
+   * Embeddings are only generated and queried when a provider is configured,
+   * pgvector is installed and the workspace turned on AI search.
+   */
+  async isEnabled(workspaceId: string): Promise<boolean> {
+    if (!this.embeddingService.isConfigured()) return false;
+    if (!(await this.hasEmbeddingsTable())) return false;
+
+    const workspace = await this.workspaceRepo.findById(workspaceId);
+    return isAiSearchEnabled(workspace?.settings);
+  }
+
+  async hasEmbeddingsTable(): Promise<boolean> {
+    // the table is never dropped once created, so a positive result is final
+    if (!this.tableExists) {
+      this.tableExists = await isPageEmbeddingsTableExists(this.db);
+    }
+    return this.tableExists;
+  }
+
+  async embedPages(pageIds: string[], workspaceId: string): Promise<void> {
+    if (!(await this.isEnabled(workspaceId))) return;
+
+    for (const pageId of pageIds) {
+      await this.embedPage(pageId);
+    }
+  }
+
+  async embedPage(pageId: string): Promise<void> {
+    const page = await this.pageRepo.findById(pageId, {
+      includeTextContent: true,
+    });
+    if (!page || page.deletedAt) return;
+
+    const chunks = chunkText(page.textContent ?? '', {
+      size: EMBEDDING_CHUNK_SIZE,
+      overlap: EMBEDDING_CHUNK_OVERLAP,
+      maxChunks: EMBEDDING_MAX_CHUNKS_PER_PAGE,
+    });
+
+    // the title gives each chunk context about where it comes from
+    const title = page.title?.trim();
+    const inputs = chunks.map((chunk) =>
+      title ? `${title}\n\n${chunk.text}` : chunk.text,
+    );
+    if (inputs.length === 0 && title) {
+      inputs.push(title);
+      chunks.push({ index: 0, start: 0, length: 0, text: title });
+    }
+
+    const embeddings =
+      inputs.length > 0 ? await this.embeddingService.embed(inputs) : [];
+    const modelName = this.embeddingService.getModelName();
+
+    await this.pageEmbeddingRepo.replacePageEmbeddings(
+      page.id,
+      chunks.map((chunk, i) => ({
+        pageId: page.id,
+        spaceId: page.spaceId,
+        workspaceId: page.workspaceId,
+        modelName,
+        modelDimensions: embeddings[i].length,
+        embedding: embeddings[i],
+        chunkIndex: chunk.index,
+        chunkStart: chunk.start,
+        chunkLength: chunk.length,
+      })),
+    );
+
+    this.logger.debug(`Generated ${chunks.length} embeddings for ${page.id}`);
+  }
+
+  async softDeletePages(pageIds: string[]): Promise<void> {
+    if (!(await this.hasEmbeddingsTable())) return;
+    await this.pageEmbeddingRepo.softDeleteByPageIds(pageIds);
+  }
+
+  async restorePages(pageIds: string[]): Promise<void> {
+    if (!(await this.hasEmbeddingsTable())) return;
+    await this.pageEmbeddingRepo.restoreByPageIds(pageIds);
+  }
+
+  async deletePages(pageIds: string[]): Promise<void> {
+    if (!(await this.hasEmbeddingsTable())) return;
+    await this.pageEmbeddingRepo.deleteByPageIds(pageIds);
+  }
+
+  async syncPageSpaces(pageIds: string[]): Promise<void> {
+    if (!(await this.hasEmbeddingsTable())) return;
+    await this.pageEmbeddingRepo.syncSpaceIds(pageIds);
+  }
+
+  /*
+   * Queues embedding generation for every page in the workspace.
+   */
+  async embedWorkspace(workspaceId: string): Promise<void> {
+    if (!(await this.isEnabled(workspaceId))) return;
+
+    const pageIds =
+      await this.pageEmbeddingRepo.getWorkspacePageIds(workspaceId);
+
+    for (let i = 0; i < pageIds.length; i += EMBEDDING_WORKSPACE_BATCH_SIZE) {
+      await this.aiQueue.add(QueueJob.GENERATE_PAGE_EMBEDDINGS, {
+        pageIds: pageIds.slice(i, i + EMBEDDING_WORKSPACE_BATCH_SIZE),
+        workspaceId,
+      } as IPageEmbeddingJob);
+    }
+  }
+
+  async deleteWorkspaceEmbeddings(workspaceId: string): Promise<void> {
+    if (!(await this.hasEmbeddingsTable())) return;
+
+    // AI search may have been turned back on since the deletion was scheduled
+    const workspace = await this.workspaceRepo.findById(workspaceId);
+    if (workspace && isAiSearchEnabled(workspace.settings)) return;
+
+    await this.pageEmbeddingRepo.deleteByWorkspaceId(workspaceId);
+  }
+
+  /*
+   * Embeds a search query, returns null if semantic search is unavailable
+   * so callers can fall back to full-text search.
+   */
+  async embedQuery(query: string, workspaceId: string): Promise<number[]> {
+    if (!(await this.isEnabled(workspaceId))) return null;
+
+    try {
+      const [embedding] = await this.embeddingService.embed([query]);
+      return embedding;
+    } catch (err) {
+      this.logger.warn(
+        `Failed to embed search query: ${err instanceof Error ? err.message : err}`,
+      );
+      return null;
+    }
+  }
+
+  async findSimilarPages(
+    embedding: number[],
+    opts: { workspaceId: string; spaceId?: string; limit: number },
+  ): Promise<SimilarPage[]> {
+    return this.pageEmbeddingRepo.findSimilarPages(embedding, {
+      ...opts,
+      modelName: this.embeddingService.getModelName(),
+    });
+  }
+}
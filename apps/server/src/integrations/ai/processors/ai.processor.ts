@@ -0,0 +1,77 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { QueueJob, QueueName } from '../../queue/constants';
+import { IPageEmbeddingJob } from '../../queue/constants/queue.interface';
+import { PageEmbeddingService } from '../page-embedding.service';
+
+@Processor(QueueName.AI_QUEUE)
+export class AiProcessor extends WorkerHost implements OnModuleDestroy {
+  private readonly logger = new Logger(AiProcessor.name);
+  constructor(private readonly pageEmbeddingService: PageEmbeddingService) {
+    super();
+  }
+
+  async process(job: Job): Promise<void> {
+    switch (job.name) {
+      case QueueJob.PAGE_CREATED:
+      case QueueJob.PAGE_CONTENT_UPDATED:
+      case QueueJob.GENERATE_PAGE_EMBEDDINGS: {
+        const { pageIds, workspaceId } = job.data as IPageEmbeddingJob;
+        await this.pageEmbeddingService.embedPages(pageIds, workspaceId);
+        break;
+      }
+
+      case QueueJob.PAGE_SOFT_DELETED:
+        await this.pageEmbeddingService.softDeletePages(job.data.pageIds);
+        break;
+
+      case QueueJob.PAGE_RESTORED:
+        await this.pageEmbeddingService.restorePages(job.data.pageIds);
+        break;
+
+      case QueueJob.PAGE_DELETED:
+      case QueueJob.DELETE_PAGE_EMBEDDINGS:
+        await this.pageEmbeddingService.deletePages(job.data.pageIds);
+        break;
+
+      case QueueJob.PAGE_MOVED_TO_SPACE:
+        // this job carries the moved page ids in `pageId`
+        await this.pageEmbeddingService.syncPageSpaces(job.data.pageId);
+        break;
+
+      case QueueJob.WORKSPACE_CREATE_EMBEDDINGS:
+        await this.pageEmbeddingService.embedWorkspace(job.data.workspaceId);
+        break;
+
+      case QueueJob.WORKSPACE_DELETE_EMBEDDINGS:
+        await this.pageEmbeddingService.deleteWorkspaceEmbeddings(
+          job.data.workspaceId,
+        );
+        break;
+    }
+  }
+
+  @OnWorkerEvent('active')
+  onActive(job: Job) {
+    this.logger.debug(`Processing ${job.name} job`);
+  }
+
+  @OnWorkerEvent('failed')
+  onError(job: Job) {
+    this.logger.error(
+      `Error processing ${job.name} job. Reason: ${job.failedReason}`,
+    );
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.debug(`Completed ${job.name} job`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+    }
+  }
+}
@@ -0,0 +1,8 @@
+export interface EmbeddingProvider {
+  readonly modelName: string;
+
+  /*
+   * Returns one embedding per input, in the same order.
+   */
+  embed(inputs: string[]): Promise<number[][]>;
+}
@@ -0,0 +1,37 @@
+import { EmbeddingProvider } from './embedding-provider.interface';
+import { EMBEDDING_REQUEST_TIMEOUT_MS } from '../ai.constants';
+import { postJson } from './provider.utils';
+
+const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+export class GeminiEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly modelName: string,
+    private readonly opts: { apiKey: string; dimensions?: number },
+  ) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const model = this.modelName.startsWith('models/')
+      ? this.modelName
+      : `models/${this.modelName}`;
+
+    const response = await postJson<{ embeddings: { values: number[] }[] }>(
+      `${GEMINI_API_URL}/${model}:batchEmbedContents`,
+      {
+        requests: inputs.map((input) => ({
+          model,
+          content: { parts: [{ text: input }] },
+          ...(this.opts.dimensions && {
+            outputDimensionality: this.opts.dimensions,
+          }),
+        })),
+      },
+      {
+        headers: { 'x-goog-api-key': this.opts.apiKey },
+        timeout: EMBEDDING_REQUEST_TIMEOUT_MS,
+      },
+    );
+
+    return response.embeddings.map((embedding) => embedding.values);
+  }
+}
@@ -0,0 +1,26 @@
+import { EmbeddingProvider } from './embedding-provider.interface';
+import { EMBEDDING_REQUEST_TIMEOUT_MS } from '../ai.constants';
+import { postJson } from './provider.utils';
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly modelName: string,
+    private readonly opts: { apiUrl: string; dimensions?: number },
+  ) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const apiUrl = this.opts.apiUrl.replace(/\/+$/, '');
+
+    const response = await postJson<{ embeddings: number[][] }>(
+      `${apiUrl}/api/embed`,
+      {
+        model: this.modelName,
+        input: inputs,
+        ...(this.opts.dimensions && { dimensions: this.opts.dimensions }),
+      },
+      { timeout: EMBEDDING_REQUEST_TIMEOUT_MS },
+    );
+
+    return response.embeddings;
+  }
+}
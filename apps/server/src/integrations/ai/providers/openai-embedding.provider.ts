@@ -0,0 +1,48 @@
+import { EmbeddingProvider } from './embedding-provider.interface';
+import { EMBEDDING_REQUEST_TIMEOUT_MS } from '../ai.constants';
+import { postJson } from './provider.utils';
+
+export const OPENAI_DEFAULT_API_URL = 'https://api.openai.com/v1';
+
+/*
+ * Works with OpenAI and any server exposing an OpenAI-compatible
+ * /embeddings endpoint, such as a local model server.
+ */
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly modelName: string,
+    private readonly opts: {
+      apiUrl?: string;
+      apiKey?: string;
+      dimensions?: number;
+    },
+  ) {}
+
+  async embed(inputs: string[]): Promise<number[][]> {
+    const apiUrl = (this.opts.apiUrl || OPENAI_DEFAULT_API_URL).replace(
+      /\/+$/,
+      '',
+    );
+
+    const response = await postJson<{
+      data: { index: number; embedding: number[] }[];
+    }>(
+      `${apiUrl}/embeddings`,
+      {
+        model: this.modelName,
+        input: inputs,
+        ...(this.opts.dimensions && { dimensions: this.opts.dimensions }),
+      },
+      {
+        headers: this.opts.apiKey
+          ? { Authorization: `Bearer ${this.opts.apiKey}` }
+          : {},
+        timeout: EMBEDDING_REQUEST_TIMEOUT_MS,
+      },
+    );
+
+    return [...response.data]
+      .sort((a, b) => a.index - b.index)
+      .map((item) => item.embedding);
+  }
+}
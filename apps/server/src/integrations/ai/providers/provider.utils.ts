@@ -0,0 +1,24 @@
+export async function postJson<T>(
+  url: string,
+  body: unknown,
+  opts: { headers?: Record<string, string>; timeout: number },
+): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...opts.headers,
+    },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(opts.timeout),
+  });
+
+  if (!response.ok) {
+    const message = (await response.text()).slice(0, 500);
+    throw new Error(
+      `Embedding request failed with status ${response.status}: ${message}`,
+    );
+  }
+
+  return (await response.json()) as T;
+}
@@ -298,4 +298,18 @@ export class EnvironmentService {
       'http://localhost:11434',
     );
   }
+
+  getAuditSyslogHost(): string {
+    return this.configService.get<string>('AUDIT_SYSLOG_HOST');
+  }
+
+  getAuditSyslogPort(): number {
+    return parseInt(this.configService.get<string>('AUDIT_SYSLOG_PORT', '514'));
+  }
+
+  getAuditSyslogProtocol(): string {
+    return this.configService
+      .get<string>('AUDIT_SYSLOG_PROTOCOL', 'udp')
+      .toLowerCase();
+  }
 }
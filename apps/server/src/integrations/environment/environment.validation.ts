@@ -160,8 +160,12 @@ export class EnvironmentVariables {
   @IsNotEmpty()
   AI_COMPLETION_MODEL: string;
 
+  // OpenAI-compatible servers set via OPENAI_API_URL may not need a key
   @IsOptional()
-  @ValidateIf((obj) => obj.AI_DRIVER && obj.AI_DRIVER === 'openai')
+  @ValidateIf(
+    (obj) =>
+      obj.AI_DRIVER && obj.AI_DRIVER === 'openai' && !obj.OPENAI_API_URL,
+  )
   @IsString()
   @IsNotEmpty()
   OPENAI_API_KEY: string;
@@ -181,6 +185,12 @@ export class EnvironmentVariables {
   @ValidateIf((obj) => obj.AI_DRIVER && obj.AI_DRIVER === 'ollama')
   @IsUrl({ protocols: ['http', 'https'], require_tld: false })
   OLLAMA_API_URL: string;
+
+  @IsOptional()
+  @ValidateIf((obj) => obj.AUDIT_SYSLOG_HOST)
+  @IsIn(['udp', 'tcp'])
+  @IsString()
+  AUDIT_SYSLOG_PROTOCOL: string;
 }
 
 export function validate(config: Record<string, any>) {
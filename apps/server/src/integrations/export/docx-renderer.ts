@@ -0,0 +1,586 @@
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  HeadingLevel,
+  ImageRun,
+  IParagraphOptions,
+  IParagraphStyleOptions,
+  LevelFormat,
+  Packer,
+  Paragraph,
+  ParagraphChild,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import { JSONContent } from '@tiptap/core';
+import * as sharp from 'sharp';
+import { getPlainText } from './utils';
+
+export interface DocxRenderOptions {
+  title: string;
+  // image buffers keyed by attachmentId
+  images?: Map<string, Buffer>;
+}
+
+interface DocxImage {
+  data: Buffer;
+  type: 'png' | 'jpg' | 'gif' | 'bmp';
+  width: number;
+  height: number;
+}
+
+type DocxBlock = Paragraph | Table;
+
+// style ids are also matched by name when importing .docx files
+export const DOCX_CODE_BLOCK_STYLE = 'Code Block';
+export const DOCX_CALLOUT_STYLE_PREFIX = 'Callout';
+export const DOCX_CALLOUT_TYPES = ['info', 'success', 'warning', 'danger'];
+
+const HEADING_LEVELS = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const CALLOUT_COLORS: Record<string, { border: string; fill: string }> = {
+  info: { border: '1C7ED6', fill: 'E7F5FF' },
+  success: { border: '2F9E44', fill: 'EBFBEE' },
+  warning: { border: 'F08C00', fill: 'FFF9DB' },
+  danger: { border: 'E03131', fill: 'FFF5F5' },
+};
+
+const MONO_FONT = 'Courier New';
+const BULLET_LIST_REFERENCE = 'bullet-list';
+const ORDERED_LIST_REFERENCE = 'ordered-list';
+// usable width of a Letter/A4 page with default margins at 96 dpi
+const MAX_IMAGE_WIDTH = 600;
+const TABLE_WIDTH_TWIPS = 9000;
+
+export function getDocxCalloutStyleName(type: string) {
+  const calloutType = DOCX_CALLOUT_TYPES.includes(type) ? type : 'info';
+  return `${DOCX_CALLOUT_STYLE_PREFIX} ${calloutType[0].toUpperCase()}${calloutType.slice(1)}`;
+}
+
+function styleId(name: string) {
+  return name.replace(/\s+/g, '');
+}
+
+function buildParagraphStyles(): IParagraphStyleOptions[] {
+  const calloutStyles = DOCX_CALLOUT_TYPES.map(
+    (type): IParagraphStyleOptions => {
+      const name = getDocxCalloutStyleName(type);
+      return {
+        id: styleId(name),
+        name,
+        basedOn: 'Normal',
+        quickFormat: true,
+        paragraph: {
+          shading: {
+            type: ShadingType.CLEAR,
+            color: 'auto',
+            fill: CALLOUT_COLORS[type].fill,
+          },
+          border: {
+            left: {
+              style: BorderStyle.SINGLE,
+              size: 24,
+              space: 8,
+              color: CALLOUT_COLORS[type].border,
+            },
+          },
+          indent: { left: 240 },
+          spacing: { before: 60, after: 60 },
+        },
+      };
+    },
+  );
+
+  return [
+    {
+      id: styleId(DOCX_CODE_BLOCK_STYLE),
+      name: DOCX_CODE_BLOCK_STYLE,
+      basedOn: 'Normal',
+      quickFormat: true,
+      run: { font: MONO_FONT, size: 18 },
+      paragraph: {
+        shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' },
+        spacing: { before: 120, after: 120 },
+      },
+    },
+    {
+      id: 'BlockQuote',
+      name: 'Block Quote',
+      basedOn: 'Normal',
+      quickFormat: true,
+      run: { italics: true, color: '656D76' },
+      paragraph: {
+        border: {
+          left: {
+            style: BorderStyle.SINGLE,
+            size: 18,
+            space: 8,
+            color: 'D0D7DE',
+          },
+        },
+        indent: { left: 360 },
+      },
+    },
+    ...calloutStyles,
+  ];
+}
+
+async function loadImages(
+  buffers: Map<string, Buffer>,
+): Promise<Map<string, DocxImage>> {
+  const images = new Map<string, DocxImage>();
+
+  for (const [attachmentId, data] of buffers) {
+    try {
+      const metadata = await sharp(data).metadata();
+      const type = metadata.format === 'jpeg' ? 'jpg' : metadata.format;
+      if (!['png', 'jpg', 'gif', 'bmp'].includes(type)) continue;
+
+      images.set(attachmentId, {
+        data,
+        type: type as DocxImage['type'],
+        width: metadata.width,
+        height: metadata.height,
+      });
+    } catch {
+      // unreadable images are rendered as links instead
+    }
+  }
+
+  return images;
+}
+
+export async function renderDocx(
+  prosemirrorJson: JSONContent,
+  options: DocxRenderOptions,
+): Promise<Buffer> {
+  const images = await loadImages(options.images ?? new Map());
+  const children = new DocxRenderer(images).render(prosemirrorJson);
+
+  const document = new Document({
+    title: options.title,
+    creator: 'Docmost',
+    styles: { paragraphStyles: buildParagraphStyles() },
+    numbering: {
+      config: [
+        {
+          reference: BULLET_LIST_REFERENCE,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: LevelFormat.BULLET,
+            text: ['•', '◦', '▪'][level % 3],
+            alignment: AlignmentType.LEFT,
+            style: {
+              paragraph: {
+                indent: { left: 360 * (level + 1), hanging: 260 },
+              },
+            },
+          })),
+        },
+        {
+          reference: ORDERED_LIST_REFERENCE,
+          levels: Array.from({ length: 9 }, (_, level) => ({
+            level,
+            format: [
+              LevelFormat.DECIMAL,
+              LevelFormat.LOWER_LETTER,
+              LevelFormat.LOWER_ROMAN,
+            ][level % 3],
+            text: `%${level + 1}.`,
+            alignment: AlignmentType.LEFT,
+            style: {
+              paragraph: {
+                indent: { left: 360 * (level + 1), hanging: 260 },
+              },
+            },
+          })),
+        },
+      ],
+    },
+    sections: [{ children }],
+  });
+
+  return Packer.toBuffer(document);
+}
+
+class DocxRenderer {
+  private listInstance = 0;
+  private boldText = false;
+
+  constructor(private readonly images: Map<string, DocxImage>) {}
+
+  render(node: JSONContent): DocxBlock[] {
+    const blocks = this.renderBlocks(node?.content ?? [], {});
+    return blocks.length > 0 ? blocks : [new Paragraph({})];
+  }
+
+  private renderBlocks(
+    nodes: JSONContent[],
+    paragraphOptions: IParagraphOptions,
+    listLevel = -1,
+  ): DocxBlock[] {
+    return nodes.flatMap((node) =>
+      this.renderBlock(node, paragraphOptions, listLevel),
+    );
+  }
+
+  private renderBlock(
+    node: JSONContent,
+    paragraphOptions: IParagraphOptions,
+    listLevel: number,
+  ): DocxBlock[] {
+    switch (node.type) {
+      case 'paragraph':
+        return [
+          new Paragraph({
+            ...paragraphOptions,
+            alignment: getAlignment(node.attrs?.textAlign),
+            children: this.renderInline(node.content ?? []),
+          }),
+        ];
+      case 'heading':
+        return [
+          new Paragraph({
+            heading:
+              HEADING_LEVELS[
+                Math.min(Math.max(node.attrs?.level ?? 1, 1), 6) - 1
+              ],
+            alignment: getAlignment(node.attrs?.textAlign),
+            children: this.renderInline(node.content ?? []),
+          }),
+        ];
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+        return this.renderList(node, listLevel + 1);
+      case 'blockquote':
+        return this.renderBlocks(
+          node.content ?? [],
+          { ...paragraphOptions, style: 'BlockQuote' },
+          listLevel,
+        );
+      case 'callout':
+        return this.renderBlocks(
+          node.content ?? [],
+          {
+            ...paragraphOptions,
+            style: styleId(getDocxCalloutStyleName(node.attrs?.type)),
+          },
+          listLevel,
+        );
+      case 'codeBlock':
+        return [this.renderPreformatted(getPlainText(node))];
+      case 'mathBlock':
+        return [
+          this.renderPreformatted(node.attrs?.text ?? '', AlignmentType.CENTER),
+        ];
+      case 'horizontalRule':
+        return [
+          new Paragraph({
+            border: {
+              bottom: {
+                style: BorderStyle.SINGLE,
+                size: 6,
+                space: 1,
+                color: 'D0D7DE',
+              },
+            },
+          }),
+        ];
+      case 'image':
+        return [this.renderImage(node)];
+      case 'table':
+        return [this.renderTable(node)];
+      case 'details':
+      case 'detailsContent':
+        return this.renderBlocks(
+          node.content ?? [],
+          paragraphOptions,
+          listLevel,
+        );
+      case 'detailsSummary':
+        return [
+          new Paragraph({
+            ...paragraphOptions,
+            children: this.renderInline(node.content ?? [], { bold: true }),
+          }),
+        ];
+      case 'attachment':
+        return [
+          this.renderLinkParagraph(
+            node.attrs?.name ?? 'Attachment',
+            node.attrs?.url,
+          ),
+        ];
+      case 'video':
+      case 'youtube':
+      case 'embed':
+      case 'drawio':
+      case 'excalidraw':
+        return [
+          this.renderLinkParagraph(
+            node.attrs?.title ||
+              node.attrs?.alt ||
+              node.attrs?.src ||
+              node.type,
+            node.attrs?.src,
+          ),
+        ];
+      case 'subpages':
+      case 'collectionView':
+        return [];
+      default:
+        return node.content
+          ? this.renderBlocks(node.content, paragraphOptions, listLevel)
+          : [];
+    }
+  }
+
+  private renderList(node: JSONContent, level: number): DocxBlock[] {
+    const blocks: DocxBlock[] = [];
+    const instance = ++this.listInstance;
+    const listLevel = Math.min(level, 8);
+
+    for (const item of node.content ?? []) {
+      const [first, ...rest] = item.content ?? [];
+      if (!first) continue;
+
+      if (first.type === 'paragraph') {
+        const prefix: ParagraphChild[] =
+          node.type === 'taskList'
+            ? [new TextRun({ text: item.attrs?.checked ? '☑ ' : '☐ ' })]
+            : [];
+
+        blocks.push(
+          new Paragraph({
+            ...(node.type === 'orderedList'
+              ? {
+                  numbering: {
+                    reference: ORDERED_LIST_REFERENCE,
+                    level: listLevel,
+                    instance,
+                  },
+                }
+              : node.type === 'bulletList'
+                ? {
+                    numbering: {
+                      reference: BULLET_LIST_REFERENCE,
+                      level: listLevel,
+                    },
+                  }
+                : { indent: { left: 360 * (listLevel + 1) } }),
+            children: [...prefix, ...this.renderInline(first.content ?? [])],
+          }),
+        );
+      } else {
+        rest.unshift(first);
+      }
+
+      blocks.push(
+        ...this.renderBlocks(
+          rest,
+          { indent: { left: 360 * (listLevel + 1) } },
+          level,
+        ),
+      );
+    }
+
+    return blocks;
+  }
+
+  private renderInline(
+    nodes: JSONContent[],
+    baseRun: { bold?: boolean } = {},
+  ): ParagraphChild[] {
+    const children: ParagraphChild[] = [];
+
+    for (const node of nodes) {
+      const marks = node.marks ?? [];
+      const hasMark = (type: string) =>
+        marks.some((mark) => mark.type === type);
+      const link = marks.find((mark) => mark.type === 'link')?.attrs?.href;
+
+      let text: string;
+      let font: string;
+
+      switch (node.type) {
+        case 'text':
+          text = node.text ?? '';
+          break;
+        case 'hardBreak':
+          children.push(new TextRun({ break: 1 }));
+          continue;
+        case 'mention':
+          text = `@${node.attrs?.label ?? ''}`;
+          break;
+        case 'mathInline':
+          text = node.attrs?.text ?? '';
+          font = MONO_FONT;
+          break;
+        default:
+          text = getPlainText(node);
+      }
+
+      if (!text) continue;
+
+      const run = new TextRun({
+        text,
+        bold: this.boldText || baseRun.bold || hasMark('bold'),
+        italics: hasMark('italic'),
+        strike: hasMark('strike'),
+        underline: hasMark('underline') ? {} : undefined,
+        superScript: hasMark('superscript'),
+        subScript: hasMark('subscript'),
+        highlight: hasMark('highlight') ? 'yellow' : undefined,
+        font: hasMark('code') ? MONO_FONT : font,
+        style: link ? 'Hyperlink' : undefined,
+      });
+
+      children.push(
+        link ? new ExternalHyperlink({ link, children: [run] }) : run,
+      );
+    }
+
+    return children;
+  }
+
+  private renderPreformatted(
+    text: string,
+    alignment: (typeof AlignmentType)[keyof typeof AlignmentType] = AlignmentType.LEFT,
+  ) {
+    return new Paragraph({
+      style: styleId(DOCX_CODE_BLOCK_STYLE),
+      alignment,
+      children: text
+        .split('\n')
+        .map(
+          (line, index) =>
+            new TextRun({ text: line, break: index > 0 ? 1 : 0 }),
+        ),
+    });
+  }
+
+  private renderImage(node: JSONContent): Paragraph {
+    const image = this.images.get(node.attrs?.attachmentId);
+
+    if (!image || !image.width || !image.height) {
+      return this.renderLinkParagraph(
+        node.attrs?.alt || 'Image',
+        node.attrs?.src,
+      );
+    }
+
+    const widthRatio = parseInt(node.attrs?.width, 10);
+    const maxWidth =
+      widthRatio > 0 && widthRatio < 100
+        ? (MAX_IMAGE_WIDTH * widthRatio) / 100
+        : MAX_IMAGE_WIDTH;
+    const scale = Math.min(1, maxWidth / image.width);
+
+    return new Paragraph({
+      alignment: getAlignment(node.attrs?.align ?? 'center'),
+      children: [
+        new ImageRun({
+          type: image.type,
+          data: image.data,
+          transformation: {
+            width: Math.round(image.width * scale),
+            height: Math.round(image.height * scale),
+          },
+          altText: node.attrs?.alt
+            ? {
+                name: node.attrs.alt,
+                description: node.attrs.alt,
+                title: node.attrs.alt,
+              }
+            : undefined,
+        }),
+      ],
+    });
+  }
+
+  private renderTable(node: JSONContent): Table {
+    const rows = node.content ?? [];
+    const columnCount = Math.max(
+      1,
+      ...rows.map((row) =>
+        (row.content ?? []).reduce(
+          (count, cell) => count + (cell.attrs?.colspan ?? 1),
+          0,
+        ),
+      ),
+    );
+
+    return new Table({
+      width: { size: 100, type: WidthType.PERCENTAGE },
+      columnWidths: Array(columnCount).fill(
+        Math.floor(TABLE_WIDTH_TWIPS / columnCount),
+      ),
+      rows: rows.map(
+        (row, rowIndex) =>
+          new TableRow({
+            // an explicit false is still read as a header row by some readers
+            tableHeader:
+              (rowIndex === 0 &&
+                (row.content ?? []).every(
+                  (cell) => cell.type === 'tableHeader',
+                )) ||
+              undefined,
+            children: (row.content ?? []).map((cell) => {
+              const isHeader = cell.type === 'tableHeader';
+              this.boldText = isHeader;
+              const content = this.renderBlocks(cell.content ?? [], {});
+              this.boldText = false;
+
+              return new TableCell({
+                columnSpan: cell.attrs?.colspan ?? 1,
+                rowSpan: cell.attrs?.rowspan ?? 1,
+                shading: isHeader
+                  ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F3F4F6' }
+                  : undefined,
+                children: content.length > 0 ? content : [new Paragraph({})],
+              });
+            }),
+          }),
+      ),
+    });
+  }
+
+  private renderLinkParagraph(label: string, href: string | null) {
+    const run = new TextRun({
+      text: label,
+      style: href ? 'Hyperlink' : undefined,
+    });
+    return new Paragraph({
+      children: [
+        href ? new ExternalHyperlink({ link: href, children: [run] }) : run,
+      ],
+    });
+  }
+}
+
+function getAlignment(align: string) {
+  switch (align) {
+    case 'center':
+      return AlignmentType.CENTER;
+    case 'right':
+      return AlignmentType.RIGHT;
+    case 'justify':
+      return AlignmentType.JUSTIFIED;
+    default:
+      return undefined;
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  AbilityBuilder,
+  createMongoAbility,
+  MongoAbility,
+} from '@casl/ability';
+import { FastifyReply } from 'fastify';
+import { ExportController } from './export.controller';
+import { ExportService } from './export.service';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
+import { User } from '@docmost/db/types/entity.types';
+import SpaceAbilityFactory from '../../core/casl/abilities/space-ability.factory';
+import { AuditLogService } from '../../core/audit-log/audit-log.service';
+import {
+  ISpaceAbility,
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../../core/casl/interfaces/space-ability.type';
+import { ExportFormat } from './dto/export-dto';
+
+jest.mock('./export.service', () => ({ ExportService: jest.fn() }));
+jest.mock('../../common/helpers/prosemirror/html', () => ({}));
+
+function buildAbility(actions: SpaceCaslAction[]): MongoAbility<ISpaceAbility> {
+  const { can, build } = new AbilityBuilder<MongoAbility<ISpaceAbility>>(
+    createMongoAbility,
+  );
+  for (const action of actions) {
+    can(action, SpaceCaslSubject.Page);
+  }
+  return build();
+}
+
+describe('ExportController', () => {
+  const user = { id: 'user-1', workspaceId: 'workspace-1' } as User;
+  const page = {
+    id: 'page-1',
+    title: 'Page',
+    spaceId: 'space-1',
+    workspaceId: 'workspace-1',
+  };
+  const dto = {
+    pageId: page.id,
+    format: ExportFormat.Markdown,
+    includeChildren: true,
+  };
+
+  let exportService: { exportPages: jest.Mock };
+  let spaceAbility: { createForPage: jest.Mock };
+  let controller: ExportController;
+  let res: FastifyReply;
+
+  beforeEach(() => {
+    exportService = { exportPages: jest.fn().mockResolvedValue('zip') };
+    spaceAbility = { createForPage: jest.fn() };
+    res = {
+      headers: jest.fn(),
+      send: jest.fn(),
+    } as unknown as FastifyReply;
+
+    controller = new ExportController(
+      exportService as unknown as ExportService,
+      { findById: jest.fn().mockResolvedValue(page) } as unknown as PageRepo,
+      {
+        findById: jest.fn().mockResolvedValue({ reviewWorkflow: true }),
+      } as unknown as SpaceRepo,
+      spaceAbility as unknown as SpaceAbilityFactory,
+      { log: jest.fn() } as unknown as AuditLogService,
+    );
+  });
+
+  it('exports the approved versions for readers of review spaces', async () => {
+    spaceAbility.createForPage.mockResolvedValue(
+      buildAbility([SpaceCaslAction.Read]),
+    );
+
+    await controller.exportPage(dto, user, res);
+
+    expect(exportService.exportPages).toHaveBeenCalledWith(
+      page.id,
+      dto.format,
+      undefined,
+      true,
+      user.id,
+      { publishedOnly: true },
+    );
+    expect(res.send).toHaveBeenCalledWith('zip');
+  });
+
+  it('exports the drafts for editors', async () => {
+    spaceAbility.createForPage.mockResolvedValue(
+      buildAbility([SpaceCaslAction.Read, SpaceCaslAction.Edit]),
+    );
+
+    await controller.exportPage(dto, user, res);
+
+    expect(exportService.exportPages).toHaveBeenCalledWith(
+      page.id,
+      dto.format,
+      undefined,
+      true,
+      user.id,
+      { publishedOnly: false },
+    );
+  });
+});
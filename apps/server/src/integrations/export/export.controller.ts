@@ -16,10 +16,17 @@ import { User } from '@docmost/db/types/entity.types';
 import SpaceAbilityFactory from '../../core/casl/abilities/space-ability.factory';
 import { JwtAuthGuard } from '../../common/guards/jwt-auth.guard';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { SpaceRepo } from '@docmost/db/repos/space/space.repo';
 import {
   SpaceCaslAction,
   SpaceCaslSubject,
 } from '../../core/casl/interfaces/space-ability.type';
+import { canViewPageDraft } from '../../core/page-review/page-review.util';
+import { AuditLogService } from '../../core/audit-log/audit-log.service';
+import {
+  AuditAction,
+  AuditResource,
+} from '../../core/audit-log/audit-log.constants';
 import { FastifyReply } from 'fastify';
 import { sanitize } from 'sanitize-filename-ts';
 import { getExportExtension } from './utils';
@@ -31,7 +38,9 @@ export class ExportController {
   constructor(
     private readonly exportService: ExportService,
     private readonly pageRepo: PageRepo,
+    private readonly spaceRepo: SpaceRepo,
     private readonly spaceAbility: SpaceAbilityFactory,
+    private readonly auditLogService: AuditLogService,
   ) {}
 
   @UseGuards(JwtAuthGuard)
@@ -50,18 +59,38 @@ export class ExportController {
       throw new NotFoundException('Page not found');
     }
 
-    const ability = await this.spaceAbility.createForUser(user, page.spaceId);
+    const ability = await this.spaceAbility.createForPage(user, page);
     if (ability.cannot(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
       throw new ForbiddenException();
     }
 
+    // readers of review workflow spaces export the approved versions
+    const space = await this.spaceRepo.findById(page.spaceId, page.workspaceId);
+
     const zipFileBuffer = await this.exportService.exportPages(
       dto.pageId,
       dto.format,
       dto.includeAttachments,
       dto.includeChildren,
+      user.id,
+      { publishedOnly: !canViewPageDraft(space, ability) },
     );
 
+    await this.auditLogService.log({
+      workspaceId: page.workspaceId,
+      actorId: user.id,
+      action: AuditAction.PAGE_EXPORTED,
+      resourceType: AuditResource.PAGE,
+      resourceId: page.id,
+      spaceId: page.spaceId,
+      metadata: {
+        title: page.title,
+        format: dto.format,
+        includeChildren: dto.includeChildren ?? false,
+        includeAttachments: dto.includeAttachments ?? false,
+      },
+    });
+
     const fileName = sanitize(page.title || 'untitled') + '.zip';
 
     res.headers({
@@ -90,8 +119,22 @@ export class ExportController {
       dto.spaceId,
       dto.format,
       dto.includeAttachments,
+      user.id,
     );
 
+    await this.auditLogService.log({
+      workspaceId: user.workspaceId,
+      actorId: user.id,
+      action: AuditAction.SPACE_EXPORTED,
+      resourceType: AuditResource.SPACE,
+      resourceId: dto.spaceId,
+      spaceId: dto.spaceId,
+      metadata: {
+        format: dto.format,
+        includeAttachments: dto.includeAttachments ?? false,
+      },
+    });
+
     res.headers({
       'Content-Type': 'application/zip',
       'Content-Disposition':
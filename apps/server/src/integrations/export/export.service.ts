@@ -16,12 +16,16 @@ import {
   buildTree,
   computeLocalPath,
   getExportExtension,
+  getMarkdownFrontmatter,
   getPageTitle,
   PageExportTree,
+  PDF_TOC_FILE_NAME,
   replaceInternalLinks,
   updateAttachmentUrlsToLocalPaths,
 } from './utils';
 import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
 import { Node } from '@tiptap/pm/model';
 import { EditorState } from '@tiptap/pm/state';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -31,6 +35,12 @@ import {
   getAttachmentIds,
   getProsemirrorContent,
 } from '../../common/helpers/prosemirror/utils';
+import {
+  PdfTocEntry,
+  renderPdf,
+  renderPdfTableOfContents,
+} from './pdf-renderer';
+import { renderDocx } from './docx-renderer';
 
 @Injectable()
 export class ExportService {
@@ -38,6 +48,8 @@ export class ExportService {
 
   constructor(
     private readonly pageRepo: PageRepo,
+    private readonly pagePermissionRepo: PagePermissionRepo,
+    private readonly labelRepo: LabelRepo,
     @InjectKysely() private readonly db: KyselyDB,
     private readonly storageService: StorageService,
     private readonly environmentService: EnvironmentService,
@@ -66,6 +78,20 @@ export class ExportService {
       prosemirrorJson.content.unshift(titleNode);
     }
 
+    if (format === ExportFormat.PDF) {
+      return renderPdf(prosemirrorJson, {
+        title: getPageTitle(page.title),
+        images: await this.getPageImages(prosemirrorJson, page.spaceId),
+      });
+    }
+
+    if (format === ExportFormat.DOCX) {
+      return renderDocx(prosemirrorJson, {
+        title: getPageTitle(page.title),
+        images: await this.getPageImages(prosemirrorJson, page.spaceId),
+      });
+    }
+
     const pageHtml = jsonToHtml(prosemirrorJson);
 
     if (format === ExportFormat.HTML) {
@@ -83,7 +109,11 @@ export class ExportService {
         /<colgroup[^>]*>[\s\S]*?<\/colgroup>/gim,
         '',
       );
-      return turndown(newPageHtml);
+      const labels = await this.labelRepo.getPageLabels(page.id);
+      return (
+        getMarkdownFrontmatter(labels.map((label) => label.name)) +
+        turndown(newPageHtml)
+      );
     }
 
     return;
@@ -94,6 +124,8 @@ export class ExportService {
     format: string,
     includeAttachments: boolean,
     includeChildren: boolean,
+    userId?: string,
+    opts?: { publishedOnly?: boolean },
   ) {
     let pages: Page[];
 
@@ -101,11 +133,22 @@ export class ExportService {
       //@ts-ignore
       pages = await this.pageRepo.getPageAndDescendants(pageId, {
         includeContent: true,
+        includePublishedContent: opts?.publishedOnly,
       });
+
+      if (userId && pages.length > 0) {
+        // leave out restricted sub pages the user cannot access
+        const inaccessiblePageIds =
+          await this.pagePermissionRepo.findInaccessiblePageIds(userId, {
+            spaceId: pages[0].spaceId,
+          });
+        pages = pages.filter((page) => !inaccessiblePageIds.includes(page.id));
+      }
     } else {
       // Only fetch the single page when includeChildren is false
       const page = await this.pageRepo.findById(pageId, {
         includeContent: true,
+        includePublishedContent: opts?.publishedOnly,
       });
       if (page){
         pages = [page];
@@ -116,6 +159,12 @@ export class ExportService {
       throw new BadRequestException('No pages to export');
     }
 
+    if (opts?.publishedOnly) {
+      for (const page of pages) {
+        page.content = page.publishedContent;
+      }
+    }
+
     const parentPageIndex = pages.findIndex((obj) => obj.id === pageId);
     // set to null to make export of pages with parentId work
     pages[parentPageIndex].parentPageId = null;
@@ -125,6 +174,14 @@ export class ExportService {
     const zip = new JSZip();
     await this.zipPages(tree, format, zip, includeAttachments);
 
+    if (format === ExportFormat.PDF && pages.length > 1) {
+      await this.zipTableOfContents(
+        tree,
+        getPageTitle(pages[parentPageIndex].title),
+        zip,
+      );
+    }
+
     const zipFile = zip.generateNodeStream({
       type: 'nodebuffer',
       streamFiles: true,
@@ -138,6 +195,7 @@ export class ExportService {
     spaceId: string,
     format: string,
     includeAttachments: boolean,
+    userId?: string,
   ) {
     const space = await this.db
       .selectFrom('spaces')
@@ -161,6 +219,13 @@ export class ExportService {
         'pages.workspaceId',
       ])
       .where('spaceId', '=', spaceId)
+      .$if(Boolean(userId), (qb) =>
+        qb.where(
+          'pages.id',
+          'not in',
+          this.pagePermissionRepo.getInaccessiblePageIds(userId, { spaceId }),
+        ),
+      )
       .execute();
 
     const tree = buildTree(pages as Page[]);
@@ -169,6 +234,10 @@ export class ExportService {
 
     await this.zipPages(tree, format, zip, includeAttachments);
 
+    if (format === ExportFormat.PDF) {
+      await this.zipTableOfContents(tree, space.name, zip);
+    }
+
     const zipFile = zip.generateNodeStream({
       type: 'nodebuffer',
       streamFiles: true,
@@ -240,6 +309,69 @@ export class ExportService {
     }
   }
 
+  async zipTableOfContents(tree: PageExportTree, title: string, zip: JSZip) {
+    const slugIdToPath: Record<string, string> = {};
+    computeLocalPath(tree, ExportFormat.PDF, null, '', slugIdToPath);
+
+    const entries: PdfTocEntry[] = [];
+    const addEntries = (parentPageId: string, depth: number) => {
+      for (const page of tree[parentPageId] || []) {
+        entries.push({
+          title: getPageTitle(page.title),
+          path: slugIdToPath[page.slugId],
+          depth,
+        });
+        addEntries(page.id, depth + 1);
+      }
+    };
+    addEntries(null, 0);
+
+    zip.file(
+      `${PDF_TOC_FILE_NAME}${getExportExtension(ExportFormat.PDF)}`,
+      await renderPdfTableOfContents(title, entries),
+    );
+  }
+
+  async getPageImages(
+    prosemirrorJson: any,
+    spaceId: string,
+  ): Promise<Map<string, Buffer>> {
+    const images = new Map<string, Buffer>();
+    const imageIds: string[] = [];
+
+    jsonToNode(prosemirrorJson).descendants((node: Node) => {
+      if (node.type.name === 'image' && node.attrs.attachmentId) {
+        imageIds.push(node.attrs.attachmentId);
+      }
+    });
+
+    if (imageIds.length === 0) {
+      return images;
+    }
+
+    const attachments = await this.db
+      .selectFrom('attachments')
+      .select(['id', 'filePath'])
+      .where('id', 'in', imageIds)
+      .where('spaceId', '=', spaceId)
+      .execute();
+
+    await Promise.all(
+      attachments.map(async (attachment) => {
+        try {
+          const fileBuffer = await this.storageService.read(
+            attachment.filePath,
+          );
+          images.set(attachment.id, fileBuffer);
+        } catch (err) {
+          this.logger.debug(`Image export error ${attachment.id}`, err);
+        }
+      }),
+    );
+
+    return images;
+  }
+
   async zipAttachments(prosemirrorJson: any, spaceId: string, zip: JSZip) {
     const attachmentIds = getAttachmentIds(prosemirrorJson);
 
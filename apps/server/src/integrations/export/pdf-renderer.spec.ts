@@ -0,0 +1,47 @@
+import { formatMath, renderPdf } from './pdf-renderer';
+
+jest.mock('../../common/helpers/prosemirror/html', () => ({}));
+
+describe('formatMath', () => {
+  it('writes fractions inline', () => {
+    expect(formatMath('\\frac{a+b}{2}')).toBe('(a+b)/2');
+  });
+
+  it('replaces symbols and small powers', () => {
+    expect(formatMath('\\alpha^2 + \\beta^{3}')).toBe('α² + β³');
+  });
+
+  it('renders roots and text', () => {
+    expect(formatMath('\\sqrt{x} \\text{if} x \\leq 1')).toBe('√x if x ≤ 1');
+  });
+
+  it('keeps function names and unknown commands', () => {
+    expect(formatMath('\\sin x \\unknown')).toBe('sin x \\unknown');
+  });
+});
+
+describe('renderPdf', () => {
+  it('embeds a unicode font for non-latin text and math', async () => {
+    const pdf = await renderPdf(
+      {
+        type: 'doc',
+        content: [
+          {
+            type: 'paragraph',
+            content: [{ type: 'text', text: 'Привет, κόσμε' }],
+          },
+          { type: 'mathBlock', attrs: { text: '\\frac{\\pi}{2}' } },
+          {
+            type: 'codeBlock',
+            content: [{ type: 'text', text: 'const x = "ü";' }],
+          },
+        ],
+      },
+      { title: 'Unicode' },
+    );
+
+    const raw = pdf.toString('latin1');
+    expect(raw.startsWith('%PDF')).toBe(true);
+    expect(raw).toContain('LiberationSans');
+  });
+});
@@ -0,0 +1,766 @@
+import * as PDFDocument from 'pdfkit';
+import { dirname, join } from 'node:path';
+import { JSONContent } from '@tiptap/core';
+import { getPlainText } from './utils';
+
+export interface PdfRenderOptions {
+  title: string;
+  // image buffers keyed by attachmentId
+  images?: Map<string, Buffer>;
+}
+
+export interface PdfTocEntry {
+  title: string;
+  path: string;
+  depth: number;
+}
+
+interface TextRun {
+  text: string;
+  font: string;
+  color?: string;
+  link?: string;
+  underline?: boolean;
+  strike?: boolean;
+}
+
+const FONTS = {
+  regular: 'Body',
+  bold: 'Body-Bold',
+  italic: 'Body-Italic',
+  boldItalic: 'Body-BoldItalic',
+  mono: 'Courier',
+};
+
+/*
+ * The built-in PDF fonts only cover Latin-1, so the body text uses the
+ * Liberation Sans files that ship with pdfjs-dist, which also cover Greek
+ * and Cyrillic.
+ */
+const FONT_DIR = join(
+  dirname(require.resolve('pdfjs-dist/package.json')),
+  'standard_fonts',
+);
+const FONT_FILES: Record<string, string> = {
+  [FONTS.regular]: 'LiberationSans-Regular.ttf',
+  [FONTS.bold]: 'LiberationSans-Bold.ttf',
+  [FONTS.italic]: 'LiberationSans-Italic.ttf',
+  [FONTS.boldItalic]: 'LiberationSans-BoldItalic.ttf',
+};
+
+// Courier has no glyphs past Latin-1, other code falls back to the body font
+function monoFontFor(text: string): string {
+  return /[^\x20-\xff\s]/.test(text) ? FONTS.regular : FONTS.mono;
+}
+
+const BODY_FONT_SIZE = 11;
+const CODE_FONT_SIZE = 9;
+const HEADING_FONT_SIZES = [22, 18, 15, 13, 12, 11];
+const LIST_INDENT = 18;
+const TEXT_COLOR = '#1f2328';
+const MUTED_COLOR = '#656d76';
+const LINK_COLOR = '#1c7ed6';
+const CODE_BACKGROUND = '#f3f4f6';
+const BORDER_COLOR = '#d0d7de';
+
+const CALLOUT_COLORS: Record<string, string> = {
+  info: '#1c7ed6',
+  note: '#1c7ed6',
+  success: '#2f9e44',
+  warning: '#f08c00',
+  danger: '#e03131',
+  default: '#868e96',
+};
+
+// pdfkit can only embed PNG and JPEG images
+const SUPPORTED_IMAGE_SIGNATURES = [
+  Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+  Buffer.from([0xff, 0xd8, 0xff]),
+];
+
+export function isPdfSupportedImage(buffer: Buffer): boolean {
+  return SUPPORTED_IMAGE_SIGNATURES.some(
+    (signature) =>
+      buffer.length >= signature.length &&
+      buffer.subarray(0, signature.length).equals(signature),
+  );
+}
+
+function createDocument(title: string): PDFKit.PDFDocument {
+  const doc = new PDFDocument({
+    size: 'A4',
+    margins: { top: 56, bottom: 56, left: 56, right: 56 },
+    bufferPages: true,
+    info: { Title: title, Creator: 'Docmost' },
+  });
+
+  for (const [name, file] of Object.entries(FONT_FILES)) {
+    doc.registerFont(name, join(FONT_DIR, file));
+  }
+  return doc.font(FONTS.regular);
+}
+
+function toBuffer(doc: PDFKit.PDFDocument): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+}
+
+function addPageNumbers(doc: PDFKit.PDFDocument) {
+  const range = doc.bufferedPageRange();
+
+  for (let i = range.start; i < range.start + range.count; i++) {
+    doc.switchToPage(i);
+    const bottomMargin = doc.page.margins.bottom;
+    // writing inside the bottom margin would otherwise trigger a new page
+    doc.page.margins.bottom = 0;
+    doc
+      .font(FONTS.regular)
+      .fontSize(8)
+      .fillColor(MUTED_COLOR)
+      .text(
+        `${i + 1} / ${range.count}`,
+        doc.page.margins.left,
+        doc.page.height - bottomMargin / 2,
+        {
+          width:
+            doc.page.width - doc.page.margins.left - doc.page.margins.right,
+          align: 'center',
+          lineBreak: false,
+        },
+      );
+    doc.page.margins.bottom = bottomMargin;
+  }
+}
+
+export async function renderPdf(
+  prosemirrorJson: JSONContent,
+  options: PdfRenderOptions,
+): Promise<Buffer> {
+  const doc = createDocument(options.title);
+  const output = toBuffer(doc);
+
+  new PdfRenderer(doc, options.images ?? new Map()).render(prosemirrorJson);
+
+  addPageNumbers(doc);
+  doc.end();
+
+  return output;
+}
+
+export async function renderPdfTableOfContents(
+  title: string,
+  entries: PdfTocEntry[],
+): Promise<Buffer> {
+  const doc = createDocument(title);
+  const output = toBuffer(doc);
+  const left = doc.page.margins.left;
+  const width = doc.page.width - left - doc.page.margins.right;
+
+  doc
+    .font(FONTS.bold)
+    .fontSize(HEADING_FONT_SIZES[0])
+    .fillColor(TEXT_COLOR)
+    .text(title, { width });
+  doc.moveDown(0.25);
+  doc
+    .font(FONTS.regular)
+    .fontSize(BODY_FONT_SIZE)
+    .fillColor(MUTED_COLOR)
+    .text('Table of contents', { width });
+  doc.moveDown();
+
+  for (const entry of entries) {
+    const indent = entry.depth * LIST_INDENT;
+    doc
+      .font(entry.depth === 0 ? FONTS.bold : FONTS.regular)
+      .fontSize(BODY_FONT_SIZE)
+      .fillColor(LINK_COLOR)
+      .text(entry.title, left + indent, doc.y, {
+        width: width - indent,
+        link: entry.path,
+      });
+    doc.moveDown(0.3);
+  }
+
+  addPageNumbers(doc);
+  doc.end();
+
+  return output;
+}
+
+class PdfRenderer {
+  private indent = 0;
+  private outlines: PDFKit.PDFOutline[] = [];
+
+  constructor(
+    private readonly doc: PDFKit.PDFDocument,
+    private readonly images: Map<string, Buffer>,
+  ) {}
+
+  render(node: JSONContent) {
+    this.outlines = [this.doc.outline];
+    this.renderBlocks(node?.content ?? []);
+  }
+
+  private get left() {
+    return this.doc.page.margins.left + this.indent;
+  }
+
+  private get width() {
+    return (
+      this.doc.page.width -
+      this.doc.page.margins.left -
+      this.doc.page.margins.right -
+      this.indent
+    );
+  }
+
+  private get bottom() {
+    return this.doc.page.height - this.doc.page.margins.bottom;
+  }
+
+  private get pageIndex() {
+    const range = this.doc.bufferedPageRange();
+    return range.start + range.count - 1;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.doc.y + height > this.bottom) {
+      this.doc.addPage();
+    }
+  }
+
+  private renderBlocks(nodes: JSONContent[]) {
+    for (const node of nodes) {
+      this.renderBlock(node);
+    }
+  }
+
+  private renderBlock(node: JSONContent) {
+    switch (node.type) {
+      case 'paragraph':
+        this.renderParagraph(node);
+        break;
+      case 'heading':
+        this.renderHeading(node);
+        break;
+      case 'bulletList':
+      case 'orderedList':
+      case 'taskList':
+        this.renderList(node);
+        break;
+      case 'blockquote':
+        this.renderWithSideBar(BORDER_COLOR, () =>
+          this.renderBlocks(node.content ?? []),
+        );
+        break;
+      case 'callout':
+        this.renderWithSideBar(
+          CALLOUT_COLORS[node.attrs?.type] ?? CALLOUT_COLORS.default,
+          () => this.renderBlocks(node.content ?? []),
+        );
+        break;
+      case 'codeBlock':
+        this.renderPreformatted(getPlainText(node), 'left');
+        break;
+      case 'mathBlock':
+        this.renderMath(node.attrs?.text ?? '');
+        break;
+      case 'horizontalRule':
+        this.renderHorizontalRule();
+        break;
+      case 'image':
+        this.renderImage(node);
+        break;
+      case 'table':
+        this.renderTable(node);
+        break;
+      case 'details':
+        this.renderBlocks(node.content ?? []);
+        break;
+      case 'detailsSummary':
+        this.renderParagraph(node, FONTS.bold);
+        break;
+      case 'detailsContent':
+        this.indent += LIST_INDENT / 2;
+        this.renderBlocks(node.content ?? []);
+        this.indent -= LIST_INDENT / 2;
+        break;
+      case 'attachment':
+        this.renderLinkBlock(
+          `Attachment: ${node.attrs?.name ?? 'file'}`,
+          node.attrs?.url,
+        );
+        break;
+      case 'video':
+      case 'youtube':
+      case 'embed':
+      case 'drawio':
+      case 'excalidraw':
+        this.renderLinkBlock(
+          node.attrs?.title || node.attrs?.alt || node.attrs?.src || node.type,
+          node.attrs?.src,
+        );
+        break;
+      case 'subpages':
+      case 'collectionView':
+        break;
+      default:
+        if (node.content) {
+          this.renderBlocks(node.content);
+        }
+    }
+  }
+
+  private renderParagraph(node: JSONContent, baseFont = FONTS.regular) {
+    this.renderRuns(
+      collectRuns(node.content ?? [], baseFont),
+      BODY_FONT_SIZE,
+      node.attrs?.textAlign,
+    );
+    this.doc.moveDown(0.5);
+  }
+
+  private renderHeading(node: JSONContent) {
+    const level = Math.min(Math.max(node.attrs?.level ?? 1, 1), 6);
+    const fontSize = HEADING_FONT_SIZES[level - 1];
+
+    this.doc.moveDown(0.3);
+    this.ensureSpace(fontSize * 3);
+
+    const title = getPlainText(node).trim();
+    if (title) {
+      // keep the bookmark tree in sync with the heading levels
+      this.outlines.length = Math.min(this.outlines.length, level);
+      const parent = this.outlines[this.outlines.length - 1];
+      this.outlines.push(parent.addItem(title));
+    }
+
+    this.renderRuns(
+      collectRuns(node.content ?? [], FONTS.bold),
+      fontSize,
+      node.attrs?.textAlign,
+    );
+    this.doc.moveDown(0.4);
+  }
+
+  private renderRuns(runs: TextRun[], fontSize: number, align?: string) {
+    if (runs.length === 0) {
+      this.doc.fontSize(fontSize).text(' ', this.left, this.doc.y);
+      return;
+    }
+
+    this.doc.x = this.left;
+    runs.forEach((run, index) => {
+      this.doc
+        .font(run.font)
+        .fontSize(fontSize)
+        .fillColor(run.color ?? TEXT_COLOR)
+        .text(run.text, {
+          width: this.width,
+          align: (align as any) ?? 'left',
+          continued: index < runs.length - 1,
+          link: run.link ?? null,
+          underline: run.underline ?? false,
+          strike: run.strike ?? false,
+        });
+    });
+    this.doc.fillColor(TEXT_COLOR);
+  }
+
+  private renderList(node: JSONContent) {
+    let counter = node.attrs?.start ?? 1;
+
+    for (const item of node.content ?? []) {
+      const markerX = this.left;
+      const markerY = this.doc.y;
+
+      if (node.type === 'taskList') {
+        this.drawCheckbox(markerX, markerY + 1, item.attrs?.checked);
+      } else {
+        const marker = node.type === 'orderedList' ? `${counter++}.` : '•';
+        this.doc
+          .font(FONTS.regular)
+          .fontSize(BODY_FONT_SIZE)
+          .fillColor(TEXT_COLOR)
+          .text(marker, markerX, markerY, {
+            width: LIST_INDENT,
+            lineBreak: false,
+          });
+      }
+
+      this.doc.y = markerY;
+      this.indent += LIST_INDENT;
+      this.renderBlocks(item.content ?? []);
+      this.indent -= LIST_INDENT;
+    }
+  }
+
+  private drawCheckbox(x: number, y: number, checked: boolean) {
+    const size = 9;
+    this.doc
+      .lineWidth(0.8)
+      .strokeColor(MUTED_COLOR)
+      .rect(x, y, size, size)
+      .stroke();
+
+    if (checked) {
+      this.doc
+        .lineWidth(1.2)
+        .strokeColor(TEXT_COLOR)
+        .moveTo(x + 2, y + size / 2)
+        .lineTo(x + size / 2 - 0.5, y + size - 2)
+        .lineTo(x + size - 1.5, y + 2)
+        .stroke();
+    }
+  }
+
+  private renderWithSideBar(color: string, renderContent: () => void) {
+    const barX = this.left;
+    const startY = this.doc.y;
+    const startPage = this.pageIndex;
+
+    this.indent += 12;
+    renderContent();
+    this.indent -= 12;
+
+    // only draw the bar when the block did not break across pages
+    if (this.pageIndex === startPage) {
+      this.doc
+        .lineWidth(3)
+        .strokeColor(color)
+        .moveTo(barX + 1.5, startY)
+        .lineTo(barX + 1.5, this.doc.y - 4)
+        .stroke();
+    }
+  }
+
+  private renderPreformatted(text: string, align: 'left' | 'center') {
+    const padding = 8;
+    const options = { width: this.width - padding * 2, align };
+
+    this.doc.font(monoFontFor(text)).fontSize(CODE_FONT_SIZE);
+    const height = this.doc.heightOfString(text || ' ', options);
+    const pageHeight =
+      this.doc.page.height -
+      this.doc.page.margins.top -
+      this.doc.page.margins.bottom;
+
+    if (height + padding * 2 < pageHeight) {
+      this.ensureSpace(height + padding * 2);
+    }
+
+    const top = this.doc.y;
+    if (this.doc.y + height + padding * 2 <= this.bottom) {
+      this.doc
+        .rect(this.left, top, this.width, height + padding * 2)
+        .fill(CODE_BACKGROUND);
+    }
+
+    this.doc
+      .fillColor(TEXT_COLOR)
+      .text(text || ' ', this.left + padding, top + padding, options);
+    this.doc.x = this.left;
+    this.doc.y += padding;
+    this.doc.moveDown(0.5);
+  }
+
+  private renderMath(tex: string) {
+    this.doc
+      .font(FONTS.regular)
+      .fontSize(BODY_FONT_SIZE + 1)
+      .fillColor(TEXT_COLOR)
+      .text(formatMath(tex) || ' ', this.left, this.doc.y, {
+        width: this.width,
+        align: 'center',
+      });
+    this.doc.x = this.left;
+    this.doc.moveDown(0.5);
+  }
+
+  private renderHorizontalRule() {
+    this.doc.moveDown(0.5);
+    this.doc
+      .lineWidth(0.8)
+      .strokeColor(BORDER_COLOR)
+      .moveTo(this.left, this.doc.y)
+      .lineTo(this.left + this.width, this.doc.y)
+      .stroke();
+    this.doc.moveDown(0.8);
+  }
+
+  private renderImage(node: JSONContent) {
+    const buffer = this.images.get(node.attrs?.attachmentId);
+
+    if (!buffer || !isPdfSupportedImage(buffer)) {
+      this.renderLinkBlock(
+        `Image: ${node.attrs?.alt || node.attrs?.src || 'image'}`,
+        node.attrs?.src,
+      );
+      return;
+    }
+
+    const widthRatio = parseInt(node.attrs?.width, 10);
+    const maxWidth =
+      widthRatio > 0 && widthRatio < 100
+        ? (this.width * widthRatio) / 100
+        : this.width;
+    const maxHeight = 360;
+
+    try {
+      this.ensureSpace(Math.min(maxHeight, 120));
+      this.doc.image(buffer, this.left, this.doc.y, {
+        fit: [maxWidth, Math.min(maxHeight, this.bottom - this.doc.y)],
+        align:
+          node.attrs?.align === 'left' || node.attrs?.align === 'right'
+            ? node.attrs.align
+            : 'center',
+      });
+      this.doc.x = this.left;
+      this.doc.moveDown(0.5);
+    } catch {
+      this.renderLinkBlock(`Image: ${node.attrs?.alt || 'image'}`, null);
+    }
+  }
+
+  private renderTable(node: JSONContent) {
+    const rows = (node.content ?? []).map((row) =>
+      (row.content ?? []).map(
+        (cell): PDFKit.Mixins.CellOptions => ({
+          text: getPlainText(cell, '\n').trim(),
+          colSpan: cell.attrs?.colspan ?? 1,
+          rowSpan: cell.attrs?.rowspan ?? 1,
+          type: cell.type === 'tableHeader' ? 'TH' : 'TD',
+          backgroundColor:
+            cell.type === 'tableHeader' ? CODE_BACKGROUND : undefined,
+          font: {
+            src: cell.type === 'tableHeader' ? FONTS.bold : FONTS.regular,
+          },
+        }),
+      ),
+    );
+
+    if (rows.length === 0) return;
+
+    this.doc.font(FONTS.regular).fontSize(CODE_FONT_SIZE + 1);
+    this.doc.fillColor(TEXT_COLOR);
+    this.doc.table({
+      position: { x: this.left, y: this.doc.y },
+      maxWidth: this.width,
+      defaultStyle: {
+        border: 0.5,
+        borderColor: BORDER_COLOR,
+        padding: [4, 6],
+      },
+      data: rows,
+    });
+    this.doc.x = this.left;
+    this.doc.moveDown(0.8);
+  }
+
+  private renderLinkBlock(label: string, href: string | null) {
+    this.renderRuns(
+      [
+        {
+          text: label,
+          font: FONTS.italic,
+          color: href ? LINK_COLOR : MUTED_COLOR,
+          link: href ?? undefined,
+        },
+      ],
+      BODY_FONT_SIZE,
+    );
+    this.doc.moveDown(0.5);
+  }
+}
+
+function collectRuns(nodes: JSONContent[], baseFont: string): TextRun[] {
+  const runs: TextRun[] = [];
+
+  for (const node of nodes) {
+    const marks = node.marks ?? [];
+    const hasMark = (type: string) => marks.some((mark) => mark.type === type);
+    const link = marks.find((mark) => mark.type === 'link')?.attrs?.href;
+
+    let text: string;
+    let font: string;
+
+    switch (node.type) {
+      case 'text':
+        text = node.text ?? '';
+        break;
+      case 'hardBreak':
+        text = '\n';
+        break;
+      case 'mention':
+        text = `@${node.attrs?.label ?? ''}`;
+        break;
+      case 'mathInline':
+        text = formatMath(node.attrs?.text ?? '');
+        break;
+      default:
+        text = getPlainText(node);
+    }
+
+    if (!text) continue;
+
+    if (hasMark('code')) {
+      font = monoFontFor(text);
+    } else {
+      const bold = hasMark('bold') || baseFont === FONTS.bold;
+      const italic = hasMark('italic');
+      font =
+        bold && italic
+          ? FONTS.boldItalic
+          : bold
+            ? FONTS.bold
+            : italic
+              ? FONTS.italic
+              : FONTS.regular;
+    }
+
+    runs.push({
+      text,
+      font,
+      color: link ? LINK_COLOR : undefined,
+      link,
+      underline: hasMark('underline') || !!link,
+      strike: hasMark('strike'),
+    });
+  }
+
+  return runs;
+}
+
+// only symbols the embedded font has glyphs for, others keep their command
+const MATH_SYMBOLS = new Map<string, string>(
+  Object.entries({
+    alpha: 'α',
+    beta: 'β',
+    gamma: 'γ',
+    delta: 'δ',
+    epsilon: 'ε',
+    varepsilon: 'ε',
+    zeta: 'ζ',
+    eta: 'η',
+    theta: 'θ',
+    iota: 'ι',
+    kappa: 'κ',
+    lambda: 'λ',
+    mu: 'μ',
+    nu: 'ν',
+    xi: 'ξ',
+    pi: 'π',
+    rho: 'ρ',
+    sigma: 'σ',
+    tau: 'τ',
+    upsilon: 'υ',
+    phi: 'φ',
+    varphi: 'φ',
+    chi: 'χ',
+    psi: 'ψ',
+    omega: 'ω',
+    Gamma: 'Γ',
+    Delta: 'Δ',
+    Theta: 'Θ',
+    Lambda: 'Λ',
+    Xi: 'Ξ',
+    Pi: 'Π',
+    Sigma: 'Σ',
+    Phi: 'Φ',
+    Psi: 'Ψ',
+    Omega: 'Ω',
+    times: '×',
+    cdot: '·',
+    pm: '±',
+    div: '÷',
+    le: '≤',
+    leq: '≤',
+    ge: '≥',
+    geq: '≥',
+    ne: '≠',
+    neq: '≠',
+    approx: '≈',
+    equiv: '≡',
+    infty: '∞',
+    sum: '∑',
+    prod: '∏',
+    int: '∫',
+    partial: '∂',
+    sqrt: '√',
+    to: '→',
+    rightarrow: '→',
+    leftarrow: '←',
+    leftrightarrow: '↔',
+    uparrow: '↑',
+    downarrow: '↓',
+    cap: '∩',
+    ldots: '…',
+    dots: '…',
+    degree: '°',
+    prime: '′',
+  }),
+);
+
+const MATH_FUNCTIONS = new Set([
+  'sin',
+  'cos',
+  'tan',
+  'log',
+  'ln',
+  'exp',
+  'lim',
+  'max',
+  'min',
+]);
+
+/*
+ * Turns LaTeX into readable text: commands become their symbols, fractions
+ * and roots are spelled out and grouping braces are dropped.
+ */
+export function formatMath(tex: string): string {
+  let text = tex;
+  let previous: string;
+
+  // innermost groups first, so nested fractions and roots resolve
+  do {
+    previous = text;
+    text = text
+      .replace(
+        /\\[dt]?frac\{([^{}]*)\}\{([^{}]*)\}/g,
+        (_, a, b) => `${wrapMath(a)}/${wrapMath(b)}`,
+      )
+      .replace(/\\sqrt\{([^{}]*)\}/g, (_, a) => `√${wrapMath(a)}`)
+      .replace(
+        /\\(?:text|mathrm|mathbf|mathit|mathsf|operatorname)\{([^{}]*)\}/g,
+        '$1',
+      );
+  } while (text !== previous);
+
+  return text
+    .replace(/\\(left|right|displaystyle)\b/g, '')
+    .replace(/\\[,;:!]|\\q?quad\b|~/g, ' ')
+    .replace(/\\\\/g, '\n')
+    .replace(
+      /\\([a-zA-Z]+)/g,
+      (command, name) =>
+        MATH_SYMBOLS.get(name) ?? (MATH_FUNCTIONS.has(name) ? name : command),
+    )
+    .replace(/\\([{}%$&#_])/g, '$1')
+    .replace(
+      /\^(?:\{([123])\}|([123]))/g,
+      (_, braced, digit) => '¹²³'[Number(braced ?? digit) - 1],
+    )
+    .replace(/[{}]/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+function wrapMath(expression: string): string {
+  const trimmed = expression.trim();
+  return /^[\w.]+$/.test(trimmed) ? trimmed : `(${trimmed})`;
+}
@@ -1,6 +1,7 @@
 import { jsonToNode } from 'src/collaboration/collaboration.util';
 import { ExportFormat } from './dto/export-dto';
 import { Node } from '@tiptap/pm/model';
+import { JSONContent } from '@tiptap/core';
 import { validate as isValidUUID } from 'uuid';
 import * as path from 'path';
 import { Page } from '@docmost/db/types/entity.types';
@@ -11,6 +12,8 @@ export type PageExportTree = Record<string, Page[]>;
 export const INTERNAL_LINK_REGEX =
   /^(https?:\/\/)?([^\/]+)?(\/s\/([^\/]+)\/)?p\/([a-zA-Z0-9-]+)\/?$/;
 
+export const PDF_TOC_FILE_NAME = 'Table of contents';
+
 export function getExportExtension(format: string) {
   if (format === ExportFormat.HTML) {
     return '.html';
@@ -19,6 +22,14 @@ export function getExportExtension(format: string) {
   if (format === ExportFormat.Markdown) {
     return '.md';
   }
+
+  if (format === ExportFormat.PDF) {
+    return '.pdf';
+  }
+
+  if (format === ExportFormat.DOCX) {
+    return '.docx';
+  }
   return;
 }
 
@@ -26,6 +37,31 @@ export function getPageTitle(title: string) {
   return title ? title : 'untitled';
 }
 
+// page labels are kept in YAML frontmatter so they survive a markdown re-import
+export function getMarkdownFrontmatter(labels: string[]): string {
+  if (!labels || labels.length === 0) {
+    return '';
+  }
+
+  const lines = labels.map((label) => `  - ${JSON.stringify(label)}`);
+  return ['---', 'labels:', ...lines, '---', '', ''].join('\n');
+}
+
+export function getPlainText(node: JSONContent, blockSeparator = ''): string {
+  if (node.type === 'text') return node.text ?? '';
+  if (node.type === 'hardBreak') return '\n';
+  if (node.type === 'mathInline') return node.attrs?.text ?? '';
+  if (node.type === 'mention') return `@${node.attrs?.label ?? ''}`;
+
+  return (node.content ?? [])
+    .map((child) => getPlainText(child, blockSeparator))
+    .join(
+      node.type === 'tableCell' || node.type === 'tableHeader'
+        ? blockSeparator
+        : '',
+    );
+}
+
 export function updateAttachmentUrlsToLocalPaths(prosemirrorJson: any) {
   const doc = jsonToNode(prosemirrorJson);
   if (!doc) return null;
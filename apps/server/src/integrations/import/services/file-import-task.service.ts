@@ -24,10 +24,13 @@ import { formatImportHtml } from '../utils/import-formatter';
 import {
   buildAttachmentCandidates,
   collectMarkdownAndHtmlFiles,
+  extractMarkdownFrontmatter,
   stripNotionID,
 } from '../utils/import.utils';
 import { executeTx } from '@docmost/db/utils';
 import { BacklinkRepo } from '@docmost/db/repos/backlink/backlink.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import { normalizeLabelNames } from '../../../core/label/label.utils';
 import { ImportAttachmentService } from './import-attachment.service';
 import { ModuleRef } from '@nestjs/core';
 import { PageService } from '../../../core/page/services/page.service';
@@ -44,6 +47,7 @@ export class FileImportTaskService {
     private readonly importService: ImportService,
     private readonly pageService: PageService,
     private readonly backlinkRepo: BacklinkRepo,
+    private readonly labelRepo: LabelRepo,
     @InjectKysely() private readonly db: KyselyDB,
     private readonly importAttachmentService: ImportAttachmentService,
     private moduleRef: ModuleRef,
@@ -378,6 +382,7 @@ export class FileImportTaskService {
           for (const [filePath, page] of levelPages) {
             const absPath = path.join(extractDir, filePath);
             let content = '';
+            let labels: string[] = [];
 
             // Check if file exists (placeholder pages won't have physical files)
             try {
@@ -385,7 +390,9 @@ export class FileImportTaskService {
               content = await fs.readFile(absPath, 'utf-8');
 
               if (page.fileExtension.toLowerCase() === '.md') {
-                content = await markdownToHtml(content);
+                const frontmatter = extractMarkdownFrontmatter(content);
+                labels = normalizeLabelNames(frontmatter.labels);
+                content = await markdownToHtml(frontmatter.markdown);
               }
             } catch (err: any) {
               if (err?.code === 'ENOENT') {
@@ -439,6 +446,15 @@ export class FileImportTaskService {
             };
 
             await trx.insertInto('pages').values(insertablePage).execute();
+            await this.labelRepo.addPageLabelsByName(
+              insertablePage.id,
+              labels,
+              {
+                workspaceId: fileTask.workspaceId,
+                creatorId: fileTask.creatorId,
+              },
+              trx,
+            );
 
             // Track valid page IDs and collect backlinks
             validPageIds.add(insertablePage.id);
@@ -0,0 +1,122 @@
+import { BadRequestException } from '@nestjs/common';
+import { MultipartFile } from '@fastify/multipart';
+import { Queue } from 'bullmq';
+import { ImportService } from './import.service';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import { AttachmentRepo } from '@docmost/db/repos/attachment/attachment.repo';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { StorageService } from '../../storage/storage.service';
+
+jest.mock('../../../collaboration/collaboration.util', () => ({
+  jsonToText: () => '',
+}));
+jest.mock('@docmost/editor-ext', () => ({}));
+
+describe('ImportService', () => {
+  const image = {
+    id: 'attachment-1',
+    filePath: 'workspace-1/files/attachment-1/image-1.png',
+  };
+  const file = {
+    filename: 'report.docx',
+    toBuffer: async () => Buffer.from('docx'),
+  } as MultipartFile;
+
+  let pageRepo: { insertPage: jest.Mock };
+  let labelRepo: { addPageLabelsByName: jest.Mock };
+  let attachmentRepo: { insertAttachment: jest.Mock };
+  let storageService: { delete: jest.Mock };
+  let trx: object;
+  let service: ImportService;
+
+  beforeEach(() => {
+    trx = {};
+    pageRepo = {
+      insertPage: jest
+        .fn()
+        .mockImplementation(async (page) => ({ ...page, slugId: 'slug' })),
+    };
+    labelRepo = { addPageLabelsByName: jest.fn() };
+    attachmentRepo = { insertAttachment: jest.fn() };
+    storageService = { delete: jest.fn().mockResolvedValue(undefined) };
+    const db = {
+      transaction: () => ({ execute: (callback) => callback(trx) }),
+    };
+
+    service = new ImportService(
+      pageRepo as unknown as PageRepo,
+      labelRepo as unknown as LabelRepo,
+      attachmentRepo as unknown as AttachmentRepo,
+      storageService as unknown as StorageService,
+      db as unknown as KyselyDB,
+      null as Queue,
+    );
+    jest.spyOn(service['logger'], 'error').mockImplementation(() => {});
+    jest.spyOn(service, 'getNewPagePosition').mockResolvedValue('a0');
+    jest.spyOn(service, 'createYdoc').mockResolvedValue(null);
+    jest
+      .spyOn(service, 'processDocx')
+      .mockImplementation(async (_buffer, opts) => {
+        opts.attachments.push({ ...image, pageId: opts.pageId } as any);
+        return { type: 'doc', content: [{ type: 'paragraph' }] };
+      });
+  });
+
+  it('saves docx images after the page, in the same transaction', async () => {
+    await service.importPage(
+      Promise.resolve(file),
+      'user-1',
+      'space-1',
+      'workspace-1',
+    );
+
+    const page = pageRepo.insertPage.mock.calls[0][0];
+    expect(pageRepo.insertPage).toHaveBeenCalledWith(page, trx);
+    expect(attachmentRepo.insertAttachment).toHaveBeenCalledWith(
+      expect.objectContaining({ id: image.id, pageId: page.id }),
+      trx,
+    );
+    expect(pageRepo.insertPage.mock.invocationCallOrder[0]).toBeLessThan(
+      attachmentRepo.insertAttachment.mock.invocationCallOrder[0],
+    );
+    expect(storageService.delete).not.toHaveBeenCalled();
+  });
+
+  it('deletes uploaded images when the page cannot be created', async () => {
+    pageRepo.insertPage.mockRejectedValue(new Error('insert failed'));
+
+    await expect(
+      service.importPage(
+        Promise.resolve(file),
+        'user-1',
+        'space-1',
+        'workspace-1',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    expect(attachmentRepo.insertAttachment).not.toHaveBeenCalled();
+    expect(storageService.delete).toHaveBeenCalledWith(image.filePath);
+  });
+
+  it('deletes uploaded images when the conversion fails', async () => {
+    jest
+      .spyOn(service, 'processDocx')
+      .mockImplementation(async (_buffer, opts) => {
+        opts.attachments.push({ ...image } as any);
+        throw new Error('corrupt document');
+      });
+
+    await expect(
+      service.importPage(
+        Promise.resolve(file),
+        'user-1',
+        'space-1',
+        'workspace-1',
+      ),
+    ).rejects.toBeInstanceOf(BadRequestException);
+
+    expect(pageRepo.insertPage).not.toHaveBeenCalled();
+    expect(storageService.delete).toHaveBeenCalledWith(image.filePath);
+  });
+});
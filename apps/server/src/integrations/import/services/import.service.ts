@@ -25,6 +25,21 @@ import { StorageService } from '../../storage/storage.service';
 import { InjectQueue } from '@nestjs/bullmq';
 import { Queue } from 'bullmq';
 import { QueueJob, QueueName } from '../../queue/constants';
+import * as mammoth from 'mammoth';
+import * as mime from 'mime-types';
+import { load } from 'cheerio';
+import { docxFormatter } from '../utils/import-formatter';
+import {
+  DOCX_STYLE_MAP,
+  extractMarkdownFrontmatter,
+} from '../utils/import.utils';
+import { getAttachmentFolderPath } from '../../../core/attachment/attachment.utils';
+import { AttachmentType } from '../../../core/attachment/attachment.constants';
+import { LabelRepo } from '@docmost/db/repos/label/label.repo';
+import { normalizeLabelNames } from '../../../core/label/label.utils';
+import { AttachmentRepo } from '@docmost/db/repos/attachment/attachment.repo';
+import { InsertableAttachment } from '@docmost/db/types/entity.types';
+import { executeTx } from '@docmost/db/utils';
 
 @Injectable()
 export class ImportService {
@@ -32,6 +47,8 @@ export class ImportService {
 
   constructor(
     private readonly pageRepo: PageRepo,
+    private readonly labelRepo: LabelRepo,
+    private readonly attachmentRepo: AttachmentRepo,
     private readonly storageService: StorageService,
     @InjectKysely() private readonly db: KyselyDB,
     @InjectQueue(QueueName.FILE_TASK_QUEUE)
@@ -51,25 +68,41 @@ export class ImportService {
       path.basename(file.filename, fileExtension).slice(0, 255),
     );
     const fileContent = fileBuffer.toString();
+    const pageId = uuid7();
 
     let prosemirrorState = null;
     let createdPage = null;
+    let labels: string[] = [];
+    // embedded images, saved once the page exists
+    const attachments: InsertableAttachment[] = [];
 
     try {
       if (fileExtension.endsWith('.md')) {
-        prosemirrorState = await this.processMarkdown(fileContent);
+        const frontmatter = extractMarkdownFrontmatter(fileContent);
+        labels = normalizeLabelNames(frontmatter.labels);
+        prosemirrorState = await this.processMarkdown(frontmatter.markdown);
       } else if (fileExtension.endsWith('.html')) {
         prosemirrorState = await this.processHTML(fileContent);
+      } else if (fileExtension.endsWith('.docx')) {
+        prosemirrorState = await this.processDocx(fileBuffer, {
+          pageId,
+          userId,
+          spaceId,
+          workspaceId,
+          attachments,
+        });
       }
     } catch (err) {
       const message = 'Error processing file content';
       this.logger.error(message, err);
+      await this.deleteUploadedFiles(attachments);
       throw new BadRequestException(message);
     }
 
     if (!prosemirrorState) {
       const message = 'Failed to create ProseMirror state';
       this.logger.error(message);
+      await this.deleteUploadedFiles(attachments);
       throw new BadRequestException(message);
     }
 
@@ -81,18 +114,38 @@ export class ImportService {
     if (prosemirrorJson) {
       try {
         const pagePosition = await this.getNewPagePosition(spaceId);
-
-        createdPage = await this.pageRepo.insertPage({
-          slugId: generateSlugId(),
-          title: pageTitle,
-          content: prosemirrorJson,
-          textContent: jsonToText(prosemirrorJson),
-          ydoc: await this.createYdoc(prosemirrorJson),
-          position: pagePosition,
-          spaceId: spaceId,
-          creatorId: userId,
-          workspaceId: workspaceId,
-          lastUpdatedById: userId,
+        const ydoc = await this.createYdoc(prosemirrorJson);
+
+        createdPage = await executeTx(this.db, async (trx) => {
+          const page = await this.pageRepo.insertPage(
+            {
+              id: pageId,
+              slugId: generateSlugId(),
+              title: pageTitle,
+              content: prosemirrorJson,
+              textContent: jsonToText(prosemirrorJson),
+              ydoc,
+              position: pagePosition,
+              spaceId: spaceId,
+              creatorId: userId,
+              workspaceId: workspaceId,
+              lastUpdatedById: userId,
+            },
+            trx,
+          );
+
+          for (const attachment of attachments) {
+            await this.attachmentRepo.insertAttachment(attachment, trx);
+          }
+
+          await this.labelRepo.addPageLabelsByName(
+            page.id,
+            labels,
+            { workspaceId, creatorId: userId },
+            trx,
+          );
+
+          return page;
         });
 
         this.logger.debug(
@@ -101,6 +154,7 @@ export class ImportService {
       } catch (err) {
         const message = 'Failed to create imported page';
         this.logger.error(message, err);
+        await this.deleteUploadedFiles(attachments);
         throw new BadRequestException(message);
       }
     }
@@ -125,6 +179,74 @@ export class ImportService {
     }
   }
 
+  async processDocx(
+    docxBuffer: Buffer,
+    opts: {
+      pageId: string;
+      userId: string;
+      spaceId: string;
+      workspaceId: string;
+      // receives the uploaded images, to be saved along with the page
+      attachments: InsertableAttachment[];
+    },
+  ): Promise<any> {
+    const { pageId, userId, spaceId, workspaceId } = opts;
+    let imageCount = 0;
+
+    // embedded images are stored as attachments of the page being imported
+    const convertImage = mammoth.images.imgElement(async (image) => {
+      const attachmentId = uuid7();
+      const fileExt = `.${mime.extension(image.contentType) || 'bin'}`;
+      const fileName = `image-${++imageCount}${fileExt}`;
+      const imageBuffer = await image.readAsBuffer();
+      const filePath = `${getAttachmentFolderPath(
+        AttachmentType.File,
+        workspaceId,
+      )}/${attachmentId}/${fileName}`;
+
+      await this.storageService.upload(filePath, imageBuffer);
+
+      opts.attachments.push({
+        id: attachmentId,
+        filePath,
+        fileName,
+        fileSize: imageBuffer.length,
+        mimeType: image.contentType,
+        type: 'file',
+        fileExt,
+        creatorId: userId,
+        pageId,
+        spaceId,
+        workspaceId,
+      });
+
+      return { src: `/api/files/${attachmentId}/${fileName}` };
+    });
+
+    const { value: html } = await mammoth.convertToHtml(
+      { buffer: docxBuffer },
+      { styleMap: DOCX_STYLE_MAP, convertImage },
+    );
+
+    const $ = load(html);
+    docxFormatter($, $.root());
+
+    return this.processHTML($.html());
+  }
+
+  private async deleteUploadedFiles(attachments: InsertableAttachment[]) {
+    await Promise.all(
+      attachments.map((attachment) =>
+        this.storageService.delete(attachment.filePath).catch((err) => {
+          this.logger.error(
+            `Failed to delete imported file ${attachment.filePath}`,
+            err,
+          );
+        }),
+      ),
+    );
+  }
+
   async createYdoc(prosemirrorJson: any): Promise<Buffer | null> {
     if (prosemirrorJson) {
       // this.logger.debug(`Converting prosemirror json state to ydoc`);
@@ -89,6 +89,29 @@ export function defaultHtmlFormatter($: CheerioAPI, $root: Cheerio<any>) {
   });
 }
 
+export function docxFormatter($: CheerioAPI, $root: Cheerio<any>) {
+  // mammoth maps the "Callout <Type>" paragraph styles to div.callout-<type>
+  $root.find('div[class^="callout-"]').each((_, el) => {
+    const $el = $(el);
+    const calloutType = $el.attr('class').replace('callout-', '');
+    $el
+      .removeAttr('class')
+      .attr('data-type', 'callout')
+      .attr('data-callout-type', calloutType);
+  });
+
+  // line breaks inside code blocks must become plain newlines
+  $root.find('pre br').replaceWith('\n');
+
+  // link embedded images to their attachment records
+  $root.find('img[src^="/api/files/"]').each((_, el) => {
+    const $el = $(el);
+    const attachmentId = $el.attr('src').split('/')[3];
+    $el.attr('data-attachment-id', attachmentId);
+    unwrapFromParagraph($, $el);
+  });
+}
+
 export function notionFormatter($: CheerioAPI, $root: Cheerio<any>) {
   // remove page header icon and cover image
   $root.find('.page-header-icon').remove();
@@ -1,5 +1,86 @@
 import { promises as fs } from 'fs';
 import * as path from 'path';
+import {
+  DOCX_CALLOUT_TYPES,
+  DOCX_CODE_BLOCK_STYLE,
+  getDocxCalloutStyleName,
+} from '../../export/docx-renderer';
+
+// mammoth style map for Word styles that have no HTML counterpart by default
+export const DOCX_STYLE_MAP = [
+  "p[style-name='Title'] => h1:fresh",
+  `p[style-name='${DOCX_CODE_BLOCK_STYLE}'] => pre:separator('\\n')`,
+  "p[style-name='Quote'] => blockquote > p:fresh",
+  "p[style-name='Intense Quote'] => blockquote > p:fresh",
+  "p[style-name='Block Quote'] => blockquote > p:fresh",
+  ...DOCX_CALLOUT_TYPES.map(
+    (type) =>
+      `p[style-name='${getDocxCalloutStyleName(type)}'] => div.callout-${type} > p:fresh`,
+  ),
+];
+
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+const FRONTMATTER_LABEL_KEYS = ['labels', 'tags'];
+
+function unquoteYamlValue(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      return trimmed.slice(1, -1);
+    }
+  }
+  if (trimmed.startsWith("'") && trimmed.endsWith("'")) {
+    return trimmed.slice(1, -1).replace(/''/g, "'");
+  }
+  return trimmed;
+}
+
+/**
+ * Strips the YAML frontmatter from a markdown file and reads the page labels from it.
+ * Only the `labels` and `tags` keys are understood, either as a block list
+ * or as an inline `[a, b]` list.
+ */
+export function extractMarkdownFrontmatter(markdown: string): {
+  labels: string[];
+  markdown: string;
+} {
+  const match = markdown.match(FRONTMATTER_REGEX);
+  if (!match) {
+    return { labels: [], markdown };
+  }
+
+  const labels: string[] = [];
+  const lines = match[1].split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const keyMatch = lines[i].match(/^([\w-]+):\s*(.*)$/);
+    if (!keyMatch || !FRONTMATTER_LABEL_KEYS.includes(keyMatch[1])) {
+      continue;
+    }
+
+    const inlineValue = keyMatch[2].trim();
+    if (inlineValue) {
+      labels.push(
+        ...inlineValue
+          .replace(/^\[|\]$/g, '')
+          .split(',')
+          .map(unquoteYamlValue),
+      );
+      continue;
+    }
+
+    while (i + 1 < lines.length && /^\s+-\s+/.test(lines[i + 1])) {
+      labels.push(unquoteYamlValue(lines[++i].replace(/^\s+-\s+/, '')));
+    }
+  }
+
+  return {
+    labels: labels.filter(Boolean),
+    markdown: markdown.slice(match[0].length),
+  };
+}
 
 export async function buildAttachmentCandidates(
   extractDir: string,
@@ -6,6 +6,8 @@ export enum QueueName {
   FILE_TASK_QUEUE = '{file-task-queue}',
   SEARCH_QUEUE = '{search-queue}',
   AI_QUEUE = '{ai-queue}',
+  WEBHOOK_QUEUE = '{webhook-queue}',
+  NOTIFICATION_QUEUE = '{notification-queue}',
 }
 
 export enum QueueJob {
@@ -58,4 +60,11 @@ export enum QueueJob {
 
   GENERATE_PAGE_EMBEDDINGS = 'generate-page-embeddings',
   DELETE_PAGE_EMBEDDINGS = 'delete-page-embeddings',
+
+  WEBHOOK_DELIVERY = 'webhook-delivery',
+
+  PAGE_MENTION_NOTIFICATIONS = 'page-mention-notifications',
+  COMMENT_NOTIFICATIONS = 'comment-notifications',
+  WATCHER_NOTIFICATIONS = 'watcher-notifications',
+  PAGE_REVIEW_NOTIFICATIONS = 'page-review-notifications',
 }
@@ -9,4 +9,42 @@ export interface IPageBacklinkJob {
 
 export interface IStripeSeatsSyncJob {
   workspaceId: string;
-}
\ No newline at end of file
+}
+
+export interface IWebhookDeliveryJob {
+  deliveryId: string;
+  webhookId: string;
+  workspaceId: string;
+}
+
+export interface IPageEmbeddingJob {
+  pageIds: string[];
+  workspaceId: string;
+}
+
+export interface IPageMentionNotificationJob {
+  pageId: string;
+  workspaceId: string;
+  actorId: string;
+  mentions: MentionNode[];
+}
+
+export interface ICommentNotificationJob {
+  commentId: string;
+  workspaceId: string;
+}
+
+export interface IWatcherNotificationJob {
+  type: string;
+  pageIds: string[];
+  workspaceId: string;
+  actorId?: string;
+}
+
+export interface IPageReviewNotificationJob {
+  type: string;
+  pageId: string;
+  userIds: string[];
+  workspaceId: string;
+  actorId: string;
+}
@@ -81,6 +81,28 @@ import { BacklinksProcessor } from './processors/backlinks.processor';
         attempts: 1,
       },
     }),
+    BullModule.registerQueue({
+      name: QueueName.NOTIFICATION_QUEUE,
+      defaultJobOptions: {
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: 2,
+      },
+    }),
+    BullModule.registerQueue({
+      name: QueueName.WEBHOOK_QUEUE,
+      defaultJobOptions: {
+        attempts: 6,
+        backoff: {
+          type: 'exponential',
+          delay: 30 * 1000,
+        },
+        removeOnComplete: true,
+        removeOnFail: {
+          count: 100,
+        },
+      },
+    }),
   ],
   exports: [BullModule],
   providers: [BacklinksProcessor],
@@ -0,0 +1,50 @@
+import { Link, Section, Text } from '@react-email/components';
+import * as React from 'react';
+import { content, link, paragraph } from '../css/styles';
+import { MailBody } from '../partials/partials';
+
+export interface NotificationDigestItem {
+  message: string;
+  pageTitle: string;
+  pageUrl: string;
+}
+
+interface Props {
+  userName: string;
+  items: NotificationDigestItem[];
+  inboxUrl: string;
+}
+
+export const NotificationDigestEmail = ({
+  userName,
+  items,
+  inboxUrl,
+}: Props) => {
+  return (
+    <MailBody>
+      <Section style={content}>
+        <Text style={paragraph}>Hi {userName},</Text>
+        <Text style={paragraph}>
+          You have {items.length} unread{' '}
+          {items.length === 1 ? 'notification' : 'notifications'} in Docmost.
+        </Text>
+        {items.map((item, index) => (
+          <Text key={index} style={paragraph}>
+            {item.message}{' '}
+            <Link href={item.pageUrl} style={link}>
+              {item.pageTitle}
+            </Link>
+          </Text>
+        ))}
+        <Text style={paragraph}>
+          <Link href={inboxUrl} style={link}>
+            Open Docmost
+          </Link>{' '}
+          to view all your notifications.
+        </Text>
+      </Section>
+    </MailBody>
+  );
+};
+
+export default NotificationDigestEmail;
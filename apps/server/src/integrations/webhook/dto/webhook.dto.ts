@@ -0,0 +1,48 @@
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { PartialType } from '@nestjs/mapped-types';
+import { Transform, TransformFnParams } from 'class-transformer';
+import { WEBHOOK_EVENTS } from '../webhook.constants';
+
+export class CreateWebhookDto {
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  @Transform(({ value }: TransformFnParams) => value?.trim())
+  name?: string;
+
+  @IsUrl({ protocols: ['http', 'https'], require_tld: false })
+  @MaxLength(2048)
+  url: string;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsIn(WEBHOOK_EVENTS, { each: true })
+  events: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isEnabled?: boolean;
+}
+
+export class UpdateWebhookDto extends PartialType(CreateWebhookDto) {
+  @IsNotEmpty()
+  @IsUUID()
+  webhookId: string;
+}
+
+export class WebhookIdDto {
+  @IsNotEmpty()
+  @IsUUID()
+  webhookId: string;
+}
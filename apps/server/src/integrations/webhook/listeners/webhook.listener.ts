@@ -0,0 +1,97 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { InjectKysely } from 'nestjs-kysely';
+import { KyselyDB } from '@docmost/db/types/kysely.types';
+import { validate as isValidUUID } from 'uuid';
+import { EventName } from '../../../common/events/event.contants';
+import { PageEvent } from '@docmost/db/listeners/page.listener';
+import { SpaceEvent } from '@docmost/db/listeners/space.listener';
+import { WebhookService } from '../webhook.service';
+
+@Injectable()
+export class WebhookListener {
+  private readonly logger = new Logger(WebhookListener.name);
+
+  constructor(
+    private readonly webhookService: WebhookService,
+    @InjectKysely() private readonly db: KyselyDB,
+  ) {}
+
+  @OnEvent(EventName.PAGE_CREATED)
+  async handlePageCreated(event: PageEvent) {
+    await this.dispatchPageEvent(EventName.PAGE_CREATED, event);
+  }
+
+  @OnEvent(EventName.PAGE_UPDATED)
+  async handlePageUpdated(event: PageEvent) {
+    await this.dispatchPageEvent(EventName.PAGE_UPDATED, event);
+  }
+
+  @OnEvent(EventName.PAGE_SOFT_DELETED)
+  async handlePageSoftDeleted(event: PageEvent) {
+    await this.dispatchPageEvent(EventName.PAGE_SOFT_DELETED, event);
+  }
+
+  @OnEvent(EventName.PAGE_RESTORED)
+  async handlePageRestored(event: PageEvent) {
+    await this.dispatchPageEvent(EventName.PAGE_RESTORED, event);
+  }
+
+  @OnEvent(EventName.PAGE_DELETED)
+  async handlePageDeleted(event: PageEvent) {
+    await this.dispatchPageEvent(EventName.PAGE_DELETED, event);
+  }
+
+  @OnEvent(EventName.SPACE_CREATED)
+  async handleSpaceCreated(event: SpaceEvent) {
+    await this.dispatchSpaceEvent(EventName.SPACE_CREATED, event);
+  }
+
+  @OnEvent(EventName.SPACE_UPDATED)
+  async handleSpaceUpdated(event: SpaceEvent) {
+    await this.dispatchSpaceEvent(EventName.SPACE_UPDATED, event);
+  }
+
+  @OnEvent(EventName.SPACE_DELETED)
+  async handleSpaceDeleted(event: SpaceEvent) {
+    await this.dispatchSpaceEvent(EventName.SPACE_DELETED, event);
+  }
+
+  private async dispatchPageEvent(eventName: string, event: PageEvent) {
+    const pageIds = event.pageIds ?? [];
+    if (pageIds.length === 0) return;
+
+    try {
+      // some emitters (e.g. collaborative updates) do not include the workspaceId
+      const workspaceId =
+        event.workspaceId ?? (await this.findPageWorkspaceId(pageIds[0]));
+      if (!workspaceId) return;
+
+      await this.webhookService.dispatch(eventName, workspaceId, { pageIds });
+    } catch (err) {
+      this.logger.error(`Failed to dispatch ${eventName} webhooks`, err);
+    }
+  }
+
+  private async dispatchSpaceEvent(eventName: string, event: SpaceEvent) {
+    if (!event.workspaceId) return;
+
+    try {
+      await this.webhookService.dispatch(eventName, event.workspaceId, {
+        spaceId: event.spaceId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to dispatch ${eventName} webhooks`, err);
+    }
+  }
+
+  private async findPageWorkspaceId(pageId: string): Promise<string> {
+    const page = await this.db
+      .selectFrom('pages')
+      .select('workspaceId')
+      .where(isValidUUID(pageId) ? 'id' : 'slugId', '=', pageId)
+      .executeTakeFirst();
+
+    return page?.workspaceId;
+  }
+}
@@ -0,0 +1,132 @@
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { OnWorkerEvent, Processor, WorkerHost } from '@nestjs/bullmq';
+import { Job } from 'bullmq';
+import { QueueJob, QueueName } from '../../queue/constants';
+import { IWebhookDeliveryJob } from '../../queue/constants/queue.interface';
+import { WebhookRepo } from '@docmost/db/repos/webhook/webhook.repo';
+import { WebhookDeliveryRepo } from '@docmost/db/repos/webhook/webhook-delivery.repo';
+import { postWebhook, signWebhookPayload } from '../webhook.utils';
+import { WebhookDeliveryStatus } from '../webhook.constants';
+
+@Processor(QueueName.WEBHOOK_QUEUE)
+export class WebhookProcessor extends WorkerHost implements OnModuleDestroy {
+  private readonly logger = new Logger(WebhookProcessor.name);
+  constructor(
+    private readonly webhookRepo: WebhookRepo,
+    private readonly webhookDeliveryRepo: WebhookDeliveryRepo,
+  ) {
+    super();
+  }
+
+  async process(job: Job<IWebhookDeliveryJob, void>): Promise<void> {
+    if (job.name !== QueueJob.WEBHOOK_DELIVERY) return;
+
+    const { deliveryId, webhookId, workspaceId } = job.data;
+
+    const delivery = await this.webhookDeliveryRepo.findById(deliveryId);
+    if (!delivery) return;
+
+    const webhook = await this.webhookRepo.findById(webhookId, workspaceId, {
+      includeSecret: true,
+    });
+
+    if (!webhook || !webhook.isEnabled) {
+      await this.webhookDeliveryRepo.updateDelivery(
+        {
+          status: WebhookDeliveryStatus.FAILED,
+          errorMessage: 'Webhook was deleted or disabled',
+        },
+        deliveryId,
+      );
+      return;
+    }
+
+    const attempts = job.attemptsMade + 1;
+    const isFinalAttempt = attempts >= (job.opts.attempts ?? 1);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      id: delivery.id,
+      ...(delivery.payload as object),
+    });
+    const startedAt = Date.now();
+
+    let responseStatus: number = null;
+    let responseBody: string = null;
+    let errorMessage: string = null;
+
+    try {
+      const response = await postWebhook(
+        webhook.url,
+        {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Docmost-Webhooks',
+          'X-Docmost-Event': delivery.event,
+          'X-Docmost-Delivery': delivery.id,
+          'X-Docmost-Timestamp': String(timestamp),
+          'X-Docmost-Signature': signWebhookPayload(
+            webhook.secret,
+            timestamp,
+            body,
+          ),
+        },
+        body,
+      );
+
+      responseStatus = response.status;
+      responseBody = response.body;
+
+      if (response.status < 200 || response.status >= 300) {
+        errorMessage = `Endpoint responded with status ${response.status}`;
+      }
+    } catch (err) {
+      errorMessage = err instanceof Error ? err.message : String(err);
+    }
+
+    const success = !errorMessage;
+
+    await this.webhookDeliveryRepo.updateDelivery(
+      {
+        status: success
+          ? WebhookDeliveryStatus.SUCCESS
+          : isFinalAttempt
+            ? WebhookDeliveryStatus.FAILED
+            : WebhookDeliveryStatus.RETRYING,
+        attempts,
+        responseStatus,
+        responseBody,
+        errorMessage,
+        durationMs: Date.now() - startedAt,
+        deliveredAt: success ? new Date() : null,
+      },
+      deliveryId,
+    );
+
+    if (!success) {
+      // throw so BullMQ schedules the next attempt with backoff
+      throw new Error(errorMessage);
+    }
+  }
+
+  @OnWorkerEvent('active')
+  onActive(job: Job) {
+    this.logger.debug(`Processing ${job.name} job`);
+  }
+
+  @OnWorkerEvent('failed')
+  onError(job: Job) {
+    this.logger.warn(
+      `Error processing ${job.name} job (attempt ${job.attemptsMade}). Reason: ${job.failedReason}`,
+    );
+  }
+
+  @OnWorkerEvent('completed')
+  onCompleted(job: Job) {
+    this.logger.debug(`Completed ${job.name} job`);
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    if (this.worker) {
+      await this.worker.close();
+    }
+  }
+}
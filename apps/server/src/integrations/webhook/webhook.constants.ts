@@ -0,0 +1,25 @@
+import { EventName } from '../../common/events/event.contants';
+
+export const WEBHOOK_EVENTS: string[] = [
+  EventName.PAGE_CREATED,
+  EventName.PAGE_UPDATED,
+  EventName.PAGE_SOFT_DELETED,
+  EventName.PAGE_RESTORED,
+  EventName.PAGE_DELETED,
+  EventName.SPACE_CREATED,
+  EventName.SPACE_UPDATED,
+  EventName.SPACE_DELETED,
+];
+
+export const WEBHOOK_PING_EVENT = 'ping';
+
+export enum WebhookDeliveryStatus {
+  PENDING = 'pending',
+  SUCCESS = 'success',
+  RETRYING = 'retrying',
+  FAILED = 'failed',
+}
+
+export const WEBHOOK_REQUEST_TIMEOUT_MS = 10 * 1000;
+export const WEBHOOK_RESPONSE_BODY_LIMIT = 2000;
+export const WEBHOOK_DELIVERY_RETENTION_DAYS = 30;
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { WebhookService } from './webhook.service';
+import { WebhookProcessor } from './processors/webhook.processor';
+import { WebhookListener } from './listeners/webhook.listener';
+
+@Module({
+  providers: [WebhookService, WebhookProcessor, WebhookListener],
+  exports: [WebhookService],
+})
+export class WebhookModule {}
@@ -0,0 +1,195 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectQueue } from '@nestjs/bullmq';
+import { Queue } from 'bullmq';
+import { Interval } from '@nestjs/schedule';
+import { WebhookRepo } from '@docmost/db/repos/webhook/webhook.repo';
+import { WebhookDeliveryRepo } from '@docmost/db/repos/webhook/webhook-delivery.repo';
+import { PaginationOptions } from '@docmost/db/pagination/pagination-options';
+import { User, Webhook } from '@docmost/db/types/entity.types';
+import { QueueJob, QueueName } from '../queue/constants';
+import { IWebhookDeliveryJob } from '../queue/constants/queue.interface';
+import { CreateWebhookDto, UpdateWebhookDto } from './dto/webhook.dto';
+import { generateWebhookSecret, isPublicWebhookUrl } from './webhook.utils';
+import {
+  WEBHOOK_DELIVERY_RETENTION_DAYS,
+  WEBHOOK_PING_EVENT,
+  WebhookDeliveryStatus,
+} from './webhook.constants';
+
+@Injectable()
+export class WebhookService {
+  private readonly logger = new Logger(WebhookService.name);
+
+  constructor(
+    private readonly webhookRepo: WebhookRepo,
+    private readonly webhookDeliveryRepo: WebhookDeliveryRepo,
+    @InjectQueue(QueueName.WEBHOOK_QUEUE) private webhookQueue: Queue,
+  ) {}
+
+  async getWebhooks(workspaceId: string, pagination: PaginationOptions) {
+    return this.webhookRepo.getWebhooksPaginated(workspaceId, pagination);
+  }
+
+  async getWebhook(webhookId: string, workspaceId: string) {
+    const webhook = await this.webhookRepo.findById(webhookId, workspaceId, {
+      includeSecret: true,
+    });
+
+    if (!webhook) {
+      throw new NotFoundException('Webhook not found');
+    }
+
+    return webhook;
+  }
+
+  async createWebhook(
+    authUser: User,
+    workspaceId: string,
+    dto: CreateWebhookDto,
+  ) {
+    await this.validateWebhookUrl(dto.url);
+
+    return this.webhookRepo.insertWebhook({
+      name: dto.name,
+      url: dto.url,
+      events: dto.events,
+      isEnabled: dto.isEnabled ?? true,
+      secret: generateWebhookSecret(),
+      creatorId: authUser.id,
+      workspaceId,
+    });
+  }
+
+  async updateWebhook(workspaceId: string, dto: UpdateWebhookDto) {
+    await this.getWebhook(dto.webhookId, workspaceId);
+
+    if (dto.url) {
+      await this.validateWebhookUrl(dto.url);
+    }
+
+    return this.webhookRepo.updateWebhook(
+      {
+        name: dto.name,
+        url: dto.url,
+        events: dto.events,
+        isEnabled: dto.isEnabled,
+      },
+      dto.webhookId,
+      workspaceId,
+    );
+  }
+
+  private async validateWebhookUrl(url: string) {
+    if (!(await isPublicWebhookUrl(url))) {
+      throw new BadRequestException(
+        'Webhook URL must resolve to a public address',
+      );
+    }
+  }
+
+  async rotateSecret(webhookId: string, workspaceId: string) {
+    await this.getWebhook(webhookId, workspaceId);
+
+    const secret = generateWebhookSecret();
+    await this.webhookRepo.updateWebhook({ secret }, webhookId, workspaceId);
+
+    return { secret };
+  }
+
+  async deleteWebhook(webhookId: string, workspaceId: string) {
+    await this.getWebhook(webhookId, workspaceId);
+    await this.webhookRepo.deleteWebhook(webhookId, workspaceId);
+  }
+
+  async getDeliveries(
+    webhookId: string,
+    workspaceId: string,
+    pagination: PaginationOptions,
+  ) {
+    await this.getWebhook(webhookId, workspaceId);
+
+    return this.webhookDeliveryRepo.getDeliveriesPaginated(
+      webhookId,
+      workspaceId,
+      pagination,
+    );
+  }
+
+  async sendTestEvent(webhookId: string, workspaceId: string) {
+    const webhook = await this.getWebhook(webhookId, workspaceId);
+    return this.enqueueDelivery(webhook, WEBHOOK_PING_EVENT, {
+      webhookId: webhook.id,
+    });
+  }
+
+  async dispatch(
+    event: string,
+    workspaceId: string,
+    data: Record<string, any>,
+  ): Promise<void> {
+    const webhooks = await this.webhookRepo.findEnabledByEvent(
+      event,
+      workspaceId,
+    );
+
+    for (const webhook of webhooks) {
+      try {
+        await this.enqueueDelivery(webhook, event, data);
+      } catch (err) {
+        this.logger.error(
+          `Failed to queue ${event} delivery for webhook ${webhook.id}`,
+          err,
+        );
+      }
+    }
+  }
+
+  private async enqueueDelivery(
+    webhook: Webhook,
+    event: string,
+    data: Record<string, any>,
+  ) {
+    const delivery = await this.webhookDeliveryRepo.insertDelivery({
+      webhookId: webhook.id,
+      workspaceId: webhook.workspaceId,
+      event,
+      status: WebhookDeliveryStatus.PENDING,
+      payload: {
+        event,
+        workspaceId: webhook.workspaceId,
+        createdAt: new Date().toISOString(),
+        data,
+      },
+    });
+
+    await this.webhookQueue.add(
+      QueueJob.WEBHOOK_DELIVERY,
+      {
+        deliveryId: delivery.id,
+        webhookId: webhook.id,
+        workspaceId: webhook.workspaceId,
+      } as IWebhookDeliveryJob,
+      { jobId: `webhook-delivery-${delivery.id}` },
+    );
+
+    return delivery;
+  }
+
+  @Interval('webhook-delivery-cleanup', 24 * 60 * 60 * 1000) // every 24 hours
+  async cleanupOldDeliveries() {
+    try {
+      const retentionDate = new Date();
+      retentionDate.setDate(
+        retentionDate.getDate() - WEBHOOK_DELIVERY_RETENTION_DAYS,
+      );
+      await this.webhookDeliveryRepo.deleteDeliveriesBefore(retentionDate);
+    } catch (err) {
+      this.logger.error('Webhook delivery cleanup failed', err);
+    }
+  }
+}
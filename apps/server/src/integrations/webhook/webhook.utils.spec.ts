@@ -0,0 +1,80 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import {
+  isPublicAddress,
+  isPublicWebhookUrl,
+  postWebhook,
+} from './webhook.utils';
+
+describe('webhook utils', () => {
+  describe('isPublicAddress', () => {
+    it.each([
+      '127.0.0.1',
+      '10.1.2.3',
+      '172.16.0.1',
+      '192.168.1.1',
+      '169.254.169.254',
+      '100.64.0.1',
+      '0.0.0.0',
+      '::1',
+      '::',
+      'fd00::1',
+      'fe80::1',
+      '::ffff:127.0.0.1',
+    ])('rejects %s', (address) => {
+      expect(isPublicAddress(address)).toBe(false);
+    });
+
+    it.each(['93.184.215.14', '2606:4700:4700::1111'])(
+      'accepts %s',
+      (address) => {
+        expect(isPublicAddress(address)).toBe(true);
+      },
+    );
+  });
+
+  describe('isPublicWebhookUrl', () => {
+    it.each([
+      'http://localhost:3000/hook',
+      'http://127.0.0.1/hook',
+      'http://169.254.169.254/latest/meta-data',
+      'http://[::1]:8080/hook',
+      'not a url',
+    ])('rejects %s', async (url) => {
+      await expect(isPublicWebhookUrl(url)).resolves.toBe(false);
+    });
+
+    it('accepts public ip addresses', async () => {
+      await expect(
+        isPublicWebhookUrl('https://93.184.215.14/hook'),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('postWebhook', () => {
+    let server: Server;
+    let received: boolean;
+
+    beforeAll(async () => {
+      received = false;
+      server = createServer((req, res) => {
+        received = true;
+        res.end('ok');
+      });
+      await new Promise<void>((resolve) => server.listen(0, resolve));
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it('never delivers to private addresses', async () => {
+      const { port } = server.address() as AddressInfo;
+
+      await expect(
+        postWebhook(`http://localhost:${port}/hook`, {}, '{}'),
+      ).rejects.toThrow('Webhook URL does not resolve to a public address');
+      expect(received).toBe(false);
+    });
+  });
+});
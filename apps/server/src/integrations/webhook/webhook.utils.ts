@@ -0,0 +1,153 @@
+import { createHmac, randomBytes } from 'node:crypto';
+import * as dns from 'node:dns';
+import * as http from 'node:http';
+import * as https from 'node:https';
+import { BlockList, isIP, LookupFunction } from 'node:net';
+import {
+  WEBHOOK_REQUEST_TIMEOUT_MS,
+  WEBHOOK_RESPONSE_BODY_LIMIT,
+} from './webhook.constants';
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/*
+ * The signature covers both the timestamp and the raw body so receivers
+ * can reject replayed deliveries.
+ */
+export function signWebhookPayload(
+  secret: string,
+  timestamp: number,
+  body: string,
+): string {
+  const hmac = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${hmac}`;
+}
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  // ipv4-mapped addresses are checked against the ipv4 ranges above
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  blockedAddresses.addSubnet(network, prefix, 'ipv6');
+}
+
+/*
+ * Loopback, private, link-local (including cloud metadata endpoints)
+ * and other reserved ranges are never valid webhook targets.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return !blockedAddresses.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+export async function isPublicWebhookUrl(url: string): Promise<boolean> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  } catch {
+    return false;
+  }
+
+  try {
+    const addresses = await dns.promises.lookup(hostname, { all: true });
+    return addresses.every((entry) => isPublicAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+/*
+ * Checks the addresses the socket actually connects to, so a host cannot
+ * pass validation and then resolve to a private address.
+ */
+const lookupPublicAddress: LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, options, (err, address, family) => {
+    if (err) return callback(err, address, family);
+
+    const addresses = Array.isArray(address) ? address : [{ address }];
+    if (!addresses.every((entry) => isPublicAddress(entry.address))) {
+      return callback(
+        new Error(`${hostname} does not resolve to a public address`),
+        address,
+        family,
+      );
+    }
+
+    callback(null, address, family);
+  });
+};
+
+/*
+ * Redirects are not followed, a 3xx response counts as a failed delivery.
+ */
+export async function postWebhook(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+): Promise<{ status: number; body: string }> {
+  // ip literal hosts never go through the lookup below
+  if (!(await isPublicWebhookUrl(url))) {
+    throw new Error('Webhook URL does not resolve to a public address');
+  }
+
+  const target = new URL(url);
+  const request = target.protocol === 'https:' ? https.request : http.request;
+
+  return new Promise((resolve, reject) => {
+    const req = request(
+      target,
+      {
+        method: 'POST',
+        headers: {
+          ...headers,
+          'Content-Length': String(Buffer.byteLength(body)),
+        },
+        lookup: lookupPublicAddress,
+        signal: AbortSignal.timeout(WEBHOOK_REQUEST_TIMEOUT_MS),
+      },
+      (res) => {
+        let responseBody = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          if (responseBody.length < WEBHOOK_RESPONSE_BODY_LIMIT) {
+            responseBody += chunk;
+          }
+        });
+        res.on('end', () =>
+          resolve({
+            status: res.statusCode,
+            body: responseBody.slice(0, WEBHOOK_RESPONSE_BODY_LIMIT),
+          }),
+        );
+        res.on('error', reject);
+      },
+    );
+
+    req.on('error', reject);
+    req.end(body);
+  });
+}
@@ -75,6 +75,14 @@
         }
       });
 
+    // SCIM clients send application/scim+json bodies
+    const fastify = app.getHttpAdapter().getInstance();
+    fastify.addContentTypeParser(
+      'application/scim+json',
+      { parseAs: 'string' },
+      fastify.getDefaultJsonParser('error', 'error'),
+    );
+
     app.useGlobalPipes(
       new ValidationPipe({
         whitelist: true,
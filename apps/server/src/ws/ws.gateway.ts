@@ -10,7 +10,17 @@ import { TokenService } from '../core/auth/services/token.service';
 import { JwtPayload, JwtType } from '../core/auth/dto/jwt-payload';
 import { OnModuleDestroy } from '@nestjs/common';
 import { SpaceMemberRepo } from '@docmost/db/repos/space/space-member.repo';
+import { PagePermissionRepo } from '@docmost/db/repos/page/page-permission.repo';
+import SpaceAbilityFactory from '../core/casl/abilities/space-ability.factory';
+import {
+  SpaceCaslAction,
+  SpaceCaslSubject,
+} from '../core/casl/interfaces/space-ability.type';
 import * as cookie from 'cookie';
+import { validate as isValidUUID } from 'uuid';
+import { PageRepo } from '@docmost/db/repos/page/page.repo';
+
+const PAGE_ROOM_PREFIX = 'page-';
 
 @WebSocketGateway({
   cors: { origin: '*' },
@@ -22,6 +32,9 @@ export class WsGateway implements OnGatewayConnection, OnModuleDestroy {
   constructor(
     private tokenService: TokenService,
     private spaceMemberRepo: SpaceMemberRepo,
+    private pagePermissionRepo: PagePermissionRepo,
+    private pageRepo: PageRepo,
+    private spaceAbility: SpaceAbilityFactory,
   ) {}
 
   async handleConnection(client: Socket, ...args: any[]): Promise<void> {
@@ -37,10 +50,14 @@ export class WsGateway implements OnGatewayConnection, OnModuleDestroy {
 
       const userSpaceIds = await this.spaceMemberRepo.getUserSpaceIds(userId);
 
+      client.data.userId = userId;
+      client.data.workspaceId = workspaceId;
+
       const workspaceRoom = `workspace-${workspaceId}`;
+      const userRoom = this.getUserRoomName(userId);
       const spaceRooms = userSpaceIds.map((id) => this.getSpaceRoomName(id));
 
-      client.join([workspaceRoom, ...spaceRooms]);
+      client.join([workspaceRoom, userRoom, ...spaceRooms]);
     } catch (err) {
       client.emit('Unauthorized');
       client.disconnect();
@@ -48,27 +65,94 @@ export class WsGateway implements OnGatewayConnection, OnModuleDestroy {
   }
 
   @SubscribeMessage('message')
-  handleMessage(client: Socket, data: any): void {
+  async handleMessage(client: Socket, data: any): Promise<void> {
     const spaceEvents = [
       'updateOne',
       'addTreeNode',
       'moveTreeNode',
       'deleteTreeNode',
+      'refetchRootTreeNodeEvent',
     ];
+    const pageEvents = ['invalidateComment', 'resolveComment'];
+
+    if (pageEvents.includes(data?.operation)) {
+      if (!isValidUUID(data.pageId)) return;
+
+      // only clients that passed the permission check in join-room are in page rooms
+      const room = this.getPageRoomName(data.pageId);
+      if (!client.rooms.has(room)) return;
+
+      client.broadcast.to(room).emit('message', data);
+      return;
+    }
 
-    if (spaceEvents.includes(data?.operation) && data?.spaceId) {
-      const room = this.getSpaceRoomName(data.spaceId);
+    if (!spaceEvents.includes(data?.operation) || !isValidUUID(data?.spaceId)) {
+      return;
+    }
+
+    // senders can only broadcast to spaces they are a member of
+    if (!(await this.canBroadcastToSpace(client, data.spaceId))) return;
+    const room = this.getSpaceRoomName(data.spaceId);
+
+    const pageId = this.getEventPageId(data);
+    if (pageId && !isValidUUID(pageId)) return;
+
+    const restrictions = pageId
+      ? await this.pagePermissionRepo.getPageRestrictions(
+          pageId,
+          client.data.userId,
+        )
+      : [];
+
+    if (restrictions.length === 0) {
       client.broadcast.to(room).emit('message', data);
       return;
     }
 
-    client.broadcast.emit('message', data);
+    // restricted pages are only announced to users who can read them
+    const sockets = await this.server.in(room).fetchSockets();
+    for (const socket of sockets) {
+      if (socket.id === client.id || !socket.data.userId) continue;
+
+      const ability = await this.spaceAbility
+        .createForPage(
+          { id: socket.data.userId },
+          { id: pageId, spaceId: data.spaceId },
+        )
+        .catch(() => null);
+
+      if (ability?.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+        socket.emit('message', data);
+      }
+    }
   }
 
+  /*
+   * Page rooms carry comment events of a single page.
+   * Joining requires read access to the page.
+   */
   @SubscribeMessage('join-room')
-  handleJoinRoom(client: Socket, @MessageBody() roomName: string): void {
-    // if room is a space, check if user has permissions
-    //client.join(roomName);
+  async handleJoinRoom(
+    client: Socket,
+    @MessageBody() roomName: string,
+  ): Promise<void> {
+    if (typeof roomName !== 'string' || !client.data.userId) return;
+
+    const pageId = roomName.startsWith(PAGE_ROOM_PREFIX)
+      ? roomName.slice(PAGE_ROOM_PREFIX.length)
+      : null;
+    if (!pageId || !isValidUUID(pageId)) return;
+
+    const page = await this.pageRepo.findById(pageId);
+    if (!page || page.workspaceId !== client.data.workspaceId) return;
+
+    const ability = await this.spaceAbility
+      .createForPage({ id: client.data.userId }, page)
+      .catch(() => null);
+
+    if (ability?.can(SpaceCaslAction.Read, SpaceCaslSubject.Page)) {
+      client.join(this.getPageRoomName(page.id));
+    }
   }
 
   @SubscribeMessage('leave-room')
@@ -82,7 +166,50 @@ export class WsGateway implements OnGatewayConnection, OnModuleDestroy {
     }
   }
 
+  emitToUser(userId: string, data: any): void {
+    this.server?.to(this.getUserRoomName(userId)).emit('message', data);
+  }
+
+  /*
+   * Space rooms are joined on connect, a user who became a member
+   * of the space afterwards is added once their membership is confirmed.
+   */
+  async canBroadcastToSpace(client: Socket, spaceId: string) {
+    const room = this.getSpaceRoomName(spaceId);
+    if (client.rooms.has(room)) return true;
+
+    const userSpaceRoles = await this.spaceMemberRepo.getUserSpaceRoles(
+      client.data.userId,
+      spaceId,
+    );
+    if (!userSpaceRoles) return false;
+
+    client.join(room);
+    return true;
+  }
+
   getSpaceRoomName(spaceId: string): string {
     return `space-${spaceId}`;
   }
+
+  getUserRoomName(userId: string): string {
+    return `user-${userId}`;
+  }
+
+  getPageRoomName(pageId: string): string {
+    return `${PAGE_ROOM_PREFIX}${pageId}`;
+  }
+
+  getEventPageId(data: any): string | undefined {
+    switch (data.operation) {
+      case 'updateOne':
+        return data.id;
+      case 'addTreeNode':
+        return data.payload?.data?.id;
+      case 'moveTreeNode':
+        return data.payload?.id;
+      case 'deleteTreeNode':
+        return data.payload?.node?.id;
+    }
+  }
 }
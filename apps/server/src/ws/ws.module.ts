@@ -5,5 +5,6 @@ import { TokenModule } from '../core/auth/token.module';
 @Module({
   imports: [TokenModule],
   providers: [WsGateway],
+  exports: [WsGateway],
 })
 export class WsModule {}
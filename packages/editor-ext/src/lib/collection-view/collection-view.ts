@@ -0,0 +1,149 @@
+import { mergeAttributes, Node } from "@tiptap/core";
+import { ReactNodeViewRenderer } from "@tiptap/react";
+
+export type CollectionViewLayout = "table" | "board" | "list";
+
+export interface CollectionViewFilter {
+  // a page property id, or "title"
+  propertyId: string;
+  operator: "is" | "is_not" | "contains" | "is_empty" | "is_not_empty";
+  value?: unknown;
+}
+
+export interface CollectionViewOptions {
+  HTMLAttributes: Record<string, any>;
+  view: any;
+}
+
+export interface CollectionViewAttributes {
+  layout?: CollectionViewLayout;
+  groupBy?: string | null;
+  sortBy?: string | null;
+  sortDirection?: "asc" | "desc";
+  filters?: CollectionViewFilter[];
+  hiddenProperties?: string[];
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    collectionView: {
+      insertCollectionView: (
+        attributes?: CollectionViewAttributes,
+      ) => ReturnType;
+    };
+  }
+}
+
+function parseJsonAttribute<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+export const CollectionView = Node.create<CollectionViewOptions>({
+  name: "collectionView",
+
+  addOptions() {
+    return {
+      HTMLAttributes: {},
+      view: null,
+    };
+  },
+
+  group: "block",
+  atom: true,
+  draggable: false,
+
+  addAttributes() {
+    return {
+      layout: {
+        default: "table",
+        parseHTML: (element) => element.getAttribute("data-layout"),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-layout": attributes.layout,
+        }),
+      },
+      groupBy: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-group-by"),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-group-by": attributes.groupBy,
+        }),
+      },
+      sortBy: {
+        default: null,
+        parseHTML: (element) => element.getAttribute("data-sort-by"),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-sort-by": attributes.sortBy,
+        }),
+      },
+      sortDirection: {
+        default: "asc",
+        parseHTML: (element) => element.getAttribute("data-sort-direction"),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-sort-direction": attributes.sortDirection,
+        }),
+      },
+      filters: {
+        default: [],
+        parseHTML: (element) =>
+          parseJsonAttribute(element.getAttribute("data-filters"), []),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-filters": JSON.stringify(attributes.filters ?? []),
+        }),
+      },
+      hiddenProperties: {
+        default: [],
+        parseHTML: (element) =>
+          parseJsonAttribute(
+            element.getAttribute("data-hidden-properties"),
+            [],
+          ),
+        renderHTML: (attributes: CollectionViewAttributes) => ({
+          "data-hidden-properties": JSON.stringify(
+            attributes.hiddenProperties ?? [],
+          ),
+        }),
+      },
+    };
+  },
+
+  parseHTML() {
+    return [
+      {
+        tag: `div[data-type="${this.name}"]`,
+      },
+    ];
+  },
+
+  renderHTML({ HTMLAttributes }) {
+    return [
+      "div",
+      mergeAttributes(
+        { "data-type": this.name },
+        this.options.HTMLAttributes,
+        HTMLAttributes,
+      ),
+    ];
+  },
+
+  addCommands() {
+    return {
+      insertCollectionView:
+        (attributes) =>
+        ({ commands }) => {
+          return commands.insertContent({
+            type: this.name,
+            attrs: attributes,
+          });
+        },
+    };
+  },
+
+  addNodeView() {
+    return ReactNodeViewRenderer(this.options.view);
+  },
+});
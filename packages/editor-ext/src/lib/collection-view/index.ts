@@ -0,0 +1,7 @@
+export { CollectionView } from "./collection-view";
+export type {
+  CollectionViewAttributes,
+  CollectionViewFilter,
+  CollectionViewLayout,
+  CollectionViewOptions,
+} from "./collection-view";
@@ -0,0 +1,2 @@
+export { TaskItem } from "./task-item";
+export type { TaskItemOptions } from "./task-item";
@@ -0,0 +1,138 @@
+import TiptapTaskItem, {
+  TaskItemOptions as TiptapTaskItemOptions,
+} from "@tiptap/extension-task-item";
+import { findParentNodeClosestToPos } from "@tiptap/core";
+
+export interface TaskItemOptions extends TiptapTaskItemOptions {
+  // called when the due date of a task is clicked, e.g. to open a date picker
+  onDueDateClick:
+    | ((props: { pos: number; dueDate: string | null }) => void)
+    | null;
+  formatDueDate: (dueDate: string) => string;
+}
+
+declare module "@tiptap/core" {
+  interface Commands<ReturnType> {
+    taskItemDueDate: {
+      /**
+       * Sets the due date (YYYY-MM-DD) of the task item at `pos`,
+       * or of the one containing the selection.
+       */
+      setTaskDueDate: (dueDate: string | null, pos?: number) => ReturnType;
+    };
+  }
+}
+
+function isOverdue(dueDate: string): boolean {
+  const today = new Date();
+  const todayKey = [
+    today.getFullYear(),
+    String(today.getMonth() + 1).padStart(2, "0"),
+    String(today.getDate()).padStart(2, "0"),
+  ].join("-");
+  return dueDate < todayKey;
+}
+
+export const TaskItem = TiptapTaskItem.extend<TaskItemOptions>({
+  addOptions() {
+    return {
+      ...this.parent?.(),
+      onDueDateClick: null,
+      formatDueDate: (dueDate) => dueDate,
+    };
+  },
+
+  addAttributes() {
+    return {
+      ...this.parent?.(),
+      dueDate: {
+        default: null,
+        keepOnSplit: false,
+        parseHTML: (element) => element.getAttribute("data-due-date"),
+        renderHTML: (attributes) =>
+          attributes.dueDate ? { "data-due-date": attributes.dueDate } : {},
+      },
+    };
+  },
+
+  addCommands() {
+    return {
+      ...this.parent?.(),
+      setTaskDueDate:
+        (dueDate, pos) =>
+        ({ state, tr, dispatch }) => {
+          const $pos =
+            pos === undefined ? state.selection.$from : state.doc.resolve(pos);
+          const taskItem =
+            state.doc.nodeAt($pos.pos)?.type.name === this.name
+              ? { pos: $pos.pos, node: state.doc.nodeAt($pos.pos) }
+              : findParentNodeClosestToPos(
+                  $pos,
+                  (node) => node.type.name === this.name,
+                );
+
+          if (!taskItem) {
+            return false;
+          }
+
+          if (dispatch) {
+            tr.setNodeMarkup(taskItem.pos, undefined, {
+              ...taskItem.node.attrs,
+              dueDate,
+            });
+          }
+          return true;
+        },
+    };
+  },
+
+  addNodeView() {
+    const createNodeView = this.parent?.();
+    if (!createNodeView) return null;
+
+    return (props) => {
+      const nodeView = createNodeView(props);
+      const dueDate = document.createElement("span");
+      dueDate.contentEditable = "false";
+      dueDate.classList.add("task-due-date");
+
+      const renderDueDate = (value: string | null) => {
+        dueDate.hidden = !value;
+        dueDate.textContent = value ? this.options.formatDueDate(value) : "";
+        dueDate.dataset.overdue = String(
+          !!value && !props.node.attrs.checked && isOverdue(value),
+        );
+      };
+
+      renderDueDate(props.node.attrs.dueDate);
+
+      dueDate.addEventListener("mousedown", (event) => event.preventDefault());
+      dueDate.addEventListener("click", () => {
+        const pos = typeof props.getPos === "function" ? props.getPos() : null;
+        if (typeof pos !== "number" || !props.editor.isEditable) return;
+        this.options.onDueDateClick?.({
+          pos,
+          dueDate: props.node.attrs.dueDate,
+        });
+      });
+
+      nodeView.dom.appendChild(dueDate);
+
+      return {
+        ...nodeView,
+        update: (node, decorations, innerDecorations) => {
+          const updated = nodeView.update?.(
+            node,
+            decorations,
+            innerDecorations,
+          );
+          if (updated) {
+            props.node = node;
+            renderDueDate(node.attrs.dueDate);
+          }
+          return updated;
+        },
+      };
+    };
+  },
+});